@@ -3,11 +3,13 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Upload, Loader2, AlertCircle, FileStack, ArrowRight, CheckCircle2, WifiOff, RefreshCcw, Database, LogOut, User } from 'lucide-react';
 import { analyzeDocument } from './services/geminiService';
 import { databaseService } from './services/database';
-import { validateGLPosting, GLPostingRequest, ValidationResult } from './services/accountingValidation';
+import { postDraftVouchers, postVoucher, inferDocumentJournalType } from './services/voucherNumbering';
 import { isFirebaseConfigured } from './services/firebase';
+import { lockPeriod, unlockPeriod } from './services/periodLock';
+import { branchTag } from './services/branches';
 import { useAuth, AuthProvider } from './contexts/AuthContext';
 import Login from './components/Login';
-import { AnalysisState, DocumentRecord, Staff, AccountingResponse, Client, IssueTicket, VendorRule, PostedGLEntry, PublishedReport, FixedAsset, WorkflowStatus, ActivityLog } from './types';
+import { AnalysisState, DocumentRecord, Staff, AccountingResponse, Client, IssueTicket, VendorRule, PostedGLEntry, PublishedReport, FixedAsset, WorkflowStatus, ActivityLog, JournalType } from './types';
 import { Task, TaskStatus } from './types/tasks';
 
 // Toast and Accessibility
@@ -210,54 +212,51 @@ const AppContent: React.FC = () => {
     };
 
     // SYSTEMATIC POSTING ENGINE with Validation
-    const handlePostJournalEntry = async (entries: PostedGLEntry[]) => {
+    // Entries are grouped by their draft doc_no and posted as numbered vouchers;
+    // resolves to true only when every voucher was posted
+    const handlePostJournalEntry = async (entries: PostedGLEntry[], journalType: JournalType = 'JV'): Promise<boolean> => {
         const clientId = selectedClientId || 'C001'; // Fallback
         const userId = user?.uid || 'system';
 
-        // CRITICAL: Validate GL entries before posting
-        // Derive period from first entry date (format: "2024-02")
-        const firstEntryDate = entries[0]?.date || new Date().toISOString().slice(0, 10);
-        const periodMonth = firstEntryDate.slice(0, 7); // "YYYY-MM"
-
-        const validationRequest: GLPostingRequest = {
+        // CRITICAL: postDraftVouchers validates each voucher before issuing its number
+        const results = await postDraftVouchers(
             clientId,
-            entries: entries.map(e => ({
-                ...e,
-                clientId
-            })),
-            userId,
-            periodMonth,
-            sourceDocId: entries[0]?.doc_no
-        };
-
-        const validation = await validateGLPosting(validationRequest);
+            journalType,
+            entries.map(({ id, ...e }) => ({ ...e, clientId })),
+            userId
+        );
 
         // Show warnings even if valid
-        if (validation.warnings.length > 0) {
-            validation.warnings.forEach(w => {
-                showNotification(`⚠️ ${w.message}`, 'error');
-            });
-        }
+        results.flatMap(r => r.validation.warnings).forEach(w => {
+            showNotification(`⚠️ ${w.message}`, 'error');
+        });
 
-        // Block posting if validation fails
-        if (!validation.isValid) {
-            const errorMessages = validation.errors.map(e => e.message).join(', ');
-            showNotification(`❌ ไม่สามารถลงบัญชีได้: ${errorMessages}`, 'error');
-            await logAction('POST_GL', `GL posting blocked: ${errorMessages}`, 'error');
-            return;
+        // Report vouchers that were blocked
+        const errorMessages = results.filter(r => !r.success).flatMap(r => r.validation.errors.map(e => e.message));
+        if (errorMessages.length > 0) {
+            showNotification(`❌ ไม่สามารถลงบัญชีได้: ${errorMessages.join(', ')}`, 'error');
+            await logAction('POST_GL', `GL posting blocked: ${errorMessages.join(', ')}`, 'error');
         }
 
-        // Save GL to Local State (Critical for immediate UI update)
-        setGlEntries(prev => [...prev, ...entries]);
+        const postedEntries: PostedGLEntry[] = results.flatMap(result => {
+            if (!result.success || !result.docNo) return [];
+            return entries.filter(e => e.doc_no === result.draftNo).map((e, i) => ({
+                ...e,
+                id: result.ids[i],
+                clientId,
+                doc_no: result.docNo!,
+                reference_no: result.draftNo,
+                journal_type: journalType,
+            }));
+        });
+        if (postedEntries.length === 0) return false;
 
-        // Persist each with Client ID
-        for (const entry of entries) {
-            await databaseService.addGLEntry({ ...entry, clientId });
-        }
+        // Save GL to Local State (Critical for immediate UI update)
+        setGlEntries(prev => [...prev, ...postedEntries]);
 
         // 2. Auto-Detect Fixed Assets
         const newAssets: FixedAsset[] = [];
-        entries.forEach(entry => {
+        postedEntries.forEach(entry => {
             if (entry.account_code.startsWith('12') && !entry.account_code.endsWith('01') && entry.debit > 0) {
                 // Trigger auto creation of asset draft
                 const newAsset: FixedAsset = {
@@ -284,10 +283,11 @@ const AppContent: React.FC = () => {
             }
             showNotification(`บันทึกบัญชีและสร้างทะเบียนทรัพย์สินอัตโนมัติ ${newAssets.length} รายการ`, 'success');
         } else {
-            showNotification(`บันทึกรายการบัญชีสำเร็จ ${entries.length} รายการ`, 'success');
+            showNotification(`บันทึกรายการบัญชีสำเร็จ ${postedEntries.length} รายการ`, 'success');
         }
 
-        await logAction('POST_GL', `Posted ${entries.length} journal entries.`);
+        await logAction('POST_GL', `Posted ${postedEntries.length} journal entries.`);
+        return errorMessages.length === 0;
     };
 
     // Handler to update Client Workflow (Status)
@@ -376,6 +376,7 @@ const AppContent: React.FC = () => {
                         account_code: line.account_code,
                         account_name: line.account_name_th,
                         department_code: line.department_code,
+                        ...branchTag(doc.ai_data!, line),
                         debit: line.account_side === 'DEBIT' ? line.amount : 0,
                         credit: line.account_side === 'CREDIT' ? line.amount : 0,
                         system_generated: false
@@ -394,33 +395,31 @@ const AppContent: React.FC = () => {
         const allPostedEntries: PostedGLEntry[] = [];
 
         for (const [docId, { entries, docNo, clientId }] of docEntriesMap) {
-            // CRITICAL: Validate GL entries before posting
-            // Derive period from first entry date
-            const firstEntryDate = entries[0]?.date || new Date().toISOString().slice(0, 10);
-            const periodMonth = firstEntryDate.slice(0, 7); // "YYYY-MM"
-
-            const validationRequest: GLPostingRequest = {
+            // CRITICAL: postVoucher validates the entries before issuing the voucher number
+            const journalType = inferDocumentJournalType(entries);
+            const result = await postVoucher({
                 clientId,
-                entries,
+                journalType,
+                date: entries[0]?.date || new Date().toISOString().slice(0, 10),
+                entries: entries.map(({ id, doc_no, ...e }) => ({ ...e, reference_no: docNo })),
                 userId,
-                periodMonth,
                 sourceDocId: docNo
-            };
-
-            const validation = await validateGLPosting(validationRequest);
+            });
 
-            if (!validation.isValid) {
-                const errorMessages = validation.errors.map(e => e.message).join(', ');
+            if (!result.success || !result.docNo) {
+                const errorMessages = result.validation.errors.map(e => e.message).join(', ');
                 console.warn(`Validation failed for ${docNo}: ${errorMessages}`);
                 failedDocs.push(docNo);
                 continue;
             }
 
-            // Post valid entries
-            for (const entry of entries) {
-                await databaseService.addGLEntry(entry);
-            }
-            allPostedEntries.push(...entries);
+            allPostedEntries.push(...entries.map((e, i) => ({
+                ...e,
+                id: result.ids[i],
+                doc_no: result.docNo!,
+                reference_no: docNo,
+                journal_type: journalType
+            })));
             successDocs.push(docId);
         }
 
@@ -481,11 +480,13 @@ const AppContent: React.FC = () => {
             account_code: line.account_code,
             account_name: line.account_name_th,
             department_code: line.department_code, // Capture Dept Code
+            ...branchTag(data, line),
             debit: line.account_side === 'DEBIT' ? line.amount : 0,
             credit: line.account_side === 'CREDIT' ? line.amount : 0
         }));
 
-        await handlePostJournalEntry(newGLEntries); // Persist
+        // Persist; the document stays pending when the voucher is rejected
+        if (!await handlePostJournalEntry(newGLEntries, inferDocumentJournalType(newGLEntries))) return;
 
         // 2. Update Document Status
         const updatedDocs = documents.map(d => {
@@ -526,6 +527,18 @@ const AppContent: React.FC = () => {
     // --- LOCKING & CLOSING LOGIC ---
     const handleLockPeriod = async () => {
         if (!selectedClientId) return;
+        const client = clients.find(c => c.id === selectedClientId);
+        if (client?.current_workflow) {
+            // period_locks is what Firestore rules and the posting API enforce
+            await lockPeriod({
+                clientId: client.id,
+                period: client.current_workflow.month,
+                userId: CURRENT_USER_ID,
+                userName: CURRENT_USER_NAME,
+                userRole: user?.role,
+                clientName: client.name,
+            });
+        }
         handleUpdateClientStatus({
             is_locked: true,
             closing_status: 'Filed/Closed'
@@ -534,6 +547,33 @@ const AppContent: React.FC = () => {
         await logAction('CLOSE_PERIOD', `Locked period for client ID: ${selectedClientId}`);
     };
 
+    const handleUnlockPeriod = async () => {
+        const client = clients.find(c => c.id === selectedClientId);
+        const period = client?.current_workflow?.month;
+        if (!client || !period) return;
+
+        const reason = window.prompt(`เหตุผลในการเปิดงวดบัญชี ${period}`);
+        if (!reason) return;
+
+        const result = await unlockPeriod({
+            clientId: client.id,
+            period,
+            reason,
+            userId: CURRENT_USER_ID,
+            userName: CURRENT_USER_NAME,
+            userRole: user?.role,
+            clientName: client.name,
+        });
+        if (!result.success) {
+            showNotification(result.messageTh, 'error');
+            return;
+        }
+
+        handleUpdateClientStatus({ is_locked: false, closing_status: 'In Progress' });
+        showNotification(result.messageTh);
+        await logAction('CLOSE_PERIOD', `Unlocked period ${period} for client ID: ${client.id}: ${reason}`);
+    };
+
     // --- AUTOMATION ENGINE (The Brain) ---
     const applyVendorRules = (aiResult: AccountingResponse): AccountingResponse => {
         const vendorName = aiResult.parties.counterparty.name.toLowerCase();
@@ -819,6 +859,7 @@ const AppContent: React.FC = () => {
             status: 'pending_review',
             assigned_to: null,
             client_name: 'Manual Entry',
+            clientId: selectedClientId || 'C001',
             amount: 0,
             ai_data: {
                 status: 'needs_review',
@@ -1064,6 +1105,7 @@ const AppContent: React.FC = () => {
 
                     // SYSTEMATIC: Pass action handlers for Locking & GL Posting & Status Updates
                     onLockPeriod={handleLockPeriod}
+                    onUnlockPeriod={handleUnlockPeriod}
                     onPostJournal={handlePostJournalEntry}
                     onBatchApprove={handleBatchApprove}
                     onAddAsset={handleAddAsset}
@@ -1245,6 +1287,7 @@ const AppContent: React.FC = () => {
                     glEntries={glEntries}
                     selectedClientId={selectedClientId}
                     onShowNotification={showNotification}
+                    onPosted={entries => setGlEntries(prev => [...prev, ...entries])}
                 />;
             case 'reports':
                 // SYSTEMATIC: Pass GL entries to global reporting view
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BankTransaction, Client, DocumentRecord, PostedGLEntry } from '../types';
+import { Clock, ChevronDown, ChevronRight, ShieldAlert, Loader2 } from 'lucide-react';
+import { databaseService } from '../services/database';
+import { AGING_BUCKETS, SubledgerType, generateAgingReport, estimateBadDebtProvision } from '../services/subledger';
+import { calculateProvisions } from '../services/periodClosing';
+import { postDraftVouchers } from '../services/voucherNumbering';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  documents: DocumentRecord[];
+  glEntries: PostedGLEntry[];
+  onPosted?: (entries: PostedGLEntry[]) => void;
+}
+
+const AgingReport: React.FC<Props> = ({ client, documents, glEntries, onPosted }) => {
+  const { user } = useAuth();
+  const [ledger, setLedger] = useState<SubledgerType>('AR');
+  const [asOfDate, setAsOfDate] = useState(new Date().toISOString().split('T')[0]);
+  const [bankTransactions, setBankTransactions] = useState<BankTransaction[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+      databaseService.getBankTransactionsByClient(client.id)
+          .then(setBankTransactions)
+          .catch(e => console.error('Failed to load bank transactions', e));
+  }, [client.id]);
+
+  const report = useMemo(
+      () => generateAgingReport(client.id, ledger, documents, bankTransactions, asOfDate),
+      [client.id, ledger, documents, bankTransactions, asOfDate]
+  );
+
+  const provision = useMemo(
+      () => ledger === 'AR' ? estimateBadDebtProvision(report, glEntries) : null,
+      [ledger, report, glEntries]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const handlePostProvision = async () => {
+      if (!provision || provision.items.length === 0) return;
+      if (!window.confirm(`บันทึกค่าเผื่อหนี้สงสัยจะสูญเพิ่ม ${formatCurrency(provision.items[0].estimatedAmount)} บาท?`)) return;
+
+      setIsPosting(true);
+      try {
+          const { entries } = calculateProvisions(provision.items, client.id, asOfDate.slice(0, 7));
+          const results = await postDraftVouchers(client.id, 'JV', entries, user?.staffId || user?.uid || 'system');
+          const failed = results.find(r => !r.success);
+          if (failed) {
+              alert(failed.validation.errors.map(e => e.messageTh).join('\n'));
+              return;
+          }
+          onPosted?.(entries.map((e, i) => ({ ...e, id: results[0].ids[i], doc_no: results[0].docNo!, journal_type: 'JV' as const })));
+      } finally {
+          setIsPosting(false);
+      }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        {/* Controls */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <Clock className="text-blue-600" size={20} />
+                รายงานอายุ{ledger === 'AR' ? 'ลูกหนี้' : 'เจ้าหนี้'} (Aging Report)
+            </h3>
+            <div className="flex items-center gap-3">
+                <div className="flex bg-slate-100 p-1 rounded-lg">
+                    {(['AR', 'AP'] as SubledgerType[]).map(l => (
+                        <button
+                            key={l}
+                            onClick={() => { setLedger(l); setExpanded(null); }}
+                            className={`px-3 py-1.5 rounded-md text-sm font-semibold ${ledger === l ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500'}`}
+                        >
+                            {l === 'AR' ? 'ลูกหนี้ (AR)' : 'เจ้าหนี้ (AP)'}
+                        </button>
+                    ))}
+                </div>
+                <label className="text-sm text-slate-500">ณ วันที่</label>
+                <input
+                    type="date"
+                    value={asOfDate}
+                    onChange={e => setAsOfDate(e.target.value)}
+                    className="border border-slate-200 rounded-lg px-3 py-1.5 text-sm"
+                />
+            </div>
+        </div>
+
+        {/* Aging table */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                    <tr>
+                        <th className="px-4 py-3 text-left">คู่ค้า / เลขผู้เสียภาษี</th>
+                        {AGING_BUCKETS.map(b => <th key={b.bucket} className="px-4 py-3 text-right">{b.label}</th>)}
+                        <th className="px-4 py-3 text-right">เครดิตคงเหลือ</th>
+                        <th className="px-4 py-3 text-right">ยอดคงค้าง</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                    {report.counterparties.length === 0 && (
+                        <tr><td colSpan={AGING_BUCKETS.length + 3} className="px-4 py-8 text-center text-slate-400">ไม่มีรายการคงค้าง</td></tr>
+                    )}
+                    {report.counterparties.map(c => (
+                        <React.Fragment key={c.taxId}>
+                            <tr className="hover:bg-slate-50 cursor-pointer" onClick={() => setExpanded(expanded === c.taxId ? null : c.taxId)}>
+                                <td className="px-4 py-3">
+                                    <div className="flex items-center gap-2 font-medium text-slate-800">
+                                        {expanded === c.taxId ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                        {c.name}
+                                    </div>
+                                    <div className="pl-6 text-xs font-mono text-slate-400">{c.taxId}</div>
+                                </td>
+                                {AGING_BUCKETS.map(b => (
+                                    <td key={b.bucket} className={`px-4 py-3 text-right font-mono ${b.bucket === '90+' && c.buckets[b.bucket] > 0 ? 'text-red-600 font-semibold' : 'text-slate-700'}`}>
+                                        {c.buckets[b.bucket] ? formatCurrency(c.buckets[b.bucket]) : '-'}
+                                    </td>
+                                ))}
+                                <td className="px-4 py-3 text-right font-mono text-emerald-600">{c.unappliedCredits ? formatCurrency(c.unappliedCredits) : '-'}</td>
+                                <td className="px-4 py-3 text-right font-mono font-bold text-slate-800">{formatCurrency(c.balance)}</td>
+                            </tr>
+                            {expanded === c.taxId && c.items.map(item => (
+                                <tr key={item.docId} className="bg-slate-50/60 text-xs text-slate-600">
+                                    <td className="pl-12 pr-4 py-2">
+                                        <span className="font-mono">{item.docNo}</span>
+                                        <span className="ml-2 text-slate-400">{item.issueDate} · ครบกำหนด {item.dueDate}</span>
+                                    </td>
+                                    <td colSpan={AGING_BUCKETS.length} className="px-4 py-2 text-right">
+                                        ยอดเอกสาร {formatCurrency(item.originalAmount)}
+                                        {item.paidAmount > 0 && <> · ชำระแล้ว {formatCurrency(item.paidAmount)} ({item.payments.length} ครั้ง)</>}
+                                        {item.creditedAmount > 0 && <> · ลดหนี้ {formatCurrency(item.creditedAmount)}</>}
+                                        <> · เกินกำหนด {item.daysOverdue} วัน</>
+                                    </td>
+                                    <td />
+                                    <td className="px-4 py-2 text-right font-mono">{formatCurrency(item.outstanding)}</td>
+                                </tr>
+                            ))}
+                        </React.Fragment>
+                    ))}
+                </tbody>
+                <tfoot className="bg-slate-50 border-t-2 border-slate-200 font-bold text-slate-800">
+                    <tr>
+                        <td className="px-4 py-3">รวม</td>
+                        {AGING_BUCKETS.map(b => <td key={b.bucket} className="px-4 py-3 text-right font-mono">{formatCurrency(report.totals[b.bucket])}</td>)}
+                        <td className="px-4 py-3 text-right font-mono">{formatCurrency(report.totals.unappliedCredits)}</td>
+                        <td className="px-4 py-3 text-right font-mono">{formatCurrency(report.totals.balance)}</td>
+                    </tr>
+                </tfoot>
+            </table>
+        </div>
+
+        {/* Bad debt provision (AR only) */}
+        {provision && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6 flex justify-between items-center">
+                <div>
+                    <h4 className="font-bold text-slate-800 flex items-center gap-2">
+                        <ShieldAlert className="text-amber-500" size={18} />
+                        ค่าเผื่อหนี้สงสัยจะสูญตามอายุลูกหนี้
+                    </h4>
+                    <p className="text-sm text-slate-500 mt-1">
+                        ต้องมี {formatCurrency(provision.requiredAllowance)} · ยอดในบัญชี {formatCurrency(provision.existingAllowance)}
+                        {provision.items.length > 0 && <> · ตั้งเพิ่ม <span className="font-semibold text-amber-600">{formatCurrency(provision.items[0].estimatedAmount)}</span> บาท</>}
+                    </p>
+                </div>
+                <button
+                    onClick={handlePostProvision}
+                    disabled={provision.items.length === 0 || isPosting || client.current_workflow?.is_locked}
+                    className="bg-amber-500 text-white px-4 py-2 rounded-lg text-sm font-semibold hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                    {isPosting && <Loader2 className="animate-spin" size={16} />}
+                    บันทึกค่าเผื่อฯ
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default AgingReport;
@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AmortizationSchedule, AmortizationScheduleType, Client, DocumentRecord, PostedGLEntry } from '../types';
+import { CalendarClock, Plus, Sparkles, Loader2, Pencil, XCircle } from 'lucide-react';
+import { databaseService } from '../services/database';
+import {
+  createSchedule,
+  createScheduleFromSuggestion,
+  DEFAULT_SCHEDULE_ACCOUNTS,
+  recognizeSchedules,
+  SCHEDULE_TYPE_NAMES,
+  ScheduleInput,
+  suggestScheduleFromDocument,
+  terminateSchedule,
+  updateSchedule,
+} from '../services/amortizationSchedules';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  documents: DocumentRecord[];
+  onPosted: (entries: PostedGLEntry[]) => void;
+}
+
+const emptyForm = (): ScheduleInput => ({
+  type: 'prepaid',
+  description: '',
+  vendorOrCustomer: '',
+  originalAmount: 0,
+  periodMonths: 12,
+  startDate: `${new Date().toISOString().slice(0, 7)}-01`,
+  accountCode: DEFAULT_SCHEDULE_ACCOUNTS.prepaid,
+  expenseAccountCode: '',
+});
+
+const STATUS_LABELS: Record<AmortizationSchedule['status'], { text: string; className: string }> = {
+  active: { text: 'ใช้งาน', className: 'bg-blue-50 text-blue-700' },
+  completed: { text: 'ครบแล้ว', className: 'bg-emerald-50 text-emerald-700' },
+  terminated: { text: 'ยกเลิก', className: 'bg-slate-100 text-slate-500' },
+};
+
+const AmortizationSchedules: React.FC<Props> = ({ client, documents, onPosted }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const [schedules, setSchedules] = useState<AmortizationSchedule[]>([]);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [form, setForm] = useState<ScheduleInput | null>(null);
+  const [editing, setEditing] = useState<AmortizationSchedule | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      databaseService.getAmortizationSchedules(client.id)
+          .then(setSchedules)
+          .catch(e => console.error('Failed to load amortization schedules', e));
+  }, [client.id]);
+
+  const suggestions = useMemo(() => {
+      const linked = new Set(schedules.map(s => s.sourceDocId).filter(Boolean));
+      return documents
+          .filter(d => !linked.has(d.id))
+          .map(suggestScheduleFromDocument)
+          .filter((s): s is NonNullable<typeof s> => s !== null);
+  }, [documents, schedules]);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const upsert = (schedule: AmortizationSchedule) =>
+      setSchedules(prev => [...prev.filter(s => s.id !== schedule.id), schedule].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+
+  const run = async (action: () => Promise<void>) => {
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          await action();
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleSave = () => run(async () => {
+      if (!form) return;
+      const saved = editing ? await updateSchedule(editing, form) : await createSchedule(client.id, form, userId);
+      upsert(saved);
+      setForm(null);
+      setEditing(null);
+      setMessage({ text: editing ? 'บันทึกการแก้ไขแล้ว' : 'เพิ่มรายการตัดจ่ายแล้ว', isError: false });
+  });
+
+  const handleEdit = (schedule: AmortizationSchedule) => {
+      setEditing(schedule);
+      setForm({
+          type: schedule.type,
+          description: schedule.description,
+          vendorOrCustomer: schedule.vendorOrCustomer,
+          originalAmount: schedule.originalAmount,
+          periodMonths: schedule.periodMonths,
+          startDate: schedule.startDate,
+          accountCode: schedule.accountCode,
+          expenseAccountCode: schedule.expenseAccountCode,
+      });
+  };
+
+  const handleTerminate = (schedule: AmortizationSchedule) => {
+      const reason = window.prompt(`เหตุผลในการยกเลิก "${schedule.description}"`);
+      if (!reason) return;
+      run(async () => {
+          upsert(await terminateSchedule(schedule, reason, userId));
+      });
+  };
+
+  const handleRecognize = () => run(async () => {
+      const result = await recognizeSchedules(client.id, period, userId);
+      if (!result.success) {
+          setMessage({ text: result.errors.join(', '), isError: true });
+          return;
+      }
+      result.schedules.forEach(upsert);
+      if (result.entries.length > 0) onPosted(result.entries);
+      setMessage({
+          text: result.schedules.length > 0
+              ? `รับรู้รายการงวด ${period} แล้ว ${result.schedules.length} รายการ`
+              : `ไม่มีรายการที่ต้องรับรู้ในงวด ${period}`,
+          isError: false,
+      });
+  });
+
+  const handleAccept = (suggestion: (typeof suggestions)[number]) => run(async () => {
+      const result = await createScheduleFromSuggestion(client.id, suggestion, userId);
+      if (!result.schedule) {
+          setMessage({ text: result.errors.join(', '), isError: true });
+          return;
+      }
+      upsert(result.schedule);
+      onPosted(result.entries);
+      setMessage({ text: `สร้างรายการตัดจ่ายจากเอกสารแล้ว: ${result.schedule.description}`, isError: false });
+  });
+
+  const setField = <K extends keyof ScheduleInput>(key: K, value: ScheduleInput[K]) =>
+      setForm(prev => prev && { ...prev, [key]: value });
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <CalendarClock className="text-blue-600" size={20} />
+                ทะเบียนตัดจ่าย/รับรู้รายได้ (Amortization Schedules)
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+                <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                <button
+                    onClick={handleRecognize}
+                    disabled={isWorking || !period}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {isWorking ? <Loader2 size={16} className="animate-spin" /> : <CalendarClock size={16} />}
+                    รับรู้รายการสิ้นเดือน
+                </button>
+                <button
+                    onClick={() => { setEditing(null); setForm(emptyForm()); }}
+                    className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50"
+                >
+                    <Plus size={16} /> เพิ่มรายการ
+                </button>
+            </div>
+        </div>
+
+        {message && (
+            <div className={`rounded-xl p-4 text-sm border ${message.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+                {message.text}
+            </div>
+        )}
+
+        {form && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">ประเภท</span>
+                    <select
+                        value={form.type}
+                        disabled={!!editing}
+                        onChange={e => {
+                            const type = e.target.value as AmortizationScheduleType;
+                            setForm(prev => prev && { ...prev, type, accountCode: DEFAULT_SCHEDULE_ACCOUNTS[type] });
+                        }}
+                        className="border border-slate-200 rounded-lg px-2 py-1.5"
+                    >
+                        {(Object.keys(SCHEDULE_TYPE_NAMES) as AmortizationScheduleType[]).map(t => (
+                            <option key={t} value={t}>{SCHEDULE_TYPE_NAMES[t]}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 md:col-span-2">
+                    <span className="text-xs text-slate-500">รายละเอียด</span>
+                    <input value={form.description} onChange={e => setField('description', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">คู่ค้า</span>
+                    <input value={form.vendorOrCustomer} onChange={e => setField('vendorOrCustomer', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">จำนวนเงิน</span>
+                    <input type="number" value={form.originalAmount || ''} onChange={e => setField('originalAmount', Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">จำนวนเดือน</span>
+                    <input type="number" value={form.periodMonths} onChange={e => setField('periodMonths', Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">เริ่มต้น</span>
+                    <input type="date" value={form.startDate} disabled={!!editing} onChange={e => setField('startDate', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">บัญชีงบดุล</span>
+                        <input value={form.accountCode} onChange={e => setField('accountCode', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">บัญชีกำไรขาดทุน</span>
+                        <input value={form.expenseAccountCode} onChange={e => setField('expenseAccountCode', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                    </label>
+                </div>
+                <div className="md:col-span-4 flex justify-end gap-2">
+                    <button onClick={() => { setForm(null); setEditing(null); }} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                    <button onClick={handleSave} disabled={isWorking} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                        {editing ? 'บันทึกการแก้ไข' : 'เพิ่มรายการ'}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {suggestions.length > 0 && (
+            <div className="bg-amber-50 rounded-xl border border-amber-200 p-4 text-sm space-y-2">
+                <p className="font-semibold text-amber-800 flex items-center gap-2"><Sparkles size={16} /> AI แนะนำรายการตัดจ่ายจากเอกสาร</p>
+                {suggestions.map(s => (
+                    <div key={s.sourceDocId} className="flex flex-wrap items-center justify-between gap-2 bg-white rounded-lg border border-amber-100 px-3 py-2">
+                        <div>
+                            <p className="text-slate-800">{SCHEDULE_TYPE_NAMES[s.type]}: {s.description} · {formatCurrency(s.originalAmount)} / {s.periodMonths} เดือน</p>
+                            <p className="text-xs text-slate-500">{s.reason}</p>
+                        </div>
+                        <button onClick={() => handleAccept(s)} disabled={isWorking} className="px-3 py-1.5 bg-amber-600 text-white rounded-lg font-semibold hover:bg-amber-700 disabled:opacity-50">
+                            สร้างรายการ
+                        </button>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                    <tr>
+                        <th className="px-4 py-3 text-left">รายการ</th>
+                        <th className="px-4 py-3 text-left">ประเภท</th>
+                        <th className="px-4 py-3 text-right">จำนวนเงิน</th>
+                        <th className="px-4 py-3 text-right">รับรู้แล้ว</th>
+                        <th className="px-4 py-3 text-right">คงเหลือ</th>
+                        <th className="px-4 py-3 text-center">สถานะ</th>
+                        <th className="px-4 py-3"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                    {schedules.length === 0 ? (
+                        <tr><td colSpan={7} className="px-4 py-8 text-center text-slate-400">ยังไม่มีรายการ</td></tr>
+                    ) : schedules.map(s => (
+                        <tr key={s.id}>
+                            <td className="px-4 py-2.5">
+                                <p className="text-slate-800">{s.description}</p>
+                                <p className="text-xs text-slate-400">
+                                    {s.vendorOrCustomer || '-'} · {s.startDate} · {s.periodMonths} เดือน
+                                    {s.lastRecognizedPeriod && ` · ล่าสุด ${s.lastRecognizedPeriod}`}
+                                    {s.terminationReason && ` · ${s.terminationReason}`}
+                                </p>
+                            </td>
+                            <td className="px-4 py-2.5">{SCHEDULE_TYPE_NAMES[s.type]}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(s.originalAmount)}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">
+                                {formatCurrency(s.recognizedToDate)}
+                                <div className="h-1 bg-slate-100 rounded mt-1">
+                                    <div className="h-1 bg-blue-500 rounded" style={{ width: `${Math.min(100, s.recognizedToDate / s.originalAmount * 100)}%` }} />
+                                </div>
+                            </td>
+                            <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(s.remainingAmount)}</td>
+                            <td className="px-4 py-2.5 text-center">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_LABELS[s.status].className}`}>{STATUS_LABELS[s.status].text}</span>
+                            </td>
+                            <td className="px-4 py-2.5 text-right whitespace-nowrap">
+                                {s.status === 'active' && (
+                                    <>
+                                        <button onClick={() => handleEdit(s)} className="p-1 text-slate-400 hover:text-blue-600" title="แก้ไข"><Pencil size={16} /></button>
+                                        <button onClick={() => handleTerminate(s)} className="p-1 text-slate-400 hover:text-red-600" title="ยกเลิก"><XCircle size={16} /></button>
+                                    </>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
+
+export default AmortizationSchedules;
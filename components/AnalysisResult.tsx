@@ -253,6 +253,16 @@ const AnalysisResult: React.FC<Props> = ({ data: initialData, staffList, existin
                         <p className="font-bold text-slate-800">{data.parties.counterparty.name || "ระบุไม่ได้"}</p>
                         <p className="text-xs text-slate-500 mt-1">{data.parties.counterparty.tax_id} ({data.parties.counterparty.branch || "HQ"})</p>
                     </div>
+                    <div className="border-t border-slate-50 pt-3">
+                        <p className="text-xs text-slate-400 mb-1">สาขาของกิจการ (Branch)</p>
+                        <input
+                            type="text"
+                            value={data.parties.client_company.branch || ''}
+                            onChange={(e) => setData(prev => ({ ...prev, parties: { ...prev.parties, client_company: { ...prev.parties.client_company, branch: e.target.value } } }))}
+                            className="w-full bg-white border border-slate-200 text-slate-700 text-sm rounded p-1.5 focus:ring-1 focus:ring-blue-500 outline-none font-mono"
+                            placeholder="สำนักงานใหญ่ / 00001"
+                        />
+                    </div>
                     <div className="border-t border-slate-50 pt-3 flex justify-between">
                         <div>
                             <p className="text-xs text-slate-400">เลขที่</p>
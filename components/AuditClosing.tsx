@@ -1,18 +1,22 @@
 import React, { useState, useMemo } from 'react';
-import { ShieldCheck, Lock, AlertTriangle, CheckCircle2, ScanSearch, History, AlertCircle, ArrowRight, Play, Package, Download, Scale, RefreshCw, Wallet, Calculator, Coins } from 'lucide-react';
-import { DocumentRecord, PostedGLEntry, FixedAsset } from '../types';
+import { ShieldCheck, Lock, AlertTriangle, CheckCircle2, ScanSearch, History, AlertCircle, ArrowRight, Play, Package, Download, Scale, RefreshCw, Wallet, Calculator, Coins, Unlock } from 'lucide-react';
+import { Client, DocumentRecord, PostedGLEntry, FixedAsset } from '../types';
+import { computeCorporateIncomeTax, getAccruedCIT } from '../services/corporateIncomeTax';
+import { getFiscalYearEndMonth, getFiscalYearOf } from '../services/fiscalYear';
 
 interface Props {
     documents: DocumentRecord[];
     glEntries: PostedGLEntry[];
     assets: FixedAsset[]; // Received Fixed Asset Data
-    clientId: string;
+    client: Client;
     onClosePeriod: () => void;
+    onReopenPeriod?: () => void; // Needs gl.period_reopen; the handler asks for a reason
     isLocked?: boolean;
     onPostJournal?: (entries: PostedGLEntry[]) => void;
 }
 
-const AuditClosing: React.FC<Props> = ({ documents, glEntries, assets, clientId, onClosePeriod, isLocked, onPostJournal }) => {
+const AuditClosing: React.FC<Props> = ({ documents, glEntries, assets, client, onClosePeriod, onReopenPeriod, isLocked, onPostJournal }) => {
+    const clientId = client.id;
     const [scanStatus, setScanStatus] = useState<'idle' | 'scanning' | 'complete'>('idle');
     const [auditScore, setAuditScore] = useState(100);
     const [checklist, setChecklist] = useState({
@@ -96,13 +100,19 @@ const AuditClosing: React.FC<Props> = ({ documents, glEntries, assets, clientId,
 
         // CIT Calculation
         const profitBeforeTax = totalRev - totalExp;
-        const citRate = 0.20; // SME rate approximation or standard 20%
-        // Only calculate CIT if profit > 0
-        const citAmount = profitBeforeTax > 0 ? profitBeforeTax * citRate : 0;
+
+        // Tax the fiscal year of the latest posting; monthly closings may already have accrued part of it
+        const lastDate = glEntries.reduce((latest, e) => (e.date > latest ? e.date : latest), '');
+        const cit = lastDate
+            ? computeCorporateIncomeTax(glEntries, client, getFiscalYearOf(lastDate, getFiscalYearEndMonth(client)), { assets })
+            : null;
+        const taxAddBack = cit?.totalAddBack || 0;
+        const lossApplied = cit?.lossApplied || 0;
+        const citAmount = cit ? Math.max(0, Math.round((cit.citAmount - getAccruedCIT(glEntries, cit.range)) * 100) / 100) : 0;
         const netProfitAfterTax = profitBeforeTax - citAmount;
 
-        return { lines: closingLines, profitBeforeTax, citAmount, netProfitAfterTax };
-    }, [glEntries]);
+        return { lines: closingLines, profitBeforeTax, taxAddBack, lossApplied, isSME: !!cit?.sme.isSME, citAmount, netProfitAfterTax };
+    }, [glEntries, assets, client]);
 
 
     const anomalies = [
@@ -232,6 +242,11 @@ const AuditClosing: React.FC<Props> = ({ documents, glEntries, assets, clientId,
                     <button onClick={handleDownloadPackage} className="px-6 py-3 bg-slate-800 text-white font-bold rounded-xl shadow-lg flex items-center gap-2 mx-auto hover:bg-slate-900 transition-all">
                         <Download size={18} /> ดาวน์โหลดงบการเงิน
                     </button>
+                    {onReopenPeriod && (
+                        <button onClick={onReopenPeriod} className="mt-3 text-sm text-amber-700 hover:underline flex items-center gap-1 mx-auto">
+                            <Unlock size={14} /> เปิดงวดบัญชี (ต้องระบุเหตุผล)
+                        </button>
+                    )}
                 </div>
             </div>
         )
@@ -368,8 +383,20 @@ const AuditClosing: React.FC<Props> = ({ documents, glEntries, assets, clientId,
                                     <span>กำไรก่อนภาษี (Profit Before Tax)</span>
                                     <span>{closingPreview.profitBeforeTax.toLocaleString()}</span>
                                 </div>
+                                {closingPreview.taxAddBack !== 0 && (
+                                    <div className="flex justify-between text-slate-500">
+                                        <span>รายการปรับปรุงทางภาษี (บวกกลับ)</span>
+                                        <span>{closingPreview.taxAddBack.toLocaleString()}</span>
+                                    </div>
+                                )}
+                                {closingPreview.lossApplied !== 0 && (
+                                    <div className="flex justify-between text-slate-500">
+                                        <span>หักผลขาดทุนสุทธิยกมา</span>
+                                        <span>({closingPreview.lossApplied.toLocaleString()})</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-red-600">
-                                    <span className="flex items-center gap-1"><Coins size={10}/> หัก: ภาษีเงินได้ (CIT 20%)</span>
+                                    <span className="flex items-center gap-1"><Coins size={10}/> หัก: ภาษีเงินได้ (CIT {closingPreview.isSME ? 'SME' : '20%'})</span>
                                     <span>({closingPreview.citAmount.toLocaleString()})</span>
                                 </div>
                                 <div className="border-t border-slate-200 my-1 pt-1"></div>
@@ -1,13 +1,17 @@
-import React, { useMemo } from 'react';
-import { PostedGLEntry } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Client, PostedGLEntry } from '../types';
 import { Scale, TrendingUp, Building2, Wallet, ArrowDown } from 'lucide-react';
+import { ComparisonBasis, getComparativeBalanceDate } from '../services/financialStatements';
+import { isOpeningEntry } from '../services/periodClosing';
+import { getFiscalYearEndMonth } from '../services/fiscalYear';
 
 interface Props {
+  client: Client;
   entries: PostedGLEntry[];
+  onDrillDown?: (from: string, to?: string) => void;
 }
 
-const BalanceSheet: React.FC<Props> = ({ entries }) => {
-  const bsData = useMemo(() => {
+const summarize = (entries: PostedGLEntry[]) => {
     // 1. Helper to sum account group
     const sumByPrefix = (prefix: string) => {
         return entries
@@ -31,7 +35,7 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
     const accountsReceivable = sumByPrefix('113');
     const inventory = sumByPrefix('114');
     const currentAssets = cashAndBank + accountsReceivable + inventory + sumByPrefix('115'); // Include VAT
-    
+  
     const fixedAssets = sumByPrefix('12');
     const totalAssets = sumByPrefix('1');
 
@@ -67,11 +71,46 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
             total: totalEquity
         }
     };
-  }, [entries]);
+};
+
+const getMonthEnd = (month: string) => {
+    const [year, m] = month.split('-').map(Number);
+    return `${month}-${String(new Date(year, m, 0).getDate()).padStart(2, '0')}`;
+};
+
+const BalanceSheet: React.FC<Props> = ({ client, entries, onDrillDown }) => {
+  const [asOfMonth, setAsOfMonth] = useState(() =>
+      entries.reduce((latest, e) => (e.date > latest ? e.date : latest), '').slice(0, 7) || new Date().toISOString().slice(0, 7)
+  );
+  const [compareTo, setCompareTo] = useState<'none' | ComparisonBasis>('prior_ytd');
+
+  const asOfDate = getMonthEnd(asOfMonth);
+  const priorDate = compareTo === 'none' ? null : getComparativeBalanceDate(compareTo, asOfDate, getFiscalYearEndMonth(client));
+
+  const bsData = useMemo(() => summarize(entries.filter(e => e.date <= asOfDate && !isOpeningEntry(e))), [entries, asOfDate]);
+  const priorData = useMemo(
+      () => priorDate ? summarize(entries.filter(e => e.date <= priorDate && !isOpeningEntry(e))) : null,
+      [entries, priorDate]
+  );
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(val);
   const isBalanced = Math.abs(bsData.assets.total - (bsData.liabilities.total + bsData.equity.total)) < 1.0;
 
+  // Amount column(s) for a row: current, plus the comparative date when selected
+  const renderAmounts = (amount: number, previous: number | undefined, className = 'font-medium') => (
+      <span className="flex gap-4">
+          <span className={`font-mono ${className}`}>{formatCurrency(amount)}</span>
+          {priorData && <span className="font-mono text-slate-400 w-32 text-right">{formatCurrency(previous || 0)}</span>}
+      </span>
+  );
+
+  // Line labels open the general ledger for the accounts summed into them
+  const renderLabel = (label: string, from: string, to?: string) => onDrillDown ? (
+      <button onClick={() => onDrillDown(from, to)} className="text-slate-600 text-left hover:text-blue-600 hover:underline">{label}</button>
+  ) : (
+      <span className="text-slate-600">{label}</span>
+  );
+
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500">
       <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
@@ -82,7 +121,22 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
            </h3>
            <p className="text-sm text-slate-500">สถานะสินทรัพย์ หนี้สิน และส่วนของผู้ถือหุ้น</p>
         </div>
-        <div className="text-right">
+        <div className="flex items-center gap-2">
+             <input
+                 type="month"
+                 value={asOfMonth}
+                 onChange={e => e.target.value && setAsOfMonth(e.target.value)}
+                 className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+             />
+             <select
+                 value={compareTo}
+                 onChange={e => setCompareTo(e.target.value as 'none' | ComparisonBasis)}
+                 className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+             >
+                 <option value="prior_ytd">เทียบสิ้นปีก่อน</option>
+                 <option value="prior_month">เทียบสิ้นเดือนก่อน</option>
+                 <option value="none">ไม่เปรียบเทียบ</option>
+             </select>
              <span className={`text-xs font-bold px-3 py-1 rounded-full border ${isBalanced ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-red-50 text-red-700 border-red-200'}`}>
                  {isBalanced ? 'Balanced (A = L + OE)' : 'Unbalanced'}
              </span>
@@ -90,6 +144,11 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
       </div>
 
       <div className="flex-1 overflow-auto p-8">
+         {priorDate && (
+             <p className="max-w-6xl mx-auto mb-4 text-xs text-slate-500 text-right">
+                 ณ วันที่ {asOfDate} <span className="text-slate-400">(เปรียบเทียบ ณ วันที่ {priorDate})</span>
+             </p>
+         )}
          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 max-w-6xl mx-auto">
              
              {/* LEFT: ASSETS */}
@@ -103,16 +162,16 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                      <h5 className="font-bold text-sm text-slate-500 mb-3 uppercase tracking-wider">สินทรัพย์หมุนเวียน</h5>
                      <div className="space-y-3 text-sm">
                          <div className="flex justify-between">
-                             <span className="text-slate-600">เงินสดและรายการเทียบเท่าเงินสด</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.assets.cashAndBank)}</span>
+                             {renderLabel('เงินสดและรายการเทียบเท่าเงินสด', '111')}
+                             {renderAmounts(bsData.assets.cashAndBank, priorData?.assets.cashAndBank)}
                          </div>
                          <div className="flex justify-between">
-                             <span className="text-slate-600">ลูกหนี้การค้า</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.assets.accountsReceivable)}</span>
+                             {renderLabel('ลูกหนี้การค้า', '113')}
+                             {renderAmounts(bsData.assets.accountsReceivable, priorData?.assets.accountsReceivable)}
                          </div>
                          <div className="flex justify-between pt-2 border-t border-slate-200">
                              <span className="font-bold text-slate-700">รวมสินทรัพย์หมุนเวียน</span>
-                             <span className="font-mono font-bold text-slate-800">{formatCurrency(bsData.assets.currentAssets)}</span>
+                             {renderAmounts(bsData.assets.currentAssets, priorData?.assets.currentAssets, 'font-bold text-slate-800')}
                          </div>
                      </div>
                  </div>
@@ -122,12 +181,12 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                      <h5 className="font-bold text-sm text-slate-500 mb-3 uppercase tracking-wider">สินทรัพย์ไม่หมุนเวียน</h5>
                      <div className="space-y-3 text-sm">
                          <div className="flex justify-between">
-                             <span className="text-slate-600">ที่ดิน อาคาร และอุปกรณ์ (สุทธิ)</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.assets.fixedAssets)}</span>
+                             {renderLabel('ที่ดิน อาคาร และอุปกรณ์ (สุทธิ)', '12')}
+                             {renderAmounts(bsData.assets.fixedAssets, priorData?.assets.fixedAssets)}
                          </div>
                          <div className="flex justify-between pt-2 border-t border-slate-200">
                              <span className="font-bold text-slate-700">รวมสินทรัพย์ไม่หมุนเวียน</span>
-                             <span className="font-mono font-bold text-slate-800">{formatCurrency(bsData.assets.fixedAssets)}</span>
+                             {renderAmounts(bsData.assets.fixedAssets, priorData?.assets.fixedAssets, 'font-bold text-slate-800')}
                          </div>
                      </div>
                  </div>
@@ -135,7 +194,7 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                  {/* Total Assets */}
                  <div className="bg-emerald-600 text-white rounded-xl p-5 shadow-lg shadow-emerald-200 flex justify-between items-center">
                      <span className="font-bold text-lg">รวมสินทรัพย์ (Total Assets)</span>
-                     <span className="font-bold text-2xl font-mono">{formatCurrency(bsData.assets.total)}</span>
+                     {renderAmounts(bsData.assets.total, priorData?.assets.total, 'font-bold text-2xl')}
                  </div>
              </div>
 
@@ -150,20 +209,20 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                      <h5 className="font-bold text-sm text-slate-500 mb-3 uppercase tracking-wider">หนี้สิน (Liabilities)</h5>
                      <div className="space-y-3 text-sm">
                          <div className="flex justify-between">
-                             <span className="text-slate-600">เจ้าหนี้การค้า</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.liabilities.accountsPayable)}</span>
+                             {renderLabel('เจ้าหนี้การค้า', '212')}
+                             {renderAmounts(bsData.liabilities.accountsPayable, priorData?.liabilities.accountsPayable)}
                          </div>
                          <div className="flex justify-between">
-                             <span className="text-slate-600">ค่าใช้จ่ายค้างจ่าย</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.liabilities.accruedExpenses)}</span>
+                             {renderLabel('ค่าใช้จ่ายค้างจ่าย', '213')}
+                             {renderAmounts(bsData.liabilities.accruedExpenses, priorData?.liabilities.accruedExpenses)}
                          </div>
                          <div className="flex justify-between">
-                             <span className="text-slate-600">ภาษีค้างจ่าย (VAT/WHT)</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.liabilities.taxPayable)}</span>
+                             {renderLabel('ภาษีค้างจ่าย (VAT/WHT)', '214', '215')}
+                             {renderAmounts(bsData.liabilities.taxPayable, priorData?.liabilities.taxPayable)}
                          </div>
                          <div className="flex justify-between pt-2 border-t border-slate-200">
                              <span className="font-bold text-slate-700">รวมหนี้สิน</span>
-                             <span className="font-mono font-bold text-slate-800">{formatCurrency(bsData.liabilities.total)}</span>
+                             {renderAmounts(bsData.liabilities.total, priorData?.liabilities.total, 'font-bold text-slate-800')}
                          </div>
                      </div>
                  </div>
@@ -173,20 +232,20 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                      <h5 className="font-bold text-sm text-slate-500 mb-3 uppercase tracking-wider">ส่วนของผู้ถือหุ้น (Equity)</h5>
                      <div className="space-y-3 text-sm">
                          <div className="flex justify-between">
-                             <span className="text-slate-600">ทุนจดทะเบียน (Paid-up Capital)</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.equity.shareCapital)}</span>
+                             {renderLabel('ทุนจดทะเบียน (Paid-up Capital)', '310')}
+                             {renderAmounts(bsData.equity.shareCapital, priorData?.equity.shareCapital)}
                          </div>
                          <div className="flex justify-between">
-                             <span className="text-slate-600">กำไร(ขาดทุน) สะสม</span>
-                             <span className="font-mono font-medium">{formatCurrency(bsData.equity.retainedEarningsBF)}</span>
+                             {renderLabel('กำไร(ขาดทุน) สะสม', '320')}
+                             {renderAmounts(bsData.equity.retainedEarningsBF, priorData?.equity.retainedEarningsBF)}
                          </div>
                          <div className="flex justify-between bg-blue-50 p-2 rounded border border-blue-100">
                              <span className="text-blue-700 font-medium flex items-center gap-2"><TrendingUp size={14}/> กำไรสุทธิปีปัจจุบัน (Current Year)</span>
-                             <span className="font-mono font-bold text-blue-700">{formatCurrency(bsData.equity.currentYearEarnings)}</span>
+                             {renderAmounts(bsData.equity.currentYearEarnings, priorData?.equity.currentYearEarnings, 'font-bold text-blue-700')}
                          </div>
                          <div className="flex justify-between pt-2 border-t border-slate-200">
                              <span className="font-bold text-slate-700">รวมส่วนของผู้ถือหุ้น</span>
-                             <span className="font-mono font-bold text-slate-800">{formatCurrency(bsData.equity.total)}</span>
+                             {renderAmounts(bsData.equity.total, priorData?.equity.total, 'font-bold text-slate-800')}
                          </div>
                      </div>
                  </div>
@@ -194,7 +253,11 @@ const BalanceSheet: React.FC<Props> = ({ entries }) => {
                  {/* Total L+OE */}
                  <div className="bg-slate-800 text-white rounded-xl p-5 shadow-lg flex justify-between items-center">
                      <span className="font-bold text-lg">รวมหนี้สินและส่วนของผู้ถือหุ้น</span>
-                     <span className="font-bold text-2xl font-mono">{formatCurrency(bsData.liabilities.total + bsData.equity.total)}</span>
+                     {renderAmounts(
+                         bsData.liabilities.total + bsData.equity.total,
+                         priorData ? priorData.liabilities.total + priorData.equity.total : undefined,
+                         'font-bold text-2xl'
+                     )}
                  </div>
              </div>
 
@@ -11,6 +11,10 @@ import {
   AutoMatchConfig, DEFAULT_AUTO_MATCH_CONFIG, calculateMatchScore,
   parseBankStatementCSV, detectBankFormat
 } from '../services/bankReconciliation';
+import {
+  buildBankMatchSettlement, getTransactionRate, isForeignSettlementDocument, postFXSettlement
+} from '../services/foreignExchange';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Props {
   documents: DocumentRecord[];
@@ -19,6 +23,8 @@ interface Props {
 }
 
 const BankReconciliation: React.FC<Props> = ({ documents, clients, onPostAdjustment }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
   const [selectedClientId, setSelectedClientId] = useState<string>(clients[0]?.id || '');
   const [bankTxns, setBankTxns] = useState<BankTransaction[]>([]);
   const [loading, setLoading] = useState(false); // Start as false, not true
@@ -88,6 +94,12 @@ const BankReconciliation: React.FC<Props> = ({ documents, clients, onPostAdjustm
     const doc = bookDocs.find(d => d.id === docId);
     if (!doc) return;
 
+    // Foreign-currency documents: the THB difference is realized FX, booked on confirm
+    if (isForeignSettlementDocument(doc)) {
+      confirmMatch(txn, docId);
+      return;
+    }
+
     const absDiff = Math.abs(Math.abs(txn.amount) - doc.amount);
 
     if (absDiff > 0.01) {
@@ -102,6 +114,26 @@ const BankReconciliation: React.FC<Props> = ({ documents, clients, onPostAdjustm
   };
 
   const confirmMatch = async (txn: BankTransaction, docId: string | null) => {
+    // Settling a foreign-currency document posts the receipt / payment with realized FX (42400 / 54300)
+    // A bank line may settle part of the document; the rest stays open in foreign currency
+    const doc = docId ? bookDocs.find(d => d.id === docId) : undefined;
+    if (doc && isForeignSettlementDocument(doc)) {
+      const currency = doc.currency!.toUpperCase();
+      const rate = await getTransactionRate(currency, txn.date, txn.amount > 0 ? 'buying' : 'selling')
+        ?? Number(window.prompt(`ไม่พบอัตราแลกเปลี่ยน ${currency} วันที่ ${txn.date} กรุณาระบุอัตรา (บาทต่อ 1 ${currency})`) || 0);
+      const glEntries = await databaseService.getGLEntriesByClient(txn.clientId);
+      const settlement = buildBankMatchSettlement(txn, doc, rate, glEntries);
+      if (!settlement) {
+        alert(rate > 0 ? 'เอกสารนี้รับ/จ่ายชำระครบแล้ว' : 'ต้องระบุอัตราแลกเปลี่ยนเพื่อบันทึกรับ/จ่ายชำระ');
+        return;
+      }
+      const result = await postFXSettlement(settlement, userId);
+      if (!result.success) {
+        alert(`ไม่สามารถบันทึกรับ/จ่ายชำระได้: ${result.validation.errors.map(e => e.messageTh).join(', ')}`);
+        return;
+      }
+    }
+
     const updatedTxn: BankTransaction = {
       ...txn,
       status: 'matched',
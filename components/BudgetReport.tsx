@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Budget, Client, PostedGLEntry } from '../types';
+import { Target, Upload, AlertTriangle, Loader2 } from 'lucide-react';
+import { databaseService } from '../services/database';
+import {
+  BUDGET_SECTION_NAMES,
+  BudgetSection,
+  VarianceAmounts,
+  generateBudgetVsActual,
+  getFiscalMonths,
+  importBudget,
+  parseBudgetFile,
+} from '../services/budget';
+import { getFiscalYearEndMonth, getFiscalYearOf } from '../services/fiscalYear';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+}
+
+const MONTHS_TH = ['ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'];
+const SECTIONS: BudgetSection[] = ['revenue', 'costOfSales', 'operatingExpenses', 'otherIncome', 'otherExpenses'];
+
+const BudgetReport: React.FC<Props> = ({ client, entries }) => {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const endMonth = getFiscalYearEndMonth(client);
+  const fiscalMonths = getFiscalMonths(endMonth);
+  const [fiscalYear, setFiscalYear] = useState(getFiscalYearOf(new Date().toISOString().split('T')[0], endMonth));
+  const [version, setVersion] = useState<number | null>(null);
+  const [fromMonth, setFromMonth] = useState(fiscalMonths[0]);
+  const [toMonth, setToMonth] = useState(new Date().getMonth() + 1);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+      databaseService.getBudgetsByClient(client.id)
+          .then(setBudgets)
+          .catch(e => console.error('Failed to load budgets', e));
+  }, [client.id]);
+
+  const versions = budgets.filter(b => b.fiscalYear === fiscalYear).sort((a, b) => b.version - a.version);
+  const budget = versions.find(b => b.version === version) || versions[0] || null;
+
+  const report = useMemo(
+      // A "to" month before "from" in fiscal order reports the single "from" month
+      () => budget ? generateBudgetVsActual(
+          entries, client, budget, fromMonth,
+          fiscalMonths.indexOf(toMonth) < fiscalMonths.indexOf(fromMonth) ? fromMonth : toMonth
+      ) : null,
+      [entries, client, budget, fromMonth, toMonth]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+  const formatPercent = (val: number | null) => val === null ? '-' : `${val > 0 ? '+' : ''}${val.toFixed(1)}%`;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      setIsImporting(true);
+      try {
+          const result = await parseBudgetFile(file);
+          setImportErrors(result.errors);
+          if (result.lines.length === 0) return;
+
+          const note = versions.length > 0 ? window.prompt('หมายเหตุการปรับปรุงงบประมาณ (ถ้ามี)') || undefined : undefined;
+          const saved = await importBudget(client.id, fiscalYear, result.lines, user?.staffId || user?.uid || 'system', {
+              note,
+              sourceFile: file.name,
+          });
+          setBudgets(prev => [...prev, saved]);
+          setVersion(saved.version);
+      } catch (error) {
+          console.error('Budget import failed:', error);
+          setImportErrors(['ไม่สามารถอ่านไฟล์งบประมาณได้']);
+      } finally {
+          setIsImporting(false);
+      }
+  };
+
+  const renderAmounts = (amounts: VarianceAmounts, favorable: boolean, flagged = false) => (
+      <>
+          <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(amounts.budget)}</td>
+          <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(amounts.actual)}</td>
+          <td className={`px-4 py-2.5 text-right font-mono ${favorable ? 'text-emerald-600' : 'text-red-600'}`}>
+              {formatCurrency(amounts.variance)}
+          </td>
+          <td className={`px-4 py-2.5 text-right font-mono ${favorable ? 'text-emerald-600' : 'text-red-600'} ${flagged ? 'font-bold' : ''}`}>
+              {flagged && <AlertTriangle size={12} className="inline mr-1" />}
+              {formatPercent(amounts.variancePercent)}
+          </td>
+      </>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <Target className="text-blue-600" size={20} />
+                งบประมาณเทียบผลจริง (Budget vs Actual)
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+                <select value={fiscalYear} onChange={e => { setFiscalYear(Number(e.target.value)); setVersion(null); }} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                    {[0, 1, 2].map(offset => new Date().getFullYear() + 1 - offset).map(y => <option key={y} value={y}>{y}</option>)}
+                </select>
+                <select
+                    value={budget?.version ?? ''}
+                    onChange={e => setVersion(Number(e.target.value))}
+                    disabled={versions.length === 0}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5"
+                >
+                    {versions.length === 0 && <option value="">ยังไม่มีงบประมาณ</option>}
+                    {versions.map(v => (
+                        <option key={v.version} value={v.version}>
+                            v{v.version} {v.versionType === 'original' ? 'ฉบับแรก' : 'ฉบับปรับปรุง'}
+                        </option>
+                    ))}
+                </select>
+                <select value={fromMonth} onChange={e => setFromMonth(Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                    {fiscalMonths.map(m => <option key={m} value={m}>{MONTHS_TH[m - 1]}</option>)}
+                </select>
+                <span className="text-slate-400">ถึง</span>
+                <select value={toMonth} onChange={e => setToMonth(Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                    {fiscalMonths.map(m => <option key={m} value={m}>{MONTHS_TH[m - 1]}</option>)}
+                </select>
+                <label className={`flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 cursor-pointer ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+                    {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                    นำเข้า Excel
+                    <input type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleImport} />
+                </label>
+            </div>
+        </div>
+
+        {importErrors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800">
+                <ul className="list-disc pl-5 space-y-0.5">
+                    {importErrors.slice(0, 10).map((err, i) => <li key={i}>{err}</li>)}
+                </ul>
+            </div>
+        )}
+
+        {!report ? (
+            <div className="bg-white rounded-xl border border-dashed border-slate-300 p-12 text-center text-slate-400 text-sm">
+                นำเข้าไฟล์ Excel ที่มีคอลัมน์รหัสบัญชี และเดือน ม.ค.-ธ.ค. เพื่อสร้างงบประมาณปี {fiscalYear}
+            </div>
+        ) : (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                {report.flagged.length > 0 && (
+                    <div className="px-4 py-3 bg-red-50 border-b border-red-100 text-sm text-red-700 flex items-center gap-2">
+                        <AlertTriangle size={16} />
+                        {report.flagged.length} บัญชีมีผลต่างเกินเกณฑ์ ({report.threshold.percentage}% และ {formatCurrency(report.threshold.minAmount)} บาท)
+                    </div>
+                )}
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                        <tr>
+                            <th className="px-4 py-3 text-left">บัญชี</th>
+                            <th className="px-4 py-3 text-right">งบประมาณ</th>
+                            <th className="px-4 py-3 text-right">ผลจริง</th>
+                            <th className="px-4 py-3 text-right">ผลต่าง</th>
+                            <th className="px-4 py-3 text-right">%</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {SECTIONS.map(section => {
+                            const lines = report.lines.filter(l => l.section === section);
+                            if (lines.length === 0) return null;
+                            const total = report.totals[section];
+                            const isIncome = section === 'revenue' || section === 'otherIncome';
+                            return (
+                                <React.Fragment key={section}>
+                                    {lines.map(l => (
+                                        <tr key={l.accountCode} className={l.exceedsThreshold ? 'bg-red-50/50' : 'text-slate-600'}>
+                                            <td className="px-4 py-2.5 pl-8"><span className="font-mono text-slate-400 mr-2">{l.accountCode}</span>{l.accountName}</td>
+                                            {renderAmounts(l, l.favorable, l.exceedsThreshold)}
+                                        </tr>
+                                    ))}
+                                    <tr className="font-semibold text-slate-800 bg-slate-50/50">
+                                        <td className="px-4 py-2.5">รวม{BUDGET_SECTION_NAMES[section]}</td>
+                                        {renderAmounts(total, isIncome ? total.variance >= 0 : total.variance <= 0)}
+                                    </tr>
+                                    {section === 'costOfSales' && (
+                                        <tr className="font-bold text-slate-900 bg-blue-50/50">
+                                            <td className="px-4 py-2.5">กำไรขั้นต้น</td>
+                                            {renderAmounts(report.totals.grossProfit, report.totals.grossProfit.variance >= 0)}
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                    <tfoot className="border-t-2 border-slate-200 font-bold text-slate-900 bg-slate-50">
+                        <tr>
+                            <td className="px-4 py-3">กำไร (ขาดทุน) สุทธิก่อนภาษี</td>
+                            {renderAmounts(report.totals.netProfit, report.totals.netProfit.variance >= 0)}
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default BudgetReport;
@@ -1,117 +1,23 @@
 import React, { useState, useMemo } from 'react';
 import {
-  TrendingUp, TrendingDown, DollarSign, Building, Calendar, Download,
-  ChevronDown, ChevronUp, Printer, FileText, ArrowUpRight, ArrowDownRight,
-  Wallet, Factory, Landmark, RefreshCw, HelpCircle, Info
+  TrendingUp, Calendar, Download, ChevronDown, ChevronUp, Printer,
+  ArrowUpRight, ArrowDownRight, Wallet, Factory, Landmark, RefreshCw,
+  CheckCircle2, AlertTriangle, Info
 } from 'lucide-react';
 import { PostedGLEntry, Client } from '../types';
+import { CashFlowMethod, generateCashFlowStatement } from '../services/financialStatements';
+import { exportToExcel, exportToPDF, generateCashFlowContent } from '../utils/pdfExport';
 
 interface Props {
   clients: Client[];
   glEntries: PostedGLEntry[];
 }
 
-// Cash Flow Categories mapping based on account codes
-const CASH_FLOW_MAPPING = {
-  // Operating Activities - Direct Method items
-  operating: {
-    cashReceipts: {
-      label: 'เงินสดรับจากลูกค้า',
-      labelEn: 'Cash received from customers',
-      accounts: ['11100', '11200', '41'], // Cash, Bank, Revenue accounts
-      type: 'inflow',
-    },
-    cashPayments: {
-      label: 'เงินสดจ่ายให้เจ้าหนี้การค้า',
-      labelEn: 'Cash paid to suppliers',
-      accounts: ['21', '51', '52'], // AP, COGS, Operating expenses
-      type: 'outflow',
-    },
-    salaryPayments: {
-      label: 'เงินสดจ่ายให้พนักงาน',
-      labelEn: 'Cash paid to employees',
-      accounts: ['521', '522'], // Salary accounts
-      type: 'outflow',
-    },
-    interestReceived: {
-      label: 'ดอกเบี้ยรับ',
-      labelEn: 'Interest received',
-      accounts: ['42'], // Interest income
-      type: 'inflow',
-    },
-    interestPaid: {
-      label: 'ดอกเบี้ยจ่าย',
-      labelEn: 'Interest paid',
-      accounts: ['53'], // Interest expense
-      type: 'outflow',
-    },
-    taxesPaid: {
-      label: 'ภาษีเงินได้จ่าย',
-      labelEn: 'Income taxes paid',
-      accounts: ['213', '54'], // Tax payable, Tax expense
-      type: 'outflow',
-    },
-  },
-  // Investing Activities
-  investing: {
-    propertyPurchase: {
-      label: 'ซื้อที่ดิน อาคาร และอุปกรณ์',
-      labelEn: 'Purchase of property, plant and equipment',
-      accounts: ['12'], // Fixed assets
-      type: 'outflow',
-    },
-    propertySale: {
-      label: 'ขายที่ดิน อาคาร และอุปกรณ์',
-      labelEn: 'Proceeds from sale of property',
-      accounts: ['12'], // Fixed assets (credit side)
-      type: 'inflow',
-    },
-    investmentPurchase: {
-      label: 'ซื้อเงินลงทุน',
-      labelEn: 'Purchase of investments',
-      accounts: ['13'], // Investments
-      type: 'outflow',
-    },
-    investmentSale: {
-      label: 'ขายเงินลงทุน',
-      labelEn: 'Proceeds from sale of investments',
-      accounts: ['13'], // Investments (credit side)
-      type: 'inflow',
-    },
-  },
-  // Financing Activities
-  financing: {
-    borrowings: {
-      label: 'เงินกู้ยืมรับ',
-      labelEn: 'Proceeds from borrowings',
-      accounts: ['22', '23'], // Long-term liabilities
-      type: 'inflow',
-    },
-    loanRepayments: {
-      label: 'จ่ายคืนเงินกู้ยืม',
-      labelEn: 'Repayment of borrowings',
-      accounts: ['22', '23'], // Long-term liabilities (debit side)
-      type: 'outflow',
-    },
-    shareCapital: {
-      label: 'รับเงินจากการออกหุ้น',
-      labelEn: 'Proceeds from share issuance',
-      accounts: ['31'], // Share capital
-      type: 'inflow',
-    },
-    dividendsPaid: {
-      label: 'จ่ายเงินปันผล',
-      labelEn: 'Dividends paid',
-      accounts: ['33'], // Retained earnings/dividends
-      type: 'outflow',
-    },
-  },
-};
-
-// Account code prefixes for classification
-const accountStartsWith = (code: string, prefixes: string[]): boolean => {
-  return prefixes.some(prefix => code.startsWith(prefix));
-};
+const SECTIONS: { key: 'operating' | 'investing' | 'financing'; title: string; titleEn: string; totalLabel: string }[] = [
+  { key: 'operating', title: 'กระแสเงินสดจากกิจกรรมดำเนินงาน', titleEn: 'Cash flows from operating activities', totalLabel: 'เงินสดสุทธิจากกิจกรรมดำเนินงาน' },
+  { key: 'investing', title: 'กระแสเงินสดจากกิจกรรมลงทุน', titleEn: 'Cash flows from investing activities', totalLabel: 'เงินสดสุทธิจากกิจกรรมลงทุน' },
+  { key: 'financing', title: 'กระแสเงินสดจากกิจกรรมจัดหาเงิน', titleEn: 'Cash flows from financing activities', totalLabel: 'เงินสดสุทธิจากกิจกรรมจัดหาเงิน' },
+];
 
 const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
   const [selectedClientId, setSelectedClientId] = useState<string>(clients[0]?.id || '');
@@ -119,154 +25,23 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
   const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth() + 1);
   const [viewMode, setViewMode] = useState<'monthly' | 'yearly'>('monthly');
   const [expandedSections, setExpandedSections] = useState<string[]>(['operating', 'investing', 'financing']);
-  const [method, setMethod] = useState<'direct' | 'indirect'>('direct');
-
-  // Filter GL entries by client and period
-  const filteredEntries = useMemo(() => {
-    return glEntries.filter(entry => {
-      if (entry.clientId !== selectedClientId) return false;
-
-      const entryDate = new Date(entry.date);
-      const entryYear = entryDate.getFullYear();
-      const entryMonth = entryDate.getMonth() + 1;
-
-      if (viewMode === 'yearly') {
-        return entryYear === selectedYear;
-      } else {
-        return entryYear === selectedYear && entryMonth === selectedMonth;
-      }
-    });
-  }, [glEntries, selectedClientId, selectedYear, selectedMonth, viewMode]);
-
-  // Calculate cash flows by category
-  const cashFlows = useMemo(() => {
-    const results = {
-      operating: {
-        items: {} as Record<string, number>,
-        total: 0,
-      },
-      investing: {
-        items: {} as Record<string, number>,
-        total: 0,
-      },
-      financing: {
-        items: {} as Record<string, number>,
-        total: 0,
-      },
-      beginningCash: 0,
-      endingCash: 0,
-      netChange: 0,
-    };
-
-    // Initialize all items
-    Object.entries(CASH_FLOW_MAPPING.operating).forEach(([key]) => {
-      results.operating.items[key] = 0;
-    });
-    Object.entries(CASH_FLOW_MAPPING.investing).forEach(([key]) => {
-      results.investing.items[key] = 0;
-    });
-    Object.entries(CASH_FLOW_MAPPING.financing).forEach(([key]) => {
-      results.financing.items[key] = 0;
-    });
-
-    // Process each GL entry
-    filteredEntries.forEach(entry => {
-      const code = entry.account_code;
-      const netAmount = entry.debit - entry.credit;
-
-      // Operating Activities
-      if (accountStartsWith(code, ['41', '42'])) {
-        // Revenue - cash inflow (credit increases revenue, so negative net = inflow)
-        results.operating.items['cashReceipts'] += Math.abs(entry.credit - entry.debit);
-      } else if (accountStartsWith(code, ['51', '52'])) {
-        // Expenses - cash outflow
-        if (accountStartsWith(code, ['521', '522'])) {
-          results.operating.items['salaryPayments'] += entry.debit;
-        } else if (accountStartsWith(code, ['53'])) {
-          results.operating.items['interestPaid'] += entry.debit;
-        } else {
-          results.operating.items['cashPayments'] += entry.debit;
-        }
-      } else if (accountStartsWith(code, ['213'])) {
-        // Tax payable
-        results.operating.items['taxesPaid'] += Math.abs(netAmount);
-      }
+  const [method, setMethod] = useState<CashFlowMethod>('indirect');
 
-      // Investing Activities
-      if (accountStartsWith(code, ['12'])) {
-        // Fixed assets
-        if (entry.debit > entry.credit) {
-          results.investing.items['propertyPurchase'] += entry.debit - entry.credit;
-        } else {
-          results.investing.items['propertySale'] += entry.credit - entry.debit;
-        }
-      } else if (accountStartsWith(code, ['13'])) {
-        // Investments
-        if (entry.debit > entry.credit) {
-          results.investing.items['investmentPurchase'] += entry.debit - entry.credit;
-        } else {
-          results.investing.items['investmentSale'] += entry.credit - entry.debit;
-        }
-      }
+  const selectedClient = clients.find(c => c.id === selectedClientId);
 
-      // Financing Activities
-      if (accountStartsWith(code, ['22', '23'])) {
-        // Long-term liabilities
-        if (entry.credit > entry.debit) {
-          results.financing.items['borrowings'] += entry.credit - entry.debit;
-        } else {
-          results.financing.items['loanRepayments'] += entry.debit - entry.credit;
-        }
-      } else if (accountStartsWith(code, ['31'])) {
-        // Share capital
-        if (entry.credit > entry.debit) {
-          results.financing.items['shareCapital'] += entry.credit - entry.debit;
-        }
-      } else if (accountStartsWith(code, ['33'])) {
-        // Dividends
-        if (entry.debit > entry.credit) {
-          results.financing.items['dividendsPaid'] += entry.debit - entry.credit;
-        }
-      }
-
-      // Track cash accounts for beginning/ending balance
-      if (accountStartsWith(code, ['111', '112'])) {
-        results.endingCash += netAmount;
-      }
-    });
-
-    // Calculate totals
-    Object.entries(CASH_FLOW_MAPPING.operating).forEach(([key, config]) => {
-      const amount = results.operating.items[key];
-      if (config.type === 'inflow') {
-        results.operating.total += amount;
-      } else {
-        results.operating.total -= amount;
-      }
-    });
-
-    Object.entries(CASH_FLOW_MAPPING.investing).forEach(([key, config]) => {
-      const amount = results.investing.items[key];
-      if (config.type === 'inflow') {
-        results.investing.total += amount;
-      } else {
-        results.investing.total -= amount;
-      }
-    });
-
-    Object.entries(CASH_FLOW_MAPPING.financing).forEach(([key, config]) => {
-      const amount = results.financing.items[key];
-      if (config.type === 'inflow') {
-        results.financing.total += amount;
-      } else {
-        results.financing.total -= amount;
-      }
-    });
-
-    results.netChange = results.operating.total + results.investing.total + results.financing.total;
-
-    return results;
-  }, [filteredEntries]);
+  const period = useMemo(() => {
+    if (viewMode === 'yearly') {
+      return { start: `${selectedYear}-01-01`, end: `${selectedYear}-12-31` };
+    }
+    const month = String(selectedMonth).padStart(2, '0');
+    const lastDay = new Date(selectedYear, selectedMonth, 0).getDate();
+    return { start: `${selectedYear}-${month}-01`, end: `${selectedYear}-${month}-${lastDay}` };
+  }, [viewMode, selectedYear, selectedMonth]);
+
+  const cashFlows = useMemo(
+    () => selectedClient ? generateCashFlowStatement(glEntries, selectedClient, period.start, period.end, method) : null,
+    [glEntries, selectedClient, period, method]
+  );
 
   // Toggle section expansion
   const toggleSection = (section: string) => {
@@ -296,27 +71,64 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
     }
   };
 
+  const handleExportPDF = () => {
+    if (!cashFlows || !selectedClient) return;
+    exportToPDF({
+      title: 'งบกระแสเงินสด',
+      subtitle: `สำหรับงวด ${cashFlows.periodStart} ถึง ${cashFlows.periodEnd} (${method === 'indirect' ? 'วิธีทางอ้อม' : 'วิธีทางตรง'})`,
+      date: cashFlows.periodEnd,
+      companyName: selectedClient.name,
+      taxId: selectedClient.tax_id,
+      content: generateCashFlowContent({
+        sections: SECTIONS.map(section => ({
+          title: section.title,
+          totalLabel: section.totalLabel,
+          items: cashFlows[section.key].items.map(item => ({ name: item.nameTh, amount: item.amount })),
+          total: cashFlows[section.key].total,
+        })),
+        netChange: cashFlows.netChange,
+        beginningCash: cashFlows.beginningCash,
+        endingCash: cashFlows.endingCash,
+      }),
+    });
+  };
+
+  const handleExportExcel = () => {
+    if (!cashFlows) return;
+    const rows: (string | number)[][] = [];
+    SECTIONS.forEach(section => {
+      rows.push([section.title, '']);
+      cashFlows[section.key].items.forEach(item => rows.push([item.nameTh, item.amount]));
+      rows.push([section.totalLabel, cashFlows[section.key].total]);
+    });
+    rows.push(['เงินสดเพิ่มขึ้น (ลดลง) สุทธิ', cashFlows.netChange]);
+    rows.push(['เงินสด ณ วันต้นงวด', cashFlows.beginningCash]);
+    rows.push(['เงินสด ณ วันสิ้นงวด', cashFlows.endingCash]);
+    exportToExcel(rows, `cash_flow_${cashFlows.periodStart}_${cashFlows.periodEnd}`, ['รายการ', 'จำนวนเงิน']);
+  };
+
+  const SECTION_ICONS = {
+    operating: <Factory className="text-blue-600" size={24} />,
+    investing: <TrendingUp className="text-purple-600" size={24} />,
+    financing: <Landmark className="text-amber-600" size={24} />,
+  };
+
   // Section renderer
-  const renderCashFlowSection = (
-    title: string,
-    titleEn: string,
-    icon: React.ReactNode,
-    sectionKey: 'operating' | 'investing' | 'financing',
-    mapping: Record<string, { label: string; labelEn: string; type: string }>
-  ) => {
-    const isExpanded = expandedSections.includes(sectionKey);
-    const sectionData = cashFlows[sectionKey];
+  const renderCashFlowSection = ({ key, title, titleEn }: typeof SECTIONS[number]) => {
+    if (!cashFlows) return null;
+    const isExpanded = expandedSections.includes(key);
+    const sectionData = cashFlows[key];
     const totalColor = sectionData.total >= 0 ? 'text-emerald-600' : 'text-red-600';
 
     return (
-      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div key={key} className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
         {/* Section Header */}
         <button
-          onClick={() => toggleSection(sectionKey)}
+          onClick={() => toggleSection(key)}
           className="w-full px-6 py-4 flex items-center justify-between bg-slate-50 hover:bg-slate-100 transition-colors"
         >
           <div className="flex items-center gap-3">
-            {icon}
+            {SECTION_ICONS[key]}
             <div className="text-left">
               <h3 className="font-semibold text-slate-800">{title}</h3>
               <p className="text-xs text-slate-500">{titleEn}</p>
@@ -333,33 +145,25 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
         {/* Section Details */}
         {isExpanded && (
           <div className="divide-y divide-slate-100">
-            {Object.entries(mapping).map(([key, config]) => {
-              const amount = sectionData.items[key] || 0;
-              if (amount === 0) return null;
-
-              const isInflow = config.type === 'inflow';
-              const displayAmount = isInflow ? amount : -amount;
-
-              return (
-                <div key={key} className="px-6 py-3 flex items-center justify-between hover:bg-slate-50">
-                  <div className="flex items-center gap-2">
-                    {isInflow ? (
-                      <ArrowUpRight size={16} className="text-emerald-500" />
-                    ) : (
-                      <ArrowDownRight size={16} className="text-red-500" />
-                    )}
-                    <div>
-                      <span className="text-sm text-slate-700">{config.label}</span>
-                      <span className="text-xs text-slate-400 ml-2">{config.labelEn}</span>
-                    </div>
+            {sectionData.items.map(item => (
+              <div key={item.code} className="px-6 py-3 flex items-center justify-between hover:bg-slate-50">
+                <div className="flex items-center gap-2">
+                  {item.amount >= 0 ? (
+                    <ArrowUpRight size={16} className="text-emerald-500" />
+                  ) : (
+                    <ArrowDownRight size={16} className="text-red-500" />
+                  )}
+                  <div>
+                    <span className="text-sm text-slate-700">{item.nameTh}</span>
+                    <span className="text-xs text-slate-400 ml-2">{item.name}</span>
                   </div>
-                  <span className={`text-sm font-medium ${displayAmount >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
-                    ฿{formatCurrency(displayAmount)}
-                  </span>
                 </div>
-              );
-            })}
-            {Object.values(sectionData.items).every(v => v === 0) && (
+                <span className={`text-sm font-medium ${item.amount >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                  ฿{formatCurrency(item.amount)}
+                </span>
+              </div>
+            ))}
+            {sectionData.items.length === 0 && (
               <div className="px-6 py-8 text-center text-slate-400">
                 <Info size={24} className="mx-auto mb-2 opacity-50" />
                 <p className="text-sm">ไม่มีรายการในงวดนี้</p>
@@ -371,6 +175,15 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
     );
   };
 
+  if (!cashFlows) {
+    return (
+      <div className="p-6 text-center text-slate-400">
+        <Info size={24} className="mx-auto mb-2 opacity-50" />
+        <p className="text-sm">ยังไม่มีลูกค้า</p>
+      </div>
+    );
+  }
+
   return (
     <div className="animate-in fade-in duration-500 p-6">
       {/* Header */}
@@ -396,11 +209,17 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
           </select>
 
           {/* Actions */}
-          <button className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50">
+          <button
+            onClick={handleExportPDF}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50"
+          >
             <Printer size={18} />
             พิมพ์
           </button>
-          <button className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50">
+          <button
+            onClick={handleExportExcel}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm text-slate-600 hover:bg-slate-50"
+          >
             <Download size={18} />
             Export
           </button>
@@ -463,15 +282,12 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
               <span className="text-sm text-slate-500">วิธี:</span>
               <select
                 value={method}
-                onChange={(e) => setMethod(e.target.value as any)}
+                onChange={(e) => setMethod(e.target.value as CashFlowMethod)}
                 className="border border-slate-200 rounded-lg px-3 py-2 text-sm"
               >
-                <option value="direct">ทางตรง (Direct)</option>
                 <option value="indirect">ทางอ้อม (Indirect)</option>
+                <option value="direct">ทางตรง (Direct)</option>
               </select>
-              <button className="p-1 text-slate-400 hover:text-slate-600" title="ข้อมูลเพิ่มเติม">
-                <HelpCircle size={16} />
-              </button>
             </div>
           </div>
         </div>
@@ -523,7 +339,7 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
       {/* Report Title */}
       <div className="bg-slate-50 rounded-xl border border-slate-200 p-4 mb-6 text-center">
         <h3 className="text-lg font-bold text-slate-800">
-          {clients.find(c => c.id === selectedClientId)?.name || 'บริษัท'}
+          {cashFlows.clientName}
         </h3>
         <p className="text-sm text-slate-600">งบกระแสเงินสด</p>
         <p className="text-sm text-slate-500">สำหรับ{getPeriodLabel()}</p>
@@ -532,32 +348,7 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
 
       {/* Cash Flow Sections */}
       <div className="space-y-4">
-        {/* Operating Activities */}
-        {renderCashFlowSection(
-          'กระแสเงินสดจากกิจกรรมดำเนินงาน',
-          'Cash flows from operating activities',
-          <Factory className="text-blue-600" size={24} />,
-          'operating',
-          CASH_FLOW_MAPPING.operating
-        )}
-
-        {/* Investing Activities */}
-        {renderCashFlowSection(
-          'กระแสเงินสดจากกิจกรรมลงทุน',
-          'Cash flows from investing activities',
-          <TrendingUp className="text-purple-600" size={24} />,
-          'investing',
-          CASH_FLOW_MAPPING.investing
-        )}
-
-        {/* Financing Activities */}
-        {renderCashFlowSection(
-          'กระแสเงินสดจากกิจกรรมจัดหาเงิน',
-          'Cash flows from financing activities',
-          <Landmark className="text-amber-600" size={24} />,
-          'financing',
-          CASH_FLOW_MAPPING.financing
-        )}
+        {SECTIONS.map(renderCashFlowSection)}
 
         {/* Summary */}
         <div className="bg-gradient-to-r from-slate-800 to-slate-900 rounded-xl p-6 text-white">
@@ -575,10 +366,16 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
             <div>
               <p className="text-sm text-slate-300 mb-1">เงินสดปลายงวด</p>
               <p className="text-xl font-bold text-blue-300">
-                ฿{formatCurrency(cashFlows.beginningCash + cashFlows.netChange)}
+                ฿{formatCurrency(cashFlows.endingCash)}
               </p>
             </div>
           </div>
+          <div className={`mt-4 flex items-center gap-2 text-sm ${cashFlows.isReconciled ? 'text-emerald-300' : 'text-red-300'}`}>
+            {cashFlows.isReconciled ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+            {cashFlows.isReconciled
+              ? 'กระแสเงินสดสุทธิกระทบยอดกับเงินสดในบัญชีแล้ว'
+              : `กระแสเงินสดสุทธิไม่ตรงกับการเปลี่ยนแปลงของเงินสด (ผลต่าง ฿${formatCurrency(cashFlows.difference)})`}
+          </div>
         </div>
       </div>
 
@@ -590,7 +387,11 @@ const CashFlowStatement: React.FC<Props> = ({ clients, glEntries }) => {
             <p className="font-semibold mb-1">หมายเหตุประกอบงบกระแสเงินสด</p>
             <ul className="list-disc list-inside space-y-1 text-amber-700">
               <li>งบกระแสเงินสดนี้จัดทำตามวิธี{method === 'direct' ? 'ทางตรง' : 'ทางอ้อม'}</li>
-              <li>รายการที่ไม่ใช่เงินสด เช่น ค่าเสื่อมราคา ไม่รวมในงบนี้</li>
+              {method === 'indirect' ? (
+                <li>เริ่มจากกำไรสุทธิ ปรับปรุงด้วยค่าเสื่อมราคา กำไรขาดทุนจากการจำหน่ายสินทรัพย์ และการเปลี่ยนแปลงเงินทุนหมุนเวียน</li>
+              ) : (
+                <li>จัดประเภทตามบัญชีคู่ของรายการรับ-จ่ายเงินสดแต่ละใบสำคัญ</li>
+              )}
               <li>ตัวเลขในวงเล็บหมายถึงเงินสดไหลออก</li>
             </ul>
           </div>
@@ -1,11 +1,54 @@
-import React, { useState } from 'react';
-import { THAI_GL_CODES } from '../constants';
-import { Folder, FolderOpen, Plus, Search, Edit2, MoreHorizontal, CheckCircle2 } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Client, ChartOfAccount, AccountType, ClientChartOfAccounts, ChartTemplateId } from '../types';
+import {
+  CHART_TEMPLATES,
+  loadClientChart,
+  seedClientChart,
+  addAccount,
+  setAccountActive,
+  mergeAccounts,
+  syncTemplateAccounts,
+  ChartOperationResult,
+} from '../services/chartOfAccounts';
+import { useAuth } from '../contexts/AuthContext';
+import { FolderOpen, Plus, Search, CheckCircle2, XCircle, GitMerge, History, RefreshCw, Loader2 } from 'lucide-react';
 
-const ChartOfAccounts: React.FC = () => {
-  const [accounts, setAccounts] = useState(THAI_GL_CODES);
+interface Props {
+  clientId: string;
+  client?: Client;
+}
+
+const ACCOUNT_TYPES: { value: AccountType; label: string }[] = [
+  { value: 'asset', label: 'สินทรัพย์' },
+  { value: 'liability', label: 'หนี้สิน' },
+  { value: 'equity', label: 'ส่วนของผู้ถือหุ้น' },
+  { value: 'revenue', label: 'รายได้' },
+  { value: 'expense', label: 'ค่าใช้จ่าย' },
+];
+
+const NORMAL_BALANCE: Record<AccountType, 'debit' | 'credit'> = {
+  asset: 'debit',
+  liability: 'credit',
+  equity: 'credit',
+  revenue: 'credit',
+  expense: 'debit',
+};
+
+const ChartOfAccounts: React.FC<Props> = ({ clientId, client }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+
+  const [chart, setChart] = useState<ClientChartOfAccounts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [activeCategory, setActiveCategory] = useState<string>('all');
+  const [showInactive, setShowInactive] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [mergeSource, setMergeSource] = useState<ChartOfAccount | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [newAccount, setNewAccount] = useState({ code: '', name: '', nameTh: '', type: 'expense' as AccountType, parentCode: '' });
 
   const categories = [
       { id: '1', label: 'สินทรัพย์ (Assets)', color: 'text-emerald-600 bg-emerald-50' },
@@ -15,12 +58,75 @@ const ChartOfAccounts: React.FC = () => {
       { id: '5', label: 'ค่าใช้จ่าย (Expense)', color: 'text-red-600 bg-red-50' },
   ];
 
-  const filteredAccounts = accounts.filter(acc => {
-      const matchesSearch = acc.code.includes(searchTerm) || acc.name.toLowerCase().includes(searchTerm.toLowerCase());
+  useEffect(() => {
+      let cancelled = false;
+      setLoading(true);
+      loadClientChart(clientId, client)
+          .then(loaded => { if (!cancelled) setChart(loaded); })
+          .catch(e => {
+              console.error('Failed to load chart of accounts', e);
+              if (!cancelled) setMessage({ text: 'ไม่สามารถโหลดผังบัญชีได้', ok: false });
+          })
+          .finally(() => { if (!cancelled) setLoading(false); });
+      return () => { cancelled = true; };
+  }, [clientId, client]);
+
+  const applyResult = (result: ChartOperationResult) => {
+      setChart(result.chart);
+      setMessage({ text: result.messageTh, ok: result.success });
+  };
+
+  const handleAdd = async () => {
+      const result = await addAccount(clientId, {
+          code: newAccount.code.trim(),
+          name: newAccount.name.trim(),
+          nameTh: newAccount.nameTh.trim(),
+          type: newAccount.type,
+          normalBalance: NORMAL_BALANCE[newAccount.type],
+          parentCode: newAccount.parentCode.trim() || undefined,
+      }, userId);
+      applyResult(result);
+      if (result.success) {
+          setShowAddForm(false);
+          setNewAccount({ code: '', name: '', nameTh: '', type: 'expense', parentCode: '' });
+      }
+  };
+
+  const handleMerge = async () => {
+      if (!mergeSource || !mergeTarget) return;
+      applyResult(await mergeAccounts(clientId, mergeSource.code, mergeTarget, userId));
+      setMergeSource(null);
+      setMergeTarget('');
+  };
+
+  const handleTemplateChange = async (templateId: ChartTemplateId) => {
+      if (!window.confirm(`เปลี่ยนผังบัญชีเป็นแม่แบบ ${CHART_TEMPLATES[templateId].nameTh}?`)) return;
+      applyResult(await seedClientChart(clientId, templateId, userId));
+  };
+
+  if (loading || !chart) {
+      return (
+          <div className="bg-white rounded-xl border border-slate-200 p-12 flex items-center justify-center text-slate-400">
+              {loading ? <Loader2 className="animate-spin" size={24} /> : message?.text}
+          </div>
+      );
+  }
+
+  const template = CHART_TEMPLATES[chart.templateId];
+  const templateOutdated = chart.templateVersion < template.version;
+
+  const filteredAccounts = chart.accounts.filter(acc => {
+      const matchesSearch = acc.code.includes(searchTerm)
+          || acc.name.toLowerCase().includes(searchTerm.toLowerCase())
+          || acc.nameTh.includes(searchTerm);
       const matchesCategory = activeCategory === 'all' || acc.code.startsWith(activeCategory);
-      return matchesSearch && matchesCategory;
+      return matchesSearch && matchesCategory && (showInactive || acc.isActive);
   });
 
+  const mergeCandidates = mergeSource
+      ? chart.accounts.filter(a => a.type === mergeSource.type && a.code !== mergeSource.code && !a.mergedInto)
+      : [];
+
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500">
       <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
@@ -29,23 +135,91 @@ const ChartOfAccounts: React.FC = () => {
                <FolderOpen className="text-blue-600" size={20} />
                ผังบัญชี (Chart of Accounts)
            </h3>
-           <p className="text-sm text-slate-500">จัดการโครงสร้างบัญชีแยกประเภทมาตรฐาน TAS</p>
+           <p className="text-sm text-slate-500">
+               แม่แบบ: {template.nameTh} v{chart.templateVersion} · เวอร์ชันผังบัญชี {chart.version}
+           </p>
+        </div>
+        <div className="flex items-center gap-2">
+            <select
+              value={chart.templateId}
+              onChange={(e) => handleTemplateChange(e.target.value as ChartTemplateId)}
+              className="px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white"
+            >
+                {Object.values(CHART_TEMPLATES).map(t => (
+                    <option key={t.id} value={t.id}>{t.nameTh}</option>
+                ))}
+            </select>
+            {templateOutdated && (
+                <button
+                  onClick={async () => applyResult(await syncTemplateAccounts(clientId, userId))}
+                  className="flex items-center gap-2 px-3 py-2 bg-amber-50 text-amber-700 border border-amber-200 rounded-lg text-sm font-semibold hover:bg-amber-100"
+                >
+                    <RefreshCw size={14} /> อัปเดตแม่แบบ v{template.version}
+                </button>
+            )}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 text-slate-600 rounded-lg text-sm font-semibold hover:bg-slate-100"
+            >
+                <History size={14} /> ประวัติ
+            </button>
+            <button
+              onClick={() => setShowAddForm(!showAddForm)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-sm shadow-blue-200"
+            >
+                <Plus size={16} /> เพิ่มบัญชีใหม่
+            </button>
         </div>
-        <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-sm shadow-blue-200">
-            <Plus size={16} /> เพิ่มบัญชีใหม่
-        </button>
       </div>
 
+      {message && (
+          <div className={`px-6 py-2 text-sm ${message.ok ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+              {message.text}
+          </div>
+      )}
+
+      {showAddForm && (
+          <div className="p-4 border-b border-slate-100 bg-blue-50/40 grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <input placeholder="รหัส (5 หลัก)" value={newAccount.code} onChange={(e) => setNewAccount({ ...newAccount, code: e.target.value })} className="px-3 py-2 border border-slate-200 rounded-lg text-sm font-mono" />
+              <input placeholder="ชื่อบัญชี (ไทย)" value={newAccount.nameTh} onChange={(e) => setNewAccount({ ...newAccount, nameTh: e.target.value })} className="px-3 py-2 border border-slate-200 rounded-lg text-sm" />
+              <input placeholder="Account name (EN)" value={newAccount.name} onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })} className="px-3 py-2 border border-slate-200 rounded-lg text-sm" />
+              <select value={newAccount.type} onChange={(e) => setNewAccount({ ...newAccount, type: e.target.value as AccountType })} className="px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white">
+                  {ACCOUNT_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+              <input placeholder="บัญชีคุม (ถ้ามี)" value={newAccount.parentCode} onChange={(e) => setNewAccount({ ...newAccount, parentCode: e.target.value })} className="px-3 py-2 border border-slate-200 rounded-lg text-sm font-mono" />
+              <button
+                onClick={handleAdd}
+                disabled={!newAccount.code || !newAccount.name || !newAccount.nameTh}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 disabled:opacity-50"
+              >
+                  บันทึก
+              </button>
+          </div>
+      )}
+
+      {mergeSource && (
+          <div className="p-4 border-b border-slate-100 bg-purple-50/40 flex flex-wrap items-center gap-3 text-sm">
+              <GitMerge size={16} className="text-purple-600" />
+              <span>รวมบัญชี <span className="font-mono font-bold">{mergeSource.code}</span> เข้ากับ</span>
+              <select value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} className="px-3 py-2 border border-slate-200 rounded-lg text-sm bg-white">
+                  <option value="">เลือกบัญชีปลายทาง</option>
+                  {mergeCandidates.map(a => <option key={a.code} value={a.code}>{a.code} - {a.nameTh}</option>)}
+              </select>
+              <button onClick={handleMerge} disabled={!mergeTarget} className="px-3 py-2 bg-purple-600 text-white rounded-lg font-semibold disabled:opacity-50">ยืนยัน</button>
+              <button onClick={() => setMergeSource(null)} className="px-3 py-2 text-slate-500 hover:text-slate-700">ยกเลิก</button>
+          </div>
+      )}
+
       <div className="p-4 border-b border-slate-100 bg-white flex flex-wrap gap-4 items-center justify-between">
           <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0">
-              <button 
+              <button
                 onClick={() => setActiveCategory('all')}
                 className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors whitespace-nowrap ${activeCategory === 'all' ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
               >
                   ทั้งหมด
               </button>
               {categories.map(cat => (
-                  <button 
+                  <button
                     key={cat.id}
                     onClick={() => setActiveCategory(cat.id)}
                     className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors whitespace-nowrap ${activeCategory === cat.id ? cat.color.replace('bg-', 'bg-opacity-100 text-white bg-') : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
@@ -56,15 +230,21 @@ const ChartOfAccounts: React.FC = () => {
                   </button>
               ))}
           </div>
-          <div className="relative w-full md:w-64">
-              <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
-              <input 
-                type="text" 
-                placeholder="ค้นหารหัสหรือชื่อบัญชี..." 
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full pl-9 pr-4 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
-              />
+          <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-xs text-slate-500 whitespace-nowrap">
+                  <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+                  แสดงบัญชีที่ปิดใช้งาน
+              </label>
+              <div className="relative w-full md:w-64">
+                  <Search className="absolute left-3 top-2.5 text-slate-400" size={16} />
+                  <input
+                    type="text"
+                    placeholder="ค้นหารหัสหรือชื่อบัญชี..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="w-full pl-9 pr-4 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
+                  />
+              </div>
           </div>
       </div>
 
@@ -76,7 +256,7 @@ const ChartOfAccounts: React.FC = () => {
                       <th className="px-6 py-4">Account Name (TH/EN)</th>
                       <th className="px-6 py-4 w-40">Class</th>
                       <th className="px-6 py-4 w-32 text-center">Status</th>
-                      <th className="px-6 py-4 w-20"></th>
+                      <th className="px-6 py-4 w-28"></th>
                   </tr>
               </thead>
               <tbody className="divide-y divide-slate-50">
@@ -84,23 +264,51 @@ const ChartOfAccounts: React.FC = () => {
                       const catId = acc.code.charAt(0);
                       const cat = categories.find(c => c.id === catId);
                       return (
-                          <tr key={acc.code} className="hover:bg-slate-50 group">
+                          <tr key={acc.code} className={`hover:bg-slate-50 group ${acc.isActive ? '' : 'opacity-60'}`}>
                               <td className="px-6 py-3 font-mono text-slate-600 font-medium">{acc.code}</td>
-                              <td className="px-6 py-3 font-medium text-slate-700">{acc.name}</td>
+                              <td className="px-6 py-3 font-medium text-slate-700">
+                                  {acc.nameTh}
+                                  <span className="block text-xs text-slate-400 font-normal">{acc.name}</span>
+                              </td>
                               <td className="px-6 py-3">
                                   <span className={`text-[10px] px-2 py-0.5 rounded font-bold uppercase ${cat?.color || 'bg-slate-100 text-slate-500'}`}>
                                       {cat?.label.split(' ')[1].replace(/[()]/g, '') || 'Other'}
                                   </span>
                               </td>
                               <td className="px-6 py-3 text-center">
-                                  <span className="inline-flex items-center gap-1 text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full border border-emerald-100">
-                                      <CheckCircle2 size={10} /> Active
-                                  </span>
+                                  {acc.mergedInto ? (
+                                      <span className="inline-flex items-center gap-1 text-[10px] font-bold text-purple-600 bg-purple-50 px-2 py-0.5 rounded-full border border-purple-100">
+                                          <GitMerge size={10} /> → {acc.mergedInto}
+                                      </span>
+                                  ) : acc.isActive ? (
+                                      <span className="inline-flex items-center gap-1 text-[10px] font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full border border-emerald-100">
+                                          <CheckCircle2 size={10} /> Active
+                                      </span>
+                                  ) : (
+                                      <span className="inline-flex items-center gap-1 text-[10px] font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full border border-slate-200">
+                                          <XCircle size={10} /> Inactive
+                                      </span>
+                                  )}
                               </td>
-                              <td className="px-6 py-3 text-right">
-                                  <button className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors">
-                                      <Edit2 size={14} />
-                                  </button>
+                              <td className="px-6 py-3 text-right whitespace-nowrap">
+                                  {!acc.mergedInto && (
+                                      <>
+                                          <button
+                                            title="รวมบัญชี"
+                                            onClick={() => { setMergeSource(acc); setMergeTarget(''); }}
+                                            className="p-1.5 text-slate-400 hover:text-purple-600 hover:bg-purple-50 rounded transition-colors"
+                                          >
+                                              <GitMerge size={14} />
+                                          </button>
+                                          <button
+                                            title={acc.isActive ? 'ปิดใช้งาน' : 'เปิดใช้งาน'}
+                                            onClick={async () => applyResult(await setAccountActive(clientId, acc.code, !acc.isActive, userId))}
+                                            className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                          >
+                                              {acc.isActive ? <XCircle size={14} /> : <CheckCircle2 size={14} />}
+                                          </button>
+                                      </>
+                                  )}
                               </td>
                           </tr>
                       );
@@ -108,8 +316,33 @@ const ChartOfAccounts: React.FC = () => {
               </tbody>
           </table>
       </div>
+
+      {showHistory && (
+          <div className="border-t border-slate-100 max-h-64 overflow-auto">
+              <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 font-semibold">
+                      <tr>
+                          <th className="px-6 py-2 w-16">Ver.</th>
+                          <th className="px-6 py-2 w-40">วันที่</th>
+                          <th className="px-6 py-2">รายการ</th>
+                          <th className="px-6 py-2 w-32">ผู้แก้ไข</th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                      {[...chart.history].reverse().map(h => (
+                          <tr key={h.version}>
+                              <td className="px-6 py-2 font-mono">{h.version}</td>
+                              <td className="px-6 py-2">{new Date(h.changedAt).toLocaleString('th-TH')}</td>
+                              <td className="px-6 py-2">{h.detail}</td>
+                              <td className="px-6 py-2">{h.changedBy}</td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
+      )}
     </div>
   );
 };
 
-export default ChartOfAccounts;
\ No newline at end of file
+export default ChartOfAccounts;
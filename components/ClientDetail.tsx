@@ -1,7 +1,7 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { Client, DocumentRecord, Staff, PostedGLEntry, VendorRule, FixedAsset, WorkflowStatus } from '../types';
-import { ArrowLeft, Building2, MapPin, Phone, Mail, FileText, CheckCircle2, AlertTriangle, PieChart, CalendarDays, Upload, Clock, BookOpen, Settings, BarChart4, X, Scale, ShieldCheck, FolderOpen, Save, Trash, Plus, Loader2 } from 'lucide-react';
+import { ArrowLeft, Building2, MapPin, Phone, Mail, FileText, CheckCircle2, AlertTriangle, PieChart, CalendarDays, Upload, Clock, BookOpen, Settings, BarChart4, X, Scale, ShieldCheck, FolderOpen, Save, Trash, Plus, Loader2, Undo2 } from 'lucide-react';
 import DocumentList from './DocumentList';
 import TrialBalance from './TrialBalance';
 import ProfitAndLoss from './ProfitAndLoss';
@@ -11,7 +11,23 @@ import FinancialRatios from './FinancialRatios';
 import ChartOfAccounts from './ChartOfAccounts';
 import AuditClosing from './AuditClosing';
 import FinancialNotes from './FinancialNotes';
+import DBDExport from './DBDExport';
+import GeneralLedger from './GeneralLedger';
+import AgingReport from './AgingReport';
+import CostCenterReport from './CostCenterReport';
+import BudgetReport from './BudgetReport';
+import FiscalYearClose from './FiscalYearClose';
+import CorporateIncomeTax from './CorporateIncomeTax';
+import AmortizationSchedules from './AmortizationSchedules';
+import RecurringJournals from './RecurringJournals';
+import InventoryManager from './InventoryManager';
+import ConsolidationReport from './ConsolidationReport';
 import { databaseService } from '../services/database';
+import { reverseGLEntries } from '../services/glReversal';
+import { useAuth } from '../contexts/AuthContext';
+import { getFiscalYearEndMonth } from '../services/fiscalYear';
+import { getBranchCodes, HEAD_OFFICE_BRANCH } from '../services/branches';
+import { AccountRange } from '../services/financialStatements';
 
 interface Props {
   client: Client;
@@ -27,15 +43,18 @@ interface Props {
   
   // Systematic Actions
   onLockPeriod: () => void;
+  onUnlockPeriod?: () => void;
   onPostJournal: (entries: PostedGLEntry[]) => void;
   onBatchApprove?: (docIds: string[]) => void;
   onAddAsset: (asset: FixedAsset) => void; 
   onUpdateStatus: (status: Partial<Client['current_workflow']>) => void;
 }
 
-const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules, onUpdateRules, onBack, onReviewDoc, onLockPeriod, onPostJournal, onBatchApprove, onAddAsset, onUpdateStatus }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'documents' | 'financials' | 'pl' | 'bs' | 'assets' | 'gl' | 'audit' | 'coa' | 'notes' | 'settings'>('overview');
-  const [glFilter, setGlFilter] = useState<string | null>(null);
+const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules, onUpdateRules, onBack, onReviewDoc, onLockPeriod, onUnlockPeriod, onPostJournal, onBatchApprove, onAddAsset, onUpdateStatus }) => {
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'overview' | 'documents' | 'financials' | 'pl' | 'bs' | 'assets' | 'inventory' | 'gl' | 'segments' | 'group' | 'budget' | 'aging' | 'schedules' | 'recurring' | 'audit' | 'yearend' | 'cit' | 'coa' | 'notes' | 'dbd' | 'settings'>('overview');
+  const [glFilter, setGlFilter] = useState<AccountRange | null>(null);
+  const [branchFilter, setBranchFilter] = useState<string | null>(null); // '' = lines without a branch
   
   // --- SCALABILITY: Local State for Heavy Data ---
   const [localGLEntries, setLocalGLEntries] = useState<PostedGLEntry[]>([]);
@@ -75,31 +94,24 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
       return s ? s.name : 'Unassigned';
   };
 
-  const handleDrillDown = (code: string) => {
-      setGlFilter(code);
+  // Statement lines open the ledger for an account, or a range of accounts for a group line
+  const handleDrillDown = (from: string, to: string = from) => {
+      setGlFilter({ from, to });
       setActiveTab('gl');
   };
 
-  // SYSTEMATIC GL ENGINE: Running Balance Calculation
-  const processedGL = useMemo(() => {
-      let filtered = [...localGLEntries];
-      if (glFilter) {
-          filtered = filtered.filter(e => e.account_code === glFilter);
-      }
-      // Sort by Date
-      filtered.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-      // Calculate Running Balance
-      let runningBalance = 0;
-      return filtered.map(e => {
-          // Asset/Expense: Dr + / Cr -
-          // Liab/Equity/Rev: Cr + / Dr -
-          const isDrNormal = e.account_code.startsWith('1') || e.account_code.startsWith('5');
-          const change = isDrNormal ? (e.debit - e.credit) : (e.credit - e.debit);
-          runningBalance += change;
-          return { ...e, balance: runningBalance };
-      });
-  }, [glFilter, localGLEntries]);
+  // Branch-level trial balance and P&L
+  const branchCodes = useMemo(() => getBranchCodes(client, localGLEntries), [client, localGLEntries]);
+  const branchGLEntries = useMemo(
+      () => branchFilter === null ? localGLEntries : localGLEntries.filter(e => (e.branch_code || '') === branchFilter),
+      [localGLEntries, branchFilter]
+  );
+
+  // Journal listing for the unfiltered GL tab; a selected account opens its ledger instead
+  const processedGL = useMemo(
+      () => [...localGLEntries].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+      [localGLEntries]
+  );
 
   const handleAddRule = () => {
       if(newVendor && newCode) {
@@ -126,6 +138,46 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
       onPostJournal(entries); // Propagate up for persistence
   };
   
+  // Corrections are posted as reversing vouchers; posted entries are never edited
+  const handleReverse = async (docNo: string) => {
+      const reason = window.prompt(`เหตุผลในการกลับรายการ ${docNo}`);
+      if (!reason) return;
+
+      const result = await reverseGLEntries({
+          clientId: client.id,
+          docNo,
+          reason,
+          userId: user?.staffId || user?.uid || 'system',
+          userName: user?.displayName || undefined,
+          userRole: user?.role,
+      });
+
+      if (!result.success) {
+          alert(result.validation.errors.map(e => e.messageTh).join('\n'));
+          return;
+      }
+
+      const reversedAt = new Date().toISOString();
+      setLocalGLEntries(prev => [
+          ...prev.map(e => e.doc_no === docNo && e.clientId === client.id
+              ? { ...e, reversed_by: result.reversalDocNo, reversed_at: reversedAt }
+              : e),
+          ...result.entries,
+      ]);
+  };
+
+  // Year-end close posts new vouchers; reopening also marks the vouchers it reversed
+  const handleYearEndPosted = (entries: PostedGLEntry[]) => {
+      const reversedAt = new Date().toISOString();
+      const reversedBy = new Map(entries.filter(e => e.reversal_of).map(e => [e.reversal_of!, e.doc_no]));
+      setLocalGLEntries(prev => [
+          ...prev.map(e => e.clientId === client.id && reversedBy.has(e.doc_no)
+              ? { ...e, reversed_by: reversedBy.get(e.doc_no), reversed_at: reversedAt }
+              : e),
+          ...entries,
+      ]);
+  };
+
   // Wrapper for Asset Add to update local state
   const handleLocalAddAsset = (asset: FixedAsset) => {
       setLocalAssets(prev => [...prev, asset]);
@@ -140,8 +192,18 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
       'pl': 'งบกำไรขาดทุน',
       'bs': 'งบดุล',
       'assets': 'สินทรัพย์',
+      'inventory': 'สินค้าคงเหลือ',
+      'segments': 'กำไรตามแผนก',
+      'group': 'งบการเงินรวม',
+      'budget': 'งบประมาณ',
+      'aging': 'อายุลูกหนี้/เจ้าหนี้',
+      'schedules': 'ตัดจ่าย/รับรู้รายได้',
+      'recurring': 'รายการประจำ',
       'audit': 'ปิดงบ & ตรวจสอบ',
+      'yearend': 'ปิดบัญชีสิ้นปี',
+      'cit': 'ภาษีเงินได้นิติบุคคล',
       'notes': 'หมายเหตุฯ',
+      'dbd': 'DBD e-Filing',
       'coa': 'ผังบัญชี',
       'settings': 'ตั้งค่า'
   };
@@ -329,16 +391,33 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
                 />
            )}
            
+           {(activeTab === 'financials' || activeTab === 'pl') && branchCodes.length > 0 && (
+               <div className="mb-4 flex items-center gap-2 text-sm">
+                   <span className="text-slate-500">สาขา:</span>
+                   <select
+                        value={branchFilter ?? 'ALL'}
+                        onChange={e => setBranchFilter(e.target.value === 'ALL' ? null : e.target.value)}
+                        className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+                   >
+                       <option value="ALL">ทุกสาขา (รวม)</option>
+                       {branchCodes.map(code => (
+                           <option key={code} value={code}>{code === HEAD_OFFICE_BRANCH ? `${code} สำนักงานใหญ่` : `สาขา ${code}`}</option>
+                       ))}
+                       <option value="">ไม่ระบุสาขา</option>
+                   </select>
+               </div>
+           )}
+
            {activeTab === 'financials' && (
-               <TrialBalance entries={localGLEntries} onDrillDown={handleDrillDown} />
+               <TrialBalance entries={branchGLEntries} onDrillDown={handleDrillDown} />
            )}
 
             {activeTab === 'pl' && (
-               <ProfitAndLoss entries={localGLEntries} onDrillDown={handleDrillDown} />
+               <ProfitAndLoss client={client} entries={branchGLEntries} onDrillDown={handleDrillDown} />
            )}
 
            {activeTab === 'bs' && (
-               <BalanceSheet entries={localGLEntries} />
+               <BalanceSheet client={client} entries={localGLEntries} onDrillDown={handleDrillDown} />
            )}
 
             {activeTab === 'assets' && (
@@ -346,7 +425,57 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
                     assets={localAssets}
                     clientId={client.id}
                     onAddAsset={handleLocalAddAsset} 
-                    onPostJournal={handleLocalPost} 
+                    onUpdateAsset={asset => setLocalAssets(prev => prev.map(a => a.id === asset.id ? asset : a))}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
+                    fiscalYearEndMonth={getFiscalYearEndMonth(client)}
+                />
+           )}
+
+           {activeTab === 'inventory' && (
+               <InventoryManager
+                    client={client}
+                    documents={clientDocs}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
+                />
+           )}
+
+           {activeTab === 'group' && (
+               <ConsolidationReport client={client} />
+           )}
+
+           {activeTab === 'segments' && (
+               <CostCenterReport
+                    client={client}
+                    entries={localGLEntries}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
+                />
+           )}
+
+           {activeTab === 'budget' && (
+               <BudgetReport client={client} entries={localGLEntries} />
+           )}
+
+           {activeTab === 'aging' && (
+               <AgingReport
+                    client={client}
+                    documents={clientDocs}
+                    glEntries={localGLEntries}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
+                />
+           )}
+
+           {activeTab === 'schedules' && (
+               <AmortizationSchedules
+                    client={client}
+                    documents={clientDocs}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
+                />
+           )}
+
+           {activeTab === 'recurring' && (
+               <RecurringJournals
+                    client={client}
+                    onPosted={entries => setLocalGLEntries(prev => [...prev, ...entries])}
                 />
            )}
 
@@ -355,32 +484,51 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
                     documents={documents} 
                     glEntries={localGLEntries} 
                     assets={localAssets}
-                    clientId={client.id}
+                    client={client}
                     onClosePeriod={onLockPeriod}
+                    onReopenPeriod={onUnlockPeriod}
                     isLocked={client.current_workflow.is_locked}
                     onPostJournal={handleLocalPost}
                 />
            )}
 
+           {activeTab === 'yearend' && (
+               <FiscalYearClose client={client} entries={localGLEntries} onPosted={handleYearEndPosted} />
+           )}
+
+           {activeTab === 'cit' && (
+               <CorporateIncomeTax client={client} entries={localGLEntries} assets={localAssets} onPostJournal={handleLocalPost} />
+           )}
+
            {activeTab === 'coa' && (
-               <ChartOfAccounts />
+               <ChartOfAccounts clientId={client.id} client={client} />
            )}
 
            {activeTab === 'notes' && (
-               <FinancialNotes client={client} entries={localGLEntries} />
+               <FinancialNotes client={client} entries={localGLEntries} assets={localAssets} />
+           )}
+
+           {activeTab === 'dbd' && (
+               <DBDExport client={client} entries={localGLEntries} />
            )}
 
-           {activeTab === 'gl' && (
+           {activeTab === 'gl' && glFilter && (
+               <GeneralLedger
+                    client={client}
+                    entries={localGLEntries}
+                    accountRange={glFilter}
+                    documents={clientDocs}
+                    onClearRange={() => setGlFilter(null)}
+                    onOpenDocument={onReviewDoc}
+                    onReverse={handleReverse}
+               />
+           )}
+
+           {activeTab === 'gl' && !glFilter && (
                <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in">
                     <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
                         <div className="flex items-center gap-3">
                             <h3 className="font-bold text-slate-800">สมุดบัญชีแยกประเภท (General Ledger)</h3>
-                            {glFilter && (
-                                <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-2">
-                                    Account: {glFilter}
-                                    <button onClick={() => setGlFilter(null)} className="hover:text-blue-900"><X size={14}/></button>
-                                </span>
-                            )}
                         </div>
                         <div className="text-xs text-slate-500">
                              {processedGL.length} Transactions found
@@ -395,35 +543,54 @@ const ClientDetail: React.FC<Props> = ({ client, documents, staff, vendorRules,
                                     <th className="px-6 py-3 bg-slate-50">คำอธิบาย</th>
                                     <th className="px-6 py-3 bg-slate-50">รหัสบัญชี</th>
                                     <th className="px-6 py-3 bg-slate-50">ชื่อบัญชี</th>
-                                    <th className="px-6 py-3 bg-slate-50">แผนก</th>
+                                    <th className="px-6 py-3 bg-slate-50">แผนก/สาขา</th>
                                     <th className="px-6 py-3 bg-slate-50 text-right">เดบิต</th>
                                     <th className="px-6 py-3 bg-slate-50 text-right">เครดิต</th>
-                                    {glFilter && <th className="px-6 py-3 bg-slate-50 text-right text-blue-700 font-bold">คงเหลือ</th>}
+                                    <th className="px-6 py-3 bg-slate-50 w-12"></th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-slate-50">
                                 {processedGL.length === 0 ? (
-                                    <tr><td colSpan={glFilter ? 9 : 8} className="px-6 py-12 text-center text-slate-400">
-                                        {glFilter ? 'ไม่พบรายการสำหรับบัญชีนี้' : 'ยังไม่มีรายการบันทึกบัญชี'}
-                                    </td></tr>
+                                    <tr><td colSpan={9} className="px-6 py-12 text-center text-slate-400">ยังไม่มีรายการบันทึกบัญชี</td></tr>
                                 ) : processedGL.map(gl => (
                                     <tr key={gl.id} className={`hover:bg-slate-50 ${gl.system_generated ? 'bg-indigo-50/20' : ''}`}>
                                         <td className="px-6 py-2.5 text-slate-600">{gl.date}</td>
-                                        <td className="px-6 py-2.5 font-medium text-blue-600 cursor-pointer hover:underline">{gl.doc_no}</td>
+                                        <td
+                                            onClick={() => {
+                                                const sourceDoc = gl.source_doc_id ? clientDocs.find(d => d.id === gl.source_doc_id) : undefined;
+                                                if (sourceDoc) onReviewDoc(sourceDoc);
+                                            }}
+                                            className="px-6 py-2.5 font-medium text-blue-600 cursor-pointer hover:underline"
+                                        >
+                                            {gl.doc_no}
+                                        </td>
                                         <td className="px-6 py-2.5 text-slate-700">
                                             {gl.description}
                                             {gl.system_generated && <span className="ml-2 text-[10px] text-white bg-indigo-400 px-1 rounded">AUTO</span>}
+                                            {gl.reversal_of && <span className="ml-2 text-[10px] text-white bg-amber-500 px-1 rounded">กลับรายการ {gl.reversal_of}</span>}
+                                            {gl.reversed_by && <span className="ml-2 text-[10px] text-white bg-slate-400 px-1 rounded">ถูกกลับโดย {gl.reversed_by}</span>}
+                                        </td>
+                                        <td
+                                            onClick={() => handleDrillDown(gl.account_code)}
+                                            className="px-6 py-2.5 font-mono text-slate-500 text-xs bg-slate-50/50 w-fit rounded cursor-pointer hover:text-blue-600"
+                                        >
+                                            {gl.account_code}
                                         </td>
-                                        <td className="px-6 py-2.5 font-mono text-slate-500 text-xs bg-slate-50/50 w-fit rounded">{gl.account_code}</td>
                                         <td className="px-6 py-2.5 text-slate-600">{gl.account_name}</td>
-                                        <td className="px-6 py-2.5 text-slate-500 text-xs text-center">{gl.department_code || '-'}</td>
+                                        <td className="px-6 py-2.5 text-slate-500 text-xs text-center">{gl.department_code || '-'}{gl.branch_code && ` / ${gl.branch_code}`}</td>
                                         <td className="px-6 py-2.5 text-right font-mono text-slate-600">{gl.debit > 0 ? gl.debit.toLocaleString() : '-'}</td>
                                         <td className="px-6 py-2.5 text-right font-mono text-slate-600">{gl.credit > 0 ? gl.credit.toLocaleString() : '-'}</td>
-                                        {glFilter && (
-                                            <td className="px-6 py-2.5 text-right font-mono font-bold text-blue-700 bg-blue-50/20">
-                                                {gl.balance?.toLocaleString()}
-                                            </td>
-                                        )}
+                                        <td className="px-6 py-2.5 text-right">
+                                            {!gl.reversed_by && !gl.reversal_of && (
+                                                <button
+                                                    title="กลับรายการ (Reverse)"
+                                                    onClick={() => handleReverse(gl.doc_no)}
+                                                    className="p-1 text-slate-300 hover:text-amber-600 hover:bg-amber-50 rounded transition-colors"
+                                                >
+                                                    <Undo2 size={14} />
+                                                </button>
+                                            )}
+                                        </td>
                                     </tr>
                                 ))}
                             </tbody>
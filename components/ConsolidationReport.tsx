@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, ConsolidationGroup, IntercompanyEliminationRule, PostedGLEntry } from '../types';
+import { Network, Plus, Loader2, Trash2, Pencil } from 'lucide-react';
+import { databaseService } from '../services/database';
+import { BalanceSheet } from '../services/financialStatements';
+import { generateConsolidatedBalanceSheet, GroupInput, loadGroupEntries, saveGroup } from '../services/consolidation';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client; // Holding company
+}
+
+const SECTIONS: { label: string; pick: (sheet: BalanceSheet) => BalanceSheet['equity']['items'] }[] = [
+  { label: 'สินทรัพย์หมุนเวียน', pick: s => s.assets.currentAssets.items },
+  { label: 'สินทรัพย์ไม่หมุนเวียน', pick: s => s.assets.nonCurrentAssets.items },
+  { label: 'หนี้สินหมุนเวียน', pick: s => s.liabilities.currentLiabilities.items },
+  { label: 'หนี้สินไม่หมุนเวียน', pick: s => s.liabilities.nonCurrentLiabilities.items },
+  { label: 'ส่วนของผู้ถือหุ้น', pick: s => s.equity.items },
+];
+
+const emptyRule = (): IntercompanyEliminationRule => ({
+  id: `R${Date.now()}`,
+  description: '',
+  fromClientId: '',
+  fromAccountCode: '',
+  toClientId: '',
+  toAccountCode: '',
+});
+
+const ConsolidationReport: React.FC<Props> = ({ client }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const [clients, setClients] = useState<Client[]>([]);
+  const [group, setGroup] = useState<ConsolidationGroup | null>(null);
+  const [entries, setEntries] = useState<PostedGLEntry[]>([]);
+  const [form, setForm] = useState<GroupInput | null>(null);
+  const [asOfDate, setAsOfDate] = useState(new Date().toISOString().split('T')[0]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      Promise.all([databaseService.getClients(), databaseService.getConsolidationGroups(client.id)])
+          .then(([loadedClients, groups]) => {
+              setClients(loadedClients);
+              setGroup(groups[0] || null);
+          })
+          .catch(e => console.error('Failed to load consolidation group', e));
+  }, [client.id]);
+
+  useEffect(() => {
+      if (!group) return;
+      loadGroupEntries(group)
+          .then(setEntries)
+          .catch(e => console.error('Failed to load group ledgers', e));
+  }, [group]);
+
+  const result = useMemo(
+      () => group ? generateConsolidatedBalanceSheet(group, clients, entries, asOfDate) : null,
+      [group, clients, entries, asOfDate]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+  const clientName = (id: string) => clients.find(c => c.id === id)?.name || id;
+
+  const handleSave = async () => {
+      if (!form) return;
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          setGroup(await saveGroup(form, userId, group || undefined));
+          setForm(null);
+          setMessage({ text: 'บันทึกกลุ่มบริษัทแล้ว', isError: false });
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const toggleMember = (id: string) => setForm(prev => prev && {
+      ...prev,
+      memberClientIds: prev.memberClientIds.includes(id) ? prev.memberClientIds.filter(m => m !== id) : [...prev.memberClientIds, id],
+  });
+
+  const setRule = (index: number, changes: Partial<IntercompanyEliminationRule>) => setForm(prev => prev && {
+      ...prev,
+      eliminationRules: prev.eliminationRules.map((r, i) => (i === index ? { ...r, ...changes } : r)),
+  });
+
+  const amountFor = (sheet: BalanceSheet, pick: (s: BalanceSheet) => BalanceSheet['equity']['items'], code: string) =>
+      pick(sheet).find(i => i.code === code)?.amount || 0;
+
+  const members = form ? clients.filter(c => form.memberClientIds.includes(c.id)) : [];
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <div>
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                    <Network className="text-blue-600" size={20} />
+                    งบการเงินรวม (Consolidation)
+                </h3>
+                <p className="text-xs text-slate-500 mt-1">
+                    {group ? `${group.name} · ${group.memberClientIds.length} บริษัท · กฎตัดรายการ ${group.eliminationRules.length} ข้อ` : 'ยังไม่ได้กำหนดกลุ่มบริษัท'}
+                </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+                {group && <input type="date" value={asOfDate} onChange={e => setAsOfDate(e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />}
+                <button
+                    onClick={() => setForm(group
+                        ? { name: group.name, parentClientId: group.parentClientId, memberClientIds: group.memberClientIds, eliminationRules: group.eliminationRules }
+                        : { name: `กลุ่ม ${client.name}`, parentClientId: client.id, memberClientIds: [client.id], eliminationRules: [] })}
+                    className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50"
+                >
+                    {group ? <><Pencil size={16} /> แก้ไขกลุ่ม</> : <><Plus size={16} /> สร้างกลุ่มบริษัท</>}
+                </button>
+            </div>
+        </div>
+
+        {message && (
+            <div className={`rounded-xl p-4 text-sm border ${message.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+                {message.text}
+            </div>
+        )}
+
+        {form && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4 text-sm">
+                <label className="flex flex-col gap-1 max-w-md">
+                    <span className="text-xs text-slate-500">ชื่อกลุ่ม</span>
+                    <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <div>
+                    <p className="text-xs text-slate-500 mb-2">บริษัทในกลุ่ม</p>
+                    <div className="flex flex-wrap gap-3">
+                        {clients.map(c => (
+                            <label key={c.id} className="flex items-center gap-2">
+                                <input type="checkbox" checked={form.memberClientIds.includes(c.id)} disabled={c.id === form.parentClientId} onChange={() => toggleMember(c.id)} />
+                                {c.name}{c.id === form.parentClientId && ' (บริษัทใหญ่)'}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <p className="text-xs text-slate-500 mb-2">กฎตัดรายการระหว่างกัน</p>
+                    <div className="space-y-2">
+                        {form.eliminationRules.map((rule, i) => (
+                            <div key={rule.id} className="grid grid-cols-1 md:grid-cols-6 gap-2 items-center">
+                                <input placeholder="รายละเอียด เช่น ลูกหนี้-เจ้าหนี้บริษัทย่อย" value={rule.description} onChange={e => setRule(i, { description: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 md:col-span-2" />
+                                <select value={rule.fromClientId} onChange={e => setRule(i, { fromClientId: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                                    <option value="">-- บริษัท --</option>
+                                    {members.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                                <input placeholder="รหัสบัญชี" value={rule.fromAccountCode} onChange={e => setRule(i, { fromAccountCode: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                                <select value={rule.toClientId} onChange={e => setRule(i, { toClientId: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                                    <option value="">-- คู่รายการ --</option>
+                                    {members.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                                </select>
+                                <div className="flex gap-2">
+                                    <input placeholder="รหัสบัญชี" value={rule.toAccountCode} onChange={e => setRule(i, { toAccountCode: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono w-full" />
+                                    <button onClick={() => setForm({ ...form, eliminationRules: form.eliminationRules.filter((_, j) => j !== i) })} className="p-1 text-slate-400 hover:text-red-600" title="ลบ"><Trash2 size={16} /></button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => setForm({ ...form, eliminationRules: [...form.eliminationRules, emptyRule()] })} className="mt-2 text-blue-600 hover:underline flex items-center gap-1">
+                        <Plus size={14} /> เพิ่มกฎ
+                    </button>
+                </div>
+                <div className="flex justify-end gap-2">
+                    <button onClick={() => setForm(null)} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                    <button onClick={handleSave} disabled={isWorking} className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                        {isWorking && <Loader2 size={16} className="animate-spin" />} บันทึกกลุ่ม
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {result && (
+            <>
+                <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                            <tr>
+                                <th className="px-4 py-3 text-left">งบแสดงฐานะการเงินรวม ณ {asOfDate}</th>
+                                {result.members.map(m => <th key={m.clientId} className="px-4 py-3 text-right">{m.clientName}</th>)}
+                                <th className="px-4 py-3 text-right">ตัดรายการ</th>
+                                <th className="px-4 py-3 text-right text-slate-700">งบรวม</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 text-slate-600">
+                            {SECTIONS.map(section => {
+                                const codes = Array.from(new Set([
+                                    ...result.members.flatMap(m => section.pick(m.statement).map(i => i.code)),
+                                    ...section.pick(result.consolidated).map(i => i.code),
+                                ])).sort();
+                                if (codes.length === 0) return null;
+                                return (
+                                    <React.Fragment key={section.label}>
+                                        <tr className="bg-slate-50/50"><td colSpan={result.members.length + 3} className="px-4 py-2 font-semibold text-slate-700">{section.label}</td></tr>
+                                        {codes.map(code => {
+                                            const memberAmounts = result.members.map(m => amountFor(m.statement, section.pick, code));
+                                            const consolidated = amountFor(result.consolidated, section.pick, code);
+                                            const elimination = consolidated - memberAmounts.reduce((sum, a) => sum + a, 0);
+                                            const name = [...result.members.map(m => m.statement), result.consolidated]
+                                                .map(s => section.pick(s).find(i => i.code === code)?.nameTh)
+                                                .find(Boolean);
+                                            return (
+                                                <tr key={code}>
+                                                    <td className="px-4 py-2 pl-8"><span className="font-mono text-xs text-slate-400 mr-2">{code}</span>{name}</td>
+                                                    {memberAmounts.map((a, i) => <td key={i} className="px-4 py-2 text-right font-mono">{a ? formatCurrency(a) : '-'}</td>)}
+                                                    <td className={`px-4 py-2 text-right font-mono ${Math.abs(elimination) >= 0.01 ? 'text-amber-600' : 'text-slate-300'}`}>{Math.abs(elimination) >= 0.01 ? formatCurrency(elimination) : '-'}</td>
+                                                    <td className="px-4 py-2 text-right font-mono font-semibold text-slate-800">{formatCurrency(consolidated)}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                        <tfoot className="bg-slate-50 font-bold text-slate-700 border-t border-slate-200 font-mono">
+                            <tr>
+                                <td className="px-4 py-3 font-sans">รวมสินทรัพย์</td>
+                                {result.members.map(m => <td key={m.clientId} className="px-4 py-3 text-right">{formatCurrency(m.statement.assets.totalAssets)}</td>)}
+                                <td className="px-4 py-3"></td>
+                                <td className="px-4 py-3 text-right">{formatCurrency(result.consolidated.assets.totalAssets)}</td>
+                            </tr>
+                            <tr>
+                                <td className="px-4 py-3 font-sans">รวมหนี้สินและส่วนของผู้ถือหุ้น</td>
+                                {result.members.map(m => <td key={m.clientId} className="px-4 py-3 text-right">{formatCurrency(m.statement.totalLiabilitiesAndEquity)}</td>)}
+                                <td className="px-4 py-3"></td>
+                                <td className={`px-4 py-3 text-right ${result.consolidated.isBalanced ? '' : 'text-red-600'}`}>{formatCurrency(result.consolidated.totalLiabilitiesAndEquity)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+
+                {result.eliminations.length > 0 && (
+                    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                        <div className="px-4 py-3 border-b border-slate-100 font-semibold text-slate-700 text-sm">รายการตัดบัญชีระหว่างกัน</div>
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                                <tr>
+                                    <th className="px-4 py-2 text-left">กฎ</th>
+                                    <th className="px-4 py-2 text-right">ยอดฝั่งผู้บันทึก</th>
+                                    <th className="px-4 py-2 text-right">ยอดฝั่งคู่รายการ</th>
+                                    <th className="px-4 py-2 text-right">ตัดรายการ</th>
+                                    <th className="px-4 py-2 text-right">ผลต่างที่ต้องกระทบยอด</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 text-slate-600">
+                                {result.eliminations.map(e => (
+                                    <tr key={e.rule.id}>
+                                        <td className="px-4 py-2">
+                                            <p className="text-slate-800">{e.rule.description}</p>
+                                            <p className="text-xs text-slate-400">{clientName(e.rule.fromClientId)} {e.rule.fromAccountCode} ↔ {clientName(e.rule.toClientId)} {e.rule.toAccountCode}</p>
+                                        </td>
+                                        <td className="px-4 py-2 text-right font-mono">{formatCurrency(e.fromBalance)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{formatCurrency(e.toBalance)}</td>
+                                        <td className="px-4 py-2 text-right font-mono">{formatCurrency(e.eliminated)}</td>
+                                        <td className={`px-4 py-2 text-right font-mono ${e.unmatched ? 'text-red-600 font-bold' : ''}`}>{e.unmatched ? formatCurrency(e.unmatched) : '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </>
+        )}
+    </div>
+  );
+};
+
+export default ConsolidationReport;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Client, FixedAsset, PostedGLEntry } from '../types';
+import { Landmark, Printer, Wallet } from 'lucide-react';
+import {
+  CITBracketLine,
+  buildPND51PaymentEntries,
+  computeCorporateIncomeTax,
+  estimatePND51,
+  generatePND50HTML,
+  generatePND51HTML,
+} from '../services/corporateIncomeTax';
+import { getFiscalYearEndMonth, getFiscalYearOf } from '../services/fiscalYear';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+  assets: FixedAsset[];
+  onPostJournal?: (entries: PostedGLEntry[]) => void;
+}
+
+const CorporateIncomeTax: React.FC<Props> = ({ client, entries, assets, onPostJournal }) => {
+  const endMonth = getFiscalYearEndMonth(client);
+  const today = new Date().toISOString().split('T')[0];
+  const currentYear = getFiscalYearOf(today, endMonth);
+  const [fiscalYear, setFiscalYear] = useState(currentYear);
+  const [estimatedProfit, setEstimatedProfit] = useState('');
+
+  const pnd50 = useMemo(
+      () => computeCorporateIncomeTax(entries, client, fiscalYear, { assets }),
+      [entries, client, fiscalYear, assets]
+  );
+  const pnd51 = useMemo(
+      () => estimatePND51(entries, client, fiscalYear, {
+          assets,
+          ...(estimatedProfit !== '' ? { estimatedAnnualProfit: Number(estimatedProfit) } : {}),
+      }),
+      [entries, client, fiscalYear, assets, estimatedProfit]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const printForm = (html: string) => {
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+          printWindow.document.write(html);
+          printWindow.document.close();
+          printWindow.print();
+      }
+  };
+
+  const handlePayPND51 = () => {
+      if (!onPostJournal) return;
+      const paymentDate = window.prompt('วันที่ชำระ ภ.ง.ด.51 (YYYY-MM-DD)', today);
+      if (!paymentDate) return;
+      try {
+          onPostJournal(buildPND51PaymentEntries(pnd51, paymentDate));
+      } catch (e) {
+          alert(e instanceof Error ? e.message : String(e));
+      }
+  };
+
+  const row = (label: string, amount: number, className = '') => (
+      <div className={`flex justify-between py-1.5 ${className}`}>
+          <span>{label}</span>
+          <span className="font-mono">{formatCurrency(amount)}</span>
+      </div>
+  );
+
+  const bracketTable = (brackets: CITBracketLine[]) => (
+      <table className="w-full text-xs mt-3">
+          <thead className="text-slate-400">
+              <tr>
+                  <th className="text-left py-1">ช่วงกำไรสุทธิ</th>
+                  <th className="text-right py-1">อัตรา</th>
+                  <th className="text-right py-1">ภาษี</th>
+              </tr>
+          </thead>
+          <tbody className="text-slate-600">
+              {brackets.map((b, i) => (
+                  <tr key={i}>
+                      <td className="py-1">{b.upTo === null ? `เกิน ${formatCurrency(brackets[i - 1]?.upTo || 0)}` : `ไม่เกิน ${formatCurrency(b.upTo)}`}</td>
+                      <td className="py-1 text-right">{b.rate}%</td>
+                      <td className="py-1 text-right font-mono">{formatCurrency(b.tax)}</td>
+                  </tr>
+              ))}
+          </tbody>
+      </table>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <Landmark className="text-blue-600" size={20} />
+                ภาษีเงินได้นิติบุคคล (ภ.ง.ด.50 / ภ.ง.ด.51)
+            </h3>
+            <select value={fiscalYear} onChange={e => setFiscalYear(Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm">
+                {[0, 1, 2, 3].map(offset => currentYear - offset).map(y => <option key={y} value={y}>ปีบัญชี {y}</option>)}
+            </select>
+        </div>
+
+        <div className={`rounded-xl p-4 text-sm border ${pnd50.sme.isSME ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>
+            {pnd50.sme.isSME
+                ? `SME: ทุนชำระแล้ว ${formatCurrency(pnd50.sme.paidUpCapital)} บาท รายได้จากการขาย ${formatCurrency(pnd50.sme.salesRevenue)} บาท ใช้อัตราขั้นบันได 0% / 15% / 20%`
+                : `อัตรา 20%: ${pnd50.sme.reasons.join(', ')}`}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 text-sm text-slate-600">
+                <div className="flex justify-between items-center mb-3">
+                    <p className="font-semibold text-slate-800">ภ.ง.ด.50 ({pnd50.range.start} ถึง {pnd50.range.end})</p>
+                    <button onClick={() => printForm(generatePND50HTML(pnd50))} className="flex items-center gap-1 text-blue-600 text-xs font-semibold hover:underline">
+                        <Printer size={14} /> พิมพ์แบบ
+                    </button>
+                </div>
+                {row('กำไร (ขาดทุน) ก่อนภาษีทางบัญชี', pnd50.profitBeforeTax, 'font-semibold')}
+                {pnd50.adjustments.map(a => (
+                    <div key={a.type}>{row(`${a.amount >= 0 ? 'บวก' : 'หัก'} ${a.description}`, Math.abs(a.amount), 'text-slate-500')}</div>
+                ))}
+                {pnd50.losses.filter(l => l.used > 0).map(l => (
+                    <div key={l.fiscalYear}>{row(`หัก ผลขาดทุนยกมาปี ${l.fiscalYear} (หักได้ถึงปี ${l.lastYear})`, l.used, 'text-slate-500')}</div>
+                ))}
+                {row('กำไรสุทธิที่ต้องเสียภาษี', pnd50.taxableProfit, 'font-semibold border-t border-slate-100')}
+                {bracketTable(pnd50.brackets)}
+                <div className="border-t border-slate-100 mt-3 pt-2">
+                    {row('ภาษีเงินได้นิติบุคคล', pnd50.citAmount)}
+                    {row('หัก ภาษีถูกหัก ณ ที่จ่าย', pnd50.whtCredits, 'text-slate-500')}
+                    {row('หัก ภ.ง.ด.51 ที่ชำระแล้ว', pnd50.pnd51Paid, 'text-slate-500')}
+                    {row(pnd50.taxPayable >= 0 ? 'ภาษีที่ต้องชำระเพิ่ม' : 'ภาษีชำระเกิน (ขอคืน)', Math.abs(pnd50.taxPayable), `font-bold ${pnd50.taxPayable >= 0 ? 'text-red-600' : 'text-emerald-600'}`)}
+                </div>
+                {pnd50.lossForYear > 0 && (
+                    <p className="text-xs text-amber-600 mt-2">ผลขาดทุนสุทธิปีนี้ {formatCurrency(pnd50.lossForYear)} บาท ยกไปหักได้ 5 ปี</p>
+                )}
+                <p className="text-xs text-slate-400 mt-2">กำหนดยื่นภายใน {pnd50.dueDate}</p>
+            </div>
+
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-5 text-sm text-slate-600">
+                <div className="flex justify-between items-center mb-3">
+                    <p className="font-semibold text-slate-800">ภ.ง.ด.51 ({pnd51.halfYear.start} ถึง {pnd51.halfYear.end})</p>
+                    <button onClick={() => printForm(generatePND51HTML(pnd51))} className="flex items-center gap-1 text-blue-600 text-xs font-semibold hover:underline">
+                        <Printer size={14} /> พิมพ์แบบ
+                    </button>
+                </div>
+                {row('กำไรสุทธิทางภาษี 6 เดือนแรก', pnd51.actualHalfYearProfit)}
+                <label className="flex justify-between items-center py-1.5 gap-3">
+                    <span>ประมาณการกำไรสุทธิทั้งปี</span>
+                    <input
+                        type="number"
+                        value={estimatedProfit}
+                        placeholder={String(pnd51.estimatedAnnualProfit)}
+                        onChange={e => setEstimatedProfit(e.target.value)}
+                        className="border border-slate-200 rounded-lg px-2 py-1 w-40 text-right font-mono"
+                    />
+                </label>
+                {row('หัก ผลขาดทุนสุทธิยกมา', pnd51.lossApplied, 'text-slate-500')}
+                {row('กึ่งหนึ่งของประมาณการกำไรสุทธิ', pnd51.taxBase, 'font-semibold border-t border-slate-100')}
+                {bracketTable(pnd51.brackets)}
+                <div className="border-t border-slate-100 mt-3 pt-2">
+                    {row('ภาษีเงินได้นิติบุคคล', pnd51.citAmount)}
+                    {row('หัก ภาษีถูกหัก ณ ที่จ่าย', pnd51.whtCredits, 'text-slate-500')}
+                    {row('ภาษีที่ต้องชำระ', pnd51.taxPayable, 'font-bold text-red-600')}
+                </div>
+                <div className="flex justify-between items-center mt-2">
+                    <p className="text-xs text-slate-400">กำหนดยื่นภายใน {pnd51.dueDate}</p>
+                    {onPostJournal && pnd51.taxPayable > 0 && pnd50.pnd51Paid === 0 && (
+                        <button onClick={handlePayPND51} className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-semibold hover:bg-blue-700">
+                            <Wallet size={14} /> บันทึกชำระ ภ.ง.ด.51
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default CorporateIncomeTax;
@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AllocationMethod, AllocationRule, Client, ClientCostCenterSetup, CostCenter, PostedGLEntry } from '../types';
+import { Layers, Plus, Power, Trash2, Split, Loader2 } from 'lucide-react';
+import { generateSegmentedIncomeStatement, IncomeStatement } from '../services/financialStatements';
+import {
+  loadCostCenterSetup,
+  saveCostCenter,
+  setCostCenterActive,
+  saveAllocationRule,
+  deleteAllocationRule,
+  calculateAllocations,
+} from '../services/costCenters';
+import { postDraftVouchers } from '../services/voucherNumbering';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+  onPosted?: (entries: PostedGLEntry[]) => void;
+}
+
+const ROWS: { label: string; value: (s: IncomeStatement) => number; bold?: boolean }[] = [
+  { label: 'รายได้จากการขาย/บริการ', value: s => s.revenue.totalRevenue },
+  { label: 'ต้นทุนขาย', value: s => s.costOfSales.totalCostOfSales },
+  { label: 'กำไรขั้นต้น', value: s => s.grossProfit, bold: true },
+  { label: 'ค่าใช้จ่ายในการดำเนินงาน', value: s => s.operatingExpenses.totalOperatingExpenses },
+  { label: 'กำไรจากการดำเนินงาน', value: s => s.operatingProfit, bold: true },
+  { label: 'รายได้อื่น', value: s => s.otherIncome },
+  { label: 'ค่าใช้จ่ายอื่น', value: s => s.otherExpenses },
+  { label: 'กำไร (ขาดทุน) ก่อนภาษี', value: s => s.profitBeforeTax, bold: true },
+];
+
+const emptyRule = (): AllocationRule => ({
+  id: `ALLOC-${Date.now()}`,
+  name: '',
+  accountCodes: [],
+  sourceCostCenter: '',
+  method: 'fixed',
+  targets: [],
+  isActive: true,
+});
+
+const CostCenterReport: React.FC<Props> = ({ client, entries, onPosted }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const currentMonth = client.current_workflow?.month || new Date().toISOString().slice(0, 7);
+
+  const [setup, setSetup] = useState<ClientCostCenterSetup | null>(null);
+  const [period, setPeriod] = useState(currentMonth);
+  const [newCenter, setNewCenter] = useState<CostCenter>({ code: '', name: '', type: 'branch', isActive: true });
+  const [rule, setRule] = useState<AllocationRule | null>(null);
+  const [accountInput, setAccountInput] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+      loadCostCenterSetup(client.id).then(setSetup).catch(e => console.error('Failed to load cost centers', e));
+  }, [client.id]);
+
+  const [year, month] = period.split('-').map(Number);
+  const periodStart = `${period}-01`;
+  const periodEnd = `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+
+  const report = useMemo(
+      () => generateSegmentedIncomeStatement(entries, client, periodStart, periodEnd, setup?.costCenters || []),
+      [entries, client, periodStart, periodEnd, setup]
+  );
+
+  const allocationPreview = useMemo(
+      () => setup ? calculateAllocations(entries, setup.allocationRules, client.id, period) : null,
+      [entries, setup, client.id, period]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+  const activeCenters = (setup?.costCenters || []).filter(c => c.isActive);
+
+  const apply = (result: { success: boolean; setup: ClientCostCenterSetup; messageTh: string }): boolean => {
+      setSetup(result.setup);
+      if (!result.success) alert(result.messageTh);
+      return result.success;
+  };
+
+  const handleAddCenter = async () => {
+      if (apply(await saveCostCenter(client.id, newCenter, userId))) {
+          setNewCenter({ code: '', name: '', type: newCenter.type, isActive: true });
+      }
+  };
+
+  const handleSaveRule = async () => {
+      if (!rule) return;
+      const accountCodes = accountInput.split(',').map(c => c.trim()).filter(Boolean);
+      if (apply(await saveAllocationRule(client.id, { ...rule, accountCodes }, userId))) {
+          setRule(null);
+          setAccountInput('');
+      }
+  };
+
+  const toggleTarget = (code: string) => {
+      if (!rule) return;
+      const exists = rule.targets.some(t => t.costCenter === code);
+      setRule({
+          ...rule,
+          targets: exists ? rule.targets.filter(t => t.costCenter !== code) : [...rule.targets, { costCenter: code, percentage: 0 }],
+      });
+  };
+
+  const handlePostAllocation = async () => {
+      if (!allocationPreview || allocationPreview.entries.length === 0) return;
+      if (!window.confirm(`บันทึกรายการปันส่วนงวด ${period}?`)) return;
+
+      setIsPosting(true);
+      try {
+          const results = await postDraftVouchers(client.id, 'JV', allocationPreview.entries, userId);
+          if (!results[0]?.success) {
+              alert(results[0]?.validation.errors.map(e => e.messageTh).join('\n'));
+              return;
+          }
+          onPosted?.(allocationPreview.entries.map((e, i) => ({ ...e, id: results[0].ids[i], doc_no: results[0].docNo!, journal_type: 'JV' as const })));
+      } finally {
+          setIsPosting(false);
+      }
+  };
+
+  if (!setup) {
+      return <div className="flex justify-center p-12"><Loader2 className="animate-spin text-blue-600" size={28} /></div>;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        {/* Segmented P&L */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                    <Layers className="text-blue-600" size={20} />
+                    งบกำไรขาดทุนแยกตามแผนก/สาขา
+                </h3>
+                <input
+                    type="month"
+                    value={period}
+                    onChange={e => setPeriod(e.target.value)}
+                    className="border border-slate-200 rounded-lg px-3 py-1.5 text-sm"
+                />
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                        <tr>
+                            <th className="px-4 py-3 text-left">รายการ</th>
+                            {report.segments.map(s => <th key={s.code} className="px-4 py-3 text-right whitespace-nowrap">{s.name}</th>)}
+                            <th className="px-4 py-3 text-right bg-slate-100">รวม</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {ROWS.map(row => (
+                            <tr key={row.label} className={row.bold ? 'font-bold text-slate-800 bg-slate-50/50' : 'text-slate-600'}>
+                                <td className="px-4 py-2.5">{row.label}</td>
+                                {report.segments.map(s => {
+                                    const value = row.value(report.statements[s.code]);
+                                    return (
+                                        <td key={s.code} className={`px-4 py-2.5 text-right font-mono ${value < 0 ? 'text-red-600' : ''}`}>
+                                            {formatCurrency(value)}
+                                        </td>
+                                    );
+                                })}
+                                <td className="px-4 py-2.5 text-right font-mono bg-slate-50">{formatCurrency(row.value(report.total))}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Cost center master */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+                <h4 className="font-bold text-slate-800 mb-4">ทะเบียนแผนก / สาขา / โครงการ</h4>
+                <div className="flex gap-2 mb-4">
+                    <input
+                        placeholder="รหัส"
+                        value={newCenter.code}
+                        onChange={e => setNewCenter({ ...newCenter, code: e.target.value.toUpperCase() })}
+                        className="w-24 border border-slate-200 rounded-lg px-3 py-1.5 text-sm font-mono"
+                    />
+                    <input
+                        placeholder="ชื่อ"
+                        value={newCenter.name}
+                        onChange={e => setNewCenter({ ...newCenter, name: e.target.value })}
+                        className="flex-1 border border-slate-200 rounded-lg px-3 py-1.5 text-sm"
+                    />
+                    <select
+                        value={newCenter.type}
+                        onChange={e => setNewCenter({ ...newCenter, type: e.target.value as CostCenter['type'] })}
+                        className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm"
+                    >
+                        <option value="branch">สาขา</option>
+                        <option value="department">แผนก</option>
+                        <option value="project">โครงการ</option>
+                    </select>
+                    <button onClick={handleAddCenter} className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700">
+                        <Plus size={16} />
+                    </button>
+                </div>
+                <ul className="divide-y divide-slate-100">
+                    {setup.costCenters.length === 0 && <li className="py-4 text-center text-sm text-slate-400">ยังไม่มีแผนก</li>}
+                    {setup.costCenters.map(c => (
+                        <li key={c.code} className={`py-2 flex items-center justify-between text-sm ${c.isActive ? '' : 'opacity-50'}`}>
+                            <span><span className="font-mono text-slate-500 mr-2">{c.code}</span>{c.name}</span>
+                            <button
+                                onClick={async () => apply(await setCostCenterActive(client.id, c.code, !c.isActive, userId))}
+                                className="text-slate-400 hover:text-blue-600"
+                                title={c.isActive ? 'ปิดใช้งาน' : 'เปิดใช้งาน'}
+                            >
+                                <Power size={16} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+
+            {/* Allocation rules */}
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+                <div className="flex justify-between items-center mb-4">
+                    <h4 className="font-bold text-slate-800 flex items-center gap-2"><Split size={18} /> กฎการปันส่วนค่าใช้จ่ายส่วนกลาง</h4>
+                    {!rule && (
+                        <button onClick={() => setRule(emptyRule())} className="text-sm text-blue-600 font-semibold flex items-center gap-1">
+                            <Plus size={14} /> เพิ่มกฎ
+                        </button>
+                    )}
+                </div>
+
+                {rule && (
+                    <div className="space-y-3 mb-4 p-4 bg-slate-50 rounded-lg border border-slate-200 text-sm">
+                        <input
+                            placeholder="ชื่อกฎ เช่น ค่าเช่าสำนักงานใหญ่"
+                            value={rule.name}
+                            onChange={e => setRule({ ...rule, name: e.target.value })}
+                            className="w-full border border-slate-200 rounded-lg px-3 py-1.5"
+                        />
+                        <input
+                            placeholder="บัญชีค่าใช้จ่าย คั่นด้วย , เช่น 52200, 524"
+                            value={accountInput}
+                            onChange={e => setAccountInput(e.target.value)}
+                            className="w-full border border-slate-200 rounded-lg px-3 py-1.5 font-mono"
+                        />
+                        <div className="flex gap-2">
+                            <select
+                                value={rule.sourceCostCenter || ''}
+                                onChange={e => setRule({ ...rule, sourceCostCenter: e.target.value })}
+                                className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5"
+                            >
+                                <option value="">ต้นทาง: ส่วนกลาง (ไม่ระบุแผนก)</option>
+                                {activeCenters.map(c => <option key={c.code} value={c.code}>ต้นทาง: {c.name}</option>)}
+                            </select>
+                            <select
+                                value={rule.method}
+                                onChange={e => setRule({ ...rule, method: e.target.value as AllocationMethod })}
+                                className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5"
+                            >
+                                <option value="fixed">สัดส่วนคงที่ (%)</option>
+                                <option value="revenue_share">ตามสัดส่วนรายได้</option>
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            {activeCenters.filter(c => c.code !== rule.sourceCostCenter).map(c => {
+                                const target = rule.targets.find(t => t.costCenter === c.code);
+                                return (
+                                    <label key={c.code} className="flex items-center gap-2">
+                                        <input type="checkbox" checked={!!target} onChange={() => toggleTarget(c.code)} />
+                                        <span className="flex-1">{c.name}</span>
+                                        {target && rule.method === 'fixed' && (
+                                            <input
+                                                type="number"
+                                                value={target.percentage ?? 0}
+                                                onChange={e => setRule({
+                                                    ...rule,
+                                                    targets: rule.targets.map(t => t.costCenter === c.code ? { ...t, percentage: Number(e.target.value) } : t),
+                                                })}
+                                                className="w-20 border border-slate-200 rounded px-2 py-1 text-right"
+                                            />
+                                        )}
+                                        {target && rule.method === 'fixed' && <span>%</span>}
+                                    </label>
+                                );
+                            })}
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setRule(null)} className="px-3 py-1.5 text-slate-600">ยกเลิก</button>
+                            <button onClick={handleSaveRule} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold">บันทึกกฎ</button>
+                        </div>
+                    </div>
+                )}
+
+                <ul className="divide-y divide-slate-100 text-sm">
+                    {setup.allocationRules.length === 0 && !rule && <li className="py-4 text-center text-slate-400">ยังไม่มีกฎการปันส่วน</li>}
+                    {setup.allocationRules.map(r => (
+                        <li key={r.id} className="py-2 flex items-center justify-between">
+                            <div>
+                                <div className="font-medium text-slate-700">{r.name}</div>
+                                <div className="text-xs text-slate-400">
+                                    {r.accountCodes.join(', ')} → {r.targets.map(t => r.method === 'fixed' ? `${t.costCenter} ${t.percentage}%` : t.costCenter).join(', ')}
+                                    {r.method === 'revenue_share' && ' (ตามรายได้)'}
+                                </div>
+                            </div>
+                            <button
+                                onClick={async () => apply(await deleteAllocationRule(client.id, r.id, userId))}
+                                className="text-slate-400 hover:text-red-600"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                {allocationPreview && (allocationPreview.lines.length > 0 || allocationPreview.errors.length > 0) && (
+                    <div className="mt-4 pt-4 border-t border-slate-100">
+                        {allocationPreview.errors.map(err => <p key={err} className="text-xs text-amber-600 mb-1">{err}</p>)}
+                        {allocationPreview.lines.length > 0 && (
+                            <button
+                                onClick={handlePostAllocation}
+                                disabled={isPosting || client.current_workflow?.is_locked}
+                                className="w-full bg-indigo-600 text-white py-2 rounded-lg text-sm font-semibold hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                            >
+                                {isPosting && <Loader2 className="animate-spin" size={16} />}
+                                บันทึกรายการปันส่วนงวด {period} ({allocationPreview.lines.length} รายการ)
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default CostCenterReport;
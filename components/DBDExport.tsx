@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PostedGLEntry, Client, ClientDBDMapping, DBDMappingRule } from '../types';
+import { Download, FileCode, Save, Plus, Trash, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { databaseService } from '../services/database';
+import { buildDBDExport, DBD_ELEMENTS, DBDFact, generateDBDXBRL, resolveDBDElement, saveDBDMapping } from '../services/dbdXbrl';
+import { getFiscalYearEndMonth, getFiscalYearOf, getFiscalYearRange } from '../services/fiscalYear';
+import { exportToExcel } from '../utils/pdfExport';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+}
+
+const DBDExport: React.FC<Props> = ({ client, entries }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const endMonth = getFiscalYearEndMonth(client);
+  const [fiscalYear, setFiscalYear] = useState(() =>
+    getFiscalYearOf(client.last_closing_date || new Date().toISOString().slice(0, 10), endMonth)
+  );
+  const [mapping, setMapping] = useState<ClientDBDMapping | null>(null);
+  const [rules, setRules] = useState<DBDMappingRule[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      databaseService.getDBDMapping(client.id)
+          .then(loaded => {
+              setMapping(loaded);
+              setRules(loaded?.rules || []);
+          })
+          .catch(e => console.error('Failed to load DBD mapping', e));
+  }, [client.id]);
+
+  const period = getFiscalYearRange(fiscalYear, endMonth);
+
+  // Preview follows the rules being edited, not only the saved ones
+  const data = useMemo(
+      () => buildDBDExport(entries, client, period.start, period.end, {
+          clientId: client.id, rules: rules.filter(r => r.prefix && r.element), updatedAt: '', updatedBy: userId,
+      }),
+      [entries, client, period.start, period.end, rules, userId]
+  );
+  const isDirty = JSON.stringify(rules) !== JSON.stringify(mapping?.rules || []);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+  const formatAmount = (val: number) => val < 0 ? `(${formatCurrency(-val)})` : formatCurrency(val);
+
+  const updateRule = (index: number, rule: DBDMappingRule) => setRules(rules.map((r, i) => i === index ? rule : r));
+
+  const handleSave = async () => {
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          const saved = await saveDBDMapping(client.id, rules, userId);
+          setMapping(saved);
+          setRules(saved.rules);
+          setMessage({ text: 'บันทึกการจับคู่บัญชีแล้ว', isError: false });
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleDownloadXBRL = () => {
+      setMessage(null);
+      try {
+          const xml = generateDBDXBRL(data);
+          const blob = new Blob([xml], { type: 'application/xml' });
+          const url = URL.createObjectURL(blob);
+          const a = document.createElement('a');
+          a.href = url;
+          a.download = `DBD_${data.taxId}_${fiscalYear}.xml`;
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
+          URL.revokeObjectURL(url);
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      }
+  };
+
+  const handleExportExcel = () => {
+      const rows = [...data.balanceSheet, ...data.incomeStatement].map(f => [f.element, f.labelTh, f.amount, f.priorAmount, f.accounts.join(' ')]);
+      exportToExcel(rows, `DBD_${data.taxId}_${fiscalYear}`, ['Element', 'รายการ', data.periodEnd, data.priorEnd, 'บัญชี']);
+  };
+
+  const renderFacts = (title: string, facts: DBDFact[]) => (
+      <div className="mb-8">
+          <h4 className="font-bold text-slate-800 mb-2">{title}</h4>
+          <table className="w-full text-sm">
+              <thead>
+                  <tr className="border-b border-slate-300 text-slate-500">
+                      <th className="py-1 text-left font-medium">รายการ</th>
+                      <th className="py-1 text-left font-medium">บัญชี</th>
+                      <th className="py-1 text-right font-medium">{data.periodEnd}</th>
+                      <th className="py-1 text-right font-medium">{data.priorEnd}</th>
+                  </tr>
+              </thead>
+              <tbody>
+                  {facts.map(f => (
+                      <tr key={f.element} className={f.isTotal ? 'border-t border-slate-400 font-bold bg-slate-50' : 'border-b border-slate-100'}>
+                          <td className="py-1.5">
+                              {f.labelTh}
+                              <span className="block text-xs font-mono font-normal text-slate-400">{f.element}</span>
+                          </td>
+                          <td className="py-1.5 text-xs font-mono text-slate-500">{f.accounts.join(', ')}</td>
+                          <td className="py-1.5 text-right font-mono">{formatAmount(f.amount)}</td>
+                          <td className="py-1.5 text-right font-mono">{formatAmount(f.priorAmount)}</td>
+                      </tr>
+                  ))}
+              </tbody>
+          </table>
+      </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+        <div>
+           <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">
+               <FileCode className="text-blue-600" size={20} />
+               ส่งงบการเงิน DBD e-Filing (XBRL)
+           </h3>
+           <p className="text-sm text-slate-500">จับคู่ผังบัญชีกับรายการในอนุกรมวิธานของกรมพัฒนาธุรกิจการค้า</p>
+        </div>
+        <div className="flex gap-2">
+            <select
+                value={fiscalYear}
+                onChange={e => setFiscalYear(Number(e.target.value))}
+                className="border border-slate-200 rounded-lg px-3 py-2 text-sm"
+            >
+                {[0, 1, 2].map(offset => {
+                    const year = getFiscalYearOf(new Date().toISOString().slice(0, 10), endMonth) - offset;
+                    return <option key={year} value={year}>ปีบัญชี {year + 543}</option>;
+                })}
+            </select>
+            <button
+                onClick={handleExportExcel}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600"
+            >
+                <Download size={16} /> Excel
+            </button>
+            <button
+                onClick={handleDownloadXBRL}
+                disabled={!data.isValid}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-md disabled:opacity-50"
+            >
+                <Download size={16} /> ดาวน์โหลด XBRL
+            </button>
+        </div>
+      </div>
+
+      {message && (
+          <div className={`px-6 py-3 text-sm ${message.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700'}`}>
+              {message.text}
+          </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Mapping */}
+          <div className="lg:col-span-1 space-y-4">
+              <div className={`p-4 rounded-lg border text-sm ${data.isValid ? 'bg-emerald-50 border-emerald-200 text-emerald-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                  {data.isValid ? (
+                      <p className="flex items-center gap-2 font-semibold"><CheckCircle2 size={16} /> พร้อมส่งออก</p>
+                  ) : (
+                      <>
+                          <p className="flex items-center gap-2 font-semibold mb-2"><AlertTriangle size={16} /> ยังส่งออกไม่ได้</p>
+                          <ul className="list-disc pl-5 space-y-1">
+                              {data.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                      </>
+                  )}
+              </div>
+
+              {data.unmappedAccounts.length > 0 && (
+                  <div className="border border-amber-200 rounded-lg overflow-hidden">
+                      <p className="px-4 py-2 bg-amber-50 text-sm font-semibold text-amber-800">บัญชีที่ยังไม่ได้จับคู่</p>
+                      {data.unmappedAccounts.map(account => (
+                          <div key={account.code} className="px-4 py-2 border-t border-amber-100 text-sm flex justify-between items-center gap-2">
+                              <span><span className="font-mono">{account.code}</span> {account.name}</span>
+                              <button
+                                  onClick={() => setRules([...rules, { prefix: account.code, element: '' }])}
+                                  className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                              >
+                                  จับคู่
+                              </button>
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                  <div className="px-4 py-2 bg-slate-50 flex justify-between items-center">
+                      <p className="text-sm font-semibold text-slate-700">การจับคู่เฉพาะลูกค้า</p>
+                      <button
+                          onClick={() => setRules([...rules, { prefix: '', element: '' }])}
+                          className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                      >
+                          <Plus size={12} /> เพิ่ม
+                      </button>
+                  </div>
+                  {rules.length === 0 && (
+                      <p className="px-4 py-3 text-xs text-slate-500 border-t border-slate-100">ใช้การจับคู่มาตรฐานตามผังบัญชี</p>
+                  )}
+                  {rules.map((rule, index) => (
+                      <div key={index} className="px-4 py-2 border-t border-slate-100 flex gap-2 items-center">
+                          <input
+                              value={rule.prefix}
+                              onChange={e => updateRule(index, { ...rule, prefix: e.target.value })}
+                              placeholder="รหัสบัญชี"
+                              className="w-24 border border-slate-200 rounded px-2 py-1 text-sm font-mono"
+                          />
+                          <select
+                              value={rule.element}
+                              onChange={e => updateRule(index, { ...rule, element: e.target.value })}
+                              className="flex-1 min-w-0 border border-slate-200 rounded px-2 py-1 text-sm"
+                          >
+                              <option value="">เลือกรายการ{rule.prefix && resolveDBDElement(rule.prefix) ? ` (มาตรฐาน: ${resolveDBDElement(rule.prefix)})` : ''}</option>
+                              {DBD_ELEMENTS.map(element => <option key={element.id} value={element.id}>{element.labelTh}</option>)}
+                          </select>
+                          <button onClick={() => setRules(rules.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-600">
+                              <Trash size={14} />
+                          </button>
+                      </div>
+                  ))}
+                  {isDirty && (
+                      <div className="px-4 py-2 border-t border-slate-100 flex justify-end">
+                          <button
+                              onClick={handleSave}
+                              disabled={isWorking}
+                              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-semibold bg-indigo-100 text-indigo-700 disabled:opacity-50"
+                          >
+                              <Save size={14} /> บันทึกการจับคู่
+                          </button>
+                      </div>
+                  )}
+              </div>
+          </div>
+
+          {/* Facts preview */}
+          <div className="lg:col-span-2">
+              {renderFacts('งบแสดงฐานะการเงิน', data.balanceSheet)}
+              {renderFacts('งบกำไรขาดทุน', data.incomeStatement)}
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default DBDExport;
@@ -1,41 +1,150 @@
-import React, { useMemo, useState } from 'react';
-import { PostedGLEntry, Client } from '../types';
-import { FileText, Download, Printer, BookOpen, PenTool, Edit3, Save } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { PostedGLEntry, Client, ConsolidationGroup, FinancialNoteKey, FinancialNoteTemplates, FixedAsset } from '../types';
+import { Download, Printer, BookOpen, Edit3, Save, RotateCcw, X } from 'lucide-react';
+import { databaseService } from '../services/database';
+import {
+  FinancialNotesReport,
+  generateFinancialNotes,
+  generateFinancialNotesContent,
+  generateFinancialNotesHTML,
+  getNoteTemplate,
+  NOTE_DEFINITIONS,
+  saveNoteTemplates,
+} from '../services/financialNotes';
+import { generateBalanceSheet, generateCashFlowStatement, generateIncomeStatement } from '../services/financialStatements';
+import { getFiscalYearEndMonth, getFiscalYearOf, getFiscalYearRange } from '../services/fiscalYear';
+import {
+  exportToPDF,
+  exportToWord,
+  generateBalanceSheetContent,
+  generateCashFlowContent,
+  generatePnLContent,
+} from '../utils/pdfExport';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Props {
   client: Client;
   entries: PostedGLEntry[];
+  assets: FixedAsset[];
 }
 
-const FinancialNotes: React.FC<Props> = ({ client, entries }) => {
-  // State for editable notes content
-  const [generalInfo, setGeneralInfo] = useState(`${client.name} ("บริษัท") จัดตั้งขึ้นเป็นนิติบุคคลตามกฎหมายไทย ทะเบียนเลขที่ ${client.tax_id} ประกอบธุรกิจหลักเกี่ยวกับ ${client.industry} สำนักงานตั้งอยู่ที่ ${client.address || "กรุงเทพมหานคร"}`);
-  const [basisInfo, setBasisInfo] = useState('งบการเงินนี้จัดทำขึ้นตามมาตรฐานการรายงานทางการเงินสำหรับกิจการที่ไม่มีส่วนได้เสียสาธารณะ (TFRS for NPAEs) ที่ออกโดยสภาวิชาชีพบัญชี ในพระบรมราชูปถัมภ์');
-  
-  const [isEditing, setIsEditing] = useState(false);
-
-  const noteData = useMemo(() => {
-    const sumByCode = (codePrefix: string) => {
-        return entries
-            .filter(e => e.account_code.startsWith(codePrefix))
-            .reduce((sum, e) => {
-                const firstDigit = codePrefix.charAt(0);
-                if (firstDigit === '1' || firstDigit === '5') return sum + (e.debit - e.credit);
-                return sum + (e.credit - e.debit);
-            }, 0);
-    };
-
-    const cash = sumByCode('111');
-    const ar = sumByCode('113');
-    const inventory = sumByCode('114');
-    const ppe = sumByCode('12');
-    const ap = sumByCode('212');
-    const revenue = sumByCode('4');
-    
-    return { cash, ar, inventory, ppe, ap, revenue };
-  }, [entries]);
+const FinancialNotes: React.FC<Props> = ({ client, entries, assets }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const endMonth = getFiscalYearEndMonth(client);
+  const [fiscalYear, setFiscalYear] = useState(() =>
+    getFiscalYearOf(client.last_closing_date || new Date().toISOString().slice(0, 10), endMonth)
+  );
+  const [templates, setTemplates] = useState<FinancialNoteTemplates | null>(null);
+  const [groups, setGroups] = useState<ConsolidationGroup[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<FinancialNoteKey, string>> | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      databaseService.getFinancialNoteTemplates(client.id)
+          .then(setTemplates)
+          .catch(e => console.error('Failed to load note templates', e));
+      // Related parties come from the consolidation groups the client belongs to
+      Promise.all([databaseService.getConsolidationGroupsByMember(client.id), databaseService.getClients()])
+          .then(([loadedGroups, loadedClients]) => {
+              setGroups(loadedGroups);
+              setClients(loadedClients);
+          })
+          .catch(e => console.error('Failed to load related parties', e));
+  }, [client.id]);
+
+  const period = getFiscalYearRange(fiscalYear, endMonth);
+
+  const report: FinancialNotesReport = useMemo(
+      () => generateFinancialNotes({
+          client, glEntries: entries, assets, periodStart: period.start, periodEnd: period.end, templates, groups, clients,
+      }),
+      [client, entries, assets, period.start, period.end, templates, groups, clients]
+  );
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+  const formatAmount = (val: number | null) => val === null ? '' : val < 0 ? `(${formatCurrency(-val)})` : formatCurrency(val);
+
+  // Statements printed ahead of the notes
+  const buildStatementsContent = (): string => {
+      const incomeStatement = generateIncomeStatement(entries, client, period.start, period.end);
+      const balanceSheet = generateBalanceSheet(entries, client, period.end);
+      const cashFlow = generateCashFlowStatement(entries, client, period.start, period.end);
+      const lines = (items: { nameTh: string; amount: number }[]) => items.map(item => ({ name: item.nameTh, amount: item.amount }));
+
+      return `
+        <h2>งบแสดงฐานะการเงิน</h2>
+        <p style="text-align: center;">ณ วันที่ ${period.end}</p>
+        ${generateBalanceSheetContent({
+            assets: lines([...balanceSheet.assets.currentAssets.items, ...balanceSheet.assets.nonCurrentAssets.items]),
+            liabilities: lines([...balanceSheet.liabilities.currentLiabilities.items, ...balanceSheet.liabilities.nonCurrentLiabilities.items]),
+            equity: lines(balanceSheet.equity.items),
+            totalAssets: balanceSheet.assets.totalAssets,
+            totalLiabilities: balanceSheet.liabilities.totalLiabilities,
+            totalEquity: balanceSheet.equity.totalEquity,
+        })}
+        <div class="page-break"></div>
+        <h2>งบกำไรขาดทุน</h2>
+        <p style="text-align: center;">สำหรับงวดตั้งแต่วันที่ ${period.start} ถึงวันที่ ${period.end}</p>
+        ${generatePnLContent({
+            revenue: incomeStatement.revenue.totalRevenue,
+            costOfSales: incomeStatement.costOfSales.totalCostOfSales,
+            grossProfit: incomeStatement.grossProfit,
+            expenses: lines(incomeStatement.operatingExpenses.items),
+            netProfit: incomeStatement.netProfit,
+        })}
+        <div class="page-break"></div>
+        <h2>งบกระแสเงินสด</h2>
+        <p style="text-align: center;">สำหรับงวดตั้งแต่วันที่ ${period.start} ถึงวันที่ ${period.end}</p>
+        ${generateCashFlowContent({
+            sections: [
+                { title: 'กระแสเงินสดจากกิจกรรมดำเนินงาน', totalLabel: 'เงินสดสุทธิจากกิจกรรมดำเนินงาน', items: lines(cashFlow.operating.items), total: cashFlow.operating.total },
+                { title: 'กระแสเงินสดจากกิจกรรมลงทุน', totalLabel: 'เงินสดสุทธิจากกิจกรรมลงทุน', items: lines(cashFlow.investing.items), total: cashFlow.investing.total },
+                { title: 'กระแสเงินสดจากกิจกรรมจัดหาเงิน', totalLabel: 'เงินสดสุทธิจากกิจกรรมจัดหาเงิน', items: lines(cashFlow.financing.items), total: cashFlow.financing.total },
+            ],
+            netChange: cashFlow.netChange,
+            beginningCash: cashFlow.beginningCash,
+            endingCash: cashFlow.endingCash,
+        })}
+      `;
+  };
+
+  const handleExportPDF = () => {
+      exportToPDF({
+          title: 'งบการเงินและหมายเหตุประกอบงบการเงิน',
+          subtitle: `สำหรับงวดตั้งแต่วันที่ ${period.start} ถึงวันที่ ${period.end}`,
+          date: period.end,
+          companyName: client.name,
+          taxId: client.tax_id,
+          content: `${buildStatementsContent()}<div class="page-break"></div><h2>หมายเหตุประกอบงบการเงิน</h2>${generateFinancialNotesContent(report)}`,
+      });
+  };
+
+  const handleExportWord = () => {
+      exportToWord(generateFinancialNotesHTML(report, buildStatementsContent()), `financial_statements_${client.tax_id}_${fiscalYear}`);
+  };
+
+  const startEditing = () => {
+      setMessage(null);
+      setDrafts(Object.fromEntries(NOTE_DEFINITIONS.map(d => [d.key, getNoteTemplate(d.key, templates)])));
+  };
+
+  const handleSave = async () => {
+      if (!drafts) return;
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          setTemplates(await saveNoteTemplates(client.id, drafts, userId));
+          setDrafts(null);
+          setMessage({ text: 'บันทึกข้อความหมายเหตุแล้ว', isError: false });
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
 
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500">
@@ -45,111 +154,133 @@ const FinancialNotes: React.FC<Props> = ({ client, entries }) => {
                <BookOpen className="text-blue-600" size={20} />
                หมายเหตุประกอบงบการเงิน (Notes to Financial Statements)
            </h3>
-           <p className="text-sm text-slate-500">ร่างเอกสารสำหรับผู้สอบบัญชี (Editable Draft)</p>
+           <p className="text-sm text-slate-500">สร้างจากบัญชีแยกประเภท ทะเบียนทรัพย์สิน และข้อมูลลูกค้า (TFRS for NPAEs)</p>
         </div>
         <div className="flex gap-2">
-            <button 
-                onClick={() => setIsEditing(!isEditing)}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors shadow-sm ${isEditing ? 'bg-indigo-100 text-indigo-700' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+            <select
+                value={fiscalYear}
+                onChange={e => setFiscalYear(Number(e.target.value))}
+                className="border border-slate-200 rounded-lg px-3 py-2 text-sm"
             >
-                {isEditing ? <Save size={16} /> : <Edit3 size={16} />}
-                {isEditing ? 'Done Editing' : 'Edit Notes'}
-            </button>
-            <button className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600">
-                <Printer size={16} /> Print
+                {[0, 1, 2].map(offset => {
+                    const year = getFiscalYearOf(new Date().toISOString().slice(0, 10), endMonth) - offset;
+                    return <option key={year} value={year}>ปีบัญชี {year + 543}</option>;
+                })}
+            </select>
+            {drafts ? (
+                <>
+                    <button
+                        onClick={() => setDrafts(null)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600"
+                    >
+                        <X size={16} /> ยกเลิก
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={isWorking}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors shadow-sm bg-indigo-100 text-indigo-700 disabled:opacity-50"
+                    >
+                        <Save size={16} /> บันทึกข้อความ
+                    </button>
+                </>
+            ) : (
+                <button
+                    onClick={startEditing}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors shadow-sm bg-white border border-slate-200 text-slate-600 hover:bg-slate-100"
+                >
+                    <Edit3 size={16} /> แก้ไขข้อความ
+                </button>
+            )}
+            <button
+                onClick={handleExportWord}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600"
+            >
+                <Download size={16} /> Word
             </button>
-            <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-md">
-                <Download size={16} /> Export PDF
+            <button
+                onClick={handleExportPDF}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-md"
+            >
+                <Printer size={16} /> Export PDF
             </button>
         </div>
       </div>
 
+      {message && (
+          <div className={`px-6 py-3 text-sm ${message.isError ? 'bg-red-50 text-red-700' : 'bg-emerald-50 text-emerald-700'}`}>
+              {message.text}
+          </div>
+      )}
+
       <div className="flex-1 overflow-auto p-12 bg-slate-50/50">
           <div className="max-w-4xl mx-auto bg-white p-12 shadow-lg min-h-[800px] relative">
-              
+
               {/* Document Header */}
               <div className="text-center mb-12">
                   <h1 className="text-xl font-bold text-slate-900">{client.name}</h1>
                   <h2 className="text-lg font-semibold text-slate-700 mt-2">หมายเหตุประกอบงบการเงิน</h2>
-                  <p className="text-slate-600 mt-1">สำหรับงวดบัญชีสิ้นสุดวันที่ {client.last_closing_date}</p>
+                  <p className="text-slate-600 mt-1">สำหรับงวดตั้งแต่วันที่ {report.periodStart} ถึงวันที่ {report.periodEnd}</p>
               </div>
 
-              {/* Note 1: General Info */}
-              <div className="mb-8 group">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">1. ข้อมูลทั่วไป (General Information)</h3>
-                  {isEditing ? (
-                      <textarea 
-                        className="w-full border border-blue-200 rounded-lg p-3 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
-                        rows={4}
-                        value={generalInfo}
-                        onChange={(e) => setGeneralInfo(e.target.value)}
-                      />
-                  ) : (
-                      <p className="text-sm text-slate-600 leading-relaxed indent-8 text-justify">{generalInfo}</p>
-                  )}
-              </div>
-
-              {/* Note 2: Basis of Preparation */}
-              <div className="mb-8">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">2. เกณฑ์การจัดทำงบการเงิน (Basis of Preparation)</h3>
-                  {isEditing ? (
-                      <textarea 
-                        className="w-full border border-blue-200 rounded-lg p-3 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
-                        rows={3}
-                        value={basisInfo}
-                        onChange={(e) => setBasisInfo(e.target.value)}
-                      />
-                  ) : (
-                      <p className="text-sm text-slate-600 leading-relaxed indent-8 text-justify">{basisInfo}</p>
-                  )}
-              </div>
-
-              {/* Note 3: Significant Policies */}
-              <div className="mb-8">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">3. สรุปนโยบายการบัญชีที่สำคัญ (Significant Accounting Policies)</h3>
-                  <ul className="list-disc pl-5 text-sm text-slate-600 space-y-2">
-                      <li><span className="font-semibold">การรับรู้รายได้:</span> รับรู้รายได้เมื่อมีการส่งมอบสินค้าหรือให้บริการแก่ลูกค้าแล้ว (Accrual Basis)</li>
-                      <li><span className="font-semibold">เงินสดและรายการเทียบเท่าเงินสด:</span> ประกอบด้วยเงินสดในมือและเงินฝากธนาคาร</li>
-                      <li><span className="font-semibold">ที่ดิน อาคาร และอุปกรณ์:</span> แสดงในราคาทุนหักค่าเสื่อมราคาสะสม คำนวณค่าเสื่อมราคาโดยวิธีเส้นตรง (Straight-line method)</li>
-                  </ul>
-              </div>
-
-              {/* Note 4: Cash & Equivalents */}
-              <div className="mb-8">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">4. เงินสดและรายการเทียบเท่าเงินสด (Cash and Cash Equivalents)</h3>
-                  <div className="flex justify-between items-end mb-2 text-sm">
-                      <span>ประกอบด้วย:</span>
-                      <span className="font-bold">{client.current_workflow.month.split('-')[0]}</span>
-                  </div>
-                  <div className="border-t border-slate-200 py-2">
-                      <div className="flex justify-between text-sm">
-                          <span>เงินสดและเงินฝากธนาคาร</span>
-                          <span className="font-mono">{formatCurrency(noteData.cash)} บาท</span>
-                      </div>
-                  </div>
-                  <div className="border-t border-b border-slate-400 py-2 font-bold flex justify-between text-sm bg-slate-50">
-                      <span>รวม</span>
-                      <span className="font-mono">{formatCurrency(noteData.cash)} บาท</span>
-                  </div>
-              </div>
-
-              {/* Note 5: Trade Receivables */}
-              <div className="mb-8">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">5. ลูกหนี้การค้า (Trade Receivables)</h3>
-                  <p className="text-sm text-slate-600 leading-relaxed mb-4 indent-8 text-justify">
-                      ณ วันที่ในงบดุล บริษัทมีลูกหนี้การค้าคงเหลือจำนวน {formatCurrency(noteData.ar)} บาท 
-                      ซึ่งฝ่ายบริหารเชื่อว่าบริษัทจะได้รับชำระหนี้เต็มจำนวน จึงไม่ได้ตั้งค่าเผื่อหนี้สงสัยจะสูญ
+              {drafts && (
+                  <p className="mb-6 text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-3">
+                      ข้อความใน {'{{...}}'} จะถูกแทนที่ด้วยข้อมูลจริงเมื่อสร้างหมายเหตุ เช่น {'{{company}}'}, {'{{period_end}}'}, {'{{cash_total}}'}
                   </p>
-              </div>
+              )}
 
-               {/* Note 6: PPE */}
-               <div className="mb-8">
-                  <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3">6. ที่ดิน อาคาร และอุปกรณ์ - สุทธิ (Property, Plant and Equipment)</h3>
-                  <p className="text-sm text-slate-600 leading-relaxed mb-4 indent-8 text-justify">
-                      สินทรัพย์ถาวรสุทธิจำนวน {formatCurrency(noteData.ppe)} บาท ประกอบด้วยอุปกรณ์สำนักงานและยานพาหนะ 
-                      (รายละเอียดแสดงในทะเบียนทรัพย์สิน)
-                  </p>
-              </div>
+              {report.notes.map(note => {
+                  const standard = NOTE_DEFINITIONS.find(d => d.key === note.key)!.template;
+                  return (
+                      <div key={note.key} className="mb-8">
+                          <h3 className="font-bold text-slate-800 border-b border-slate-200 pb-1 mb-3 flex justify-between items-center">
+                              <span>{note.number}. {note.title} ({note.titleEn})</span>
+                              {drafts && drafts[note.key] !== standard && (
+                                  <button
+                                      onClick={() => setDrafts({ ...drafts, [note.key]: standard })}
+                                      className="flex items-center gap-1 text-xs font-normal text-slate-500 hover:text-blue-600"
+                                  >
+                                      <RotateCcw size={12} /> ใช้ข้อความมาตรฐาน
+                                  </button>
+                              )}
+                          </h3>
+                          {drafts ? (
+                              <textarea
+                                className="w-full border border-blue-200 rounded-lg p-3 text-sm text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none"
+                                rows={Math.max(3, (drafts[note.key] || '').split('\n').length + 1)}
+                                value={drafts[note.key] || ''}
+                                onChange={(e) => setDrafts({ ...drafts, [note.key]: e.target.value })}
+                              />
+                          ) : (
+                              note.narrative.split('\n').map((paragraph, i) => (
+                                  <p key={i} className="text-sm text-slate-600 leading-relaxed indent-8 text-justify mb-2">{paragraph}</p>
+                              ))
+                          )}
+                          {note.tables.map((table, i) => (
+                              <div key={i} className="mt-4">
+                                  {table.title && <p className="text-sm font-semibold text-slate-700 mb-1">{table.title}</p>}
+                                  <table className="w-full text-sm">
+                                      <thead>
+                                          <tr className="border-b border-slate-300 text-slate-500">
+                                              <th></th>
+                                              {table.columns.map(column => <th key={column} className="py-1 text-right font-medium">{column}</th>)}
+                                          </tr>
+                                      </thead>
+                                      <tbody>
+                                          {table.rows.map((row, r) => (
+                                              <tr key={r} className={row.isTotal ? 'border-t border-slate-400 font-bold bg-slate-50' : 'border-b border-slate-100'}>
+                                                  <td className="py-1.5">{row.label}</td>
+                                                  {row.values.map((value, v) => (
+                                                      <td key={v} className="py-1.5 text-right font-mono">{formatAmount(value)}</td>
+                                                  ))}
+                                              </tr>
+                                          ))}
+                                      </tbody>
+                                  </table>
+                              </div>
+                          ))}
+                      </div>
+                  );
+              })}
 
               {/* Footer / Sign off area */}
               <div className="mt-16 grid grid-cols-2 gap-20">
@@ -170,4 +301,4 @@ const FinancialNotes: React.FC<Props> = ({ client, entries }) => {
   );
 };
 
-export default FinancialNotes;
\ No newline at end of file
+export default FinancialNotes;
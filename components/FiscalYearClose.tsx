@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, FiscalYearClose as FiscalYearCloseRecord, PostedGLEntry } from '../types';
+import { CalendarCheck, Lock, Unlock, Loader2 } from 'lucide-react';
+import { databaseService } from '../services/database';
+import {
+  closeFiscalYear,
+  getFiscalYearEndMonth,
+  getFiscalYearOf,
+  getFiscalYearRange,
+  reopenFiscalYear,
+} from '../services/fiscalYear';
+import { generateOpeningBalanceEntries, generateYearEndClosingEntries } from '../services/periodClosing';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+  onPosted: (entries: PostedGLEntry[]) => void;
+}
+
+const FiscalYearClose: React.FC<Props> = ({ client, entries, onPosted }) => {
+  const { user } = useAuth();
+  const endMonth = getFiscalYearEndMonth(client);
+  const today = new Date().toISOString().split('T')[0];
+  const [records, setRecords] = useState<FiscalYearCloseRecord[]>([]);
+  const [fiscalYear, setFiscalYear] = useState(getFiscalYearOf(today, endMonth) - 1);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      databaseService.getFiscalYearCloses(client.id)
+          .then(setRecords)
+          .catch(e => console.error('Failed to load fiscal year closes', e));
+  }, [client.id]);
+
+  const range = getFiscalYearRange(fiscalYear, endMonth);
+  const record = records.find(r => r.fiscalYear === fiscalYear);
+  const isClosed = record?.status === 'closed';
+
+  const preview = useMemo(() => {
+      const closing = generateYearEndClosingEntries(entries, client.id, fiscalYear, range);
+      const opening = generateOpeningBalanceEntries([...entries, ...closing.entries], client.id, fiscalYear, range);
+      return { ...closing, opening };
+  }, [entries, client.id, fiscalYear, range.start, range.end]);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const userFields = {
+      userId: user?.staffId || user?.uid || 'system',
+      userName: user?.displayName || undefined,
+      userRole: user?.role,
+  };
+
+  const applyResult = (result: Awaited<ReturnType<typeof closeFiscalYear>>) => {
+      setMessage({ text: result.messageTh, isError: !result.success });
+      if (result.entries.length > 0) onPosted(result.entries);
+      if (result.record) {
+          setRecords(prev => [...prev.filter(r => r.id !== result.record!.id), result.record!]);
+      }
+  };
+
+  const handleClose = async () => {
+      if (!window.confirm(`ยืนยันปิดบัญชีปี ${fiscalYear} (${range.start} ถึง ${range.end})?`)) return;
+      setIsWorking(true);
+      try {
+          applyResult(await closeFiscalYear({ clientId: client.id, fiscalYear, ...userFields }));
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleReopen = async () => {
+      const reason = window.prompt(`เหตุผลในการเปิดปีบัญชี ${fiscalYear}`);
+      if (!reason) return;
+      setIsWorking(true);
+      try {
+          applyResult(await reopenFiscalYear({ clientId: client.id, fiscalYear, reason, ...userFields }));
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const currentYear = getFiscalYearOf(today, endMonth);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <CalendarCheck className="text-blue-600" size={20} />
+                ปิดบัญชีสิ้นปี (Fiscal Year-End Close)
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+                <select value={fiscalYear} onChange={e => { setFiscalYear(Number(e.target.value)); setMessage(null); }} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                    {[0, 1, 2, 3].map(offset => currentYear - offset).map(y => <option key={y} value={y}>ปีบัญชี {y}</option>)}
+                </select>
+                {isClosed ? (
+                    <button
+                        onClick={handleReopen}
+                        disabled={isWorking}
+                        className="flex items-center gap-2 px-3 py-1.5 border border-amber-300 text-amber-700 rounded-lg font-semibold hover:bg-amber-50 disabled:opacity-50"
+                    >
+                        {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Unlock size={16} />}
+                        เปิดปีบัญชีใหม่
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleClose}
+                        disabled={isWorking || range.end >= today}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Lock size={16} />}
+                        ปิดบัญชีปี {fiscalYear}
+                    </button>
+                )}
+            </div>
+        </div>
+
+        {message && (
+            <div className={`rounded-xl p-4 text-sm border ${message.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+                {message.text}
+            </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+                <p className="text-xs text-slate-500">รอบปีบัญชี</p>
+                <p className="font-semibold text-slate-800 mt-1">{range.start} ถึง {range.end}</p>
+                <p className={`text-xs mt-2 font-semibold ${isClosed ? 'text-emerald-600' : record ? 'text-amber-600' : 'text-slate-400'}`}>
+                    {isClosed ? `ปิดบัญชีแล้ว (${record!.closingDocNo || '-'} / ${record!.openingDocNo || '-'})` : record ? 'เปิดปีบัญชีใหม่แล้ว' : 'ยังไม่ปิดบัญชี'}
+                </p>
+            </div>
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+                <p className="text-xs text-slate-500">กำไร (ขาดทุน) สุทธิทั้งปี</p>
+                <p className={`font-bold text-xl mt-1 font-mono ${(isClosed ? record!.netProfit : preview.netProfit) >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                    {formatCurrency(isClosed ? record!.netProfit : preview.netProfit)}
+                </p>
+            </div>
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+                <p className="text-xs text-slate-500">รายการที่จะบันทึก</p>
+                <p className="text-sm text-slate-700 mt-1">ปิดบัญชี {preview.entries.length} รายการ · ยอดยกมา {preview.opening.length} รายการ</p>
+            </div>
+        </div>
+
+        {!isClosed && preview.opening.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-100 font-semibold text-slate-700 text-sm">
+                    ยอดยกมาต้นปีบัญชี {fiscalYear + 1}
+                </div>
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                        <tr>
+                            <th className="px-4 py-3 text-left">บัญชี</th>
+                            <th className="px-4 py-3 text-right">เดบิต</th>
+                            <th className="px-4 py-3 text-right">เครดิต</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-600">
+                        {preview.opening.map(e => (
+                            <tr key={e.id}>
+                                <td className="px-4 py-2.5">
+                                    <span className="font-mono text-slate-400 mr-2">{e.account_code}</span>{e.account_name}
+                                    {e.currency && <span className="ml-2 text-xs text-slate-400">{e.currency}</span>}
+                                </td>
+                                <td className="px-4 py-2.5 text-right font-mono">{e.debit ? formatCurrency(e.debit) : '-'}</td>
+                                <td className="px-4 py-2.5 text-right font-mono">{e.credit ? formatCurrency(e.credit) : '-'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        )}
+
+        {records.some(r => r.reopenedAt) && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 text-sm">
+                <p className="font-semibold text-slate-700 mb-2">ประวัติการเปิดปีบัญชี</p>
+                <ul className="space-y-1 text-slate-600">
+                    {records.filter(r => r.reopenedAt).sort((a, b) => b.fiscalYear - a.fiscalYear).map(r => (
+                        <li key={r.id}>
+                            ปีบัญชี {r.fiscalYear}: {new Date(r.reopenedAt!).toLocaleString('th-TH')} โดย {r.reopenedBy} - {r.reopenReason}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default FiscalYearClose;
@@ -1,116 +1,162 @@
-import React, { useState } from 'react';
-import { FixedAsset, PostedGLEntry } from '../types';
-import { Monitor, Car, Building2, HardDrive, Plus, Zap, Calculator, CheckCircle2, X, Save } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CostCenter, FixedAsset, PostedGLEntry } from '../types';
+import { Monitor, Car, Building2, HardDrive, Plus, Zap, Calculator, CheckCircle2, X, Save, Loader2, CalendarRange, TrendingDown, ArrowRightLeft, LogOut } from 'lucide-react';
+import { buildDepreciationSchedule } from '../services/periodClosing';
+import {
+    DEPRECIATION_METHOD_NAMES,
+    disposeAsset,
+    getNetBookValue,
+    impairAsset,
+    postDepreciation,
+    recordUnits,
+    transferAsset,
+} from '../services/fixedAssets';
+import { loadCostCenterSetup } from '../services/costCenters';
+import { buildTaxDepreciationSchedule, calculateBookTaxDifferences, getTaxDepreciationRate, RD_MAX_DEPRECIATION_RATES } from '../services/taxDepreciation';
+import { getFiscalYearOf, getFiscalYearRange } from '../services/fiscalYear';
+import { useAuth } from '../contexts/AuthContext';
 
 interface Props {
     assets: FixedAsset[];
     clientId: string;
     onAddAsset: (asset: FixedAsset) => void;
-    onPostJournal?: (entries: PostedGLEntry[]) => void;
+    onUpdateAsset: (asset: FixedAsset) => void;
+    onPosted: (entries: PostedGLEntry[]) => void; // Entries already posted to the GL
+    fiscalYearEndMonth?: number; // For the book-tax difference schedule
 }
 
-const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onPostJournal }) => {
+type AssetAction = { type: 'dispose' | 'impair' | 'transfer' | 'units'; asset: FixedAsset };
+
+const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onUpdateAsset, onPosted, fiscalYearEndMonth = 12 }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
   const [processing, setProcessing] = useState(false);
-  const [posted, setPosted] = useState(false);
+  const [posted, setPosted] = useState<{ period: string; total: number; entries: PostedGLEntry[] } | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [scheduleAssetId, setScheduleAssetId] = useState<string | null>(null);
+  const [action, setAction] = useState<AssetAction | null>(null);
+  const [actionForm, setActionForm] = useState({ date: new Date().toISOString().split('T')[0], amount: 0, department: '', note: '' });
+  const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [showTaxDifferences, setShowTaxDifferences] = useState(false);
 
   // New Asset Form State
   const [newAsset, setNewAsset] = useState<Partial<FixedAsset>>({
       category: 'Equipment',
       useful_life_years: 5,
-      residual_value: 1
+      residual_value: 1,
+      depreciation_method: 'straight_line'
   });
 
-  const totalDepre = assets.reduce((sum, a) => sum + a.current_month_depreciation, 0);
+  useEffect(() => {
+      loadCostCenterSetup(clientId)
+          .then(setup => setCostCenters(setup.costCenters.filter(c => c.isActive)))
+          .catch(e => console.error('Failed to load cost centers', e));
+  }, [clientId]);
 
-  const calculateMonthlyDepreciation = (cost: number, residual: number, years: number) => {
-      if (!years || years === 0) return 0;
-      const annualDepre = (cost - residual) / years;
-      return annualDepre / 12;
-  };
+  const activeAssets = assets.filter(a => a.status !== 'disposed');
+
+  // Scheduled charge for the selected month (what a depreciation run would book)
+  const scheduledFor = (asset: FixedAsset) =>
+      asset.status === 'disposed' ? 0 : buildDepreciationSchedule(asset, period).find(r => r.period === period)?.depreciation || 0;
+
+  const totalDepre = activeAssets.reduce((sum, a) => sum + scheduledFor(a), 0);
+
+  const fiscalYear = getFiscalYearOf(`${period}-01`, fiscalYearEndMonth);
+  const taxDifferences = showTaxDifferences
+      ? calculateBookTaxDifferences(assets, getFiscalYearRange(fiscalYear, fiscalYearEndMonth))
+      : null;
 
   const handleAddAsset = () => {
       if (!newAsset.asset_code || !newAsset.name || !newAsset.cost) return;
-
-      const monthlyDepre = calculateMonthlyDepreciation(
-          Number(newAsset.cost), 
-          Number(newAsset.residual_value || 1), 
-          Number(newAsset.useful_life_years || 5)
-      );
+      const method = newAsset.depreciation_method || 'straight_line';
 
       const assetToAdd: FixedAsset = {
           id: `FA-${Date.now()}`,
           clientId: clientId,
           asset_code: newAsset.asset_code,
           name: newAsset.name,
-          category: newAsset.category as any,
+          category: newAsset.category as FixedAsset['category'],
           acquisition_date: newAsset.acquisition_date || new Date().toISOString().split('T')[0],
           cost: Number(newAsset.cost),
           residual_value: Number(newAsset.residual_value || 1),
           useful_life_years: Number(newAsset.useful_life_years || 5),
           accumulated_depreciation_bf: 0,
-          current_month_depreciation: monthlyDepre
+          current_month_depreciation: 0,
+          depreciation_method: method,
+          status: 'active',
+          ...(method === 'declining_balance' && { declining_balance_rate: Number(newAsset.declining_balance_rate || 2) }),
+          ...(method === 'units_of_production' && { total_units: Number(newAsset.total_units || 0), units_by_period: {} }),
+          ...(newAsset.department_code && { department_code: newAsset.department_code }),
+          ...(newAsset.category === 'Vehicle' && newAsset.is_passenger_car && { is_passenger_car: true }),
+          ...(newAsset.tax_depreciation_rate && { tax_depreciation_rate: Number(newAsset.tax_depreciation_rate) }),
       };
+      assetToAdd.current_month_depreciation = buildDepreciationSchedule(assetToAdd)[0]?.depreciation || 0;
 
       onAddAsset(assetToAdd);
       setShowAddModal(false);
-      setNewAsset({ category: 'Equipment', useful_life_years: 5, residual_value: 1 }); // Reset
+      setNewAsset({ category: 'Equipment', useful_life_years: 5, residual_value: 1, depreciation_method: 'straight_line' }); // Reset
   };
 
-  const handlePostDepreciation = () => {
+  const handlePostDepreciation = async () => {
       setProcessing(true);
-      
-      // Generate GL Entries dynamically based on asset categories
-      const entries: PostedGLEntry[] = [];
-      const date = new Date().toISOString().split('T')[0];
-      const docNo = `DEPRE-${new Date().toLocaleDateString('en-GB', {month: '2-digit', year: '2-digit'}).replace('/','')}`;
-
-      // 1. Debit Expense
-      entries.push({
-          id: `GL-DEPRE-DR-${Date.now()}`,
-          clientId: clientId,
-          date: date,
-          doc_no: docNo,
-          description: 'บันทึกค่าเสื่อมราคาประจำเดือน (Depreciation Expense)',
-          account_code: '52600',
-          account_name: 'ค่าเสื่อมราคา (Depreciation Expense)',
-          debit: totalDepre,
-          credit: 0,
-          system_generated: true
-      });
+      setError(null);
+      try {
+          const result = await postDepreciation(clientId, period, userId);
+          if (!result.success) {
+              setError(result.errors.join(', '));
+              return;
+          }
+          result.assets.forEach(onUpdateAsset);
+          if (result.entries.length > 0) onPosted(result.entries);
+          setPosted({ period, total: result.totalDepreciation, entries: result.entries });
+      } finally {
+          setProcessing(false);
+      }
+  };
 
-      // 2. Credit Accum Depre (Grouped by Category)
-      const accumMap: Record<string, number> = {};
-      assets.forEach(a => {
-          const accCode = a.category === 'Vehicle' ? '12501' : a.category === 'Building' ? '12201' : '12401';
-          if (!accumMap[accCode]) accumMap[accCode] = 0;
-          accumMap[accCode] += a.current_month_depreciation;
+  const openAction = (type: AssetAction['type'], asset: FixedAsset) => {
+      setAction({ type, asset });
+      setError(null);
+      setActionForm({
+          date: new Date().toISOString().split('T')[0],
+          amount: type === 'units' ? asset.units_by_period?.[period] || 0 : 0,
+          department: '',
+          note: '',
       });
+  };
 
-      Object.entries(accumMap).forEach(([code, amount], idx) => {
-           let accName = 'ค่าเสื่อมราคาสะสม-เครื่องใช้สนง.';
-           if (code === '12501') accName = 'ค่าเสื่อมราคาสะสม-ยานพาหนะ';
-           if (code === '12201') accName = 'ค่าเสื่อมราคาสะสม-อาคาร';
-
-           entries.push({
-              id: `GL-DEPRE-CR-${Date.now()}-${idx}`,
-              clientId: clientId,
-              date: date,
-              doc_no: docNo,
-              description: 'บันทึกค่าเสื่อมราคาประจำเดือน',
-              account_code: code,
-              account_name: accName,
-              debit: 0,
-              credit: amount,
-              system_generated: true
-           });
-      });
+  const handleAction = async () => {
+      if (!action) return;
+      const { asset } = action;
+      const { date, amount, department, note } = actionForm;
+      setProcessing(true);
+      setError(null);
+      try {
+          if (action.type === 'units') {
+              onUpdateAsset(await recordUnits(asset, period, amount));
+              setAction(null);
+              return;
+          }
 
-      setTimeout(() => {
-          if (onPostJournal) onPostJournal(entries);
+          const result = action.type === 'dispose'
+              ? await disposeAsset({ asset, date, proceeds: amount, userId, note })
+              : action.type === 'impair'
+                  ? await impairAsset({ asset, date, amount, userId, note })
+                  : await transferAsset({ asset, date, toDepartment: department, userId, note });
+          if (!result.success || !result.asset) {
+              setError(result.errors.join(', '));
+              return;
+          }
+          onUpdateAsset(result.asset);
+          onPosted(result.entries);
+          setAction(null);
+      } catch (e) {
+          setError(e instanceof Error ? e.message : 'เกิดข้อผิดพลาด');
+      } finally {
           setProcessing(false);
-          setPosted(true);
-      }, 1500);
+      }
   };
 
   const getIcon = (category: string) => {
@@ -123,10 +169,16 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
       }
   };
 
-  const calculateNBV = (asset: FixedAsset) => {
-      return asset.cost - asset.accumulated_depreciation_bf - asset.current_month_depreciation;
+  const actionTitles: Record<AssetAction['type'], string> = {
+      dispose: 'จำหน่าย/ตัดจำหน่ายสินทรัพย์ (Disposal)',
+      impair: 'บันทึกการด้อยค่า (Impairment)',
+      transfer: 'โอนย้ายสาขา/ศูนย์ต้นทุน (Transfer)',
+      units: `บันทึกจำนวนผลผลิต ${period}`,
   };
 
+  const scheduleAsset = assets.find(a => a.id === scheduleAssetId);
+  const scheduleTax = scheduleAsset ? buildTaxDepreciationSchedule(scheduleAsset) : [];
+
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500 relative">
        
@@ -185,6 +237,54 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
                                 value={newAsset.residual_value} onChange={e => setNewAsset({...newAsset, residual_value: parseFloat(e.target.value)})} />
                            </div>
                        </div>
+                       <div className="grid grid-cols-2 gap-4">
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">วิธีคิดค่าเสื่อมราคา</label>
+                               <select className="w-full border border-slate-200 rounded p-2 text-sm"
+                                value={newAsset.depreciation_method} onChange={e => setNewAsset({...newAsset, depreciation_method: e.target.value as FixedAsset['depreciation_method']})}>
+                                   {Object.entries(DEPRECIATION_METHOD_NAMES).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                               </select>
+                           </div>
+                           {newAsset.depreciation_method === 'declining_balance' && (
+                               <div>
+                                   <label className="text-xs font-bold text-slate-500 block mb-1">อัตราเร่ง (เท่าของเส้นตรง)</label>
+                                   <input type="number" className="w-full border border-slate-200 rounded p-2 text-sm text-right" placeholder="2"
+                                    value={newAsset.declining_balance_rate || ''} onChange={e => setNewAsset({...newAsset, declining_balance_rate: parseFloat(e.target.value)})} />
+                               </div>
+                           )}
+                           {newAsset.depreciation_method === 'units_of_production' && (
+                               <div>
+                                   <label className="text-xs font-bold text-slate-500 block mb-1">จำนวนผลผลิตตลอดอายุ</label>
+                                   <input type="number" className="w-full border border-slate-200 rounded p-2 text-sm text-right"
+                                    value={newAsset.total_units || ''} onChange={e => setNewAsset({...newAsset, total_units: parseFloat(e.target.value)})} />
+                               </div>
+                           )}
+                       </div>
+                       <div className="grid grid-cols-2 gap-4">
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">
+                                   อัตราค่าเสื่อมทางภาษี (%/ปี, สูงสุด {Number(RD_MAX_DEPRECIATION_RATES[newAsset.category as FixedAsset['category']].toFixed(2))})
+                               </label>
+                               <input type="number" className="w-full border border-slate-200 rounded p-2 text-sm text-right" placeholder="อัตราสูงสุด"
+                                value={newAsset.tax_depreciation_rate || ''} onChange={e => setNewAsset({...newAsset, tax_depreciation_rate: parseFloat(e.target.value) || undefined})} />
+                           </div>
+                           {newAsset.category === 'Vehicle' && (
+                               <label className="flex items-center gap-2 text-sm text-slate-600 pt-5">
+                                   <input type="checkbox" checked={!!newAsset.is_passenger_car} onChange={e => setNewAsset({...newAsset, is_passenger_car: e.target.checked})} />
+                                   รถยนต์นั่ง (ไม่เกิน 10 ที่นั่ง) จำกัดราคาทุน 1 ล้านบาท
+                               </label>
+                           )}
+                       </div>
+                       {costCenters.length > 0 && (
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">สาขา/ศูนย์ต้นทุน</label>
+                               <select className="w-full border border-slate-200 rounded p-2 text-sm"
+                                value={newAsset.department_code || ''} onChange={e => setNewAsset({...newAsset, department_code: e.target.value || undefined})}>
+                                   <option value="">- ไม่ระบุ -</option>
+                                   {costCenters.map(c => <option key={c.code} value={c.code}>{c.code} - {c.name}</option>)}
+                               </select>
+                           </div>
+                       )}
                        <div className="pt-4">
                            <button onClick={handleAddAsset} className="w-full bg-blue-600 text-white font-bold py-2.5 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2">
                                <Save size={18} /> บันทึกทรัพย์สิน
@@ -195,15 +295,126 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
            </div>
        )}
 
+       {/* LIFECYCLE ACTION MODAL */}
+       {action && (
+           <div className="absolute inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4 backdrop-blur-sm">
+               <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95">
+                   <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                       <div>
+                           <h3 className="font-bold text-slate-800">{actionTitles[action.type]}</h3>
+                           <p className="text-xs text-slate-500">{action.asset.asset_code} {action.asset.name} · มูลค่าตามบัญชี {getNetBookValue(action.asset).toLocaleString(undefined, {minimumFractionDigits: 2})}</p>
+                       </div>
+                       <button onClick={() => setAction(null)} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
+                   </div>
+                   <div className="p-6 space-y-4">
+                       {action.type !== 'units' && (
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">วันที่</label>
+                               <input type="date" className="w-full border border-slate-200 rounded p-2 text-sm"
+                                value={actionForm.date} onChange={e => setActionForm({...actionForm, date: e.target.value})} />
+                           </div>
+                       )}
+                       {action.type === 'transfer' ? (
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">โอนไปยัง (ปัจจุบัน: {action.asset.department_code || '-'})</label>
+                               {costCenters.length > 0 ? (
+                                   <select className="w-full border border-slate-200 rounded p-2 text-sm"
+                                    value={actionForm.department} onChange={e => setActionForm({...actionForm, department: e.target.value})}>
+                                       <option value="">- เลือก -</option>
+                                       {costCenters.filter(c => c.code !== action.asset.department_code).map(c => <option key={c.code} value={c.code}>{c.code} - {c.name}</option>)}
+                                   </select>
+                               ) : (
+                                   <input type="text" className="w-full border border-slate-200 rounded p-2 text-sm" placeholder="e.g., BR02"
+                                    value={actionForm.department} onChange={e => setActionForm({...actionForm, department: e.target.value.trim()})} />
+                               )}
+                           </div>
+                       ) : (
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">
+                                   {action.type === 'dispose' ? 'ราคาขาย (0 = ตัดจำหน่าย)' : action.type === 'impair' ? 'ขาดทุนจากการด้อยค่า' : 'จำนวนหน่วยที่ผลิตได้'}
+                               </label>
+                               <input type="number" className="w-full border border-slate-200 rounded p-2 text-sm text-right"
+                                value={actionForm.amount || ''} onChange={e => setActionForm({...actionForm, amount: parseFloat(e.target.value) || 0})} />
+                           </div>
+                       )}
+                       {action.type !== 'units' && (
+                           <div>
+                               <label className="text-xs font-bold text-slate-500 block mb-1">หมายเหตุ</label>
+                               <input type="text" className="w-full border border-slate-200 rounded p-2 text-sm"
+                                value={actionForm.note} onChange={e => setActionForm({...actionForm, note: e.target.value})} />
+                           </div>
+                       )}
+                       {error && <p className="text-sm text-red-600">{error}</p>}
+                       <div className="pt-2">
+                           <button onClick={handleAction} disabled={processing} className="w-full bg-blue-600 text-white font-bold py-2.5 rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+                               {processing ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />} บันทึก
+                           </button>
+                       </div>
+                   </div>
+               </div>
+           </div>
+       )}
+
+       {/* DEPRECIATION SCHEDULE */}
+       {scheduleAsset && (
+           <div className="absolute inset-0 z-50 bg-slate-900/50 flex items-center justify-center p-4 backdrop-blur-sm">
+               <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden animate-in zoom-in-95">
+                   <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+                       <div>
+                           <h3 className="font-bold text-slate-800">ตารางค่าเสื่อมราคา (Depreciation Schedule)</h3>
+                           <p className="text-xs text-slate-500">
+                               {scheduleAsset.asset_code} {scheduleAsset.name} · {DEPRECIATION_METHOD_NAMES[scheduleAsset.depreciation_method || 'straight_line']}
+                               {scheduleAsset.depreciated_through && ` · บันทึกถึง ${scheduleAsset.depreciated_through}`}
+                               {` · ภาษี ${getTaxDepreciationRate(scheduleAsset).toFixed(2)}%/ปี`}
+                           </p>
+                       </div>
+                       <button onClick={() => setScheduleAssetId(null)} className="text-slate-400 hover:text-slate-600"><X size={20}/></button>
+                   </div>
+                   <div className="overflow-auto">
+                       <table className="w-full text-sm">
+                           <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200 sticky top-0">
+                               <tr>
+                                   <th className="px-4 py-2 text-left">งวด</th>
+                                   <th className="px-4 py-2 text-right">ยกมา</th>
+                                   <th className="px-4 py-2 text-right">ค่าเสื่อม</th>
+                                   <th className="px-4 py-2 text-right">ด้อยค่า</th>
+                                   <th className="px-4 py-2 text-right">ค่าเสื่อมสะสม</th>
+                                   <th className="px-4 py-2 text-right">มูลค่าคงเหลือ</th>
+                                   <th className="px-4 py-2 text-right">ค่าเสื่อมทางภาษี</th>
+                                   <th className="px-4 py-2 text-right">บวกกลับ</th>
+                               </tr>
+                           </thead>
+                           <tbody className="divide-y divide-slate-100 font-mono text-slate-600">
+                               {buildDepreciationSchedule(scheduleAsset).map(r => ({ ...r, tax: scheduleTax.find(t => t.period === r.period) })).map(r => (
+                                   <tr key={r.period} className={scheduleAsset.depreciated_through && r.period <= scheduleAsset.depreciated_through ? 'bg-emerald-50/50' : ''}>
+                                       <td className="px-4 py-1.5">{r.period}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.openingValue.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.depreciation.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.impairment ? r.impairment.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.accumulatedDepreciation.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.closingValue.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                       <td className="px-4 py-1.5 text-right">{(r.tax?.deductible || 0).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                       <td className="px-4 py-1.5 text-right">{r.tax?.addBack ? r.tax.addBack.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}</td>
+                                   </tr>
+                               ))}
+                           </tbody>
+                       </table>
+                   </div>
+               </div>
+           </div>
+       )}
+
        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
         <div>
            <h3 className="font-bold text-slate-800 text-lg flex items-center gap-2">
                <Building2 className="text-blue-600" size={20} />
                ทะเบียนทรัพย์สินถาวร (Fixed Asset Register)
            </h3>
-           <p className="text-sm text-slate-500">จัดการค่าเสื่อมราคาและสินทรัพย์ของกิจการ (Straight-Line Method)</p>
+           <p className="text-sm text-slate-500">ค่าเสื่อมราคา การด้อยค่า การโอนย้าย และการจำหน่ายสินทรัพย์</p>
         </div>
         <div className="flex gap-2">
+            <input type="month" value={period} onChange={e => { setPeriod(e.target.value); setPosted(null); }}
+                className="border border-slate-200 rounded-lg px-2 py-2 text-sm" />
             <button 
                 onClick={() => setShowAddModal(true)}
                 className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600"
@@ -212,7 +423,7 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
             </button>
             <button 
                 onClick={handlePostDepreciation}
-                disabled={posted}
+                disabled={!!posted || processing}
                 className={`flex items-center gap-2 px-4 py-2 text-white rounded-lg text-sm font-bold shadow-md transition-all ${posted ? 'bg-emerald-500 cursor-default' : 'bg-blue-600 hover:bg-blue-700'}`}
             >
                 {posted ? <CheckCircle2 size={16}/> : <Zap size={16} />} 
@@ -222,11 +433,15 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
       </div>
 
       <div className="p-6 overflow-auto">
+          {error && !action && (
+              <div className="mb-6 rounded-xl p-4 text-sm border bg-red-50 border-red-200 text-red-700">{error}</div>
+          )}
+
           {/* Summary Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
               <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
                   <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Total Assets Cost</p>
-                  <p className="text-2xl font-bold text-slate-800">{assets.reduce((sum, a) => sum + a.cost, 0).toLocaleString()} THB</p>
+                  <p className="text-2xl font-bold text-slate-800">{activeAssets.reduce((sum, a) => sum + a.cost, 0).toLocaleString()} THB</p>
               </div>
               <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
                    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Monthly Depreciation</p>
@@ -235,7 +450,7 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
               <div className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
                    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Net Book Value</p>
                   <p className="text-2xl font-bold text-emerald-600">
-                      {assets.reduce((sum, a) => sum + calculateNBV(a), 0).toLocaleString(undefined, {minimumFractionDigits: 2})} THB
+                      {activeAssets.reduce((sum, a) => sum + getNetBookValue(a), 0).toLocaleString(undefined, {minimumFractionDigits: 2})} THB
                   </p>
               </div>
           </div>
@@ -253,11 +468,12 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
                           <th className="px-6 py-4 text-right">Depre/Mo</th>
                           <th className="px-6 py-4 text-right">Accum. Depre</th>
                           <th className="px-6 py-4 text-right">NBV</th>
+                          <th className="px-6 py-4"></th>
                       </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
                       {assets.map(asset => (
-                          <tr key={asset.id} className="hover:bg-slate-50">
+                          <tr key={asset.id} className={`hover:bg-slate-50 ${asset.status === 'disposed' ? 'opacity-50' : ''}`}>
                               <td className="px-6 py-4 font-mono text-slate-500 text-xs">{asset.asset_code}</td>
                               <td className="px-6 py-4">
                                   <div className="flex items-center gap-3">
@@ -266,48 +482,111 @@ const FixedAssetRegister: React.FC<Props> = ({ assets, clientId, onAddAsset, onP
                                       </div>
                                       <div>
                                           <p className="font-semibold text-slate-700">{asset.name}</p>
-                                          <p className="text-[10px] text-slate-400">{asset.category}</p>
+                                          <p className="text-[10px] text-slate-400">
+                                              {asset.category} · {DEPRECIATION_METHOD_NAMES[asset.depreciation_method || 'straight_line']}
+                                              {asset.department_code && ` · ${asset.department_code}`}
+                                              {asset.status === 'disposed' && ` · จำหน่ายแล้ว ${asset.disposal_date}`}
+                                          </p>
                                       </div>
                                   </div>
                               </td>
                               <td className="px-6 py-4 text-slate-500 text-xs">{asset.acquisition_date}</td>
                               <td className="px-6 py-4 text-right font-mono text-slate-700">{asset.cost.toLocaleString()}</td>
                               <td className="px-6 py-4 text-center text-slate-600">{asset.useful_life_years}</td>
-                              <td className="px-6 py-4 text-right font-mono text-amber-600 font-semibold">{asset.current_month_depreciation.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
-                              <td className="px-6 py-4 text-right font-mono text-slate-500">{(asset.accumulated_depreciation_bf + asset.current_month_depreciation).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
-                              <td className="px-6 py-4 text-right font-mono text-emerald-600 font-bold">{calculateNBV(asset).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                              <td className="px-6 py-4 text-right font-mono text-amber-600 font-semibold">{scheduledFor(asset).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                              <td className="px-6 py-4 text-right font-mono text-slate-500">{(asset.accumulated_depreciation_bf + (asset.accumulated_impairment || 0)).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                              <td className="px-6 py-4 text-right font-mono text-emerald-600 font-bold">{(asset.status === 'disposed' ? 0 : getNetBookValue(asset)).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                              <td className="px-6 py-4 text-right whitespace-nowrap">
+                                  <button onClick={() => setScheduleAssetId(asset.id)} className="p-1 text-slate-400 hover:text-blue-600" title="ตารางค่าเสื่อมราคา"><CalendarRange size={16} /></button>
+                                  {asset.status !== 'disposed' && (
+                                      <>
+                                          {asset.depreciation_method === 'units_of_production' && (
+                                              <button onClick={() => openAction('units', asset)} className="p-1 text-slate-400 hover:text-blue-600" title="บันทึกจำนวนผลผลิต"><Calculator size={16} /></button>
+                                          )}
+                                          <button onClick={() => openAction('impair', asset)} className="p-1 text-slate-400 hover:text-amber-600" title="ด้อยค่า"><TrendingDown size={16} /></button>
+                                          <button onClick={() => openAction('transfer', asset)} className="p-1 text-slate-400 hover:text-blue-600" title="โอนย้าย"><ArrowRightLeft size={16} /></button>
+                                          <button onClick={() => openAction('dispose', asset)} className="p-1 text-slate-400 hover:text-red-600" title="จำหน่าย"><LogOut size={16} /></button>
+                                      </>
+                                  )}
+                              </td>
                           </tr>
                       ))}
                   </tbody>
               </table>
           </div>
 
+          {/* Book-Tax Differences */}
+          <div className="mt-8">
+              <button onClick={() => setShowTaxDifferences(!showTaxDifferences)} className="flex items-center gap-2 text-sm font-bold text-slate-700 hover:text-blue-600">
+                  <Calculator size={16} /> ผลต่างค่าเสื่อมราคาทางบัญชีและทางภาษี ปีบัญชี {fiscalYear}
+              </button>
+              {taxDifferences && (
+                  <div className="mt-4 border border-slate-200 rounded-xl overflow-hidden">
+                      <table className="w-full text-sm">
+                          <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                              <tr>
+                                  <th className="px-4 py-3 text-left">Asset</th>
+                                  <th className="px-4 py-3 text-right">ราคาทุนทางภาษี</th>
+                                  <th className="px-4 py-3 text-right">อัตรา %</th>
+                                  <th className="px-4 py-3 text-right">ค่าเสื่อม+ด้อยค่า (บัญชี)</th>
+                                  <th className="px-4 py-3 text-right">หักได้ทางภาษี</th>
+                                  <th className="px-4 py-3 text-right">ปรับปรุงจำหน่าย</th>
+                                  <th className="px-4 py-3 text-right">บวกกลับ (หักเพิ่ม)</th>
+                              </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100 font-mono text-slate-600">
+                              {taxDifferences.lines.length === 0 ? (
+                                  <tr><td colSpan={7} className="px-4 py-6 text-center text-slate-400 font-sans">ไม่มีรายการในปีบัญชีนี้</td></tr>
+                              ) : taxDifferences.lines.map(l => (
+                                  <tr key={l.assetId}>
+                                      <td className="px-4 py-2 font-sans"><span className="text-xs text-slate-400 mr-2">{l.assetCode}</span>{l.assetName}</td>
+                                      <td className="px-4 py-2 text-right">{l.taxBasis.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                      <td className="px-4 py-2 text-right">{l.taxRate.toFixed(2)}</td>
+                                      <td className="px-4 py-2 text-right">{(l.bookDepreciation + l.bookImpairment).toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                      <td className="px-4 py-2 text-right">{l.taxDeductible.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                      <td className="px-4 py-2 text-right">{l.disposalAdjustment ? l.disposalAdjustment.toLocaleString(undefined, {minimumFractionDigits: 2}) : '-'}</td>
+                                      <td className={`px-4 py-2 text-right font-bold ${l.addBack < 0 ? 'text-emerald-600' : 'text-amber-600'}`}>{l.addBack.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                  </tr>
+                              ))}
+                          </tbody>
+                          <tfoot className="bg-slate-50 font-bold text-slate-700 border-t border-slate-200 font-mono">
+                              <tr>
+                                  <td className="px-4 py-3 font-sans" colSpan={3}>รวม</td>
+                                  <td className="px-4 py-3 text-right">{taxDifferences.totalBookDepreciation.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                  <td className="px-4 py-3 text-right">{taxDifferences.totalTaxDeductible.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                                  <td className="px-4 py-3"></td>
+                                  <td className="px-4 py-3 text-right">{taxDifferences.totalAddBack.toLocaleString(undefined, {minimumFractionDigits: 2})}</td>
+                              </tr>
+                          </tfoot>
+                      </table>
+                  </div>
+              )}
+          </div>
+
           {/* Journal Preview */}
-          {processing || posted ? (
+          {posted ? (
               <div className="mt-8 animate-in slide-in-from-bottom-4">
                   <div className="flex items-center gap-2 mb-4 text-slate-700 font-bold">
                       <Calculator size={18} />
-                      {processing ? 'Generating Journal Entry...' : 'Automated Journal Entry (Generated)'}
+                      Automated Journal Entry (Generated) {posted.entries[0]?.doc_no}
                   </div>
-                  <div className={`p-6 rounded-xl border border-blue-200 bg-blue-50 relative overflow-hidden ${processing ? 'opacity-70' : ''}`}>
-                      {processing && (
-                          <div className="absolute inset-0 bg-white/50 z-10 flex items-center justify-center">
-                              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-                          </div>
-                      )}
+                  <div className="p-6 rounded-xl border border-blue-200 bg-blue-50 relative overflow-hidden">
                       <div className="space-y-2 font-mono text-sm">
-                          <div className="flex justify-between">
-                              <span className="text-blue-800">Dr. 52600 - ค่าเสื่อมราคา (Depreciation Expense)</span>
-                              <span className="font-bold">{totalDepre.toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
-                          </div>
-                           <div className="flex justify-between pl-8">
-                              <span className="text-slate-600">Cr. 12x01 - ค่าเสื่อมราคาสะสม (Accumulated Depreciation)</span>
-                              <span>{totalDepre.toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
-                          </div>
+                          {posted.entries.length === 0 && (
+                              <p className="text-slate-500">ไม่มีค่าเสื่อมราคาที่ต้องบันทึกในงวด {posted.period}</p>
+                          )}
+                          {posted.entries.map(e => (
+                              <div key={e.id} className={`flex justify-between ${e.credit ? 'pl-8' : ''}`}>
+                                  <span className={e.debit ? 'text-blue-800' : 'text-slate-600'}>
+                                      {e.debit ? 'Dr.' : 'Cr.'} {e.account_code} - {e.description}{e.department_code && ` [${e.department_code}]`}
+                                  </span>
+                                  <span className={e.debit ? 'font-bold' : ''}>{(e.debit || e.credit).toLocaleString(undefined, {minimumFractionDigits: 2})}</span>
+                              </div>
+                          ))}
                       </div>
-                      {posted && (
+                      {posted.entries.length > 0 && (
                            <div className="mt-4 pt-4 border-t border-blue-200 flex items-center gap-2 text-emerald-600 text-sm font-bold">
-                               <CheckCircle2 size={16} /> บันทึกบัญชีเรียบร้อยแล้ว (Posted to GL)
+                               <CheckCircle2 size={16} /> บันทึกบัญชีเรียบร้อยแล้ว {posted.total.toLocaleString(undefined, {minimumFractionDigits: 2})} THB (Posted to GL)
                            </div>
                       )}
                   </div>
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { PostedGLEntry, Client, DocumentRecord } from '../types';
+import { BookOpen, Download, Printer, X, FileText, Undo2 } from 'lucide-react';
+import { AccountRange, generateGeneralLedger } from '../services/financialStatements';
+import { getFiscalYearEndMonth, getFiscalYearOf, getFiscalYearRange } from '../services/fiscalYear';
+import { exportToExcel, exportToPDF, generateGeneralLedgerContent } from '../utils/pdfExport';
+
+interface Props {
+  client: Client;
+  entries: PostedGLEntry[];
+  accountRange: AccountRange;
+  documents: DocumentRecord[];
+  onClearRange: () => void;
+  onOpenDocument: (doc: DocumentRecord) => void;
+  onReverse: (docNo: string) => void;
+}
+
+const GeneralLedger: React.FC<Props> = ({ client, entries, accountRange, documents, onClearRange, onOpenDocument, onReverse }) => {
+  const [period, setPeriod] = useState(() => {
+      const latest = entries.reduce((max, e) => (e.date > max ? e.date : max), '') || new Date().toISOString().slice(0, 10);
+      const endMonth = getFiscalYearEndMonth(client);
+      return getFiscalYearRange(getFiscalYearOf(latest, endMonth), endMonth);
+  });
+
+  const report = useMemo(
+      () => generateGeneralLedger(entries, client.id, accountRange, period),
+      [entries, client.id, accountRange, period]
+  );
+  const documentsById = useMemo(() => new Map(documents.map(d => [d.id, d])), [documents]);
+
+  const rangeLabel = accountRange.from === accountRange.to ? accountRange.from : `${accountRange.from} - ${accountRange.to}`;
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(val);
+
+  const handleExportPDF = () => {
+      exportToPDF({
+          title: 'บัญชีแยกประเภท',
+          subtitle: `บัญชี ${rangeLabel} สำหรับงวด ${period.start} ถึง ${period.end}`,
+          date: period.end,
+          companyName: client.name,
+          taxId: client.tax_id,
+          content: generateGeneralLedgerContent(report.accounts.map(account => ({ ...account, code: account.accountCode, name: account.accountNameTh }))),
+      });
+  };
+
+  const handleExportExcel = () => {
+      const rows = report.accounts.flatMap(account => [
+          [account.accountCode, account.accountNameTh, period.start, '', 'ยอดยกมา', '', '', account.openingBalance],
+          ...account.lines.map(line => [account.accountCode, account.accountNameTh, line.date, line.docNo, line.description, line.debit, line.credit, line.balance]),
+          [account.accountCode, account.accountNameTh, period.end, '', 'ยอดยกไป', account.totalDebit, account.totalCredit, account.closingBalance],
+      ]);
+      exportToExcel(rows, `GL_${client.tax_id}_${rangeLabel}_${period.end}`, ['รหัสบัญชี', 'ชื่อบัญชี', 'วันที่', 'เลขที่เอกสาร', 'คำอธิบาย', 'เดบิต', 'เครดิต', 'คงเหลือ']);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in">
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+              <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                  <BookOpen className="text-blue-600" size={18} />
+                  บัญชีแยกประเภท (General Ledger)
+              </h3>
+              <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-full text-xs font-bold flex items-center gap-2">
+                  Account: {rangeLabel}
+                  <button onClick={onClearRange} className="hover:text-blue-900"><X size={14}/></button>
+              </span>
+          </div>
+          <div className="flex items-center gap-2">
+              <input
+                  type="date"
+                  value={period.start}
+                  onChange={e => e.target.value && setPeriod({ ...period, start: e.target.value })}
+                  className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+              />
+              <span className="text-slate-400">-</span>
+              <input
+                  type="date"
+                  value={period.end}
+                  onChange={e => e.target.value && setPeriod({ ...period, end: e.target.value })}
+                  className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+              />
+              <button
+                  onClick={handleExportExcel}
+                  className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600"
+              >
+                  <Download size={16} /> Excel
+              </button>
+              <button
+                  onClick={handleExportPDF}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-semibold hover:bg-blue-700 transition-colors shadow-md"
+              >
+                  <Printer size={16} /> Export PDF
+              </button>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+          {report.accounts.length === 0 && (
+              <p className="px-6 py-12 text-center text-slate-400">ไม่พบรายการสำหรับบัญชีนี้</p>
+          )}
+          {report.accounts.map(account => (
+              <table key={account.accountCode} className="w-full text-sm text-left mb-6">
+                  <thead className="bg-white text-slate-500 font-semibold border-b border-slate-100">
+                      <tr>
+                          <th colSpan={7} className="px-6 py-3 text-slate-800 font-bold">
+                              <span className="font-mono text-slate-500 mr-2">{account.accountCode}</span>
+                              {account.accountNameTh}
+                          </th>
+                      </tr>
+                      <tr>
+                          <th className="px-6 py-2 bg-slate-50">วันที่</th>
+                          <th className="px-6 py-2 bg-slate-50">เลขที่เอกสาร</th>
+                          <th className="px-6 py-2 bg-slate-50">คำอธิบาย</th>
+                          <th className="px-6 py-2 bg-slate-50 text-right">เดบิต</th>
+                          <th className="px-6 py-2 bg-slate-50 text-right">เครดิต</th>
+                          <th className="px-6 py-2 bg-slate-50 text-right text-blue-700 font-bold">คงเหลือ</th>
+                          <th className="px-6 py-2 bg-slate-50 w-12"></th>
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                      <tr className="bg-slate-50/50 text-slate-500">
+                          <td className="px-6 py-2.5">{period.start}</td>
+                          <td></td>
+                          <td className="px-6 py-2.5 font-medium">ยอดยกมา</td>
+                          <td></td>
+                          <td></td>
+                          <td className="px-6 py-2.5 text-right font-mono font-bold">{formatCurrency(account.openingBalance)}</td>
+                          <td></td>
+                      </tr>
+                      {account.lines.map(line => {
+                          const sourceDoc = line.sourceDocId ? documentsById.get(line.sourceDocId) : undefined;
+                          return (
+                              <tr key={line.id} className="hover:bg-slate-50">
+                                  <td className="px-6 py-2.5 text-slate-600">{line.date}</td>
+                                  <td className="px-6 py-2.5">
+                                      {sourceDoc ? (
+                                          <button
+                                              onClick={() => onOpenDocument(sourceDoc)}
+                                              title={`เปิดเอกสาร ${sourceDoc.filename}`}
+                                              className="font-medium text-blue-600 hover:underline flex items-center gap-1"
+                                          >
+                                              {line.docNo} <FileText size={12} />
+                                          </button>
+                                      ) : (
+                                          <span className="font-medium text-slate-700">{line.docNo}</span>
+                                      )}
+                                  </td>
+                                  <td className="px-6 py-2.5 text-slate-700">
+                                      {line.description}
+                                      {line.postedAccountCode !== account.accountCode && <span className="ml-2 text-[10px] text-white bg-slate-400 px-1 rounded">{line.postedAccountCode}</span>}
+                                      {line.reversalOf && <span className="ml-2 text-[10px] text-white bg-amber-500 px-1 rounded">กลับรายการ {line.reversalOf}</span>}
+                                      {line.reversedBy && <span className="ml-2 text-[10px] text-white bg-slate-400 px-1 rounded">ถูกกลับโดย {line.reversedBy}</span>}
+                                  </td>
+                                  <td className="px-6 py-2.5 text-right font-mono text-slate-600">{line.debit > 0 ? formatCurrency(line.debit) : '-'}</td>
+                                  <td className="px-6 py-2.5 text-right font-mono text-slate-600">{line.credit > 0 ? formatCurrency(line.credit) : '-'}</td>
+                                  <td className="px-6 py-2.5 text-right font-mono font-bold text-blue-700 bg-blue-50/20">{formatCurrency(line.balance)}</td>
+                                  <td className="px-6 py-2.5 text-right">
+                                      {!line.reversedBy && !line.reversalOf && (
+                                          <button
+                                              title="กลับรายการ (Reverse)"
+                                              onClick={() => onReverse(line.docNo)}
+                                              className="p-1 text-slate-300 hover:text-amber-600 hover:bg-amber-50 rounded transition-colors"
+                                          >
+                                              <Undo2 size={14} />
+                                          </button>
+                                      )}
+                                  </td>
+                              </tr>
+                          );
+                      })}
+                  </tbody>
+                  <tfoot className="bg-slate-100 font-bold text-slate-800 border-t-2 border-slate-200">
+                      <tr>
+                          <td colSpan={3} className="px-6 py-3 text-right text-xs">รวม / ยอดยกไป</td>
+                          <td className="px-6 py-3 text-right font-mono">{formatCurrency(account.totalDebit)}</td>
+                          <td className="px-6 py-3 text-right font-mono">{formatCurrency(account.totalCredit)}</td>
+                          <td className="px-6 py-3 text-right font-mono text-blue-700">{formatCurrency(account.closingBalance)}</td>
+                          <td></td>
+                      </tr>
+                  </tfoot>
+              </table>
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default GeneralLedger;
@@ -0,0 +1,401 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Client, DocumentRecord, InventoryCostingMethod, InventoryItem, InventorySystem, PostedGLEntry, StockMovement } from '../types';
+import { Package, Plus, Loader2, ShoppingCart, ClipboardCheck, Truck } from 'lucide-react';
+import { databaseService } from '../services/database';
+import { ecommercePlatforms } from '../services/ecommercePlatforms';
+import {
+  COSTING_METHOD_NAMES,
+  createItem,
+  getStockBalance,
+  INVENTORY_ACCOUNTS,
+  INVENTORY_SYSTEM_NAMES,
+  ItemInput,
+  postStockCount,
+  receiptsFromDocument,
+  recordReceipts,
+  recordSales,
+  salesFromPlatformOrders,
+} from '../services/inventory';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  documents: DocumentRecord[];
+  onPosted: (entries: PostedGLEntry[]) => void;
+}
+
+type Panel = 'item' | 'receipt' | 'sale' | 'count';
+
+const emptyItem = (): ItemInput => ({
+  sku: '',
+  name: '',
+  unit: 'ชิ้น',
+  costingMethod: 'fifo',
+  inventoryAccountCode: INVENTORY_ACCOUNTS.INVENTORY,
+  cogsAccountCode: INVENTORY_ACCOUNTS.COGS,
+});
+
+const MOVEMENT_LABELS: Record<StockMovement['type'], string> = {
+  opening: 'ยกมา',
+  purchase: 'รับเข้า',
+  sale: 'ขาย',
+  count_adjustment: 'ปรับปรุงตรวจนับ',
+};
+
+const InventoryManager: React.FC<Props> = ({ client, documents, onPosted }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [system, setSystem] = useState<InventorySystem>(client.inventory_system || 'perpetual');
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [itemForm, setItemForm] = useState<ItemInput>(emptyItem());
+  const [line, setLine] = useState({ itemId: '', date: new Date().toISOString().split('T')[0], quantity: 0, unitCost: 0, ref: '', docId: '' });
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      Promise.all([databaseService.getInventoryItems(client.id), databaseService.getStockMovements(client.id)])
+          .then(([loadedItems, loadedMovements]) => {
+              setItems(loadedItems);
+              setMovements(loadedMovements);
+          })
+          .catch(e => console.error('Failed to load inventory', e));
+  }, [client.id]);
+
+  const purchaseDocs = useMemo(
+      () => documents.filter(d => d.ai_data?.accounting_entry.journal_lines.some(l => l.account_side === 'DEBIT' && (l.account_code.startsWith('114') || l.account_code.startsWith('511')))),
+      [documents]
+  );
+
+  const periodEnd = `${period}-31`;
+  const balances = useMemo(
+      () => Object.fromEntries(items.map(i => [i.id, getStockBalance(i, movements, periodEnd)])),
+      [items, movements, periodEnd]
+  );
+  const totalValue = items.reduce((sum, i) => sum + balances[i.id].value, 0);
+  const periodMovements = movements.filter(m => m.date.startsWith(period));
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const run = async (action: () => Promise<void>) => {
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          await action();
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const openPanel = (next: Panel) => {
+      setPanel(panel === next ? null : next);
+      setMessage(null);
+      if (next === 'count') setCounts(Object.fromEntries(items.filter(i => i.isActive).map(i => [i.id, balances[i.id].quantity])));
+  };
+
+  const handleSystemChange = (next: InventorySystem) => run(async () => {
+      await databaseService.updateClient({ ...client, inventory_system: next });
+      setSystem(next);
+  });
+
+  const handleAddItem = () => run(async () => {
+      const item = await createItem(client.id, itemForm, userId);
+      setItems(prev => [...prev, item].sort((a, b) => a.sku.localeCompare(b.sku)));
+      setItemForm(emptyItem());
+      setPanel(null);
+      setMessage({ text: `เพิ่มสินค้า ${item.sku} แล้ว`, isError: false });
+  });
+
+  const handleReceive = () => run(async () => {
+      const doc = purchaseDocs.find(d => d.id === line.docId);
+      const receipts = doc
+          ? receiptsFromDocument(doc, [{ itemId: line.itemId, quantity: line.quantity, ...(line.unitCost > 0 && { amount: line.quantity * line.unitCost }) }])
+          : [{ itemId: line.itemId, date: line.date, quantity: line.quantity, unitCost: line.unitCost, ...(line.ref && { sourceRef: line.ref }) }];
+      const saved = await recordReceipts(client.id, receipts, userId);
+      setMovements(prev => [...prev, ...saved]);
+      setPanel(null);
+      setMessage({ text: `รับสินค้าเข้า ${saved.length} รายการ`, isError: false });
+  });
+
+  const applySales = (result: Awaited<ReturnType<typeof recordSales>>, note = '') => {
+      setMovements(prev => [...prev, ...result.movements]);
+      if (result.entries.length > 0) onPosted(result.entries);
+      setMessage(result.success
+          ? { text: `บันทึกขาย ${result.movements.length} รายการ${result.entries.length > 0 ? ' และลงต้นทุนขายแล้ว' : ''}${note}`, isError: false }
+          : { text: result.errors.join(', '), isError: true });
+  };
+
+  const handleManualSale = () => run(async () => {
+      const result = await recordSales(client.id, [{
+          itemId: line.itemId,
+          date: line.date,
+          quantity: line.quantity,
+          source: 'pos',
+          ...(line.ref && { sourceRef: line.ref }),
+      }], userId, system);
+      applySales(result);
+      if (result.success) setPanel(null);
+  });
+
+  const handleImportOrders = () => run(async () => {
+      const orders = ecommercePlatforms.getOrders({ dateFrom: `${period}-01`, dateTo: `${period}-31T23:59:59` });
+      const { sales, unmatchedSkus } = salesFromPlatformOrders(orders, items);
+      applySales(
+          await recordSales(client.id, sales, userId, system),
+          unmatchedSkus.length > 0 ? ` (ไม่พบ SKU: ${unmatchedSkus.join(', ')})` : ''
+      );
+  });
+
+  const handleCount = () => run(async () => {
+      const result = await postStockCount(client.id, period, counts, userId, system);
+      if (!result.success) {
+          setMessage({ text: result.errors.join(', '), isError: true });
+          return;
+      }
+      setMovements(prev => [...prev, ...result.movements]);
+      if (result.entries.length > 0) onPosted(result.entries);
+      setPanel(null);
+      setMessage({ text: `บันทึกการตรวจนับงวด ${period} แล้ว ปรับปรุง ${result.movements.length} รายการ`, isError: false });
+  });
+
+  const activeItems = items.filter(i => i.isActive);
+  const lineReady = !!line.itemId && line.quantity > 0;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <div>
+                <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                    <Package className="text-blue-600" size={20} />
+                    สินค้าคงเหลือ (Inventory)
+                </h3>
+                <p className="text-xs text-slate-500 mt-1">มูลค่าคงเหลือ ณ สิ้นงวด {period}: <span className="font-mono font-semibold text-slate-700">{formatCurrency(totalValue)}</span></p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select value={system} onChange={e => handleSystemChange(e.target.value as InventorySystem)} disabled={isWorking} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                    {(Object.keys(INVENTORY_SYSTEM_NAMES) as InventorySystem[]).map(s => <option key={s} value={s}>{INVENTORY_SYSTEM_NAMES[s]}</option>)}
+                </select>
+                <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                <button onClick={() => openPanel('item')} className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50">
+                    <Plus size={16} /> เพิ่มสินค้า
+                </button>
+                <button onClick={() => openPanel('receipt')} disabled={activeItems.length === 0} className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 disabled:opacity-50">
+                    <Truck size={16} /> รับสินค้า
+                </button>
+                <button onClick={() => openPanel('sale')} disabled={activeItems.length === 0} className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 disabled:opacity-50">
+                    <ShoppingCart size={16} /> บันทึกขาย
+                </button>
+                <button onClick={() => openPanel('count')} disabled={activeItems.length === 0} className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                    <ClipboardCheck size={16} /> ตรวจนับสิ้นเดือน
+                </button>
+            </div>
+        </div>
+
+        {message && (
+            <div className={`rounded-xl p-4 text-sm border ${message.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+                {message.text}
+            </div>
+        )}
+
+        {panel === 'item' && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 grid grid-cols-1 md:grid-cols-6 gap-3 text-sm">
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">SKU</span>
+                    <input value={itemForm.sku} onChange={e => setItemForm({ ...itemForm, sku: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                </label>
+                <label className="flex flex-col gap-1 md:col-span-2">
+                    <span className="text-xs text-slate-500">ชื่อสินค้า</span>
+                    <input value={itemForm.name} onChange={e => setItemForm({ ...itemForm, name: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">หน่วย</span>
+                    <input value={itemForm.unit} onChange={e => setItemForm({ ...itemForm, unit: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                </label>
+                <label className="flex flex-col gap-1 md:col-span-2">
+                    <span className="text-xs text-slate-500">วิธีคำนวณต้นทุน</span>
+                    <select value={itemForm.costingMethod} onChange={e => setItemForm({ ...itemForm, costingMethod: e.target.value as InventoryCostingMethod })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                        {(Object.keys(COSTING_METHOD_NAMES) as InventoryCostingMethod[]).map(m => <option key={m} value={m}>{COSTING_METHOD_NAMES[m]}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">บัญชีสินค้าคงเหลือ</span>
+                    <input value={itemForm.inventoryAccountCode} onChange={e => setItemForm({ ...itemForm, inventoryAccountCode: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">บัญชีต้นทุนขาย</span>
+                    <input value={itemForm.cogsAccountCode} onChange={e => setItemForm({ ...itemForm, cogsAccountCode: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono" />
+                </label>
+                <div className="md:col-span-4 flex justify-end items-end gap-2">
+                    <button onClick={() => setPanel(null)} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                    <button onClick={handleAddItem} disabled={isWorking} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">เพิ่มสินค้า</button>
+                </div>
+            </div>
+        )}
+
+        {(panel === 'receipt' || panel === 'sale') && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 grid grid-cols-1 md:grid-cols-6 gap-3 text-sm">
+                <label className="flex flex-col gap-1 md:col-span-2">
+                    <span className="text-xs text-slate-500">สินค้า</span>
+                    <select value={line.itemId} onChange={e => setLine({ ...line, itemId: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                        <option value="">-- เลือกสินค้า --</option>
+                        {activeItems.map(i => <option key={i.id} value={i.id}>{i.sku} - {i.name}</option>)}
+                    </select>
+                </label>
+                {panel === 'receipt' && (
+                    <label className="flex flex-col gap-1 md:col-span-2">
+                        <span className="text-xs text-slate-500">จากเอกสารซื้อ (ไม่บังคับ)</span>
+                        <select value={line.docId} onChange={e => setLine({ ...line, docId: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                            <option value="">-- ระบุเอง --</option>
+                            {purchaseDocs.map(d => <option key={d.id} value={d.id}>{d.ai_data?.header_data.inv_number || d.filename} · {d.client_name}</option>)}
+                        </select>
+                    </label>
+                )}
+                {!(panel === 'receipt' && line.docId) && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">วันที่</span>
+                        <input type="date" value={line.date} onChange={e => setLine({ ...line, date: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                )}
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-slate-500">จำนวน</span>
+                    <input type="number" value={line.quantity || ''} onChange={e => setLine({ ...line, quantity: Number(e.target.value) })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                </label>
+                {panel === 'receipt' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">{line.docId ? 'ต้นทุน/หน่วย (ว่าง = ตามเอกสาร)' : 'ต้นทุน/หน่วย'}</span>
+                        <input type="number" value={line.unitCost || ''} onChange={e => setLine({ ...line, unitCost: Number(e.target.value) })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                    </label>
+                )}
+                {!(panel === 'receipt' && line.docId) && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">เลขที่อ้างอิง</span>
+                        <input value={line.ref} onChange={e => setLine({ ...line, ref: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                )}
+                <div className="md:col-span-6 flex flex-wrap justify-end gap-2">
+                    {panel === 'sale' && (
+                        <button onClick={handleImportOrders} disabled={isWorking} className="px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50 disabled:opacity-50 mr-auto">
+                            ดึงคำสั่งซื้อจากแพลตฟอร์มงวด {period}
+                        </button>
+                    )}
+                    <button onClick={() => setPanel(null)} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                    <button
+                        onClick={panel === 'receipt' ? handleReceive : handleManualSale}
+                        disabled={isWorking || !lineReady}
+                        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        {panel === 'receipt' ? 'รับสินค้าเข้า' : 'บันทึกขาย (POS)'}
+                    </button>
+                </div>
+            </div>
+        )}
+
+        {panel === 'count' && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden text-sm">
+                <div className="px-4 py-3 border-b border-slate-100 text-slate-600">
+                    ตรวจนับสินค้า ณ สิ้นงวด {period} · {system === 'perpetual'
+                        ? 'ผลต่างจากยอดตามบัญชีจะบันทึกเป็นสินค้าขาด/เกินในต้นทุนขาย'
+                        : 'ปรับบัญชีสินค้าคงเหลือให้เท่ามูลค่าที่ตรวจนับ ผลต่างเข้าต้นทุนขาย'}
+                </div>
+                <table className="w-full">
+                    <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                        <tr>
+                            <th className="px-4 py-2 text-left">สินค้า</th>
+                            <th className="px-4 py-2 text-right">ตามบัญชี</th>
+                            <th className="px-4 py-2 text-right">ตรวจนับได้</th>
+                            <th className="px-4 py-2 text-right">ผลต่าง</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 text-slate-600">
+                        {activeItems.map(i => (
+                            <tr key={i.id}>
+                                <td className="px-4 py-2"><span className="font-mono text-xs text-slate-400 mr-2">{i.sku}</span>{i.name}</td>
+                                <td className="px-4 py-2 text-right font-mono">{balances[i.id].quantity}</td>
+                                <td className="px-4 py-2 text-right">
+                                    <input type="number" value={counts[i.id] ?? ''} onChange={e => setCounts({ ...counts, [i.id]: Number(e.target.value) })} className="w-24 border border-slate-200 rounded px-2 py-1 text-right" />
+                                </td>
+                                <td className={`px-4 py-2 text-right font-mono ${(counts[i.id] ?? 0) - balances[i.id].quantity < 0 ? 'text-red-600' : ''}`}>
+                                    {(counts[i.id] ?? 0) - balances[i.id].quantity}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="px-4 py-3 flex justify-end gap-2 border-t border-slate-100">
+                    <button onClick={() => setPanel(null)} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                    <button onClick={handleCount} disabled={isWorking} className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                        {isWorking && <Loader2 size={16} className="animate-spin" />} บันทึกการตรวจนับ
+                    </button>
+                </div>
+            </div>
+        )}
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                    <tr>
+                        <th className="px-4 py-3 text-left">สินค้า</th>
+                        <th className="px-4 py-3 text-left">วิธีคำนวณต้นทุน</th>
+                        <th className="px-4 py-3 text-right">คงเหลือ</th>
+                        <th className="px-4 py-3 text-right">ต้นทุนเฉลี่ย</th>
+                        <th className="px-4 py-3 text-right">มูลค่า</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                    {items.length === 0 ? (
+                        <tr><td colSpan={5} className="px-4 py-8 text-center text-slate-400">ยังไม่มีรายการสินค้า</td></tr>
+                    ) : items.map(i => (
+                        <tr key={i.id} className={i.isActive ? '' : 'opacity-50'}>
+                            <td className="px-4 py-2.5">
+                                <p className="text-slate-800"><span className="font-mono text-xs text-slate-400 mr-2">{i.sku}</span>{i.name}</p>
+                                <p className="text-xs text-slate-400">{i.inventoryAccountCode} / {i.cogsAccountCode}</p>
+                            </td>
+                            <td className="px-4 py-2.5">{COSTING_METHOD_NAMES[i.costingMethod]}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">{balances[i.id].quantity} {i.unit}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(balances[i.id].unitCost)}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(balances[i.id].value)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-4 py-3 border-b border-slate-100 font-semibold text-slate-700 text-sm">ความเคลื่อนไหวงวด {period}</div>
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                    <tr>
+                        <th className="px-4 py-2 text-left">วันที่</th>
+                        <th className="px-4 py-2 text-left">สินค้า</th>
+                        <th className="px-4 py-2 text-left">ประเภท</th>
+                        <th className="px-4 py-2 text-left">อ้างอิง</th>
+                        <th className="px-4 py-2 text-right">จำนวน</th>
+                        <th className="px-4 py-2 text-right">ต้นทุน</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                    {periodMovements.length === 0 ? (
+                        <tr><td colSpan={6} className="px-4 py-6 text-center text-slate-400">ไม่มีความเคลื่อนไหว</td></tr>
+                    ) : periodMovements.map(m => (
+                        <tr key={m.id}>
+                            <td className="px-4 py-2">{m.date}</td>
+                            <td className="px-4 py-2 font-mono text-xs">{items.find(i => i.id === m.itemId)?.sku || m.itemId}</td>
+                            <td className="px-4 py-2">{MOVEMENT_LABELS[m.type]}</td>
+                            <td className="px-4 py-2 text-xs text-slate-400">{[m.sourceRef, m.doc_no].filter(Boolean).join(' · ') || '-'}</td>
+                            <td className={`px-4 py-2 text-right font-mono ${m.quantity < 0 ? 'text-red-600' : 'text-emerald-600'}`}>{m.quantity}</td>
+                            <td className="px-4 py-2 text-right font-mono">{formatCurrency(m.totalCost)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
+
+export default InventoryManager;
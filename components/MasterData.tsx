@@ -2,9 +2,11 @@ import React, { useState, useMemo } from 'react';
 import {
   Building2, Plus, Search, Edit2, Trash2, Save, X, Users, CheckCircle,
   AlertTriangle, FileText, Phone, Mail, MapPin, CreditCard, ChevronDown,
-  ChevronUp, Shield, DollarSign, UserCheck, Clock, Filter, Download
+  ChevronUp, Shield, DollarSign, UserCheck, Clock, Filter, Download, Upload, RefreshCw
 } from 'lucide-react';
-import { Client } from '../types';
+import { Client, ExchangeRate } from '../types';
+import { databaseService } from '../services/database';
+import { importExchangeRates } from '../services/foreignExchange';
 
 interface Props {
   clients: Client[];
@@ -175,7 +177,7 @@ const generateMockAuthorities = (clientId: string): ApprovalAuthority[] => [
 
 const MasterData: React.FC<Props> = ({ clients }) => {
   // State
-  const [activeTab, setActiveTab] = useState<'vendors' | 'authorities'>('vendors');
+  const [activeTab, setActiveTab] = useState<'vendors' | 'authorities' | 'exchangeRates'>('vendors');
   const [selectedClientId, setSelectedClientId] = useState<string>(clients[0]?.id || '');
   const [vendors, setVendors] = useState<Vendor[]>([]);
   const [authorities, setAuthorities] = useState<ApprovalAuthority[]>([]);
@@ -185,6 +187,21 @@ const MasterData: React.FC<Props> = ({ clients }) => {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterType, setFilterType] = useState<string>('all');
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [rateCurrency, setRateCurrency] = useState('USD');
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [rateImportErrors, setRateImportErrors] = useState<string[]>([]);
+  const [isImportingRates, setIsImportingRates] = useState(false);
+
+  // Exchange rates are shared by all clients
+  const loadExchangeRates = React.useCallback(async () => {
+    setExchangeRates(await databaseService.getExchangeRates(rateCurrency));
+  }, [rateCurrency]);
+
+  React.useEffect(() => {
+    if (activeTab === 'exchangeRates') {
+      loadExchangeRates();
+    }
+  }, [activeTab, loadExchangeRates]);
 
   // Load mock data
   React.useEffect(() => {
@@ -273,6 +290,29 @@ const MasterData: React.FC<Props> = ({ clients }) => {
     }
   };
 
+  // Exchange Rate Actions
+  const handleImportRates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImportingRates(true);
+    try {
+      const result = await importExchangeRates(await file.text(), 'BOT');
+      setRateImportErrors(result.errors);
+      await loadExchangeRates();
+      showNotification(
+        `นำเข้าอัตราแลกเปลี่ยน ${result.rates.length} รายการ`,
+        result.rates.length > 0 ? 'success' : 'error'
+      );
+    } catch (error) {
+      console.error('Exchange rate import failed:', error);
+      showNotification('นำเข้าอัตราแลกเปลี่ยนไม่สำเร็จ', 'error');
+    } finally {
+      setIsImportingRates(false);
+    }
+  };
+
   const formatCurrency = (amount: number): string => {
     return amount.toLocaleString('th-TH', { minimumFractionDigits: 0 });
   };
@@ -315,7 +355,7 @@ const MasterData: React.FC<Props> = ({ clients }) => {
             <Building2 className="text-blue-600" />
             Master Data Management
           </h2>
-          <p className="text-slate-500 mt-1">จัดการข้อมูลหลัก - ทะเบียนผู้ขาย และตารางอำนาจอนุมัติ</p>
+          <p className="text-slate-500 mt-1">จัดการข้อมูลหลัก - ทะเบียนผู้ขาย ตารางอำนาจอนุมัติ และอัตราแลกเปลี่ยน</p>
         </div>
 
         {/* Client Selector */}
@@ -338,6 +378,7 @@ const MasterData: React.FC<Props> = ({ clients }) => {
         {[
           { id: 'vendors', label: 'ทะเบียนผู้ขาย', icon: Building2 },
           { id: 'authorities', label: 'ตารางอำนาจอนุมัติ', icon: Shield },
+          { id: 'exchangeRates', label: 'อัตราแลกเปลี่ยน', icon: DollarSign },
         ].map(tab => (
           <button
             key={tab.id}
@@ -679,6 +720,85 @@ const MasterData: React.FC<Props> = ({ clients }) => {
         </div>
       )}
 
+      {/* Exchange Rates Tab */}
+      {activeTab === 'exchangeRates' && (
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <div className="flex items-center gap-3">
+              <select
+                value={rateCurrency}
+                onChange={(e) => setRateCurrency(e.target.value)}
+                className="border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'SGD', 'HKD', 'MYR'].map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+              <button
+                onClick={loadExchangeRates}
+                className="p-2 text-slate-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                title="โหลดใหม่"
+              >
+                <RefreshCw size={18} />
+              </button>
+            </div>
+            <label className={`flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 cursor-pointer ${
+              isImportingRates ? 'opacity-50 pointer-events-none' : ''
+            }`}>
+              <Upload size={18} />
+              {isImportingRates ? 'กำลังนำเข้า...' : 'นำเข้า CSV (ธปท.)'}
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportRates} />
+            </label>
+          </div>
+
+          {rateImportErrors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 text-sm text-amber-800">
+              <div className="font-semibold flex items-center gap-2 mb-1">
+                <AlertTriangle size={16} /> ข้ามแถวที่ไม่ถูกต้อง {rateImportErrors.length} แถว
+              </div>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {rateImportErrors.slice(0, 10).map((err, i) => <li key={i}>{err}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-slate-600">วันที่</th>
+                  <th className="px-4 py-3 text-right font-semibold text-slate-600">อัตราซื้อ (โอน)</th>
+                  <th className="px-4 py-3 text-right font-semibold text-slate-600">อัตราขาย</th>
+                  <th className="px-4 py-3 text-right font-semibold text-slate-600">อัตรากลาง</th>
+                  <th className="px-4 py-3 text-center font-semibold text-slate-600">แหล่งที่มา</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {exchangeRates.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-slate-400">
+                      ยังไม่มีอัตราแลกเปลี่ยน {rateCurrency}
+                    </td>
+                  </tr>
+                ) : exchangeRates.map(rate => (
+                  <tr key={rate.id} className="hover:bg-slate-50">
+                    <td className="px-4 py-3 font-mono text-slate-700">{rate.date}</td>
+                    <td className="px-4 py-3 text-right font-mono">{rate.buying.toFixed(4)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{rate.selling.toFixed(4)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{rate.mid.toFixed(4)}</td>
+                    <td className="px-4 py-3 text-center">
+                      <span className="inline-flex px-2 py-1 rounded-full text-xs font-medium bg-slate-100 text-slate-600">
+                        {rate.source === 'BOT' ? 'ธปท.' : 'บันทึกเอง'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Modal */}
       {showModal && (
         activeTab === 'vendors' ? (
@@ -10,10 +10,12 @@ import {
   formatThaiCurrency, PIT_BRACKETS, TAX_DEDUCTIONS, SSO_RATES
 } from '../services/payroll';
 import { PostedGLEntry, Client } from '../types';
+import { databaseService } from '../services/database';
+import { EFilingHeader, generateEFilingPackage, getBuddhistYear } from '../services/taxEfiling';
 
 interface Props {
   clients: Client[];
-  onPostJournal: (entries: PostedGLEntry[]) => Promise<void>;
+  onPostJournal: (entries: PostedGLEntry[]) => Promise<boolean>;
 }
 
 // Mock data for demo
@@ -105,18 +107,26 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
   const [expandedPayslip, setExpandedPayslip] = useState<string | null>(null);
   const [salaryData, setSalaryData] = useState<Record<string, SalaryStructure>>({});
 
-  // Load mock data
+  // Load saved employees and payslips, falling back to mock employees for demo
   useEffect(() => {
     if (selectedClientId) {
-      const mockEmps = generateMockEmployees(selectedClientId);
-      setEmployees(mockEmps);
-
-      // Generate salary data
-      const salaries: Record<string, SalaryStructure> = {};
-      mockEmps.forEach(emp => {
-        salaries[emp.id] = generateMockSalary(emp.employeeCode);
-      });
-      setSalaryData(salaries);
+      Promise.all([
+        databaseService.getEmployeesByClient(selectedClientId),
+        databaseService.getPaySlipsByClient(selectedClientId),
+      ])
+        .then(([savedEmps, savedPayslips]) => {
+          const emps = savedEmps.length > 0 ? savedEmps : generateMockEmployees(selectedClientId);
+          setEmployees(emps);
+          setPayslips(savedPayslips);
+
+          // Generate salary data
+          const salaries: Record<string, SalaryStructure> = {};
+          emps.forEach(emp => {
+            salaries[emp.id] = generateMockSalary(emp.employeeCode);
+          });
+          setSalaryData(salaries);
+        })
+        .catch(e => console.error('Failed to load payroll', e));
     }
   }, [selectedClientId]);
 
@@ -210,6 +220,7 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
         newPayslips.push(payslip);
       }
 
+      await databaseService.savePaySlips(newPayslips);
       setPayslips(prev => [...prev, ...newPayslips]);
       showNotification(`ประมวลผลเงินเดือน ${newPayslips.length} คน สำเร็จ`, 'success');
       setActiveTab('payslips');
@@ -374,15 +385,14 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
         });
       }
 
-      // Post to GL
-      await onPostJournal(glEntries);
+      // Post to GL; payslips stay draft when the voucher is rejected
+      if (!await onPostJournal(glEntries)) return;
 
       // Update payslip status
-      setPayslips(prev => prev.map(ps =>
-        draftPayslips.some(d => d.id === ps.id)
-          ? { ...ps, status: 'approved', approvedAt: new Date().toISOString() }
-          : ps
-      ));
+      const approvedAt = new Date().toISOString();
+      const approvedPayslips: PaySlip[] = draftPayslips.map(ps => ({ ...ps, status: 'approved', approvedAt }));
+      await databaseService.savePaySlips(approvedPayslips);
+      setPayslips(prev => prev.map(ps => approvedPayslips.find(a => a.id === ps.id) || ps));
 
       showNotification(`อนุมัติและบันทึกบัญชี ${draftPayslips.length} รายการสำเร็จ`, 'success');
     } catch (error) {
@@ -394,19 +404,25 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
   };
 
   // Add/Edit employee
-  const handleSaveEmployee = (employee: Employee) => {
-    if (editingEmployee) {
-      setEmployees(prev => prev.map(e => e.id === employee.id ? employee : e));
-    } else {
-      const newEmployee = {
-        ...employee,
-        id: `EMP-${Date.now()}`,
-        clientId: selectedClientId,
-      };
-      setEmployees(prev => [...prev, newEmployee]);
+  const handleSaveEmployee = async (employee: Employee) => {
+    const updated = editingEmployee
+      ? employees.map(e => e.id === employee.id ? employee : e)
+      : [...employees, { ...employee, id: `EMP-${Date.now()}`, clientId: selectedClientId }];
+
+    try {
+      // Saves the whole list so mock employees become real records on first edit
+      await databaseService.saveEmployees(updated);
+    } catch (error) {
+      console.error('Save employee error:', error);
+      showNotification('เกิดข้อผิดพลาดในการบันทึกข้อมูลพนักงาน', 'error');
+      return;
+    }
+
+    setEmployees(updated);
+    if (!editingEmployee) {
       setSalaryData(prev => ({
         ...prev,
-        [newEmployee.id]: { baseSalary: 25000 }
+        [updated[updated.length - 1].id]: { baseSalary: 25000 }
       }));
     }
     setShowEmployeeModal(false);
@@ -414,6 +430,42 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
     showNotification('บันทึกข้อมูลพนักงานสำเร็จ', 'success');
   };
 
+  // Generate PND1 upload file from the period's approved payslips
+  const handleFilePND1 = () => {
+    const client = clients.find(c => c.id === selectedClientId);
+    if (!client) return;
+
+    const header: EFilingHeader = {
+      taxId: client.tax_id,
+      branchNo: '00000',
+      companyName: client.name,
+      address: client.address || '',
+      taxMonth: String(selectedMonth).padStart(2, '0'),
+      taxYear: getBuddhistYear(selectedYear),
+      formType: 'PND1',
+      totalRecords: 0,
+      totalAmount: 0,
+      totalTax: 0,
+    };
+
+    const result = generateEFilingPackage('PND1', header, [], { payslips, employees });
+    if (!result.success) {
+      showNotification(result.validationErrors.join(', '), 'error');
+      return;
+    }
+
+    const blob = new Blob([result.xmlContent], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = result.filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    showNotification(`สร้างไฟล์ ภ.ง.ด.1 ${result.summary.totalRecords} รายการสำเร็จ`, 'success');
+  };
+
   // Delete employee
   const handleDeleteEmployee = (empId: string) => {
     if (window.confirm('ต้องการลบพนักงานนี้ใช่หรือไม่?')) {
@@ -629,6 +681,15 @@ const PayrollManagement: React.FC<Props> = ({ clients, onPostJournal }) => {
                   อนุมัติและบันทึกบัญชี
                 </button>
               )}
+              {filteredPayslips.some(ps => ps.status !== 'draft') && (
+                <button
+                  onClick={handleFilePND1}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+                >
+                  <Send size={18} />
+                  ยื่น ภ.ง.ด.1
+                </button>
+              )}
               <button className="flex items-center gap-2 px-4 py-2 border border-slate-200 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-50 transition-colors">
                 <Download size={18} />
                 Export Excel
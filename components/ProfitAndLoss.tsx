@@ -1,14 +1,30 @@
-import React, { useMemo } from 'react';
-import { PostedGLEntry } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Client, PostedGLEntry } from '../types';
 import { ArrowDown, ArrowUp, Download, PieChart, TrendingUp, TrendingDown, ChevronRight } from 'lucide-react';
+import { ComparisonBasis, generateIncomeTrend, getComparativePeriod } from '../services/financialStatements';
+import { isClosingEntry } from '../services/periodClosing';
+import { getFiscalYearEndMonth } from '../services/fiscalYear';
+import { exportToPDF, generatePnLContent } from '../utils/pdfExport';
 
 interface Props {
+  client: Client;
   entries: PostedGLEntry[];
   onDrillDown: (accountCode: string) => void;
 }
 
-const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
-  const plData = useMemo(() => {
+type ViewMode = 'all' | ComparisonBasis | 'trend';
+
+interface BreakdownItem {
+  code: string;
+  name: string;
+  amount: number;
+}
+
+interface ComparativeItem extends BreakdownItem {
+  previousAmount: number;
+}
+
+const summarize = (entries: PostedGLEntry[]) => {
     // Helper to sum by prefix
     const sumByPrefix = (prefix: string) => {
         return entries
@@ -32,7 +48,7 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
     const netProfit = grossProfit - totalOperatingExpense;
 
     // Get breakdown for details
-    const getAccountBreakdown = (prefix: string) => {
+    const getAccountBreakdown = (prefix: string): BreakdownItem[] => {
         const accounts: {[code: string]: {name: string, amount: number}} = {};
         entries.filter(e => e.account_code.startsWith(prefix)).forEach(e => {
             if (!accounts[e.account_code]) accounts[e.account_code] = { name: e.account_name, amount: 0 };
@@ -57,9 +73,112 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
         netProfit,
         netProfitMargin: revenue ? (netProfit / revenue) * 100 : 0,
     };
-  }, [entries]);
+};
+
+// Current breakdown with prior amounts; accounts used only in the prior period are appended
+const withPrior = (current: BreakdownItem[], prior?: BreakdownItem[]): ComparativeItem[] => [
+    ...current.map(item => ({ ...item, previousAmount: prior?.find(p => p.code === item.code)?.amount || 0 })),
+    ...(prior || []).filter(p => !current.some(c => c.code === p.code)).map(p => ({ ...p, amount: 0, previousAmount: p.amount })),
+];
+
+const getMonthEnd = (month: string) => {
+    const [year, m] = month.split('-').map(Number);
+    return `${month}-${String(new Date(year, m, 0).getDate()).padStart(2, '0')}`;
+};
+
+const ProfitAndLoss: React.FC<Props> = ({ client, entries, onDrillDown }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('all');
+  const [periodMonth, setPeriodMonth] = useState(() =>
+      entries.reduce((latest, e) => (e.date > latest ? e.date : latest), '').slice(0, 7) || new Date().toISOString().slice(0, 7)
+  );
+
+  // Closing vouchers zero the P&L into retained earnings; leave them out of the statement
+  const operatingEntries = useMemo(() => entries.filter(e => !isClosingEntry(e)), [entries]);
+  const periodEnd = getMonthEnd(periodMonth);
+  const period = viewMode === 'prior_month' || viewMode === 'prior_ytd' ? getComparativePeriod(viewMode, periodEnd, getFiscalYearEndMonth(client)) : null;
+
+  const plData = useMemo(() => summarize(
+      period ? operatingEntries.filter(e => e.date >= period.periodStart && e.date <= period.periodEnd) : operatingEntries
+  ), [operatingEntries, period?.periodStart, period?.periodEnd]);
+
+  const priorData = useMemo(() => period
+      ? summarize(operatingEntries.filter(e => e.date >= period.priorStart && e.date <= period.priorEnd))
+      : null,
+  [operatingEntries, period?.priorStart, period?.priorEnd]);
+
+  const trend = useMemo(
+      () => viewMode === 'trend' ? generateIncomeTrend(entries, client, periodEnd) : [],
+      [viewMode, entries, client, periodEnd]
+  );
 
   const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(val);
+  const formatAmount = (val: number, negative: boolean) => negative ? `(${formatCurrency(val)})` : formatCurrency(val);
+
+  const columnLabels: [string, string] | undefined = period ? [
+      `${period.periodStart} - ${period.periodEnd}`,
+      `${period.priorStart} - ${period.priorEnd}`,
+  ] : undefined;
+
+  const handleExportPDF = () => {
+      const expenses = withPrior(plData.adminBreakdown, priorData?.adminBreakdown).map(item => ({
+          name: item.name,
+          amount: item.amount,
+          previousAmount: item.previousAmount,
+      }));
+      exportToPDF({
+          title: 'งบกำไรขาดทุน',
+          subtitle: period ? `สำหรับงวด ${period.periodStart} ถึง ${period.periodEnd}` : undefined,
+          date: period ? period.periodEnd : new Date().toISOString().split('T')[0],
+          companyName: client.name,
+          taxId: client.tax_id,
+          content: generatePnLContent({
+              revenue: plData.revenue,
+              costOfSales: plData.costOfServices,
+              grossProfit: plData.grossProfit,
+              expenses,
+              netProfit: plData.netProfit,
+              columns: columnLabels,
+              previous: priorData ? {
+                  revenue: priorData.revenue,
+                  costOfSales: priorData.costOfServices,
+                  grossProfit: priorData.grossProfit,
+                  netProfit: priorData.netProfit,
+              } : undefined,
+          }),
+      });
+  };
+
+  // Amount column(s) for a statement row: current, plus prior when comparing
+  const renderAmounts = (amount: number, previous: number | undefined, negative = false, className = 'font-mono text-slate-800') => (
+      <span className="flex gap-6">
+          <span className={`${className} w-36 text-right`}>{formatAmount(amount, negative)}</span>
+          {priorData && <span className="font-mono text-slate-400 w-36 text-right">{formatAmount(previous || 0, negative)}</span>}
+      </span>
+  );
+
+  const renderBreakdown = (current: BreakdownItem[], prior: BreakdownItem[] | undefined, negative: boolean, emptyText: string) => {
+      const items = withPrior(current, prior);
+      return (
+          <div className="divide-y divide-slate-50">
+              {items.map(item => (
+                  <div 
+                      key={item.code} 
+                      onClick={() => onDrillDown(item.code)}
+                      className="px-6 py-3 bg-white hover:bg-blue-50 cursor-pointer flex justify-between items-center text-sm group transition-colors"
+                  >
+                      <span className="text-slate-600 group-hover:text-blue-600 flex items-center gap-2">
+                          <span className="font-mono text-xs text-slate-400 bg-slate-100 px-1 rounded">{item.code}</span>
+                          {item.name}
+                      </span>
+                      {renderAmounts(item.amount, item.previousAmount, negative)}
+                  </div>
+              ))}
+              {items.length === 0 && <div className="px-6 py-4 text-center text-slate-400 text-sm italic">{emptyText}</div>}
+          </div>
+      );
+  };
+
+  const change = priorData ? plData.netProfit - priorData.netProfit : 0;
 
   return (
     <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden flex flex-col h-full animate-in fade-in duration-500">
@@ -71,14 +190,73 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
            </h3>
            <p className="text-sm text-slate-500">ผลการดำเนินงานประจำงวด (Operational Performance)</p>
         </div>
-        <div className="flex gap-2">
-            <button className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600">
+        <div className="flex gap-2 items-center">
+            <select
+                value={viewMode}
+                onChange={e => setViewMode(e.target.value as ViewMode)}
+                className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+            >
+                <option value="all">ทั้งหมด (All Periods)</option>
+                <option value="prior_month">เดือนนี้ vs เดือนก่อน</option>
+                <option value="prior_ytd">สะสมต้นปี vs ปีก่อน (YTD)</option>
+                <option value="trend">แนวโน้ม 12 เดือน</option>
+            </select>
+            {viewMode !== 'all' && (
+                <input
+                    type="month"
+                    value={periodMonth}
+                    onChange={e => e.target.value && setPeriodMonth(e.target.value)}
+                    className="px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm text-slate-600"
+                />
+            )}
+            <button
+                onClick={handleExportPDF}
+                disabled={viewMode === 'trend'}
+                className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-lg text-sm font-semibold hover:bg-slate-100 transition-colors shadow-sm text-slate-600 disabled:opacity-50"
+            >
                 <Download size={16} /> PDF
             </button>
         </div>
       </div>
 
       <div className="flex-1 overflow-auto p-8">
+         {viewMode === 'trend' ? (
+         <div className="max-w-5xl mx-auto border border-slate-200 rounded-xl overflow-hidden">
+             <table className="w-full text-sm">
+                 <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                     <tr>
+                         <th className="px-4 py-3 text-left">เดือน</th>
+                         <th className="px-4 py-3 text-right">รายได้</th>
+                         <th className="px-4 py-3 text-right">ต้นทุนขาย</th>
+                         <th className="px-4 py-3 text-right">กำไรขั้นต้น</th>
+                         <th className="px-4 py-3 text-right">ค่าใช้จ่ายดำเนินงาน</th>
+                         <th className="px-4 py-3 text-right">กำไรก่อนภาษี</th>
+                     </tr>
+                 </thead>
+                 <tbody className="divide-y divide-slate-100">
+                     {trend.map((point, i) => {
+                         const previous = trend[i - 1];
+                         const up = previous && point.profitBeforeTax >= previous.profitBeforeTax;
+                         return (
+                             <tr key={point.period} className="hover:bg-slate-50">
+                                 <td className="px-4 py-2.5 font-mono text-slate-600">{point.period}</td>
+                                 <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(point.revenue)}</td>
+                                 <td className="px-4 py-2.5 text-right font-mono text-slate-500">{formatCurrency(point.costOfSales)}</td>
+                                 <td className="px-4 py-2.5 text-right font-mono">{formatCurrency(point.grossProfit)}</td>
+                                 <td className="px-4 py-2.5 text-right font-mono text-slate-500">{formatCurrency(point.operatingExpenses)}</td>
+                                 <td className={`px-4 py-2.5 text-right font-mono font-semibold ${point.profitBeforeTax >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                     <span className="inline-flex items-center gap-1">
+                                         {previous && (up ? <TrendingUp size={14} /> : <TrendingDown size={14} />)}
+                                         {formatCurrency(point.profitBeforeTax)}
+                                     </span>
+                                 </td>
+                             </tr>
+                         );
+                     })}
+                 </tbody>
+             </table>
+         </div>
+         ) : (
          <div className="max-w-4xl mx-auto space-y-6">
             
             {/* Header Summary */}
@@ -91,6 +269,12 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
                     <span className={`text-xs font-semibold px-2 py-1 rounded-full mt-2 ${plData.netProfit >= 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
                         {plData.netProfitMargin.toFixed(1)}% Margin
                     </span>
+                    {priorData && (
+                        <span className={`text-xs font-semibold mt-2 flex items-center gap-1 ${change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                            {change >= 0 ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                            {formatCurrency(Math.abs(change))} จากงวดก่อน
+                        </span>
+                    )}
                 </div>
                 <div className="p-6 rounded-2xl border bg-blue-50 border-blue-100 flex flex-col items-center text-center">
                     <span className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Total Revenue (รายได้รวม)</span>
@@ -100,54 +284,38 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
                      <span className="text-xs font-semibold px-2 py-1 rounded-full mt-2 bg-blue-100 text-blue-700">
                         100% Base
                     </span>
+                    {priorData && (
+                        <span className="text-xs font-semibold mt-2 text-slate-500">
+                            งวดก่อน {formatCurrency(priorData.revenue)}
+                        </span>
+                    )}
                 </div>
             </div>
 
             {/* Statement Table */}
             <div className="border border-slate-200 rounded-xl overflow-hidden">
+                {columnLabels && (
+                    <div className="px-6 py-2 border-b border-slate-200 flex justify-end text-xs font-semibold text-slate-500">
+                        <span className="flex gap-6">
+                            <span className="w-36 text-right">{columnLabels[0]}</span>
+                            <span className="w-36 text-right">{columnLabels[1]}</span>
+                        </span>
+                    </div>
+                )}
+
                 {/* 1. Revenue */}
                 <div className="bg-slate-50 px-6 py-3 border-b border-slate-100 flex justify-between items-center font-bold text-slate-700">
                     <span>รายได้ (Revenue)</span>
-                    <span>{formatCurrency(plData.revenue)}</span>
-                </div>
-                <div className="divide-y divide-slate-50">
-                    {plData.revenueBreakdown.map(item => (
-                        <div 
-                            key={item.code} 
-                            onClick={() => onDrillDown(item.code)}
-                            className="px-6 py-3 bg-white hover:bg-blue-50 cursor-pointer flex justify-between items-center text-sm group transition-colors"
-                        >
-                            <span className="text-slate-600 group-hover:text-blue-600 flex items-center gap-2">
-                                <span className="font-mono text-xs text-slate-400 bg-slate-100 px-1 rounded">{item.code}</span>
-                                {item.name}
-                            </span>
-                            <span className="font-mono text-slate-800">{formatCurrency(item.amount)}</span>
-                        </div>
-                    ))}
-                    {plData.revenueBreakdown.length === 0 && <div className="px-6 py-4 text-center text-slate-400 text-sm italic">ไม่มีรายการรายได้</div>}
+                    {renderAmounts(plData.revenue, priorData?.revenue, false, '')}
                 </div>
+                {renderBreakdown(plData.revenueBreakdown, priorData?.revenueBreakdown, false, 'ไม่มีรายการรายได้')}
 
                 {/* 2. Cost of Services */}
                 <div className="bg-slate-50 px-6 py-3 border-y border-slate-100 flex justify-between items-center font-bold text-slate-700 mt-2">
                     <span>ต้นทุนขาย/บริการ (Cost of Goods Sold)</span>
-                    <span className="text-red-600">({formatCurrency(plData.costOfServices)})</span>
-                </div>
-                <div className="divide-y divide-slate-50">
-                    {plData.costBreakdown.map(item => (
-                        <div 
-                            key={item.code} 
-                            onClick={() => onDrillDown(item.code)}
-                            className="px-6 py-3 bg-white hover:bg-blue-50 cursor-pointer flex justify-between items-center text-sm group transition-colors"
-                        >
-                           <span className="text-slate-600 group-hover:text-blue-600 flex items-center gap-2">
-                                <span className="font-mono text-xs text-slate-400 bg-slate-100 px-1 rounded">{item.code}</span>
-                                {item.name}
-                            </span>
-                            <span className="font-mono text-slate-800">({formatCurrency(item.amount)})</span>
-                        </div>
-                    ))}
-                     {plData.costBreakdown.length === 0 && <div className="px-6 py-4 text-center text-slate-400 text-sm italic">ไม่มีรายการต้นทุน</div>}
+                    {renderAmounts(plData.costOfServices, priorData?.costOfServices, true, 'text-red-600')}
                 </div>
+                {renderBreakdown(plData.costBreakdown, priorData?.costBreakdown, true, 'ไม่มีรายการต้นทุน')}
 
                 {/* GROSS PROFIT LINE */}
                 <div className="bg-indigo-50/50 px-6 py-4 border-y border-indigo-100 flex justify-between items-center">
@@ -155,30 +323,15 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
                         <span className="font-bold text-indigo-900">กำไรขั้นต้น (Gross Profit)</span>
                         <span className="text-xs text-indigo-500 ml-2 font-semibold">({plData.grossProfitMargin.toFixed(1)}%)</span>
                     </div>
-                    <span className="font-bold text-indigo-900 text-lg">{formatCurrency(plData.grossProfit)}</span>
+                    {renderAmounts(plData.grossProfit, priorData?.grossProfit, false, 'font-bold text-indigo-900 text-lg')}
                 </div>
 
                 {/* 3. Admin Expense */}
                 <div className="bg-slate-50 px-6 py-3 border-b border-slate-100 flex justify-between items-center font-bold text-slate-700">
                     <span>ค่าใช้จ่ายในการบริหาร (Admin Expenses)</span>
-                    <span className="text-red-600">({formatCurrency(plData.adminExpense)})</span>
-                </div>
-                 <div className="divide-y divide-slate-50">
-                    {plData.adminBreakdown.map(item => (
-                        <div 
-                            key={item.code} 
-                            onClick={() => onDrillDown(item.code)}
-                            className="px-6 py-3 bg-white hover:bg-blue-50 cursor-pointer flex justify-between items-center text-sm group transition-colors"
-                        >
-                            <span className="text-slate-600 group-hover:text-blue-600 flex items-center gap-2">
-                                <span className="font-mono text-xs text-slate-400 bg-slate-100 px-1 rounded">{item.code}</span>
-                                {item.name}
-                            </span>
-                            <span className="font-mono text-slate-800">({formatCurrency(item.amount)})</span>
-                        </div>
-                    ))}
-                     {plData.adminBreakdown.length === 0 && <div className="px-6 py-4 text-center text-slate-400 text-sm italic">ไม่มีรายการค่าใช้จ่าย</div>}
+                    {renderAmounts(plData.adminExpense, priorData?.adminExpense, true, 'text-red-600')}
                 </div>
+                {renderBreakdown(plData.adminBreakdown, priorData?.adminBreakdown, true, 'ไม่มีรายการค่าใช้จ่าย')}
 
                 {/* NET PROFIT LINE */}
                 <div className={`px-6 py-5 border-t-2 flex justify-between items-center ${plData.netProfit >= 0 ? 'bg-emerald-50 border-emerald-500' : 'bg-red-50 border-red-500'}`}>
@@ -186,11 +339,12 @@ const ProfitAndLoss: React.FC<Props> = ({ entries, onDrillDown }) => {
                         <span className={`font-bold text-lg ${plData.netProfit >= 0 ? 'text-emerald-900' : 'text-red-900'}`}>กำไร(ขาดทุน) สุทธิ (Net Profit)</span>
                         <span className={`text-xs ml-2 font-semibold ${plData.netProfit >= 0 ? 'text-emerald-700' : 'text-red-700'}`}>({plData.netProfitMargin.toFixed(1)}%)</span>
                     </div>
-                    <span className={`font-bold text-2xl ${plData.netProfit >= 0 ? 'text-emerald-700' : 'text-red-700'}`}>{formatCurrency(plData.netProfit)}</span>
+                    {renderAmounts(plData.netProfit, priorData?.netProfit, false, `font-bold text-2xl ${plData.netProfit >= 0 ? 'text-emerald-700' : 'text-red-700'}`)}
                 </div>
 
             </div>
          </div>
+         )}
       </div>
     </div>
   );
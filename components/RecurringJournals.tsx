@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { Client, PostedGLEntry, RecurringAmountFormula, RecurringJournalFrequency, RecurringJournalLine, RecurringJournalTemplate } from '../types';
+import { Repeat, Plus, Loader2, Pencil, Pause, Play, Trash2, CheckCircle2, SkipForward } from 'lucide-react';
+import { databaseService } from '../services/database';
+import {
+  createTemplate,
+  FORMULA_NAMES,
+  FREQUENCY_NAMES,
+  getDueDrafts,
+  postRecurringDraft,
+  RecurringJournalDraft,
+  setTemplateActive,
+  skipRecurringDraft,
+  TemplateInput,
+  updateTemplate,
+} from '../services/recurringJournals';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Props {
+  client: Client;
+  onPosted: (entries: PostedGLEntry[]) => void;
+}
+
+const emptyLine = (side: RecurringJournalLine['side']): RecurringJournalLine => ({
+  account_code: '',
+  account_name: '',
+  side,
+  amount: 0,
+});
+
+const emptyForm = (): TemplateInput => ({
+  name: '',
+  description: '',
+  lines: [emptyLine('DEBIT'), emptyLine('CREDIT')],
+  frequency: 'monthly',
+  postingDay: 0,
+  startDate: `${new Date().toISOString().slice(0, 7)}-01`,
+  autoPost: false,
+});
+
+const RecurringJournals: React.FC<Props> = ({ client, onPosted }) => {
+  const { user } = useAuth();
+  const userId = user?.staffId || user?.uid || 'system';
+  const [templates, setTemplates] = useState<RecurringJournalTemplate[]>([]);
+  const [drafts, setDrafts] = useState<RecurringJournalDraft[]>([]);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [form, setForm] = useState<TemplateInput | null>(null);
+  const [editing, setEditing] = useState<RecurringJournalTemplate | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+      databaseService.getRecurringJournalTemplates(client.id)
+          .then(setTemplates)
+          .catch(e => console.error('Failed to load recurring journals', e));
+  }, [client.id]);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2 }).format(val);
+
+  const reload = async () => {
+      const loaded = await databaseService.getRecurringJournalTemplates(client.id);
+      setTemplates(loaded);
+      return loaded;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+      setIsWorking(true);
+      setMessage(null);
+      try {
+          await action();
+      } catch (e) {
+          setMessage({ text: e instanceof Error ? e.message : 'เกิดข้อผิดพลาด', isError: true });
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  const handleSave = () => run(async () => {
+      if (!form) return;
+      if (editing) await updateTemplate(editing, form);
+      else await createTemplate(client.id, form, userId);
+      await reload();
+      setForm(null);
+      setEditing(null);
+      setMessage({ text: editing ? 'บันทึกการแก้ไขแล้ว' : 'เพิ่มรายการประจำแล้ว', isError: false });
+  });
+
+  const handleEdit = (template: RecurringJournalTemplate) => {
+      setEditing(template);
+      setForm({
+          name: template.name,
+          description: template.description,
+          lines: template.lines,
+          frequency: template.frequency,
+          postingDay: template.postingDay,
+          startDate: template.startDate,
+          endDate: template.endDate,
+          loan: template.loan,
+          autoPost: template.autoPost,
+      });
+  };
+
+  const handleToggle = (template: RecurringJournalTemplate) => run(async () => {
+      await setTemplateActive(template, !template.isActive);
+      await reload();
+  });
+
+  const handleGenerate = () => run(async () => {
+      const due = await getDueDrafts(await reload(), period, userId);
+      setDrafts(due);
+      setMessage({ text: due.length > 0 ? `มีรายการประจำรอลงบัญชี ${due.length} รายการ` : `ไม่มีรายการประจำค้างถึงงวด ${period}`, isError: false });
+  });
+
+  const handlePost = (draft: RecurringJournalDraft) => run(async () => {
+      const result = await postRecurringDraft(draft, userId);
+      if (!result.success) {
+          setMessage({ text: result.errors.join(', '), isError: true });
+          return;
+      }
+      onPosted(result.entries);
+      setDrafts(prev => prev.filter(d => d !== draft));
+      await reload();
+      setMessage({ text: `ลงบัญชี ${draft.template.name} งวด ${draft.period} แล้ว (${result.entries[0]?.doc_no})`, isError: false });
+  });
+
+  const handleSkip = (draft: RecurringJournalDraft) => run(async () => {
+      await skipRecurringDraft(draft);
+      setDrafts(prev => prev.filter(d => d !== draft));
+      await reload();
+  });
+
+  const setField = <K extends keyof TemplateInput>(key: K, value: TemplateInput[K]) =>
+      setForm(prev => prev && { ...prev, [key]: value });
+
+  const setLine = (index: number, changes: Partial<RecurringJournalLine>) =>
+      setForm(prev => prev && { ...prev, lines: prev.lines.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+
+  const usesFormula = !!form?.lines.some(l => l.formula);
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 flex flex-wrap gap-3 justify-between items-center">
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                <Repeat className="text-blue-600" size={20} />
+                รายการบันทึกบัญชีประจำ (Recurring Journals)
+            </h3>
+            <div className="flex items-center gap-2 text-sm">
+                <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                <button
+                    onClick={handleGenerate}
+                    disabled={isWorking || !period}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Repeat size={16} />}
+                    สร้างรายการร่างถึงงวดนี้
+                </button>
+                <button
+                    onClick={() => { setEditing(null); setForm(emptyForm()); }}
+                    className="flex items-center gap-2 px-3 py-1.5 border border-slate-200 text-slate-700 rounded-lg font-semibold hover:bg-slate-50"
+                >
+                    <Plus size={16} /> เพิ่มรายการประจำ
+                </button>
+            </div>
+        </div>
+
+        {message && (
+            <div className={`rounded-xl p-4 text-sm border ${message.isError ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-700'}`}>
+                {message.text}
+            </div>
+        )}
+
+        {form && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4 text-sm">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">ชื่อรายการ</span>
+                        <input value={form.name} onChange={e => setField('name', e.target.value)} placeholder="เช่น ค่าเช่าสำนักงาน" className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                    <label className="flex flex-col gap-1 md:col-span-3">
+                        <span className="text-xs text-slate-500">คำอธิบายรายการบัญชี</span>
+                        <input value={form.description} onChange={e => setField('description', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">ความถี่</span>
+                        <select value={form.frequency} onChange={e => setField('frequency', e.target.value as RecurringJournalFrequency)} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                            {(Object.keys(FREQUENCY_NAMES) as RecurringJournalFrequency[]).map(f => (
+                                <option key={f} value={f}>{FREQUENCY_NAMES[f]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">วันที่บันทึก (0 = สิ้นเดือน)</span>
+                        <input type="number" min={0} max={31} value={form.postingDay} onChange={e => setField('postingDay', Number(e.target.value))} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">เริ่มต้น</span>
+                        <input type="date" value={form.startDate} disabled={!!editing} onChange={e => setField('startDate', e.target.value)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        <span className="text-xs text-slate-500">สิ้นสุด (ไม่บังคับ)</span>
+                        <input type="date" value={form.endDate || ''} onChange={e => setField('endDate', e.target.value || undefined)} className="border border-slate-200 rounded-lg px-2 py-1.5" />
+                    </label>
+                </div>
+
+                <table className="w-full">
+                    <thead className="text-xs text-slate-500">
+                        <tr>
+                            <th className="py-1 text-left">รหัสบัญชี</th>
+                            <th className="py-1 text-left">ชื่อบัญชี</th>
+                            <th className="py-1 text-left">ด้าน</th>
+                            <th className="py-1 text-right">จำนวนเงิน / สูตร</th>
+                            <th className="py-1"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {form.lines.map((line, i) => (
+                            <tr key={i}>
+                                <td className="py-1 pr-2"><input value={line.account_code} onChange={e => setLine(i, { account_code: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono w-28" /></td>
+                                <td className="py-1 pr-2"><input value={line.account_name} onChange={e => setLine(i, { account_name: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 w-full" /></td>
+                                <td className="py-1 pr-2">
+                                    <select value={line.side} onChange={e => setLine(i, { side: e.target.value as RecurringJournalLine['side'] })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                                        <option value="DEBIT">เดบิต</option>
+                                        <option value="CREDIT">เครดิต</option>
+                                    </select>
+                                </td>
+                                <td className="py-1 pr-2">
+                                    <div className="flex gap-2 justify-end">
+                                        <select value={line.formula || ''} onChange={e => setLine(i, { formula: (e.target.value || undefined) as RecurringAmountFormula | undefined })} className="border border-slate-200 rounded-lg px-2 py-1.5">
+                                            <option value="">จำนวนคงที่</option>
+                                            {(Object.keys(FORMULA_NAMES) as RecurringAmountFormula[]).map(f => (
+                                                <option key={f} value={f}>{FORMULA_NAMES[f]}</option>
+                                            ))}
+                                        </select>
+                                        {!line.formula && (
+                                            <input type="number" value={line.amount || ''} onChange={e => setLine(i, { amount: Number(e.target.value) })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right w-32" />
+                                        )}
+                                    </div>
+                                </td>
+                                <td className="py-1 text-right">
+                                    <button onClick={() => setField('lines', form.lines.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-600" title="ลบ"><Trash2 size={16} /></button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button onClick={() => setField('lines', [...form.lines, emptyLine('DEBIT')])} className="text-blue-600 hover:underline flex items-center gap-1">
+                    <Plus size={14} /> เพิ่มบรรทัด
+                </button>
+
+                {usesFormula && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 bg-slate-50 rounded-lg p-3">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">เงินต้น</span>
+                            <input type="number" value={form.loan?.principal || ''} onChange={e => setField('loan', { principal: Number(e.target.value), annualRate: form.loan?.annualRate || 0, termPeriods: form.loan?.termPeriods || 0 })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">อัตราดอกเบี้ยต่อปี (%)</span>
+                            <input type="number" value={form.loan?.annualRate ?? ''} onChange={e => setField('loan', { principal: form.loan?.principal || 0, annualRate: Number(e.target.value), termPeriods: form.loan?.termPeriods || 0 })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-slate-500">จำนวนงวด</span>
+                            <input type="number" value={form.loan?.termPeriods || ''} onChange={e => setField('loan', { principal: form.loan?.principal || 0, annualRate: form.loan?.annualRate || 0, termPeriods: Number(e.target.value) })} className="border border-slate-200 rounded-lg px-2 py-1.5 text-right" />
+                        </label>
+                    </div>
+                )}
+
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <label className="flex items-center gap-2 text-slate-600">
+                        <input type="checkbox" checked={form.autoPost} onChange={e => setField('autoPost', e.target.checked)} />
+                        ลงบัญชีอัตโนมัติเมื่อปิดงวด (ไม่ต้องรอตรวจสอบ)
+                    </label>
+                    <div className="flex gap-2">
+                        <button onClick={() => { setForm(null); setEditing(null); }} className="px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg">ยกเลิก</button>
+                        <button onClick={handleSave} disabled={isWorking} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                            {editing ? 'บันทึกการแก้ไข' : 'เพิ่มรายการประจำ'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {drafts.length > 0 && (
+            <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-100 font-semibold text-slate-700 text-sm">รายการร่างรอตรวจสอบ</div>
+                <div className="divide-y divide-slate-100 text-sm">
+                    {drafts.map(draft => (
+                        <div key={`${draft.template.id}-${draft.period}`} className="px-4 py-3 flex flex-wrap justify-between gap-3">
+                            <div className="space-y-1">
+                                <p className="text-slate-800 font-medium">{draft.template.name} · งวด {draft.period} · {draft.entries[0]?.date}</p>
+                                {draft.entries.map(e => (
+                                    <p key={e.id} className="text-xs text-slate-500 font-mono">
+                                        {e.account_code} {e.account_name} {e.debit > 0 ? `Dr ${formatCurrency(e.debit)}` : `Cr ${formatCurrency(e.credit)}`}
+                                    </p>
+                                ))}
+                                {draft.validation.errors.map(err => <p key={err.code + err.field} className="text-xs text-red-600">{err.messageTh}</p>)}
+                                {draft.validation.warnings.map(w => <p key={w.code + w.field} className="text-xs text-amber-600">{w.messageTh}</p>)}
+                            </div>
+                            <div className="flex items-start gap-2">
+                                <button onClick={() => handleSkip(draft)} disabled={isWorking} className="flex items-center gap-1 px-3 py-1.5 text-slate-600 hover:bg-slate-50 rounded-lg disabled:opacity-50">
+                                    <SkipForward size={16} /> ข้าม
+                                </button>
+                                <button onClick={() => handlePost(draft)} disabled={isWorking || !draft.validation.isValid} className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-50">
+                                    <CheckCircle2 size={16} /> ลงบัญชี
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+            <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200">
+                    <tr>
+                        <th className="px-4 py-3 text-left">รายการ</th>
+                        <th className="px-4 py-3 text-left">ความถี่</th>
+                        <th className="px-4 py-3 text-right">ยอดต่องวด</th>
+                        <th className="px-4 py-3 text-left">ลงบัญชีล่าสุด</th>
+                        <th className="px-4 py-3 text-center">สถานะ</th>
+                        <th className="px-4 py-3"></th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-slate-600">
+                    {templates.length === 0 ? (
+                        <tr><td colSpan={6} className="px-4 py-8 text-center text-slate-400">ยังไม่มีรายการประจำ</td></tr>
+                    ) : templates.map(t => (
+                        <tr key={t.id}>
+                            <td className="px-4 py-2.5">
+                                <p className="text-slate-800">{t.name}</p>
+                                <p className="text-xs text-slate-400">
+                                    {t.startDate}{t.endDate && ` ถึง ${t.endDate}`}
+                                    {t.loan && ` · เงินกู้ ${formatCurrency(t.loan.principal)} @ ${t.loan.annualRate}% ${t.loan.termPeriods} งวด`}
+                                    {t.autoPost && ' · ลงบัญชีอัตโนมัติ'}
+                                </p>
+                            </td>
+                            <td className="px-4 py-2.5">{FREQUENCY_NAMES[t.frequency]}</td>
+                            <td className="px-4 py-2.5 text-right font-mono">
+                                {t.lines.some(l => l.formula)
+                                    ? 'ตามตารางผ่อน'
+                                    : formatCurrency(t.lines.filter(l => l.side === 'DEBIT').reduce((s, l) => s + l.amount, 0))}
+                            </td>
+                            <td className="px-4 py-2.5">{t.postedPeriods[t.postedPeriods.length - 1] || '-'}</td>
+                            <td className="px-4 py-2.5 text-center">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${t.isActive ? 'bg-blue-50 text-blue-700' : 'bg-slate-100 text-slate-500'}`}>
+                                    {t.isActive ? 'ใช้งาน' : 'หยุดชั่วคราว'}
+                                </span>
+                            </td>
+                            <td className="px-4 py-2.5 text-right whitespace-nowrap">
+                                <button onClick={() => handleEdit(t)} className="p-1 text-slate-400 hover:text-blue-600" title="แก้ไข"><Pencil size={16} /></button>
+                                <button onClick={() => handleToggle(t)} className="p-1 text-slate-400 hover:text-amber-600" title={t.isActive ? 'หยุดชั่วคราว' : 'ใช้งาน'}>
+                                    {t.isActive ? <Pause size={16} /> : <Play size={16} />}
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
+
+export default RecurringJournals;
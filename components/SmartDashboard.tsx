@@ -12,6 +12,7 @@ import {
 } from '../services/smartDashboard';
 import { DocumentRecord, Client, Staff, PostedGLEntry } from '../types';
 import { databaseService } from '../services/database';
+import { generateYearToDateReports } from '../services/budget';
 
 interface Props {
   documents: DocumentRecord[];
@@ -49,7 +50,11 @@ const SmartDashboard: React.FC<Props> = ({
 
     // Calculate all metrics
     const newKpis = calculateKPIs(documents, clients, glEntries);
-    const newAlerts = generateAlerts(documents, clients, staff);
+    const budgetReports = await generateYearToDateReports(clients, glEntries).catch(err => {
+      console.error('Failed to load budgets', err);
+      return [];
+    });
+    const newAlerts = generateAlerts(documents, clients, staff, budgetReports);
     const newActions = generateActionItems(documents, clients, staff);
     const newSummary = calculateSummary(documents, clients, glEntries);
     const newHealth = calculateClientHealth(clients, documents);
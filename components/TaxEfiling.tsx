@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   FileText, Upload, Download, CheckCircle, AlertCircle, Building,
   Calendar, ChevronRight, Eye, Send, RefreshCw, FileCode, AlertTriangle,
@@ -11,8 +11,12 @@ import {
   generateEFilingPackage,
   EFilingResult,
   getBuddhistYear,
+  isForeignServiceDocument,
   INCOME_TYPES
 } from '../services/taxEfiling';
+import { generatePND54Package } from '../services/pnd54';
+import { Employee, PaySlip } from '../services/payroll';
+import { databaseService } from '../services/database';
 
 interface Props {
   clients: Client[];
@@ -20,6 +24,14 @@ interface Props {
 }
 
 const TAX_FORMS = [
+  {
+    id: 'PND1' as TaxFormType,
+    name: 'ภ.ง.ด.1',
+    description: 'ภาษีหัก ณ ที่จ่าย (เงินเดือน ค่าจ้าง)',
+    descriptionEn: 'WHT on Salaries',
+    deadline: 'ภายในวันที่ 7 ของเดือนถัดไป',
+    color: 'amber',
+  },
   {
     id: 'PND3' as TaxFormType,
     name: 'ภ.ง.ด.3',
@@ -36,6 +48,14 @@ const TAX_FORMS = [
     deadline: 'ภายในวันที่ 7 ของเดือนถัดไป',
     color: 'purple',
   },
+  {
+    id: 'PND54' as TaxFormType,
+    name: 'ภ.ง.ด.54',
+    description: 'ภาษีหัก ณ ที่จ่าย (จ่ายไปต่างประเทศ)',
+    descriptionEn: 'WHT on Payments to Foreign Entities',
+    deadline: 'ภายในวันที่ 7 ของเดือนถัดไป',
+    color: 'rose',
+  },
   {
     id: 'PP30' as TaxFormType,
     name: 'ภ.พ.30',
@@ -44,6 +64,14 @@ const TAX_FORMS = [
     deadline: 'ภายในวันที่ 15 ของเดือนถัดไป',
     color: 'emerald',
   },
+  {
+    id: 'PP36' as TaxFormType,
+    name: 'ภ.พ.36',
+    description: 'ภาษีมูลค่าเพิ่มบริการจากต่างประเทศ',
+    descriptionEn: 'Reverse-charge VAT on Foreign Services',
+    deadline: 'ภายในวันที่ 7 ของเดือนถัดไป',
+    color: 'indigo',
+  },
 ];
 
 const TaxEfiling: React.FC<Props> = ({ clients, documents }) => {
@@ -54,9 +82,25 @@ const TaxEfiling: React.FC<Props> = ({ clients, documents }) => {
   const [efilingResult, setEfilingResult] = useState<EFilingResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [payslips, setPayslips] = useState<PaySlip[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
 
   const selectedClient = clients.find(c => c.id === selectedClientId);
 
+  // PND1 is filed from payroll rather than documents
+  useEffect(() => {
+    if (!selectedClientId) return;
+    Promise.all([
+      databaseService.getPaySlipsByClient(selectedClientId),
+      databaseService.getEmployeesByClient(selectedClientId),
+    ])
+      .then(([loadedPayslips, loadedEmployees]) => {
+        setPayslips(loadedPayslips);
+        setEmployees(loadedEmployees);
+      })
+      .catch(e => console.error('Failed to load payroll', e));
+  }, [selectedClientId]);
+
   // Filter documents for selected client and period
   const relevantDocuments = useMemo(() => {
     return documents.filter(doc => {
@@ -85,8 +129,19 @@ const TaxEfiling: React.FC<Props> = ({ clients, documents }) => {
       d.ai_data?.tax_compliance.is_full_tax_invoice
     ).length;
 
-    return { PND3: pnd3, PND53: pnd53, PP30: vatDocs };
-  }, [relevantDocuments]);
+    const period = `${selectedYear}-${String(selectedMonth).padStart(2, '0')}`;
+    const pnd1 = new Set(
+      payslips.filter(ps => ps.period === period && ps.status !== 'draft').map(ps => ps.employeeId)
+    ).size;
+
+    const pnd54 = relevantDocuments.filter(d =>
+      d.ai_data?.tax_compliance.wht_code === 'PND54'
+    ).length;
+
+    const foreignServices = relevantDocuments.filter(isForeignServiceDocument).length;
+
+    return { PND1: pnd1, PND3: pnd3, PND53: pnd53, PND54: pnd54, PP30: vatDocs, PP36: foreignServices };
+  }, [relevantDocuments, payslips, selectedMonth, selectedYear]);
 
   // Generate e-filing package
   const handleGenerateEfiling = async (formType: TaxFormType) => {
@@ -111,7 +166,9 @@ const TaxEfiling: React.FC<Props> = ({ clients, documents }) => {
       totalTax: 0,
     };
 
-    const result = generateEFilingPackage(formType, header, relevantDocuments);
+    const result = formType === 'PND54'
+      ? generatePND54Package(header, relevantDocuments)
+      : generateEFilingPackage(formType, header, relevantDocuments, { payslips, employees });
     setEfilingResult(result);
     setIsProcessing(false);
   };
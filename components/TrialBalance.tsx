@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { PostedGLEntry } from '../types';
 import { ArrowDown, ArrowUp, Download, ZoomIn, FileSpreadsheet } from 'lucide-react';
+import { isOpeningEntry } from '../services/periodClosing';
 
 interface Props {
   entries: PostedGLEntry[];
@@ -21,6 +22,8 @@ const TrialBalance: React.FC<Props> = ({ entries, onDrillDown }) => {
     const accMap = new Map<string, AccountSummary>();
 
     entries.forEach(entry => {
+      // Cumulative balances already include what an opening voucher restates
+      if (isOpeningEntry(entry)) return;
       if (!accMap.has(entry.account_code)) {
         // Determine approximate type based on first digit
         const firstDigit = entry.account_code.charAt(0);
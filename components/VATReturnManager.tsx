@@ -3,6 +3,8 @@
  *
  * UI Component for generating and managing PP30 VAT Returns (ภ.พ.30)
  * Calculates VAT payable/refundable, generates forms and XML for e-filing
+ * PP36 (ภ.พ.36) self-assesses VAT on foreign services; once paid it is claimed in PP30
+ * Prints the statutory input and output tax reports (รายงานภาษีซื้อ/ภาษีขาย)
  */
 
 import React, { useState, useMemo } from 'react';
@@ -19,15 +21,33 @@ import {
   CheckCircle2,
   AlertTriangle,
   FileCode,
-  RefreshCw
+  RefreshCw,
+  Globe,
+  BookOpen,
+  FileSpreadsheet
 } from 'lucide-react';
 import { DocumentRecord, Client, PostedGLEntry } from '../types';
 import {
   generatePP30,
   generatePP30HTML,
   generatePP30XML,
-  PP30Data
+  generatePP36,
+  generatePP36HTML,
+  buildPP36PaymentEntries,
+  formatVATBranch,
+  generateVATTaxReport,
+  generateVATTaxReportHTML,
+  getVATTaxReportHeaders,
+  vatTaxReportToRows,
+  VAT_LATE_CLAIM_MONTHS,
+  PP30Data,
+  PP36Data
 } from '../services/vatReturn';
+import { generatePP36XML, isForeignServiceDocument } from '../services/taxEfiling';
+import { postDraftVouchers } from '../services/voucherNumbering';
+import { useAuth } from '../contexts/AuthContext';
+import { getBranchCodes, HEAD_OFFICE_BRANCH } from '../services/branches';
+import { exportToExcel, generateVATTaxReportPDF } from '../utils/pdfExport';
 
 interface VATReturnManagerProps {
   clients: Client[];
@@ -35,6 +55,7 @@ interface VATReturnManagerProps {
   glEntries: PostedGLEntry[];
   selectedClientId: string | null;
   onShowNotification: (message: string, type: 'success' | 'error') => void;
+  onPosted?: (entries: PostedGLEntry[]) => void;
 }
 
 const VATReturnManager: React.FC<VATReturnManagerProps> = ({
@@ -42,8 +63,10 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
   documents,
   glEntries,
   selectedClientId,
-  onShowNotification
+  onShowNotification,
+  onPosted
 }) => {
+  const { user } = useAuth();
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
@@ -51,12 +74,22 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
   const [carryForwardCredit, setCarryForwardCredit] = useState(0);
   const [pp30Data, setPP30Data] = useState<PP30Data | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [pp36Data, setPP36Data] = useState<PP36Data | null>(null);
+  const [pp36PaymentDate, setPP36PaymentDate] = useState('');
+  const [reportBranch, setReportBranch] = useState(HEAD_OFFICE_BRANCH);
 
   // Get selected client
   const selectedClient = useMemo(() => {
     return clients.find(c => c.id === selectedClientId) || null;
   }, [clients, selectedClientId]);
 
+  // Input/output tax reports are kept per establishment
+  const reportBranches = useMemo(() => {
+    if (!selectedClient) return [HEAD_OFFICE_BRANCH];
+    const codes = getBranchCodes(selectedClient, glEntries.filter(e => e.clientId === selectedClient.id));
+    return [HEAD_OFFICE_BRANCH, ...codes.filter(code => code !== HEAD_OFFICE_BRANCH)];
+  }, [selectedClient, glEntries]);
+
   // Filter documents for selected client and month
   const clientDocuments = useMemo(() => {
     if (!selectedClient) return [];
@@ -74,6 +107,28 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
     });
   }, [documents, selectedClient, selectedMonth]);
 
+  // Purchase invoices may be claimed up to six months after issue, so VAT reports look further back
+  const vatDocuments = useMemo(() => {
+    if (!selectedClient) return [];
+
+    const [year, month] = selectedMonth.split('-').map(Number);
+    const from = new Date(year, month - 1 - VAT_LATE_CLAIM_MONTHS, 1);
+    const windowStart = `${from.getFullYear()}-${String(from.getMonth() + 1).padStart(2, '0')}-01`;
+    const monthEnd = `${selectedMonth}-31`;
+
+    return documents.filter(doc => {
+      if (doc.client_name !== selectedClient.name) return false;
+      const docDate = doc.ai_data?.header_data.issue_date;
+      return !!docDate && docDate >= windowStart && docDate <= monthEnd;
+    });
+  }, [documents, selectedClient, selectedMonth]);
+
+  // PP36 follows the payment date, which has no limit after issue; generatePP36 picks the month's payments
+  const foreignServiceDocuments = useMemo(() => {
+    if (!selectedClient) return [];
+    return documents.filter(doc => doc.client_name === selectedClient.name && isForeignServiceDocument(doc));
+  }, [documents, selectedClient]);
+
   // Calculate VAT summary from documents
   const vatSummary = useMemo(() => {
     let outputVAT = 0;
@@ -135,7 +190,7 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
     try {
       const pp30 = await generatePP30(
         selectedClient,
-        clientDocuments,
+        vatDocuments,
         selectedMonth,
         carryForwardCredit
       );
@@ -150,6 +205,88 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
     }
   };
 
+  // Generate PP36 for foreign services
+  const handleGeneratePP36 = async () => {
+    if (!selectedClient) {
+      onShowNotification('กรุณาเลือกลูกค้าก่อน', 'error');
+      return;
+    }
+
+    setIsCalculating(true);
+
+    try {
+      const pp36 = await generatePP36(selectedClient, foreignServiceDocuments, selectedMonth);
+      setPP36Data(pp36);
+      setPP36PaymentDate(pp36.payment?.date || pp36.dueDate);
+      onShowNotification(`พบบริการจากต่างประเทศ ${pp36.items.length} รายการ`, 'success');
+    } catch (error) {
+      console.error('Error generating PP36:', error);
+      onShowNotification('เกิดข้อผิดพลาดในการสร้างแบบ ภ.พ.36', 'error');
+    } finally {
+      setIsCalculating(false);
+    }
+  };
+
+  // Post PP36 payment so next month's PP30 claims it as input VAT
+  const handlePostPP36Payment = async () => {
+    if (!pp36Data || !selectedClient) return;
+
+    try {
+      const entries = buildPP36PaymentEntries(pp36Data, selectedClient.id, pp36PaymentDate);
+      const [result] = await postDraftVouchers(selectedClient.id, 'PV', entries, user?.staffId || user?.uid || 'system');
+      if (!result?.success || !result.docNo) {
+        onShowNotification(result?.validation.errors.map(e => e.messageTh).join(', ') || 'เกิดข้อผิดพลาด', 'error');
+        return;
+      }
+      onPosted?.(entries.map((e, i) => ({
+        ...e, id: result.ids[i], doc_no: result.docNo!, reference_no: result.draftNo, journal_type: 'PV' as const,
+      })));
+      setPP36Data({ ...pp36Data, status: 'paid', payment: { docNo: result.docNo, date: pp36PaymentDate } });
+      onShowNotification(`บันทึกการชำระ ภ.พ.36 สำเร็จ (${result.docNo})`, 'success');
+    } catch (error) {
+      onShowNotification(error instanceof Error ? error.message : 'เกิดข้อผิดพลาด', 'error');
+    }
+  };
+
+  const handlePrintPP36 = () => {
+    if (!pp36Data) return;
+
+    const printWindow = window.open('', '_blank');
+    if (printWindow) {
+      printWindow.document.write(generatePP36HTML(pp36Data));
+      printWindow.document.close();
+      printWindow.print();
+    }
+  };
+
+  const handleDownloadPP36XML = () => {
+    if (!pp36Data) return;
+
+    const xml = generatePP36XML({
+      taxId: pp36Data.taxpayerTaxId,
+      branchNo: pp36Data.taxpayerBranch,
+      companyName: pp36Data.taxpayerName,
+      address: pp36Data.taxpayerAddress,
+      taxMonth: pp36Data.taxPeriod.month,
+      taxYear: pp36Data.taxPeriod.year,
+      formType: 'PP36',
+      totalRecords: pp36Data.items.length,
+      totalAmount: pp36Data.totalBaseAmount,
+      totalTax: pp36Data.totalVAT,
+    }, pp36Data.items);
+    const blob = new Blob([xml], { type: 'application/xml' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `PP36_${selectedClient?.tax_id}_${selectedMonth}.xml`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    onShowNotification('ดาวน์โหลดไฟล์ XML สำเร็จ', 'success');
+  };
+
   // Print PP30
   const handlePrintPP30 = () => {
     if (!pp30Data) return;
@@ -181,6 +318,35 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
     onShowNotification('ดาวน์โหลดไฟล์ XML สำเร็จ', 'success');
   };
 
+  // Input/output tax reports: print, PDF or Excel
+  const handleVATTaxReport = (type: 'sales' | 'purchase', format: 'print' | 'pdf' | 'excel') => {
+    if (!selectedClient) return;
+
+    const branch = reportBranches.includes(reportBranch) ? reportBranch : HEAD_OFFICE_BRANCH;
+    const report = generateVATTaxReport(selectedClient, vatDocuments, selectedMonth, type, branch);
+    if (report.invoiceCount === 0) {
+      onShowNotification(`ไม่มีใบกำกับภาษีสำหรับ${report.title}เดือนนี้`, 'error');
+      return;
+    }
+
+    if (format === 'pdf') {
+      generateVATTaxReportPDF(report);
+    } else if (format === 'excel') {
+      exportToExcel(
+        vatTaxReportToRows(report),
+        `${type === 'purchase' ? 'VAT_Input' : 'VAT_Output'}_${selectedClient.tax_id}_${selectedMonth}`,
+        getVATTaxReportHeaders(type)
+      );
+    } else {
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(generateVATTaxReportHTML(report));
+        printWindow.document.close();
+        printWindow.print();
+      }
+    }
+  };
+
   // Format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('th-TH', {
@@ -244,6 +410,7 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
                   onChange={(e) => {
                     setSelectedMonth(e.target.value);
                     setPP30Data(null);
+                    setPP36Data(null);
                   }}
                   className="border rounded px-2 py-1 text-sm"
                 />
@@ -266,11 +433,19 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
                 <span className="text-sm text-slate-500">บาท</span>
               </div>
 
-              {/* Generate button */}
+              {/* Generate buttons */}
+              <button
+                onClick={handleGeneratePP36}
+                disabled={isCalculating || foreignServiceDocuments.length === 0}
+                className="ml-auto px-4 py-2 border border-slate-300 text-slate-700 rounded hover:bg-slate-50 disabled:text-slate-300 flex items-center gap-2"
+              >
+                <Globe size={16} />
+                คำนวณ ภ.พ.36
+              </button>
               <button
                 onClick={handleGeneratePP30}
                 disabled={isCalculating || clientDocuments.length === 0}
-                className="ml-auto px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-slate-300 flex items-center gap-2"
+                className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:bg-slate-300 flex items-center gap-2"
               >
                 {isCalculating ? (
                   <>
@@ -377,6 +552,51 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
                   </div>
                 )}
               </div>
+
+              {/* Statutory input/output tax reports */}
+              {reportBranches.length > 1 && (
+                <div className="mt-4 flex items-center gap-2 text-sm">
+                  <Building2 size={16} className="text-slate-400" />
+                  <label className="text-slate-600">สถานประกอบการ:</label>
+                  <select
+                    value={reportBranch}
+                    onChange={(e) => setReportBranch(e.target.value)}
+                    className="border rounded px-2 py-1 text-sm"
+                  >
+                    {reportBranches.map(code => <option key={code} value={code}>{formatVATBranch(code)}</option>)}
+                  </select>
+                </div>
+              )}
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                {([['purchase', 'รายงานภาษีซื้อ'], ['sales', 'รายงานภาษีขาย']] as const).map(([type, title]) => (
+                  <div key={type} className="bg-white rounded-lg p-3 border flex items-center justify-between">
+                    <span className="text-sm font-medium text-slate-700">{title}</span>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleVATTaxReport(type, 'print')}
+                        className="px-2 py-1 border rounded text-xs flex items-center gap-1 text-slate-600 hover:bg-slate-50"
+                      >
+                        <Printer size={12} />
+                        พิมพ์
+                      </button>
+                      <button
+                        onClick={() => handleVATTaxReport(type, 'pdf')}
+                        className="px-2 py-1 border rounded text-xs flex items-center gap-1 text-slate-600 hover:bg-slate-50"
+                      >
+                        <Download size={12} />
+                        PDF
+                      </button>
+                      <button
+                        onClick={() => handleVATTaxReport(type, 'excel')}
+                        className="px-2 py-1 border rounded text-xs flex items-center gap-1 text-slate-600 hover:bg-slate-50"
+                      >
+                        <FileSpreadsheet size={12} />
+                        Excel
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
           </>
         )}
@@ -436,6 +656,12 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
                   <td className="py-2 text-slate-500">ภาษีซื้อ</td>
                   <td className="py-2 text-right font-medium">{formatCurrency(pp30Data.inputVAT.totalClaimableVAT)} บาท</td>
                 </tr>
+                {pp30Data.inputVAT.reverseChargeVAT > 0 && (
+                  <tr className="border-b">
+                    <td className="py-2 pl-4 text-xs text-slate-500">รวมภาษีที่ชำระตาม ภ.พ.36</td>
+                    <td className="py-2 text-right text-xs text-slate-500">{formatCurrency(pp30Data.inputVAT.reverseChargeVAT)} บาท</td>
+                  </tr>
+                )}
                 <tr className="border-b bg-slate-100">
                   <td className="py-2 font-medium">
                     {pp30Data.calculation.vatToPay > 0 ? 'ภาษีที่ต้องชำระ' : 'ภาษีที่ขอคืน/ยกไป'}
@@ -453,10 +679,112 @@ const VATReturnManager: React.FC<VATReturnManagerProps> = ({
               <div>จำนวนใบกำกับขาย: {pp30Data.supportingDocs.salesInvoices.length} ฉบับ</div>
               <div>จำนวนใบกำกับซื้อ: {pp30Data.supportingDocs.purchaseInvoices.length} ฉบับ</div>
             </div>
+
+            {(pp30Data.glDifference.outputVAT !== 0 || pp30Data.glDifference.inputVAT !== 0) && (
+              <div className="mt-4 p-3 rounded bg-amber-50 text-xs text-amber-700">
+                <div className="font-medium">ยอดในบัญชีแยกประเภทต่างจากใบกำกับภาษี</div>
+                <div>ภาษีขาย: {formatCurrency(pp30Data.glDifference.outputVAT)} บาท</div>
+                <div>ภาษีซื้อ: {formatCurrency(pp30Data.glDifference.inputVAT)} บาท</div>
+              </div>
+            )}
           </div>
         </div>
       )}
 
+      {/* Generated PP36 Results */}
+      {pp36Data && (
+        <div className="p-4 border-t">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Globe className="text-indigo-500" size={20} />
+              <h3 className="font-medium text-slate-700">
+                แบบ ภ.พ.36 (บริการจากต่างประเทศ) กำหนดชำระ {pp36Data.dueDate}
+              </h3>
+              {pp36Data.payment && (
+                <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700">
+                  ชำระแล้ว {pp36Data.payment.date}
+                </span>
+              )}
+            </div>
+            {pp36Data.errors.length === 0 && (
+              <div className="flex gap-2">
+                <button
+                  onClick={handleDownloadPP36XML}
+                  className="px-3 py-1 bg-blue-500 text-white rounded text-sm flex items-center gap-1 hover:bg-blue-600"
+                >
+                  <FileCode size={14} />
+                  ดาวน์โหลด XML
+                </button>
+                <button
+                  onClick={handlePrintPP36}
+                  className="px-3 py-1 bg-green-500 text-white rounded text-sm flex items-center gap-1 hover:bg-green-600"
+                >
+                  <Printer size={14} />
+                  พิมพ์
+                </button>
+              </div>
+            )}
+          </div>
+
+          {pp36Data.errors.length > 0 && (
+            <ul className="mb-4 bg-red-50 rounded p-3 text-sm text-red-700 list-disc pl-8">
+              {pp36Data.errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          {pp36Data.items.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-slate-500">
+                  <th className="py-2 text-left font-medium">วันที่</th>
+                  <th className="py-2 text-left font-medium">ผู้ให้บริการ</th>
+                  <th className="py-2 text-left font-medium">เลขที่เอกสาร</th>
+                  <th className="py-2 text-right font-medium">สกุลเดิม</th>
+                  <th className="py-2 text-right font-medium">มูลค่า (บาท)</th>
+                  <th className="py-2 text-right font-medium">VAT 7%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pp36Data.items.map(item => (
+                  <tr key={item.documentId} className="border-b">
+                    <td className="py-2">{item.paymentDate}</td>
+                    <td className="py-2">{item.supplierName}</td>
+                    <td className="py-2">{item.invoiceNo}</td>
+                    <td className="py-2 text-right">{item.currency} {formatCurrency(item.foreignAmount)}</td>
+                    <td className="py-2 text-right">{formatCurrency(item.baseAmount)}</td>
+                    <td className="py-2 text-right font-medium">{formatCurrency(item.vatAmount)}</td>
+                  </tr>
+                ))}
+                <tr className="bg-slate-100 font-bold">
+                  <td colSpan={4} className="py-2">รวม</td>
+                  <td className="py-2 text-right">{formatCurrency(pp36Data.totalBaseAmount)}</td>
+                  <td className="py-2 text-right">{formatCurrency(pp36Data.totalVAT)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {pp36Data.errors.length === 0 && !pp36Data.payment && (
+            <div className="mt-4 flex items-center justify-end gap-2 text-sm">
+              <label className="text-slate-600">วันที่ชำระ:</label>
+              <input
+                type="date"
+                value={pp36PaymentDate}
+                onChange={(e) => setPP36PaymentDate(e.target.value)}
+                className="border rounded px-2 py-1 text-sm"
+              />
+              <button
+                onClick={handlePostPP36Payment}
+                className="px-3 py-1 bg-indigo-500 text-white rounded text-sm flex items-center gap-1 hover:bg-indigo-600"
+              >
+                <BookOpen size={14} />
+                บันทึกการชำระ (เครดิตภาษีซื้อเดือนถัดไป)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Empty state */}
       {selectedClient && clientDocuments.length === 0 && (
         <div className="p-8 text-center text-slate-500">
@@ -74,6 +74,9 @@ const WHTCertificateManager: React.FC<WHTCertificateManagerProps> = ({
       const whtAmount = doc.ai_data.financials.wht_amount || 0;
       if (whtAmount <= 0) return false;
 
+      // Foreign payees are filed on PND54 and get no 50 Tawi
+      if (doc.ai_data.tax_compliance?.wht_code === 'PND54') return false;
+
       // Check date range
       const docDate = doc.ai_data.header_data.issue_date;
       if (docDate < monthStart || docDate > monthEnd) return false;
@@ -91,6 +91,7 @@ const WHTPreview: React.FC<Props> = ({ data, onChange }) => {
                  >
                     <option value="PND3">ภ.ง.ด.3 (บุคคลธรรมดา)</option>
                     <option value="PND53">ภ.ง.ด.53 (นิติบุคคล)</option>
+                    <option value="PND54">ภ.ง.ด.54 (นิติบุคคลต่างประเทศ)</option>
                  </select>
                 <button className="flex items-center gap-2 px-4 py-2 bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors shadow-sm text-xs font-bold">
                     <Printer size={14} /> พิมพ์แบบ
@@ -1,3 +1,5 @@
+import { THAI_CHART_OF_ACCOUNTS } from './services/chartTemplates';
+
 export const SYSTEM_PROMPT = `
 ## Role and Objective
 You are the **AI Chief Accountant & Automation Engine** for "We Accounting & Tax", a premium Thai accounting firm. 
@@ -21,6 +23,7 @@ You handle complex scenarios like Withholding Tax (WHT), Non-Deductible VAT, and
 - **Form Selection**: 
   - If Counterparty is Company -> PND 53 (ภ.ง.ด.53).
   - If Counterparty is Individual -> PND 3 (ภ.ง.ด.3).
+  - If Counterparty is a Foreign Company paid for Royalties, Interest, Dividends or Services -> PND 54 (ภ.ง.ด.54).
 
 ### 2. VAT (Value Added Tax)
 - **Tax Invoice Validity**: Check for "TAX INVOICE" word and Tax IDs.
@@ -29,19 +32,21 @@ You handle complex scenarios like Withholding Tax (WHT), Non-Deductible VAT, and
   - **Action**: Book the VAT amount into the Expense account (Dr. Expense includes VAT). Input VAT = 0.
 
 ### 3. GL Mapping (Standard Thai Codes)
-Use these approximate codes:
-- 11100: Cash/Bank
+Use these codes from the standard chart of accounts (the client's own chart, when supplied, takes precedence):
+- 11100: Cash
+- 11200: Cash at Bank
 - 11300: Accounts Receivable
 - 11540: Input VAT (ภาษีซื้อ)
 - 21200: Accounts Payable
 - 21400: WHT Payable (ภาษีหัก ณ ที่จ่ายค้างจ่าย)
-- 41100: Service Income
-- 41540: Output VAT (ภาษีขาย)
-- 51000: Cost of Services
-- 52000: Admin Expenses (General)
-- 52100: Rental Expense
-- 52300: Transportation Expense
-- 52900: Entertainment Expense
+- 21540: Output VAT (ภาษีขาย)
+- 41100: Sales Revenue
+- 41200: Service Revenue
+- 51200: Cost of Services
+- 52300: Rent Expense
+- 52600: Transportation Expense
+- 52700: Entertainment Expense
+- 53000: Non-deductible VAT (ภาษีซื้อไม่ขอคืน)
 
 ## OUTPUT JSON SCHEMA
 {
@@ -100,50 +105,14 @@ Use these approximate codes:
     "is_full_tax_invoice": Boolean,
     "vat_claimable": Boolean,
     "wht_flag": Boolean,
-    "wht_code": "PND3 | PND53 | null",
+    "wht_code": "PND3 | PND53 | PND54 | null",
     "wht_rate": Float
   }
 }
 `;
 
-export const THAI_GL_CODES = [
-  // Assets
-  { code: '11100', name: '11100 - เงินสด (Cash)' },
-  { code: '11120', name: '11120 - เงินฝากธนาคาร (Bank Deposit)' },
-  { code: '11300', name: '11300 - ลูกหนี้การค้า (Accounts Receivable)' },
-  { code: '11540', name: '11540 - ภาษีซื้อ (Input VAT)' },
-  { code: '11550', name: '11550 - ภาษีซื้อยังไม่ถึงกำหนด (Undue Input VAT)' },
-  { code: '12400', name: '12400 - เครื่องใช้สำนักงาน (Office Equipment)' },
-  { code: '12500', name: '12500 - ยานพาหนะ (Vehicles)' },
-  
-  // Liabilities
-  { code: '21200', name: '21200 - เจ้าหนี้การค้า (Accounts Payable)' },
-  { code: '21300', name: '21300 - ค่าใช้จ่ายค้างจ่าย (Accrued Expenses)' },
-  { code: '21400', name: '21400 - ภาษีหัก ณ ที่จ่ายรอนำส่ง (WHT Payable)' },
-  { code: '21540', name: '21540 - ภาษีขาย (Output VAT)' },
-  { code: '21550', name: '21550 - ภาษีขายยังไม่ถึงกำหนด (Undue Output VAT)' },
-
-  // Revenue
-  { code: '41100', name: '41100 - รายได้จากการขาย (Sales Revenue)' },
-  { code: '41200', name: '41200 - รายได้จากการบริการ (Service Revenue)' },
-  { code: '42100', name: '42100 - รายได้อื่น (Other Income)' },
-
-  // Expenses (Cost of Sales/Services)
-  { code: '51100', name: '51100 - ต้นทุนขาย (Cost of Goods Sold)' },
-  { code: '51200', name: '51200 - ต้นทุนบริการ (Cost of Services)' },
-
-  // Admin Expenses
-  { code: '52000', name: '52000 - เงินเดือนและค่าแรง (Salary & Wages)' },
-  { code: '52100', name: '52100 - ค่าเช่าและค่าบริการสถานที่ (Rent & Service Fee)' },
-  { code: '52200', name: '52200 - ค่าไฟฟ้าและน้ำประปา (Utilities)' },
-  { code: '52300', name: '52300 - ค่าพาหนะเดินทาง (Transportation)' },
-  { code: '52310', name: '52310 - ค่าน้ำมันเชื้อเพลิง (Fuel)' },
-  { code: '52400', name: '52400 - ค่าโทรศัพท์และอินเทอร์เน็ต (Telephone & Internet)' },
-  { code: '52500', name: '52500 - ค่าธรรมเนียมวิชาชีพ (Professional Fees)' },
-  { code: '52600', name: '52600 - ค่าซ่อมแซมและบำรุงรักษา (Repair & Maintenance)' },
-  { code: '52700', name: '52700 - วัสดุสิ้นเปลืองสำนักงาน (Office Supplies)' },
-  { code: '52800', name: '52800 - ค่าโฆษณาและส่งเสริมการขาย (Advertising)' },
-  { code: '52900', name: '52900 - ค่ารับรอง (Entertainment)' },
-  { code: '52990', name: '52990 - ค่าใช้จ่ายเบ็ดเตล็ด (Miscellaneous Expenses)' },
-  { code: '53000', name: '53000 - ภาษีซื้อต้องห้าม (Non-deductible VAT)' },
-];
\ No newline at end of file
+// GL code picker list, derived from the standard chart so the codes never drift
+export const THAI_GL_CODES = THAI_CHART_OF_ACCOUNTS.map(account => ({
+  code: account.code,
+  name: `${account.code} - ${account.nameTh} (${account.name})`,
+}));
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Request, Response } from "express";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
 
 // Get API key from Firebase config (set via: firebase functions:config:set gemini.api_key="YOUR_KEY")
 const getApiKey = (): string => {
@@ -30,9 +31,9 @@ const SYSTEM_PROMPT = `คุณคือ AI Chief Accountant & Automation Engin
    - ถ้าเป็นใบกำกับภาษีอย่างย่อ → VAT ไม่สามารถขอคืนได้
    - ค่ารับรอง → VAT ไม่สามารถขอคืนได้
 
-3. รหัสบัญชีมาตรฐาน:
+3. รหัสบัญชีมาตรฐาน (ถ้ามีผังบัญชีของลูกค้าให้ใช้ผังบัญชีของลูกค้าก่อน):
    - 11100: เงินสด
-   - 11120: เงินฝากธนาคาร
+   - 11200: เงินฝากธนาคาร
    - 11300: ลูกหนี้การค้า
    - 11540: ภาษีซื้อ
    - 12400: อุปกรณ์สำนักงาน
@@ -46,6 +47,30 @@ const SYSTEM_PROMPT = `คุณคือ AI Chief Accountant & Automation Engin
 
 ส่งผลลัพธ์เป็น JSON เท่านั้น ตามโครงสร้างที่กำหนด`;
 
+/**
+ * Build the prompt section listing the client's own chart of accounts
+ * (charts_of_accounts/{clientId}, maintained by the web app)
+ */
+const getClientChartPrompt = async (clientId?: string): Promise<string> => {
+  if (!clientId) return "";
+
+  try {
+    const chartDoc = await admin.firestore().collection("charts_of_accounts").doc(clientId).get();
+    if (!chartDoc.exists) return "";
+
+    const accounts = (chartDoc.data()?.accounts || []) as Array<{ code: string; nameTh: string; isActive: boolean }>;
+    const lines = accounts
+      .filter(a => a.isActive)
+      .map(a => `   - ${a.code}: ${a.nameTh}`)
+      .join("\n");
+
+    return lines ? `\nผังบัญชีของลูกค้ารายนี้ (ใช้เฉพาะรหัสบัญชีเหล่านี้):\n${lines}\n` : "";
+  } catch (error) {
+    console.warn("Failed to load client chart of accounts, using standard codes:", error);
+    return "";
+  }
+};
+
 interface AnalyzeDocumentRequest {
   fileData: string; // Base64 encoded
   mimeType: string;
@@ -119,9 +144,10 @@ ${pdfData.text.substring(0, 8000)}
       }
     }
 
-    // Build prompt with multi-page context
+    // Build prompt with multi-page context and the client's chart of accounts
+    const chartPrompt = await getClientChartPrompt(clientId);
     const analysisPrompt = `วิเคราะห์เอกสารบัญชีนี้สำหรับลูกค้า: ${clientName || "ไม่ระบุ"} (ID: ${clientId || "ไม่ระบุ"})
-${additionalContext}
+${additionalContext}${chartPrompt}
 ดึงข้อมูลและสร้าง Journal Entry ตามมาตรฐานการบัญชีไทย (TAS)
 ส่งผลลัพธ์เป็น JSON`;
 
@@ -0,0 +1,200 @@
+import { Request, Response } from "express";
+import * as admin from "firebase-admin";
+
+interface PostingLine {
+  date: string;
+  doc_no?: string;
+  description?: string;
+  account_code: string;
+  account_name?: string;
+  debit: number;
+  credit: number;
+  [key: string]: unknown;
+}
+
+interface SequenceConfig {
+  prefix: string;
+  reset: "monthly" | "yearly";
+  padding: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const JOURNAL_TYPES = ["JV", "PV", "RV", "SV", "PJ"];
+
+// Line fields a caller may set; numbering, tenancy and audit fields are written here
+const POSTING_FIELDS = [
+  "date", "description", "account_code", "account_name", "debit", "credit",
+  "department_code", "branch_code", "source_doc_id", "system_generated", "reversal_of",
+  "currency", "exchange_rate", "foreign_debit", "foreign_credit",
+];
+// Reversal links are only ever set on an already-posted entry
+const REVERSAL_LINK_FIELDS = ["reversed_by", "reversed_at"];
+
+const pickPostingFields = (line: PostingLine): Record<string, unknown> =>
+  Object.fromEntries(POSTING_FIELDS.filter(key => line[key] !== undefined).map(key => [key, line[key]]));
+
+/**
+ * Sequence settings for one journal type, read inside the transaction.
+ * Mirrors the client defaults in services/voucherNumbering.ts.
+ */
+const getSequenceConfig = async (
+  tx: admin.firestore.Transaction,
+  clientId: string,
+  journalType: string
+): Promise<SequenceConfig> => {
+  const configDoc = await tx.get(admin.firestore().collection("voucher_configs").doc(clientId));
+  const stored = configDoc.data()?.sequences?.[journalType];
+  return { prefix: journalType, reset: "monthly", padding: 4, ...(stored || {}) };
+};
+
+/** JV-202403-0001 (monthly) or JV-2024-0001 (yearly) */
+const formatVoucherNo = (config: SequenceConfig, periodKey: string, runningNumber: number): string =>
+  `${config.prefix}-${periodKey.replace("-", "")}-${String(runningNumber).padStart(config.padding, "0")}`;
+
+/**
+ * Periods (YYYY-MM) that block posting for a client, read inside the transaction
+ * so a lock taken while the request is in flight still wins.
+ * Honours period_locks/{clientId}_{YYYY-MM} and the legacy workflow flag on the client.
+ */
+const findLockedPeriods = async (
+  tx: admin.firestore.Transaction,
+  clientId: string,
+  periods: string[]
+): Promise<string[]> => {
+  const firestore = admin.firestore();
+  const clientDoc = await tx.get(firestore.collection("clients").doc(clientId));
+  const workflow = clientDoc.data()?.current_workflow;
+
+  const locked: string[] = [];
+  for (const period of periods) {
+    const lockDoc = await tx.get(firestore.collection("period_locks").doc(`${clientId}_${period}`));
+    const workflowLocked = workflow?.is_locked === true && workflow?.month === period;
+    if (lockDoc.data()?.is_locked === true || workflowLocked) {
+      locked.push(period);
+    }
+  }
+  return locked;
+};
+
+/**
+ * Post a balanced set of GL lines for a client as one numbered voucher
+ * The Admin SDK bypasses Firestore rules, so period locks are enforced here too.
+ * doc_no comes from voucher_sequences in the same transaction as the lines;
+ * a doc_no supplied by the caller is kept as reference_no.
+ */
+export const postGLEntriesHandler = async (req: Request, res: Response) => {
+  const { clientId } = req.params;
+  const lines: PostingLine[] = Array.isArray(req.body?.entries) ? req.body.entries : [];
+  const journalType: string = req.body?.journalType || "JV";
+
+  if (!JOURNAL_TYPES.includes(journalType)) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown journal type: ${journalType}`,
+      code: "GL_INVALID_JOURNAL_TYPE",
+    });
+  }
+
+  if (lines.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: "No GL entries provided",
+      code: "GL_EMPTY",
+    });
+  }
+
+  const invalid = lines.findIndex(l =>
+    typeof l.account_code !== "string" || !l.account_code ||
+    typeof l.date !== "string" || !DATE_PATTERN.test(l.date) ||
+    typeof l.debit !== "number" || typeof l.credit !== "number" ||
+    l.debit < 0 || l.credit < 0
+  );
+  if (invalid !== -1) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid GL entry at index ${invalid}`,
+      code: "GL_INVALID_ENTRY",
+    });
+  }
+
+  const linked = lines.findIndex(l => REVERSAL_LINK_FIELDS.some(key => key in l));
+  if (linked !== -1) {
+    return res.status(400).json({
+      success: false,
+      error: `GL entry at index ${linked} cannot be posted already reversed`,
+      code: "GL_INVALID_ENTRY",
+    });
+  }
+
+  const totalDebit = lines.reduce((sum, l) => sum + l.debit, 0);
+  const totalCredit = lines.reduce((sum, l) => sum + l.credit, 0);
+  if (Math.abs(totalDebit - totalCredit) > 0.01) {
+    return res.status(400).json({
+      success: false,
+      error: `Journal out of balance: Debit ${totalDebit.toFixed(2)} != Credit ${totalCredit.toFixed(2)}`,
+      code: "GL_OUT_OF_BALANCE",
+    });
+  }
+
+  const periods = Array.from(new Set(lines.map(l => l.date.slice(0, 7)))).sort();
+
+  try {
+    const firestore = admin.firestore();
+    const result = await firestore.runTransaction(async (tx) => {
+      // Firestore transactions require every read before the first write
+      const locked = await findLockedPeriods(tx, clientId, periods);
+      if (locked.length > 0) {
+        return { locked, docNo: "", ids: [] as string[] };
+      }
+
+      const config = await getSequenceConfig(tx, clientId, journalType);
+      const voucherDate = lines[0].date;
+      const periodKey = config.reset === "yearly" ? voucherDate.slice(0, 4) : voucherDate.slice(0, 7);
+      const sequenceRef = firestore.collection("voucher_sequences").doc(`${clientId}_${journalType}_${periodKey}`);
+      const sequenceDoc = await tx.get(sequenceRef);
+      const next = (sequenceDoc.data()?.lastNumber || 0) + 1;
+      const docNo = formatVoucherNo(config, periodKey, next);
+
+      tx.set(sequenceRef, {
+        id: sequenceRef.id,
+        clientId,
+        journalType,
+        periodKey,
+        lastNumber: next,
+        updatedAt: new Date().toISOString(),
+      });
+      const ids = lines.map(line => {
+        const [year, month] = line.date.split("-");
+        const docRef = firestore.collection("gl_entries").doc();
+        tx.set(docRef, {
+          ...pickPostingFields(line),
+          ...(line.doc_no ? { reference_no: line.doc_no } : {}),
+          doc_no: docNo,
+          journal_type: journalType,
+          clientId,
+          year: Number(year),
+          month,
+          period: `${year}-${month}`,
+          posted_by: req.user?.uid,
+          posted_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return docRef.id;
+      });
+      return { locked, docNo, ids };
+    });
+
+    if (result.locked.length > 0) {
+      return res.status(423).json({
+        success: false,
+        error: `Period locked: ${result.locked.join(", ")}`,
+        code: "PERIOD_LOCKED",
+        periods: result.locked,
+      });
+    }
+
+    res.json({ success: true, docNo: result.docNo, ids: result.ids });
+  } catch (error) {
+    console.error("Error posting GL entries:", error);
+    res.status(500).json({ success: false, error: "Failed to post GL entries" });
+  }
+};
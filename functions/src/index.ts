@@ -5,6 +5,7 @@ import cors from "cors";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { analyzeDocumentHandler } from "./gemini";
+import { postGLEntriesHandler } from "./glPosting";
 import { verifyAuth, checkRole, checkClientAccess } from "./middleware";
 
 // Initialize Firebase Admin
@@ -270,6 +271,13 @@ app.get("/api/clients/:clientId/documents",
   }
 );
 
+// Post GL entries for a client (rejects locked periods)
+app.post("/api/clients/:clientId/gl-entries",
+  verifyAuth,
+  checkClientAccess,
+  postGLEntriesHandler
+);
+
 // ======================
 // CLIENT-SIDE LOG COLLECTION
 // ======================
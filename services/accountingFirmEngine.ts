@@ -12,15 +12,24 @@
  * 5. Client Management (จัดการลูกค้า)
  */
 
-import { Client, DocumentRecord, PostedGLEntry, FixedAsset, Staff, BankTransaction, AccountingResponse } from '../types';
+import { Client, DocumentRecord, PostedGLEntry, FixedAsset, Staff, BankTransaction, AccountingResponse, JournalType } from '../types';
 import { databaseService } from './database';
 import { analyzeDocument } from './geminiService';
-import { validateGLPosting, GLPostingRequest, ValidationResult } from './accountingValidation';
+import { validateGLPosting, ValidationResult } from './accountingValidation';
 import financialStatements from './financialStatements';
 import periodClosing from './periodClosing';
 import vatService from './vatReturn';
 import whtService from './whtCertificate';
 import bankReconciliation from './bankReconciliation';
+import { inferDocumentJournalType, postVoucher, postDraftVouchers, VoucherPostingResult } from './voucherNumbering';
+import { isForeignCurrency, getRateForDate, getTransactionRate, applyExchangeRate } from './foreignExchange';
+import { loadCostCenterSetup, calculateAllocations } from './costCenters';
+import { recognizeSchedules } from './amortizationSchedules';
+import { runRecurringJournals } from './recurringJournals';
+import { postDepreciation } from './fixedAssets';
+import { calculateCITAccrual } from './corporateIncomeTax';
+import { getFiscalYearEndMonth, getFiscalYearOf, shiftYears } from './fiscalYear';
+import { branchTag } from './branches';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -119,6 +128,7 @@ export class AccountingFirmEngine {
                 status: 'processing',
                 assigned_to: options.staffId || null,
                 client_name: '',
+                clientId,
                 amount: 0,
                 ai_data: null
             };
@@ -155,7 +165,7 @@ export class AccountingFirmEngine {
                 );
 
                 if (postResult.success) {
-                    await this.updateDocumentStatus(docId, 'approved', aiResult);
+                    await this.updateDocumentStatus(docId, 'approved', aiResult, postResult.exchangeRate);
 
                     return {
                         success: true,
@@ -235,18 +245,19 @@ export class AccountingFirmEngine {
         clientId: string,
         docId: string,
         userId: string
-    ): Promise<{ success: boolean; entryIds?: string[]; errors?: string[] }> {
+    ): Promise<{ success: boolean; entryIds?: string[]; exchangeRate?: number; errors?: string[] }> {
 
-        // Convert AI result to GL entries
-        const glEntries: Omit<PostedGLEntry, 'id'>[] = aiResult.accounting_entry.journal_lines.map(
+        // Convert AI result to GL entries (doc_no is issued from the voucher sequence)
+        let glEntries: Omit<PostedGLEntry, 'id' | 'doc_no'>[] = aiResult.accounting_entry.journal_lines.map(
             (line, index) => ({
                 clientId,
                 date: aiResult.header_data.issue_date,
-                doc_no: aiResult.header_data.inv_number,
+                reference_no: aiResult.header_data.inv_number,
                 description: aiResult.accounting_entry.transaction_description,
                 account_code: line.account_code,
                 account_name: line.account_name_th,
                 department_code: line.department_code,
+                ...branchTag(aiResult, line),
                 debit: line.account_side === 'DEBIT' ? line.amount : 0,
                 credit: line.account_side === 'CREDIT' ? line.amount : 0,
                 source_doc_id: docId,
@@ -255,35 +266,42 @@ export class AccountingFirmEngine {
             })
         );
 
-        // Validate before posting
-        const periodMonth = aiResult.header_data.issue_date.slice(0, 7);
-        const validationRequest: GLPostingRequest = {
-            entries: glEntries as any,
-            clientId,
-            periodMonth,
-            sourceDocId: docId,
-            userId
-        };
-
-        const validation = await validateGLPosting(validationRequest);
+        const journalType = inferDocumentJournalType(glEntries);
+        const { currency, issue_date } = aiResult.header_data;
 
-        if (!validation.isValid) {
-            return {
-                success: false,
-                errors: validation.errors.map(e => e.message)
-            };
+        // Foreign-currency documents are booked in THB at the document or table rate
+        let exchangeRate: number | undefined;
+        if (isForeignCurrency(currency)) {
+            exchangeRate = aiResult.header_data.exchange_rate
+                ?? await getTransactionRate(currency, issue_date, journalType === 'SV' ? 'buying' : 'selling')
+                ?? undefined;
+            if (!exchangeRate) {
+                return {
+                    success: false,
+                    errors: [`No ${currency} exchange rate on or before ${issue_date}`]
+                };
+            }
+            glEntries = applyExchangeRate(glEntries, currency, exchangeRate);
         }
 
-        // Post entries
-        try {
-            const entryIds = await databaseService.addGLEntries(glEntries as any);
-            return { success: true, entryIds };
-        } catch (error) {
+        // Validate and post under the next voucher number
+        const result = await postVoucher({
+            clientId,
+            journalType,
+            date: issue_date,
+            entries: glEntries,
+            userId,
+            sourceDocId: docId
+        });
+
+        if (!result.success) {
             return {
                 success: false,
-                errors: [error instanceof Error ? error.message : 'Failed to post entries']
+                errors: result.validation.errors.map(e => e.message)
             };
         }
+
+        return { success: true, entryIds: result.ids, exchangeRate };
     }
 
     /**
@@ -300,9 +318,10 @@ export class AccountingFirmEngine {
         }>,
         clientId: string,
         entryDate: string,
-        docNo: string,
         description: string,
-        userId: string
+        userId: string,
+        journalType: JournalType = 'JV',
+        referenceNo?: string
     ): Promise<ProcessingResult> {
 
         // Validate balance
@@ -319,11 +338,11 @@ export class AccountingFirmEngine {
             };
         }
 
-        // Create GL entries
-        const glEntries: Omit<PostedGLEntry, 'id'>[] = entries.map(entry => ({
+        // Create GL entries (doc_no is issued from the voucher sequence)
+        const glEntries: Omit<PostedGLEntry, 'id' | 'doc_no'>[] = entries.map(entry => ({
             clientId,
             date: entryDate,
-            doc_no: docNo,
+            ...(referenceNo ? { reference_no: referenceNo } : {}),
             description: entry.description || description,
             account_code: entry.accountCode,
             account_name: entry.accountName,
@@ -333,25 +352,31 @@ export class AccountingFirmEngine {
             created_at: new Date().toISOString()
         }));
 
-        try {
-            const entryIds = await databaseService.addGLEntries(glEntries as any);
+        const result = await postVoucher({
+            clientId,
+            journalType,
+            date: entryDate,
+            entries: glEntries,
+            userId
+        });
 
-            return {
-                success: true,
-                status: 'completed',
-                message: `Posted ${entryIds.length} journal entries`,
-                messageTh: `บันทึกบัญชี ${entryIds.length} รายการสำเร็จ`,
-                data: { entryIds, totalAmount: totalDebit }
-            };
-        } catch (error) {
+        if (!result.success) {
             return {
                 success: false,
                 status: 'failed',
                 message: 'Failed to post journal entries',
                 messageTh: 'ไม่สามารถบันทึกบัญชีได้',
-                errors: [error instanceof Error ? error.message : String(error)]
+                errors: result.validation.errors.map(e => e.message)
             };
         }
+
+        return {
+            success: true,
+            status: 'completed',
+            message: `Posted ${result.ids.length} journal entries as ${result.docNo}`,
+            messageTh: `บันทึกบัญชี ${result.ids.length} รายการสำเร็จ เลขที่ ${result.docNo}`,
+            data: { entryIds: result.ids, docNo: result.docNo, totalAmount: totalDebit }
+        };
     }
 
     // ==========================================================================
@@ -547,6 +572,9 @@ export class AccountingFirmEngine {
         options: {
             calculateDepreciation?: boolean;
             calculateAccruals?: boolean;
+            postRecurringJournals?: boolean;
+            revalueForeignCurrency?: boolean;
+            allocateSharedCosts?: boolean;
             generateClosingEntries?: boolean;
             userId?: string;
         } = {}
@@ -575,24 +603,114 @@ export class AccountingFirmEngine {
 
             // Step 1: Calculate Depreciation
             if (options.calculateDepreciation !== false && assets.length > 0) {
-                const depreResult = periodClosing.calculateDepreciation(assets, clientId, period);
+                const depreResult = await postDepreciation(clientId, period, options.userId || 'system');
+                errors.push(...depreResult.errors);
 
                 if (depreResult.entries.length > 0) {
-                    await databaseService.addGLEntries(depreResult.entries);
-                    results.push(`คำนวณค่าเสื่อมราคา ${depreResult.entries.length} รายการ (${depreResult.totalDepreciation.toLocaleString()} บาท)`);
+                    periodGL.push(...depreResult.entries);
+                    results.push(`คำนวณค่าเสื่อมราคา ${depreResult.assets.length} รายการ (${depreResult.totalDepreciation.toLocaleString()} บาท)`);
+                }
+            }
+
+            // Step 2: Revalue foreign-currency bank, AR and AP balances at month end
+            if (options.revalueForeignCurrency !== false) {
+                const [year, month] = period.split('-').map(Number);
+                const periodEnd = `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+                const currencies = [...new Set(
+                    glEntries.filter(e => isForeignCurrency(e.currency) && e.date <= periodEnd).map(e => e.currency as string)
+                )];
+
+                const closingRates: Record<string, { buying: number; selling: number }> = {};
+                for (const currency of currencies) {
+                    const rate = await getRateForDate(currency, periodEnd);
+                    if (rate) {
+                        closingRates[currency] = rate;
+                    } else {
+                        errors.push(`No ${currency} exchange rate on or before ${periodEnd}`);
+                    }
+                }
+
+                const fxResult = periodClosing.calculateFXRevaluation(glEntries, closingRates, clientId, period);
+                if (fxResult.entries.length > 0) {
+                    this.collectPostingErrors(
+                        await postDraftVouchers(clientId, 'JV', fxResult.entries, options.userId || 'system'),
+                        errors
+                    );
+                    // Revaluation gains/losses belong to this period's P&L
+                    periodGL.push(...fxResult.entries);
+                    results.push(`ปรับปรุงอัตราแลกเปลี่ยน (กำไร ${fxResult.totalGain.toLocaleString()} / ขาดทุน ${fxResult.totalLoss.toLocaleString()} บาท)`);
+                }
+            }
+
+            // Step 3: Post recurring journals; drafts not set to auto-post wait for review
+            if (options.postRecurringJournals !== false) {
+                const recurring = await runRecurringJournals(clientId, period, options.userId || 'system');
+                errors.push(...recurring.errors);
+                if (recurring.posted.length > 0) {
+                    periodGL.push(...recurring.posted.filter(e => e.date.startsWith(period)));
+                    results.push(`บันทึกรายการประจำ ${new Set(recurring.posted.map(e => e.doc_no)).size} รายการ`);
+                }
+                if (recurring.pending.length > 0) {
+                    results.push(`รายการประจำรอตรวจสอบ ${recurring.pending.length} รายการ`);
+                }
+            }
+
+            // Step 4: Recognize prepaid, deferred income and accrual schedules
+            if (options.calculateAccruals !== false) {
+                const recognition = await recognizeSchedules(clientId, period, options.userId || 'system');
+                errors.push(...recognition.errors);
+                if (recognition.entries.length > 0) {
+                    periodGL.push(...recognition.entries);
+                    results.push(`รับรู้รายการตัดจ่าย/รายได้รับล่วงหน้า ${recognition.schedules.length} รายการ`);
+                }
+            }
+
+            // Step 5: Allocate shared costs to cost centers
+            if (options.allocateSharedCosts !== false) {
+                const { allocationRules } = await loadCostCenterSetup(clientId);
+                if (allocationRules.some(r => r.isActive)) {
+                    const allocation = calculateAllocations(periodGL, allocationRules, clientId, period);
+                    errors.push(...allocation.errors);
+
+                    if (allocation.entries.length > 0) {
+                        this.collectPostingErrors(
+                            await postDraftVouchers(clientId, 'JV', allocation.entries, options.userId || 'system'),
+                            errors
+                        );
+                        periodGL.push(...allocation.entries);
+                        results.push(`ปันส่วนค่าใช้จ่ายส่วนกลาง ${allocation.lines.length} รายการ`);
+                    }
                 }
             }
 
-            // Step 2: Generate Closing Entries (P&L → Retained Earnings)
+            // Step 6: Generate Closing Entries (P&L → Retained Earnings)
             if (options.generateClosingEntries !== false) {
-                const closingResult = periodClosing.generateClosingEntries(periodGL, clientId, period);
+                // Accrue year-to-date CIT (tiered rates, add-backs, losses) less earlier months' accruals
+                const fiscalYear = getFiscalYearOf(`${period}-01`, getFiscalYearEndMonth(client));
+                const ytdGL = [...glEntries.filter(e => !e.date.startsWith(period)), ...periodGL];
+                const cit = calculateCITAccrual(ytdGL, client, fiscalYear, period, { assets });
+                const closingResult = periodClosing.generateClosingEntries(periodGL, clientId, period, 0.20, cit.computation.totalAddBack, cit.accrual);
 
                 if (closingResult.closingEntries.length > 0) {
-                    await databaseService.addGLEntries(closingResult.closingEntries);
+                    this.collectPostingErrors(
+                        await postDraftVouchers(clientId, 'JV', closingResult.closingEntries, options.userId || 'system'),
+                        errors
+                    );
                     results.push(`บันทึกรายการปิดบัญชี (กำไรสุทธิ: ${closingResult.netProfit.toLocaleString()} บาท)`);
                 }
             }
 
+            if (errors.length > 0) {
+                return {
+                    success: false,
+                    status: 'failed',
+                    message: 'Monthly closing completed with posting errors',
+                    messageTh: 'ปิดบัญชีเสร็จสิ้นแต่มีรายการที่บันทึกไม่สำเร็จ',
+                    data: { results, period, clientId },
+                    errors
+                };
+            }
+
             return {
                 success: true,
                 status: 'completed',
@@ -648,12 +766,17 @@ export class AccountingFirmEngine {
             glEntries, client, periodEnd, periodStart
         );
 
-        const incomeStatement = financialStatements.generateIncomeStatement(
-            glEntries, client, periodStart, periodEnd
-        );
+        // Statutory statements carry the same period of the prior year as comparative
+        const incomeStatement = financialStatements.generateComparativeIncomeStatement(glEntries, client, {
+            periodStart,
+            periodEnd,
+            priorStart: shiftYears(periodStart, -1),
+            priorEnd: shiftYears(periodEnd, -1)
+        });
 
-        const balanceSheet = financialStatements.generateBalanceSheet(
-            glEntries, client, periodEnd
+        const balanceSheet = financialStatements.generateComparativeBalanceSheet(
+            glEntries, client, periodEnd,
+            financialStatements.getComparativeBalanceDate('prior_ytd', periodEnd, getFiscalYearEndMonth(client))
         );
 
         // Generate HTML for printing
@@ -876,6 +999,12 @@ export class AccountingFirmEngine {
     // HELPER METHODS
     // ==========================================================================
 
+    private collectPostingErrors(postings: VoucherPostingResult[], errors: string[]): void {
+        postings
+            .filter(p => !p.success)
+            .forEach(p => errors.push(...p.validation.errors.map(e => e.message)));
+    }
+
     private async validateAIResult(
         aiResult: AccountingResponse,
         clientId: string
@@ -903,16 +1032,27 @@ export class AccountingFirmEngine {
     private async updateDocumentStatus(
         docId: string,
         status: DocumentRecord['status'],
-        aiData?: AccountingResponse
+        aiData?: AccountingResponse,
+        exchangeRate?: number
     ): Promise<void> {
         const doc = await this.getDocumentById(docId);
         if (doc) {
+            const grandTotal = aiData?.financials?.grand_total;
+            const currency = aiData?.header_data?.currency;
+            const rate = exchangeRate ?? aiData?.header_data?.exchange_rate;
+            const foreign = isForeignCurrency(currency) && grandTotal !== undefined;
+
             await databaseService.updateDocument({
                 ...doc,
                 status,
                 ai_data: aiData || doc.ai_data,
                 client_name: aiData?.parties?.client_company?.name || doc.client_name,
-                amount: aiData?.financials?.grand_total || doc.amount
+                amount: foreign && rate ? Math.round(grandTotal * rate * 100) / 100 : (grandTotal || doc.amount),
+                ...(foreign ? {
+                    currency,
+                    foreign_amount: grandTotal,
+                    ...(rate ? { exchange_rate: rate } : {})
+                } : {})
             });
         }
         this.processingQueue.set(docId, status === 'approved' ? 'completed' : 'requires_review');
@@ -4,8 +4,13 @@
  * Ensures data integrity before posting to ledger
  */
 
-import { PostedGLEntry, JournalLine, Client, DocumentRecord, VendorRule } from '../types';
+import { PostedGLEntry, JournalLine, Client, DocumentRecord, VendorRule, ChartOfAccount } from '../types';
 import { databaseService } from './database';
+import { THAI_CHART_OF_ACCOUNTS, loadClientChart, getClientAccounts } from './chartOfAccounts';
+
+// Re-exported so existing imports keep working
+export type { ChartOfAccount } from '../types';
+export { THAI_CHART_OF_ACCOUNTS } from './chartOfAccounts';
 
 // ============================================================================
 // TYPES
@@ -40,100 +45,6 @@ export interface GLPostingRequest {
   userId: string;
 }
 
-export interface ChartOfAccount {
-  code: string;
-  name: string;
-  nameTh: string;
-  type: 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
-  subType?: string;
-  isActive: boolean;
-  normalBalance: 'debit' | 'credit';
-  parentCode?: string;
-}
-
-// ============================================================================
-// THAI CHART OF ACCOUNTS (STANDARD)
-// ============================================================================
-
-export const THAI_CHART_OF_ACCOUNTS: ChartOfAccount[] = [
-  // Assets (1xxxx)
-  { code: '11100', name: 'Cash', nameTh: 'เงินสด', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11200', name: 'Cash at Bank', nameTh: 'เงินฝากธนาคาร', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11300', name: 'Accounts Receivable', nameTh: 'ลูกหนี้การค้า', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11301', name: 'Allowance for Doubtful Accounts', nameTh: 'ค่าเผื่อหนี้สงสัยจะสูญ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '11400', name: 'Inventory', nameTh: 'สินค้าคงเหลือ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11500', name: 'Other Receivables', nameTh: 'ลูกหนี้อื่น', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11540', name: 'Input VAT', nameTh: 'ภาษีซื้อ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11541', name: 'Undue Input VAT', nameTh: 'ภาษีซื้อยังไม่ถึงกำหนด', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11600', name: 'Advance Payment', nameTh: 'เงินทดรองจ่าย', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11700', name: 'Accrued Income', nameTh: 'รายได้ค้างรับ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11800', name: 'Prepaid Expenses', nameTh: 'ค่าใช้จ่ายจ่ายล่วงหน้า', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '11900', name: 'WHT Receivable', nameTh: 'ภาษีหัก ณ ที่จ่ายค้างรับ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
-  { code: '12100', name: 'Land', nameTh: 'ที่ดิน', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
-  { code: '12200', name: 'Building', nameTh: 'อาคาร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
-  { code: '12201', name: 'Accumulated Depreciation - Building', nameTh: 'ค่าเสื่อมราคาสะสม-อาคาร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
-  { code: '12300', name: 'Vehicle', nameTh: 'ยานพาหนะ', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
-  { code: '12301', name: 'Accumulated Depreciation - Vehicle', nameTh: 'ค่าเสื่อมราคาสะสม-ยานพาหนะ', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
-  { code: '12400', name: 'Equipment', nameTh: 'อุปกรณ์สำนักงาน', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
-  { code: '12401', name: 'Accumulated Depreciation - Equipment', nameTh: 'ค่าเสื่อมราคาสะสม-อุปกรณ์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
-  { code: '12500', name: 'Computer & Software', nameTh: 'คอมพิวเตอร์และซอฟต์แวร์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
-  { code: '12501', name: 'Accumulated Depreciation - Computer', nameTh: 'ค่าเสื่อมราคาสะสม-คอมพิวเตอร์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
-
-  // Liabilities (2xxxx)
-  { code: '21100', name: 'Short-term Loan', nameTh: 'เงินกู้ยืมระยะสั้น', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21200', name: 'Accounts Payable', nameTh: 'เจ้าหนี้การค้า', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21300', name: 'Accrued Expenses', nameTh: 'ค่าใช้จ่ายค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21400', name: 'WHT Payable', nameTh: 'ภาษีหัก ณ ที่จ่ายค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21540', name: 'Output VAT', nameTh: 'ภาษีขาย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21541', name: 'Undue Output VAT', nameTh: 'ภาษีขายยังไม่ถึงกำหนด', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21600', name: 'CIT Payable', nameTh: 'ภาษีเงินได้นิติบุคคลค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21700', name: 'Deferred Income', nameTh: 'รายได้รับล่วงหน้า', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21800', name: 'Bonus Provision', nameTh: 'ประมาณการโบนัส', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '21900', name: 'Leave Provision', nameTh: 'ประมาณการค่าชดเชยพนักงาน', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
-  { code: '22100', name: 'Warranty Provision', nameTh: 'ประมาณการค่ารับประกัน', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
-  { code: '22200', name: 'Legal Provision', nameTh: 'ประมาณการหนี้สินทางกฎหมาย', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
-  { code: '23100', name: 'Long-term Loan', nameTh: 'เงินกู้ยืมระยะยาว', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
-
-  // Equity (3xxxx)
-  { code: '31100', name: 'Share Capital', nameTh: 'ทุนจดทะเบียน', type: 'equity', isActive: true, normalBalance: 'credit' },
-  { code: '31200', name: 'Paid-up Capital', nameTh: 'ทุนชำระแล้ว', type: 'equity', isActive: true, normalBalance: 'credit' },
-  { code: '32000', name: 'Retained Earnings', nameTh: 'กำไรสะสม', type: 'equity', isActive: true, normalBalance: 'credit' },
-  { code: '33000', name: 'Legal Reserve', nameTh: 'สำรองตามกฎหมาย', type: 'equity', isActive: true, normalBalance: 'credit' },
-  { code: '39000', name: 'Income Summary', nameTh: 'สรุปรายได้', type: 'equity', isActive: true, normalBalance: 'credit' },
-
-  // Revenue (4xxxx)
-  { code: '41100', name: 'Sales Revenue', nameTh: 'รายได้จากการขายสินค้า', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '41200', name: 'Service Revenue', nameTh: 'รายได้จากการให้บริการ', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '41300', name: 'Other Revenue', nameTh: 'รายได้อื่น', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '42100', name: 'Interest Income', nameTh: 'ดอกเบี้ยรับ', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '42200', name: 'Dividend Income', nameTh: 'เงินปันผลรับ', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '42300', name: 'Gain on Disposal', nameTh: 'กำไรจากการจำหน่ายสินทรัพย์', type: 'revenue', isActive: true, normalBalance: 'credit' },
-  { code: '42400', name: 'FX Gain', nameTh: 'กำไรจากอัตราแลกเปลี่ยน', type: 'revenue', isActive: true, normalBalance: 'credit' },
-
-  // Expenses (5xxxx)
-  { code: '51100', name: 'Cost of Goods Sold', nameTh: 'ต้นทุนขาย', type: 'expense', isActive: true, normalBalance: 'debit' },
-  { code: '51200', name: 'Cost of Services', nameTh: 'ต้นทุนบริการ', type: 'expense', isActive: true, normalBalance: 'debit' },
-  { code: '52100', name: 'Salary & Wages', nameTh: 'เงินเดือนและค่าจ้าง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52200', name: 'Social Security', nameTh: 'ประกันสังคม', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52300', name: 'Rent Expense', nameTh: 'ค่าเช่า', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52400', name: 'Utilities', nameTh: 'ค่าสาธารณูปโภค', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52500', name: 'Communication', nameTh: 'ค่าโทรศัพท์และอินเทอร์เน็ต', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52600', name: 'Transportation', nameTh: 'ค่าเดินทาง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52700', name: 'Entertainment', nameTh: 'ค่ารับรอง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52800', name: 'Professional Fees', nameTh: 'ค่าวิชาชีพ', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '52900', name: 'Insurance', nameTh: 'ค่าประกันภัย', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '53000', name: 'Non-deductible VAT', nameTh: 'ภาษีซื้อไม่ขอคืน', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '53100', name: 'Office Supplies', nameTh: 'วัสดุสำนักงาน', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '53200', name: 'Repair & Maintenance', nameTh: 'ค่าซ่อมแซมและบำรุงรักษา', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '53300', name: 'Advertising', nameTh: 'ค่าโฆษณา', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit' },
-  { code: '53400', name: 'Depreciation Expense', nameTh: 'ค่าเสื่อมราคา', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '53500', name: 'Bad Debt Expense', nameTh: 'หนี้สูญ', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
-  { code: '54100', name: 'Bank Charges', nameTh: 'ค่าธรรมเนียมธนาคาร', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
-  { code: '54200', name: 'Interest Expense', nameTh: 'ดอกเบี้ยจ่าย', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
-  { code: '54300', name: 'FX Loss', nameTh: 'ขาดทุนจากอัตราแลกเปลี่ยน', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
-  { code: '58000', name: 'Corporate Income Tax', nameTh: 'ภาษีเงินได้นิติบุคคล', type: 'expense', isActive: true, normalBalance: 'debit' },
-];
-
 // ============================================================================
 // VALIDATION FUNCTIONS
 // ============================================================================
@@ -171,12 +82,23 @@ export const validateGLPosting = async (request: GLPostingRequest): Promise<Vali
     });
   }
 
-  // 3. Validate each entry
+  // 3. Validate each entry against the client's chart of accounts
+  let accounts: ChartOfAccount[] = THAI_CHART_OF_ACCOUNTS;
+  try {
+    accounts = (await loadClientChart(request.clientId)).accounts;
+  } catch (e) {
+    warnings.push({
+      code: 'CHART_LOAD_FAILED',
+      message: 'Could not load client chart of accounts, validated against standard chart',
+      messageTh: 'ไม่สามารถโหลดผังบัญชีของลูกค้าได้ ใช้ผังบัญชีมาตรฐานในการตรวจสอบ',
+    });
+  }
+
   for (let i = 0; i < request.entries.length; i++) {
     const entry = request.entries[i];
 
     // Check account code exists
-    const account = THAI_CHART_OF_ACCOUNTS.find(a => a.code === entry.account_code);
+    const account = accounts.find(a => a.code === entry.account_code);
     if (!account) {
       errors.push({
         code: 'GL_INVALID_ACCOUNT',
@@ -185,6 +107,14 @@ export const validateGLPosting = async (request: GLPostingRequest): Promise<Vali
         field: `entries[${i}].account_code`,
         severity: 'error',
       });
+    } else if (account.mergedInto) {
+      errors.push({
+        code: 'GL_MERGED_ACCOUNT',
+        message: `Account ${entry.account_code} was merged into ${account.mergedInto}`,
+        messageTh: `บัญชี ${entry.account_code} ถูกรวมเข้ากับบัญชี ${account.mergedInto} แล้ว`,
+        field: `entries[${i}].account_code`,
+        severity: 'error',
+      });
     } else if (!account.isActive) {
       warnings.push({
         code: 'GL_INACTIVE_ACCOUNT',
@@ -260,6 +190,20 @@ export const validateGLPosting = async (request: GLPostingRequest): Promise<Vali
         severity: 'critical',
       });
     }
+
+    // Per-period locks (period_locks) are what Firestore rules enforce
+    const periods = new Set([request.periodMonth, ...request.entries.map(e => e.date?.slice(0, 7))].filter((p): p is string => !!p));
+    for (const period of Array.from(periods).sort()) {
+      const lock = await databaseService.getPeriodLock(request.clientId, period);
+      if (lock?.is_locked) {
+        errors.push({
+          code: 'PERIOD_LOCKED',
+          message: `Period ${period} is locked`,
+          messageTh: `งวด ${period} ถูกล็อคแล้ว ไม่สามารถบันทึกรายการได้`,
+          severity: 'critical',
+        });
+      }
+    }
   } catch (e) {
     warnings.push({
       code: 'CLIENT_CHECK_FAILED',
@@ -272,7 +216,8 @@ export const validateGLPosting = async (request: GLPostingRequest): Promise<Vali
   if (request.sourceDocId) {
     try {
       const existingEntries = await databaseService.getGLEntriesByClient(request.clientId);
-      const duplicate = existingEntries.find(e => e.doc_no === request.sourceDocId);
+      // Numbered vouchers keep the document / draft number as reference_no
+      const duplicate = existingEntries.find(e => (e.reference_no || e.doc_no) === request.sourceDocId);
       if (duplicate) {
         warnings.push({
           code: 'POSSIBLE_DUPLICATE',
@@ -361,6 +306,11 @@ export const canEditPeriod = async (clientId: string, periodMonth?: string): Pro
       return false;
     }
 
+    const lock = await databaseService.getPeriodLock(clientId, periodMonth || client.current_workflow?.month || '');
+    if (lock?.is_locked) {
+      return false;
+    }
+
     // If specific period month provided, check if it matches current workflow
     if (periodMonth && client.current_workflow.month !== periodMonth) {
       // Different period - assume it's a past period which should be locked
@@ -462,17 +412,17 @@ export const checkDuplicateInvoice = async (
 };
 
 /**
- * Get account by code
+ * Get account by code (client chart if loaded, else standard chart)
  */
-export const getAccountByCode = (code: string): ChartOfAccount | undefined => {
-  return THAI_CHART_OF_ACCOUNTS.find(a => a.code === code);
+export const getAccountByCode = (code: string, clientId?: string): ChartOfAccount | undefined => {
+  return getClientAccounts(clientId).find(a => a.code === code);
 };
 
 /**
- * Get all accounts by type
+ * Get all accounts by type (client chart if loaded, else standard chart)
  */
-export const getAccountsByType = (type: ChartOfAccount['type']): ChartOfAccount[] => {
-  return THAI_CHART_OF_ACCOUNTS.filter(a => a.type === type);
+export const getAccountsByType = (type: ChartOfAccount['type'], clientId?: string): ChartOfAccount[] => {
+  return getClientAccounts(clientId).filter(a => a.type === type);
 };
 
 /**
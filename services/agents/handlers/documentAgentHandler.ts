@@ -10,6 +10,7 @@ import { DocumentRecord, AccountingResponse, PostedGLEntry } from '../../types';
 import { analyzeDocument } from '../geminiService';
 import { validateGLPosting, GLPostingRequest } from '../accountingValidation';
 import { databaseService } from '../database';
+import { branchTag } from '../../branches';
 
 // ============================================================================
 // DOCUMENT AGENT TYPES
@@ -103,6 +104,7 @@ export const documentAgentHandler: AgentHandler = async (
                 account_code: line.account_code,
                 account_name: line.account_name_th,
                 department_code: line.department_code,
+                ...branchTag(aiAnalysis!, line),
                 debit: line.account_side === 'DEBIT' ? line.amount : 0,
                 credit: line.account_side === 'CREDIT' ? line.amount : 0,
                 source_doc_id: output.documentId,
@@ -0,0 +1,403 @@
+/**
+ * amortizationSchedules.ts
+ *
+ * Prepaid, Deferred Income & Accrual Schedules
+ * ทะเบียนรายจ่ายล่วงหน้า รายได้รับล่วงหน้า และรายการค้างรับ/ค้างจ่าย
+ *
+ * Schedules are stored per client and recognized at each month-end through
+ * calculateAccruals. Recognition catches up on months that were skipped and
+ * the final month takes the rounding difference, so recognizedToDate always
+ * ends at exactly the original amount. Schedules suggested from a posted
+ * invoice also reclassify the invoice amount onto the balance sheet account.
+ */
+
+import { AmortizationSchedule, AmortizationScheduleType, DocumentRecord, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { AccrualItem, calculateAccruals, CLOSING_ACCOUNTS } from './periodClosing';
+import { postDraftVouchers } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ScheduleInput = Pick<
+  AmortizationSchedule,
+  'type' | 'description' | 'vendorOrCustomer' | 'originalAmount' | 'periodMonths' | 'startDate' | 'accountCode' | 'expenseAccountCode'
+> & { sourceDocId?: string };
+
+export interface ScheduleRecognition {
+  schedule: AmortizationSchedule;
+  amount: number;
+}
+
+export interface RecognitionResult {
+  success: boolean;
+  entries: PostedGLEntry[]; // Posted lines
+  schedules: AmortizationSchedule[]; // Updated schedules
+  errors: string[];
+}
+
+export interface ScheduleSuggestion extends ScheduleInput {
+  reason: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCHEDULE_TYPE_NAMES: Record<AmortizationScheduleType, string> = {
+  prepaid: 'รายจ่ายล่วงหน้า',
+  deferred: 'รายได้รับล่วงหน้า',
+  accrued_expense: 'ค่าใช้จ่ายค้างจ่าย',
+  accrued_income: 'รายได้ค้างรับ',
+};
+
+// Balance sheet account each type defaults to
+export const DEFAULT_SCHEDULE_ACCOUNTS: Record<AmortizationScheduleType, string> = {
+  prepaid: CLOSING_ACCOUNTS.PREPAID_EXPENSE,
+  deferred: CLOSING_ACCOUNTS.DEFERRED_INCOME,
+  accrued_expense: CLOSING_ACCOUNTS.ACCRUED_EXPENSE,
+  accrued_income: CLOSING_ACCOUNTS.ACCRUED_INCOME,
+};
+
+// "12 เดือน", "12 months", "1 ปี", "รายปี", "annual"
+const SERVICE_TERM_PATTERNS: { pattern: RegExp; months?: number }[] = [
+  { pattern: /(\d{1,2})\s*(?:เดือน|months?\b)/i },
+  { pattern: /(?:1\s*ปี|รายปี|ต่อปี|annual|yearly|per\s+year|1\s*year)/i, months: 12 },
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Months from the schedule start through period (YYYY-MM), inclusive
+ */
+export const monthsElapsed = (startDate: string, period: string): number => {
+  const [startYear, startMonth] = startDate.split('-').map(Number);
+  const [year, month] = period.split('-').map(Number);
+  return (year - startYear) * 12 + (month - startMonth) + 1;
+};
+
+/**
+ * Months already recognized, counted from the schedule start
+ */
+const monthsRecognized = (schedule: AmortizationSchedule): number =>
+  schedule.lastRecognizedPeriod ? Math.max(0, monthsElapsed(schedule.startDate, schedule.lastRecognizedPeriod)) : 0;
+
+/**
+ * Schedules with an amount to recognize for period, including skipped months
+ * The unrecognized balance is spread evenly over the months left, so edits
+ * take effect prospectively.
+ */
+export const getDueRecognitions = (schedules: AmortizationSchedule[], period: string): ScheduleRecognition[] =>
+  schedules.flatMap(schedule => {
+    if (schedule.status !== 'active') return [];
+
+    const done = monthsRecognized(schedule);
+    const elapsed = Math.min(monthsElapsed(schedule.startDate, period), schedule.periodMonths);
+    if (elapsed <= done) return [];
+
+    const amount = elapsed >= schedule.periodMonths
+      ? schedule.remainingAmount
+      : round2(schedule.remainingAmount / (schedule.periodMonths - done) * (elapsed - done));
+    return amount > 0 ? [{ schedule, amount }] : [];
+  });
+
+/**
+ * Recognition entries for the due schedules (draft doc_no JV-ACCR-{period})
+ */
+export const buildRecognitionEntries = (
+  due: ScheduleRecognition[],
+  clientId: string,
+  period: string
+): PostedGLEntry[] => {
+  // calculateAccruals recognizes monthlyAmount for schedules still in their term;
+  // pass the due amount and a start in period so arrears and the last month post too
+  const items: AccrualItem[] = due.map(({ schedule, amount }) => ({
+    ...schedule,
+    startDate: `${period}-01`,
+    monthlyAmount: amount,
+  }));
+  return calculateAccruals(items, clientId, period).entries;
+};
+
+// ============================================================================
+// REGISTER
+// ============================================================================
+
+const validateInput = (input: ScheduleInput): string | null => {
+  if (!input.description.trim()) return 'กรุณาระบุรายละเอียด';
+  if (!(input.originalAmount > 0)) return 'จำนวนเงินต้องมากกว่า 0';
+  if (!Number.isInteger(input.periodMonths) || input.periodMonths < 1) return 'จำนวนเดือนต้องเป็นจำนวนเต็มตั้งแต่ 1 ขึ้นไป';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) return 'วันที่เริ่มต้นไม่ถูกต้อง';
+  if (!input.accountCode || !input.expenseAccountCode) return 'กรุณาระบุรหัสบัญชี';
+  return null;
+};
+
+/**
+ * Register a new schedule
+ */
+export const createSchedule = async (
+  clientId: string,
+  input: ScheduleInput,
+  userId: string
+): Promise<AmortizationSchedule> => {
+  const error = validateInput(input);
+  if (error) throw new Error(error);
+
+  const schedule: AmortizationSchedule = {
+    ...input,
+    id: `SCH-${clientId}-${Date.now()}`,
+    clientId,
+    description: input.description.trim(),
+    originalAmount: round2(input.originalAmount),
+    monthlyAmount: round2(input.originalAmount / input.periodMonths),
+    recognizedToDate: 0,
+    remainingAmount: round2(input.originalAmount),
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+  };
+  await databaseService.saveAmortizationSchedule(schedule);
+  return schedule;
+};
+
+/**
+ * Edit a schedule; the unrecognized balance is spread over the months left
+ */
+export const updateSchedule = async (
+  schedule: AmortizationSchedule,
+  changes: Partial<ScheduleInput>
+): Promise<AmortizationSchedule> => {
+  if (schedule.status !== 'active') throw new Error('แก้ไขได้เฉพาะรายการที่ยังใช้งานอยู่');
+
+  const input = { ...schedule, ...changes };
+  const error = validateInput(input);
+  if (error) throw new Error(error);
+  if (input.originalAmount < schedule.recognizedToDate) {
+    throw new Error('จำนวนเงินต้องไม่น้อยกว่ายอดที่รับรู้แล้ว');
+  }
+
+  const remainingAmount = round2(input.originalAmount - schedule.recognizedToDate);
+  const monthsLeft = Math.max(1, input.periodMonths - monthsRecognized(input));
+
+  const updated: AmortizationSchedule = {
+    ...input,
+    originalAmount: round2(input.originalAmount),
+    monthlyAmount: round2(remainingAmount / monthsLeft),
+    remainingAmount,
+    status: remainingAmount <= 0 ? 'completed' : 'active',
+    updatedAt: new Date().toISOString(),
+  };
+  await databaseService.saveAmortizationSchedule(updated);
+  return updated;
+};
+
+/**
+ * Stop recognizing a schedule (e.g. cancelled policy); any balance left on
+ * the balance sheet account is for the accountant to clear
+ */
+export const terminateSchedule = async (
+  schedule: AmortizationSchedule,
+  reason: string,
+  userId: string
+): Promise<AmortizationSchedule> => {
+  if (!reason.trim()) throw new Error('กรุณาระบุเหตุผลในการยกเลิก');
+
+  const terminated: AmortizationSchedule = {
+    ...schedule,
+    status: 'terminated',
+    terminatedAt: new Date().toISOString(),
+    terminatedBy: userId,
+    terminationReason: reason.trim(),
+    updatedAt: new Date().toISOString(),
+  };
+  await databaseService.saveAmortizationSchedule(terminated);
+  return terminated;
+};
+
+// ============================================================================
+// MONTH-END
+// ============================================================================
+
+/**
+ * Post the month's recognition voucher and advance recognizedToDate
+ */
+export const recognizeSchedules = async (
+  clientId: string,
+  period: string,
+  userId: string
+): Promise<RecognitionResult> => {
+  const due = getDueRecognitions(await databaseService.getAmortizationSchedules(clientId), period);
+  if (due.length === 0) {
+    return { success: true, entries: [], schedules: [], errors: [] };
+  }
+
+  const entries = buildRecognitionEntries(due, clientId, period);
+  const [result] = await postDraftVouchers(clientId, 'JV', entries, userId);
+  if (!result.success || !result.docNo) {
+    return {
+      success: false,
+      entries: [],
+      schedules: [],
+      errors: result.validation.errors.map(e => e.messageTh),
+    };
+  }
+
+  const schedules: AmortizationSchedule[] = [];
+  for (const { schedule, amount } of due) {
+    const recognizedToDate = round2(schedule.recognizedToDate + amount);
+    const remainingAmount = round2(schedule.originalAmount - recognizedToDate);
+    const updated: AmortizationSchedule = {
+      ...schedule,
+      recognizedToDate,
+      remainingAmount,
+      lastRecognizedPeriod: period,
+      status: remainingAmount <= 0 ? 'completed' : 'active',
+      updatedAt: new Date().toISOString(),
+    };
+    await databaseService.saveAmortizationSchedule(updated);
+    schedules.push(updated);
+  }
+
+  return {
+    success: true,
+    entries: entries.map(({ doc_no, ...e }, i) => ({
+      ...e,
+      id: result.ids[i],
+      doc_no: result.docNo!,
+      reference_no: doc_no,
+      journal_type: 'JV',
+    })),
+    schedules,
+    errors: [],
+  };
+};
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/**
+ * Suggest a schedule for an analyzed invoice covering several months of service
+ * Purchases become prepaid expenses, sales become deferred income. The
+ * suggestion starts in the invoice month and covers the P&L line's amount.
+ */
+export const suggestScheduleFromDocument = (doc: DocumentRecord): ScheduleSuggestion | null => {
+  const data = doc.ai_data;
+  if (!data) return null;
+
+  const text = [
+    data.accounting_entry.transaction_description,
+    ...data.accounting_entry.journal_lines.map(l => l.account_name_th),
+  ].join(' ');
+
+  let months = 0;
+  let matched = '';
+  for (const { pattern, months: fixed } of SERVICE_TERM_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    months = fixed || Number(match[1]);
+    matched = match[0];
+    break;
+  }
+  if (months < 2 || months > 60) return null;
+
+  const expenseLine = data.accounting_entry.journal_lines.find(l => l.account_side === 'DEBIT' && l.account_code.startsWith('5'));
+  const revenueLine = data.accounting_entry.journal_lines.find(l => l.account_side === 'CREDIT' && l.account_code.startsWith('4'));
+  const line = expenseLine || revenueLine;
+  if (!line || !(line.amount > 0)) return null;
+
+  const type: AmortizationScheduleType = expenseLine ? 'prepaid' : 'deferred';
+  const issueDate = data.header_data.issue_date || doc.uploaded_at.slice(0, 10);
+
+  return {
+    type,
+    description: data.accounting_entry.transaction_description || doc.filename,
+    vendorOrCustomer: data.parties.counterparty.name,
+    originalAmount: line.amount,
+    periodMonths: months,
+    startDate: `${issueDate.slice(0, 7)}-01`,
+    accountCode: DEFAULT_SCHEDULE_ACCOUNTS[type],
+    expenseAccountCode: line.account_code,
+    sourceDocId: doc.id,
+    reason: `พบระยะเวลาบริการ "${matched}" ในเอกสาร ${data.header_data.inv_number || doc.filename}`,
+  };
+};
+
+/**
+ * Move an invoice already posted to P&L onto the schedule's balance sheet account
+ * (Dr prepaid / Cr expense, or Dr revenue / Cr deferred income)
+ */
+export const buildReclassEntries = (schedule: AmortizationSchedule, date: string): PostedGLEntry[] => {
+  const toBalanceSheet = schedule.type === 'prepaid' || schedule.type === 'accrued_income';
+  const docNo = `JV-RECLASS-${schedule.sourceDocId || schedule.id}`;
+  const description = `โอนเป็น${SCHEDULE_TYPE_NAMES[schedule.type]}: ${schedule.description}`;
+  const line = (suffix: string, code: string, debit: number, credit: number): PostedGLEntry => ({
+    id: `RECLASS-${schedule.id}-${suffix}`,
+    clientId: schedule.clientId,
+    date,
+    doc_no: docNo,
+    description,
+    account_code: code,
+    account_name: code === schedule.accountCode ? SCHEDULE_TYPE_NAMES[schedule.type] : description,
+    debit,
+    credit,
+    system_generated: true,
+  });
+
+  return toBalanceSheet
+    ? [line('BS', schedule.accountCode, schedule.originalAmount, 0), line('PL', schedule.expenseAccountCode, 0, schedule.originalAmount)]
+    : [line('PL', schedule.expenseAccountCode, schedule.originalAmount, 0), line('BS', schedule.accountCode, 0, schedule.originalAmount)];
+};
+
+/**
+ * Accept a suggestion: register the schedule and post the reclassification
+ * The reclass is dated on the first day of the schedule unless a date is given
+ */
+export const createScheduleFromSuggestion = async (
+  clientId: string,
+  suggestion: ScheduleSuggestion,
+  userId: string,
+  date?: string
+): Promise<{ schedule?: AmortizationSchedule; entries: PostedGLEntry[]; errors: string[] }> => {
+  const { reason, ...input } = suggestion;
+  const reclassDate = date || input.startDate;
+
+  const draft = buildReclassEntries({ ...input, id: 'draft', clientId } as AmortizationSchedule, reclassDate);
+  const [result] = await postDraftVouchers(clientId, 'JV', draft, userId);
+  if (!result.success || !result.docNo) {
+    return { entries: [], errors: result.validation.errors.map(e => e.messageTh) };
+  }
+
+  const schedule = await createSchedule(clientId, input, userId);
+  return {
+    schedule,
+    entries: draft.map(({ doc_no, ...e }, i) => ({
+      ...e,
+      id: result.ids[i],
+      doc_no: result.docNo!,
+      reference_no: doc_no,
+      journal_type: 'JV',
+    })),
+    errors: [],
+  };
+};
+
+export const amortizationScheduleService = {
+  monthsElapsed,
+  getDueRecognitions,
+  buildRecognitionEntries,
+  createSchedule,
+  updateSchedule,
+  terminateSchedule,
+  recognizeSchedules,
+  suggestScheduleFromDocument,
+  buildReclassEntries,
+  createScheduleFromSuggestion,
+};
+
+export default amortizationScheduleService;
@@ -502,6 +502,35 @@ export const auditHelpers = {
       metadata: { entryCount, totalDebit }
     }),
 
+  logGLReverse: (
+    userId: string,
+    userName: string,
+    userRole: string,
+    originalDocNo: string,
+    reversalDocNo: string,
+    reason: string,
+    clientId: string,
+    clientName: string
+  ) =>
+    logAuditEvent({
+      category: 'GL_ENTRY',
+      action: 'GL_REVERSE',
+      userId,
+      userName,
+      userRole,
+      clientId,
+      clientName,
+      resourceType: 'gl_entry',
+      resourceId: originalDocNo,
+      resourceName: originalDocNo,
+      details: `Reversed ${originalDocNo} with ${reversalDocNo}: ${reason}`,
+      detailsTh: `กลับรายการ ${originalDocNo} ด้วย ${reversalDocNo}: ${reason}`,
+      oldValue: originalDocNo,
+      newValue: reversalDocNo,
+      status: 'success',
+      metadata: { originalDocNo, reversalDocNo, reason }
+    }),
+
   logGLValidationFail: (
     userId: string,
     userName: string,
@@ -523,6 +552,33 @@ export const auditHelpers = {
       status: 'failure'
     }),
 
+  logPeriodAction: (
+    action: 'PERIOD_CLOSE' | 'PERIOD_REOPEN',
+    userId: string,
+    userName: string,
+    userRole: string,
+    period: string,
+    clientId: string,
+    clientName: string,
+    reason?: string
+  ) =>
+    logAuditEvent({
+      category: 'GL_ENTRY',
+      action,
+      userId,
+      userName,
+      userRole,
+      clientId,
+      clientName,
+      resourceType: 'period',
+      resourceId: period,
+      resourceName: period,
+      details: `${action === 'PERIOD_CLOSE' ? 'Closed' : 'Reopened'} ${period}${reason ? `: ${reason}` : ''}`,
+      detailsTh: `${ACTION_NAMES_TH[action]} ${period}${reason ? `: ${reason}` : ''}`,
+      status: 'success',
+      metadata: { period, ...(reason ? { reason } : {}) }
+    }),
+
   // Tax
   logTaxAction: (
     action: 'TAX_PREPARE' | 'TAX_FILE' | 'VAT_RETURN_GENERATE' | 'WHT_CERTIFICATE_GENERATE',
@@ -4,6 +4,7 @@
  */
 
 import { DocumentRecord, PostedGLEntry, VendorRule, Client, AccountingResponse } from '../types';
+import { branchTag } from './branches';
 
 // Automation Rule Types
 export interface AutomationRule {
@@ -296,6 +297,7 @@ export const generateGLFromDocument = (
       account_code: line.account_code,
       account_name: line.account_name_th,
       department_code: line.department_code,
+      ...branchTag(aiData, line),
       debit: line.account_side === 'DEBIT' ? line.amount : 0,
       credit: line.account_side === 'CREDIT' ? line.amount : 0,
       system_generated: true,
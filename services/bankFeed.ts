@@ -29,7 +29,7 @@ export type BankFormat = 'SCB' | 'KBANK' | 'BBL' | 'KTB' | 'BAY' | 'AUTO';
 /**
  * Parse CSV content into rows
  */
-const parseCSV = (content: string): string[][] => {
+export const parseCSV = (content: string): string[][] => {
   const lines = content.split(/\r?\n/).filter(line => line.trim());
   return lines.map(line => {
     const result: string[] = [];
@@ -55,7 +55,7 @@ const parseCSV = (content: string): string[][] => {
 /**
  * Parse Thai date format (DD/MM/YYYY or DD-MM-YYYY) to ISO format
  */
-const parseThaiDate = (dateStr: string): string => {
+export const parseThaiDate = (dateStr: string): string => {
   const cleaned = dateStr.replace(/[^\d/-]/g, '');
   const parts = cleaned.split(/[/-]/);
 
@@ -82,7 +82,7 @@ const parseThaiDate = (dateStr: string): string => {
 /**
  * Parse amount from Thai format (may include commas, parentheses for negative)
  */
-const parseAmount = (amountStr: string): number => {
+export const parseAmount = (amountStr: string): number => {
   if (!amountStr || amountStr === '-' || amountStr === '') return 0;
 
   let cleaned = amountStr.replace(/[,\s]/g, '');
@@ -0,0 +1,63 @@
+/**
+ * branches.ts
+ *
+ * Branch Tagging
+ * การระบุสาขาในรายการบัญชี
+ *
+ * Branches follow the Revenue Department branch number printed on tax
+ * invoices: five digits, "00000" for the head office. Document postings tag
+ * each GL line from the client-side branch the document was issued to, so
+ * trial balances and P&L can be run per branch.
+ */
+
+import { AccountingResponse, Client, JournalLine, PostedGLEntry } from '../types';
+
+export const HEAD_OFFICE_BRANCH = '00000';
+
+export const UNASSIGNED_BRANCH = { code: '', name: 'ไม่ระบุสาขา' };
+
+/**
+ * "สำนักงานใหญ่", "Head Office", "สาขาที่ 2", "00002" -> RD branch number
+ * Text without a number (a branch name) is kept as is.
+ */
+export const normalizeBranchCode = (branch?: string | null): string | undefined => {
+  const value = branch?.trim();
+  if (!value) return undefined;
+  if (/สำนักงานใหญ่|head\s*office|^hq$/i.test(value)) return HEAD_OFFICE_BRANCH;
+  const digits = value.match(/\d{1,5}/);
+  return digits ? digits[0].padStart(5, '0') : value;
+};
+
+/**
+ * Branch for a GL line posted from an analyzed document
+ */
+export const getDocumentBranchCode = (data: AccountingResponse, line?: JournalLine): string | undefined =>
+  normalizeBranchCode(line?.branch_code) || normalizeBranchCode(data.parties.client_company.branch);
+
+/**
+ * Spread into a GL line; omits the field when there is no branch
+ */
+export const branchTag = (data: AccountingResponse, line?: JournalLine): Pick<PostedGLEntry, 'branch_code'> => {
+  const branch_code = getDocumentBranchCode(data, line);
+  return branch_code ? { branch_code } : {};
+};
+
+/**
+ * The client's branches, then codes used in the GL but not registered
+ */
+export const getBranchCodes = (client: Pick<Client, 'branches'>, entries: PostedGLEntry[]): string[] => {
+  const registered = (client.branches || []).map(b => normalizeBranchCode(b) || b);
+  const used = Array.from(new Set(entries.map(e => e.branch_code).filter((b): b is string => !!b)))
+    .filter(b => !registered.includes(b))
+    .sort();
+  return [...registered, ...used];
+};
+
+export const branchService = {
+  normalizeBranchCode,
+  getDocumentBranchCode,
+  branchTag,
+  getBranchCodes,
+};
+
+export default branchService;
@@ -0,0 +1,395 @@
+/**
+ * budget.ts
+ *
+ * Budgets and budget-vs-actual variance analysis
+ * งบประมาณรายบัญชีรายเดือน และรายงานเปรียบเทียบงบประมาณกับผลจริง
+ *
+ * A yearly budget (P&L accounts × 12 months) is imported from Excel. Each
+ * import for the same year is stored as a new version: v1 is the original,
+ * later versions are revisions. Reports use the latest version unless a
+ * specific one is requested.
+ */
+
+import * as XLSX from 'xlsx';
+import { Budget, BudgetLine, Client, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { parseAmount } from './bankFeed';
+import { resolveAccount, resolveAccountCode } from './chartOfAccounts';
+import { isClosingEntry } from './periodClosing';
+import { getFiscalYearEndMonth, getFiscalYearOf } from './fiscalYear';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BudgetSection = 'revenue' | 'costOfSales' | 'operatingExpenses' | 'otherIncome' | 'otherExpenses';
+
+export interface VarianceThreshold {
+  percentage: number; // Flag when |variance %| reaches this
+  minAmount: number; // ...and |variance| is at least this many THB
+}
+
+export interface VarianceAmounts {
+  budget: number;
+  actual: number;
+  variance: number; // actual - budget
+  variancePercent: number | null; // null when the budget is zero
+}
+
+export interface BudgetVarianceLine extends VarianceAmounts {
+  accountCode: string;
+  accountName: string;
+  section: BudgetSection;
+  favorable: boolean;
+  exceedsThreshold: boolean;
+}
+
+export interface BudgetVsActualReport {
+  clientId: string;
+  clientName: string;
+  fiscalYear: number;
+  budgetVersion: number;
+  budgetVersionType: Budget['versionType'];
+  fromMonth: number; // 1-12
+  toMonth: number;
+  threshold: VarianceThreshold;
+  lines: BudgetVarianceLine[];
+  totals: Record<BudgetSection | 'grossProfit' | 'netProfit', VarianceAmounts>;
+  flagged: BudgetVarianceLine[];
+  generatedAt: string;
+}
+
+export interface BudgetImportResult {
+  lines: BudgetLine[];
+  errors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_VARIANCE_THRESHOLD: VarianceThreshold = {
+  percentage: 10,
+  minAmount: 10000,
+};
+
+export const BUDGET_SECTION_NAMES: Record<BudgetSection, string> = {
+  revenue: 'รายได้จากการขาย/บริการ',
+  costOfSales: 'ต้นทุนขาย',
+  operatingExpenses: 'ค่าใช้จ่ายในการดำเนินงาน',
+  otherIncome: 'รายได้อื่น',
+  otherExpenses: 'ค่าใช้จ่ายอื่น',
+};
+
+// Accepted month headers (compared without dots/spaces, case-insensitive)
+const MONTH_HEADERS: string[][] = [
+  ['jan', 'january', 'มค', 'มกราคม'],
+  ['feb', 'february', 'กพ', 'กุมภาพันธ์'],
+  ['mar', 'march', 'มีค', 'มีนาคม'],
+  ['apr', 'april', 'เมย', 'เมษายน'],
+  ['may', 'พค', 'พฤษภาคม'],
+  ['jun', 'june', 'มิย', 'มิถุนายน'],
+  ['jul', 'july', 'กค', 'กรกฎาคม'],
+  ['aug', 'august', 'สค', 'สิงหาคม'],
+  ['sep', 'sept', 'september', 'กย', 'กันยายน'],
+  ['oct', 'october', 'ตค', 'ตุลาคม'],
+  ['nov', 'november', 'พย', 'พฤศจิกายน'],
+  ['dec', 'december', 'ธค', 'ธันวาคม'],
+];
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const pad2 = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Calendar months (1-12) in fiscal-year order, e.g. [4, 5, ..., 12, 1, 2, 3] for a March year end
+ */
+export const getFiscalMonths = (endMonth: number = 12): number[] =>
+  Array.from({ length: 12 }, (_, i) => ((endMonth + i) % 12) + 1);
+
+const normalizeHeader = (value: unknown): string =>
+  String(value ?? '').toLowerCase().replace(/[.\s]/g, '');
+
+const getMonthIndex = (header: unknown): number => {
+  const normalized = normalizeHeader(header);
+  const numeric = Number(normalized);
+  if (Number.isInteger(numeric) && numeric >= 1 && numeric <= 12) return numeric - 1;
+  return MONTH_HEADERS.findIndex(names => names.includes(normalized));
+};
+
+export const getBudgetSection = (accountCode: string): BudgetSection | null => {
+  if (accountCode.startsWith('49')) return 'otherIncome';
+  if (accountCode.startsWith('4')) return 'revenue';
+  if (accountCode.startsWith('51')) return 'costOfSales';
+  if (accountCode.startsWith('59')) return 'otherExpenses';
+  if (accountCode.startsWith('5')) return 'operatingExpenses';
+  return null;
+};
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse budget rows (first sheet of the workbook, as arrays)
+ * Layout: account code column, optional account name, one column per month
+ */
+export const parseBudgetRows = (rows: unknown[][]): BudgetImportResult => {
+  const errors: string[] = [];
+
+  const headerIndex = rows.findIndex(row =>
+    row.some(c => /account|code|รหัส/i.test(String(c ?? ''))) &&
+    row.filter(c => getMonthIndex(c) >= 0).length === 12
+  );
+  if (headerIndex < 0) {
+    return { lines: [], errors: ['ไม่พบหัวตาราง: ต้องมีคอลัมน์รหัสบัญชีและเดือน ม.ค.-ธ.ค. ครบ 12 เดือน'] };
+  }
+
+  const header = rows[headerIndex];
+  const findCol = (pattern: RegExp) => header.findIndex(c => pattern.test(String(c ?? '')));
+  const codeCol = findCol(/code|รหัส/i) >= 0 ? findCol(/code|รหัส/i) : findCol(/account|บัญชี/i);
+  const nameCol = header.findIndex((c, i) => i !== codeCol && /name|ชื่อ/i.test(String(c ?? '')));
+  const monthCols = new Array<number>(12);
+  header.forEach((c, i) => {
+    const month = getMonthIndex(c);
+    if (month >= 0 && monthCols[month] === undefined) monthCols[month] = i;
+  });
+
+  const byAccount = new Map<string, BudgetLine>();
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const line = headerIndex + i + 2;
+    const accountCode = String(row[codeCol] ?? '').trim().match(/^\d{5}$/)?.[0];
+    if (!accountCode) {
+      // Blank, subtotal and comment rows are skipped silently
+      if (row.some(c => String(c ?? '').trim() !== '') && /^\d/.test(String(row[codeCol] ?? ''))) {
+        errors.push(`แถว ${line}: รหัสบัญชี "${row[codeCol]}" ไม่ถูกต้อง`);
+      }
+      return;
+    }
+    if (!getBudgetSection(accountCode)) {
+      errors.push(`แถว ${line}: ${accountCode} ไม่ใช่บัญชีรายได้/ค่าใช้จ่าย`);
+      return;
+    }
+
+    const monthly = monthCols.map(col => parseAmount(String(row[col] ?? '')));
+    const existing = byAccount.get(accountCode);
+    if (existing) {
+      existing.monthly = existing.monthly.map((v, m) => round2(v + monthly[m]));
+    } else {
+      byAccount.set(accountCode, {
+        accountCode,
+        ...(nameCol >= 0 && row[nameCol] ? { accountName: String(row[nameCol]).trim() } : {}),
+        monthly,
+      });
+    }
+  });
+
+  if (byAccount.size === 0) errors.push('ไม่พบรายการงบประมาณในไฟล์');
+  return { lines: Array.from(byAccount.values()), errors };
+};
+
+/**
+ * Parse a budget workbook (.xlsx / .xls / .csv) with the xlsx library
+ */
+export const parseBudgetFile = async (file: File): Promise<BudgetImportResult> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: null, raw: true });
+  return parseBudgetRows(rows);
+};
+
+export const getBudgetId = (clientId: string, fiscalYear: number, version: number): string =>
+  `${clientId}_${fiscalYear}_v${version}`;
+
+/**
+ * Store imported lines as the next version of the year's budget
+ */
+export const importBudget = async (
+  clientId: string,
+  fiscalYear: number,
+  lines: BudgetLine[],
+  userId: string,
+  options: { note?: string; sourceFile?: string } = {}
+): Promise<Budget> => {
+  const versions = (await databaseService.getBudgetsByClient(clientId)).filter(b => b.fiscalYear === fiscalYear);
+  const version = versions.reduce((max, b) => Math.max(max, b.version), 0) + 1;
+
+  const budget: Budget = {
+    id: getBudgetId(clientId, fiscalYear, version),
+    clientId,
+    fiscalYear,
+    version,
+    versionType: version === 1 ? 'original' : 'revised',
+    lines,
+    ...(options.note ? { note: options.note } : {}),
+    ...(options.sourceFile ? { sourceFile: options.sourceFile } : {}),
+    importedAt: new Date().toISOString(),
+    importedBy: userId,
+  };
+
+  await databaseService.saveBudget(budget);
+  return budget;
+};
+
+/**
+ * A specific version, or the latest one for the year
+ */
+export const getBudget = async (clientId: string, fiscalYear: number, version?: number): Promise<Budget | null> => {
+  const versions = (await databaseService.getBudgetsByClient(clientId)).filter(b => b.fiscalYear === fiscalYear);
+  if (version !== undefined) return versions.find(b => b.version === version) || null;
+  return versions.sort((a, b) => b.version - a.version)[0] || null;
+};
+
+// ============================================================================
+// BUDGET VS ACTUAL
+// ============================================================================
+
+const toAmounts = (budget: number, actual: number): VarianceAmounts => {
+  const variance = round2(actual - budget);
+  return {
+    budget: round2(budget),
+    actual: round2(actual),
+    variance,
+    variancePercent: budget !== 0 ? round2((variance / Math.abs(budget)) * 100) : null,
+  };
+};
+
+/**
+ * Budget vs actual income statement for a month range of the budget year
+ * fromMonth / toMonth are calendar months taken in the client's fiscal-year
+ * order (a March year end runs 4 → 3); they default to the whole fiscal year.
+ * Revenue above budget and expenses below budget are favorable. Period-end
+ * closing vouchers are excluded so closed months still show their actuals.
+ */
+export const generateBudgetVsActual = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  budget: Budget,
+  fromMonth?: number,
+  toMonth?: number,
+  threshold: VarianceThreshold = DEFAULT_VARIANCE_THRESHOLD
+): BudgetVsActualReport => {
+  const year = budget.fiscalYear;
+  const endMonth = getFiscalYearEndMonth(client);
+  const fiscalMonths = getFiscalMonths(endMonth);
+  const from = fromMonth ?? fiscalMonths[0];
+  const to = toMonth ?? endMonth;
+  const months = fiscalMonths.slice(fiscalMonths.indexOf(from), fiscalMonths.indexOf(to) + 1);
+
+  // Months after the year-end month belong to the calendar year before
+  const yearOf = (month: number) => (month > endMonth ? year - 1 : year);
+  const periodStart = `${yearOf(from)}-${pad2(from)}-01`;
+  const periodEnd = `${yearOf(to)}-${pad2(to)}-${pad2(new Date(yearOf(to), to, 0).getDate())}`;
+
+  const actuals = new Map<string, number>();
+  glEntries
+    .filter(e => e.clientId === client.id && e.date >= periodStart && e.date <= periodEnd && !isClosingEntry(e))
+    .forEach(e => {
+      const code = resolveAccountCode(e.account_code, client.id);
+      if (!getBudgetSection(code)) return;
+      const amount = code.startsWith('4') ? e.credit - e.debit : e.debit - e.credit;
+      actuals.set(code, (actuals.get(code) || 0) + amount);
+    });
+
+  const budgets = new Map<string, { name?: string; amount: number }>();
+  budget.lines.forEach(line => {
+    const code = resolveAccountCode(line.accountCode, client.id);
+    const amount = months.reduce((sum, month) => sum + (line.monthly[month - 1] || 0), 0);
+    const existing = budgets.get(code);
+    budgets.set(code, { name: existing?.name || line.accountName, amount: (existing?.amount || 0) + amount });
+  });
+
+  const codes = Array.from(new Set([...actuals.keys(), ...budgets.keys()])).sort();
+  const lines: BudgetVarianceLine[] = codes.map(code => {
+    const section = getBudgetSection(code)!;
+    const amounts = toAmounts(budgets.get(code)?.amount || 0, actuals.get(code) || 0);
+    const isIncome = section === 'revenue' || section === 'otherIncome';
+    const favorable = isIncome ? amounts.variance >= 0 : amounts.variance <= 0;
+    const exceedsThreshold = !favorable &&
+      Math.abs(amounts.variance) >= threshold.minAmount &&
+      (amounts.variancePercent === null || Math.abs(amounts.variancePercent) >= threshold.percentage);
+
+    return {
+      accountCode: code,
+      accountName: resolveAccount(code, client.id)?.nameTh || budgets.get(code)?.name || code,
+      section,
+      ...amounts,
+      favorable,
+      exceedsThreshold,
+    };
+  }).filter(l => l.budget !== 0 || l.actual !== 0);
+
+  const sectionTotal = (section: BudgetSection): VarianceAmounts => {
+    const sectionLines = lines.filter(l => l.section === section);
+    return toAmounts(
+      sectionLines.reduce((sum, l) => sum + l.budget, 0),
+      sectionLines.reduce((sum, l) => sum + l.actual, 0)
+    );
+  };
+
+  const revenue = sectionTotal('revenue');
+  const costOfSales = sectionTotal('costOfSales');
+  const operatingExpenses = sectionTotal('operatingExpenses');
+  const otherIncome = sectionTotal('otherIncome');
+  const otherExpenses = sectionTotal('otherExpenses');
+  const grossProfit = toAmounts(revenue.budget - costOfSales.budget, revenue.actual - costOfSales.actual);
+  const netProfit = toAmounts(
+    grossProfit.budget - operatingExpenses.budget + otherIncome.budget - otherExpenses.budget,
+    grossProfit.actual - operatingExpenses.actual + otherIncome.actual - otherExpenses.actual
+  );
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    fiscalYear: year,
+    budgetVersion: budget.version,
+    budgetVersionType: budget.versionType,
+    fromMonth: from,
+    toMonth: to,
+    threshold,
+    lines,
+    totals: { revenue, costOfSales, grossProfit, operatingExpenses, otherIncome, otherExpenses, netProfit },
+    flagged: lines.filter(l => l.exceedsThreshold),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Year-to-date budget vs actual for every client with a budget for the
+ * fiscal year containing asOf, counted from that client's fiscal-year start
+ */
+export const generateYearToDateReports = async (
+  clients: Client[],
+  glEntries: PostedGLEntry[],
+  asOf: Date = new Date(),
+  threshold: VarianceThreshold = DEFAULT_VARIANCE_THRESHOLD
+): Promise<BudgetVsActualReport[]> => {
+  const month = asOf.getMonth() + 1;
+  const asOfDate = `${asOf.getFullYear()}-${pad2(month)}-${pad2(asOf.getDate())}`;
+  const budgets = await databaseService.getBudgets();
+
+  return clients.flatMap(client => {
+    const endMonth = getFiscalYearEndMonth(client);
+    const fiscalYear = getFiscalYearOf(asOfDate, endMonth);
+    const latest = budgets
+      .filter(b => b.clientId === client.id && b.fiscalYear === fiscalYear)
+      .sort((a, b) => b.version - a.version)[0];
+    return latest ? [generateBudgetVsActual(glEntries, client, latest, getFiscalMonths(endMonth)[0], month, threshold)] : [];
+  });
+};
+
+export const budgetService = {
+  DEFAULT_VARIANCE_THRESHOLD,
+  BUDGET_SECTION_NAMES,
+  getBudgetSection,
+  getFiscalMonths,
+  parseBudgetRows,
+  parseBudgetFile,
+  getBudgetId,
+  importBudget,
+  getBudget,
+  generateBudgetVsActual,
+  generateYearToDateReports,
+};
+
+export default budgetService;
@@ -0,0 +1,351 @@
+/**
+ * Chart of Accounts Service
+ * Per-client chart of accounts seeded from industry templates
+ * Tracks every add / deactivate / merge as a new chart version
+ */
+
+import {
+  ChartOfAccount,
+  ChartTemplateId,
+  ChartChangeAction,
+  ClientChartOfAccounts,
+  Client,
+} from '../types';
+import { databaseService } from './database';
+import { CHART_TEMPLATES, THAI_CHART_OF_ACCOUNTS, getTemplateIdForIndustry } from './chartTemplates';
+
+export { CHART_TEMPLATES, THAI_CHART_OF_ACCOUNTS, getTemplateIdForIndustry } from './chartTemplates';
+export type { ChartTemplate } from './chartTemplates';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChartOperationResult {
+  success: boolean;
+  chart: ClientChartOfAccounts;
+  message: string;
+  messageTh: string;
+}
+
+// ============================================================================
+// CLIENT CHART CACHE (sync resolution for report generators)
+// ============================================================================
+
+const chartCache = new Map<string, ClientChartOfAccounts>();
+
+/**
+ * Accounts in effect for a client; falls back to the standard chart
+ * when the client's chart has not been loaded yet
+ */
+export const getClientAccounts = (clientId?: string): ChartOfAccount[] => {
+  const chart = clientId ? chartCache.get(clientId) : undefined;
+  return chart ? chart.accounts : THAI_CHART_OF_ACCOUNTS;
+};
+
+/**
+ * Follow merge links so postings to a merged code roll up into its target
+ */
+export const resolveAccountCode = (code: string, clientId?: string): string => {
+  const accounts = getClientAccounts(clientId);
+  let current = code;
+  const visited = new Set<string>();
+  while (!visited.has(current)) {
+    visited.add(current);
+    const account = accounts.find(a => a.code === current);
+    if (!account?.mergedInto) break;
+    current = account.mergedInto;
+  }
+  return current;
+};
+
+/**
+ * Resolve an account code through the client's chart
+ */
+export const resolveAccount = (code: string, clientId?: string): ChartOfAccount | undefined => {
+  return getClientAccounts(clientId).find(a => a.code === code);
+};
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+const buildChart = (
+  clientId: string,
+  templateId: ChartTemplateId,
+  userId: string
+): ClientChartOfAccounts => {
+  const template = CHART_TEMPLATES[templateId];
+  const now = new Date().toISOString();
+  return {
+    id: clientId,
+    clientId,
+    templateId,
+    templateVersion: template.version,
+    version: 1,
+    accounts: template.accounts.map(a => ({ ...a })),
+    history: [{
+      version: 1,
+      action: 'seed',
+      detail: `Seeded from template ${template.name} v${template.version}`,
+      changedAt: now,
+      changedBy: userId,
+    }],
+    updatedAt: now,
+    updatedBy: userId,
+  };
+};
+
+/**
+ * Load a client's chart, seeding it from the industry template on first use
+ */
+export const loadClientChart = async (
+  clientId: string,
+  client?: Client | null
+): Promise<ClientChartOfAccounts> => {
+  const cached = chartCache.get(clientId);
+  if (cached) return cached;
+
+  let chart = await databaseService.getChartOfAccounts(clientId);
+  if (!chart) {
+    const owner = client ?? await databaseService.getClientById(clientId);
+    chart = buildChart(clientId, getTemplateIdForIndustry(owner?.industry), 'system');
+    await databaseService.saveChartOfAccounts(chart);
+  }
+
+  chartCache.set(clientId, chart);
+  return chart;
+};
+
+/**
+ * Replace a client's chart with a fresh copy of a template
+ * Only allowed before any account has been customised
+ */
+export const seedClientChart = async (
+  clientId: string,
+  templateId: ChartTemplateId,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const existing = await databaseService.getChartOfAccounts(clientId);
+  if (existing && existing.history.some(h => h.action !== 'seed')) {
+    return {
+      success: false,
+      chart: existing,
+      message: 'Chart has been customised; seeding would discard changes',
+      messageTh: 'ผังบัญชีถูกแก้ไขแล้ว ไม่สามารถเปลี่ยนแม่แบบได้',
+    };
+  }
+
+  const chart = buildChart(clientId, templateId, userId);
+  if (existing) {
+    chart.version = existing.version + 1;
+    chart.history = [...existing.history, { ...chart.history[0], version: chart.version }];
+  }
+
+  await databaseService.saveChartOfAccounts(chart);
+  chartCache.set(clientId, chart);
+  return {
+    success: true,
+    chart,
+    message: `Seeded chart from ${CHART_TEMPLATES[templateId].name}`,
+    messageTh: `สร้างผังบัญชีจากแม่แบบ${CHART_TEMPLATES[templateId].nameTh}`,
+  };
+};
+
+const commitChange = async (
+  chart: ClientChartOfAccounts,
+  accounts: ChartOfAccount[],
+  change: { action: ChartChangeAction; accountCode?: string; targetCode?: string; detail: string },
+  userId: string
+): Promise<ClientChartOfAccounts> => {
+  const now = new Date().toISOString();
+  const version = chart.version + 1;
+  const updated: ClientChartOfAccounts = {
+    ...chart,
+    version,
+    accounts: [...accounts].sort((a, b) => a.code.localeCompare(b.code)),
+    history: [...chart.history, { ...change, version, changedAt: now, changedBy: userId }],
+    updatedAt: now,
+    updatedBy: userId,
+  };
+
+  await databaseService.saveChartOfAccounts(updated);
+  chartCache.set(chart.clientId, updated);
+  return updated;
+};
+
+const failure = (chart: ClientChartOfAccounts, message: string, messageTh: string): ChartOperationResult =>
+  ({ success: false, chart, message, messageTh });
+
+// ============================================================================
+// ACCOUNT MAINTENANCE
+// ============================================================================
+
+/**
+ * Add a new account to a client's chart
+ */
+export const addAccount = async (
+  clientId: string,
+  account: Omit<ChartOfAccount, 'isActive' | 'mergedInto'>,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const chart = await loadClientChart(clientId);
+
+  if (!/^\d{5}$/.test(account.code)) {
+    return failure(chart, `Account code must be 5 digits: ${account.code}`, `รหัสบัญชีต้องเป็นตัวเลข 5 หลัก: ${account.code}`);
+  }
+  if (chart.accounts.some(a => a.code === account.code)) {
+    return failure(chart, `Account ${account.code} already exists`, `มีรหัสบัญชี ${account.code} อยู่แล้ว`);
+  }
+  if (account.parentCode && !chart.accounts.some(a => a.code === account.parentCode)) {
+    return failure(chart, `Parent account ${account.parentCode} not found`, `ไม่พบบัญชีคุม ${account.parentCode}`);
+  }
+
+  const updated = await commitChange(
+    chart,
+    [...chart.accounts, { ...account, isActive: true }],
+    { action: 'add', accountCode: account.code, detail: `Added ${account.code} ${account.name}` },
+    userId
+  );
+  return { success: true, chart: updated, message: `Added account ${account.code}`, messageTh: `เพิ่มบัญชี ${account.code} แล้ว` };
+};
+
+/**
+ * Update names or classification of an existing account
+ */
+export const updateAccount = async (
+  clientId: string,
+  code: string,
+  changes: Partial<Pick<ChartOfAccount, 'name' | 'nameTh' | 'subType' | 'parentCode'>>,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const chart = await loadClientChart(clientId);
+  if (!chart.accounts.some(a => a.code === code)) {
+    return failure(chart, `Account ${code} not found`, `ไม่พบบัญชี ${code}`);
+  }
+
+  const updated = await commitChange(
+    chart,
+    chart.accounts.map(a => a.code === code ? { ...a, ...changes } : a),
+    { action: 'update', accountCode: code, detail: `Updated ${code}: ${Object.keys(changes).join(', ')}` },
+    userId
+  );
+  return { success: true, chart: updated, message: `Updated account ${code}`, messageTh: `แก้ไขบัญชี ${code} แล้ว` };
+};
+
+/**
+ * Deactivate or reactivate an account (history is kept; postings are warned)
+ */
+export const setAccountActive = async (
+  clientId: string,
+  code: string,
+  isActive: boolean,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const chart = await loadClientChart(clientId);
+  const account = chart.accounts.find(a => a.code === code);
+  if (!account) {
+    return failure(chart, `Account ${code} not found`, `ไม่พบบัญชี ${code}`);
+  }
+  if (account.mergedInto) {
+    return failure(chart, `Account ${code} was merged into ${account.mergedInto}`, `บัญชี ${code} ถูกรวมเข้ากับ ${account.mergedInto} แล้ว`);
+  }
+
+  const updated = await commitChange(
+    chart,
+    chart.accounts.map(a => a.code === code ? { ...a, isActive } : a),
+    { action: isActive ? 'reactivate' : 'deactivate', accountCode: code, detail: `${isActive ? 'Reactivated' : 'Deactivated'} ${code}` },
+    userId
+  );
+  return {
+    success: true,
+    chart: updated,
+    message: `${isActive ? 'Reactivated' : 'Deactivated'} account ${code}`,
+    messageTh: `${isActive ? 'เปิดใช้งาน' : 'ปิดใช้งาน'}บัญชี ${code} แล้ว`,
+  };
+};
+
+/**
+ * Merge one account into another of the same type
+ * The source stays in the chart (inactive) so historical postings still resolve,
+ * and reports roll its balance into the target
+ */
+export const mergeAccounts = async (
+  clientId: string,
+  sourceCode: string,
+  targetCode: string,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const chart = await loadClientChart(clientId);
+  const source = chart.accounts.find(a => a.code === sourceCode);
+  const target = chart.accounts.find(a => a.code === targetCode);
+
+  if (!source || !target) {
+    return failure(chart, 'Source or target account not found', 'ไม่พบบัญชีต้นทางหรือปลายทาง');
+  }
+  if (sourceCode === targetCode || target.mergedInto) {
+    return failure(chart, `Cannot merge ${sourceCode} into ${targetCode}`, `ไม่สามารถรวมบัญชี ${sourceCode} เข้ากับ ${targetCode} ได้`);
+  }
+  if (source.type !== target.type) {
+    return failure(chart, 'Accounts must be of the same type', 'บัญชีที่จะรวมต้องเป็นประเภทเดียวกัน');
+  }
+
+  const updated = await commitChange(
+    chart,
+    chart.accounts.map(a => {
+      if (a.code === sourceCode) return { ...a, isActive: false, mergedInto: targetCode };
+      // Re-point accounts already merged into the source
+      if (a.mergedInto === sourceCode) return { ...a, mergedInto: targetCode };
+      return a;
+    }),
+    { action: 'merge', accountCode: sourceCode, targetCode, detail: `Merged ${sourceCode} into ${targetCode}` },
+    userId
+  );
+  return { success: true, chart: updated, message: `Merged ${sourceCode} into ${targetCode}`, messageTh: `รวมบัญชี ${sourceCode} เข้ากับ ${targetCode} แล้ว` };
+};
+
+/**
+ * Pull accounts added in a newer template version into the client's chart
+ */
+export const syncTemplateAccounts = async (
+  clientId: string,
+  userId: string
+): Promise<ChartOperationResult> => {
+  const chart = await loadClientChart(clientId);
+  const template = CHART_TEMPLATES[chart.templateId];
+
+  if (chart.templateVersion >= template.version) {
+    return { success: true, chart, message: 'Chart is up to date', messageTh: 'ผังบัญชีเป็นเวอร์ชันล่าสุดแล้ว' };
+  }
+
+  const missing = template.accounts.filter(t => !chart.accounts.some(a => a.code === t.code));
+  const updated = await commitChange(
+    { ...chart, templateVersion: template.version },
+    [...chart.accounts, ...missing.map(a => ({ ...a }))],
+    { action: 'template_sync', detail: `Synced ${missing.length} accounts from ${template.name} v${template.version}` },
+    userId
+  );
+  return {
+    success: true,
+    chart: updated,
+    message: `Added ${missing.length} accounts from template v${template.version}`,
+    messageTh: `เพิ่ม ${missing.length} บัญชีจากแม่แบบเวอร์ชัน ${template.version}`,
+  };
+};
+
+export const chartOfAccountsService = {
+  CHART_TEMPLATES,
+  getTemplateIdForIndustry,
+  getClientAccounts,
+  resolveAccount,
+  resolveAccountCode,
+  loadClientChart,
+  seedClientChart,
+  addAccount,
+  updateAccount,
+  setAccountActive,
+  mergeAccounts,
+  syncTemplateAccounts,
+};
+
+export default chartOfAccountsService;
@@ -0,0 +1,174 @@
+/**
+ * Chart of Accounts Templates
+ * Standard Thai chart and the industry templates seeded into client charts
+ * Kept free of database imports so constants and prompts can share it
+ */
+
+import { ChartOfAccount, ChartTemplateId } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChartTemplate {
+  id: ChartTemplateId;
+  name: string;
+  nameTh: string;
+  version: number; // Bump when accounts are added to the template
+  accounts: ChartOfAccount[];
+}
+
+// ============================================================================
+// THAI CHART OF ACCOUNTS (STANDARD)
+// ============================================================================
+
+// Base chart every industry template extends
+export const THAI_CHART_OF_ACCOUNTS: ChartOfAccount[] = [
+  // Assets (1xxxx)
+  { code: '11100', name: 'Cash', nameTh: 'เงินสด', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11200', name: 'Cash at Bank', nameTh: 'เงินฝากธนาคาร', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11300', name: 'Accounts Receivable', nameTh: 'ลูกหนี้การค้า', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11301', name: 'Allowance for Doubtful Accounts', nameTh: 'ค่าเผื่อหนี้สงสัยจะสูญ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '11400', name: 'Inventory', nameTh: 'สินค้าคงเหลือ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11500', name: 'Other Receivables', nameTh: 'ลูกหนี้อื่น', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11540', name: 'Input VAT', nameTh: 'ภาษีซื้อ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11541', name: 'Undue Input VAT', nameTh: 'ภาษีซื้อยังไม่ถึงกำหนด', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11600', name: 'Advance Payment', nameTh: 'เงินทดรองจ่าย', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11700', name: 'Accrued Income', nameTh: 'รายได้ค้างรับ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11800', name: 'Prepaid Expenses', nameTh: 'ค่าใช้จ่ายจ่ายล่วงหน้า', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '11900', name: 'WHT Receivable', nameTh: 'ภาษีหัก ณ ที่จ่ายค้างรับ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit' },
+  { code: '12100', name: 'Land', nameTh: 'ที่ดิน', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12200', name: 'Building', nameTh: 'อาคาร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12201', name: 'Accumulated Depreciation - Building', nameTh: 'ค่าเสื่อมราคาสะสม-อาคาร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
+  { code: '12300', name: 'Vehicle', nameTh: 'ยานพาหนะ', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12301', name: 'Accumulated Depreciation - Vehicle', nameTh: 'ค่าเสื่อมราคาสะสม-ยานพาหนะ', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
+  { code: '12400', name: 'Equipment', nameTh: 'อุปกรณ์สำนักงาน', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12401', name: 'Accumulated Depreciation - Equipment', nameTh: 'ค่าเสื่อมราคาสะสม-อุปกรณ์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
+  { code: '12500', name: 'Computer & Software', nameTh: 'คอมพิวเตอร์และซอฟต์แวร์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12501', name: 'Accumulated Depreciation - Computer', nameTh: 'ค่าเสื่อมราคาสะสม-คอมพิวเตอร์', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit' },
+
+  // Liabilities (2xxxx)
+  { code: '21100', name: 'Short-term Loan', nameTh: 'เงินกู้ยืมระยะสั้น', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21200', name: 'Accounts Payable', nameTh: 'เจ้าหนี้การค้า', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21300', name: 'Accrued Expenses', nameTh: 'ค่าใช้จ่ายค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21400', name: 'WHT Payable', nameTh: 'ภาษีหัก ณ ที่จ่ายค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21540', name: 'Output VAT', nameTh: 'ภาษีขาย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21541', name: 'Undue Output VAT', nameTh: 'ภาษีขายยังไม่ถึงกำหนด', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21600', name: 'CIT Payable', nameTh: 'ภาษีเงินได้นิติบุคคลค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21700', name: 'Deferred Income', nameTh: 'รายได้รับล่วงหน้า', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21800', name: 'Bonus Provision', nameTh: 'ประมาณการโบนัส', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '21900', name: 'Leave Provision', nameTh: 'ประมาณการค่าชดเชยพนักงาน', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit' },
+  { code: '22100', name: 'Warranty Provision', nameTh: 'ประมาณการค่ารับประกัน', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
+  { code: '22200', name: 'Legal Provision', nameTh: 'ประมาณการหนี้สินทางกฎหมาย', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
+  { code: '23100', name: 'Long-term Loan', nameTh: 'เงินกู้ยืมระยะยาว', type: 'liability', subType: 'non-current', isActive: true, normalBalance: 'credit' },
+
+  // Equity (3xxxx)
+  { code: '31100', name: 'Share Capital', nameTh: 'ทุนจดทะเบียน', type: 'equity', isActive: true, normalBalance: 'credit' },
+  { code: '31200', name: 'Paid-up Capital', nameTh: 'ทุนชำระแล้ว', type: 'equity', isActive: true, normalBalance: 'credit' },
+  { code: '32000', name: 'Retained Earnings', nameTh: 'กำไรสะสม', type: 'equity', isActive: true, normalBalance: 'credit' },
+  { code: '33000', name: 'Legal Reserve', nameTh: 'สำรองตามกฎหมาย', type: 'equity', isActive: true, normalBalance: 'credit' },
+  { code: '39000', name: 'Income Summary', nameTh: 'สรุปรายได้', type: 'equity', isActive: true, normalBalance: 'credit' },
+
+  // Revenue (4xxxx)
+  { code: '41100', name: 'Sales Revenue', nameTh: 'รายได้จากการขายสินค้า', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '41200', name: 'Service Revenue', nameTh: 'รายได้จากการให้บริการ', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '41300', name: 'Other Revenue', nameTh: 'รายได้อื่น', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '41400', name: 'Shipping Income', nameTh: 'รายได้ค่าจัดส่ง', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '42100', name: 'Interest Income', nameTh: 'ดอกเบี้ยรับ', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '42200', name: 'Dividend Income', nameTh: 'เงินปันผลรับ', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '42300', name: 'Gain on Disposal', nameTh: 'กำไรจากการจำหน่ายสินทรัพย์', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '42400', name: 'FX Gain', nameTh: 'กำไรจากอัตราแลกเปลี่ยน', type: 'revenue', isActive: true, normalBalance: 'credit' },
+
+  // Expenses (5xxxx)
+  { code: '51100', name: 'Cost of Goods Sold', nameTh: 'ต้นทุนขาย', type: 'expense', isActive: true, normalBalance: 'debit' },
+  { code: '51200', name: 'Cost of Services', nameTh: 'ต้นทุนบริการ', type: 'expense', isActive: true, normalBalance: 'debit' },
+  { code: '52100', name: 'Salary & Wages', nameTh: 'เงินเดือนและค่าจ้าง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52200', name: 'Social Security', nameTh: 'ประกันสังคม', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52300', name: 'Rent Expense', nameTh: 'ค่าเช่า', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52400', name: 'Utilities', nameTh: 'ค่าสาธารณูปโภค', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52500', name: 'Communication', nameTh: 'ค่าโทรศัพท์และอินเทอร์เน็ต', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52600', name: 'Transportation', nameTh: 'ค่าเดินทาง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52700', name: 'Entertainment', nameTh: 'ค่ารับรอง', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52800', name: 'Professional Fees', nameTh: 'ค่าวิชาชีพ', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '52900', name: 'Insurance', nameTh: 'ค่าประกันภัย', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '53000', name: 'Non-deductible VAT', nameTh: 'ภาษีซื้อไม่ขอคืน', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '53100', name: 'Office Supplies', nameTh: 'วัสดุสำนักงาน', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '53200', name: 'Repair & Maintenance', nameTh: 'ค่าซ่อมแซมและบำรุงรักษา', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '53300', name: 'Advertising', nameTh: 'ค่าโฆษณา', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit' },
+  { code: '53330', name: 'Shipping Expense', nameTh: 'ค่าขนส่งสินค้า', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+  { code: '53340', name: 'Sales Promotion & Discounts', nameTh: 'ส่วนลดและโปรโมชั่น', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+  { code: '53400', name: 'Depreciation Expense', nameTh: 'ค่าเสื่อมราคา', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '53500', name: 'Bad Debt Expense', nameTh: 'หนี้สูญ', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '54100', name: 'Bank Charges', nameTh: 'ค่าธรรมเนียมธนาคาร', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
+  { code: '54200', name: 'Interest Expense', nameTh: 'ดอกเบี้ยจ่าย', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
+  { code: '54300', name: 'FX Loss', nameTh: 'ขาดทุนจากอัตราแลกเปลี่ยน', type: 'expense', subType: 'finance', isActive: true, normalBalance: 'debit' },
+  { code: '54400', name: 'Loss on Disposal', nameTh: 'ขาดทุนจากการจำหน่ายสินทรัพย์', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '54500', name: 'Impairment Loss', nameTh: 'ขาดทุนจากการด้อยค่าสินทรัพย์', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit' },
+  { code: '58000', name: 'Corporate Income Tax', nameTh: 'ภาษีเงินได้นิติบุคคล', type: 'expense', isActive: true, normalBalance: 'debit' },
+];
+
+// ============================================================================
+// INDUSTRY TEMPLATES
+// ============================================================================
+
+const RESTAURANT_ACCOUNTS: ChartOfAccount[] = [
+  { code: '11310', name: 'Delivery Platform Receivable', nameTh: 'ลูกหนี้แพลตฟอร์มเดลิเวอรี่', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11300' },
+  { code: '11410', name: 'Raw Materials - Food & Beverage', nameTh: 'วัตถุดิบอาหารและเครื่องดื่ม', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11400' },
+  { code: '41110', name: 'Food Sales', nameTh: 'รายได้จากการขายอาหาร', type: 'revenue', isActive: true, normalBalance: 'credit', parentCode: '41100' },
+  { code: '41120', name: 'Beverage Sales', nameTh: 'รายได้จากการขายเครื่องดื่ม', type: 'revenue', isActive: true, normalBalance: 'credit', parentCode: '41100' },
+  { code: '41130', name: 'Delivery Platform Sales', nameTh: 'รายได้จากการขายผ่านแอปเดลิเวอรี่', type: 'revenue', isActive: true, normalBalance: 'credit', parentCode: '41100' },
+  { code: '51110', name: 'Food Cost', nameTh: 'ต้นทุนวัตถุดิบอาหาร', type: 'expense', isActive: true, normalBalance: 'debit', parentCode: '51100' },
+  { code: '51120', name: 'Beverage Cost', nameTh: 'ต้นทุนเครื่องดื่ม', type: 'expense', isActive: true, normalBalance: 'debit', parentCode: '51100' },
+  { code: '52410', name: 'Cooking Gas', nameTh: 'ค่าแก๊สหุงต้ม', type: 'expense', subType: 'admin', isActive: true, normalBalance: 'debit', parentCode: '52400' },
+  { code: '53310', name: 'Platform Commission', nameTh: 'ค่าธรรมเนียมแพลตฟอร์ม', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+  { code: '53320', name: 'Payment Gateway Fees', nameTh: 'ค่าธรรมเนียมการชำระเงิน', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+];
+
+const ECOMMERCE_ACCOUNTS: ChartOfAccount[] = [
+  { code: '11310', name: 'Platform Receivable', nameTh: 'ลูกหนี้แพลตฟอร์ม', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11300' },
+  { code: '11420', name: 'Goods in Transit', nameTh: 'สินค้าระหว่างทาง', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11400' },
+  { code: '53310', name: 'Platform Commission', nameTh: 'ค่าธรรมเนียมแพลตฟอร์ม', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+  { code: '53320', name: 'Payment Gateway Fees', nameTh: 'ค่าธรรมเนียมการชำระเงิน', type: 'expense', subType: 'selling', isActive: true, normalBalance: 'debit', parentCode: '53300' },
+];
+
+const SERVICES_ACCOUNTS: ChartOfAccount[] = [
+  { code: '11710', name: 'Unbilled Revenue', nameTh: 'รายได้ที่ยังไม่เรียกเก็บ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11700' },
+  { code: '41210', name: 'Consulting Revenue', nameTh: 'รายได้ค่าที่ปรึกษา', type: 'revenue', isActive: true, normalBalance: 'credit', parentCode: '41200' },
+  { code: '41220', name: 'Retainer Revenue', nameTh: 'รายได้ค่าบริการรายเดือน', type: 'revenue', isActive: true, normalBalance: 'credit', parentCode: '41200' },
+  { code: '51210', name: 'Subcontractor Cost', nameTh: 'ค่าจ้างผู้รับเหมาช่วง', type: 'expense', isActive: true, normalBalance: 'debit', parentCode: '51200' },
+];
+
+const CONSTRUCTION_ACCOUNTS: ChartOfAccount[] = [
+  { code: '11320', name: 'Retention Receivable', nameTh: 'เงินประกันผลงานค้างรับ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11300' },
+  { code: '11430', name: 'Construction Materials', nameTh: 'วัสดุก่อสร้างคงเหลือ', type: 'asset', subType: 'current', isActive: true, normalBalance: 'debit', parentCode: '11400' },
+  { code: '12700', name: 'Machinery', nameTh: 'เครื่องจักร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'debit' },
+  { code: '12701', name: 'Accumulated Depreciation - Machinery', nameTh: 'ค่าเสื่อมราคาสะสม-เครื่องจักร', type: 'asset', subType: 'fixed', isActive: true, normalBalance: 'credit', parentCode: '12700' },
+  { code: '21210', name: 'Retention Payable', nameTh: 'เงินประกันผลงานค้างจ่าย', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit', parentCode: '21200' },
+  { code: '21710', name: 'Advances from Customers', nameTh: 'เงินรับล่วงหน้าค่างาน', type: 'liability', subType: 'current', isActive: true, normalBalance: 'credit', parentCode: '21700' },
+  { code: '41500', name: 'Contract Revenue', nameTh: 'รายได้จากการรับเหมาก่อสร้าง', type: 'revenue', isActive: true, normalBalance: 'credit' },
+  { code: '51300', name: 'Contract Costs', nameTh: 'ต้นทุนงานก่อสร้าง', type: 'expense', isActive: true, normalBalance: 'debit' },
+  { code: '51310', name: 'Subcontract Labor', nameTh: 'ค่าแรงผู้รับเหมาช่วง', type: 'expense', isActive: true, normalBalance: 'debit', parentCode: '51300' },
+];
+
+const withStandard = (extra: ChartOfAccount[]): ChartOfAccount[] =>
+  [...THAI_CHART_OF_ACCOUNTS, ...extra].sort((a, b) => a.code.localeCompare(b.code));
+
+export const CHART_TEMPLATES: Record<ChartTemplateId, ChartTemplate> = {
+  standard: { id: 'standard', name: 'Standard (TFRS for NPAEs)', nameTh: 'ผังบัญชีมาตรฐาน', version: 3, accounts: withStandard([]) },
+  restaurant: { id: 'restaurant', name: 'Restaurant', nameTh: 'ร้านอาหาร', version: 3, accounts: withStandard(RESTAURANT_ACCOUNTS) },
+  ecommerce: { id: 'ecommerce', name: 'E-commerce', nameTh: 'ขายสินค้าออนไลน์', version: 3, accounts: withStandard(ECOMMERCE_ACCOUNTS) },
+  services: { id: 'services', name: 'Services', nameTh: 'ธุรกิจบริการ', version: 3, accounts: withStandard(SERVICES_ACCOUNTS) },
+  construction: { id: 'construction', name: 'Construction', nameTh: 'รับเหมาก่อสร้าง', version: 3, accounts: withStandard(CONSTRUCTION_ACCOUNTS) },
+};
+
+/**
+ * Guess a template from the free-text Client.industry field
+ */
+export const getTemplateIdForIndustry = (industry?: string): ChartTemplateId => {
+  const value = (industry || '').toLowerCase();
+  if (/restaurant|food|cafe|ร้านอาหาร|อาหาร|คาเฟ่/.test(value)) return 'restaurant';
+  if (/e-?commerce|online|marketplace|retail|ออนไลน์|ค้าปลีก/.test(value)) return 'ecommerce';
+  if (/construct|contractor|ก่อสร้าง|รับเหมา/.test(value)) return 'construction';
+  if (/service|consult|agency|บริการ|ที่ปรึกษา/.test(value)) return 'services';
+  return 'standard';
+};
@@ -0,0 +1,245 @@
+/**
+ * consolidation.ts
+ *
+ * Group Consolidation
+ * งบการเงินรวมของกลุ่มบริษัท
+ *
+ * Member ledgers are combined line by line into one ledger for the group
+ * and the regular statement generators run on it. Each elimination rule
+ * pairs reciprocal accounts in two members; the smaller of the two balances
+ * is eliminated from both sides, so the combined ledger stays balanced, and
+ * whatever does not match is reported for the accountant to reconcile.
+ * Subsidiaries are assumed wholly owned; non-controlling interests are not
+ * split out.
+ */
+
+import { BalanceSheet, generateBalanceSheet, generateIncomeStatement, IncomeStatement } from './financialStatements';
+import { Client, ConsolidationGroup, IntercompanyEliminationRule, PostedGLEntry } from '../types';
+import { resolveAccountCode } from './chartOfAccounts';
+import { isOpeningEntry } from './periodClosing';
+import { databaseService } from './database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GroupInput = Pick<ConsolidationGroup, 'name' | 'parentClientId' | 'memberClientIds' | 'eliminationRules'>;
+
+export interface EliminationResult {
+  rule: IntercompanyEliminationRule;
+  fromBalance: number; // Debit-positive
+  toBalance: number; // Debit-positive
+  eliminated: number;
+  unmatched: number; // Difference left for the accountant to reconcile
+}
+
+export interface ConsolidationResult<T> {
+  group: ConsolidationGroup;
+  members: { clientId: string; clientName: string; statement: T }[];
+  eliminations: EliminationResult[];
+  consolidated: T;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// ELIMINATIONS
+// ============================================================================
+
+const isProfitOrLoss = (code: string) => code.startsWith('4') || code.startsWith('5');
+
+/**
+ * Debit-positive balance of an account in one member
+ * Without a start date the balance is cumulative (opening vouchers skipped).
+ */
+const accountBalance = (
+  entries: PostedGLEntry[],
+  clientId: string,
+  accountCode: string,
+  endDate: string,
+  startDate?: string
+): number =>
+  round2(entries
+    .filter(e =>
+      e.clientId === clientId &&
+      resolveAccountCode(e.account_code, clientId) === accountCode &&
+      e.date <= endDate &&
+      (startDate ? e.date >= startDate : !isOpeningEntry(e))
+    )
+    .reduce((sum, e) => sum + (e.debit || 0) - (e.credit || 0), 0));
+
+/**
+ * Eliminate each rule's reciprocal balances
+ * P&L rules use the period from startDate; balance sheet rules are cumulative.
+ * Without a startDate only balance sheet rules run: a P&L pair removes the
+ * same amount from revenue and expense and leaves retained earnings unchanged.
+ */
+export const calculateEliminations = (
+  group: ConsolidationGroup,
+  entries: PostedGLEntry[],
+  endDate: string,
+  startDate?: string
+): { results: EliminationResult[]; entries: PostedGLEntry[] } => {
+  const results: EliminationResult[] = [];
+  const eliminationEntries: PostedGLEntry[] = [];
+
+  group.eliminationRules.forEach(rule => {
+    const profitOrLoss = isProfitOrLoss(rule.fromAccountCode) && isProfitOrLoss(rule.toAccountCode);
+    if (profitOrLoss !== !!startDate) return;
+
+    const fromBalance = accountBalance(entries, rule.fromClientId, rule.fromAccountCode, endDate, startDate);
+    const toBalance = accountBalance(entries, rule.toClientId, rule.toAccountCode, endDate, startDate);
+
+    // Only opposite balances are reciprocal
+    const eliminated = Math.sign(fromBalance) === -Math.sign(toBalance)
+      ? Math.min(Math.abs(fromBalance), Math.abs(toBalance))
+      : 0;
+    results.push({ rule, fromBalance, toBalance, eliminated, unmatched: round2(Math.abs(fromBalance + toBalance)) });
+    if (eliminated === 0) return;
+
+    const line = (side: 'FROM' | 'TO', code: string, balance: number): PostedGLEntry => ({
+      id: `ELIM-${rule.id}-${side}`,
+      clientId: group.id,
+      date: endDate,
+      doc_no: `ELIM-${rule.id}`,
+      description: `ตัดรายการระหว่างกัน: ${rule.description}`,
+      account_code: code,
+      account_name: rule.description,
+      debit: balance < 0 ? eliminated : 0,
+      credit: balance > 0 ? eliminated : 0,
+      system_generated: true,
+    });
+    eliminationEntries.push(line('FROM', rule.fromAccountCode, fromBalance), line('TO', rule.toAccountCode, toBalance));
+  });
+
+  return { results, entries: eliminationEntries };
+};
+
+/**
+ * Members' entries restated under the group id, merged accounts resolved per member
+ */
+const combineLedgers = (group: ConsolidationGroup, entries: PostedGLEntry[]): PostedGLEntry[] =>
+  entries
+    .filter(e => group.memberClientIds.includes(e.clientId))
+    .map(e => ({ ...e, clientId: group.id, account_code: resolveAccountCode(e.account_code, e.clientId) }));
+
+const groupAsClient = (group: ConsolidationGroup, clients: Client[]): Client => {
+  const parent = clients.find(c => c.id === group.parentClientId);
+  return { ...(parent || ({} as Client)), id: group.id, name: group.name };
+};
+
+const membersOf = (group: ConsolidationGroup, clients: Client[]): Client[] =>
+  group.memberClientIds
+    .map(id => clients.find(c => c.id === id))
+    .filter((c): c is Client => !!c);
+
+// ============================================================================
+// CONSOLIDATED STATEMENTS
+// ============================================================================
+
+/**
+ * Consolidated balance sheet with each member's own balance sheet alongside
+ */
+export const generateConsolidatedBalanceSheet = (
+  group: ConsolidationGroup,
+  clients: Client[],
+  glEntries: PostedGLEntry[],
+  asOfDate: string
+): ConsolidationResult<BalanceSheet> => {
+  const eliminations = calculateEliminations(group, glEntries, asOfDate);
+  const ledger = [...combineLedgers(group, glEntries), ...eliminations.entries];
+
+  return {
+    group,
+    members: membersOf(group, clients).map(c => ({
+      clientId: c.id,
+      clientName: c.name,
+      statement: generateBalanceSheet(glEntries, c, asOfDate),
+    })),
+    eliminations: eliminations.results,
+    consolidated: generateBalanceSheet(ledger, groupAsClient(group, clients), asOfDate),
+  };
+};
+
+/**
+ * Consolidated income statement for a period, intercompany sales and costs eliminated
+ */
+export const generateConsolidatedIncomeStatement = (
+  group: ConsolidationGroup,
+  clients: Client[],
+  glEntries: PostedGLEntry[],
+  periodStart: string,
+  periodEnd: string
+): ConsolidationResult<IncomeStatement> => {
+  const eliminations = calculateEliminations(group, glEntries, periodEnd, periodStart);
+  const ledger = [...combineLedgers(group, glEntries), ...eliminations.entries];
+
+  return {
+    group,
+    members: membersOf(group, clients).map(c => ({
+      clientId: c.id,
+      clientName: c.name,
+      statement: generateIncomeStatement(glEntries, c, periodStart, periodEnd),
+    })),
+    eliminations: eliminations.results,
+    consolidated: generateIncomeStatement(ledger, groupAsClient(group, clients), periodStart, periodEnd),
+  };
+};
+
+// ============================================================================
+// GROUP SETUP
+// ============================================================================
+
+const validateGroup = (input: GroupInput): string | null => {
+  if (!input.name.trim()) return 'กรุณาระบุชื่อกลุ่มบริษัท';
+  if (!input.memberClientIds.includes(input.parentClientId)) return 'บริษัทใหญ่ต้องเป็นสมาชิกของกลุ่ม';
+  if (input.memberClientIds.length < 2) return 'กลุ่มบริษัทต้องมีอย่างน้อย 2 บริษัท';
+  const invalid = input.eliminationRules.find(r =>
+    !input.memberClientIds.includes(r.fromClientId) ||
+    !input.memberClientIds.includes(r.toClientId) ||
+    !r.fromAccountCode ||
+    !r.toAccountCode
+  );
+  if (invalid) return `กฎตัดรายการ "${invalid.description}" ต้องอ้างอิงบริษัทในกลุ่มและรหัสบัญชี`;
+  return null;
+};
+
+/**
+ * Create or update a group
+ */
+export const saveGroup = async (
+  input: GroupInput,
+  userId: string,
+  existing?: ConsolidationGroup
+): Promise<ConsolidationGroup> => {
+  const error = validateGroup(input);
+  if (error) throw new Error(error);
+
+  const group: ConsolidationGroup = existing
+    ? { ...existing, ...input, name: input.name.trim(), updatedAt: new Date().toISOString() }
+    : {
+        ...input,
+        id: `GRP-${input.parentClientId}-${Date.now()}`,
+        name: input.name.trim(),
+        createdAt: new Date().toISOString(),
+        createdBy: userId,
+      };
+  await databaseService.saveConsolidationGroup(group);
+  return group;
+};
+
+/**
+ * Group entries for every member, fetched per client
+ */
+export const loadGroupEntries = async (group: ConsolidationGroup): Promise<PostedGLEntry[]> =>
+  (await Promise.all(group.memberClientIds.map(id => databaseService.getGLEntriesByClient(id)))).flat();
+
+export const consolidationService = {
+  calculateEliminations,
+  generateConsolidatedBalanceSheet,
+  generateConsolidatedIncomeStatement,
+  saveGroup,
+  loadGroupEntries,
+};
+
+export default consolidationService;
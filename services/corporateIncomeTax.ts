@@ -0,0 +1,683 @@
+/**
+ * corporateIncomeTax.ts
+ *
+ * Corporate Income Tax (PND50 / PND51)
+ * ภาษีเงินได้นิติบุคคล: กระทบยอดกำไรทางภาษี ภ.ง.ด.50 และประมาณการครึ่งปี ภ.ง.ด.51
+ *
+ * Taxable profit starts from accounting profit before tax for the fiscal year
+ * (closing vouchers excluded, so monthly closings do not hide the P&L) and adds
+ * back what section 65 ter disallows: entertainment above the cap, reserves and
+ * provisions until they are used, accounts configured as non-deductible, and the
+ * book-tax depreciation difference from taxDepreciation. Losses of the previous
+ * five fiscal years are deducted oldest first.
+ *
+ * SMEs (paid-up capital up to 5M and sales up to 30M) pay 0% on the first 300k,
+ * 15% up to 3M and 20% above; everyone else pays a flat 20%. Withholding tax
+ * suffered (11900) and the PND51 paid during the year are credited on PND50.
+ */
+
+import { Client, FixedAsset, PostedGLEntry } from '../types';
+import { CLOSING_ACCOUNTS, calculateBroughtForwardBalances, isClosingEntry, isOpeningEntry } from './periodClosing';
+import { calculateBookTaxDifferences } from './taxDepreciation';
+import { getFiscalYearEndMonth, getFiscalYearRange } from './fiscalYear';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CITBracket {
+  upTo: number | null; // Upper bound of the band, null = no limit
+  rate: number; // %
+}
+
+export interface CITBracketLine extends CITBracket {
+  base: number; // Profit taxed in this band
+  tax: number;
+}
+
+export type CITAdjustmentType = 'entertainment' | 'provision' | 'non_deductible' | 'depreciation';
+
+export interface CITAdjustment {
+  type: CITAdjustmentType;
+  description: string;
+  amount: number; // Positive = added back, negative = deducted
+}
+
+export interface TaxLossRecord {
+  fiscalYear: number; // Year the loss arose
+  amount: number; // Loss still available
+}
+
+export interface TaxLossUsage extends TaxLossRecord {
+  used: number;
+  remaining: number;
+  lastYear: number; // Last fiscal year the loss can be used in
+}
+
+export interface SMEStatus {
+  isSME: boolean;
+  paidUpCapital: number;
+  salesRevenue: number;
+  reasons: string[]; // Why the company is not an SME
+}
+
+export interface CITOptions {
+  assets?: FixedAsset[]; // For the book-tax depreciation difference
+  asOf?: string; // YYYY-MM-DD, defaults to the fiscal year end (year-to-date accruals)
+  paidUpCapital?: number; // Defaults to the paid-up capital account balance
+  nonDeductibleAccounts?: string[]; // Expense accounts disallowed in full
+  lossesBroughtForward?: TaxLossRecord[]; // Defaults to losses found in earlier fiscal years of the GL
+}
+
+export interface CITComputation {
+  clientId: string;
+  taxpayerName: string;
+  taxpayerTaxId: string;
+  fiscalYear: number;
+  range: { start: string; end: string };
+
+  totalRevenue: number;
+  totalExpenses: number; // Excluding the CIT expense itself
+  profitBeforeTax: number;
+  adjustments: CITAdjustment[];
+  totalAddBack: number;
+  profitBeforeLoss: number; // Profit after adjustments, before losses brought forward
+
+  losses: TaxLossUsage[];
+  lossApplied: number;
+  taxableProfit: number; // Never negative
+  lossForYear: number; // New tax loss to carry forward
+
+  sme: SMEStatus;
+  brackets: CITBracketLine[];
+  citAmount: number;
+
+  whtCredits: number;
+  pnd51Paid: number;
+  taxPayable: number; // Negative = refund
+  dueDate: string;
+}
+
+export interface PND51Estimate {
+  clientId: string;
+  taxpayerName: string;
+  taxpayerTaxId: string;
+  fiscalYear: number;
+  halfYear: { start: string; end: string };
+  actualHalfYearProfit: number; // Adjusted profit of the first six months
+  estimatedAnnualProfit: number;
+  lossApplied: number;
+  taxBase: number; // Half of the estimated profit after losses
+  sme: SMEStatus;
+  brackets: CITBracketLine[];
+  citAmount: number;
+  whtCredits: number;
+  taxPayable: number; // PND51 never refunds; excess credits wait for PND50
+  dueDate: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SME_PAID_UP_CAPITAL_LIMIT = 5000000;
+export const SME_SALES_LIMIT = 30000000;
+
+export const SME_CIT_BRACKETS: CITBracket[] = [
+  { upTo: 300000, rate: 0 },
+  { upTo: 3000000, rate: 15 },
+  { upTo: null, rate: 20 },
+];
+
+export const STANDARD_CIT_BRACKETS: CITBracket[] = [{ upTo: null, rate: 20 }];
+
+// Entertainment: 0.3% of the greater of revenue or paid-up capital, at most 10M
+export const ENTERTAINMENT_CAP_RATE = 0.003;
+export const ENTERTAINMENT_CAP_MAX = 10000000;
+
+export const LOSS_CARRYFORWARD_YEARS = 5;
+
+export const CIT_ACCOUNTS = {
+  ENTERTAINMENT: '52700',
+  WHT_RECEIVABLE: '11900',
+  PAID_UP_CAPITAL: '31200',
+  SHARE_CAPITAL: '31100',
+  SALES_REVENUE_PREFIX: '41',
+};
+
+// Reserves are only deductible when used: the year's increase is added back
+export const PROVISION_ACCOUNTS = [
+  CLOSING_ACCOUNTS.BAD_DEBT_PROVISION,
+  CLOSING_ACCOUNTS.LEAVE_PROVISION,
+  CLOSING_ACCOUNTS.WARRANTY_PROVISION,
+  CLOSING_ACCOUNTS.LEGAL_PROVISION,
+];
+
+// PND51 payments are posted as PND51-{fiscal year}
+export const PND51_DOC_PREFIX = 'PND51-';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const addMonthsToMonthEnd = (date: string, months: number): string => {
+  const [year, month] = date.split('-').map(Number);
+  const last = new Date(Date.UTC(year, month - 1 + months + 1, 0));
+  return last.toISOString().split('T')[0];
+};
+
+// ============================================================================
+// RATES & ELIGIBILITY
+// ============================================================================
+
+/**
+ * Tax on a taxable profit, band by band
+ */
+export const calculateTieredCIT = (
+  taxableProfit: number,
+  brackets: CITBracket[]
+): { brackets: CITBracketLine[]; citAmount: number } => {
+  let lower = 0;
+  const lines = brackets.map(bracket => {
+    const upper = bracket.upTo ?? Infinity;
+    const base = round2(Math.max(0, Math.min(taxableProfit, upper) - lower));
+    lower = upper;
+    return { ...bracket, base, tax: round2(base * bracket.rate / 100) };
+  });
+  return { brackets: lines, citAmount: round2(lines.reduce((sum, l) => sum + l.tax, 0)) };
+};
+
+/**
+ * SME rates apply when paid-up capital at the end of the period is at most 5M
+ * and income from selling goods and services is at most 30M
+ */
+export const checkSMEEligibility = (paidUpCapital: number, salesRevenue: number): SMEStatus => {
+  const reasons: string[] = [];
+  if (paidUpCapital > SME_PAID_UP_CAPITAL_LIMIT) reasons.push('ทุนชำระแล้วเกิน 5 ล้านบาท');
+  if (salesRevenue > SME_SALES_LIMIT) reasons.push('รายได้จากการขายสินค้าหรือให้บริการเกิน 30 ล้านบาท');
+  return { isSME: reasons.length === 0, paidUpCapital: round2(paidUpCapital), salesRevenue: round2(salesRevenue), reasons };
+};
+
+/**
+ * Deductible entertainment: 0.3% of the greater of revenue or paid-up capital, capped at 10M
+ */
+export const getEntertainmentCap = (revenue: number, paidUpCapital: number): number =>
+  round2(Math.min(Math.max(revenue, paidUpCapital) * ENTERTAINMENT_CAP_RATE, ENTERTAINMENT_CAP_MAX));
+
+// ============================================================================
+// TAXABLE PROFIT
+// ============================================================================
+
+interface AdjustedProfit {
+  totalRevenue: number;
+  salesRevenue: number;
+  totalExpenses: number;
+  profitBeforeTax: number;
+  paidUpCapital: number;
+  adjustments: CITAdjustment[];
+  totalAddBack: number;
+  profitBeforeLoss: number;
+  whtCredits: number;
+}
+
+/**
+ * Paid-up capital at a date; falls back to share capital when no paid-up account is used
+ */
+const getPaidUpCapital = (glEntries: PostedGLEntry[], asOf: string): number => {
+  const balances = calculateBroughtForwardBalances(glEntries, addDays(asOf, 1));
+  const credit = (code: string) => -balances.filter(b => b.accountCode === code).reduce((sum, b) => sum + b.balance, 0);
+  return round2(credit(CIT_ACCOUNTS.PAID_UP_CAPITAL) || credit(CIT_ACCOUNTS.SHARE_CAPITAL));
+};
+
+const calculateAdjustedProfit = (
+  glEntries: PostedGLEntry[],
+  range: { start: string; end: string },
+  options: CITOptions
+): AdjustedProfit => {
+  const nonDeductible = options.nonDeductibleAccounts || [];
+  let totalRevenue = 0;
+  let salesRevenue = 0;
+  let totalExpenses = 0;
+  let entertainment = 0;
+  let provisions = 0;
+  let disallowed = 0;
+  let whtCredits = 0;
+
+  glEntries.forEach(entry => {
+    if (entry.date < range.start || entry.date > range.end) return;
+    if (isClosingEntry(entry) || isOpeningEntry(entry)) return;
+    const code = entry.account_code;
+
+    if (code.startsWith('4')) {
+      totalRevenue += entry.credit - entry.debit;
+      if (code.startsWith(CIT_ACCOUNTS.SALES_REVENUE_PREFIX)) salesRevenue += entry.credit - entry.debit;
+    } else if (code.startsWith('5') && code !== CLOSING_ACCOUNTS.CIT_EXPENSE) {
+      totalExpenses += entry.debit - entry.credit;
+      if (code === CIT_ACCOUNTS.ENTERTAINMENT) entertainment += entry.debit - entry.credit;
+      if (nonDeductible.includes(code)) disallowed += entry.debit - entry.credit;
+    }
+
+    if (PROVISION_ACCOUNTS.includes(code)) provisions += entry.credit - entry.debit;
+    if (code === CIT_ACCOUNTS.WHT_RECEIVABLE) whtCredits += entry.debit;
+  });
+
+  const paidUpCapital = options.paidUpCapital ?? getPaidUpCapital(glEntries, range.end);
+  const entertainmentCap = getEntertainmentCap(totalRevenue, paidUpCapital);
+  const depreciation = options.assets?.length ? calculateBookTaxDifferences(options.assets, range).totalAddBack : 0;
+
+  const adjustments: CITAdjustment[] = [
+    {
+      type: 'entertainment' as const,
+      description: `ค่ารับรองส่วนที่เกินกำหนด (เพดาน ${entertainmentCap.toLocaleString()} บาท)`,
+      amount: round2(Math.max(0, entertainment - entertainmentCap)),
+    },
+    { type: 'provision' as const, description: 'ประมาณการหนี้สินและค่าเผื่อที่เพิ่มขึ้นระหว่างปี', amount: round2(provisions) },
+    { type: 'non_deductible' as const, description: 'รายจ่ายต้องห้ามตามมาตรา 65 ตรี', amount: round2(disallowed) },
+    { type: 'depreciation' as const, description: 'ผลต่างค่าเสื่อมราคาทางบัญชีและทางภาษี', amount: round2(depreciation) },
+  ].filter(a => a.amount !== 0);
+
+  const profitBeforeTax = round2(totalRevenue - totalExpenses);
+  const totalAddBack = round2(adjustments.reduce((sum, a) => sum + a.amount, 0));
+
+  return {
+    totalRevenue: round2(totalRevenue),
+    salesRevenue: round2(salesRevenue),
+    totalExpenses: round2(totalExpenses),
+    profitBeforeTax,
+    paidUpCapital,
+    adjustments,
+    totalAddBack,
+    profitBeforeLoss: round2(profitBeforeTax + totalAddBack),
+    whtCredits: round2(whtCredits),
+  };
+};
+
+// ============================================================================
+// LOSS CARRYFORWARD
+// ============================================================================
+
+/**
+ * Tax losses still available at the start of a fiscal year
+ * Replays the earlier years in the GL, using the oldest losses first and
+ * dropping any loss older than five years.
+ */
+export const calculateLossesBroughtForward = (
+  glEntries: PostedGLEntry[],
+  client: Pick<Client, 'id' | 'fiscal_year_end_month'>,
+  fiscalYear: number,
+  options: Pick<CITOptions, 'assets' | 'nonDeductibleAccounts'> = {}
+): TaxLossRecord[] => {
+  const entries = glEntries.filter(e => e.clientId === client.id);
+  const endMonth = getFiscalYearEndMonth(client);
+  let losses: TaxLossRecord[] = [];
+
+  for (let year = fiscalYear - LOSS_CARRYFORWARD_YEARS * 2; year < fiscalYear; year++) {
+    const range = getFiscalYearRange(year, endMonth);
+    losses = losses.filter(l => year - l.fiscalYear <= LOSS_CARRYFORWARD_YEARS);
+    if (!entries.some(e => e.date >= range.start && e.date <= range.end)) continue;
+
+    let profit = calculateAdjustedProfit(entries, range, options).profitBeforeLoss;
+    if (profit < 0) {
+      losses.push({ fiscalYear: year, amount: round2(-profit) });
+      continue;
+    }
+    losses = losses.map(l => {
+      const used = Math.min(l.amount, profit);
+      profit = round2(profit - used);
+      return { ...l, amount: round2(l.amount - used) };
+    }).filter(l => l.amount > 0);
+  }
+
+  return losses.filter(l => fiscalYear - l.fiscalYear <= LOSS_CARRYFORWARD_YEARS);
+};
+
+const applyLosses = (profit: number, losses: TaxLossRecord[], fiscalYear: number): TaxLossUsage[] => {
+  let remainingProfit = Math.max(0, profit);
+  return [...losses]
+    .filter(l => fiscalYear - l.fiscalYear <= LOSS_CARRYFORWARD_YEARS && l.amount > 0)
+    .sort((a, b) => a.fiscalYear - b.fiscalYear)
+    .map(l => {
+      const used = round2(Math.min(l.amount, remainingProfit));
+      remainingProfit = round2(remainingProfit - used);
+      return { ...l, used, remaining: round2(l.amount - used), lastYear: l.fiscalYear + LOSS_CARRYFORWARD_YEARS };
+    });
+};
+
+// ============================================================================
+// PND50
+// ============================================================================
+
+/**
+ * Annual corporate income tax for a fiscal year (PND50)
+ * With options.asOf the same computation gives the year-to-date tax the
+ * monthly CIT accrual books.
+ */
+export const computeCorporateIncomeTax = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  fiscalYear: number,
+  options: CITOptions = {}
+): CITComputation => {
+  const entries = glEntries.filter(e => e.clientId === client.id);
+  const fullYear = getFiscalYearRange(fiscalYear, getFiscalYearEndMonth(client));
+  const range = { start: fullYear.start, end: options.asOf && options.asOf < fullYear.end ? options.asOf : fullYear.end };
+
+  const profit = calculateAdjustedProfit(entries, range, options);
+  const losses = applyLosses(
+    profit.profitBeforeLoss,
+    options.lossesBroughtForward ?? calculateLossesBroughtForward(entries, client, fiscalYear, options),
+    fiscalYear
+  );
+  const lossApplied = round2(losses.reduce((sum, l) => sum + l.used, 0));
+  const taxableProfit = round2(Math.max(0, profit.profitBeforeLoss - lossApplied));
+
+  const sme = checkSMEEligibility(profit.paidUpCapital, profit.salesRevenue);
+  const tax = calculateTieredCIT(taxableProfit, sme.isSME ? SME_CIT_BRACKETS : STANDARD_CIT_BRACKETS);
+
+  const pnd51Paid = round2(entries
+    .filter(e => e.account_code === CLOSING_ACCOUNTS.CIT_PAYABLE
+      && (e.reference_no || e.doc_no || '').startsWith(`${PND51_DOC_PREFIX}${fiscalYear}`))
+    .reduce((sum, e) => sum + e.debit - e.credit, 0));
+
+  return {
+    clientId: client.id,
+    taxpayerName: client.name,
+    taxpayerTaxId: client.tax_id,
+    fiscalYear,
+    range,
+    totalRevenue: profit.totalRevenue,
+    totalExpenses: profit.totalExpenses,
+    profitBeforeTax: profit.profitBeforeTax,
+    adjustments: profit.adjustments,
+    totalAddBack: profit.totalAddBack,
+    profitBeforeLoss: profit.profitBeforeLoss,
+    losses,
+    lossApplied,
+    taxableProfit,
+    lossForYear: round2(Math.max(0, -profit.profitBeforeLoss)),
+    sme,
+    brackets: tax.brackets,
+    citAmount: tax.citAmount,
+    whtCredits: profit.whtCredits,
+    pnd51Paid,
+    taxPayable: round2(tax.citAmount - profit.whtCredits - pnd51Paid),
+    // Within 150 days after the fiscal year end
+    dueDate: addDays(fullYear.end, 150),
+  };
+};
+
+/**
+ * CIT expense already accrued in a date range, net of reversals
+ * Closing vouchers move the expense to retained earnings and are ignored.
+ */
+export const getAccruedCIT = (glEntries: PostedGLEntry[], range: { start: string; end: string }): number =>
+  round2(glEntries
+    .filter(e => e.account_code === CLOSING_ACCOUNTS.CIT_EXPENSE && e.date >= range.start && e.date <= range.end && !isClosingEntry(e))
+    .reduce((sum, e) => sum + e.debit - e.credit, 0));
+
+/**
+ * CIT to accrue for a month: year-to-date tax less what earlier months accrued
+ * Negative when the year-to-date estimate went down.
+ */
+export const calculateCITAccrual = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  fiscalYear: number,
+  period: string, // YYYY-MM
+  options: Omit<CITOptions, 'asOf'> = {}
+): { computation: CITComputation; accrued: number; accrual: number } => {
+  const [year, month] = period.split('-').map(Number);
+  const periodEnd = `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+  const computation = computeCorporateIncomeTax(glEntries, client, fiscalYear, { ...options, asOf: periodEnd });
+  const accrued = getAccruedCIT(
+    glEntries.filter(e => e.clientId === client.id),
+    { start: computation.range.start, end: addDays(`${period}-01`, -1) }
+  );
+  return { computation, accrued, accrual: round2(computation.citAmount - accrued) };
+};
+
+// ============================================================================
+// PND51
+// ============================================================================
+
+/**
+ * Half-year estimate (PND51): tax on half of the estimated annual profit
+ * The estimate defaults to twice the adjusted profit of the first six months.
+ * Losses brought forward reduce the estimate before it is halved.
+ */
+export const estimatePND51 = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  fiscalYear: number,
+  options: Omit<CITOptions, 'asOf'> & { estimatedAnnualProfit?: number } = {}
+): PND51Estimate => {
+  const entries = glEntries.filter(e => e.clientId === client.id);
+  const fullYear = getFiscalYearRange(fiscalYear, getFiscalYearEndMonth(client));
+  const halfYear = { start: fullYear.start, end: addMonthsToMonthEnd(fullYear.start, 5) };
+
+  const profit = calculateAdjustedProfit(entries, halfYear, options);
+  const estimatedAnnualProfit = round2(options.estimatedAnnualProfit ?? profit.profitBeforeLoss * 2);
+  const losses = applyLosses(
+    estimatedAnnualProfit,
+    options.lossesBroughtForward ?? calculateLossesBroughtForward(entries, client, fiscalYear, options),
+    fiscalYear
+  );
+  const lossApplied = round2(losses.reduce((sum, l) => sum + l.used, 0));
+  const taxBase = round2(Math.max(0, estimatedAnnualProfit - lossApplied) / 2);
+
+  // Sales are annualised for the 30M test
+  const sme = checkSMEEligibility(profit.paidUpCapital, profit.salesRevenue * 2);
+  const tax = calculateTieredCIT(taxBase, sme.isSME ? SME_CIT_BRACKETS : STANDARD_CIT_BRACKETS);
+
+  return {
+    clientId: client.id,
+    taxpayerName: client.name,
+    taxpayerTaxId: client.tax_id,
+    fiscalYear,
+    halfYear,
+    actualHalfYearProfit: profit.profitBeforeLoss,
+    estimatedAnnualProfit,
+    lossApplied,
+    taxBase,
+    sme,
+    brackets: tax.brackets,
+    citAmount: tax.citAmount,
+    whtCredits: profit.whtCredits,
+    taxPayable: round2(Math.max(0, tax.citAmount - profit.whtCredits)),
+    // Within two months after the first half ends
+    dueDate: addMonthsToMonthEnd(halfYear.end, 2),
+  };
+};
+
+/**
+ * Payment of the PND51 against the accrued CIT payable
+ */
+export const buildPND51PaymentEntries = (
+  pnd51: PND51Estimate,
+  paymentDate: string,
+  bankAccountCode: string = '11200'
+): PostedGLEntry[] => {
+  if (pnd51.taxPayable <= 0) {
+    throw new Error('ไม่มีภาษีที่ต้องชำระตาม ภ.ง.ด.51');
+  }
+  if (paymentDate <= pnd51.halfYear.end) {
+    throw new Error('วันที่ชำระต้องอยู่หลังรอบครึ่งปีบัญชี');
+  }
+
+  const docNo = `${PND51_DOC_PREFIX}${pnd51.fiscalYear}`;
+  const description = `ชำระภาษีเงินได้นิติบุคคลครึ่งปี ภ.ง.ด.51 ปีบัญชี ${pnd51.fiscalYear}`;
+  return [
+    {
+      id: `${docNo}-CIT`, clientId: pnd51.clientId, date: paymentDate, doc_no: docNo, description,
+      account_code: CLOSING_ACCOUNTS.CIT_PAYABLE, account_name: 'ภาษีเงินได้นิติบุคคลค้างจ่าย',
+      debit: pnd51.taxPayable, credit: 0, system_generated: true,
+    },
+    {
+      id: `${docNo}-BANK`, clientId: pnd51.clientId, date: paymentDate, doc_no: docNo, description,
+      account_code: bankAccountCode, account_name: 'เงินฝากธนาคาร',
+      debit: 0, credit: pnd51.taxPayable, system_generated: true,
+    },
+  ];
+};
+
+// ============================================================================
+// FORMS
+// ============================================================================
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+
+const bracketRows = (brackets: CITBracketLine[]) => brackets.map((b, i) => `
+          <tr>
+            <td>${i === 0 ? '0' : formatCurrency(brackets[i - 1].upTo || 0)} - ${b.upTo === null ? 'ขึ้นไป' : formatCurrency(b.upTo)}</td>
+            <td class="amount">${b.rate}%</td>
+            <td class="amount">${formatCurrency(b.base)}</td>
+            <td class="amount">${formatCurrency(b.tax)}</td>
+          </tr>`).join('');
+
+const formStyle = `
+    @page { size: A4; margin: 10mm; }
+    body { font-family: 'Sarabun', 'TH SarabunPSK', sans-serif; font-size: 13px; padding: 15px; }
+    .form { max-width: 800px; margin: 0 auto; }
+    .header { text-align: center; margin-bottom: 20px; }
+    .title { font-size: 20px; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; margin-bottom: 16px; }
+    th, td { border: 1px solid #999; padding: 4px 6px; }
+    th { background: #f0f0f0; }
+    .amount { text-align: right; font-family: monospace; }
+    .total { font-weight: bold; background: #f5f5f5; }`;
+
+/**
+ * Printable PND50 with the taxable-income reconciliation
+ */
+export const generatePND50HTML = (cit: CITComputation): string => `
+<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <title>แบบ ภ.ง.ด.50 - ปีบัญชี ${cit.fiscalYear}</title>
+  <style>${formStyle}
+  </style>
+</head>
+<body>
+  <div class="form">
+    <div class="header">
+      <div class="title">แบบแสดงรายการภาษีเงินได้นิติบุคคล (ภ.ง.ด.50)</div>
+      <div>รอบระยะเวลาบัญชี ${cit.range.start} ถึง ${cit.range.end} กำหนดยื่น ${cit.dueDate}</div>
+    </div>
+
+    <p><strong>ผู้เสียภาษี:</strong> ${cit.taxpayerName} เลขประจำตัวผู้เสียภาษี ${cit.taxpayerTaxId}</p>
+    <p><strong>สถานะ:</strong> ${cit.sme.isSME ? 'SME (ทุนชำระแล้ว ≤ 5 ล้าน และรายได้ ≤ 30 ล้าน)' : `นิติบุคคลทั่วไป (${cit.sme.reasons.join(', ')})`}</p>
+
+    <table>
+      <tbody>
+        <tr><td>รายได้รวม</td><td class="amount">${formatCurrency(cit.totalRevenue)}</td></tr>
+        <tr><td>หัก ค่าใช้จ่าย</td><td class="amount">${formatCurrency(cit.totalExpenses)}</td></tr>
+        <tr class="total"><td>กำไร (ขาดทุน) สุทธิทางบัญชี</td><td class="amount">${formatCurrency(cit.profitBeforeTax)}</td></tr>
+        ${cit.adjustments.map(a => `<tr><td>${a.amount >= 0 ? 'บวก' : 'หัก'} ${a.description}</td><td class="amount">${formatCurrency(Math.abs(a.amount))}</td></tr>`).join('')}
+        <tr class="total"><td>กำไร (ขาดทุน) สุทธิทางภาษีก่อนหักผลขาดทุนสะสม</td><td class="amount">${formatCurrency(cit.profitBeforeLoss)}</td></tr>
+        ${cit.losses.filter(l => l.used > 0).map(l => `<tr><td>หัก ผลขาดทุนสุทธิยกมาจากปีบัญชี ${l.fiscalYear}</td><td class="amount">${formatCurrency(l.used)}</td></tr>`).join('')}
+        <tr class="total"><td>กำไรสุทธิที่ต้องเสียภาษี</td><td class="amount">${formatCurrency(cit.taxableProfit)}</td></tr>
+      </tbody>
+    </table>
+
+    <table>
+      <thead>
+        <tr><th>ช่วงกำไรสุทธิ</th><th>อัตรา</th><th>กำไรสุทธิ</th><th>ภาษี</th></tr>
+      </thead>
+      <tbody>${bracketRows(cit.brackets)}
+        <tr class="total"><td colspan="3">ภาษีเงินได้นิติบุคคล</td><td class="amount">${formatCurrency(cit.citAmount)}</td></tr>
+      </tbody>
+    </table>
+
+    <table>
+      <tbody>
+        <tr><td>หัก ภาษีเงินได้ถูกหัก ณ ที่จ่าย</td><td class="amount">${formatCurrency(cit.whtCredits)}</td></tr>
+        <tr><td>หัก ภาษีที่ชำระตาม ภ.ง.ด.51</td><td class="amount">${formatCurrency(cit.pnd51Paid)}</td></tr>
+        <tr class="total"><td>${cit.taxPayable >= 0 ? 'ภาษีที่ต้องชำระเพิ่มเติม' : 'ภาษีที่ชำระไว้เกิน (ขอคืน)'}</td><td class="amount">${formatCurrency(Math.abs(cit.taxPayable))}</td></tr>
+      </tbody>
+    </table>
+
+    ${cit.lossForYear > 0 ? `<p>ผลขาดทุนสุทธิปีนี้ ${formatCurrency(cit.lossForYear)} บาท ยกไปหักได้ถึงปีบัญชี ${cit.fiscalYear + LOSS_CARRYFORWARD_YEARS}</p>` : ''}
+
+    <div style="margin-top: 20px; font-size: 11px; text-align: center; color: #666;">
+      เอกสารนี้ออกโดยระบบ WE Accounting AI - ${new Date().toISOString()}
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+/**
+ * Printable PND51 half-year estimate
+ */
+export const generatePND51HTML = (pnd51: PND51Estimate): string => `
+<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <title>แบบ ภ.ง.ด.51 - ปีบัญชี ${pnd51.fiscalYear}</title>
+  <style>${formStyle}
+  </style>
+</head>
+<body>
+  <div class="form">
+    <div class="header">
+      <div class="title">แบบแสดงรายการภาษีเงินได้นิติบุคคลครึ่งรอบระยะเวลาบัญชี (ภ.ง.ด.51)</div>
+      <div>รอบครึ่งปี ${pnd51.halfYear.start} ถึง ${pnd51.halfYear.end} กำหนดยื่น ${pnd51.dueDate}</div>
+    </div>
+
+    <p><strong>ผู้เสียภาษี:</strong> ${pnd51.taxpayerName} เลขประจำตัวผู้เสียภาษี ${pnd51.taxpayerTaxId}</p>
+
+    <table>
+      <tbody>
+        <tr><td>กำไรสุทธิทางภาษี 6 เดือนแรก</td><td class="amount">${formatCurrency(pnd51.actualHalfYearProfit)}</td></tr>
+        <tr><td>ประมาณการกำไรสุทธิทั้งปี</td><td class="amount">${formatCurrency(pnd51.estimatedAnnualProfit)}</td></tr>
+        <tr><td>หัก ผลขาดทุนสุทธิยกมา</td><td class="amount">${formatCurrency(pnd51.lossApplied)}</td></tr>
+        <tr class="total"><td>กึ่งหนึ่งของประมาณการกำไรสุทธิ</td><td class="amount">${formatCurrency(pnd51.taxBase)}</td></tr>
+      </tbody>
+    </table>
+
+    <table>
+      <thead>
+        <tr><th>ช่วงกำไรสุทธิ</th><th>อัตรา</th><th>กำไรสุทธิ</th><th>ภาษี</th></tr>
+      </thead>
+      <tbody>${bracketRows(pnd51.brackets)}
+        <tr class="total"><td colspan="3">ภาษีเงินได้นิติบุคคล</td><td class="amount">${formatCurrency(pnd51.citAmount)}</td></tr>
+      </tbody>
+    </table>
+
+    <table>
+      <tbody>
+        <tr><td>หัก ภาษีเงินได้ถูกหัก ณ ที่จ่าย</td><td class="amount">${formatCurrency(pnd51.whtCredits)}</td></tr>
+        <tr class="total"><td>ภาษีที่ต้องชำระ</td><td class="amount">${formatCurrency(pnd51.taxPayable)}</td></tr>
+      </tbody>
+    </table>
+
+    <div style="margin-top: 20px; font-size: 11px; text-align: center; color: #666;">
+      เอกสารนี้ออกโดยระบบ WE Accounting AI - ${new Date().toISOString()}
+    </div>
+  </div>
+</body>
+</html>
+`.trim();
+
+export const corporateIncomeTaxService = {
+  calculateTieredCIT,
+  checkSMEEligibility,
+  getEntertainmentCap,
+  calculateLossesBroughtForward,
+  computeCorporateIncomeTax,
+  getAccruedCIT,
+  calculateCITAccrual,
+  estimatePND51,
+  buildPND51PaymentEntries,
+  generatePND50HTML,
+  generatePND51HTML,
+};
+
+export default corporateIncomeTaxService;
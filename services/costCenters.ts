@@ -0,0 +1,313 @@
+/**
+ * costCenters.ts
+ *
+ * Cost centers, projects and shared-cost allocation
+ * ศูนย์ต้นทุน/แผนก/สาขา และการปันส่วนค่าใช้จ่ายส่วนกลาง
+ *
+ * Each client keeps a master of cost centers whose codes match
+ * department_code on journal lines. Allocation rules move shared expenses
+ * (rent, utilities) from a pool to cost centers by fixed percentages or by
+ * each center's share of revenue, as a period-end JV.
+ */
+
+import { AllocationRule, ClientCostCenterSetup, CostCenter, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CostCenterOperationResult {
+  success: boolean;
+  setup: ClientCostCenterSetup;
+  message: string;
+  messageTh: string;
+}
+
+export interface AllocationLine {
+  ruleId: string;
+  accountCode: string;
+  costCenter: string;
+  share: number; // %
+  amount: number;
+}
+
+// ============================================================================
+// MASTER DATA
+// ============================================================================
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const failure = (setup: ClientCostCenterSetup, message: string, messageTh: string): CostCenterOperationResult =>
+  ({ success: false, setup, message, messageTh });
+
+export const loadCostCenterSetup = async (clientId: string): Promise<ClientCostCenterSetup> => {
+  const stored = await databaseService.getCostCenterSetup(clientId);
+  return stored || {
+    id: clientId,
+    clientId,
+    costCenters: [],
+    allocationRules: [],
+    updatedAt: '',
+    updatedBy: 'system',
+  };
+};
+
+const commit = async (
+  setup: ClientCostCenterSetup,
+  changes: Partial<Pick<ClientCostCenterSetup, 'costCenters' | 'allocationRules'>>,
+  userId: string,
+  message: string,
+  messageTh: string
+): Promise<CostCenterOperationResult> => {
+  const updated = { ...setup, ...changes, updatedAt: new Date().toISOString(), updatedBy: userId };
+  await databaseService.saveCostCenterSetup(updated);
+  return { success: true, setup: updated, message, messageTh };
+};
+
+/**
+ * Add or update a cost center
+ */
+export const saveCostCenter = async (
+  clientId: string,
+  costCenter: CostCenter,
+  userId: string
+): Promise<CostCenterOperationResult> => {
+  const setup = await loadCostCenterSetup(clientId);
+  const code = costCenter.code.trim().toUpperCase();
+
+  if (!/^[A-Z0-9-]{1,10}$/.test(code)) {
+    return failure(setup, `Invalid cost center code: ${costCenter.code}`, `รหัสแผนกไม่ถูกต้อง: ${costCenter.code}`);
+  }
+  if (!costCenter.name.trim()) {
+    return failure(setup, 'Cost center name is required', 'กรุณาระบุชื่อแผนก');
+  }
+
+  const exists = setup.costCenters.some(c => c.code === code);
+  const costCenters = exists
+    ? setup.costCenters.map(c => (c.code === code ? { ...costCenter, code } : c))
+    : [...setup.costCenters, { ...costCenter, code }];
+
+  return commit(
+    setup,
+    { costCenters },
+    userId,
+    `${exists ? 'Updated' : 'Added'} cost center ${code}`,
+    `${exists ? 'แก้ไข' : 'เพิ่ม'}แผนก ${code}`
+  );
+};
+
+/**
+ * Activate / deactivate a cost center (codes stay on posted entries)
+ */
+export const setCostCenterActive = async (
+  clientId: string,
+  code: string,
+  isActive: boolean,
+  userId: string
+): Promise<CostCenterOperationResult> => {
+  const setup = await loadCostCenterSetup(clientId);
+  if (!setup.costCenters.some(c => c.code === code)) {
+    return failure(setup, `Cost center ${code} not found`, `ไม่พบแผนก ${code}`);
+  }
+  if (!isActive && setup.allocationRules.some(r => r.isActive && r.targets.some(t => t.costCenter === code))) {
+    return failure(setup, `Cost center ${code} is an allocation target`, `แผนก ${code} ถูกใช้ในกฎการปันส่วน`);
+  }
+
+  return commit(
+    setup,
+    { costCenters: setup.costCenters.map(c => (c.code === code ? { ...c, isActive } : c)) },
+    userId,
+    `${isActive ? 'Activated' : 'Deactivated'} cost center ${code}`,
+    `${isActive ? 'เปิด' : 'ปิด'}ใช้งานแผนก ${code}`
+  );
+};
+
+// ============================================================================
+// ALLOCATION RULES
+// ============================================================================
+
+/**
+ * Check a rule against the cost center master; returns Thai error messages
+ */
+export const validateAllocationRule = (rule: AllocationRule, costCenters: CostCenter[]): string[] => {
+  const errors: string[] = [];
+  const active = new Set(costCenters.filter(c => c.isActive).map(c => c.code));
+
+  if (!rule.name.trim()) errors.push('กรุณาระบุชื่อกฎการปันส่วน');
+  if (rule.accountCodes.length === 0) errors.push('กรุณาระบุบัญชีค่าใช้จ่ายที่จะปันส่วน');
+  if (rule.accountCodes.some(code => !code.startsWith('5'))) errors.push('ปันส่วนได้เฉพาะบัญชีค่าใช้จ่าย (5xxxx)');
+  if (rule.targets.length === 0) errors.push('กรุณาระบุแผนกที่รับการปันส่วน');
+
+  rule.targets.forEach(t => {
+    if (!active.has(t.costCenter)) errors.push(`ไม่พบแผนก ${t.costCenter} หรือถูกปิดใช้งาน`);
+  });
+  if (rule.sourceCostCenter && rule.targets.some(t => t.costCenter === rule.sourceCostCenter)) {
+    errors.push('แผนกต้นทางต้องไม่อยู่ในแผนกที่รับการปันส่วน');
+  }
+
+  if (rule.method === 'fixed') {
+    const total = rule.targets.reduce((sum, t) => sum + (t.percentage || 0), 0);
+    if (Math.abs(total - 100) > 0.01) errors.push(`สัดส่วนรวมต้องเท่ากับ 100% (ปัจจุบัน ${round2(total)}%)`);
+  }
+
+  return errors;
+};
+
+export const saveAllocationRule = async (
+  clientId: string,
+  rule: AllocationRule,
+  userId: string
+): Promise<CostCenterOperationResult> => {
+  const setup = await loadCostCenterSetup(clientId);
+  const errors = validateAllocationRule(rule, setup.costCenters);
+  if (errors.length > 0) {
+    return failure(setup, 'Invalid allocation rule', errors.join(', '));
+  }
+
+  const exists = setup.allocationRules.some(r => r.id === rule.id);
+  const allocationRules = exists
+    ? setup.allocationRules.map(r => (r.id === rule.id ? rule : r))
+    : [...setup.allocationRules, rule];
+
+  return commit(setup, { allocationRules }, userId, `Saved allocation rule ${rule.name}`, `บันทึกกฎการปันส่วน ${rule.name}`);
+};
+
+export const deleteAllocationRule = async (
+  clientId: string,
+  ruleId: string,
+  userId: string
+): Promise<CostCenterOperationResult> => {
+  const setup = await loadCostCenterSetup(clientId);
+  return commit(
+    setup,
+    { allocationRules: setup.allocationRules.filter(r => r.id !== ruleId) },
+    userId,
+    'Deleted allocation rule',
+    'ลบกฎการปันส่วน'
+  );
+};
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Target shares (%) for a rule: fixed percentages, or each target's share
+ * of the period's revenue (4xxxx, excluding other income 49xxx)
+ */
+export const getAllocationShares = (
+  rule: AllocationRule,
+  periodEntries: PostedGLEntry[]
+): Record<string, number> | null => {
+  if (rule.method === 'fixed') {
+    return Object.fromEntries(rule.targets.map(t => [t.costCenter, t.percentage || 0]));
+  }
+
+  const revenue: Record<string, number> = {};
+  rule.targets.forEach(t => { revenue[t.costCenter] = 0; });
+  periodEntries.forEach(e => {
+    const center = e.department_code || '';
+    if (center in revenue && e.account_code.startsWith('4') && !e.account_code.startsWith('49')) {
+      revenue[center] += e.credit - e.debit;
+    }
+  });
+
+  const total = Object.values(revenue).reduce((sum, v) => sum + Math.max(0, v), 0);
+  if (total <= 0) return null;
+  return Object.fromEntries(Object.entries(revenue).map(([code, v]) => [code, (Math.max(0, v) / total) * 100]));
+};
+
+/**
+ * Generate the period's allocation JV
+ * For each rule and matching expense account: Cr the pool, Dr each target center.
+ * The last target absorbs rounding so every account nets to zero.
+ */
+export const calculateAllocations = (
+  glEntries: PostedGLEntry[],
+  rules: AllocationRule[],
+  clientId: string,
+  period: string // YYYY-MM
+): { entries: PostedGLEntry[]; lines: AllocationLine[]; errors: string[] } => {
+  const [year, month] = period.split('-').map(Number);
+  const periodEnd = `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+  const periodEntries = glEntries.filter(e => e.clientId === clientId && e.date.startsWith(period));
+
+  const entries: PostedGLEntry[] = [];
+  const lines: AllocationLine[] = [];
+  const errors: string[] = [];
+
+  rules.filter(r => r.isActive).forEach(rule => {
+    const shares = getAllocationShares(rule, periodEntries);
+    if (!shares) {
+      errors.push(`${rule.name}: ไม่มีรายได้ของแผนกที่รับการปันส่วนในงวด ${period}`);
+      return;
+    }
+
+    const source = rule.sourceCostCenter || '';
+    const pools: Record<string, { name: string; amount: number }> = {};
+    periodEntries.forEach(e => {
+      if ((e.department_code || '') !== source) return;
+      if (!rule.accountCodes.some(code => e.account_code.startsWith(code))) return;
+      if (!pools[e.account_code]) pools[e.account_code] = { name: e.account_name, amount: 0 };
+      pools[e.account_code].amount += e.debit - e.credit;
+    });
+
+    Object.entries(pools).forEach(([accountCode, pool]) => {
+      const amount = round2(pool.amount);
+      if (amount <= 0) return;
+
+      const base = {
+        clientId,
+        date: periodEnd,
+        doc_no: `JV-ALLOC-${period}`,
+        account_code: accountCode,
+        account_name: pool.name,
+        system_generated: true,
+      };
+
+      entries.push({
+        ...base,
+        id: `ALLOC-${rule.id}-${accountCode}-SRC`,
+        description: `ปันส่วน${rule.name} ออกจาก${source || 'ส่วนกลาง'}`,
+        ...(source ? { department_code: source } : {}),
+        debit: 0,
+        credit: amount,
+      });
+
+      let allocated = 0;
+      rule.targets.forEach((target, i) => {
+        const share = shares[target.costCenter] || 0;
+        const isLast = i === rule.targets.length - 1;
+        const targetAmount = isLast ? round2(amount - allocated) : round2(amount * share / 100);
+        allocated = round2(allocated + targetAmount);
+        if (targetAmount === 0) return;
+
+        lines.push({ ruleId: rule.id, accountCode, costCenter: target.costCenter, share: round2(share), amount: targetAmount });
+        entries.push({
+          ...base,
+          id: `ALLOC-${rule.id}-${accountCode}-${target.costCenter}`,
+          description: `ปันส่วน${rule.name} ${round2(share)}%`,
+          department_code: target.costCenter,
+          debit: targetAmount,
+          credit: 0,
+        });
+      });
+    });
+  });
+
+  return { entries, lines, errors };
+};
+
+export const costCenterService = {
+  loadCostCenterSetup,
+  saveCostCenter,
+  setCostCenterActive,
+  validateAllocationRule,
+  saveAllocationRule,
+  deleteAllocationRule,
+  getAllocationShares,
+  calculateAllocations,
+};
+
+export default costCenterService;
@@ -15,11 +15,13 @@ import {
     deleteDoc,
     DocumentSnapshot,
     QueryConstraint,
-    serverTimestamp
+    serverTimestamp,
+    runTransaction
 } from "firebase/firestore";
 import { db, isFirebaseConfigured } from "./firebase";
-import { Client, DocumentRecord, Staff, PostedGLEntry, FixedAsset, VendorRule, BankTransaction, ActivityLog } from '../types';
+import { Client, DocumentRecord, Staff, PostedGLEntry, FixedAsset, VendorRule, BankTransaction, ActivityLog, ClientChartOfAccounts, ClientVoucherConfig, VoucherSequence, ExchangeRate, ClientCostCenterSetup, Budget, FiscalYearClose, PeriodLock, AmortizationSchedule, InventoryItem, StockMovement, ConsolidationGroup, RecurringJournalTemplate, FinancialNoteTemplates, ClientDBDMapping } from '../types';
 import { validateGLPosting, GLPostingRequest, ValidationResult } from './accountingValidation';
+import { Employee, PaySlip } from './payroll';
 
 // --- CONFIGURATION ---
 const STORAGE_KEY = 'WE_ACCOUNTING_DB_V1';
@@ -34,7 +36,24 @@ const COLLECTIONS = {
     ASSETS: 'assets',
     VENDOR_RULES: 'vendor_rules',
     BANK_TRANSACTIONS: 'bank_transactions',
-    ACTIVITY_LOGS: 'activity_logs'
+    ACTIVITY_LOGS: 'activity_logs',
+    CHARTS_OF_ACCOUNTS: 'charts_of_accounts',
+    VOUCHER_CONFIGS: 'voucher_configs',
+    VOUCHER_SEQUENCES: 'voucher_sequences',
+    EXCHANGE_RATES: 'exchange_rates',
+    COST_CENTERS: 'cost_centers',
+    BUDGETS: 'budgets',
+    FISCAL_YEARS: 'fiscal_years',
+    PERIOD_LOCKS: 'period_locks',
+    AMORTIZATION_SCHEDULES: 'amortization_schedules',
+    INVENTORY_ITEMS: 'inventory_items',
+    STOCK_MOVEMENTS: 'stock_movements',
+    CONSOLIDATION_GROUPS: 'consolidation_groups',
+    RECURRING_JOURNALS: 'recurring_journal_templates',
+    FINANCIAL_NOTE_TEMPLATES: 'financial_note_templates',
+    DBD_MAPPINGS: 'dbd_mappings',
+    EMPLOYEES: 'employees',
+    PAYSLIPS: 'payslips'
 } as const;
 
 // --- LOCAL STORAGE HELPERS (Demo Mode Only) ---
@@ -47,6 +66,23 @@ interface LocalStorageData {
     vendorRules: VendorRule[];
     bankTransactions: BankTransaction[];
     activityLogs: ActivityLog[];
+    chartsOfAccounts?: ClientChartOfAccounts[];
+    voucherConfigs?: ClientVoucherConfig[];
+    voucherSequences?: VoucherSequence[];
+    exchangeRates?: ExchangeRate[];
+    costCenterSetups?: ClientCostCenterSetup[];
+    budgets?: Budget[];
+    fiscalYears?: FiscalYearClose[];
+    periodLocks?: PeriodLock[];
+    amortizationSchedules?: AmortizationSchedule[];
+    inventoryItems?: InventoryItem[];
+    stockMovements?: StockMovement[];
+    consolidationGroups?: ConsolidationGroup[];
+    recurringJournals?: RecurringJournalTemplate[];
+    financialNoteTemplates?: FinancialNoteTemplates[];
+    dbdMappings?: ClientDBDMapping[];
+    employees?: Employee[];
+    payslips?: PaySlip[];
 }
 
 const getLocalStorage = (): LocalStorageData => {
@@ -98,6 +134,23 @@ async function fetchCollection<T>(
             [COLLECTIONS.VENDOR_RULES]: data.vendorRules,
             [COLLECTIONS.BANK_TRANSACTIONS]: data.bankTransactions,
             [COLLECTIONS.ACTIVITY_LOGS]: data.activityLogs,
+            [COLLECTIONS.CHARTS_OF_ACCOUNTS]: data.chartsOfAccounts || [],
+            [COLLECTIONS.VOUCHER_CONFIGS]: data.voucherConfigs || [],
+            [COLLECTIONS.VOUCHER_SEQUENCES]: data.voucherSequences || [],
+            [COLLECTIONS.EXCHANGE_RATES]: data.exchangeRates || [],
+            [COLLECTIONS.COST_CENTERS]: data.costCenterSetups || [],
+            [COLLECTIONS.BUDGETS]: data.budgets || [],
+            [COLLECTIONS.FISCAL_YEARS]: data.fiscalYears || [],
+            [COLLECTIONS.PERIOD_LOCKS]: data.periodLocks || [],
+            [COLLECTIONS.AMORTIZATION_SCHEDULES]: data.amortizationSchedules || [],
+            [COLLECTIONS.INVENTORY_ITEMS]: data.inventoryItems || [],
+            [COLLECTIONS.STOCK_MOVEMENTS]: data.stockMovements || [],
+            [COLLECTIONS.CONSOLIDATION_GROUPS]: data.consolidationGroups || [],
+            [COLLECTIONS.RECURRING_JOURNALS]: data.recurringJournals || [],
+            [COLLECTIONS.FINANCIAL_NOTE_TEMPLATES]: data.financialNoteTemplates || [],
+            [COLLECTIONS.DBD_MAPPINGS]: data.dbdMappings || [],
+            [COLLECTIONS.EMPLOYEES]: data.employees || [],
+            [COLLECTIONS.PAYSLIPS]: data.payslips || [],
         };
 
         let result = collectionMap[collectionName] || [];
@@ -365,6 +418,14 @@ export const addGLEntries = async (entries: Omit<PostedGLEntry, 'id'>[]): Promis
     }
 };
 
+export const getGLEntriesByDocNo = async (clientId: string, docNo: string): Promise<PostedGLEntry[]> => {
+    const entries = await fetchCollection<PostedGLEntry>(
+        COLLECTIONS.GL_ENTRIES,
+        [where('clientId', '==', clientId), where('doc_no', '==', docNo)]
+    );
+    return entries.filter(e => e.clientId === clientId && e.doc_no === docNo);
+};
+
 /**
  * Add GL entries with validation (RECOMMENDED)
  * Validates balance, account codes, period lock before posting
@@ -636,6 +697,624 @@ export const addLog = async (log: Omit<ActivityLog, 'id'>): Promise<string> => {
     }
 };
 
+// --- CHART OF ACCOUNTS (one document per client, keyed by clientId) ---
+export const getChartOfAccounts = async (clientId: string): Promise<ClientChartOfAccounts | null> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return (data.chartsOfAccounts || []).find(c => c.clientId === clientId) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.CHARTS_OF_ACCOUNTS, clientId));
+        if (docSnap.exists()) {
+            return { id: docSnap.id, ...docSnap.data() } as ClientChartOfAccounts;
+        }
+        return null;
+    } catch (error) {
+        console.error('Error fetching chart of accounts:', error);
+        throw new Error('Failed to fetch chart of accounts');
+    }
+};
+
+export const saveChartOfAccounts = async (chart: ClientChartOfAccounts): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const charts = (data.chartsOfAccounts || []).filter(c => c.clientId !== chart.clientId);
+        charts.push(chart);
+        data.chartsOfAccounts = charts;
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.CHARTS_OF_ACCOUNTS, chart.clientId), chart);
+    } catch (error) {
+        console.error('Error saving chart of accounts:', error);
+        throw new Error('Failed to save chart of accounts');
+    }
+};
+
+// --- VOUCHER NUMBERING ---
+export const getVoucherConfig = async (clientId: string): Promise<ClientVoucherConfig | null> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return (data.voucherConfigs || []).find(c => c.clientId === clientId) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.VOUCHER_CONFIGS, clientId));
+        if (docSnap.exists()) {
+            return { id: docSnap.id, ...docSnap.data() } as ClientVoucherConfig;
+        }
+        return null;
+    } catch (error) {
+        console.error('Error fetching voucher config:', error);
+        throw new Error('Failed to fetch voucher config');
+    }
+};
+
+export const saveVoucherConfig = async (config: ClientVoucherConfig): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const configs = (data.voucherConfigs || []).filter(c => c.clientId !== config.clientId);
+        configs.push(config);
+        data.voucherConfigs = configs;
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.VOUCHER_CONFIGS, config.clientId), config);
+    } catch (error) {
+        console.error('Error saving voucher config:', error);
+        throw new Error('Failed to save voucher config');
+    }
+};
+
+export const getVoucherSequencesByClient = async (clientId: string): Promise<VoucherSequence[]> => {
+    const sequences = await fetchCollection<VoucherSequence>(
+        COLLECTIONS.VOUCHER_SEQUENCES,
+        [where('clientId', '==', clientId)]
+    );
+    return sequences.filter(s => s.clientId === clientId);
+};
+
+/**
+ * Issue the next number of a voucher sequence and post the entries under it
+ * The counter increment and the GL writes commit in one transaction, so a
+ * number is only consumed when its entries are posted (no gaps) and
+ * concurrent posts retry against the new counter (no duplicates)
+ *
+ * When `reverses` is given the voucher is a reversal: the originals are
+ * re-read inside the transaction and linked to the new number in the same
+ * commit. If any original already carries reversed_by nothing is written
+ * and the existing reversal's doc_no is returned as `alreadyReversedBy`.
+ */
+export const postGLEntriesWithVoucherNo = async (
+    sequence: Omit<VoucherSequence, 'lastNumber' | 'updatedAt'>,
+    formatDocNo: (runningNumber: number) => string,
+    entries: Omit<PostedGLEntry, 'id' | 'doc_no'>[],
+    reverses?: string[]
+): Promise<{ docNo: string; ids: string[]; alreadyReversedBy?: string }> => {
+    const updatedAt = new Date().toISOString();
+
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const reversedBy = reverses && data.glEntries.find(e => reverses.includes(e.id) && e.reversed_by)?.reversed_by;
+        if (reversedBy) {
+            return { docNo: '', ids: [], alreadyReversedBy: reversedBy };
+        }
+
+        const sequences = data.voucherSequences || [];
+        const current = sequences.find(s => s.id === sequence.id);
+        const next = (current?.lastNumber || 0) + 1;
+        const docNo = formatDocNo(next);
+
+        data.voucherSequences = [
+            ...sequences.filter(s => s.id !== sequence.id),
+            { ...sequence, lastNumber: next, updatedAt },
+        ];
+        const ids = entries.map(entry => {
+            const newEntry = { ...entry, doc_no: docNo, id: `GL${Date.now()}-${Math.random().toString(36).substr(2, 9)}` } as PostedGLEntry;
+            data.glEntries.push(newEntry);
+            return newEntry.id;
+        });
+        if (reverses) {
+            data.glEntries = data.glEntries.map(e =>
+                reverses.includes(e.id) ? { ...e, reversed_by: docNo, reversed_at: updatedAt } : e
+            );
+        }
+
+        saveLocalStorage(data);
+        return { docNo, ids };
+    }
+
+    try {
+        return await runTransaction(db, async (transaction) => {
+            const sequenceRef = doc(db!, COLLECTIONS.VOUCHER_SEQUENCES, sequence.id);
+            const originalRefs = (reverses || []).map(id => doc(db!, COLLECTIONS.GL_ENTRIES, id));
+
+            // Firestore transactions require every read before the first write
+            const snap = await transaction.get(sequenceRef);
+            const originals = await Promise.all(originalRefs.map(ref => transaction.get(ref)));
+
+            const reversedBy = originals.map(o => (o.data() as PostedGLEntry | undefined)?.reversed_by).find(Boolean);
+            if (reversedBy) {
+                return { docNo: '', ids: [], alreadyReversedBy: reversedBy };
+            }
+
+            const next = (snap.exists() ? (snap.data() as VoucherSequence).lastNumber : 0) + 1;
+            const docNo = formatDocNo(next);
+
+            transaction.set(sequenceRef, { ...sequence, lastNumber: next, updatedAt });
+            const ids = entries.map(entry => {
+                const entryRef = doc(collection(db!, COLLECTIONS.GL_ENTRIES));
+                transaction.set(entryRef, { ...entry, doc_no: docNo });
+                return entryRef.id;
+            });
+            originalRefs.forEach(ref => {
+                transaction.update(ref, { reversed_by: docNo, reversed_at: updatedAt });
+            });
+
+            return { docNo, ids };
+        });
+    } catch (error) {
+        console.error('Error posting numbered voucher:', error);
+        throw new Error('Failed to post numbered voucher');
+    }
+};
+
+// --- EXCHANGE RATES ---
+export const getExchangeRates = async (currency: string): Promise<ExchangeRate[]> => {
+    const rates = await fetchCollection<ExchangeRate>(
+        COLLECTIONS.EXCHANGE_RATES,
+        [where('currency', '==', currency), orderBy('date', 'desc')]
+    );
+    return rates
+        .filter(r => r.currency === currency)
+        .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Upsert daily rates (document ID = `${currency}_${date}`)
+ */
+export const saveExchangeRates = async (rates: ExchangeRate[]): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const ids = new Set(rates.map(r => r.id));
+        data.exchangeRates = [...(data.exchangeRates || []).filter(r => !ids.has(r.id)), ...rates];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        // Firestore batches are limited to 500 writes
+        for (let i = 0; i < rates.length; i += 500) {
+            const batch = writeBatch(db!);
+            rates.slice(i, i + 500).forEach(rate => {
+                batch.set(doc(db!, COLLECTIONS.EXCHANGE_RATES, rate.id), rate);
+            });
+            await batch.commit();
+        }
+    } catch (error) {
+        console.error('Error saving exchange rates:', error);
+        throw new Error('Failed to save exchange rates');
+    }
+};
+
+// --- COST CENTERS ---
+export const getCostCenterSetup = async (clientId: string): Promise<ClientCostCenterSetup | null> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return (data.costCenterSetups || []).find(c => c.clientId === clientId) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.COST_CENTERS, clientId));
+        if (docSnap.exists()) {
+            return { id: docSnap.id, ...docSnap.data() } as ClientCostCenterSetup;
+        }
+        return null;
+    } catch (error) {
+        console.error('Error fetching cost centers:', error);
+        throw new Error('Failed to fetch cost centers');
+    }
+};
+
+export const saveCostCenterSetup = async (setup: ClientCostCenterSetup): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const setups = (data.costCenterSetups || []).filter(c => c.clientId !== setup.clientId);
+        setups.push(setup);
+        data.costCenterSetups = setups;
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.COST_CENTERS, setup.clientId), setup);
+    } catch (error) {
+        console.error('Error saving cost centers:', error);
+        throw new Error('Failed to save cost centers');
+    }
+};
+
+// --- BUDGETS ---
+export const getBudgets = async (): Promise<Budget[]> => {
+    return fetchCollection<Budget>(COLLECTIONS.BUDGETS);
+};
+
+export const getBudgetsByClient = async (clientId: string): Promise<Budget[]> => {
+    const budgets = await fetchCollection<Budget>(
+        COLLECTIONS.BUDGETS,
+        [where('clientId', '==', clientId)]
+    );
+    return budgets
+        .filter(b => b.clientId === clientId)
+        .sort((a, b) => a.fiscalYear - b.fiscalYear || a.version - b.version);
+};
+
+/**
+ * Budget versions are never overwritten; a revision is saved as a new document
+ */
+export const saveBudget = async (budget: Budget): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.budgets = [...(data.budgets || []).filter(b => b.id !== budget.id), budget];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.BUDGETS, budget.id), budget);
+    } catch (error) {
+        console.error('Error saving budget:', error);
+        throw new Error('Failed to save budget');
+    }
+};
+
+// --- FISCAL YEARS ---
+export const getFiscalYearCloses = async (clientId: string): Promise<FiscalYearClose[]> => {
+    const closes = await fetchCollection<FiscalYearClose>(
+        COLLECTIONS.FISCAL_YEARS,
+        [where('clientId', '==', clientId)]
+    );
+    return closes
+        .filter(c => c.clientId === clientId)
+        .sort((a, b) => a.fiscalYear - b.fiscalYear);
+};
+
+export const saveFiscalYearClose = async (record: FiscalYearClose): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.fiscalYears = [...(data.fiscalYears || []).filter(c => c.id !== record.id), record];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.FISCAL_YEARS, record.id), record);
+    } catch (error) {
+        console.error('Error saving fiscal year close:', error);
+        throw new Error('Failed to save fiscal year close');
+    }
+};
+
+// --- PERIOD LOCKS ---
+export const getPeriodLocks = async (clientId: string): Promise<PeriodLock[]> => {
+    const locks = await fetchCollection<PeriodLock>(
+        COLLECTIONS.PERIOD_LOCKS,
+        [where('clientId', '==', clientId)]
+    );
+    return locks
+        .filter(l => l.clientId === clientId)
+        .sort((a, b) => a.period.localeCompare(b.period));
+};
+
+export const getPeriodLock = async (clientId: string, period: string): Promise<PeriodLock | null> => {
+    const id = `${clientId}_${period}`;
+    if (IS_DEMO_MODE || !db) {
+        return (getLocalStorage().periodLocks || []).find(l => l.id === id) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.PERIOD_LOCKS, id));
+        return docSnap.exists() ? ({ id: docSnap.id, ...docSnap.data() } as PeriodLock) : null;
+    } catch (error) {
+        console.error('Error fetching period lock:', error);
+        throw new Error('Failed to fetch period lock');
+    }
+};
+
+export const savePeriodLock = async (lock: PeriodLock): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.periodLocks = [...(data.periodLocks || []).filter(l => l.id !== lock.id), lock];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.PERIOD_LOCKS, lock.id), lock);
+    } catch (error) {
+        console.error('Error saving period lock:', error);
+        throw new Error('Failed to save period lock');
+    }
+};
+
+// --- AMORTIZATION SCHEDULES ---
+export const getAmortizationSchedules = async (clientId: string): Promise<AmortizationSchedule[]> => {
+    const schedules = await fetchCollection<AmortizationSchedule>(
+        COLLECTIONS.AMORTIZATION_SCHEDULES,
+        [where('clientId', '==', clientId)]
+    );
+    return schedules
+        .filter(s => s.clientId === clientId)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+export const saveAmortizationSchedule = async (schedule: AmortizationSchedule): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.amortizationSchedules = [...(data.amortizationSchedules || []).filter(s => s.id !== schedule.id), schedule];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.AMORTIZATION_SCHEDULES, schedule.id), schedule);
+    } catch (error) {
+        console.error('Error saving amortization schedule:', error);
+        throw new Error('Failed to save amortization schedule');
+    }
+};
+
+// --- INVENTORY ---
+export const getInventoryItems = async (clientId: string): Promise<InventoryItem[]> => {
+    const items = await fetchCollection<InventoryItem>(
+        COLLECTIONS.INVENTORY_ITEMS,
+        [where('clientId', '==', clientId)]
+    );
+    return items
+        .filter(i => i.clientId === clientId)
+        .sort((a, b) => a.sku.localeCompare(b.sku));
+};
+
+export const saveInventoryItem = async (item: InventoryItem): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.inventoryItems = [...(data.inventoryItems || []).filter(i => i.id !== item.id), item];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.INVENTORY_ITEMS, item.id), item);
+    } catch (error) {
+        console.error('Error saving inventory item:', error);
+        throw new Error('Failed to save inventory item');
+    }
+};
+
+export const getStockMovements = async (clientId: string): Promise<StockMovement[]> => {
+    const movements = await fetchCollection<StockMovement>(
+        COLLECTIONS.STOCK_MOVEMENTS,
+        [where('clientId', '==', clientId)]
+    );
+    return movements
+        .filter(m => m.clientId === clientId)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+};
+
+// Movements are append-only; corrections are new count adjustments
+export const addStockMovements = async (movements: StockMovement[]): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.stockMovements = [...(data.stockMovements || []), ...movements];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        const batch = writeBatch(db!);
+        movements.forEach(m => batch.set(doc(db!, COLLECTIONS.STOCK_MOVEMENTS, m.id), m));
+        await batch.commit();
+    } catch (error) {
+        console.error('Error adding stock movements:', error);
+        throw new Error('Failed to add stock movements');
+    }
+};
+
+// --- CONSOLIDATION GROUPS ---
+export const getConsolidationGroups = async (parentClientId: string): Promise<ConsolidationGroup[]> => {
+    const groups = await fetchCollection<ConsolidationGroup>(
+        COLLECTIONS.CONSOLIDATION_GROUPS,
+        [where('parentClientId', '==', parentClientId)]
+    );
+    return groups.filter(g => g.parentClientId === parentClientId);
+};
+
+// Groups the client belongs to, as parent or subsidiary
+export const getConsolidationGroupsByMember = async (clientId: string): Promise<ConsolidationGroup[]> => {
+    const groups = await fetchCollection<ConsolidationGroup>(
+        COLLECTIONS.CONSOLIDATION_GROUPS,
+        [where('memberClientIds', 'array-contains', clientId)]
+    );
+    return groups.filter(g => g.memberClientIds.includes(clientId));
+};
+
+export const saveConsolidationGroup = async (group: ConsolidationGroup): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.consolidationGroups = [...(data.consolidationGroups || []).filter(g => g.id !== group.id), group];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.CONSOLIDATION_GROUPS, group.id), group);
+    } catch (error) {
+        console.error('Error saving consolidation group:', error);
+        throw new Error('Failed to save consolidation group');
+    }
+};
+
+// --- RECURRING JOURNALS ---
+export const getRecurringJournalTemplates = async (clientId: string): Promise<RecurringJournalTemplate[]> => {
+    const templates = await fetchCollection<RecurringJournalTemplate>(
+        COLLECTIONS.RECURRING_JOURNALS,
+        [where('clientId', '==', clientId)]
+    );
+    return templates
+        .filter(t => t.clientId === clientId)
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveRecurringJournalTemplate = async (template: RecurringJournalTemplate): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.recurringJournals = [...(data.recurringJournals || []).filter(t => t.id !== template.id), template];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.RECURRING_JOURNALS, template.id), template);
+    } catch (error) {
+        console.error('Error saving recurring journal template:', error);
+        throw new Error('Failed to save recurring journal template');
+    }
+};
+
+// --- FINANCIAL NOTE TEMPLATES ---
+export const getFinancialNoteTemplates = async (clientId: string): Promise<FinancialNoteTemplates | null> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return (data.financialNoteTemplates || []).find(t => t.clientId === clientId) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.FINANCIAL_NOTE_TEMPLATES, clientId));
+        if (docSnap.exists()) {
+            return docSnap.data() as FinancialNoteTemplates;
+        }
+        return null;
+    } catch (error) {
+        console.error('Error fetching financial note templates:', error);
+        throw new Error('Failed to fetch financial note templates');
+    }
+};
+
+export const saveFinancialNoteTemplates = async (templates: FinancialNoteTemplates): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.financialNoteTemplates = [...(data.financialNoteTemplates || []).filter(t => t.clientId !== templates.clientId), templates];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.FINANCIAL_NOTE_TEMPLATES, templates.clientId), templates);
+    } catch (error) {
+        console.error('Error saving financial note templates:', error);
+        throw new Error('Failed to save financial note templates');
+    }
+};
+
+// --- DBD TAXONOMY MAPPINGS ---
+export const getDBDMapping = async (clientId: string): Promise<ClientDBDMapping | null> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return (data.dbdMappings || []).find(m => m.clientId === clientId) || null;
+    }
+
+    try {
+        const docSnap = await getDoc(doc(db, COLLECTIONS.DBD_MAPPINGS, clientId));
+        if (docSnap.exists()) {
+            return docSnap.data() as ClientDBDMapping;
+        }
+        return null;
+    } catch (error) {
+        console.error('Error fetching DBD mapping:', error);
+        throw new Error('Failed to fetch DBD mapping');
+    }
+};
+
+export const saveDBDMapping = async (mapping: ClientDBDMapping): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        data.dbdMappings = [...(data.dbdMappings || []).filter(m => m.clientId !== mapping.clientId), mapping];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        await setDoc(doc(db, COLLECTIONS.DBD_MAPPINGS, mapping.clientId), mapping);
+    } catch (error) {
+        console.error('Error saving DBD mapping:', error);
+        throw new Error('Failed to save DBD mapping');
+    }
+};
+
+// --- PAYROLL ---
+export const getEmployeesByClient = async (clientId: string): Promise<Employee[]> => {
+    const employees = await fetchCollection<Employee>(
+        COLLECTIONS.EMPLOYEES,
+        [where('clientId', '==', clientId)]
+    );
+    return employees
+        .filter(e => e.clientId === clientId)
+        .sort((a, b) => a.employeeCode.localeCompare(b.employeeCode));
+};
+
+export const saveEmployees = async (employees: Employee[]): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const ids = new Set(employees.map(e => e.id));
+        data.employees = [...(data.employees || []).filter(e => !ids.has(e.id)), ...employees];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        const batch = writeBatch(db!);
+        employees.forEach(e => batch.set(doc(db!, COLLECTIONS.EMPLOYEES, e.id), e));
+        await batch.commit();
+    } catch (error) {
+        console.error('Error saving employees:', error);
+        throw new Error('Failed to save employees');
+    }
+};
+
+export const getPaySlipsByClient = async (clientId: string): Promise<PaySlip[]> => {
+    const payslips = await fetchCollection<PaySlip>(
+        COLLECTIONS.PAYSLIPS,
+        [where('clientId', '==', clientId)]
+    );
+    return payslips
+        .filter(p => p.clientId === clientId)
+        .sort((a, b) => a.period.localeCompare(b.period) || a.employeeId.localeCompare(b.employeeId));
+};
+
+export const savePaySlips = async (payslips: PaySlip[]): Promise<void> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        const ids = new Set(payslips.map(p => p.id));
+        data.payslips = [...(data.payslips || []).filter(p => !ids.has(p.id)), ...payslips];
+        saveLocalStorage(data);
+        return;
+    }
+
+    try {
+        const batch = writeBatch(db!);
+        payslips.forEach(p => batch.set(doc(db!, COLLECTIONS.PAYSLIPS, p.id), p));
+        await batch.commit();
+    } catch (error) {
+        console.error('Error saving payslips:', error);
+        throw new Error('Failed to save payslips');
+    }
+};
+
 // --- INITIALIZATION (No more seed data) ---
 export const seed = async (): Promise<void> => {
     // In production, no seeding - data comes from Firestore
@@ -651,7 +1330,24 @@ export const seed = async (): Promise<void> => {
                 assets: [],
                 vendorRules: [],
                 bankTransactions: [],
-                activityLogs: []
+                activityLogs: [],
+                chartsOfAccounts: [],
+                voucherConfigs: [],
+                voucherSequences: [],
+                exchangeRates: [],
+                costCenterSetups: [],
+                budgets: [],
+                fiscalYears: [],
+                periodLocks: [],
+                amortizationSchedules: [],
+                inventoryItems: [],
+                stockMovements: [],
+                consolidationGroups: [],
+                recurringJournals: [],
+                financialNoteTemplates: [],
+                dbdMappings: [],
+                employees: [],
+                payslips: []
             });
         }
     }
@@ -713,6 +1409,7 @@ export const databaseService = {
     addGLEntry,
     addGLEntries,
     addGLEntriesValidated, // NEW: With validation
+    getGLEntriesByDocNo,
 
     // Fixed Assets
     getAssets,
@@ -736,6 +1433,71 @@ export const databaseService = {
     getLogs,
     addLog,
 
+    // Chart of Accounts
+    getChartOfAccounts,
+    saveChartOfAccounts,
+
+    // Voucher Numbering
+    getVoucherConfig,
+    saveVoucherConfig,
+    getVoucherSequencesByClient,
+    postGLEntriesWithVoucherNo,
+
+    // Exchange Rates
+    getExchangeRates,
+    saveExchangeRates,
+
+    // Cost Centers
+    getCostCenterSetup,
+    saveCostCenterSetup,
+
+    // Budgets
+    getBudgets,
+    getBudgetsByClient,
+    saveBudget,
+
+    // Fiscal Years
+    getFiscalYearCloses,
+    saveFiscalYearClose,
+
+    // Period Locks
+    getPeriodLocks,
+    getPeriodLock,
+    savePeriodLock,
+
+    // Amortization Schedules
+    getAmortizationSchedules,
+    saveAmortizationSchedule,
+
+    // Inventory
+    getInventoryItems,
+    saveInventoryItem,
+    getStockMovements,
+    addStockMovements,
+
+    // Consolidation Groups
+    getConsolidationGroups,
+    getConsolidationGroupsByMember,
+    saveConsolidationGroup,
+
+    // Recurring Journals
+    getRecurringJournalTemplates,
+    saveRecurringJournalTemplate,
+
+    // Financial Note Templates
+    getFinancialNoteTemplates,
+    saveFinancialNoteTemplates,
+
+    // DBD Taxonomy Mappings
+    getDBDMapping,
+    saveDBDMapping,
+
+    // Payroll
+    getEmployeesByClient,
+    saveEmployees,
+    getPaySlipsByClient,
+    savePaySlips,
+
     // Initialization
     seed,
 
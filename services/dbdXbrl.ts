@@ -0,0 +1,452 @@
+/**
+ * dbdXbrl.ts
+ *
+ * DBD e-Filing Export
+ * ส่งงบการเงินต่อกรมพัฒนาธุรกิจการค้าในรูปแบบ XBRL
+ *
+ * Each account is mapped to an element of the DBD taxonomy by the longest
+ * matching code prefix: the client's own rules first, then the standard
+ * mapping for the Thai chart. Balance sheet facts are cumulative to the
+ * period end, with profit not yet closed added to retained earnings; income
+ * statement facts cover the period before closing entries. The prior year is
+ * reported alongside, as the DBD forms are comparative. Nothing is exported
+ * until every account with a balance is mapped and the balance sheet balances.
+ */
+
+import { Client, ClientDBDMapping, DBDMappingRule, PostedGLEntry } from '../types';
+import { resolveAccount, resolveAccountCode } from './chartOfAccounts';
+import { isClosingEntry, isOpeningEntry } from './periodClosing';
+import { databaseService } from './database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DBDSection =
+  | 'current_assets'
+  | 'non_current_assets'
+  | 'current_liabilities'
+  | 'non_current_liabilities'
+  | 'equity'
+  | 'revenue'
+  | 'expense'
+  | 'income_tax';
+
+export interface DBDElement {
+  id: string;
+  labelTh: string;
+  labelEn: string;
+  section: DBDSection;
+}
+
+export interface DBDFact {
+  element: string;
+  labelTh: string;
+  amount: number; // In the element's normal direction
+  priorAmount: number;
+  accounts: string[]; // Account codes feeding the fact
+  isTotal?: boolean;
+}
+
+export interface UnmappedAccount {
+  code: string;
+  name: string;
+  amount: number;
+}
+
+export interface DBDStatementExport {
+  clientId: string;
+  clientName: string;
+  taxId: string;
+  periodStart: string;
+  periodEnd: string;
+  priorStart: string;
+  priorEnd: string;
+  balanceSheet: DBDFact[];
+  incomeStatement: DBDFact[];
+  unmappedAccounts: UnmappedAccount[];
+  errors: string[];
+  isValid: boolean;
+  generatedAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Instance document settings; follow the taxonomy release being filed
+export const DBD_TAXONOMY = {
+  prefix: 'dbd',
+  namespace: 'http://xbrl.dbd.go.th/taxonomy/npae',
+  schemaRef: 'http://xbrl.dbd.go.th/taxonomy/npae/dbd-npae.xsd',
+  identifierScheme: 'http://www.dbd.go.th',
+};
+
+export const DBD_ELEMENTS: DBDElement[] = [
+  { id: 'CashAndCashEquivalents', labelTh: 'เงินสดและรายการเทียบเท่าเงินสด', labelEn: 'Cash and cash equivalents', section: 'current_assets' },
+  { id: 'TradeAndOtherReceivables', labelTh: 'ลูกหนี้การค้าและลูกหนี้อื่น', labelEn: 'Trade and other receivables', section: 'current_assets' },
+  { id: 'ShortTermLoans', labelTh: 'เงินให้กู้ยืมระยะสั้น', labelEn: 'Short-term loans', section: 'current_assets' },
+  { id: 'Inventories', labelTh: 'สินค้าคงเหลือ', labelEn: 'Inventories', section: 'current_assets' },
+  { id: 'OtherCurrentAssets', labelTh: 'สินทรัพย์หมุนเวียนอื่น', labelEn: 'Other current assets', section: 'current_assets' },
+  { id: 'LongTermInvestments', labelTh: 'เงินลงทุนระยะยาว', labelEn: 'Long-term investments', section: 'non_current_assets' },
+  { id: 'PropertyPlantAndEquipment', labelTh: 'ที่ดิน อาคาร และอุปกรณ์ - สุทธิ', labelEn: 'Property, plant and equipment', section: 'non_current_assets' },
+  { id: 'IntangibleAssets', labelTh: 'สินทรัพย์ไม่มีตัวตน', labelEn: 'Intangible assets', section: 'non_current_assets' },
+  { id: 'OtherNonCurrentAssets', labelTh: 'สินทรัพย์ไม่หมุนเวียนอื่น', labelEn: 'Other non-current assets', section: 'non_current_assets' },
+  { id: 'BankOverdraftsAndShortTermBorrowings', labelTh: 'เงินเบิกเกินบัญชีและเงินกู้ยืมระยะสั้น', labelEn: 'Bank overdrafts and short-term borrowings', section: 'current_liabilities' },
+  { id: 'TradeAndOtherPayables', labelTh: 'เจ้าหนี้การค้าและเจ้าหนี้อื่น', labelEn: 'Trade and other payables', section: 'current_liabilities' },
+  { id: 'IncomeTaxPayable', labelTh: 'ภาษีเงินได้ค้างจ่าย', labelEn: 'Income tax payable', section: 'current_liabilities' },
+  { id: 'OtherCurrentLiabilities', labelTh: 'หนี้สินหมุนเวียนอื่น', labelEn: 'Other current liabilities', section: 'current_liabilities' },
+  { id: 'LongTermBorrowings', labelTh: 'เงินกู้ยืมระยะยาว', labelEn: 'Long-term borrowings', section: 'non_current_liabilities' },
+  { id: 'NonCurrentProvisions', labelTh: 'ประมาณการหนี้สินไม่หมุนเวียน', labelEn: 'Non-current provisions', section: 'non_current_liabilities' },
+  { id: 'OtherNonCurrentLiabilities', labelTh: 'หนี้สินไม่หมุนเวียนอื่น', labelEn: 'Other non-current liabilities', section: 'non_current_liabilities' },
+  { id: 'IssuedAndPaidUpShareCapital', labelTh: 'ทุนที่ออกและชำระแล้ว', labelEn: 'Issued and paid-up share capital', section: 'equity' },
+  { id: 'LegalReserve', labelTh: 'สำรองตามกฎหมาย', labelEn: 'Legal reserve', section: 'equity' },
+  { id: 'RetainedEarnings', labelTh: 'กำไร (ขาดทุน) สะสม', labelEn: 'Retained earnings (deficit)', section: 'equity' },
+  { id: 'RevenueFromSales', labelTh: 'รายได้จากการขาย', labelEn: 'Revenue from sales', section: 'revenue' },
+  { id: 'RevenueFromServices', labelTh: 'รายได้จากการให้บริการ', labelEn: 'Revenue from services', section: 'revenue' },
+  { id: 'OtherIncome', labelTh: 'รายได้อื่น', labelEn: 'Other income', section: 'revenue' },
+  { id: 'CostOfSalesAndServices', labelTh: 'ต้นทุนขายและต้นทุนการให้บริการ', labelEn: 'Cost of sales and services', section: 'expense' },
+  { id: 'SellingExpenses', labelTh: 'ค่าใช้จ่ายในการขาย', labelEn: 'Selling expenses', section: 'expense' },
+  { id: 'AdministrativeExpenses', labelTh: 'ค่าใช้จ่ายในการบริหาร', labelEn: 'Administrative expenses', section: 'expense' },
+  { id: 'FinanceCosts', labelTh: 'ต้นทุนทางการเงิน', labelEn: 'Finance costs', section: 'expense' },
+  { id: 'IncomeTaxExpense', labelTh: 'ภาษีเงินได้', labelEn: 'Income tax expense', section: 'income_tax' },
+];
+
+// Standard mapping for the Thai chart of accounts
+export const DEFAULT_DBD_MAPPING: DBDMappingRule[] = [
+  { prefix: '111', element: 'CashAndCashEquivalents' },
+  { prefix: '112', element: 'CashAndCashEquivalents' },
+  { prefix: '113', element: 'TradeAndOtherReceivables' },
+  { prefix: '115', element: 'TradeAndOtherReceivables' },
+  { prefix: '117', element: 'TradeAndOtherReceivables' },
+  { prefix: '114', element: 'Inventories' },
+  { prefix: '116', element: 'OtherCurrentAssets' },
+  { prefix: '118', element: 'OtherCurrentAssets' },
+  { prefix: '119', element: 'OtherCurrentAssets' },
+  { prefix: '12', element: 'PropertyPlantAndEquipment' },
+  { prefix: '13', element: 'LongTermInvestments' },
+  { prefix: '14', element: 'OtherNonCurrentAssets' },
+  { prefix: '211', element: 'BankOverdraftsAndShortTermBorrowings' },
+  { prefix: '212', element: 'TradeAndOtherPayables' },
+  { prefix: '213', element: 'TradeAndOtherPayables' },
+  { prefix: '214', element: 'OtherCurrentLiabilities' },
+  { prefix: '215', element: 'OtherCurrentLiabilities' },
+  { prefix: '216', element: 'IncomeTaxPayable' },
+  { prefix: '217', element: 'OtherCurrentLiabilities' },
+  { prefix: '218', element: 'OtherCurrentLiabilities' },
+  { prefix: '219', element: 'OtherCurrentLiabilities' },
+  { prefix: '22', element: 'NonCurrentProvisions' },
+  { prefix: '23', element: 'LongTermBorrowings' },
+  { prefix: '31', element: 'IssuedAndPaidUpShareCapital' },
+  { prefix: '32', element: 'RetainedEarnings' },
+  { prefix: '33', element: 'LegalReserve' },
+  { prefix: '39', element: 'RetainedEarnings' },
+  { prefix: '411', element: 'RevenueFromSales' },
+  { prefix: '412', element: 'RevenueFromServices' },
+  { prefix: '413', element: 'OtherIncome' },
+  { prefix: '42', element: 'OtherIncome' },
+  { prefix: '51', element: 'CostOfSalesAndServices' },
+  { prefix: '52', element: 'AdministrativeExpenses' },
+  { prefix: '53', element: 'AdministrativeExpenses' },
+  { prefix: '533', element: 'SellingExpenses' },
+  { prefix: '54', element: 'AdministrativeExpenses' },
+  { prefix: '542', element: 'FinanceCosts' },
+  { prefix: '58', element: 'IncomeTaxExpense' },
+];
+
+const SECTION_TOTALS: { section: DBDSection; element: string; labelTh: string }[] = [
+  { section: 'current_assets', element: 'TotalCurrentAssets', labelTh: 'รวมสินทรัพย์หมุนเวียน' },
+  { section: 'non_current_assets', element: 'TotalNonCurrentAssets', labelTh: 'รวมสินทรัพย์ไม่หมุนเวียน' },
+  { section: 'current_liabilities', element: 'TotalCurrentLiabilities', labelTh: 'รวมหนี้สินหมุนเวียน' },
+  { section: 'non_current_liabilities', element: 'TotalNonCurrentLiabilities', labelTh: 'รวมหนี้สินไม่หมุนเวียน' },
+  { section: 'equity', element: 'TotalShareholdersEquity', labelTh: 'รวมส่วนของผู้ถือหุ้น' },
+  { section: 'revenue', element: 'TotalRevenues', labelTh: 'รวมรายได้' },
+  { section: 'expense', element: 'TotalExpenses', labelTh: 'รวมค่าใช้จ่าย' },
+];
+
+const BALANCE_SHEET_SECTIONS: DBDSection[] = ['current_assets', 'non_current_assets', 'current_liabilities', 'non_current_liabilities', 'equity'];
+const DEBIT_SECTIONS: DBDSection[] = ['current_assets', 'non_current_assets', 'expense', 'income_tax'];
+const RETAINED_EARNINGS = 'RetainedEarnings';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+export const getDBDElement = (id: string): DBDElement | undefined => DBD_ELEMENTS.find(e => e.id === id);
+
+const longestMatch = (code: string, rules: DBDMappingRule[]): DBDMappingRule | undefined =>
+  rules
+    .filter(r => code.startsWith(r.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+
+/**
+ * Taxonomy element an account reports under, or undefined when unmapped
+ */
+export const resolveDBDElement = (code: string, clientRules: DBDMappingRule[] = []): string | undefined =>
+  (longestMatch(code, clientRules) || longestMatch(code, DEFAULT_DBD_MAPPING))?.element;
+
+const isBalanceSheetAccount = (code: string) => ['1', '2', '3'].includes(code.charAt(0));
+
+// ============================================================================
+// FACTS
+// ============================================================================
+
+const previousDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const d = new Date(year, month - 1, day - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const shiftYear = (date: string, years: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  // 29 Feb falls back to 28 Feb
+  const lastDay = new Date(year + years, month, 0).getDate();
+  return `${year + years}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+/**
+ * Debit-positive amounts per element for one period, plus accounts left unmapped
+ */
+const aggregate = (
+  entries: PostedGLEntry[],
+  clientId: string,
+  rules: DBDMappingRule[],
+  periodStart: string,
+  periodEnd: string
+) => {
+  const byAccount = new Map<string, { cumulative: number; period: number }>();
+  entries
+    .filter(e => e.clientId === clientId && e.date <= periodEnd && !isOpeningEntry(e))
+    .forEach(e => {
+      const code = resolveAccountCode(e.account_code, clientId);
+      const amount = (e.debit || 0) - (e.credit || 0);
+      const current = byAccount.get(code) || { cumulative: 0, period: 0 };
+      current.cumulative += amount;
+      if (e.date >= periodStart && !isClosingEntry(e)) current.period += amount;
+      byAccount.set(code, current);
+    });
+
+  const elements = new Map<string, { amount: number; accounts: string[] }>();
+  const add = (element: string, code: string, amount: number) => {
+    const fact = elements.get(element) || { amount: 0, accounts: [] };
+    fact.amount += amount;
+    if (!fact.accounts.includes(code)) fact.accounts.push(code);
+    elements.set(element, fact);
+  };
+  const unmapped: UnmappedAccount[] = [];
+  const misplaced: string[] = [];
+
+  byAccount.forEach(({ cumulative, period }, code) => {
+    const isBalanceSheet = isBalanceSheetAccount(code);
+    const amount = round2(isBalanceSheet ? cumulative : period);
+    // Profit not yet closed belongs in retained earnings
+    if (!isBalanceSheet && Math.abs(cumulative) >= 0.005) add(RETAINED_EARNINGS, code, cumulative);
+    if (Math.abs(amount) < 0.005) return;
+
+    const element = getDBDElement(resolveDBDElement(code, rules) || '');
+    if (!element) {
+      unmapped.push({ code, name: resolveAccount(code, clientId)?.nameTh || code, amount });
+    } else if (BALANCE_SHEET_SECTIONS.includes(element.section) !== isBalanceSheet) {
+      misplaced.push(`${code} → ${element.id}`);
+    } else {
+      add(element.id, code, amount);
+    }
+  });
+
+  return { elements, unmapped, misplaced };
+};
+
+const buildFacts = (
+  sections: DBDSection[],
+  current: Map<string, { amount: number; accounts: string[] }>,
+  prior: Map<string, { amount: number; accounts: string[] }>
+): DBDFact[] => {
+  const facts: DBDFact[] = [];
+  sections.forEach(section => {
+    const sign = DEBIT_SECTIONS.includes(section) ? 1 : -1;
+    const signed = (amount = 0) => round2(sign * amount) || 0; // No -0 for credit sections
+    const sectionFacts = DBD_ELEMENTS
+      .filter(e => e.section === section)
+      .map(e => ({
+        element: e.id,
+        labelTh: e.labelTh,
+        amount: signed(current.get(e.id)?.amount),
+        priorAmount: signed(prior.get(e.id)?.amount),
+        accounts: Array.from(new Set([...(current.get(e.id)?.accounts || []), ...(prior.get(e.id)?.accounts || [])])).sort(),
+      }))
+      .filter(f => f.amount !== 0 || f.priorAmount !== 0);
+    facts.push(...sectionFacts);
+
+    const total = SECTION_TOTALS.find(t => t.section === section);
+    if (total) {
+      facts.push({
+        element: total.element,
+        labelTh: total.labelTh,
+        amount: round2(sectionFacts.reduce((sum, f) => sum + f.amount, 0)),
+        priorAmount: round2(sectionFacts.reduce((sum, f) => sum + f.priorAmount, 0)),
+        accounts: [],
+        isTotal: true,
+      });
+    }
+  });
+  return facts;
+};
+
+const totalFact = (element: string, labelTh: string, amount: number, priorAmount: number): DBDFact =>
+  ({ element, labelTh, amount: round2(amount), priorAmount: round2(priorAmount), accounts: [], isTotal: true });
+
+/**
+ * Map the client's ledger to DBD taxonomy facts and validate them for export
+ */
+export const buildDBDExport = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  periodStart: string,
+  periodEnd: string,
+  mapping?: ClientDBDMapping | null
+): DBDStatementExport => {
+  const rules = mapping?.rules || [];
+  const priorEnd = previousDay(periodStart);
+  const priorStart = shiftYear(periodStart, -1);
+  const current = aggregate(glEntries, client.id, rules, periodStart, periodEnd);
+  const prior = aggregate(glEntries, client.id, rules, priorStart, priorEnd);
+
+  const value = (facts: DBDFact[], element: string) => facts.find(f => f.element === element) || { amount: 0, priorAmount: 0 };
+  const sum = (facts: DBDFact[], elements: string[], field: 'amount' | 'priorAmount') =>
+    elements.reduce((total, element) => total + value(facts, element)[field], 0);
+
+  // Balance sheet with the totals DBD asks for
+  const balanceSheet = buildFacts(BALANCE_SHEET_SECTIONS, current.elements, prior.elements);
+  const bsTotal = (elements: string[]) => [sum(balanceSheet, elements, 'amount'), sum(balanceSheet, elements, 'priorAmount')] as const;
+  const totalAssets = bsTotal(['TotalCurrentAssets', 'TotalNonCurrentAssets']);
+  const totalLiabilities = bsTotal(['TotalCurrentLiabilities', 'TotalNonCurrentLiabilities']);
+  const totalEquityAndLiabilities = bsTotal(['TotalCurrentLiabilities', 'TotalNonCurrentLiabilities', 'TotalShareholdersEquity']);
+  balanceSheet.splice(balanceSheet.findIndex(f => f.element === 'TotalNonCurrentAssets') + 1, 0,
+    totalFact('TotalAssets', 'รวมสินทรัพย์', ...totalAssets));
+  balanceSheet.splice(balanceSheet.findIndex(f => f.element === 'TotalNonCurrentLiabilities') + 1, 0,
+    totalFact('TotalLiabilities', 'รวมหนี้สิน', ...totalLiabilities));
+  balanceSheet.push(totalFact('TotalLiabilitiesAndShareholdersEquity', 'รวมหนี้สินและส่วนของผู้ถือหุ้น', ...totalEquityAndLiabilities));
+
+  // Income statement
+  const incomeStatement = buildFacts(['revenue', 'expense'], current.elements, prior.elements);
+  const pl = (field: 'amount' | 'priorAmount') => sum(incomeStatement, ['TotalRevenues'], field) - sum(incomeStatement, ['TotalExpenses'], field);
+  incomeStatement.push(totalFact('ProfitLossBeforeIncomeTax', 'กำไร (ขาดทุน) ก่อนภาษีเงินได้', pl('amount'), pl('priorAmount')));
+  const tax = buildFacts(['income_tax'], current.elements, prior.elements);
+  const taxAmount = (field: 'amount' | 'priorAmount') => tax.reduce((total, f) => total + f[field], 0);
+  incomeStatement.push(...tax);
+  incomeStatement.push(totalFact('ProfitLoss', 'กำไร (ขาดทุน) สุทธิ', pl('amount') - taxAmount('amount'), pl('priorAmount') - taxAmount('priorAmount')));
+
+  const unmappedAccounts = [...current.unmapped, ...prior.unmapped.filter(u => !current.unmapped.some(c => c.code === u.code))]
+    .sort((a, b) => a.code.localeCompare(b.code));
+  const misplaced = Array.from(new Set([...current.misplaced, ...prior.misplaced]));
+
+  const errors: string[] = [];
+  if (!/^\d{13}$/.test((client.tax_id || '').replace(/[^0-9]/g, ''))) {
+    errors.push('เลขทะเบียนนิติบุคคลต้องมี 13 หลัก');
+  }
+  if (unmappedAccounts.length > 0) {
+    errors.push(`บัญชียังไม่ได้จับคู่กับรายการของกรมพัฒนาธุรกิจการค้า: ${unmappedAccounts.map(u => u.code).join(', ')}`);
+  }
+  if (misplaced.length > 0) {
+    errors.push(`บัญชีจับคู่ผิดงบ (งบแสดงฐานะการเงิน/งบกำไรขาดทุน): ${misplaced.join(', ')}`);
+  }
+  [['amount', periodEnd], ['priorAmount', priorEnd]].forEach(([field, date]) => {
+    const assets = value(balanceSheet, 'TotalAssets')[field as 'amount' | 'priorAmount'];
+    const claims = value(balanceSheet, 'TotalLiabilitiesAndShareholdersEquity')[field as 'amount' | 'priorAmount'];
+    if (Math.abs(assets - claims) >= 0.01) {
+      errors.push(`งบแสดงฐานะการเงิน ณ ${date} ไม่สมดุล (ผลต่าง ${round2(assets - claims).toFixed(2)})`);
+    }
+  });
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    taxId: (client.tax_id || '').replace(/[^0-9]/g, ''),
+    periodStart,
+    periodEnd,
+    priorStart,
+    priorEnd,
+    balanceSheet,
+    incomeStatement,
+    unmappedAccounts,
+    errors,
+    isValid: errors.length === 0,
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+// ============================================================================
+// XBRL
+// ============================================================================
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * XBRL instance document for DBD e-Filing
+ * Refuses statements that failed validation.
+ */
+export const generateDBDXBRL = (data: DBDStatementExport): string => {
+  if (!data.isValid) {
+    throw new Error(`ไม่สามารถส่งออกงบการเงินได้: ${data.errors.join('; ')}`);
+  }
+
+  const { prefix } = DBD_TAXONOMY;
+  const context = (id: string, period: string) => `
+  <xbrli:context id="${id}">
+    <xbrli:entity>
+      <xbrli:identifier scheme="${DBD_TAXONOMY.identifierScheme}">${data.taxId}</xbrli:identifier>
+    </xbrli:entity>
+    <xbrli:period>${period}</xbrli:period>
+  </xbrli:context>`;
+  const facts = (items: DBDFact[], currentContext: string, priorContext: string) => items.map(f => `
+  <${prefix}:${f.element} contextRef="${currentContext}" unitRef="THB" decimals="2">${f.amount.toFixed(2)}</${prefix}:${f.element}>
+  <${prefix}:${f.element} contextRef="${priorContext}" unitRef="THB" decimals="2">${f.priorAmount.toFixed(2)}</${prefix}:${f.element}>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<xbrli:xbrl xmlns:xbrli="http://www.xbrl.org/2003/instance" xmlns:link="http://www.xbrl.org/2003/linkbase" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:iso4217="http://www.xbrl.org/2003/iso4217" xmlns:${prefix}="${DBD_TAXONOMY.namespace}">
+  <link:schemaRef xlink:type="simple" xlink:href="${DBD_TAXONOMY.schemaRef}"/>
+  <!-- ${escapeXml(data.clientName)} -->${context('CurrentInstant', `<xbrli:instant>${data.periodEnd}</xbrli:instant>`)}${context('PriorInstant', `<xbrli:instant>${data.priorEnd}</xbrli:instant>`)}${context('CurrentDuration', `<xbrli:startDate>${data.periodStart}</xbrli:startDate><xbrli:endDate>${data.periodEnd}</xbrli:endDate>`)}${context('PriorDuration', `<xbrli:startDate>${data.priorStart}</xbrli:startDate><xbrli:endDate>${data.priorEnd}</xbrli:endDate>`)}
+  <xbrli:unit id="THB">
+    <xbrli:measure>iso4217:THB</xbrli:measure>
+  </xbrli:unit>${facts(data.balanceSheet, 'CurrentInstant', 'PriorInstant')}${facts(data.incomeStatement, 'CurrentDuration', 'PriorDuration')}
+</xbrli:xbrl>`;
+};
+
+// ============================================================================
+// MAPPING PERSISTENCE
+// ============================================================================
+
+/**
+ * Save the client's mapping rules; a later rule for the same prefix replaces an earlier one
+ */
+export const saveDBDMapping = async (clientId: string, rules: DBDMappingRule[], userId: string): Promise<ClientDBDMapping> => {
+  const byPrefix = new Map<string, DBDMappingRule>();
+  rules.forEach(rule => {
+    const prefix = rule.prefix.trim();
+    if (!/^\d+$/.test(prefix)) throw new Error(`รหัสบัญชี "${rule.prefix}" ต้องเป็นตัวเลข`);
+    if (!getDBDElement(rule.element)) throw new Error(`ไม่พบรายการ ${rule.element} ในอนุกรมวิธานของกรมพัฒนาธุรกิจการค้า`);
+    byPrefix.set(prefix, { prefix, element: rule.element });
+  });
+
+  const mapping: ClientDBDMapping = {
+    clientId,
+    rules: Array.from(byPrefix.values()).sort((a, b) => a.prefix.localeCompare(b.prefix)),
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+  await databaseService.saveDBDMapping(mapping);
+  return mapping;
+};
+
+export const dbdXbrlService = {
+  getDBDElement,
+  resolveDBDElement,
+  buildDBDExport,
+  generateDBDXBRL,
+  saveDBDMapping,
+};
+
+export default dbdXbrlService;
@@ -226,24 +226,26 @@ export const PLATFORM_FEES: Record<Platform, {
 };
 
 // GL Account mapping for platform transactions
+// Shipping and discount codes are in the standard chart (services/chartTemplates.ts);
+// platform receivable and fee codes come from the restaurant / e-commerce templates
 export const PLATFORM_GL_MAPPING = {
     // รายได้
-    sales: '4100-00',           // รายได้จากการขาย
-    shippingIncome: '4200-00',  // รายได้ค่าจัดส่ง
+    sales: '41100',             // รายได้จากการขาย
+    shippingIncome: '41400',    // รายได้ค่าจัดส่ง
 
     // ค่าใช้จ่าย
-    platformFee: '5410-00',     // ค่าธรรมเนียม Platform
-    paymentFee: '5420-00',      // ค่าธรรมเนียมการชำระเงิน
-    shippingExpense: '5430-00', // ค่าจัดส่ง
-    discount: '5440-00',        // ส่วนลด/โปรโมชั่น
+    platformFee: '53310',       // ค่าธรรมเนียม Platform
+    paymentFee: '53320',        // ค่าธรรมเนียมการชำระเงิน
+    shippingExpense: '53330',   // ค่าจัดส่ง
+    discount: '53340',          // ส่วนลด/โปรโมชั่น
 
     // สินทรัพย์
-    accountsReceivable: '1120-00',  // ลูกหนี้ Platform
-    bank: '1110-00',                // เงินฝากธนาคาร
+    accountsReceivable: '11310',    // ลูกหนี้ Platform
+    bank: '11200',                  // เงินฝากธนาคาร
 
     // ภาษี
-    inputVat: '1140-00',        // ภาษีซื้อ
-    outputVat: '2110-00'        // ภาษีขาย
+    inputVat: '11540',          // ภาษีซื้อ
+    outputVat: '21540'          // ภาษีขาย
 };
 
 // ============================================================================
@@ -0,0 +1,533 @@
+/**
+ * financialNotes.ts
+ *
+ * Notes to the Financial Statements
+ * หมายเหตุประกอบงบการเงิน (TFRS for NPAEs)
+ *
+ * Assembles the notes DBD expects with NPAEs statements: general information,
+ * basis of preparation, accounting policies, cash, trade receivables, PP&E
+ * movement, related parties and income tax. Figures come from the ledger,
+ * the fixed-asset register, consolidation groups and the client master.
+ * Narratives are templates whose {{placeholders}} are filled on generation;
+ * a client may override the standard wording of any note. Balances are
+ * cumulative to the period end and compared with the day before the period
+ * starts; P&L figures cover the period, before closing entries.
+ */
+
+import {
+  Client,
+  ConsolidationGroup,
+  FinancialNoteKey,
+  FinancialNoteTemplates,
+  FixedAsset,
+  PostedGLEntry,
+} from '../types';
+import { resolveAccount, resolveAccountCode } from './chartOfAccounts';
+import { ASSET_CATEGORY_ACCOUNTS, CLOSING_ACCOUNTS, isClosingEntry, isOpeningEntry } from './periodClosing';
+import { calculateBookTaxDifferences } from './taxDepreciation';
+import { DEPRECIATION_METHOD_NAMES } from './fixedAssets';
+import { formatCurrency } from './financialStatements';
+import { databaseService } from './database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NoteTableRow {
+  label: string;
+  values: (number | null)[]; // null leaves the cell blank
+  isTotal?: boolean;
+}
+
+export interface NoteTable {
+  title?: string;
+  columns: string[];
+  rows: NoteTableRow[];
+}
+
+export interface FinancialNote {
+  number: number;
+  key: FinancialNoteKey;
+  title: string;
+  titleEn: string;
+  narrative: string; // Placeholders filled
+  tables: NoteTable[];
+}
+
+export interface FinancialNotesReport {
+  clientId: string;
+  clientName: string;
+  periodStart: string;
+  periodEnd: string;
+  notes: FinancialNote[];
+  generatedAt: string;
+}
+
+export interface FinancialNotesInput {
+  client: Client;
+  glEntries: PostedGLEntry[];
+  assets: FixedAsset[];
+  periodStart: string;
+  periodEnd: string;
+  templates?: FinancialNoteTemplates | null;
+  groups?: ConsolidationGroup[]; // Groups the client belongs to, for related parties
+  clients?: Client[]; // Names of the related parties
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const NOTE_DEFINITIONS: { key: FinancialNoteKey; title: string; titleEn: string; template: string }[] = [
+  {
+    key: 'general',
+    title: 'ข้อมูลทั่วไป',
+    titleEn: 'General Information',
+    template: '{{company}} ("บริษัท") จัดตั้งขึ้นเป็นนิติบุคคลตามกฎหมายไทย เลขประจำตัวผู้เสียภาษีอากร {{tax_id}} ประกอบธุรกิจหลักเกี่ยวกับ{{industry}} สำนักงานตั้งอยู่ที่ {{address}}',
+  },
+  {
+    key: 'basis',
+    title: 'เกณฑ์การจัดทำงบการเงิน',
+    titleEn: 'Basis of Preparation',
+    template: 'งบการเงินนี้จัดทำขึ้นตามมาตรฐานการรายงานทางการเงินสำหรับกิจการที่ไม่มีส่วนได้เสียสาธารณะ (TFRS for NPAEs) ที่ออกโดยสภาวิชาชีพบัญชี ในพระบรมราชูปถัมภ์ สำหรับงวดตั้งแต่วันที่ {{period_start}} ถึงวันที่ {{period_end}} และแสดงหน่วยเงินตราเป็นบาท',
+  },
+  {
+    key: 'policies',
+    title: 'สรุปนโยบายการบัญชีที่สำคัญ',
+    titleEn: 'Significant Accounting Policies',
+    template: [
+      'การรับรู้รายได้: รับรู้รายได้เมื่อส่งมอบสินค้าหรือให้บริการแก่ลูกค้าแล้ว (เกณฑ์คงค้าง)',
+      'เงินสดและรายการเทียบเท่าเงินสด: ประกอบด้วยเงินสดในมือและเงินฝากธนาคารประเภทจ่ายคืนเมื่อทวงถาม',
+      'ลูกหนี้การค้า: แสดงตามมูลค่าสุทธิที่จะได้รับ',
+      'ที่ดิน อาคาร และอุปกรณ์: แสดงในราคาทุนหักค่าเสื่อมราคาสะสมและค่าเผื่อการด้อยค่า ค่าเสื่อมราคาคำนวณโดย{{depreciation_policy}} ที่ดินไม่มีการคิดค่าเสื่อมราคา',
+      'ภาษีเงินได้: บันทึกตามจำนวนที่ต้องชำระตามประมวลรัษฎากร',
+    ].join('\n'),
+  },
+  {
+    key: 'cash',
+    title: 'เงินสดและรายการเทียบเท่าเงินสด',
+    titleEn: 'Cash and Cash Equivalents',
+    template: 'เงินสดและรายการเทียบเท่าเงินสด ณ วันที่ {{period_end}} มีจำนวน {{cash_total}} บาท ประกอบด้วย',
+  },
+  {
+    key: 'receivables',
+    title: 'ลูกหนี้การค้า',
+    titleEn: 'Trade Receivables',
+    template: 'ลูกหนี้การค้า ณ วันที่ {{period_end}} มีจำนวน {{receivables_total}} บาท {{doubtful_accounts}}',
+  },
+  {
+    key: 'ppe',
+    title: 'ที่ดิน อาคาร และอุปกรณ์ - สุทธิ',
+    titleEn: 'Property, Plant and Equipment',
+    template: 'ที่ดิน อาคาร และอุปกรณ์ - สุทธิ ณ วันที่ {{period_end}} มีจำนวน {{ppe_net}} บาท ค่าเสื่อมราคาสำหรับงวดมีจำนวน {{depreciation_expense}} บาท รายละเอียดตามทะเบียนทรัพย์สินจำนวน {{asset_count}} รายการ การเปลี่ยนแปลงระหว่างงวดมีดังนี้',
+  },
+  {
+    key: 'related_parties',
+    title: 'รายการกับบุคคลหรือกิจการที่เกี่ยวข้องกัน',
+    titleEn: 'Related Party Transactions',
+    template: 'กิจการที่เกี่ยวข้องกัน: {{related_parties}} รายการค้ากับกิจการที่เกี่ยวข้องกันเป็นไปตามเงื่อนไขทางการค้าปกติ',
+  },
+  {
+    key: 'tax',
+    title: 'ภาษีเงินได้นิติบุคคล',
+    titleEn: 'Income Tax',
+    template: 'ภาษีเงินได้นิติบุคคลสำหรับงวดมีจำนวน {{income_tax_expense}} บาท คำนวณจากกำไรทางภาษีซึ่งรวมค่าเสื่อมราคาส่วนที่ไม่ถือเป็นรายจ่ายทางภาษีจำนวน {{depreciation_add_back}} บาท',
+  },
+];
+
+export const ASSET_CATEGORY_NAMES: Record<FixedAsset['category'], string> = {
+  Land: 'ที่ดิน',
+  Building: 'อาคาร',
+  Vehicle: 'ยานพาหนะ',
+  Equipment: 'อุปกรณ์สำนักงาน',
+  Software: 'คอมพิวเตอร์และซอฟต์แวร์',
+};
+
+const CASH_PREFIXES = ['111', '112'];
+const TRADE_RECEIVABLE_PREFIX = '113';
+const WHT_RECEIVABLE = '11900';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace {{placeholders}}; unknown ones are left for the accountant to see
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match);
+
+/**
+ * Wording in use for a note: the client's override, else the standard text
+ */
+export const getNoteTemplate = (key: FinancialNoteKey, templates?: FinancialNoteTemplates | null): string =>
+  templates?.narratives[key] ?? NOTE_DEFINITIONS.find(d => d.key === key)!.template;
+
+const previousDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const d = new Date(year, month - 1, day - 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const accountName = (code: string, clientId: string): string => resolveAccount(code, clientId)?.nameTh || code;
+
+/**
+ * Ledger figures for the notes: cumulative balances at both dates and the
+ * period's debits and credits, per resolved account (debit-positive)
+ */
+const buildLedger = (entries: PostedGLEntry[], clientId: string, periodStart: string, periodEnd: string) => {
+  const opening = new Map<string, number>();
+  const closing = new Map<string, number>();
+  const movements = new Map<string, { debit: number; credit: number }>();
+  const openingDate = previousDay(periodStart);
+
+  entries
+    .filter(e => e.clientId === clientId && e.date <= periodEnd && !isOpeningEntry(e))
+    .forEach(e => {
+      const code = resolveAccountCode(e.account_code, clientId);
+      const amount = (e.debit || 0) - (e.credit || 0);
+      closing.set(code, (closing.get(code) || 0) + amount);
+      if (e.date <= openingDate) {
+        opening.set(code, (opening.get(code) || 0) + amount);
+      } else if (!isClosingEntry(e)) {
+        const m = movements.get(code) || { debit: 0, credit: 0 };
+        m.debit += e.debit || 0;
+        m.credit += e.credit || 0;
+        movements.set(code, m);
+      }
+    });
+
+  const sum = (map: Map<string, number>, match: (code: string) => boolean) =>
+    round2(Array.from(map.entries()).filter(([code]) => match(code)).reduce((total, [, amount]) => total + amount, 0));
+  const movement = (code: string) => movements.get(code) || { debit: 0, credit: 0 };
+  const periodAmount = (code: string) => round2(movement(code).debit - movement(code).credit);
+
+  return { opening, closing, movement, periodAmount, sum, openingDate };
+};
+
+type Ledger = ReturnType<typeof buildLedger>;
+
+/**
+ * One row per account matching the prefixes, current and prior balance
+ */
+const balanceTable = (ledger: Ledger, clientId: string, prefixes: string[], periodEnd: string, totalLabel: string): NoteTable => {
+  const codes = Array.from(new Set([...ledger.closing.keys(), ...ledger.opening.keys()]))
+    .filter(code => prefixes.some(p => code.startsWith(p)))
+    .sort();
+  const rows: NoteTableRow[] = codes
+    .map(code => ({
+      label: accountName(code, clientId),
+      values: [round2(ledger.closing.get(code) || 0), round2(ledger.opening.get(code) || 0)],
+    }))
+    .filter(row => row.values.some(v => v !== 0));
+  rows.push({
+    label: totalLabel,
+    values: [0, 1].map(i => round2(rows.reduce((sum, row) => sum + (row.values[i] || 0), 0))),
+    isTotal: true,
+  });
+  return { columns: [periodEnd, ledger.openingDate], rows };
+};
+
+/**
+ * "วิธีเส้นตรง ตามอายุการใช้งานโดยประมาณ (อาคาร 20 ปี, ยานพาหนะ 5 ปี)" from the register
+ */
+const describeDepreciationPolicy = (assets: FixedAsset[]): string => {
+  const depreciable = assets.filter(a => a.category !== 'Land');
+  const methods = Array.from(new Set(depreciable.map(a => a.depreciation_method || 'straight_line')))
+    .map(m => `วิธี${DEPRECIATION_METHOD_NAMES[m]}`);
+  const lives = (Object.keys(ASSET_CATEGORY_NAMES) as FixedAsset['category'][])
+    .map(category => {
+      const years = depreciable.filter(a => a.category === category).map(a => a.useful_life_years);
+      if (years.length === 0) return null;
+      const min = Math.min(...years);
+      const max = Math.max(...years);
+      return `${ASSET_CATEGORY_NAMES[category]} ${min === max ? min : `${min}-${max}`} ปี`;
+    })
+    .filter(Boolean);
+  return `${methods.length > 0 ? methods.join(' และ') : 'วิธีเส้นตรง'} ตามอายุการใช้งานโดยประมาณ${lives.length > 0 ? ` (${lives.join(', ')})` : ''}`;
+};
+
+// ============================================================================
+// NOTE TABLES
+// ============================================================================
+
+/**
+ * Cost and accumulated depreciation movement per asset category
+ * Accumulated depreciation is shown credit-positive.
+ */
+const buildPPETables = (ledger: Ledger, periodEnd: string): { tables: NoteTable[]; netBookValue: number } => {
+  const columns = [ledger.openingDate, 'เพิ่มขึ้น', 'ลดลง', periodEnd];
+  const categories = Object.keys(ASSET_CATEGORY_ACCOUNTS) as FixedAsset['category'][];
+
+  const movementRow = (category: FixedAsset['category'], code: string, sign: 1 | -1): NoteTableRow => {
+    const { debit, credit } = ledger.movement(code);
+    return {
+      label: ASSET_CATEGORY_NAMES[category],
+      values: [
+        round2(sign * (ledger.opening.get(code) || 0)),
+        round2(sign === 1 ? debit : credit),
+        round2(sign === 1 ? credit : debit),
+        round2(sign * (ledger.closing.get(code) || 0)),
+      ],
+    };
+  };
+  const withTotal = (rows: NoteTableRow[], label: string): NoteTableRow[] => [
+    ...rows,
+    { label, values: [0, 1, 2, 3].map(i => round2(rows.reduce((sum, row) => sum + (row.values[i] || 0), 0))), isTotal: true },
+  ];
+  const active = (row: NoteTableRow) => row.values.some(v => v !== 0);
+
+  const cost = withTotal(
+    categories.map(c => movementRow(c, ASSET_CATEGORY_ACCOUNTS[c].cost, 1)).filter(active),
+    'รวมราคาทุน'
+  );
+  const accumulated = withTotal(
+    categories
+      .filter(c => ASSET_CATEGORY_ACCOUNTS[c].accumulated)
+      .map(c => movementRow(c, ASSET_CATEGORY_ACCOUNTS[c].accumulated!, -1))
+      .filter(active),
+    'รวมค่าเสื่อมราคาสะสม'
+  );
+  const costTotal = cost[cost.length - 1].values;
+  const accumulatedTotal = accumulated[accumulated.length - 1].values;
+  const netBookValue = round2((costTotal[3] || 0) - (accumulatedTotal[3] || 0));
+  accumulated.push({
+    label: 'มูลค่าสุทธิตามบัญชี',
+    values: [round2((costTotal[0] || 0) - (accumulatedTotal[0] || 0)), null, null, netBookValue],
+    isTotal: true,
+  });
+
+  return {
+    tables: [
+      { title: 'ราคาทุน', columns, rows: cost },
+      { title: 'ค่าเสื่อมราคาสะสมและค่าเผื่อการด้อยค่า', columns, rows: accumulated },
+    ],
+    netBookValue,
+  };
+};
+
+/**
+ * Balances with group members, from the intercompany elimination rules
+ * Balance sheet accounts show the closing balance, P&L accounts the period amount.
+ */
+const buildRelatedPartyTable = (
+  ledger: Ledger,
+  client: Client,
+  groups: ConsolidationGroup[],
+  clients: Client[],
+  periodEnd: string
+): { table: NoteTable | null; parties: string[] } => {
+  const partyName = (id: string) => clients.find(c => c.id === id)?.name || id;
+  const parties = Array.from(new Set(groups.flatMap(g => g.memberClientIds).filter(id => id !== client.id))).map(partyName);
+
+  const rows: NoteTableRow[] = [];
+  groups.forEach(group => group.eliminationRules.forEach(rule => {
+    const side = rule.fromClientId === client.id
+      ? { code: rule.fromAccountCode, party: rule.toClientId }
+      : rule.toClientId === client.id ? { code: rule.toAccountCode, party: rule.fromClientId } : null;
+    if (!side) return;
+    const code = resolveAccountCode(side.code, client.id);
+    const isProfitOrLoss = code.startsWith('4') || code.startsWith('5');
+    const debitBalance = isProfitOrLoss ? ledger.periodAmount(code) : ledger.closing.get(code) || 0;
+    // Shown in the account's normal direction
+    const normalCredit = ['2', '3', '4'].includes(code.charAt(0));
+    rows.push({
+      label: `${partyName(side.party)} - ${accountName(code, client.id)}`,
+      values: [round2(normalCredit ? -debitBalance : debitBalance)],
+    });
+  }));
+
+  return { table: rows.length > 0 ? { columns: [periodEnd], rows } : null, parties };
+};
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+/**
+ * Generate the notes to the financial statements for a period
+ */
+export const generateFinancialNotes = (input: FinancialNotesInput): FinancialNotesReport => {
+  const { client, glEntries, periodStart, periodEnd, templates } = input;
+  const assets = input.assets.filter(a => a.clientId === client.id);
+  const ledger = buildLedger(glEntries, client.id, periodStart, periodEnd);
+
+  const cashTable = balanceTable(ledger, client.id, CASH_PREFIXES, periodEnd, 'รวมเงินสดและรายการเทียบเท่าเงินสด');
+  const receivablesTable = balanceTable(ledger, client.id, [TRADE_RECEIVABLE_PREFIX], periodEnd, 'รวมลูกหนี้การค้า');
+  const ppe = buildPPETables(ledger, periodEnd);
+  const related = buildRelatedPartyTable(ledger, client, input.groups || [], input.clients || [], periodEnd);
+
+  const taxExpense = ledger.periodAmount(CLOSING_ACCOUNTS.CIT_EXPENSE);
+  const bookTax = calculateBookTaxDifferences(assets, { start: periodStart, end: periodEnd });
+  const taxTable: NoteTable = {
+    columns: [periodEnd],
+    rows: [
+      { label: 'ภาษีเงินได้นิติบุคคลสำหรับงวด', values: [taxExpense] },
+      { label: 'ค่าเสื่อมราคาส่วนที่บวกกลับทางภาษี', values: [bookTax.totalAddBack] },
+      { label: 'ภาษีเงินได้ถูกหัก ณ ที่จ่าย', values: [round2(ledger.closing.get(WHT_RECEIVABLE) || 0)] },
+      { label: 'ภาษีเงินได้นิติบุคคลค้างจ่าย', values: [round2(-(ledger.closing.get(CLOSING_ACCOUNTS.CIT_PAYABLE) || 0))] },
+    ],
+  };
+
+  const lastTotal = (table: NoteTable) => table.rows[table.rows.length - 1].values[0] || 0;
+  // Allowance is a contra account; shown credit-positive
+  const doubtfulAllowance = round2(-(ledger.closing.get(CLOSING_ACCOUNTS.BAD_DEBT_PROVISION) || 0));
+  const values: Record<string, string> = {
+    company: client.name,
+    tax_id: client.tax_id,
+    industry: client.industry,
+    address: client.address || '-',
+    period_start: periodStart,
+    period_end: periodEnd,
+    depreciation_policy: describeDepreciationPolicy(assets),
+    cash_total: formatCurrency(lastTotal(cashTable)),
+    receivables_total: formatCurrency(lastTotal(receivablesTable)),
+    doubtful_accounts: doubtfulAllowance > 0
+      ? `แสดงสุทธิจากค่าเผื่อหนี้สงสัยจะสูญจำนวน ${formatCurrency(doubtfulAllowance)} บาท ซึ่งฝ่ายบริหารประมาณจากอายุของลูกหนี้และประสบการณ์การเก็บหนี้ในอดีต`
+      : 'ฝ่ายบริหารเชื่อว่าบริษัทจะได้รับชำระหนี้เต็มจำนวน จึงไม่ได้ตั้งค่าเผื่อหนี้สงสัยจะสูญ',
+    ppe_net: formatCurrency(ppe.netBookValue),
+    depreciation_expense: formatCurrency(ledger.periodAmount(CLOSING_ACCOUNTS.DEPRE_EXPENSE)),
+    asset_count: String(assets.filter(a => a.status !== 'disposed').length),
+    related_parties: related.parties.length > 0 ? related.parties.join(', ') : 'ไม่มี',
+    income_tax_expense: formatCurrency(taxExpense),
+    depreciation_add_back: formatCurrency(bookTax.totalAddBack),
+  };
+
+  const tables: Partial<Record<FinancialNoteKey, NoteTable[]>> = {
+    cash: [cashTable],
+    receivables: [receivablesTable],
+    ppe: ppe.tables,
+    related_parties: related.table ? [related.table] : [],
+    tax: [taxTable],
+  };
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    periodStart,
+    periodEnd,
+    notes: NOTE_DEFINITIONS.map((definition, index) => ({
+      number: index + 1,
+      key: definition.key,
+      title: definition.title,
+      titleEn: definition.titleEn,
+      narrative: fillTemplate(getNoteTemplate(definition.key, templates), values),
+      tables: tables[definition.key] || [],
+    })),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatNoteAmount = (value: number | null): string =>
+  value === null ? '' : value < 0 ? `(${formatCurrency(-value)})` : formatCurrency(value);
+
+/**
+ * Notes as an HTML fragment, for exportToPDF or a combined document
+ */
+export const generateFinancialNotesContent = (report: FinancialNotesReport): string => report.notes.map(note => `
+    <h3>${note.number}. ${note.title} (${note.titleEn})</h3>
+    ${escapeHtml(note.narrative).split('\n').map(paragraph => `<p class="note-text">${paragraph}</p>`).join('')}
+    ${note.tables.map(table => `
+    ${table.title ? `<p><strong>${table.title}</strong></p>` : ''}
+    <table>
+      <thead>
+        <tr>
+          <th></th>
+          ${table.columns.map(column => `<th class="text-right">${column}</th>`).join('')}
+        </tr>
+      </thead>
+      <tbody>
+        ${table.rows.map(row => `
+        <tr${row.isTotal ? ' class="total-row"' : ''}>
+          <td>${row.isTotal ? `<strong>${row.label}</strong>` : row.label}</td>
+          ${row.values.map(value => `<td class="text-right">${formatNoteAmount(value)}</td>`).join('')}
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+    `).join('')}
+  `).join('');
+
+/**
+ * Word-compatible HTML document: the statements (if given) followed by the notes
+ * Saved with a .doc extension it opens in Word; it also prints to PDF as is.
+ */
+export const generateFinancialNotesHTML = (report: FinancialNotesReport, statementsContent = ''): string => `
+    <html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">
+    <head>
+      <meta charset="UTF-8">
+      <title>หมายเหตุประกอบงบการเงิน - ${report.clientName}</title>
+      <!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View></w:WordDocument></xml><![endif]-->
+      <style>
+        @page { size: A4; margin: 2cm; }
+        body { font-family: 'Sarabun', 'TH Sarabun New', sans-serif; font-size: 14pt; }
+        h1, h2 { text-align: center; margin: 4px 0; }
+        h3 { margin-top: 18px; border-bottom: 1px solid #999; }
+        table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+        th, td { padding: 4px 8px; border-bottom: 1px solid #ddd; }
+        .text-right { text-align: right; }
+        .total-row td { border-top: 1px solid #333; font-weight: bold; }
+        .note-text { text-indent: 2em; text-align: justify; }
+        .page-break { page-break-before: always; }
+      </style>
+    </head>
+    <body>
+      <h1>${report.clientName}</h1>
+      ${statementsContent ? `${statementsContent}<div class="page-break"></div>` : ''}
+      <h2>หมายเหตุประกอบงบการเงิน</h2>
+      <p style="text-align: center;">สำหรับงวดตั้งแต่วันที่ ${report.periodStart} ถึงวันที่ ${report.periodEnd}</p>
+      ${generateFinancialNotesContent(report)}
+    </body>
+    </html>
+  `;
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Save the client's narrative wording
+ * Text equal to the standard wording is not stored, so later changes to the
+ * standard text still reach the client.
+ */
+export const saveNoteTemplates = async (
+  clientId: string,
+  narratives: Partial<Record<FinancialNoteKey, string>>,
+  userId: string
+): Promise<FinancialNoteTemplates> => {
+  const overrides: Partial<Record<FinancialNoteKey, string>> = {};
+  NOTE_DEFINITIONS.forEach(({ key, template }) => {
+    const text = narratives[key]?.trim();
+    if (text === '') throw new Error(`กรุณาระบุข้อความหมายเหตุเรื่อง${NOTE_DEFINITIONS.find(d => d.key === key)!.title}`);
+    if (text !== undefined && text !== template) overrides[key] = text;
+  });
+
+  const templates: FinancialNoteTemplates = {
+    clientId,
+    narratives: overrides,
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+  await databaseService.saveFinancialNoteTemplates(templates);
+  return templates;
+};
+
+export const financialNotesService = {
+  fillTemplate,
+  getNoteTemplate,
+  generateFinancialNotes,
+  generateFinancialNotesContent,
+  generateFinancialNotesHTML,
+  saveNoteTemplates,
+};
+
+export default financialNotesService;
@@ -6,11 +6,11 @@
  * Compliant with Thai Federation of Accounting Professions (TFAC) standards
  */
 
-import { PostedGLEntry, Client } from '../types';
-import { THAI_CHART_OF_ACCOUNTS } from './accountingValidation';
-
-// Account type classification
-type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+import { PostedGLEntry, Client, AccountType, CostCenter } from '../types';
+import { resolveAccount, resolveAccountCode } from './chartOfAccounts';
+import { isClosingEntry, isOpeningEntry } from './periodClosing';
+import { getBranchCodes, HEAD_OFFICE_BRANCH, UNASSIGNED_BRANCH } from './branches';
+import { getFiscalYearOf, getFiscalYearRange, shiftYears } from './fiscalYear';
 
 // Financial statement line item
 export interface StatementLineItem {
@@ -80,6 +80,8 @@ export interface IncomeStatement {
   // Final results
   profitBeforeTax: number;
   netProfit: number;
+  // Prior period, when generated with generateComparativeIncomeStatement
+  comparative?: IncomeStatement;
   generatedAt: string;
 }
 
@@ -120,6 +122,114 @@ export interface BalanceSheet {
   // Balance check
   totalLiabilitiesAndEquity: number;
   isBalanced: boolean;
+  // Prior date, when generated with generateComparativeBalanceSheet
+  comparative?: BalanceSheet;
+  generatedAt: string;
+}
+
+// Comparison basis: current month vs prior month, or year-to-date vs prior year-to-date
+export type ComparisonBasis = 'prior_month' | 'prior_ytd';
+
+export interface ComparativePeriod {
+  periodStart: string;
+  periodEnd: string;
+  priorStart: string;
+  priorEnd: string;
+}
+
+// One month of the rolling P&L trend
+export interface IncomeTrendPoint {
+  period: string; // YYYY-MM
+  revenue: number;
+  costOfSales: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  profitBeforeTax: number;
+  netProfit: number;
+}
+
+// Segmented (cost center) income statement
+export interface SegmentedIncomeStatement {
+  clientId: string;
+  clientName: string;
+  periodStart: string;
+  periodEnd: string;
+  segments: { code: string; name: string }[]; // code '' = lines without department_code (branch_code for branch statements)
+  statements: Record<string, IncomeStatement>; // keyed by segment code
+  total: IncomeStatement;
+  generatedAt: string;
+}
+
+export const UNASSIGNED_SEGMENT = { code: '', name: 'ไม่ระบุแผนก' };
+
+// Cash Flow Statement (งบกระแสเงินสด)
+export type CashFlowMethod = 'direct' | 'indirect';
+
+export interface CashFlowSection {
+  items: StatementLineItem[]; // amount signed: inflow positive, outflow negative
+  total: number;
+}
+
+export interface CashFlowStatement {
+  clientId: string;
+  clientName: string;
+  periodStart: string;
+  periodEnd: string;
+  method: CashFlowMethod;
+  netProfit: number; // Starting point of the indirect method
+  operating: CashFlowSection;
+  investing: CashFlowSection;
+  financing: CashFlowSection;
+  netChange: number; // Sum of the three sections
+  beginningCash: number;
+  endingCash: number;
+  difference: number; // netChange less the movement in cash accounts
+  isReconciled: boolean;
+  generatedAt: string;
+}
+
+// Inclusive range of account codes; a shorter code covers every account under it
+export interface AccountRange {
+  from: string;
+  to: string;
+}
+
+// General ledger posting with the account's running balance
+export interface GeneralLedgerLine {
+  id: string;
+  date: string;
+  docNo: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  postedAccountCode: string; // Differs from the ledger account when merged into it
+  sourceDocId?: string;
+  departmentCode?: string;
+  branchCode?: string;
+  reversalOf?: string;
+  reversedBy?: string;
+}
+
+// General ledger for one account (บัญชีแยกประเภท)
+export interface GeneralLedgerAccount {
+  accountCode: string;
+  accountName: string;
+  accountNameTh: string;
+  accountType: AccountType;
+  openingBalance: number;
+  lines: GeneralLedgerLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export interface GeneralLedgerReport {
+  clientId: string;
+  accountRange: AccountRange;
+  periodStart: string;
+  periodEnd: string;
+  accounts: GeneralLedgerAccount[];
   generatedAt: string;
 }
 
@@ -155,24 +265,32 @@ const calculateAccountBalances = (
   glEntries: PostedGLEntry[],
   clientId: string,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  departmentCode?: string, // '' selects lines without a department
+  branchCode?: string // '' selects lines without a branch
 ): Map<string, { debit: number; credit: number; balance: number }> => {
   const balances = new Map<string, { debit: number; credit: number; balance: number }>();
 
   const filteredEntries = glEntries.filter(entry => {
     if (entry.clientId !== clientId) return false;
+    // All-history balances already contain what an opening voucher restates
+    if (!startDate && isOpeningEntry(entry)) return false;
     if (startDate && entry.date < startDate) return false;
     if (endDate && entry.date > endDate) return false;
+    if (departmentCode !== undefined && (entry.department_code || '') !== departmentCode) return false;
+    if (branchCode !== undefined && (entry.branch_code || '') !== branchCode) return false;
     return true;
   });
 
   filteredEntries.forEach(entry => {
-    const current = balances.get(entry.account_code) || { debit: 0, credit: 0, balance: 0 };
+    // Merged accounts roll up into their target code
+    const code = resolveAccountCode(entry.account_code, clientId);
+    const current = balances.get(code) || { debit: 0, credit: 0, balance: 0 };
     current.debit += entry.debit || 0;
     current.credit += entry.credit || 0;
 
     // Calculate balance based on account type
-    const accountType = getAccountType(entry.account_code);
+    const accountType = getAccountType(code);
     if (accountType === 'asset' || accountType === 'expense') {
       // Debit normal balance
       current.balance = current.debit - current.credit;
@@ -181,17 +299,17 @@ const calculateAccountBalances = (
       current.balance = current.credit - current.debit;
     }
 
-    balances.set(entry.account_code, current);
+    balances.set(code, current);
   });
 
   return balances;
 };
 
 /**
- * Get account name (Thai or English)
+ * Get account name (Thai or English) from the client's chart of accounts
  */
-const getAccountName = (code: string, language: 'en' | 'th' = 'th'): string => {
-  const account = THAI_CHART_OF_ACCOUNTS.find(a => a.code === code);
+const getAccountName = (code: string, language: 'en' | 'th' = 'th', clientId?: string): string => {
+  const account = resolveAccount(code, clientId);
   if (account) {
     return language === 'th' ? account.nameTh : account.name;
   }
@@ -205,9 +323,11 @@ export const generateTrialBalance = (
   glEntries: PostedGLEntry[],
   client: Client,
   asOfDate: string,
-  periodStart: string
+  periodStart: string,
+  departmentCode?: string,
+  branchCode?: string
 ): TrialBalanceReport => {
-  const balances = calculateAccountBalances(glEntries, client.id, periodStart, asOfDate);
+  const balances = calculateAccountBalances(glEntries, client.id, periodStart, asOfDate, departmentCode, branchCode);
 
   const entries: TrialBalanceEntry[] = [];
   let totalDebit = 0;
@@ -241,8 +361,8 @@ export const generateTrialBalance = (
     if (debitAmount !== 0 || creditAmount !== 0) {
       entries.push({
         accountCode: code,
-        accountName: getAccountName(code, 'en'),
-        accountNameTh: getAccountName(code, 'th'),
+        accountName: getAccountName(code, 'en', client.id),
+        accountNameTh: getAccountName(code, 'th', client.id),
         debit: debitAmount,
         credit: creditAmount,
         balance: balance.balance,
@@ -275,9 +395,11 @@ export const generateIncomeStatement = (
   glEntries: PostedGLEntry[],
   client: Client,
   periodStart: string,
-  periodEnd: string
+  periodEnd: string,
+  departmentCode?: string,
+  branchCode?: string
 ): IncomeStatement => {
-  const balances = calculateAccountBalances(glEntries, client.id, periodStart, periodEnd);
+  const balances = calculateAccountBalances(glEntries, client.id, periodStart, periodEnd, departmentCode, branchCode);
 
   // Revenue items (4xxxx)
   const revenueItems: StatementLineItem[] = [];
@@ -308,8 +430,8 @@ export const generateIncomeStatement = (
       } else {
         revenueItems.push({
           code,
-          name: getAccountName(code, 'en'),
-          nameTh: getAccountName(code, 'th'),
+          name: getAccountName(code, 'en', client.id),
+          nameTh: getAccountName(code, 'th', client.id),
           amount,
           indent: 1
         });
@@ -320,8 +442,8 @@ export const generateIncomeStatement = (
         // Cost of Sales
         costItems.push({
           code,
-          name: getAccountName(code, 'en'),
-          nameTh: getAccountName(code, 'th'),
+          name: getAccountName(code, 'en', client.id),
+          nameTh: getAccountName(code, 'th', client.id),
           amount,
           indent: 1
         });
@@ -333,8 +455,8 @@ export const generateIncomeStatement = (
         // Operating expenses
         expenseItems.push({
           code,
-          name: getAccountName(code, 'en'),
-          nameTh: getAccountName(code, 'th'),
+          name: getAccountName(code, 'en', client.id),
+          nameTh: getAccountName(code, 'th', client.id),
           amount,
           indent: 1
         });
@@ -379,6 +501,88 @@ export const generateIncomeStatement = (
   };
 };
 
+/**
+ * Generate a segmented income statement (งบกำไรขาดทุนแยกตามแผนก/โครงการ)
+ * One column per cost center, plus lines without department_code, plus total
+ */
+export const generateSegmentedIncomeStatement = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  periodStart: string,
+  periodEnd: string,
+  costCenters: CostCenter[]
+): SegmentedIncomeStatement => {
+  const periodEntries = glEntries.filter(e =>
+    e.clientId === client.id && e.date >= periodStart && e.date <= periodEnd
+  );
+  const usedCodes = new Set(periodEntries.map(e => e.department_code || ''));
+
+  // Master cost centers first, then codes used in the GL but missing from the master
+  const segments = [
+    ...costCenters.filter(c => c.isActive || usedCodes.has(c.code)).map(c => ({ code: c.code, name: c.name })),
+    ...Array.from(usedCodes)
+      .filter(code => code && !costCenters.some(c => c.code === code))
+      .sort()
+      .map(code => ({ code, name: code })),
+    ...(usedCodes.has('') ? [UNASSIGNED_SEGMENT] : []),
+  ];
+
+  const statements: Record<string, IncomeStatement> = {};
+  segments.forEach(segment => {
+    statements[segment.code] = generateIncomeStatement(periodEntries, client, periodStart, periodEnd, segment.code);
+  });
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    periodStart,
+    periodEnd,
+    segments,
+    statements,
+    total: generateIncomeStatement(periodEntries, client, periodStart, periodEnd),
+    generatedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Generate a branch income statement (งบกำไรขาดทุนแยกตามสาขา)
+ * One column per branch, plus lines without branch_code, plus total
+ */
+export const generateBranchIncomeStatement = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  periodStart: string,
+  periodEnd: string
+): SegmentedIncomeStatement => {
+  const periodEntries = glEntries.filter(e =>
+    e.clientId === client.id && e.date >= periodStart && e.date <= periodEnd
+  );
+
+  const segments = [
+    ...getBranchCodes(client, periodEntries).map(code => ({
+      code,
+      name: code === HEAD_OFFICE_BRANCH ? 'สำนักงานใหญ่' : `สาขา ${code}`,
+    })),
+    ...(periodEntries.some(e => !e.branch_code) ? [UNASSIGNED_BRANCH] : []),
+  ];
+
+  const statements: Record<string, IncomeStatement> = {};
+  segments.forEach(segment => {
+    statements[segment.code] = generateIncomeStatement(periodEntries, client, periodStart, periodEnd, undefined, segment.code);
+  });
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    periodStart,
+    periodEnd,
+    segments,
+    statements,
+    total: generateIncomeStatement(periodEntries, client, periodStart, periodEnd),
+    generatedAt: new Date().toISOString()
+  };
+};
+
 /**
  * Generate Balance Sheet (งบแสดงฐานะการเงิน)
  */
@@ -419,8 +623,8 @@ export const generateBalanceSheet = (
 
     const lineItem: StatementLineItem = {
       code,
-      name: getAccountName(code, 'en'),
-      nameTh: getAccountName(code, 'th'),
+      name: getAccountName(code, 'en', client.id),
+      nameTh: getAccountName(code, 'th', client.id),
       amount: Math.abs(amount),
       indent: 1
     };
@@ -513,6 +717,457 @@ export const generateBalanceSheet = (
   };
 };
 
+const pad2 = (value: number): string => String(value).padStart(2, '0');
+
+// Last day of a month (month 1-12; 0 and 13 roll into the adjacent year)
+const getMonthEnd = (year: number, month: number): string => {
+  const date = new Date(year, month, 0);
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+};
+
+/**
+ * Current and prior date ranges for a comparison basis
+ * prior_month: the month of periodEnd vs the previous month
+ * prior_ytd: fiscal-year start to periodEnd vs the same range of the previous year
+ */
+export const getComparativePeriod = (
+  basis: ComparisonBasis,
+  periodEnd: string,
+  fiscalYearEndMonth: number = 12
+): ComparativePeriod => {
+  const [year, month] = periodEnd.split('-').map(Number);
+
+  if (basis === 'prior_month') {
+    const priorEnd = getMonthEnd(year, month - 1);
+    return {
+      periodStart: `${year}-${pad2(month)}-01`,
+      periodEnd,
+      priorStart: `${priorEnd.slice(0, 7)}-01`,
+      priorEnd,
+    };
+  }
+
+  const fiscalYear = getFiscalYearOf(periodEnd, fiscalYearEndMonth);
+  return {
+    periodStart: getFiscalYearRange(fiscalYear, fiscalYearEndMonth).start,
+    periodEnd,
+    priorStart: getFiscalYearRange(fiscalYear - 1, fiscalYearEndMonth).start,
+    // 29 Feb has no counterpart in a non-leap prior year
+    priorEnd: shiftYears(periodEnd, -1),
+  };
+};
+
+/**
+ * Comparative balance sheet date: previous month end, or the previous
+ * fiscal year end (the comparative column required on statutory statements)
+ */
+export const getComparativeBalanceDate = (
+  basis: ComparisonBasis,
+  asOfDate: string,
+  fiscalYearEndMonth: number = 12
+): string => {
+  const [year, month] = asOfDate.split('-').map(Number);
+  if (basis === 'prior_month') return getMonthEnd(year, month - 1);
+  return getFiscalYearRange(getFiscalYearOf(asOfDate, fiscalYearEndMonth) - 1, fiscalYearEndMonth).end;
+};
+
+/**
+ * Set previousAmount on current items; accounts only used in the prior
+ * period are added with a zero current amount
+ */
+const mergeComparativeItems = (current: StatementLineItem[], prior: StatementLineItem[]): StatementLineItem[] => {
+  const priorByCode = new Map(prior.map(item => [item.code, item.amount]));
+  const currentCodes = new Set(current.map(item => item.code));
+
+  return [
+    ...current.map(item => ({ ...item, previousAmount: priorByCode.get(item.code) || 0 })),
+    ...prior.filter(item => !currentCodes.has(item.code)).map(item => ({ ...item, amount: 0, previousAmount: item.amount })),
+  ].sort((a, b) => a.code.localeCompare(b.code));
+};
+
+/**
+ * Generate a comparative Income Statement (current vs prior period)
+ * P&L closing vouchers are excluded so closed periods still show their results.
+ */
+export const generateComparativeIncomeStatement = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  period: ComparativePeriod,
+  departmentCode?: string
+): IncomeStatement => {
+  const entries = glEntries.filter(e => !isClosingEntry(e));
+  const current = generateIncomeStatement(entries, client, period.periodStart, period.periodEnd, departmentCode);
+  const prior = generateIncomeStatement(entries, client, period.priorStart, period.priorEnd, departmentCode);
+
+  return {
+    ...current,
+    revenue: { ...current.revenue, items: mergeComparativeItems(current.revenue.items, prior.revenue.items) },
+    costOfSales: { ...current.costOfSales, items: mergeComparativeItems(current.costOfSales.items, prior.costOfSales.items) },
+    operatingExpenses: {
+      ...current.operatingExpenses,
+      items: mergeComparativeItems(current.operatingExpenses.items, prior.operatingExpenses.items)
+    },
+    comparative: prior
+  };
+};
+
+/**
+ * Generate a comparative Balance Sheet (as of date vs prior date)
+ */
+export const generateComparativeBalanceSheet = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  asOfDate: string,
+  priorDate: string
+): BalanceSheet => {
+  const current = generateBalanceSheet(glEntries, client, asOfDate);
+  const prior = generateBalanceSheet(glEntries, client, priorDate);
+
+  return {
+    ...current,
+    assets: {
+      ...current.assets,
+      currentAssets: {
+        ...current.assets.currentAssets,
+        items: mergeComparativeItems(current.assets.currentAssets.items, prior.assets.currentAssets.items)
+      },
+      nonCurrentAssets: {
+        ...current.assets.nonCurrentAssets,
+        items: mergeComparativeItems(current.assets.nonCurrentAssets.items, prior.assets.nonCurrentAssets.items)
+      }
+    },
+    liabilities: {
+      ...current.liabilities,
+      currentLiabilities: {
+        ...current.liabilities.currentLiabilities,
+        items: mergeComparativeItems(current.liabilities.currentLiabilities.items, prior.liabilities.currentLiabilities.items)
+      },
+      nonCurrentLiabilities: {
+        ...current.liabilities.nonCurrentLiabilities,
+        items: mergeComparativeItems(current.liabilities.nonCurrentLiabilities.items, prior.liabilities.nonCurrentLiabilities.items)
+      }
+    },
+    equity: { ...current.equity, items: mergeComparativeItems(current.equity.items, prior.equity.items) },
+    comparative: prior
+  };
+};
+
+/**
+ * Rolling monthly P&L trend ending with the month of periodEnd (default 12 months)
+ */
+export const generateIncomeTrend = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  periodEnd: string,
+  months: number = 12
+): IncomeTrendPoint[] => {
+  const [year, month] = periodEnd.split('-').map(Number);
+  const entries = glEntries.filter(e => e.clientId === client.id && !isClosingEntry(e));
+
+  return Array.from({ length: months }, (_, i) => {
+    const monthEnd = getMonthEnd(year, month - months + 1 + i);
+    const statement = generateIncomeStatement(entries, client, `${monthEnd.slice(0, 7)}-01`, monthEnd);
+    return {
+      period: monthEnd.slice(0, 7),
+      revenue: statement.revenue.totalRevenue,
+      costOfSales: statement.costOfSales.totalCostOfSales,
+      grossProfit: statement.grossProfit,
+      operatingExpenses: statement.operatingExpenses.totalOperatingExpenses,
+      profitBeforeTax: statement.profitBeforeTax,
+      netProfit: statement.netProfit
+    };
+  });
+};
+
+// ============================================================================
+// CASH FLOW STATEMENT
+// ============================================================================
+
+type CashFlowActivity = 'operating' | 'investing' | 'financing';
+
+// Cash on hand and at bank (111xx, 112xx)
+const isCashAccount = (code: string): boolean => code.startsWith('111') || code.startsWith('112');
+
+// Borrowings: short-term loans (211xx) and long-term loans (23xxx)
+const isBorrowing = (code: string): boolean => code.startsWith('211') || code.startsWith('23');
+
+// Accumulated depreciation and impairment on non-current assets (e.g. 12401)
+const isContraAsset = (code: string, clientId: string): boolean =>
+  getAccountType(code) === 'asset' && !isCurrentAccount(code) && resolveAccount(code, clientId)?.normalBalance === 'credit';
+
+const DISPOSAL_ACCOUNTS = ['42300', '54400']; // Gain / loss on disposal
+
+const getCashFlowActivity = (code: string): CashFlowActivity => {
+  switch (getAccountType(code)) {
+    case 'asset': return isCurrentAccount(code) ? 'operating' : 'investing';
+    case 'liability': return isBorrowing(code) ? 'financing' : 'operating';
+    case 'equity': return 'financing';
+    default: return 'operating';
+  }
+};
+
+// Direct method operating lines, by the account on the other side of the cash line; first match wins
+const DIRECT_OPERATING_LINES: { code: string; name: string; nameTh: string; prefixes: string[] }[] = [
+  { code: 'INTEREST_RECEIVED', name: 'Interest and dividends received', nameTh: 'ดอกเบี้ยและเงินปันผลรับ', prefixes: ['421', '422'] },
+  { code: 'CUSTOMERS', name: 'Cash received from customers', nameTh: 'เงินสดรับจากลูกค้า', prefixes: ['4', '113', '117', '215', '217'] },
+  { code: 'EMPLOYEES', name: 'Cash paid to employees', nameTh: 'เงินสดจ่ายให้พนักงาน', prefixes: ['521', '522', '218', '219'] },
+  { code: 'INTEREST_PAID', name: 'Interest paid', nameTh: 'ดอกเบี้ยจ่าย', prefixes: ['542'] },
+  { code: 'INCOME_TAX', name: 'Income tax paid', nameTh: 'ภาษีเงินได้จ่าย', prefixes: ['58', '216', '119'] },
+  { code: 'SUPPLIERS', name: 'Cash paid to suppliers and for expenses', nameTh: 'เงินสดจ่ายให้ผู้ขายและค่าใช้จ่ายดำเนินงาน', prefixes: [''] },
+];
+
+const previousDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const d = new Date(year, month - 1, day - 1);
+  return `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+};
+
+const cashBalance = (glEntries: PostedGLEntry[], clientId: string, asOfDate: string): number => {
+  let total = 0;
+  calculateAccountBalances(glEntries, clientId, undefined, asOfDate).forEach((balance, code) => {
+    if (isCashAccount(code)) total += balance.balance;
+  });
+  return total;
+};
+
+/**
+ * Accumulates signed line items per section, keyed by code
+ */
+const createSectionBuilder = (clientId: string) => {
+  const sections: Record<CashFlowActivity, Map<string, StatementLineItem>> = {
+    operating: new Map(),
+    investing: new Map(),
+    financing: new Map(),
+  };
+  const add = (activity: CashFlowActivity, code: string, amount: number, label?: { name: string; nameTh: string }) => {
+    if (Math.abs(amount) < 0.005) return;
+    const item = sections[activity].get(code) || {
+      code,
+      name: label?.name || getAccountName(code, 'en', clientId),
+      nameTh: label?.nameTh || getAccountName(code, 'th', clientId),
+      amount: 0,
+      indent: 1,
+    };
+    item.amount += amount;
+    sections[activity].set(code, item);
+  };
+  const build = (activity: CashFlowActivity, order?: string[]): CashFlowSection => {
+    const items = Array.from(sections[activity].values())
+      .filter(item => Math.abs(item.amount) >= 0.005)
+      .map(item => ({ ...item, amount: Math.round(item.amount * 100) / 100 }));
+    const rank = (code: string) => (order && order.includes(code) ? order.indexOf(code) : (order?.length || 0));
+    items.sort((a, b) => rank(a.code) - rank(b.code) || a.code.localeCompare(b.code));
+    return { items, total: Math.round(items.reduce((sum, item) => sum + item.amount, 0) * 100) / 100 };
+  };
+  return { add, build };
+};
+
+const PURCHASE_LINE = { name: 'Purchase of property, plant and equipment and investments', nameTh: 'เงินสดจ่ายซื้อสินทรัพย์ไม่หมุนเวียน' };
+const DISPOSAL_LINE = { name: 'Proceeds from disposal of non-current assets', nameTh: 'เงินสดรับจากการจำหน่ายสินทรัพย์ไม่หมุนเวียน' };
+
+/**
+ * Generate the Cash Flow Statement (งบกระแสเงินสด) for a period
+ * Indirect: net profit adjusted for depreciation, disposal gains/losses and the
+ * change in each working-capital account between the opening and closing
+ * balance sheets. Direct: each voucher that moves cash is classified by the
+ * accounts on its other side. Both reconcile to the change in cash accounts
+ * (111xx/112xx); closing and opening-balance vouchers are not cash flows.
+ * A non-cash purchase on credit shows as an investing outflow offset by an
+ * increase in payables under the indirect method.
+ */
+export const generateCashFlowStatement = (
+  glEntries: PostedGLEntry[],
+  client: Client,
+  periodStart: string,
+  periodEnd: string,
+  method: CashFlowMethod = 'indirect'
+): CashFlowStatement => {
+  const entries = glEntries
+    .filter(e =>
+      e.clientId === client.id && e.date >= periodStart && e.date <= periodEnd &&
+      !isClosingEntry(e) && !isOpeningEntry(e)
+    )
+    .map(e => ({ ...e, account_code: resolveAccountCode(e.account_code, client.id) }));
+
+  const isProfitOrLoss = (code: string) => ['revenue', 'expense'].includes(getAccountType(code));
+  const netProfit = Math.round(entries
+    .filter(e => isProfitOrLoss(e.account_code))
+    .reduce((sum, e) => sum + (e.credit || 0) - (e.debit || 0), 0) * 100) / 100;
+
+  const { add, build } = createSectionBuilder(client.id);
+
+  if (method === 'indirect') {
+    const movements = new Map<string, { debit: number; credit: number }>();
+    entries.forEach(e => {
+      const m = movements.get(e.account_code) || { debit: 0, credit: 0 };
+      m.debit += e.debit || 0;
+      m.credit += e.credit || 0;
+      movements.set(e.account_code, m);
+    });
+
+    add('operating', 'NET_PROFIT', netProfit, { name: 'Net profit (loss)', nameTh: 'กำไร (ขาดทุน) สุทธิ' });
+    movements.forEach(({ debit, credit }, code) => {
+      if (isCashAccount(code)) return;
+      if (DISPOSAL_ACCOUNTS.includes(code)) {
+        // Gains belong to the proceeds, not to operations
+        add('operating', 'DISPOSAL', debit - credit, { name: '(Gain) loss on disposal of assets', nameTh: 'ขาดทุน (กำไร) จากการจำหน่ายสินทรัพย์' });
+        add('investing', 'DISPOSAL', credit - debit, DISPOSAL_LINE);
+      } else if (isContraAsset(code, client.id)) {
+        add('operating', 'DEPRECIATION', credit, { name: 'Depreciation and impairment', nameTh: 'ค่าเสื่อมราคาและขาดทุนจากการด้อยค่า' });
+        add('investing', 'DISPOSAL', -debit, DISPOSAL_LINE);
+      } else if (isProfitOrLoss(code)) {
+        return;
+      } else if (getCashFlowActivity(code) === 'investing') {
+        add('investing', 'PURCHASE', -debit, PURCHASE_LINE);
+        add('investing', 'DISPOSAL', credit, DISPOSAL_LINE);
+      } else {
+        // Increase in an asset uses cash, increase in a liability or equity provides it
+        add(getCashFlowActivity(code), code, credit - debit);
+      }
+    });
+  } else {
+    const vouchers = new Map<string, PostedGLEntry[]>();
+    entries.forEach(e => vouchers.set(e.doc_no, [...(vouchers.get(e.doc_no) || []), e]));
+
+    vouchers.forEach(lines => {
+      if (!lines.some(l => isCashAccount(l.account_code))) return;
+      let investing = 0;
+      lines.forEach(l => {
+        const code = l.account_code;
+        if (isCashAccount(code)) return;
+        const amount = (l.credit || 0) - (l.debit || 0);
+        if (DISPOSAL_ACCOUNTS.includes(code) || isContraAsset(code, client.id) || getCashFlowActivity(code) === 'investing') {
+          investing += amount;
+        } else if (getCashFlowActivity(code) === 'financing') {
+          add('financing', code, amount);
+        } else {
+          const line = DIRECT_OPERATING_LINES.find(d => d.prefixes.some(p => code.startsWith(p)))!;
+          add('operating', line.code, amount, line);
+        }
+      });
+      add('investing', investing < 0 ? 'PURCHASE' : 'DISPOSAL', investing, investing < 0 ? PURCHASE_LINE : DISPOSAL_LINE);
+    });
+  }
+
+  const operating = build('operating', ['NET_PROFIT', 'DEPRECIATION', 'DISPOSAL', 'CUSTOMERS', ...DIRECT_OPERATING_LINES.map(l => l.code)]);
+  const investing = build('investing', ['PURCHASE', 'DISPOSAL']);
+  const financing = build('financing');
+  const netChange = Math.round((operating.total + investing.total + financing.total) * 100) / 100;
+  const beginningCash = Math.round(cashBalance(glEntries, client.id, previousDay(periodStart)) * 100) / 100;
+  const endingCash = Math.round(cashBalance(glEntries, client.id, periodEnd) * 100) / 100;
+  const difference = Math.round((netChange - (endingCash - beginningCash)) * 100) / 100;
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    periodStart,
+    periodEnd,
+    method,
+    netProfit,
+    operating,
+    investing,
+    financing,
+    netChange,
+    beginningCash,
+    endingCash,
+    difference,
+    isReconciled: Math.abs(difference) < 0.01,
+    generatedAt: new Date().toISOString()
+  };
+};
+
+// ============================================================================
+// GENERAL LEDGER
+// ============================================================================
+
+/**
+ * Whether an account code falls in the range, comparing each end at its own length
+ */
+export const isInAccountRange = (code: string, range: AccountRange): boolean =>
+  code.slice(0, range.from.length) >= range.from && code.slice(0, range.to.length) <= range.to;
+
+/**
+ * Generate General Ledger (บัญชีแยกประเภท)
+ * Opening balance, every posting in the period with its running balance, and
+ * closing balance for each account in the range. Balances are in the
+ * account's normal direction; opening vouchers are skipped as they restate
+ * history already in the ledger.
+ */
+export const generateGeneralLedger = (
+  glEntries: PostedGLEntry[],
+  clientId: string,
+  accountRange: AccountRange,
+  period: { start: string; end: string }
+): GeneralLedgerReport => {
+  const byAccount = new Map<string, { opening: number; entries: PostedGLEntry[] }>();
+
+  glEntries
+    .filter(e => e.clientId === clientId && e.date <= period.end && !isOpeningEntry(e))
+    .forEach(entry => {
+      // Merged accounts roll up into their target code
+      const code = resolveAccountCode(entry.account_code, clientId);
+      if (!isInAccountRange(code, accountRange)) return;
+      const account = byAccount.get(code) || { opening: 0, entries: [] };
+      if (entry.date < period.start) {
+        account.opening += (entry.debit || 0) - (entry.credit || 0);
+      } else {
+        account.entries.push(entry);
+      }
+      byAccount.set(code, account);
+    });
+
+  const accounts: GeneralLedgerAccount[] = Array.from(byAccount.keys()).sort().map(code => {
+    const { opening, entries } = byAccount.get(code)!;
+    const accountType = getAccountType(code);
+    const sign = accountType === 'asset' || accountType === 'expense' ? 1 : -1;
+    const fallbackName = entries[0]?.account_name || code;
+
+    let balance = sign * opening;
+    const openingBalance = Math.round(balance * 100) / 100;
+    const lines = [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date) || a.doc_no.localeCompare(b.doc_no))
+      .map(entry => {
+        balance += sign * ((entry.debit || 0) - (entry.credit || 0));
+        return {
+          id: entry.id,
+          date: entry.date,
+          docNo: entry.doc_no,
+          description: entry.description,
+          debit: entry.debit || 0,
+          credit: entry.credit || 0,
+          balance: Math.round(balance * 100) / 100,
+          postedAccountCode: entry.account_code,
+          sourceDocId: entry.source_doc_id,
+          departmentCode: entry.department_code,
+          branchCode: entry.branch_code,
+          reversalOf: entry.reversal_of,
+          reversedBy: entry.reversed_by,
+        };
+      });
+
+    return {
+      accountCode: code,
+      accountName: resolveAccount(code, clientId)?.name || fallbackName,
+      accountNameTh: resolveAccount(code, clientId)?.nameTh || fallbackName,
+      accountType,
+      openingBalance,
+      lines,
+      totalDebit: Math.round(lines.reduce((sum, l) => sum + l.debit, 0) * 100) / 100,
+      totalCredit: Math.round(lines.reduce((sum, l) => sum + l.credit, 0) * 100) / 100,
+      closingBalance: Math.round(balance * 100) / 100,
+    };
+  }).filter(a => a.lines.length > 0 || a.openingBalance !== 0);
+
+  return {
+    clientId,
+    accountRange,
+    periodStart: period.start,
+    periodEnd: period.end,
+    accounts,
+    generatedAt: new Date().toISOString()
+  };
+};
+
 /**
  * Format currency for display
  */
@@ -592,28 +1247,34 @@ export const generateTrialBalanceHTML = (report: TrialBalanceReport): string =>
   `;
 };
 
+/**
+ * Amount cells for the printable statements: the current amount, plus the
+ * prior amount when the statement is comparative
+ */
+const amountCells = (
+  amount: number,
+  previous: number | undefined,
+  options: { negative?: boolean; signed?: boolean } = {}
+): string => {
+  const cell = (value: number) => {
+    const cls = options.signed ? ` class="${value >= 0 ? 'profit' : 'loss'}"` : '';
+    const text = options.negative ? `(${formatCurrency(value)})` : formatCurrency(value);
+    return `<td style="text-align: right;"${cls}>${text}</td>`;
+  };
+  return cell(amount) + (previous !== undefined ? cell(previous) : '');
+};
+
 /**
  * Generate HTML for Income Statement printing
  */
 export const generateIncomeStatementHTML = (statement: IncomeStatement): string => {
-  const revenueRows = statement.revenue.items.map(item => `
-    <tr>
-      <td style="padding-left: 20px;">${item.nameTh}</td>
-      <td style="text-align: right;">${formatCurrency(item.amount)}</td>
-    </tr>
-  `).join('');
+  const prior = statement.comparative;
+  const blankCells = prior ? '<td></td><td></td>' : '<td></td>';
 
-  const costRows = statement.costOfSales.items.map(item => `
+  const itemRows = (items: StatementLineItem[], negative = false) => items.map(item => `
     <tr>
       <td style="padding-left: 20px;">${item.nameTh}</td>
-      <td style="text-align: right;">${formatCurrency(item.amount)}</td>
-    </tr>
-  `).join('');
-
-  const expenseRows = statement.operatingExpenses.items.map(item => `
-    <tr>
-      <td style="padding-left: 20px;">${item.nameTh}</td>
-      <td style="text-align: right;">${formatCurrency(item.amount)}</td>
+      ${amountCells(item.amount, prior ? item.previousAmount || 0 : undefined, { negative })}
     </tr>
   `).join('');
 
@@ -629,6 +1290,7 @@ export const generateIncomeStatementHTML = (statement: IncomeStatement): string
         h2 { text-align: center; margin-top: 0; font-weight: normal; }
         table { width: 100%; border-collapse: collapse; margin-top: 20px; }
         td { padding: 8px; border-bottom: 1px solid #ddd; }
+        .column-header td { font-weight: bold; text-align: right; border-bottom: 2px solid #333; }
         .section-header { font-weight: bold; background-color: #f5f5f5; }
         .total-row { font-weight: bold; border-top: 2px solid #333; }
         .grand-total { font-weight: bold; background-color: #e0e0e0; font-size: 1.1em; }
@@ -644,81 +1306,81 @@ export const generateIncomeStatementHTML = (statement: IncomeStatement): string
       </p>
 
       <table>
+        ${prior ? `
+        <tr class="column-header">
+          <td></td>
+          <td>${statement.periodStart} ถึง ${statement.periodEnd}</td>
+          <td>${prior.periodStart} ถึง ${prior.periodEnd}</td>
+        </tr>
+        ` : ''}
+
         <tr class="section-header">
           <td>รายได้จากการขาย</td>
-          <td></td>
+          ${blankCells}
         </tr>
-        ${revenueRows}
+        ${itemRows(statement.revenue.items)}
         <tr class="total-row">
           <td>รวมรายได้</td>
-          <td style="text-align: right;">${formatCurrency(statement.revenue.totalRevenue)}</td>
+          ${amountCells(statement.revenue.totalRevenue, prior?.revenue.totalRevenue)}
         </tr>
 
         <tr class="section-header">
           <td>ต้นทุนขาย</td>
-          <td></td>
+          ${blankCells}
         </tr>
-        ${costRows}
+        ${itemRows(statement.costOfSales.items, true)}
         <tr class="total-row">
           <td>รวมต้นทุนขาย</td>
-          <td style="text-align: right;">(${formatCurrency(statement.costOfSales.totalCostOfSales)})</td>
+          ${amountCells(statement.costOfSales.totalCostOfSales, prior?.costOfSales.totalCostOfSales, { negative: true })}
         </tr>
 
         <tr class="total-row">
           <td>กำไรขั้นต้น</td>
-          <td style="text-align: right;" class="${statement.grossProfit >= 0 ? 'profit' : 'loss'}">
-            ${formatCurrency(statement.grossProfit)}
-          </td>
+          ${amountCells(statement.grossProfit, prior?.grossProfit, { signed: true })}
         </tr>
 
         <tr class="section-header">
           <td>ค่าใช้จ่ายในการดำเนินงาน</td>
-          <td></td>
+          ${blankCells}
         </tr>
-        ${expenseRows}
+        ${itemRows(statement.operatingExpenses.items, true)}
         <tr class="total-row">
           <td>รวมค่าใช้จ่ายในการดำเนินงาน</td>
-          <td style="text-align: right;">(${formatCurrency(statement.operatingExpenses.totalOperatingExpenses)})</td>
+          ${amountCells(statement.operatingExpenses.totalOperatingExpenses, prior?.operatingExpenses.totalOperatingExpenses, { negative: true })}
         </tr>
 
         <tr class="total-row">
           <td>กำไรจากการดำเนินงาน</td>
-          <td style="text-align: right;" class="${statement.operatingProfit >= 0 ? 'profit' : 'loss'}">
-            ${formatCurrency(statement.operatingProfit)}
-          </td>
+          ${amountCells(statement.operatingProfit, prior?.operatingProfit, { signed: true })}
         </tr>
 
-        ${statement.otherIncome > 0 ? `
+        ${statement.otherIncome > 0 || (prior?.otherIncome || 0) > 0 ? `
         <tr>
           <td style="padding-left: 20px;">รายได้อื่น</td>
-          <td style="text-align: right;">${formatCurrency(statement.otherIncome)}</td>
+          ${amountCells(statement.otherIncome, prior?.otherIncome)}
         </tr>
         ` : ''}
 
-        ${statement.otherExpenses > 0 ? `
+        ${statement.otherExpenses > 0 || (prior?.otherExpenses || 0) > 0 ? `
         <tr>
           <td style="padding-left: 20px;">ค่าใช้จ่ายอื่น</td>
-          <td style="text-align: right;">(${formatCurrency(statement.otherExpenses)})</td>
+          ${amountCells(statement.otherExpenses, prior?.otherExpenses, { negative: true })}
         </tr>
         ` : ''}
 
         <tr class="total-row">
           <td>กำไรก่อนภาษีเงินได้</td>
-          <td style="text-align: right;" class="${statement.profitBeforeTax >= 0 ? 'profit' : 'loss'}">
-            ${formatCurrency(statement.profitBeforeTax)}
-          </td>
+          ${amountCells(statement.profitBeforeTax, prior?.profitBeforeTax, { signed: true })}
         </tr>
 
         <tr>
           <td style="padding-left: 20px;">ภาษีเงินได้นิติบุคคล</td>
-          <td style="text-align: right;">(${formatCurrency(statement.incomeTaxExpense)})</td>
+          ${amountCells(statement.incomeTaxExpense, prior?.incomeTaxExpense, { negative: true })}
         </tr>
 
         <tr class="grand-total">
           <td>กำไร (ขาดทุน) สุทธิ</td>
-          <td style="text-align: right;" class="${statement.netProfit >= 0 ? 'profit' : 'loss'}">
-            ${formatCurrency(statement.netProfit)}
-          </td>
+          ${amountCells(statement.netProfit, prior?.netProfit, { signed: true })}
         </tr>
       </table>
 
@@ -734,10 +1396,14 @@ export const generateIncomeStatementHTML = (statement: IncomeStatement): string
  * Generate HTML for Balance Sheet printing
  */
 export const generateBalanceSheetHTML = (sheet: BalanceSheet): string => {
+  const prior = sheet.comparative;
+  const columns = prior ? 3 : 2;
+  const blankCells = prior ? '<td></td><td></td>' : '<td></td>';
+
   const assetRows = (items: StatementLineItem[]) => items.map(item => `
     <tr>
       <td style="padding-left: 20px;">${item.nameTh}</td>
-      <td style="text-align: right;">${formatCurrency(item.amount)}</td>
+      ${amountCells(item.amount, prior ? item.previousAmount || 0 : undefined)}
     </tr>
   `).join('');
 
@@ -753,6 +1419,7 @@ export const generateBalanceSheetHTML = (sheet: BalanceSheet): string => {
         h2 { text-align: center; margin-top: 0; font-weight: normal; }
         table { width: 100%; border-collapse: collapse; margin-top: 20px; }
         td { padding: 8px; border-bottom: 1px solid #ddd; }
+        .column-header td { font-weight: bold; text-align: right; border-bottom: 2px solid #333; }
         .section-header { font-weight: bold; background-color: #f5f5f5; }
         .subsection { font-weight: bold; font-style: italic; }
         .total-row { font-weight: bold; border-top: 2px solid #333; }
@@ -767,79 +1434,87 @@ export const generateBalanceSheetHTML = (sheet: BalanceSheet): string => {
       <p style="text-align: center;">ณ วันที่ ${sheet.asOfDate}</p>
 
       <table>
+        ${prior ? `
+        <tr class="column-header">
+          <td></td>
+          <td>${sheet.asOfDate}</td>
+          <td>${prior.asOfDate}</td>
+        </tr>
+        ` : ''}
+
         <tr class="section-header">
-          <td colspan="2">สินทรัพย์</td>
+          <td colspan="${columns}">สินทรัพย์</td>
         </tr>
 
         <tr class="subsection">
           <td>สินทรัพย์หมุนเวียน</td>
-          <td></td>
+          ${blankCells}
         </tr>
         ${assetRows(sheet.assets.currentAssets.items)}
         <tr class="total-row">
           <td>รวมสินทรัพย์หมุนเวียน</td>
-          <td style="text-align: right;">${formatCurrency(sheet.assets.currentAssets.total)}</td>
+          ${amountCells(sheet.assets.currentAssets.total, prior?.assets.currentAssets.total)}
         </tr>
 
         <tr class="subsection">
           <td>สินทรัพย์ไม่หมุนเวียน</td>
-          <td></td>
+          ${blankCells}
         </tr>
         ${assetRows(sheet.assets.nonCurrentAssets.items)}
         <tr class="total-row">
           <td>รวมสินทรัพย์ไม่หมุนเวียน</td>
-          <td style="text-align: right;">${formatCurrency(sheet.assets.nonCurrentAssets.total)}</td>
+          ${amountCells(sheet.assets.nonCurrentAssets.total, prior?.assets.nonCurrentAssets.total)}
         </tr>
 
         <tr class="grand-total">
           <td>รวมสินทรัพย์</td>
-          <td style="text-align: right;">${formatCurrency(sheet.assets.totalAssets)}</td>
+          ${amountCells(sheet.assets.totalAssets, prior?.assets.totalAssets)}
         </tr>
 
-        <tr><td colspan="2" style="height: 20px;"></td></tr>
+        <tr><td colspan="${columns}" style="height: 20px;"></td></tr>
 
         <tr class="section-header">
-          <td colspan="2">หนี้สินและส่วนของเจ้าของ</td>
+          <td colspan="${columns}">หนี้สินและส่วนของเจ้าของ</td>
         </tr>
 
         <tr class="subsection">
           <td>หนี้สินหมุนเวียน</td>
-          <td></td>
+          ${blankCells}
         </tr>
         ${assetRows(sheet.liabilities.currentLiabilities.items)}
         <tr class="total-row">
           <td>รวมหนี้สินหมุนเวียน</td>
-          <td style="text-align: right;">${formatCurrency(sheet.liabilities.currentLiabilities.total)}</td>
+          ${amountCells(sheet.liabilities.currentLiabilities.total, prior?.liabilities.currentLiabilities.total)}
         </tr>
 
         <tr class="subsection">
           <td>หนี้สินไม่หมุนเวียน</td>
-          <td></td>
+          ${blankCells}
         </tr>
         ${assetRows(sheet.liabilities.nonCurrentLiabilities.items)}
         <tr class="total-row">
           <td>รวมหนี้สินไม่หมุนเวียน</td>
-          <td style="text-align: right;">${formatCurrency(sheet.liabilities.nonCurrentLiabilities.total)}</td>
+          ${amountCells(sheet.liabilities.nonCurrentLiabilities.total, prior?.liabilities.nonCurrentLiabilities.total)}
         </tr>
 
         <tr class="total-row">
           <td>รวมหนี้สิน</td>
-          <td style="text-align: right;">${formatCurrency(sheet.liabilities.totalLiabilities)}</td>
+          ${amountCells(sheet.liabilities.totalLiabilities, prior?.liabilities.totalLiabilities)}
         </tr>
 
         <tr class="subsection">
           <td>ส่วนของเจ้าของ</td>
-          <td></td>
+          ${blankCells}
         </tr>
         ${assetRows(sheet.equity.items)}
         <tr class="total-row">
           <td>รวมส่วนของเจ้าของ</td>
-          <td style="text-align: right;">${formatCurrency(sheet.equity.totalEquity)}</td>
+          ${amountCells(sheet.equity.totalEquity, prior?.equity.totalEquity)}
         </tr>
 
         <tr class="grand-total">
           <td>รวมหนี้สินและส่วนของเจ้าของ</td>
-          <td style="text-align: right;">${formatCurrency(sheet.totalLiabilitiesAndEquity)}</td>
+          ${amountCells(sheet.totalLiabilitiesAndEquity, prior?.totalLiabilitiesAndEquity)}
         </tr>
       </table>
 
@@ -855,12 +1530,107 @@ export const generateBalanceSheetHTML = (sheet: BalanceSheet): string => {
   `;
 };
 
+/**
+ * Generate HTML for Cash Flow Statement printing
+ */
+export const generateCashFlowStatementHTML = (statement: CashFlowStatement): string => {
+  // Outflows print in brackets
+  const cashCells = (amount: number) => amountCells(Math.abs(amount), undefined, { negative: amount < 0 });
+
+  const section = (title: string, totalLabel: string, cashFlow: CashFlowSection) => `
+    <tr class="section-header">
+      <td colspan="2">${title}</td>
+    </tr>
+    ${cashFlow.items.map(item => `
+    <tr>
+      <td style="padding-left: 20px;">${item.nameTh}</td>
+      ${cashCells(item.amount)}
+    </tr>
+    `).join('')}
+    <tr class="total-row">
+      <td>${totalLabel}</td>
+      ${cashCells(cashFlow.total)}
+    </tr>
+  `;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>งบกระแสเงินสด - ${statement.clientName}</title>
+      <style>
+        body { font-family: 'Sarabun', sans-serif; padding: 20px; }
+        h1 { text-align: center; margin-bottom: 5px; }
+        h2 { text-align: center; margin-top: 0; font-weight: normal; }
+        table { width: 100%; border-collapse: collapse; margin-top: 20px; }
+        td { padding: 8px; border-bottom: 1px solid #ddd; }
+        .section-header { font-weight: bold; background-color: #f5f5f5; }
+        .total-row { font-weight: bold; border-top: 2px solid #333; }
+        .grand-total { font-weight: bold; background-color: #e0e0e0; font-size: 1.1em; }
+        .balanced { color: green; }
+        .unbalanced { color: red; }
+      </style>
+    </head>
+    <body>
+      <h1>งบกระแสเงินสด</h1>
+      <h2>${statement.clientName}</h2>
+      <p style="text-align: center;">
+        สำหรับงวด ${statement.periodStart} ถึง ${statement.periodEnd}
+        (${statement.method === 'indirect' ? 'วิธีทางอ้อม' : 'วิธีทางตรง'})
+      </p>
+
+      <table>
+        ${section('กระแสเงินสดจากกิจกรรมดำเนินงาน', 'เงินสดสุทธิได้มาจาก (ใช้ไปใน) กิจกรรมดำเนินงาน', statement.operating)}
+        ${section('กระแสเงินสดจากกิจกรรมลงทุน', 'เงินสดสุทธิได้มาจาก (ใช้ไปใน) กิจกรรมลงทุน', statement.investing)}
+        ${section('กระแสเงินสดจากกิจกรรมจัดหาเงิน', 'เงินสดสุทธิได้มาจาก (ใช้ไปใน) กิจกรรมจัดหาเงิน', statement.financing)}
+
+        <tr><td colspan="2" style="height: 20px;"></td></tr>
+
+        <tr class="total-row">
+          <td>เงินสดและรายการเทียบเท่าเงินสดเพิ่มขึ้น (ลดลง) สุทธิ</td>
+          ${cashCells(statement.netChange)}
+        </tr>
+        <tr>
+          <td>เงินสดและรายการเทียบเท่าเงินสด ณ วันต้นงวด</td>
+          ${cashCells(statement.beginningCash)}
+        </tr>
+        <tr class="grand-total">
+          <td>เงินสดและรายการเทียบเท่าเงินสด ณ วันสิ้นงวด</td>
+          ${cashCells(statement.endingCash)}
+        </tr>
+      </table>
+
+      <p class="${statement.isReconciled ? 'balanced' : 'unbalanced'}" style="text-align: center; margin-top: 20px;">
+        ${statement.isReconciled
+          ? '✓ กระแสเงินสดสุทธิกระทบยอดกับเงินสดในบัญชีแล้ว'
+          : `✗ กระแสเงินสดสุทธิไม่ตรงกับการเปลี่ยนแปลงของเงินสด (ผลต่าง ${formatCurrency(statement.difference)})`}
+      </p>
+
+      <p style="text-align: right; font-size: 12px; margin-top: 30px;">
+        สร้างเมื่อ: ${new Date(statement.generatedAt).toLocaleString('th-TH')}
+      </p>
+    </body>
+    </html>
+  `;
+};
+
 export default {
   generateTrialBalance,
   generateIncomeStatement,
+  generateSegmentedIncomeStatement,
+  generateBranchIncomeStatement,
   generateBalanceSheet,
+  getComparativePeriod,
+  getComparativeBalanceDate,
+  generateComparativeIncomeStatement,
+  generateComparativeBalanceSheet,
+  generateIncomeTrend,
+  generateCashFlowStatement,
+  generateGeneralLedger,
   generateTrialBalanceHTML,
   generateIncomeStatementHTML,
   generateBalanceSheetHTML,
+  generateCashFlowStatementHTML,
   formatCurrency
 };
@@ -0,0 +1,281 @@
+/**
+ * fiscalYear.ts
+ *
+ * Fiscal Year-End Close
+ * ปิดบัญชีสิ้นรอบปีบัญชี ยกยอดคงเหลือไปปีถัดไป และเปิดปีบัญชีใหม่
+ *
+ * Closing a fiscal year posts two vouchers: the year-end closing voucher
+ * (JV-CLOSE-FY*) that moves remaining P&L through the income summary into
+ * retained earnings, and the opening balance voucher (JV-OPEN-FY*) dated on
+ * the first day of the next fiscal year. Reopening reverses both and keeps the
+ * close record with the reason, so the year's history stays traceable.
+ */
+
+import { Client, FiscalYearClose, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { auditHelpers } from './auditTrail';
+import { buildReversalEntries } from './glReversal';
+import { generateOpeningBalanceEntries, generateYearEndClosingEntries } from './periodClosing';
+import { postDraftVouchers, postVoucher } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FiscalYearRange {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+export interface FiscalYearRequest {
+  clientId: string;
+  fiscalYear: number;
+  userId: string;
+  userName?: string;
+  userRole?: string;
+}
+
+export interface FiscalYearResult {
+  success: boolean;
+  record?: FiscalYearClose;
+  entries: PostedGLEntry[]; // Posted lines (closing + opening, or their reversals)
+  message: string;
+  messageTh: string;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Last month of the client's fiscal year (1-12)
+ */
+export const getFiscalYearEndMonth = (client: Pick<Client, 'fiscal_year_end_month'> | null | undefined): number => {
+  const month = client?.fiscal_year_end_month;
+  return month && month >= 1 && month <= 12 ? month : 12;
+};
+
+/**
+ * Date range of a fiscal year, labelled by the calendar year it ends in
+ * e.g. FY2024 with a March year end runs 2023-04-01 to 2024-03-31
+ */
+export const getFiscalYearRange = (fiscalYear: number, endMonth: number = 12): FiscalYearRange => {
+  const startYear = endMonth === 12 ? fiscalYear : fiscalYear - 1;
+  const startMonth = endMonth === 12 ? 1 : endMonth + 1;
+  const lastDay = new Date(fiscalYear, endMonth, 0).getDate();
+  return {
+    start: `${startYear}-${pad2(startMonth)}-01`,
+    end: `${fiscalYear}-${pad2(endMonth)}-${pad2(lastDay)}`,
+  };
+};
+
+/**
+ * Fiscal year a date (YYYY-MM-DD) falls in
+ */
+export const getFiscalYearOf = (date: string, endMonth: number = 12): number => {
+  const [year, month] = date.split('-').map(Number);
+  return month > endMonth ? year + 1 : year;
+};
+
+/**
+ * Same date a number of years earlier or later (YYYY-MM-DD)
+ * 29 Feb falls back to 28 Feb in a non-leap year
+ */
+export const shiftYears = (date: string, years: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = year + years;
+  const lastDay = new Date(target, month, 0).getDate();
+  return `${target}-${pad2(month)}-${pad2(Math.min(day, lastDay))}`;
+};
+
+const fail = (message: string, messageTh: string): FiscalYearResult => ({
+  success: false,
+  entries: [],
+  message,
+  messageTh,
+});
+
+const findRecord = async (clientId: string, fiscalYear: number): Promise<FiscalYearClose | undefined> =>
+  (await databaseService.getFiscalYearCloses(clientId)).find(r => r.fiscalYear === fiscalYear);
+
+// ============================================================================
+// CLOSE
+// ============================================================================
+
+/**
+ * Close a fiscal year and carry its balances into the next one
+ */
+export const closeFiscalYear = async (request: FiscalYearRequest): Promise<FiscalYearResult> => {
+  const { clientId, fiscalYear, userId } = request;
+
+  const client = await databaseService.getClientById(clientId);
+  const range = getFiscalYearRange(fiscalYear, getFiscalYearEndMonth(client));
+
+  const existing = await findRecord(clientId, fiscalYear);
+  if (existing?.status === 'closed') {
+    return fail(`Fiscal year ${fiscalYear} is already closed`, `ปีบัญชี ${fiscalYear} ปิดบัญชีแล้ว`);
+  }
+  if (range.end >= new Date().toISOString().split('T')[0]) {
+    return fail(
+      `Fiscal year ${fiscalYear} has not ended yet (${range.end})`,
+      `ปีบัญชี ${fiscalYear} ยังไม่สิ้นสุด (${range.end})`
+    );
+  }
+
+  const glEntries = await databaseService.getGLEntriesByClient(clientId);
+  const closing = generateYearEndClosingEntries(glEntries, clientId, fiscalYear, range);
+  const opening = generateOpeningBalanceEntries([...glEntries, ...closing.entries], clientId, fiscalYear, range);
+
+  const posted: PostedGLEntry[] = [];
+  const docNos: { closingDocNo?: string; openingDocNo?: string } = {};
+  for (const [key, lines] of [['closingDocNo', closing.entries], ['openingDocNo', opening]] as const) {
+    if (lines.length === 0) continue;
+
+    const [result] = await postDraftVouchers(clientId, 'JV', lines, userId);
+    if (!result.success || !result.docNo) {
+      const error = result.validation.errors[0];
+      return {
+        success: false,
+        entries: posted,
+        message: error?.message || 'Failed to post year-end vouchers',
+        messageTh: error?.messageTh || 'ไม่สามารถบันทึกรายการปิดบัญชีสิ้นปีได้',
+      };
+    }
+    docNos[key] = result.docNo;
+    lines.forEach(({ doc_no, ...e }, i) => posted.push({
+      ...e,
+      id: result.ids[i],
+      doc_no: result.docNo!,
+      reference_no: doc_no,
+      journal_type: 'JV',
+    }));
+  }
+
+  // A re-close keeps the last reopen details alongside the new vouchers
+  const record: FiscalYearClose = {
+    ...existing,
+    id: `${clientId}_FY${fiscalYear}`,
+    clientId,
+    fiscalYear,
+    periodStart: range.start,
+    periodEnd: range.end,
+    status: 'closed',
+    ...docNos,
+    netProfit: closing.netProfit,
+    closedAt: new Date().toISOString(),
+    closedBy: userId,
+  };
+  await databaseService.saveFiscalYearClose(record);
+
+  await auditHelpers.logPeriodAction(
+    'PERIOD_CLOSE',
+    userId,
+    request.userName || userId,
+    request.userRole || 'unknown',
+    `FY${fiscalYear}`,
+    clientId,
+    client?.name || clientId
+  );
+
+  return {
+    success: true,
+    record,
+    entries: posted,
+    message: `Fiscal year ${fiscalYear} closed`,
+    messageTh: `ปิดบัญชีปี ${fiscalYear} เรียบร้อย`,
+  };
+};
+
+// ============================================================================
+// REOPEN
+// ============================================================================
+
+/**
+ * Reopen a closed fiscal year by reversing its closing and opening vouchers
+ * Reversals are dated like the originals and keep their draft keys, so statements
+ * that skip closing/opening vouchers skip the reversals too
+ */
+export const reopenFiscalYear = async (request: FiscalYearRequest & { reason: string }): Promise<FiscalYearResult> => {
+  const { clientId, fiscalYear, userId } = request;
+  const reason = request.reason.trim();
+
+  if (!reason) {
+    return fail('A reason is required to reopen a fiscal year', 'กรุณาระบุเหตุผลในการเปิดปีบัญชี');
+  }
+
+  const record = await findRecord(clientId, fiscalYear);
+  if (!record || record.status !== 'closed') {
+    return fail(`Fiscal year ${fiscalYear} is not closed`, `ปีบัญชี ${fiscalYear} ยังไม่ได้ปิดบัญชี`);
+  }
+  if ((await findRecord(clientId, fiscalYear + 1))?.status === 'closed') {
+    return fail(
+      `Reopen fiscal year ${fiscalYear + 1} first`,
+      `กรุณาเปิดปีบัญชี ${fiscalYear + 1} ก่อน`
+    );
+  }
+
+  const posted: PostedGLEntry[] = [];
+  for (const docNo of [record.openingDocNo, record.closingDocNo]) {
+    if (!docNo) continue;
+
+    const original = (await databaseService.getGLEntriesByDocNo(clientId, docNo)).filter(e => !e.reversed_by);
+    if (original.length === 0) continue;
+
+    const date = original[0].date;
+    const entries = buildReversalEntries(original, date, reason)
+      .map((e, i) => ({ ...e, reference_no: original[i].reference_no }));
+    const result = await postVoucher({ clientId, journalType: 'JV', date, entries, userId, reverses: original.map(e => e.id) });
+    if (!result.success || !result.docNo) {
+      const error = result.validation.errors[0];
+      return {
+        success: false,
+        entries: posted,
+        message: error?.message || `Failed to reverse ${docNo}`,
+        messageTh: error?.messageTh || `ไม่สามารถกลับรายการ ${docNo} ได้`,
+      };
+    }
+
+    entries.forEach((e, i) => posted.push({ ...e, id: result.ids[i], doc_no: result.docNo!, journal_type: 'JV' }));
+  }
+
+  const reopened: FiscalYearClose = {
+    ...record,
+    status: 'reopened',
+    reopenedAt: new Date().toISOString(),
+    reopenedBy: userId,
+    reopenReason: reason,
+  };
+  await databaseService.saveFiscalYearClose(reopened);
+
+  const client = await databaseService.getClientById(clientId);
+  await auditHelpers.logPeriodAction(
+    'PERIOD_REOPEN',
+    userId,
+    request.userName || userId,
+    request.userRole || 'unknown',
+    `FY${fiscalYear}`,
+    clientId,
+    client?.name || clientId,
+    reason
+  );
+
+  return {
+    success: true,
+    record: reopened,
+    entries: posted,
+    message: `Fiscal year ${fiscalYear} reopened`,
+    messageTh: `เปิดปีบัญชี ${fiscalYear} เรียบร้อย`,
+  };
+};
+
+export const fiscalYearService = {
+  getFiscalYearEndMonth,
+  getFiscalYearRange,
+  getFiscalYearOf,
+  closeFiscalYear,
+  reopenFiscalYear,
+};
+
+export default fiscalYearService;
@@ -0,0 +1,350 @@
+/**
+ * fixedAssets.ts
+ *
+ * Fixed Asset Lifecycle
+ * ทะเบียนสินทรัพย์ถาวร: ค่าเสื่อมราคา การด้อยค่า การโอนย้าย และการจำหน่าย
+ *
+ * Every lifecycle event posts its own voucher through postDraftVouchers and
+ * then updates the asset record, so accumulated_depreciation_bf always
+ * matches what is on the accumulated depreciation account. Impairment losses
+ * are credited to the same accumulated account and tracked separately on the
+ * asset as accumulated_impairment.
+ */
+
+import { FixedAsset, FixedAssetEvent, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { ASSET_CATEGORY_ACCOUNTS, calculateDepreciation, CLOSING_ACCOUNTS, getDepreciationForPeriod } from './periodClosing';
+import { postDraftVouchers } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AssetActionResult {
+  success: boolean;
+  asset?: FixedAsset; // Updated asset
+  entries: PostedGLEntry[]; // Posted lines
+  errors: string[];
+}
+
+export interface DepreciationRunResult {
+  success: boolean;
+  entries: PostedGLEntry[];
+  assets: FixedAsset[]; // Assets depreciated in the run
+  totalDepreciation: number;
+  errors: string[];
+}
+
+export interface DisposalRequest {
+  asset: FixedAsset;
+  date: string; // YYYY-MM-DD
+  proceeds: number; // 0 for a write-off
+  userId: string;
+  receiptAccount?: string; // Defaults to cash at bank
+  note?: string;
+}
+
+export interface ImpairmentRequest {
+  asset: FixedAsset;
+  date: string;
+  amount: number; // Impairment loss
+  userId: string;
+  note?: string;
+}
+
+export interface TransferRequest {
+  asset: FixedAsset;
+  date: string;
+  toDepartment: string; // Branch / cost center code
+  userId: string;
+  note?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEPRECIATION_METHOD_NAMES: Record<NonNullable<FixedAsset['depreciation_method']>, string> = {
+  straight_line: 'เส้นตรง',
+  declining_balance: 'ยอดลดลง',
+  units_of_production: 'จำนวนผลผลิต',
+};
+
+const CASH_AT_BANK = '11200';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Carrying amount as booked: cost less accumulated depreciation and impairment
+ */
+export const getNetBookValue = (asset: FixedAsset): number =>
+  round2(asset.cost - asset.accumulated_depreciation_bf - (asset.accumulated_impairment || 0));
+
+const event = (type: FixedAssetEvent['type'], date: string, userId: string, fields: Partial<FixedAssetEvent>): FixedAssetEvent => ({
+  type,
+  date,
+  by: userId,
+  at: new Date().toISOString(),
+  ...fields,
+});
+
+const line = (
+  asset: FixedAsset,
+  docNo: string,
+  date: string,
+  suffix: string,
+  code: string,
+  description: string,
+  debit: number,
+  credit: number,
+  departmentCode = asset.department_code
+): PostedGLEntry => ({
+  id: `FA-${asset.id}-${suffix}`,
+  clientId: asset.clientId,
+  date,
+  doc_no: docNo,
+  description: `${description}: ${asset.name} (${asset.asset_code})`,
+  account_code: code,
+  account_name: description,
+  department_code: departmentCode,
+  debit: round2(debit),
+  credit: round2(credit),
+  system_generated: true,
+});
+
+/**
+ * Post one voucher and swap the draft doc_no for the issued number
+ */
+const post = async (
+  clientId: string,
+  draft: PostedGLEntry[],
+  userId: string
+): Promise<{ entries: PostedGLEntry[]; errors: string[] }> => {
+  const [result] = await postDraftVouchers(clientId, 'JV', draft, userId);
+  if (!result.success || !result.docNo) {
+    return { entries: [], errors: result.validation.errors.map(e => e.messageTh) };
+  }
+  return {
+    entries: draft.map(({ doc_no, ...e }, i) => ({
+      ...e,
+      id: result.ids[i],
+      doc_no: result.docNo!,
+      reference_no: doc_no,
+      journal_type: 'JV',
+    })),
+    errors: [],
+  };
+};
+
+const requireActive = (asset: FixedAsset): string | null =>
+  asset.status === 'disposed' ? `สินทรัพย์ ${asset.asset_code} จำหน่ายไปแล้ว` : null;
+
+// ============================================================================
+// DEPRECIATION
+// ============================================================================
+
+/**
+ * Post the month's depreciation voucher and advance each asset's booked balance
+ */
+export const postDepreciation = async (
+  clientId: string,
+  period: string,
+  userId: string
+): Promise<DepreciationRunResult> => {
+  const assets = (await databaseService.getAssetsByClient(clientId)).filter(a => a.clientId === clientId);
+  const { entries: draft, details, totalDepreciation } = calculateDepreciation(assets, clientId, period);
+  if (draft.length === 0) {
+    return { success: true, entries: [], assets: [], totalDepreciation: 0, errors: [] };
+  }
+
+  const { entries, errors } = await post(clientId, draft, userId);
+  if (errors.length > 0) {
+    return { success: false, entries: [], assets: [], totalDepreciation: 0, errors };
+  }
+
+  const updated: FixedAsset[] = [];
+  for (const { asset, monthly } of details) {
+    const next: FixedAsset = {
+      ...asset,
+      accumulated_depreciation_bf: round2(asset.accumulated_depreciation_bf + monthly),
+      current_month_depreciation: monthly,
+      depreciated_through: period,
+    };
+    await databaseService.updateAsset(next);
+    updated.push(next);
+  }
+
+  return { success: true, entries, assets: updated, totalDepreciation, errors: [] };
+};
+
+/**
+ * Record units produced in a month (units-of-production assets)
+ */
+export const recordUnits = async (asset: FixedAsset, period: string, units: number): Promise<FixedAsset> => {
+  if (asset.depreciation_method !== 'units_of_production') throw new Error('สินทรัพย์นี้ไม่ได้คิดค่าเสื่อมตามจำนวนผลผลิต');
+  if (!(units >= 0)) throw new Error('จำนวนหน่วยต้องไม่ติดลบ');
+
+  const updated: FixedAsset = { ...asset, units_by_period: { ...asset.units_by_period, [period]: units } };
+  await databaseService.updateAsset(updated);
+  return updated;
+};
+
+// ============================================================================
+// IMPAIRMENT
+// ============================================================================
+
+/**
+ * Write the asset down by an impairment loss (Dr impairment loss / Cr accumulated)
+ */
+export const impairAsset = async (request: ImpairmentRequest): Promise<AssetActionResult> => {
+  const { asset, date, userId } = request;
+  const amount = round2(request.amount);
+  const accumulatedAccount = ASSET_CATEGORY_ACCOUNTS[asset.category].accumulated;
+
+  const error = requireActive(asset)
+    || (!accumulatedAccount ? 'ที่ดินไม่มีบัญชีค่าเสื่อมราคาสะสมสำหรับบันทึกการด้อยค่า' : null)
+    || (!(amount > 0) ? 'จำนวนการด้อยค่าต้องมากกว่า 0' : null)
+    || (amount > getNetBookValue(asset) ? 'จำนวนการด้อยค่าเกินมูลค่าตามบัญชี' : null);
+  if (error) return { success: false, entries: [], errors: [error] };
+
+  const docNo = `JV-IMPAIR-${asset.asset_code}-${date}`;
+  const { entries, errors } = await post(asset.clientId, [
+    line(asset, docNo, date, 'IMP-DR', CLOSING_ACCOUNTS.IMPAIRMENT_LOSS, 'ขาดทุนจากการด้อยค่า', amount, 0),
+    line(asset, docNo, date, 'IMP-CR', accumulatedAccount!, 'ค่าเสื่อมราคาสะสม', 0, amount),
+  ], userId);
+  if (errors.length > 0) return { success: false, entries: [], errors };
+
+  const updated: FixedAsset = {
+    ...asset,
+    accumulated_impairment: round2((asset.accumulated_impairment || 0) + amount),
+    history: [...(asset.history || []), event('impairment', date, userId, { amount, doc_no: entries[0].doc_no, note: request.note })],
+  };
+  await databaseService.updateAsset(updated);
+  return { success: true, asset: updated, entries, errors: [] };
+};
+
+// ============================================================================
+// TRANSFER
+// ============================================================================
+
+/**
+ * Move an asset to another branch / cost center
+ * Cost and accumulated balances are moved between department codes so
+ * segment balance sheets follow the asset; later depreciation is charged
+ * to the new department.
+ */
+export const transferAsset = async (request: TransferRequest): Promise<AssetActionResult> => {
+  const { asset, date, toDepartment, userId } = request;
+  const from = asset.department_code;
+  const accounts = ASSET_CATEGORY_ACCOUNTS[asset.category];
+
+  const error = requireActive(asset)
+    || (!toDepartment ? 'กรุณาระบุสาขา/ศูนย์ต้นทุนปลายทาง' : null)
+    || (toDepartment === from ? 'สินทรัพย์อยู่ที่สาขา/ศูนย์ต้นทุนนี้แล้ว' : null);
+  if (error) return { success: false, entries: [], errors: [error] };
+
+  const docNo = `JV-XFER-${asset.asset_code}-${date}`;
+  const accumulated = round2(asset.accumulated_depreciation_bf + (asset.accumulated_impairment || 0));
+  const draft = [
+    line(asset, docNo, date, 'XFER-COST-DR', accounts.cost, 'โอนย้ายสินทรัพย์', asset.cost, 0, toDepartment),
+    line(asset, docNo, date, 'XFER-COST-CR', accounts.cost, 'โอนย้ายสินทรัพย์', 0, asset.cost, from),
+  ];
+  if (accounts.accumulated && accumulated > 0) {
+    draft.push(
+      line(asset, docNo, date, 'XFER-ACC-DR', accounts.accumulated, 'โอนย้ายค่าเสื่อมราคาสะสม', accumulated, 0, from),
+      line(asset, docNo, date, 'XFER-ACC-CR', accounts.accumulated, 'โอนย้ายค่าเสื่อมราคาสะสม', 0, accumulated, toDepartment),
+    );
+  }
+
+  const { entries, errors } = await post(asset.clientId, draft, userId);
+  if (errors.length > 0) return { success: false, entries: [], errors };
+
+  const updated: FixedAsset = {
+    ...asset,
+    department_code: toDepartment,
+    history: [...(asset.history || []), event('transfer', date, userId, { from, to: toDepartment, doc_no: entries[0].doc_no, note: request.note })],
+  };
+  await databaseService.updateAsset(updated);
+  return { success: true, asset: updated, entries, errors: [] };
+};
+
+// ============================================================================
+// DISPOSAL
+// ============================================================================
+
+/**
+ * Sell or write off an asset
+ * Depreciation is brought up to the disposal month in the same voucher, then
+ * cost and accumulated balances are cleared and the difference between the
+ * proceeds and the carrying amount goes to gain (42300) or loss (54400).
+ */
+export const disposeAsset = async (request: DisposalRequest): Promise<AssetActionResult> => {
+  const { asset, date, userId } = request;
+  const proceeds = round2(request.proceeds || 0);
+  const accounts = ASSET_CATEGORY_ACCOUNTS[asset.category];
+
+  const error = requireActive(asset)
+    || (!/^\d{4}-\d{2}-\d{2}$/.test(date) ? 'วันที่จำหน่ายไม่ถูกต้อง' : null)
+    || (date < asset.acquisition_date ? 'วันที่จำหน่ายต้องไม่ก่อนวันที่ได้มา' : null)
+    || (proceeds < 0 ? 'ราคาขายต้องไม่ติดลบ' : null);
+  if (error) return { success: false, entries: [], errors: [error] };
+
+  const period = date.slice(0, 7);
+  const catchUp = getDepreciationForPeriod({ ...asset, disposal_date: date }, period);
+  const accumulated = round2(asset.accumulated_depreciation_bf + catchUp + (asset.accumulated_impairment || 0));
+  const carrying = round2(asset.cost - accumulated);
+  const gainLoss = round2(proceeds - carrying);
+
+  const docNo = `JV-DISP-${asset.asset_code}`;
+  const draft: PostedGLEntry[] = [];
+  if (catchUp > 0) {
+    draft.push(
+      line(asset, docNo, date, 'DEP-DR', CLOSING_ACCOUNTS.DEPRE_EXPENSE, 'ค่าเสื่อมราคา', catchUp, 0),
+      line(asset, docNo, date, 'DEP-CR', accounts.accumulated!, 'ค่าเสื่อมราคาสะสม', 0, catchUp),
+    );
+  }
+  if (accounts.accumulated && accumulated > 0) {
+    draft.push(line(asset, docNo, date, 'ACC', accounts.accumulated, 'ค่าเสื่อมราคาสะสม', accumulated, 0));
+  }
+  if (proceeds > 0) {
+    draft.push(line(asset, docNo, date, 'PROCEEDS', request.receiptAccount || CASH_AT_BANK, 'รับเงินจากการขายสินทรัพย์', proceeds, 0));
+  }
+  draft.push(line(asset, docNo, date, 'COST', accounts.cost, 'ตัดจำหน่ายสินทรัพย์', 0, asset.cost));
+  if (gainLoss > 0) {
+    draft.push(line(asset, docNo, date, 'GAIN', CLOSING_ACCOUNTS.GAIN_ON_DISPOSAL, 'กำไรจากการจำหน่ายสินทรัพย์', 0, gainLoss));
+  } else if (gainLoss < 0) {
+    draft.push(line(asset, docNo, date, 'LOSS', CLOSING_ACCOUNTS.LOSS_ON_DISPOSAL, 'ขาดทุนจากการจำหน่ายสินทรัพย์', -gainLoss, 0));
+  }
+
+  const { entries, errors } = await post(asset.clientId, draft, userId);
+  if (errors.length > 0) return { success: false, entries: [], errors };
+
+  const updated: FixedAsset = {
+    ...asset,
+    accumulated_depreciation_bf: round2(asset.accumulated_depreciation_bf + catchUp),
+    current_month_depreciation: catchUp,
+    depreciated_through: catchUp > 0 ? period : asset.depreciated_through,
+    status: 'disposed',
+    disposal_date: date,
+    disposal_proceeds: proceeds,
+    disposal_gain_loss: gainLoss,
+    history: [...(asset.history || []), event('disposal', date, userId, { amount: proceeds, doc_no: entries[0].doc_no, note: request.note })],
+  };
+  await databaseService.updateAsset(updated);
+  return { success: true, asset: updated, entries, errors: [] };
+};
+
+export const fixedAssetService = {
+  getNetBookValue,
+  postDepreciation,
+  recordUnits,
+  impairAsset,
+  transferAsset,
+  disposeAsset,
+};
+
+export default fixedAssetService;
@@ -0,0 +1,359 @@
+/**
+ * foreignExchange.ts
+ *
+ * Multi-currency support
+ * อัตราแลกเปลี่ยน การแปลงค่าเงินตราต่างประเทศ และกำไร/ขาดทุนจากอัตราแลกเปลี่ยน
+ *
+ * GL debit/credit are always THB. Foreign-currency lines additionally carry
+ * currency, exchange_rate and foreign_debit/foreign_credit so open balances
+ * can be settled and revalued later.
+ */
+
+import { BankTransaction, DocumentRecord, ExchangeRate, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { parseCSV, parseThaiDate, parseAmount } from './bankFeed';
+import { postVoucher, VoucherPostingResult } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RateSide = 'buying' | 'selling' | 'mid';
+
+export interface RateImportResult {
+  rates: ExchangeRate[];
+  errors: string[];
+}
+
+export interface FXSettlementRequest {
+  clientId: string;
+  date: string;
+  currency: string;
+  foreignAmount: number;
+  bookedRate: number; // Rate the invoice was recorded at
+  settlementRate: number; // Rate on the payment / receipt date
+  side: 'receivable' | 'payable';
+  controlAccount: string; // AR or AP account being settled
+  bankAccount: string;
+  foreignBankAccount?: boolean; // FCD account: bank line keeps the foreign amount
+  sourceDocId?: string; // Document being settled; tags the lines so partial settlements add up
+  description: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BASE_CURRENCY = 'THB';
+
+export const FX_ACCOUNTS = {
+  GAIN: '42400', // กำไรจากอัตราแลกเปลี่ยน
+  LOSS: '54300', // ขาดทุนจากอัตราแลกเปลี่ยน
+};
+
+export const isForeignCurrency = (currency?: string): currency is string =>
+  !!currency && currency.trim().toUpperCase() !== BASE_CURRENCY;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// ============================================================================
+// RATE TABLE
+// ============================================================================
+
+const findColumn = (header: string[], patterns: RegExp[]): number => {
+  for (const pattern of patterns) {
+    const index = header.findIndex(h => pattern.test(h));
+    if (index >= 0) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parse a daily rate CSV in Bank of Thailand layout
+ * Expected columns (Thai or English headers): date, currency, buying transfer, selling, mid
+ */
+export const parseExchangeRateCSV = (content: string, source: ExchangeRate['source'] = 'BOT'): RateImportResult => {
+  const rows = parseCSV(content);
+  const errors: string[] = [];
+  const rates: ExchangeRate[] = [];
+
+  const headerIndex = rows.findIndex(r => r.some(c => /currency|สกุลเงิน/i.test(c)));
+  if (headerIndex < 0) {
+    return { rates, errors: ['ไม่พบหัวตาราง (Currency) ในไฟล์อัตราแลกเปลี่ยน'] };
+  }
+
+  const header = rows[headerIndex];
+  const col = {
+    date: findColumn(header, [/date|period|วันที่/i]),
+    currency: findColumn(header, [/currency|สกุลเงิน/i]),
+    buying: findColumn(header, [/buying.*transfer|buying.*tt|ซื้อ.*โอน/i, /buying|อัตราซื้อ/i]),
+    selling: findColumn(header, [/selling|อัตราขาย/i]),
+    mid: findColumn(header, [/mid|average|ถัวเฉลี่ย|กลาง/i]),
+  };
+
+  if (col.date < 0 || (col.buying < 0 && col.mid < 0)) {
+    return { rates, errors: ['ไฟล์ต้องมีคอลัมน์วันที่และอัตราซื้อหรืออัตรากลาง'] };
+  }
+
+  const importedAt = new Date().toISOString();
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const line = headerIndex + i + 2;
+    const rawDate = row[col.date] || '';
+    const date = /^\d{4}-\d{2}-\d{2}/.test(rawDate) ? rawDate.slice(0, 10) : parseThaiDate(rawDate);
+    const currency = (row[col.currency] || '').toUpperCase().match(/[A-Z]{3}/)?.[0];
+
+    const mid = col.mid >= 0 ? parseAmount(row[col.mid]) : 0;
+    const buying = col.buying >= 0 ? parseAmount(row[col.buying]) : mid;
+    const selling = col.selling >= 0 ? parseAmount(row[col.selling]) : mid;
+
+    if (!date || !currency) {
+      errors.push(`แถว ${line}: วันที่หรือสกุลเงินไม่ถูกต้อง`);
+      return;
+    }
+    if (buying <= 0 && selling <= 0 && mid <= 0) {
+      errors.push(`แถว ${line}: ไม่มีอัตราแลกเปลี่ยน`);
+      return;
+    }
+
+    rates.push({
+      id: `${currency}_${date}`,
+      currency,
+      date,
+      buying: buying || mid || selling,
+      selling: selling || mid || buying,
+      mid: mid || Math.round(((buying || selling) + (selling || buying)) / 2 * 10000) / 10000,
+      source,
+      importedAt,
+    });
+  });
+
+  return { rates, errors };
+};
+
+/**
+ * Parse and store a rate CSV
+ */
+export const importExchangeRates = async (
+  content: string,
+  source: ExchangeRate['source'] = 'BOT'
+): Promise<RateImportResult> => {
+  const result = parseExchangeRateCSV(content, source);
+  if (result.rates.length > 0) {
+    await databaseService.saveExchangeRates(result.rates);
+  }
+  return result;
+};
+
+/**
+ * Latest published rate on or before a date (rates are not published on holidays)
+ */
+export const getRateForDate = async (currency: string, date: string): Promise<ExchangeRate | null> => {
+  const rates = await databaseService.getExchangeRates(currency.toUpperCase());
+  return rates.find(r => r.date <= date) || null;
+};
+
+/**
+ * Rate for one side of the table on a date, or null when no rate has been imported
+ * Receivables / revenue use the buying rate, payables / expenses the selling rate
+ */
+export const getTransactionRate = async (currency: string, date: string, side: RateSide): Promise<number | null> => {
+  const rate = await getRateForDate(currency, date);
+  return rate ? rate[side] : null;
+};
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Convert journal lines stated in a foreign currency to THB
+ * Keeps the foreign amounts on each line and pushes any rounding difference
+ * onto the largest line so the THB voucher still balances
+ */
+export const applyExchangeRate = <T extends Pick<PostedGLEntry, 'debit' | 'credit'>>(
+  entries: T[],
+  currency: string,
+  rate: number
+): (T & Pick<PostedGLEntry, 'currency' | 'exchange_rate' | 'foreign_debit' | 'foreign_credit'>)[] => {
+  const converted = entries.map(e => ({
+    ...e,
+    currency: currency.toUpperCase(),
+    exchange_rate: rate,
+    foreign_debit: e.debit,
+    foreign_credit: e.credit,
+    debit: round2(e.debit * rate),
+    credit: round2(e.credit * rate),
+  }));
+
+  const difference = round2(
+    converted.reduce((sum, e) => sum + e.debit, 0) - converted.reduce((sum, e) => sum + e.credit, 0)
+  );
+  if (difference !== 0) {
+    const side = difference > 0 ? 'debit' : 'credit';
+    const largest = converted.reduce((max, e) => (e[side] > max[side] ? e : max), converted[0]);
+    largest[side] = round2(largest[side] - Math.abs(difference));
+  }
+
+  return converted;
+};
+
+// ============================================================================
+// REALIZED FX ON SETTLEMENT
+// ============================================================================
+
+/**
+ * Realized gain (positive) or loss (negative) when a foreign balance is settled
+ */
+export const calculateRealizedFX = (
+  foreignAmount: number,
+  bookedRate: number,
+  settlementRate: number,
+  side: 'receivable' | 'payable'
+): number => {
+  const difference = foreignAmount * (settlementRate - bookedRate);
+  return round2(side === 'receivable' ? difference : -difference);
+};
+
+/**
+ * Build the settlement voucher lines for a foreign AR receipt or AP payment
+ * AR: Dr Bank (settlement rate) / Cr AR (booked rate); AP: Dr AP (booked) / Cr Bank (settlement)
+ * The difference goes to FX gain 42400 or FX loss 54300
+ */
+export const buildSettlementEntries = (request: FXSettlementRequest): Omit<PostedGLEntry, 'id' | 'doc_no'>[] => {
+  const { clientId, date, foreignAmount, bookedRate, settlementRate, side, description } = request;
+  const currency = request.currency.toUpperCase();
+  const bookedTHB = round2(foreignAmount * bookedRate);
+  const settledTHB = round2(foreignAmount * settlementRate);
+  const fx = round2(side === 'receivable' ? settledTHB - bookedTHB : bookedTHB - settledTHB);
+  const isReceivable = side === 'receivable';
+
+  const base = { clientId, date, description, ...(request.sourceDocId ? { source_doc_id: request.sourceDocId } : {}) };
+  const entries: Omit<PostedGLEntry, 'id' | 'doc_no'>[] = [
+    {
+      ...base,
+      account_code: request.bankAccount,
+      account_name: 'เงินฝากธนาคาร',
+      debit: isReceivable ? settledTHB : 0,
+      credit: isReceivable ? 0 : settledTHB,
+      ...(request.foreignBankAccount ? {
+        currency,
+        exchange_rate: settlementRate,
+        foreign_debit: isReceivable ? foreignAmount : 0,
+        foreign_credit: isReceivable ? 0 : foreignAmount,
+      } : {}),
+    },
+    {
+      ...base,
+      account_code: request.controlAccount,
+      account_name: isReceivable ? 'ลูกหนี้การค้า' : 'เจ้าหนี้การค้า',
+      debit: isReceivable ? 0 : bookedTHB,
+      credit: isReceivable ? bookedTHB : 0,
+      currency,
+      exchange_rate: bookedRate,
+      foreign_debit: isReceivable ? 0 : foreignAmount,
+      foreign_credit: isReceivable ? foreignAmount : 0,
+    },
+  ];
+
+  if (fx > 0) {
+    entries.push({ ...base, account_code: FX_ACCOUNTS.GAIN, account_name: 'กำไรจากอัตราแลกเปลี่ยน', debit: 0, credit: fx });
+  } else if (fx < 0) {
+    entries.push({ ...base, account_code: FX_ACCOUNTS.LOSS, account_name: 'ขาดทุนจากอัตราแลกเปลี่ยน', debit: -fx, credit: 0 });
+  }
+
+  return entries;
+};
+
+/**
+ * Whether a document is settled through buildBankMatchSettlement
+ */
+export const isForeignSettlementDocument = (doc: DocumentRecord): boolean =>
+  isForeignCurrency(doc.currency) && !!doc.foreign_amount && !!doc.exchange_rate;
+
+/**
+ * Foreign amount of a document still open, net of earlier settlement vouchers
+ */
+export const getOutstandingForeignAmount = (
+  doc: DocumentRecord,
+  side: 'receivable' | 'payable',
+  glEntries: PostedGLEntry[]
+): number => {
+  const controlAccount = side === 'receivable' ? '11300' : '21200';
+  const settled = glEntries
+    .filter(e => e.source_doc_id === doc.id && e.account_code === controlAccount)
+    .reduce((sum, e) => sum + (side === 'receivable' ? (e.foreign_credit || 0) : (e.foreign_debit || 0)), 0);
+  return round2(Math.max(0, (doc.foreign_amount || 0) - settled));
+};
+
+/**
+ * Settlement request for a bank line matched to a foreign-currency document
+ * The bank line may settle part of the document: the foreign amount settled is
+ * the THB received or paid at the day's rate (from the rate table or the
+ * caller), capped at what is still outstanding. The settlement rate is then
+ * implied by the THB that reached the bank, so the bank line agrees with the
+ * statement. Returns null for THB documents, which settle at book value, and
+ * for documents already settled in full.
+ */
+export const buildBankMatchSettlement = (
+  txn: BankTransaction,
+  doc: DocumentRecord,
+  rate: number,
+  glEntries: PostedGLEntry[] = [],
+  bankAccount: string = '11200'
+): FXSettlementRequest | null => {
+  if (!isForeignSettlementDocument(doc) || !(rate > 0)) return null;
+
+  const side = txn.amount > 0 ? 'receivable' : 'payable';
+  const outstanding = getOutstandingForeignAmount(doc, side, glEntries);
+  const foreignAmount = round2(Math.min(outstanding, Math.abs(txn.amount) / rate));
+  if (foreignAmount <= 0) return null;
+
+  const invNumber = doc.ai_data?.header_data?.inv_number || doc.filename;
+  return {
+    clientId: txn.clientId,
+    date: txn.date,
+    currency: doc.currency!,
+    foreignAmount,
+    bookedRate: doc.exchange_rate!,
+    settlementRate: Math.abs(txn.amount) / foreignAmount,
+    side,
+    controlAccount: side === 'receivable' ? '11300' : '21200',
+    bankAccount,
+    sourceDocId: doc.id,
+    description: `${side === 'receivable' ? 'รับชำระ' : 'จ่ายชำระ'} ${invNumber} (${doc.currency!.toUpperCase()})`,
+  };
+};
+
+/**
+ * Post a foreign AR receipt (RV) or AP payment (PV) with its realized FX line
+ */
+export const postFXSettlement = async (
+  request: FXSettlementRequest,
+  userId: string
+): Promise<VoucherPostingResult> =>
+  postVoucher({
+    clientId: request.clientId,
+    journalType: request.side === 'receivable' ? 'RV' : 'PV',
+    date: request.date,
+    entries: buildSettlementEntries(request),
+    userId,
+  });
+
+export const foreignExchangeService = {
+  BASE_CURRENCY,
+  FX_ACCOUNTS,
+  isForeignCurrency,
+  parseExchangeRateCSV,
+  importExchangeRates,
+  getRateForDate,
+  getTransactionRate,
+  applyExchangeRate,
+  calculateRealizedFX,
+  buildSettlementEntries,
+  isForeignSettlementDocument,
+  getOutstandingForeignAmount,
+  buildBankMatchSettlement,
+  postFXSettlement,
+};
+
+export default foreignExchangeService;
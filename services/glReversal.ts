@@ -0,0 +1,212 @@
+/**
+ * glReversal.ts
+ *
+ * GL Reversal & Correction Journals
+ * กลับรายการบัญชีแทนการแก้ไข/ลบรายการที่บันทึกแล้ว
+ *
+ * Posted GL entries are immutable. A correction is made by posting a mirrored
+ * voucher (debits and credits swapped) dated in the client's open period,
+ * then posting the corrected entry as a new voucher. Original and reversal
+ * are linked both ways so auditors can trace every change.
+ */
+
+import { Client, PostedGLEntry } from '../types';
+import { databaseService } from './database';
+import { ValidationResult } from './accountingValidation';
+import { resolveAccountCode } from './chartOfAccounts';
+import { auditHelpers } from './auditTrail';
+import { postVoucher } from './voucherNumbering';
+import { isPeriodLocked } from './periodLock';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GLReversalRequest {
+  clientId: string;
+  docNo: string; // doc_no of the posted voucher to reverse
+  reason: string;
+  userId: string;
+  userName?: string;
+  userRole?: string;
+  date?: string; // YYYY-MM-DD, must fall in the open period (defaults to today / start of open period)
+}
+
+export interface GLReversalResult {
+  success: boolean;
+  reversalDocNo?: string;
+  entries: PostedGLEntry[];
+  validation: ValidationResult;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const reject = (code: string, message: string, messageTh: string): GLReversalResult => ({
+  success: false,
+  entries: [],
+  validation: {
+    isValid: false,
+    errors: [{ code, message, messageTh, severity: 'error' }],
+    warnings: [],
+  },
+});
+
+const nextPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Pick the posting date for a reversal
+ * Without a workflow month, a date in a period locked through period_locks
+ * rolls forward to the first day of the next open period.
+ * Returns null when the requested date falls outside the open period
+ */
+export const getReversalDate = async (
+  clientId: string,
+  client: Client | null,
+  requestedDate?: string
+): Promise<string | null> => {
+  const today = new Date().toISOString().split('T')[0];
+  const workflow = client?.current_workflow;
+
+  if (!workflow) {
+    let date = requestedDate || today;
+    while (await isPeriodLocked(clientId, date.slice(0, 7))) {
+      date = `${nextPeriod(date.slice(0, 7))}-01`;
+    }
+    return date;
+  }
+  if (workflow.is_locked || await isPeriodLocked(clientId, workflow.month)) return null;
+
+  if (requestedDate) {
+    return requestedDate.slice(0, 7) === workflow.month ? requestedDate : null;
+  }
+  return today.slice(0, 7) === workflow.month ? today : `${workflow.month}-01`;
+};
+
+/**
+ * Build the mirrored entries for a posted voucher
+ * The reversal's own doc_no is drawn from the JV sequence at posting time
+ */
+export const buildReversalEntries = (
+  original: PostedGLEntry[],
+  date: string,
+  reason: string
+): Omit<PostedGLEntry, 'id' | 'doc_no'>[] => {
+  const [year, month] = date.split('-');
+  return original.map(e => ({
+    clientId: e.clientId,
+    date,
+    description: `กลับรายการ ${e.doc_no}: ${reason}`,
+    // Entries posted to an account that was later merged reverse against the surviving account
+    account_code: resolveAccountCode(e.account_code, e.clientId),
+    account_name: e.account_name,
+    ...(e.department_code ? { department_code: e.department_code } : {}),
+    ...(e.branch_code ? { branch_code: e.branch_code } : {}),
+    debit: e.credit,
+    credit: e.debit,
+    ...(e.currency ? {
+      currency: e.currency,
+      exchange_rate: e.exchange_rate,
+      foreign_debit: e.foreign_credit || 0,
+      foreign_credit: e.foreign_debit || 0,
+    } : {}),
+    system_generated: true,
+    year: Number(year),
+    month,
+    period: `${year}-${month}`,
+    ...(e.source_doc_id ? { source_doc_id: e.source_doc_id } : {}),
+    reversal_of: e.doc_no,
+  }));
+};
+
+// ============================================================================
+// REVERSAL
+// ============================================================================
+
+/**
+ * Reverse a posted voucher by doc_no
+ */
+export const reverseGLEntries = async (request: GLReversalRequest): Promise<GLReversalResult> => {
+  const { clientId, docNo, reason, userId } = request;
+
+  if (!reason.trim()) {
+    return reject('REVERSAL_REASON_REQUIRED', 'A reason is required to reverse a voucher', 'กรุณาระบุเหตุผลในการกลับรายการ');
+  }
+
+  const original = await databaseService.getGLEntriesByDocNo(clientId, docNo);
+  if (original.length === 0) {
+    return reject('GL_DOC_NOT_FOUND', `Voucher ${docNo} not found`, `ไม่พบเอกสาร ${docNo}`);
+  }
+  if (original.some(e => e.reversed_by)) {
+    return reject(
+      'GL_ALREADY_REVERSED',
+      `Voucher ${docNo} was already reversed by ${original.find(e => e.reversed_by)?.reversed_by}`,
+      `เอกสาร ${docNo} ถูกกลับรายการแล้ว`
+    );
+  }
+  if (original.some(e => e.reversal_of)) {
+    return reject(
+      'GL_REVERSAL_OF_REVERSAL',
+      `Voucher ${docNo} is itself a reversal; post a new entry instead`,
+      `เอกสาร ${docNo} เป็นรายการกลับบัญชี กรุณาบันทึกรายการใหม่แทน`
+    );
+  }
+
+  const client = await databaseService.getClientById(clientId);
+  const date = await getReversalDate(clientId, client, request.date);
+  if (!date) {
+    return reject(
+      'PERIOD_LOCKED',
+      'Reversal date must fall in the open period',
+      'วันที่กลับรายการต้องอยู่ในงวดบัญชีที่ยังเปิดอยู่'
+    );
+  }
+
+  const entries = buildReversalEntries(original, date, reason.trim());
+
+  // The reversed_by check is repeated inside the posting transaction, so two
+  // concurrent reversals cannot both succeed
+  const posted = await postVoucher({
+    clientId,
+    journalType: 'JV',
+    date,
+    entries,
+    userId,
+    reverses: original.map(e => e.id),
+  });
+  if (!posted.success || !posted.docNo) {
+    return { success: false, entries: [], validation: posted.validation };
+  }
+
+  const reversalDocNo = posted.docNo;
+
+  await auditHelpers.logGLReverse(
+    userId,
+    request.userName || userId,
+    request.userRole || 'unknown',
+    docNo,
+    reversalDocNo,
+    reason.trim(),
+    clientId,
+    client?.name || clientId
+  );
+
+  return {
+    success: true,
+    reversalDocNo,
+    entries: entries.map((e, i) => ({ ...e, id: posted.ids[i], doc_no: reversalDocNo, journal_type: 'JV' as const })),
+    validation: posted.validation,
+  };
+};
+
+export const glReversalService = {
+  getReversalDate,
+  buildReversalEntries,
+  reverseGLEntries,
+};
+
+export default glReversalService;
@@ -0,0 +1,649 @@
+/**
+ * inventory.ts
+ *
+ * Inventory Subledger & Cost of Goods Sold
+ * ทะเบียนสินค้าคงเหลือและต้นทุนขาย
+ *
+ * Each item is costed FIFO or moving weighted average by replaying its stock
+ * movements in date order. Receipts come from purchase documents, whose GL
+ * the document posting already carries; issues come from e-commerce orders
+ * and POS sales. Perpetual clients post Dr COGS / Cr Inventory as sales are
+ * recorded and the month-end count only books the shrinkage. Periodic
+ * clients record quantities only, and the count moves the inventory account
+ * to the counted value with the difference taken to COGS.
+ */
+
+import {
+  InventoryCostingMethod,
+  InventoryItem,
+  InventorySystem,
+  PostedGLEntry,
+  StockMovement,
+  StockMovementSource,
+  DocumentRecord,
+} from '../types';
+import { PlatformOrder } from './ecommercePlatforms';
+import { databaseService } from './database';
+import { postDraftVouchers } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ItemInput = Pick<InventoryItem, 'sku' | 'name' | 'unit' | 'costingMethod' | 'inventoryAccountCode' | 'cogsAccountCode'>;
+
+export interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+export interface StockBalance {
+  itemId: string;
+  quantity: number;
+  value: number;
+  unitCost: number; // Average cost of what is on hand
+  layers: CostLayer[]; // Oldest first; a single layer under weighted average
+}
+
+export interface ReceiptInput {
+  itemId: string;
+  date: string;
+  quantity: number;
+  unitCost: number;
+  type?: 'opening' | 'purchase';
+  source?: StockMovementSource;
+  sourceRef?: string;
+}
+
+export interface SaleInput {
+  itemId: string;
+  date: string;
+  quantity: number;
+  source: StockMovementSource;
+  sourceRef?: string;
+}
+
+export interface DocumentReceiptLine {
+  itemId: string;
+  quantity: number;
+  amount?: number; // Lines without an amount share what is left of the document's net amount
+}
+
+export interface StockCountLine {
+  item: InventoryItem;
+  bookQuantity: number;
+  countedQuantity: number;
+  varianceQuantity: number;
+  bookValue: number;
+  countedValue: number;
+}
+
+export interface InventoryPostingResult {
+  success: boolean;
+  movements: StockMovement[]; // Saved movements
+  entries: PostedGLEntry[]; // Posted lines
+  errors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const INVENTORY_ACCOUNTS = {
+  INVENTORY: '11400',
+  COGS: '51100',
+};
+
+export const COSTING_METHOD_NAMES: Record<InventoryCostingMethod, string> = {
+  fifo: 'เข้าก่อนออกก่อน (FIFO)',
+  weighted_average: 'ถัวเฉลี่ยถ่วงน้ำหนัก',
+};
+
+export const INVENTORY_SYSTEM_NAMES: Record<InventorySystem, string> = {
+  perpetual: 'ต่อเนื่อง (Perpetual)',
+  periodic: 'สิ้นงวด (Periodic)',
+};
+
+// Orders that have left the warehouse
+const SHIPPED_ORDER_STATUSES: PlatformOrder['status'][] = ['paid', 'shipping', 'delivered', 'completed'];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const periodEndDate = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+};
+
+// ============================================================================
+// COSTING
+// ============================================================================
+
+const layersValue = (layers: CostLayer[]) => round2(layers.reduce((sum, l) => sum + l.quantity * l.unitCost, 0));
+
+/**
+ * Take quantity out of the layers, oldest first
+ * Anything issued beyond what is on hand is costed at the last known cost.
+ */
+const issueFromLayers = (layers: CostLayer[], quantity: number, lastUnitCost: number): { cost: number; layers: CostLayer[] } => {
+  const left = layers.map(l => ({ ...l }));
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > 0 && left.length > 0) {
+    const take = Math.min(left[0].quantity, remaining);
+    cost += take * left[0].unitCost;
+    left[0].quantity -= take;
+    remaining -= take;
+    if (left[0].quantity <= 0) left.shift();
+  }
+  cost += remaining * lastUnitCost;
+
+  return { cost: round2(cost), layers: left };
+};
+
+const receiveIntoLayers = (method: InventoryCostingMethod, layers: CostLayer[], quantity: number, unitCost: number): CostLayer[] => {
+  if (method === 'fifo') return [...layers, { quantity, unitCost }];
+
+  const onHand = layers.reduce((sum, l) => sum + l.quantity, 0) + quantity;
+  const value = layers.reduce((sum, l) => sum + l.quantity * l.unitCost, 0) + quantity * unitCost;
+  return onHand > 0 ? [{ quantity: onHand, unitCost: value / onHand }] : [];
+};
+
+/**
+ * Replay an item's movements up to asOf (YYYY-MM-DD) into its cost layers
+ */
+const replay = (item: InventoryItem, movements: StockMovement[], asOf?: string) => {
+  let layers: CostLayer[] = [];
+  let lastUnitCost = 0;
+
+  movements
+    .filter(m => m.itemId === item.id && (!asOf || m.date <= asOf))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    .forEach(m => {
+      if (m.quantity > 0) {
+        layers = receiveIntoLayers(item.costingMethod, layers, m.quantity, m.unitCost);
+        lastUnitCost = m.unitCost;
+      } else if (m.quantity < 0) {
+        layers = issueFromLayers(layers, -m.quantity, lastUnitCost).layers;
+      }
+    });
+
+  return { layers, lastUnitCost };
+};
+
+/**
+ * Quantity and value on hand at the end of asOf (all movements when omitted)
+ */
+export const getStockBalance = (item: InventoryItem, movements: StockMovement[], asOf?: string): StockBalance => {
+  const { layers } = replay(item, movements, asOf);
+  const quantity = layers.reduce((sum, l) => sum + l.quantity, 0);
+  const value = layersValue(layers);
+  return { itemId: item.id, quantity, value, unitCost: quantity > 0 ? round2(value / quantity) : 0, layers };
+};
+
+/**
+ * Cost of issuing quantity on date, given the movements recorded so far
+ */
+export const costIssue = (
+  item: InventoryItem,
+  movements: StockMovement[],
+  quantity: number,
+  date: string
+): { totalCost: number; unitCost: number; available: number } => {
+  const { layers, lastUnitCost } = replay(item, movements, date);
+  const { cost } = issueFromLayers(layers, quantity, lastUnitCost);
+  return {
+    totalCost: cost,
+    unitCost: quantity > 0 ? round2(cost / quantity) : 0,
+    available: layers.reduce((sum, l) => sum + l.quantity, 0),
+  };
+};
+
+// ============================================================================
+// ITEM MASTER
+// ============================================================================
+
+/**
+ * Register an item; SKUs are unique per client
+ */
+export const createItem = async (clientId: string, input: ItemInput, userId: string): Promise<InventoryItem> => {
+  const sku = input.sku.trim();
+  if (!sku) throw new Error('กรุณาระบุรหัสสินค้า (SKU)');
+  if (!input.name.trim()) throw new Error('กรุณาระบุชื่อสินค้า');
+
+  const existing = await databaseService.getInventoryItems(clientId);
+  if (existing.some(i => i.sku.toLowerCase() === sku.toLowerCase())) {
+    throw new Error(`รหัสสินค้า ${sku} มีอยู่แล้ว`);
+  }
+
+  const item: InventoryItem = {
+    ...input,
+    id: `INV-${clientId}-${Date.now()}`,
+    clientId,
+    sku,
+    name: input.name.trim(),
+    inventoryAccountCode: input.inventoryAccountCode || INVENTORY_ACCOUNTS.INVENTORY,
+    cogsAccountCode: input.cogsAccountCode || INVENTORY_ACCOUNTS.COGS,
+    isActive: true,
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+  };
+  await databaseService.saveInventoryItem(item);
+  return item;
+};
+
+/**
+ * Edit an item; the costing method is fixed once stock has moved
+ */
+export const updateItem = async (item: InventoryItem, changes: Partial<ItemInput> & { isActive?: boolean }): Promise<InventoryItem> => {
+  if (changes.costingMethod && changes.costingMethod !== item.costingMethod) {
+    const movements = await databaseService.getStockMovements(item.clientId);
+    if (movements.some(m => m.itemId === item.id)) {
+      throw new Error('เปลี่ยนวิธีคำนวณต้นทุนไม่ได้เมื่อมีการเคลื่อนไหวแล้ว');
+    }
+  }
+
+  const updated: InventoryItem = { ...item, ...changes, updatedAt: new Date().toISOString() };
+  await databaseService.saveInventoryItem(updated);
+  return updated;
+};
+
+// ============================================================================
+// RECEIPTS
+// ============================================================================
+
+const newMovement = (
+  clientId: string,
+  userId: string,
+  fields: Omit<StockMovement, 'id' | 'clientId' | 'createdAt' | 'createdBy'>,
+  index: number
+): StockMovement => ({
+  ...fields,
+  id: `STK-${clientId}-${Date.now()}-${index}`,
+  clientId,
+  createdAt: new Date(Date.now() + index).toISOString(),
+  createdBy: userId,
+});
+
+/**
+ * Record stock received; the purchase itself is posted with its document
+ */
+export const recordReceipts = async (clientId: string, receipts: ReceiptInput[], userId: string): Promise<StockMovement[]> => {
+  const items = await databaseService.getInventoryItems(clientId);
+  const movements = receipts.map((r, i) => {
+    const item = items.find(it => it.id === r.itemId);
+    if (!item) throw new Error('ไม่พบรายการสินค้า');
+    if (!(r.quantity > 0)) throw new Error(`จำนวนรับ ${item.sku} ต้องมากกว่า 0`);
+    if (!(r.unitCost >= 0)) throw new Error(`ต้นทุนต่อหน่วย ${item.sku} ไม่ถูกต้อง`);
+
+    return newMovement(clientId, userId, {
+      itemId: item.id,
+      date: r.date,
+      type: r.type || 'purchase',
+      quantity: r.quantity,
+      unitCost: r.unitCost,
+      totalCost: round2(r.quantity * r.unitCost),
+      source: r.source || 'manual',
+      ...(r.sourceRef && { sourceRef: r.sourceRef }),
+    }, i);
+  });
+
+  await databaseService.addStockMovements(movements);
+  return movements;
+};
+
+/**
+ * Receipts for the items on a purchase document
+ * The document's net amount before VAT is the cost; lines without an amount
+ * share what the others leave, by quantity, and the last takes the rounding.
+ */
+export const receiptsFromDocument = (doc: DocumentRecord, lines: DocumentReceiptLine[]): ReceiptInput[] => {
+  const financials = doc.ai_data?.financials;
+  const netAmount = financials ? round2(financials.subtotal - (financials.discount || 0)) : 0;
+  const date = doc.ai_data?.header_data.issue_date || doc.uploaded_at.slice(0, 10);
+
+  const fixed = lines.reduce((sum, l) => sum + (l.amount || 0), 0);
+  const open = lines.filter(l => l.amount === undefined);
+  const openQuantity = open.reduce((sum, l) => sum + l.quantity, 0);
+  let toShare = round2(netAmount - fixed);
+
+  return lines.map(line => {
+    let amount = line.amount;
+    if (amount === undefined) {
+      amount = line === open[open.length - 1] ? toShare : round2((netAmount - fixed) * line.quantity / openQuantity);
+      toShare = round2(toShare - amount);
+    }
+    return {
+      itemId: line.itemId,
+      date,
+      quantity: line.quantity,
+      unitCost: line.quantity > 0 ? amount / line.quantity : 0,
+      source: 'document',
+      sourceRef: doc.id,
+    };
+  });
+};
+
+// ============================================================================
+// SALES & COGS
+// ============================================================================
+
+/**
+ * Stock issues for shipped platform orders, matched to the item master by SKU
+ */
+export const salesFromPlatformOrders = (
+  orders: PlatformOrder[],
+  items: InventoryItem[]
+): { sales: SaleInput[]; unmatchedSkus: string[] } => {
+  const sales: SaleInput[] = [];
+  const unmatched = new Set<string>();
+
+  orders
+    .filter(o => SHIPPED_ORDER_STATUSES.includes(o.status))
+    .forEach(order => {
+      order.items.forEach(line => {
+        const item = items.find(i => i.isActive && i.sku.toLowerCase() === line.sku.toLowerCase());
+        if (!item) {
+          unmatched.add(line.sku);
+          return;
+        }
+        sales.push({
+          itemId: item.id,
+          date: order.orderDate.slice(0, 10),
+          quantity: line.quantity,
+          source: 'platform_order',
+          sourceRef: `${order.platform}:${order.orderNumber}`,
+        });
+      });
+    });
+
+  return { sales, unmatchedSkus: [...unmatched] };
+};
+
+/**
+ * Dr COGS / Cr Inventory per account pair, one draft voucher per month
+ */
+export const buildCOGSEntries = (
+  movements: StockMovement[],
+  items: InventoryItem[],
+  clientId: string
+): PostedGLEntry[] => {
+  const groups = new Map<string, { month: string; cogs: string; inventory: string; amount: number }>();
+  const lastDate = new Map<string, string>(); // Each month's voucher is dated on its last movement
+
+  movements.forEach(m => {
+    const item = items.find(i => i.id === m.itemId);
+    if (!item || m.totalCost === 0) return;
+    const month = m.date.slice(0, 7);
+    const key = `${month}|${item.cogsAccountCode}|${item.inventoryAccountCode}`;
+    const group = groups.get(key) || { month, cogs: item.cogsAccountCode, inventory: item.inventoryAccountCode, amount: 0 };
+    group.amount = round2(group.amount - m.totalCost);
+    groups.set(key, group);
+    if (m.date > (lastDate.get(month) || '')) lastDate.set(month, m.date);
+  });
+
+  return [...groups.values()].flatMap((g, i) => {
+    const line = (side: 'DR' | 'CR', code: string, name: string, debit: number, credit: number): PostedGLEntry => ({
+      id: `COGS-${g.month}-${i}-${side}`,
+      clientId,
+      date: lastDate.get(g.month)!,
+      doc_no: `JV-COGS-${g.month}`,
+      description: `ต้นทุนขายประจำเดือน ${g.month}`,
+      account_code: code,
+      account_name: name,
+      debit,
+      credit,
+      system_generated: true,
+    });
+    // A negative amount is a net return to stock
+    return g.amount >= 0
+      ? [line('DR', g.cogs, 'ต้นทุนขาย', g.amount, 0), line('CR', g.inventory, 'สินค้าคงเหลือ', 0, g.amount)]
+      : [line('DR', g.inventory, 'สินค้าคงเหลือ', -g.amount, 0), line('CR', g.cogs, 'ต้นทุนขาย', 0, -g.amount)];
+  });
+};
+
+const toPosted = (draft: PostedGLEntry[], result: { ids: string[]; docNo?: string }): PostedGLEntry[] =>
+  draft.map(({ doc_no, ...e }, i) => ({
+    ...e,
+    id: result.ids[i],
+    doc_no: result.docNo!,
+    reference_no: doc_no,
+    journal_type: 'JV',
+  }));
+
+/**
+ * Cost and record sales; perpetual clients also post COGS
+ * Sales already recorded for the same item and reference are skipped, so
+ * re-importing an order range is safe. Nothing is saved if any item would
+ * go below zero.
+ */
+export const recordSales = async (
+  clientId: string,
+  sales: SaleInput[],
+  userId: string,
+  system: InventorySystem = 'perpetual'
+): Promise<InventoryPostingResult> => {
+  const [items, existing] = await Promise.all([
+    databaseService.getInventoryItems(clientId),
+    databaseService.getStockMovements(clientId),
+  ]);
+
+  const recorded = new Set(existing.filter(m => m.type === 'sale' && m.sourceRef).map(m => `${m.itemId}|${m.sourceRef}`));
+  const pending = sales
+    .filter(s => !s.sourceRef || !recorded.has(`${s.itemId}|${s.sourceRef}`))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const errors: string[] = [];
+  const movements: StockMovement[] = [];
+  pending.forEach((sale, i) => {
+    const item = items.find(it => it.id === sale.itemId);
+    if (!item) {
+      errors.push('ไม่พบรายการสินค้า');
+      return;
+    }
+    if (!(sale.quantity > 0)) {
+      errors.push(`จำนวนขาย ${item.sku} ต้องมากกว่า 0`);
+      return;
+    }
+
+    const { totalCost, unitCost, available } = costIssue(item, [...existing, ...movements], sale.quantity, sale.date);
+    if (sale.quantity > available) {
+      errors.push(`${item.sku} คงเหลือไม่พอ ณ ${sale.date} (คงเหลือ ${available}, ขาย ${sale.quantity})`);
+      return;
+    }
+
+    movements.push(newMovement(clientId, userId, {
+      itemId: item.id,
+      date: sale.date,
+      type: 'sale',
+      quantity: -sale.quantity,
+      unitCost,
+      totalCost: -totalCost,
+      source: sale.source,
+      ...(sale.sourceRef && { sourceRef: sale.sourceRef }),
+    }, i));
+  });
+
+  if (errors.length > 0) return { success: false, movements: [], entries: [], errors };
+  if (movements.length === 0) return { success: true, movements: [], entries: [], errors: [] };
+
+  if (system === 'periodic') {
+    await databaseService.addStockMovements(movements);
+    return { success: true, movements, entries: [], errors: [] };
+  }
+
+  // Post month by month; a month that fails (e.g. a locked period) stops the run
+  const months = [...new Set(movements.map(m => m.date.slice(0, 7)))];
+  const saved: StockMovement[] = [];
+  const entries: PostedGLEntry[] = [];
+  for (const month of months) {
+    const monthMovements = movements.filter(m => m.date.startsWith(month));
+    const draft = buildCOGSEntries(monthMovements, items, clientId);
+    let docNo: string | undefined;
+    if (draft.length > 0) {
+      const [result] = await postDraftVouchers(clientId, 'JV', draft, userId);
+      if (!result.success || !result.docNo) {
+        return { success: false, movements: saved, entries, errors: result.validation.errors.map(e => e.messageTh) };
+      }
+      docNo = result.docNo;
+      entries.push(...toPosted(draft, result));
+    }
+
+    const stamped = monthMovements.map(m => (docNo ? { ...m, doc_no: docNo } : m));
+    await databaseService.addStockMovements(stamped);
+    saved.push(...stamped);
+  }
+
+  return { success: true, movements: saved, entries, errors: [] };
+};
+
+// ============================================================================
+// MONTH-END STOCK COUNT
+// ============================================================================
+
+/**
+ * Book vs counted quantity and value at the end of period (YYYY-MM)
+ * Shortages come off the oldest layers (FIFO) or at average cost; surpluses
+ * are valued at the last purchase cost.
+ */
+export const buildStockCount = (
+  items: InventoryItem[],
+  movements: StockMovement[],
+  period: string,
+  counts: Record<string, number>
+): StockCountLine[] => {
+  const asOf = periodEndDate(period);
+
+  return items
+    .filter(item => counts[item.id] !== undefined)
+    .map(item => {
+      const { layers, lastUnitCost } = replay(item, movements, asOf);
+      const bookQuantity = layers.reduce((sum, l) => sum + l.quantity, 0);
+      const bookValue = layersValue(layers);
+      const countedQuantity = Math.max(0, counts[item.id]);
+      const varianceQuantity = countedQuantity - bookQuantity;
+
+      const countedValue = varianceQuantity < 0
+        ? round2(bookValue - issueFromLayers(layers, -varianceQuantity, lastUnitCost).cost)
+        : round2(bookValue + varianceQuantity * lastUnitCost);
+
+      return { item, bookQuantity, countedQuantity, varianceQuantity, bookValue, countedValue };
+    });
+};
+
+/**
+ * Post the month-end stock count
+ * Perpetual: the count variance is shrinkage (Dr COGS / Cr Inventory) or a
+ * surplus. Periodic: each inventory account is moved from its GL balance to
+ * the counted value and COGS takes the difference, which replaces the
+ * year-end plug figure with a monthly one.
+ */
+export const postStockCount = async (
+  clientId: string,
+  period: string,
+  counts: Record<string, number>,
+  userId: string,
+  system: InventorySystem = 'perpetual'
+): Promise<InventoryPostingResult & { lines: StockCountLine[] }> => {
+  const countRef = `COUNT-${period}`;
+  const [items, movements] = await Promise.all([
+    databaseService.getInventoryItems(clientId),
+    databaseService.getStockMovements(clientId),
+  ]);
+  if (movements.some(m => m.sourceRef === countRef)) {
+    return { success: false, movements: [], entries: [], errors: [`บันทึกการตรวจนับงวด ${period} แล้ว`], lines: [] };
+  }
+
+  const date = periodEndDate(period);
+  const lines = buildStockCount(items, movements, period, counts);
+  const adjustments = lines
+    .filter(l => l.varianceQuantity !== 0)
+    .map((l, i) => {
+      const totalCost = round2(l.countedValue - l.bookValue);
+      return newMovement(clientId, userId, {
+        itemId: l.item.id,
+        date,
+        type: 'count_adjustment',
+        quantity: l.varianceQuantity,
+        unitCost: round2(Math.abs(totalCost / l.varianceQuantity)),
+        totalCost,
+        source: 'stock_count',
+        sourceRef: countRef,
+      }, i);
+    });
+
+  let draft: PostedGLEntry[];
+  if (system === 'perpetual') {
+    draft = buildCOGSEntries(adjustments, items, clientId).map(e => ({
+      ...e,
+      doc_no: `JV-INV-${period}`,
+      description: `ปรับปรุงสินค้าคงเหลือตามการตรวจนับ ${period}`,
+    }));
+  } else {
+    const gl = await databaseService.getGLEntriesByClient(clientId);
+    const counted = new Map<string, { cogs: string; value: number }>();
+    items.forEach(item => {
+      const line = lines.find(l => l.item.id === item.id);
+      const value = line ? line.countedValue : getStockBalance(item, movements, date).value;
+      const account = counted.get(item.inventoryAccountCode) || { cogs: item.cogsAccountCode, value: 0 };
+      account.value = round2(account.value + value);
+      counted.set(item.inventoryAccountCode, account);
+    });
+
+    draft = [...counted.entries()].flatMap(([inventoryCode, { cogs, value }], i) => {
+      const glBalance = round2(gl
+        .filter(e => e.account_code === inventoryCode && e.date <= date)
+        .reduce((sum, e) => sum + e.debit - e.credit, 0));
+      const diff = round2(value - glBalance);
+      if (diff === 0) return [];
+
+      const line = (side: 'DR' | 'CR', code: string, name: string, debit: number, credit: number): PostedGLEntry => ({
+        id: `INVADJ-${period}-${i}-${side}`,
+        clientId,
+        date,
+        doc_no: `JV-INV-${period}`,
+        description: `ปรับปรุงสินค้าคงเหลือปลายงวดตามการตรวจนับ ${period}`,
+        account_code: code,
+        account_name: name,
+        debit,
+        credit,
+        system_generated: true,
+      });
+      return diff > 0
+        ? [line('DR', inventoryCode, 'สินค้าคงเหลือ', diff, 0), line('CR', cogs, 'ต้นทุนขาย', 0, diff)]
+        : [line('DR', cogs, 'ต้นทุนขาย', -diff, 0), line('CR', inventoryCode, 'สินค้าคงเหลือ', 0, -diff)];
+    });
+  }
+
+  let entries: PostedGLEntry[] = [];
+  let docNo: string | undefined;
+  if (draft.length > 0) {
+    const [result] = await postDraftVouchers(clientId, 'JV', draft, userId);
+    if (!result.success || !result.docNo) {
+      return { success: false, movements: [], entries: [], errors: result.validation.errors.map(e => e.messageTh), lines };
+    }
+    docNo = result.docNo;
+    entries = toPosted(draft, result);
+  }
+
+  const saved = adjustments.map(m => (docNo ? { ...m, doc_no: docNo } : m));
+  if (saved.length > 0) await databaseService.addStockMovements(saved);
+
+  return { success: true, movements: saved, entries, errors: [], lines };
+};
+
+export const inventoryService = {
+  getStockBalance,
+  costIssue,
+  createItem,
+  updateItem,
+  recordReceipts,
+  receiptsFromDocument,
+  salesFromPlatformOrders,
+  buildCOGSEntries,
+  recordSales,
+  buildStockCount,
+  postStockCount,
+};
+
+export default inventoryService;
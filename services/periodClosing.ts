@@ -1,9 +1,13 @@
 /**
  * Period Closing Service
  * Handles monthly/yearly closing entries, accruals, provisions, and depreciation
+ *
+ * Generated doc_no values (JV-DEPRE-2024-03 etc.) are draft keys that group
+ * lines into vouchers; postDraftVouchers replaces them with sequence numbers
  */
 
 import { PostedGLEntry, FixedAsset, DocumentRecord } from '../types';
+import { resolveAccountCode } from './chartOfAccounts';
 
 // Closing Entry Types
 export type ClosingEntryType =
@@ -76,10 +80,15 @@ export const CLOSING_ACCOUNTS = {
   // Depreciation
   ACCUM_DEPRE_BUILDING: '12201',
   ACCUM_DEPRE_EQUIPMENT: '12401',
-  ACCUM_DEPRE_VEHICLE: '12501',
-  ACCUM_DEPRE_SOFTWARE: '12601',
+  ACCUM_DEPRE_VEHICLE: '12301',
+  ACCUM_DEPRE_SOFTWARE: '12501',
   DEPRE_EXPENSE: '53400',
 
+  // Asset disposal / impairment
+  GAIN_ON_DISPOSAL: '42300',
+  LOSS_ON_DISPOSAL: '54400',
+  IMPAIRMENT_LOSS: '54500',
+
   // P&L Closing
   INCOME_SUMMARY: '39000',
   RETAINED_EARNINGS: '32000',
@@ -87,6 +96,141 @@ export const CLOSING_ACCOUNTS = {
   // CIT
   CIT_EXPENSE: '58000',
   CIT_PAYABLE: '21600',
+
+  // Foreign exchange
+  FX_GAIN: '42400',
+  FX_LOSS: '54300',
+};
+
+// Monetary accounts revalued at month end: cash/bank, AR, short-term loans, AP
+export const FX_MONETARY_ACCOUNT_PREFIXES = ['111', '112', '113', '211', '212'];
+
+export interface FXRevaluationLine {
+  accountCode: string;
+  accountName: string;
+  currency: string;
+  foreignBalance: number; // Debit positive
+  carryingTHB: number; // Debit positive, before revaluation
+  closingRate: number;
+  revaluedTHB: number;
+  adjustment: number; // Positive = gain
+}
+
+// Cost and accumulated depreciation accounts per asset category (land is not depreciated)
+export const ASSET_CATEGORY_ACCOUNTS: Record<FixedAsset['category'], { cost: string; accumulated?: string }> = {
+  Land: { cost: '12100' },
+  Building: { cost: '12200', accumulated: CLOSING_ACCOUNTS.ACCUM_DEPRE_BUILDING },
+  Vehicle: { cost: '12300', accumulated: CLOSING_ACCOUNTS.ACCUM_DEPRE_VEHICLE },
+  Equipment: { cost: '12400', accumulated: CLOSING_ACCOUNTS.ACCUM_DEPRE_EQUIPMENT },
+  Software: { cost: '12500', accumulated: CLOSING_ACCOUNTS.ACCUM_DEPRE_SOFTWARE },
+};
+
+export interface DepreciationScheduleRow {
+  period: string; // YYYY-MM
+  openingValue: number; // Carrying amount at the start of the month
+  depreciation: number;
+  impairment: number;
+  accumulatedDepreciation: number;
+  closingValue: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Month-by-month depreciation from the acquisition month
+ * Straight-line and declining-balance run for useful_life_years * 12 months;
+ * declining-balance switches to straight-line once that gives the larger
+ * charge, so both end at the residual value. Units of production follows
+ * units_by_period. Impairments reduce the carrying amount and the remaining
+ * charge is re-spread from the following month. Stops at the disposal month.
+ */
+export const buildDepreciationSchedule = (asset: FixedAsset, throughPeriod?: string): DepreciationScheduleRow[] => {
+  const method = asset.depreciation_method || 'straight_line';
+  const accounts = ASSET_CATEGORY_ACCOUNTS[asset.category];
+  if (!accounts?.accumulated) return [];
+  if (method === 'units_of_production' ? !(asset.total_units! > 0) : !(asset.useful_life_years > 0)) return [];
+
+  const start = asset.acquisition_date.slice(0, 7);
+  const lifeMonths = Math.round(asset.useful_life_years * 12);
+  const unitPeriods = Object.keys(asset.units_by_period || {}).sort();
+
+  let end = method === 'units_of_production'
+    ? (unitPeriods[unitPeriods.length - 1] || start)
+    : addMonths(start, lifeMonths - 1);
+  if (asset.disposal_date && asset.disposal_date.slice(0, 7) < end) end = asset.disposal_date.slice(0, 7);
+  if (throughPeriod && throughPeriod < end) end = throughPeriod;
+
+  const impairments: Record<string, number> = {};
+  (asset.history || []).filter(e => e.type === 'impairment').forEach(e => {
+    const period = e.date.slice(0, 7);
+    impairments[period] = (impairments[period] || 0) + (e.amount || 0);
+  });
+
+  const rows: DepreciationScheduleRow[] = [];
+  let carrying = asset.cost;
+  let accumulated = 0;
+  let unitsUsed = 0;
+
+  for (let i = 0, period = start; period <= end; i++, period = addMonths(start, i)) {
+    const depreciable = Math.max(0, carrying - asset.residual_value);
+    const monthsLeft = Math.max(1, lifeMonths - i);
+    let depreciation = 0;
+
+    if (method === 'units_of_production') {
+      const units = asset.units_by_period?.[period] || 0;
+      const unitsLeft = asset.total_units! - unitsUsed;
+      depreciation = unitsLeft > 0 ? depreciable * Math.min(1, units / unitsLeft) : 0;
+      unitsUsed += units;
+    } else if (method === 'declining_balance') {
+      const monthlyRate = (asset.declining_balance_rate || 2) / asset.useful_life_years / 12;
+      depreciation = Math.min(depreciable, Math.max(carrying * monthlyRate, depreciable / monthsLeft));
+    } else {
+      depreciation = depreciable / monthsLeft;
+    }
+
+    depreciation = round2(depreciation);
+    const opening = carrying;
+    carrying = round2(carrying - depreciation);
+    const impairment = Math.min(carrying, impairments[period] || 0);
+    carrying = round2(carrying - impairment);
+    accumulated = round2(accumulated + depreciation);
+
+    rows.push({
+      period,
+      openingValue: opening,
+      depreciation,
+      impairment,
+      accumulatedDepreciation: accumulated,
+      closingValue: carrying,
+    });
+  }
+
+  return rows;
+};
+
+/**
+ * Depreciation to book for a period
+ * Assets with depreciated_through catch up every month since then; others
+ * book only the period's charge. Never books more than is left between the
+ * booked carrying amount and the residual value.
+ */
+export const getDepreciationForPeriod = (asset: FixedAsset, period: string): number => {
+  if (asset.status === 'disposed') return 0;
+  if (asset.depreciated_through && asset.depreciated_through >= period) return 0;
+
+  const from = asset.depreciated_through ? addMonths(asset.depreciated_through, 1) : period;
+  const scheduled = buildDepreciationSchedule(asset, period)
+    .filter(r => r.period >= from)
+    .reduce((sum, r) => sum + r.depreciation, 0);
+
+  const remaining = asset.cost - asset.residual_value - asset.accumulated_depreciation_bf - (asset.accumulated_impairment || 0);
+  return round2(Math.max(0, Math.min(scheduled, remaining)));
 };
 
 /**
@@ -105,22 +249,10 @@ export const calculateDepreciation = (
   const periodEnd = new Date(year, month, 0).toISOString().split('T')[0];
 
   assets.forEach((asset, index) => {
-    // Skip if no useful life
-    if (!asset.useful_life_years || asset.useful_life_years <= 0) return;
-
-    // Calculate monthly depreciation (straight-line)
-    const depreciableAmount = asset.cost - asset.residual_value;
-    const monthlyDepreciation = depreciableAmount / (asset.useful_life_years * 12);
-
-    // Skip if already fully depreciated
-    const totalAccumulated = asset.accumulated_depreciation_bf + (asset.current_month_depreciation * 12);
-    if (totalAccumulated >= depreciableAmount) return;
+    const amount = getDepreciationForPeriod(asset, period);
+    if (amount <= 0) return;
 
-    // Determine depreciation account based on category
-    let accumDepreAccount = CLOSING_ACCOUNTS.ACCUM_DEPRE_EQUIPMENT;
-    if (asset.category === 'Building') accumDepreAccount = CLOSING_ACCOUNTS.ACCUM_DEPRE_BUILDING;
-    else if (asset.category === 'Vehicle') accumDepreAccount = CLOSING_ACCOUNTS.ACCUM_DEPRE_VEHICLE;
-    else if (asset.category === 'Software') accumDepreAccount = CLOSING_ACCOUNTS.ACCUM_DEPRE_SOFTWARE;
+    const accumDepreAccount = ASSET_CATEGORY_ACCOUNTS[asset.category].accumulated!;
 
     // Create depreciation entries
     entries.push({
@@ -131,7 +263,8 @@ export const calculateDepreciation = (
       description: `ค่าเสื่อมราคา: ${asset.name} (${asset.asset_code})`,
       account_code: CLOSING_ACCOUNTS.DEPRE_EXPENSE,
       account_name: 'ค่าเสื่อมราคา',
-      debit: Math.round(monthlyDepreciation * 100) / 100,
+      department_code: asset.department_code,
+      debit: amount,
       credit: 0,
       system_generated: true,
     });
@@ -144,13 +277,14 @@ export const calculateDepreciation = (
       description: `ค่าเสื่อมราคาสะสม: ${asset.name} (${asset.asset_code})`,
       account_code: accumDepreAccount,
       account_name: 'ค่าเสื่อมราคาสะสม',
+      department_code: asset.department_code,
       debit: 0,
-      credit: Math.round(monthlyDepreciation * 100) / 100,
+      credit: amount,
       system_generated: true,
     });
 
-    totalDepreciation += monthlyDepreciation;
-    details.push({ asset, monthly: monthlyDepreciation });
+    totalDepreciation += amount;
+    details.push({ asset, monthly: amount });
   });
 
   return {
@@ -394,17 +528,188 @@ export const calculateProvisions = (
   };
 };
 
+/**
+ * Revalue open foreign-currency monetary balances at month end
+ * Debit balances (bank, AR) use the buying rate, credit balances (AP, loans) the selling rate.
+ * Adjustment lines keep the currency but no foreign amount, so the next
+ * revaluation starts from the already-adjusted carrying amount.
+ */
+export const calculateFXRevaluation = (
+  glEntries: PostedGLEntry[],
+  closingRates: Record<string, { buying: number; selling: number }>,
+  clientId: string,
+  period: string // YYYY-MM
+): { entries: PostedGLEntry[]; lines: FXRevaluationLine[]; totalGain: number; totalLoss: number } => {
+  const [year, month] = period.split('-').map(Number);
+  const periodEnd = `${period}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+
+  const balances: Record<string, { accountCode: string; accountName: string; currency: string; foreign: number; thb: number }> = {};
+  glEntries.forEach(entry => {
+    if (!entry.currency || entry.currency === 'THB' || entry.date > periodEnd) return;
+    if (isOpeningEntry(entry)) return; // Restates history already summed here
+    if (!FX_MONETARY_ACCOUNT_PREFIXES.some(p => entry.account_code.startsWith(p))) return;
+
+    const key = `${entry.account_code}|${entry.currency}`;
+    if (!balances[key]) {
+      balances[key] = { accountCode: entry.account_code, accountName: entry.account_name, currency: entry.currency, foreign: 0, thb: 0 };
+    }
+    balances[key].foreign += (entry.foreign_debit || 0) - (entry.foreign_credit || 0);
+    balances[key].thb += entry.debit - entry.credit;
+  });
+
+  const entries: PostedGLEntry[] = [];
+  const lines: FXRevaluationLine[] = [];
+  let totalGain = 0;
+  let totalLoss = 0;
+
+  Object.values(balances).forEach((b, index) => {
+    const rates = closingRates[b.currency];
+    if (!rates) return;
+
+    const closingRate = b.foreign >= 0 ? rates.buying : rates.selling;
+    const revaluedTHB = Math.round(b.foreign * closingRate * 100) / 100;
+    const adjustment = Math.round((revaluedTHB - b.thb) * 100) / 100;
+
+    lines.push({
+      accountCode: b.accountCode,
+      accountName: b.accountName,
+      currency: b.currency,
+      foreignBalance: Math.round(b.foreign * 100) / 100,
+      carryingTHB: Math.round(b.thb * 100) / 100,
+      closingRate,
+      revaluedTHB,
+      adjustment,
+    });
+    if (adjustment === 0) return;
+
+    const isGain = adjustment > 0;
+    const amount = Math.abs(adjustment);
+    const description = `ปรับปรุงอัตราแลกเปลี่ยน ${b.currency} ณ ${periodEnd} @ ${closingRate}`;
+    if (isGain) totalGain += amount; else totalLoss += amount;
+
+    entries.push({
+      id: `FX-REVAL-${period}-${index}`,
+      clientId,
+      date: periodEnd,
+      doc_no: `JV-FX-${period}`,
+      description,
+      account_code: b.accountCode,
+      account_name: b.accountName,
+      debit: isGain ? amount : 0,
+      credit: isGain ? 0 : amount,
+      currency: b.currency,
+      exchange_rate: closingRate,
+      foreign_debit: 0,
+      foreign_credit: 0,
+      system_generated: true,
+    });
+
+    entries.push({
+      id: `FX-REVAL-PL-${period}-${index}`,
+      clientId,
+      date: periodEnd,
+      doc_no: `JV-FX-${period}`,
+      description,
+      account_code: isGain ? CLOSING_ACCOUNTS.FX_GAIN : CLOSING_ACCOUNTS.FX_LOSS,
+      account_name: isGain ? 'กำไรจากอัตราแลกเปลี่ยน' : 'ขาดทุนจากอัตราแลกเปลี่ยน',
+      debit: isGain ? 0 : amount,
+      credit: isGain ? amount : 0,
+      system_generated: true,
+    });
+  });
+
+  return {
+    entries,
+    lines,
+    totalGain: Math.round(totalGain * 100) / 100,
+    totalLoss: Math.round(totalLoss * 100) / 100,
+  };
+};
+
+/**
+ * Whether an entry belongs to a P&L closing voucher (JV-CLOSE-*)
+ * Posted vouchers keep the draft key as reference_no
+ */
+export const isClosingEntry = (entry: Pick<PostedGLEntry, 'doc_no' | 'reference_no'>): boolean =>
+  (entry.reference_no || entry.doc_no || '').startsWith('JV-CLOSE-');
+
+/**
+ * Whether an entry belongs to a fiscal-year opening balance voucher (JV-OPEN-*)
+ * Opening vouchers restate history, so all-time balances must skip them
+ */
+export const isOpeningEntry = (entry: Pick<PostedGLEntry, 'doc_no' | 'reference_no'>): boolean =>
+  (entry.reference_no || entry.doc_no || '').startsWith('JV-OPEN-');
+
+export interface BroughtForwardBalance {
+  accountCode: string;
+  accountName: string;
+  currency?: string;
+  balance: number; // THB, debit positive
+  foreignBalance: number; // Debit positive
+}
+
+/**
+ * Balances carried into a fiscal year that starts on openingDate
+ * Starts from the latest live opening voucher before that date so earlier years
+ * are not counted twice; any P&L balance left unclosed is folded into retained earnings.
+ */
+export const calculateBroughtForwardBalances = (
+  glEntries: PostedGLEntry[],
+  openingDate: string // YYYY-MM-DD
+): BroughtForwardBalance[] => {
+  const history = glEntries.filter(e => e.date < openingDate);
+  const liveOpening = history.filter(e => isOpeningEntry(e) && !e.reversed_by && !e.reversal_of);
+  const baseDate = liveOpening.reduce((latest, e) => (e.date > latest ? e.date : latest), '');
+  const baseDocNo = liveOpening.find(e => e.date === baseDate)?.doc_no;
+
+  const included = history.filter(e => {
+    if (isOpeningEntry(e)) return !!baseDocNo && e.doc_no === baseDocNo && !e.reversed_by && !e.reversal_of;
+    return e.date >= baseDate;
+  });
+
+  const balances: Record<string, BroughtForwardBalance> = {};
+  included.forEach(entry => {
+    let code = resolveAccountCode(entry.account_code, entry.clientId);
+    let currency = entry.currency && entry.currency !== 'THB' ? entry.currency : undefined;
+    let accountName = entry.account_name;
+    if (code.startsWith('4') || code.startsWith('5') || code === CLOSING_ACCOUNTS.INCOME_SUMMARY) {
+      code = CLOSING_ACCOUNTS.RETAINED_EARNINGS;
+      currency = undefined;
+      accountName = 'กำไรสะสม';
+    }
+
+    const key = `${code}|${currency || ''}`;
+    if (!balances[key]) {
+      balances[key] = { accountCode: code, accountName, ...(currency ? { currency } : {}), balance: 0, foreignBalance: 0 };
+    }
+    balances[key].balance += entry.debit - entry.credit;
+    if (currency) balances[key].foreignBalance += (entry.foreign_debit || 0) - (entry.foreign_credit || 0);
+  });
+
+  return Object.values(balances)
+    .map(b => ({ ...b, balance: Math.round(b.balance * 100) / 100, foreignBalance: Math.round(b.foreignBalance * 100) / 100 }))
+    .filter(b => b.balance !== 0 || b.foreignBalance !== 0)
+    .sort((x, y) => x.accountCode.localeCompare(y.accountCode) || (x.currency || '').localeCompare(y.currency || ''));
+};
+
 /**
  * Generate closing entries for P&L accounts
+ * taxAddBack (e.g. book depreciation above the tax allowance) is added to
+ * profit before the CIT accrual is calculated. citAccrual, when given, is the
+ * amount to book instead (see corporateIncomeTax.calculateCITAccrual); a
+ * negative accrual reverses CIT booked in earlier months.
  */
 export const generateClosingEntries = (
   glEntries: PostedGLEntry[],
   clientId: string,
   period: string,
-  citRate: number = 0.20
+  citRate: number = 0.20,
+  taxAddBack: number = 0,
+  citAccrual?: number
 ): {
   closingEntries: PostedGLEntry[];
   profitBeforeTax: number;
+  taxableProfit: number;
   citAmount: number;
   netProfit: number;
 } => {
@@ -444,11 +749,14 @@ export const generateClosingEntries = (
   });
 
   const profitBeforeTax = totalRevenue - totalExpense;
-  const citAmount = profitBeforeTax > 0 ? Math.round(profitBeforeTax * citRate * 100) / 100 : 0;
+  const taxableProfit = profitBeforeTax + taxAddBack;
+  const citAmount = citAccrual !== undefined
+    ? Math.round(citAccrual * 100) / 100
+    : taxableProfit > 0 ? Math.round(taxableProfit * citRate * 100) / 100 : 0;
   const netProfit = profitBeforeTax - citAmount;
 
   // Create CIT accrual entry if profitable
-  if (citAmount > 0) {
+  if (citAmount !== 0) {
     closingEntries.push({
       id: `CIT-EXP-${period}`,
       clientId,
@@ -457,8 +765,8 @@ export const generateClosingEntries = (
       description: 'ตั้งค้างจ่ายภาษีเงินได้นิติบุคคล',
       account_code: CLOSING_ACCOUNTS.CIT_EXPENSE,
       account_name: 'ค่าใช้จ่ายภาษีเงินได้',
-      debit: citAmount,
-      credit: 0,
+      debit: Math.max(citAmount, 0),
+      credit: Math.max(-citAmount, 0),
       system_generated: true,
     });
 
@@ -470,8 +778,8 @@ export const generateClosingEntries = (
       description: 'ตั้งค้างจ่ายภาษีเงินได้นิติบุคคล',
       account_code: CLOSING_ACCOUNTS.CIT_PAYABLE,
       account_name: 'ภาษีเงินได้ค้างจ่าย',
-      debit: 0,
-      credit: citAmount,
+      debit: Math.max(-citAmount, 0),
+      credit: Math.max(citAmount, 0),
       system_generated: true,
     });
   }
@@ -498,7 +806,7 @@ export const generateClosingEntries = (
   });
 
   // Close CIT expense
-  if (citAmount > 0) {
+  if (citAmount !== 0) {
     closingEntries.push({
       id: `CLOSE-CIT-${period}`,
       clientId,
@@ -507,8 +815,8 @@ export const generateClosingEntries = (
       description: 'ปิดบัญชี: ค่าใช้จ่ายภาษีเงินได้',
       account_code: CLOSING_ACCOUNTS.CIT_EXPENSE,
       account_name: 'ค่าใช้จ่ายภาษีเงินได้',
-      debit: 0,
-      credit: citAmount,
+      debit: Math.max(-citAmount, 0),
+      credit: Math.max(citAmount, 0),
       system_generated: true,
     });
   }
@@ -532,11 +840,107 @@ export const generateClosingEntries = (
   return {
     closingEntries,
     profitBeforeTax,
+    taxableProfit,
     citAmount,
     netProfit,
   };
 };
 
+/**
+ * Close a whole fiscal year's P&L through the income summary into retained earnings
+ * Covers whatever monthly closings left open; netProfit is the full year's result
+ * before any closing voucher.
+ */
+export const generateYearEndClosingEntries = (
+  glEntries: PostedGLEntry[],
+  clientId: string,
+  fiscalYear: number,
+  range: { start: string; end: string }
+): { entries: PostedGLEntry[]; netProfit: number } => {
+  const docNo = `JV-CLOSE-FY${fiscalYear}`;
+  const inYear = glEntries.filter(e => e.date >= range.start && e.date <= range.end);
+
+  const remaining: Record<string, { name: string; balance: number }> = {};
+  let netProfit = 0;
+  inYear.forEach(entry => {
+    const code = resolveAccountCode(entry.account_code, entry.clientId);
+    if (!code.startsWith('4') && !code.startsWith('5')) return;
+
+    // Credit positive, so revenue adds to and expenses reduce profit
+    const amount = entry.credit - entry.debit;
+    if (!isClosingEntry(entry)) netProfit += amount;
+    if (!remaining[code]) remaining[code] = { name: entry.account_name, balance: 0 };
+    remaining[code].balance += amount;
+  });
+
+  const line = (id: string, code: string, name: string, description: string, amount: number): PostedGLEntry => ({
+    id: `CLOSE-FY${fiscalYear}-${id}`,
+    clientId,
+    date: range.end,
+    doc_no: docNo,
+    description,
+    account_code: code,
+    account_name: name,
+    // amount is credit positive
+    debit: amount < 0 ? Math.abs(amount) : 0,
+    credit: amount > 0 ? amount : 0,
+    system_generated: true,
+  });
+
+  const entries: PostedGLEntry[] = [];
+  let transferred = 0;
+  Object.keys(remaining).sort().forEach(code => {
+    const balance = Math.round(remaining[code].balance * 100) / 100;
+    if (balance === 0) return;
+    transferred += balance;
+    entries.push(line(code, code, remaining[code].name, `ปิดบัญชีสิ้นปี: ${remaining[code].name}`, -balance));
+  });
+
+  transferred = Math.round(transferred * 100) / 100;
+  if (transferred !== 0) {
+    const summaryName = 'สรุปรายได้';
+    entries.push(line('IS', CLOSING_ACCOUNTS.INCOME_SUMMARY, summaryName, 'ปิดบัญชีสิ้นปีเข้าบัญชีสรุปรายได้', transferred));
+    entries.push(line('IS-RE', CLOSING_ACCOUNTS.INCOME_SUMMARY, summaryName, 'โอนกำไร(ขาดทุน)สุทธิไปกำไรสะสม', -transferred));
+    entries.push(line('RE', CLOSING_ACCOUNTS.RETAINED_EARNINGS, 'กำไรสะสม', 'โอนกำไร(ขาดทุน)สุทธิไปกำไรสะสม', transferred));
+  }
+
+  return { entries, netProfit: Math.round(netProfit * 100) / 100 };
+};
+
+/**
+ * Opening balance voucher for the fiscal year after fiscalYear
+ * Dated the day after range.end; foreign-currency balances keep their foreign amounts
+ */
+export const generateOpeningBalanceEntries = (
+  glEntries: PostedGLEntry[],
+  clientId: string,
+  fiscalYear: number,
+  range: { start: string; end: string }
+): PostedGLEntry[] => {
+  const next = new Date(`${range.end}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  const openingDate = next.toISOString().split('T')[0];
+  const docNo = `JV-OPEN-FY${fiscalYear + 1}`;
+
+  return calculateBroughtForwardBalances(glEntries, openingDate).map((b, index) => ({
+    id: `OPEN-FY${fiscalYear + 1}-${index}`,
+    clientId,
+    date: openingDate,
+    doc_no: docNo,
+    description: `ยอดยกมา ณ ${openingDate}`,
+    account_code: b.accountCode,
+    account_name: b.accountName,
+    debit: b.balance > 0 ? b.balance : 0,
+    credit: b.balance < 0 ? Math.abs(b.balance) : 0,
+    ...(b.currency ? {
+      currency: b.currency,
+      foreign_debit: b.foreignBalance > 0 ? b.foreignBalance : 0,
+      foreign_credit: b.foreignBalance < 0 ? Math.abs(b.foreignBalance) : 0,
+    } : {}),
+    system_generated: true,
+  }));
+};
+
 /**
  * Create default closing tasks checklist
  */
@@ -607,7 +1011,7 @@ export const createClosingTasks = (period: string): ClosingTask[] => {
       type: 'INVENTORY_ADJ',
       title: 'ปรับปรุงสินค้าคงเหลือ',
       titleEn: 'Inventory Adjustment',
-      description: 'ปรับปรุงมูลค่าสินค้าตามราคาตลาด (LCM)',
+      description: 'ตรวจนับสินค้าสิ้นเดือนและปรับปรุงมูลค่าตามราคาตลาด (LCM)',
       status: 'pending',
       required: false,
       autoCalculate: false,
@@ -620,7 +1024,7 @@ export const createClosingTasks = (period: string): ClosingTask[] => {
       description: 'ปรับปรุงกำไร/ขาดทุนจากอัตราแลกเปลี่ยน',
       status: 'pending',
       required: false,
-      autoCalculate: false,
+      autoCalculate: true,
     },
     {
       id: 'TASK-009',
@@ -646,10 +1050,18 @@ export const createClosingTasks = (period: string): ClosingTask[] => {
 };
 
 export default {
+  buildDepreciationSchedule,
+  getDepreciationForPeriod,
   calculateDepreciation,
   calculateAccruals,
   calculateProvisions,
+  calculateFXRevaluation,
+  isClosingEntry,
+  isOpeningEntry,
+  calculateBroughtForwardBalances,
   generateClosingEntries,
+  generateYearEndClosingEntries,
+  generateOpeningBalanceEntries,
   createClosingTasks,
   CLOSING_ACCOUNTS,
 };
@@ -0,0 +1,164 @@
+/**
+ * periodLock.ts
+ *
+ * Period Locking
+ * ล็อคงวดบัญชีรายเดือนต่อลูกค้า
+ *
+ * Lock state lives in period_locks/{clientId}_{YYYY-MM} so Firestore rules and
+ * the posting API can enforce it without trusting the browser. Locking is open
+ * to anyone who can post for the client; unlocking needs gl.period_reopen and
+ * a reason, and is written to the audit trail.
+ */
+
+import { PeriodLock } from '../types';
+import { databaseService } from './database';
+import { auditHelpers } from './auditTrail';
+import { hasPermission, toUserRole } from './rbac';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PeriodLockRequest {
+  clientId: string;
+  period: string; // YYYY-MM
+  userId: string;
+  userName?: string;
+  userRole?: string; // Staff role as stored on the user ('Manager', 'Admin', ...)
+  clientName?: string;
+}
+
+export interface PeriodLockResult {
+  success: boolean;
+  lock?: PeriodLock;
+  message: string;
+  messageTh: string;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export const getPeriodLockId = (clientId: string, period: string): string => `${clientId}_${period}`;
+
+/**
+ * Whether postings dated in the period (YYYY-MM) are blocked
+ */
+export const isPeriodLocked = async (clientId: string, period: string): Promise<boolean> => {
+  const lock = await databaseService.getPeriodLock(clientId, period);
+  return !!lock?.is_locked;
+};
+
+/**
+ * Locked periods among the dates (YYYY-MM-DD) of a posting
+ */
+export const getLockedPeriods = async (clientId: string, dates: string[]): Promise<string[]> => {
+  const periods = Array.from(new Set(dates.filter(Boolean).map(d => d.slice(0, 7)))).sort();
+  const locked: string[] = [];
+  for (const period of periods) {
+    if (await isPeriodLocked(clientId, period)) locked.push(period);
+  }
+  return locked;
+};
+
+// ============================================================================
+// LOCK / UNLOCK
+// ============================================================================
+
+/**
+ * Lock a period; re-locking keeps the last unlock details
+ */
+export const lockPeriod = async (request: PeriodLockRequest): Promise<PeriodLockResult> => {
+  const { clientId, period, userId } = request;
+  const existing = await databaseService.getPeriodLock(clientId, period);
+  if (existing?.is_locked) {
+    return { success: true, lock: existing, message: `Period ${period} is already locked`, messageTh: `งวด ${period} ถูกล็อคแล้ว` };
+  }
+
+  const lock: PeriodLock = {
+    ...existing,
+    id: getPeriodLockId(clientId, period),
+    clientId,
+    period,
+    is_locked: true,
+    locked_at: new Date().toISOString(),
+    locked_by: userId,
+  };
+  await databaseService.savePeriodLock(lock);
+
+  await auditHelpers.logPeriodAction(
+    'PERIOD_CLOSE',
+    userId,
+    request.userName || userId,
+    request.userRole || 'unknown',
+    period,
+    clientId,
+    request.clientName || clientId
+  );
+
+  return { success: true, lock, message: `Period ${period} locked`, messageTh: `ล็อคงวด ${period} เรียบร้อย` };
+};
+
+/**
+ * Unlock a period (gl.period_reopen only, reason required)
+ */
+export const unlockPeriod = async (request: PeriodLockRequest & { reason: string }): Promise<PeriodLockResult> => {
+  const { clientId, period, userId } = request;
+  const reason = request.reason.trim();
+
+  if (!hasPermission({ userId, role: toUserRole(request.userRole) }, 'gl.period_reopen')) {
+    await auditHelpers.logPermissionDenied(
+      userId,
+      request.userName || userId,
+      request.userRole || 'unknown',
+      'gl.period_reopen',
+      'period',
+      getPeriodLockId(clientId, period)
+    );
+    return {
+      success: false,
+      message: 'Permission denied: gl.period_reopen',
+      messageTh: 'ไม่มีสิทธิ์เปิดงวดบัญชีที่ล็อคแล้ว',
+    };
+  }
+  if (!reason) {
+    return { success: false, message: 'A reason is required to unlock a period', messageTh: 'กรุณาระบุเหตุผลในการเปิดงวดบัญชี' };
+  }
+
+  const existing = await databaseService.getPeriodLock(clientId, period);
+  if (!existing?.is_locked) {
+    return { success: false, message: `Period ${period} is not locked`, messageTh: `งวด ${period} ยังไม่ได้ล็อค` };
+  }
+
+  const lock: PeriodLock = {
+    ...existing,
+    is_locked: false,
+    unlocked_at: new Date().toISOString(),
+    unlocked_by: userId,
+    unlock_reason: reason,
+  };
+  await databaseService.savePeriodLock(lock);
+
+  await auditHelpers.logPeriodAction(
+    'PERIOD_REOPEN',
+    userId,
+    request.userName || userId,
+    request.userRole || 'unknown',
+    period,
+    clientId,
+    request.clientName || clientId,
+    reason
+  );
+
+  return { success: true, lock, message: `Period ${period} unlocked`, messageTh: `เปิดงวด ${period} เรียบร้อย` };
+};
+
+export const periodLockService = {
+  getPeriodLockId,
+  isPeriodLocked,
+  getLockedPeriods,
+  lockPeriod,
+  unlockPeriod,
+};
+
+export default periodLockService;
@@ -16,6 +16,8 @@ import {
 } from 'firebase/firestore';
 import { db, isFirebaseConfigured } from './firebase';
 import { DocumentRecord, PostedGLEntry, BankTransaction } from '../types';
+import { calculateBroughtForwardBalances, isOpeningEntry } from './periodClosing';
+import { getFiscalYearOf, getFiscalYearRange } from './fiscalYear';
 
 const IS_DEMO_MODE = !isFirebaseConfigured;
 const STORAGE_KEY = 'WE_ACCOUNTING_DB_V1';
@@ -181,14 +183,71 @@ export const getGLEntriesByPeriod = async (
 };
 
 /**
- * Get trial balance for a period
+ * Get GL entries dated between two dates (inclusive)
+ */
+export const getGLEntriesByDateRange = async (
+    clientId: string,
+    startDate: string,
+    endDate: string
+): Promise<PostedGLEntry[]> => {
+    if (IS_DEMO_MODE || !db) {
+        const data = getLocalStorage();
+        return data.glEntries.filter((entry: PostedGLEntry) =>
+            entry.clientId === clientId && entry.date >= startDate && entry.date <= endDate
+        );
+    }
+
+    try {
+        const q = query(
+            collection(db, 'gl_entries'),
+            where('clientId', '==', clientId),
+            where('date', '>=', startDate),
+            where('date', '<=', endDate),
+            orderBy('date', 'asc')
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as PostedGLEntry));
+    } catch (error) {
+        console.error('Error fetching GL entries by date range:', error);
+        return [];
+    }
+};
+
+/**
+ * Get trial balance as of the end of a period
+ * Sums the fiscal year to date on top of its opening balance voucher; years
+ * that were never closed bring their balances forward from earlier history.
+ * @param month - Calendar month of `year`; omit for the fiscal year ending in `year`
+ * @param fiscalYearEndMonth - Client's fiscal year end (1-12)
  */
 export const getTrialBalanceByPeriod = async (
     clientId: string,
     year: number,
-    month?: string
+    month?: string,
+    fiscalYearEndMonth: number = 12
 ): Promise<{ account_code: string; account_name: string; debit: number; credit: number }[]> => {
-    const entries = await getGLEntriesByPeriod(clientId, year, month);
+    const lastMonth = month ? Number(month) : fiscalYearEndMonth;
+    const periodEnd = `${year}-${String(lastMonth).padStart(2, '0')}-${String(new Date(year, lastMonth, 0).getDate()).padStart(2, '0')}`;
+    const { start } = getFiscalYearRange(getFiscalYearOf(periodEnd, fiscalYearEndMonth), fiscalYearEndMonth);
+
+    const yearEntries = await getGLEntriesByDateRange(clientId, start, periodEnd);
+    const opening = yearEntries.find(e => e.date === start && isOpeningEntry(e) && !e.reversed_by && !e.reversal_of);
+    const entries = yearEntries.filter(e => !isOpeningEntry(e) || (opening && e.doc_no === opening.doc_no));
+
+    if (!opening) {
+        const history = await getGLEntriesByDateRange(clientId, '0000-01-01', start);
+        calculateBroughtForwardBalances(history, start).forEach(b => entries.push({
+            id: `BF-${b.accountCode}-${b.currency || 'THB'}`,
+            clientId,
+            date: start,
+            doc_no: 'BF',
+            description: 'ยอดยกมา',
+            account_code: b.accountCode,
+            account_name: b.accountName,
+            debit: b.balance > 0 ? b.balance : 0,
+            credit: b.balance < 0 ? Math.abs(b.balance) : 0,
+        }));
+    }
 
     const balances: Map<string, { account_name: string; debit: number; credit: number }> = new Map();
 
@@ -315,6 +374,7 @@ export const periodQueryService = {
 
     // GL Entries
     getGLEntriesByPeriod,
+    getGLEntriesByDateRange,
     getTrialBalanceByPeriod,
 
     // Bank Transactions
@@ -0,0 +1,335 @@
+/**
+ * PND54 Service (ภ.ง.ด.54)
+ * Withholding tax on payments to foreign juristic persons not carrying on business in Thailand
+ * Domestic rates under Section 70, reduced by double tax treaties, with gross-up
+ * when the payer bears the tax (condition 2/3)
+ */
+
+import { DocumentRecord } from '../types';
+import { EFilingHeader, EFilingResult, formatThaiDate, validateEFilingHeader } from './taxEfiling';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PND54IncomeType = 'royalty' | 'interest' | 'dividend' | 'service' | 'other';
+
+// 1 = หัก ณ ที่จ่าย, 2 = ออกให้ตลอดไป, 3 = ออกให้ครั้งเดียว
+export type PND54Condition = 1 | 2 | 3;
+
+export interface PND54Payment {
+  documentId?: string;
+  payeeName: string;
+  payeeTaxId?: string;        // Foreign TIN, if any
+  payeeAddress?: string;
+  country?: string;           // ISO 3166 alpha-2
+  incomeType: PND54IncomeType;
+  paymentDate: string;
+  currency: string;
+  amount: number;             // Gross for condition 1, amount actually remitted for 2/3
+  exchangeRate: number | null;
+  condition: PND54Condition;
+  rateOverride?: number;      // e.g. a reduced rate confirmed by a ruling
+}
+
+export interface PND54Item {
+  sequence: number;
+  documentId?: string;
+  payeeName: string;
+  payeeTaxId: string;
+  payeeAddress: string;
+  country: string;
+  incomeType: PND54IncomeType;
+  section: string;
+  paymentDate: string;
+  currency: string;
+  exchangeRate: number | null;
+  domesticRate: number;
+  treatyRate: number | null;
+  whtRate: number;
+  incomeAmount: number;       // THB, grossed up for condition 2/3
+  whtAmount: number;          // THB
+  netPayment: number;         // THB remitted abroad
+  condition: PND54Condition;
+}
+
+export interface TreatyCountry {
+  name: string;
+  nameTh: string;
+  rates: Partial<Record<PND54IncomeType, number>>;
+}
+
+// ============================================================================
+// RATES
+// ============================================================================
+
+export const PND54_INCOME_TYPES: Record<PND54IncomeType, { section: string; name: string; nameTh: string; domesticRate: number }> = {
+  royalty: { section: '40(3)', name: 'Royalties', nameTh: 'ค่าสิทธิ ค่าแห่งลิขสิทธิ์', domesticRate: 15 },
+  interest: { section: '40(4)(ก)', name: 'Interest', nameTh: 'ดอกเบี้ย', domesticRate: 15 },
+  dividend: { section: '40(4)(ข)', name: 'Dividends', nameTh: 'เงินปันผล', domesticRate: 10 },
+  service: { section: '40(2)', name: 'Service fees', nameTh: 'ค่าบริการ ค่านายหน้า', domesticRate: 15 },
+  other: { section: '40(8)', name: 'Other income', nameTh: 'เงินได้อื่น', domesticRate: 15 },
+};
+
+/**
+ * Headline treaty rates for the payments clients most often make abroad
+ * Service fees are business profits, exempt when the payee has no permanent establishment
+ * Interest uses the general rate; loans from banks may qualify for a lower one
+ */
+export const TREATY_RATES: Record<string, TreatyCountry> = {
+  AU: { name: 'Australia', nameTh: 'ออสเตรเลีย', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  CN: { name: 'China', nameTh: 'จีน', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  DE: { name: 'Germany', nameTh: 'เยอรมนี', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  GB: { name: 'United Kingdom', nameTh: 'สหราชอาณาจักร', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  HK: { name: 'Hong Kong', nameTh: 'ฮ่องกง', rates: { interest: 10, dividend: 10, royalty: 10, service: 0 } },
+  IE: { name: 'Ireland', nameTh: 'ไอร์แลนด์', rates: { interest: 10, dividend: 10, royalty: 10, service: 0 } },
+  JP: { name: 'Japan', nameTh: 'ญี่ปุ่น', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  NL: { name: 'Netherlands', nameTh: 'เนเธอร์แลนด์', rates: { interest: 10, dividend: 10, royalty: 15, service: 0 } },
+  SG: { name: 'Singapore', nameTh: 'สิงคโปร์', rates: { interest: 10, dividend: 10, royalty: 8, service: 0 } },
+  US: { name: 'United States', nameTh: 'สหรัฐอเมริกา', rates: { interest: 10, dividend: 10, royalty: 8, service: 0 } },
+};
+
+// Address keywords for countries whose names do not appear in TREATY_RATES as written on invoices
+const COUNTRY_ALIASES: Record<string, RegExp> = {
+  GB: /\bUK\b|england|london/i,
+  US: /\bUSA\b|\bU\.S\.|america/i,
+  HK: /hong kong/i,
+};
+
+/**
+ * Rate to withhold: an explicit override, else the lower of the domestic and treaty rate
+ */
+export const getPND54Rate = (
+  incomeType: PND54IncomeType,
+  country?: string,
+  rateOverride?: number
+): { domesticRate: number; treatyRate: number | null; whtRate: number } => {
+  const domesticRate = PND54_INCOME_TYPES[incomeType].domesticRate;
+  const treatyRate = country ? TREATY_RATES[country]?.rates[incomeType] ?? null : null;
+  const whtRate = rateOverride ?? (treatyRate === null ? domesticRate : Math.min(domesticRate, treatyRate));
+  return { domesticRate, treatyRate, whtRate };
+};
+
+/**
+ * Income and tax for a payment
+ * Condition 1 withholds from the gross; condition 2 bears the tax on the tax as well
+ * (income = net / (1 - rate)); condition 3 bears it once (income = net + net x rate)
+ */
+export const calculatePND54Withholding = (
+  amount: number,
+  whtRate: number,
+  condition: PND54Condition
+): { incomeAmount: number; whtAmount: number; netPayment: number } => {
+  const rate = whtRate / 100;
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+
+  if (condition === 1) {
+    const whtAmount = round2(amount * rate);
+    return { incomeAmount: round2(amount), whtAmount, netPayment: round2(amount - whtAmount) };
+  }
+
+  const whtAmount = condition === 2 ? round2(amount * rate / (1 - rate)) : round2(amount * rate);
+  return { incomeAmount: round2(amount + whtAmount), whtAmount, netPayment: round2(amount) };
+};
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+/**
+ * Find the payee's country from its address
+ */
+export const detectCountry = (address: string = ''): string | undefined => {
+  // Aliases first so "Hong Kong, China" resolves to HK
+  return Object.keys(COUNTRY_ALIASES).find(code => COUNTRY_ALIASES[code].test(address)) ||
+    Object.keys(TREATY_RATES).find(code => address.toLowerCase().includes(TREATY_RATES[code].name.toLowerCase()));
+};
+
+/**
+ * Guess the income type from the document wording
+ */
+export const detectPND54IncomeType = (text: string): PND54IncomeType => {
+  const lower = text.toLowerCase();
+  if (/royalt|licen[cs]e|ลิขสิทธิ์|ค่าสิทธิ/.test(lower)) return 'royalty';
+  if (/interest|ดอกเบี้ย/.test(lower)) return 'interest';
+  if (/dividend|เงินปันผล/.test(lower)) return 'dividend';
+  return 'service';
+};
+
+/**
+ * Build PND54 payments from documents coded PND54
+ * The condition comes from the 50 Tawi details; the amount is what the document bills
+ */
+export const documentsToPND54Payments = (documents: DocumentRecord[]): PND54Payment[] => {
+  return documents
+    .filter(doc => doc.ai_data?.tax_compliance.wht_code === 'PND54')
+    .map(doc => {
+      const { header_data, parties, financials, tax_compliance, accounting_entry } = doc.ai_data!;
+      const currency = (header_data.currency || 'THB').toUpperCase();
+      const condition = tax_compliance.wht_details?.condition;
+
+      return {
+        documentId: doc.id,
+        payeeName: parties.counterparty.name,
+        payeeTaxId: parties.counterparty.tax_id,
+        payeeAddress: parties.counterparty.address,
+        country: detectCountry(parties.counterparty.address),
+        incomeType: detectPND54IncomeType(`${header_data.doc_type} ${accounting_entry?.transaction_description || ''}`),
+        paymentDate: tax_compliance.wht_details?.payment_date || header_data.issue_date,
+        currency,
+        amount: financials.subtotal,
+        exchangeRate: currency === 'THB' ? 1 : header_data.exchange_rate ?? null,
+        condition: condition === 2 || condition === 3 ? condition : 1,
+      };
+    });
+};
+
+/**
+ * Compute PND54 rows in THB
+ */
+export const calculatePND54Items = (payments: PND54Payment[]): PND54Item[] => {
+  return payments.map((payment, index) => {
+    const { domesticRate, treatyRate, whtRate } = getPND54Rate(payment.incomeType, payment.country, payment.rateOverride);
+    const thbAmount = payment.exchangeRate ? Math.round(payment.amount * payment.exchangeRate * 100) / 100 : 0;
+    const { incomeAmount, whtAmount, netPayment } = calculatePND54Withholding(thbAmount, whtRate, payment.condition);
+
+    return {
+      sequence: index + 1,
+      documentId: payment.documentId,
+      payeeName: payment.payeeName,
+      payeeTaxId: payment.payeeTaxId || '',
+      payeeAddress: payment.payeeAddress || '',
+      country: payment.country || '',
+      incomeType: payment.incomeType,
+      section: PND54_INCOME_TYPES[payment.incomeType].section,
+      paymentDate: payment.paymentDate,
+      currency: payment.currency,
+      exchangeRate: payment.exchangeRate,
+      domesticRate,
+      treatyRate,
+      whtRate,
+      incomeAmount,
+      whtAmount,
+      netPayment,
+      condition: payment.condition,
+    };
+  });
+};
+
+// ============================================================================
+// FORM GENERATION
+// ============================================================================
+
+/**
+ * Validate PND54 rows before generating the upload file
+ */
+export const validatePND54Data = (
+  header: EFilingHeader,
+  items: PND54Item[]
+): string[] => {
+  const errors = validateEFilingHeader(header);
+
+  if (items.length === 0) {
+    errors.push('ไม่มีรายการจ่ายเงินไปต่างประเทศในงวดนี้');
+  }
+
+  items.forEach(item => {
+    const label = `รายการที่ ${item.sequence} (${item.payeeName})`;
+    if (item.exchangeRate === null) {
+      errors.push(`${label}: ไม่พบอัตราแลกเปลี่ยน ${item.currency}`);
+    } else if (item.incomeAmount <= 0) {
+      errors.push(`${label}: จำนวนเงินต้องมากกว่า 0`);
+    }
+    if (!item.country) {
+      errors.push(`${label}: กรุณาระบุประเทศของผู้รับเงิน`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Generate XML for PND54
+ */
+export const generatePND54XML = (
+  header: EFilingHeader,
+  items: PND54Item[]
+): string => {
+  const detailsXml = items.map(item => `
+    <WHTDetail>
+      <Sequence>${item.sequence}</Sequence>
+      <PayeeName><![CDATA[${item.payeeName}]]></PayeeName>
+      <PayeeForeignTaxID>${item.payeeTaxId}</PayeeForeignTaxID>
+      <PayeeAddress><![CDATA[${item.payeeAddress}]]></PayeeAddress>
+      <Country>${item.country}</Country>
+      <IncomeType>${item.section}</IncomeType>
+      <PaymentDate>${formatThaiDate(item.paymentDate)}</PaymentDate>
+      <Currency>${item.currency}</Currency>
+      <ExchangeRate>${(item.exchangeRate || 0).toFixed(4)}</ExchangeRate>
+      <IncomeAmount>${item.incomeAmount.toFixed(2)}</IncomeAmount>
+      <WHTRate>${item.whtRate.toFixed(2)}</WHTRate>
+      <TreatyRate>${item.treatyRate === null ? '' : item.treatyRate.toFixed(2)}</TreatyRate>
+      <WHTAmount>${item.whtAmount.toFixed(2)}</WHTAmount>
+      <Condition>${item.condition}</Condition>
+    </WHTDetail>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<PND54 xmlns="http://www.rd.go.th/efiling">
+  <Header>
+    <FormType>ภ.ง.ด.54</FormType>
+    <TaxPayerTaxID>${header.taxId.replace(/[^0-9]/g, '')}</TaxPayerTaxID>
+    <TaxPayerBranchNo>${header.branchNo || '00000'}</TaxPayerBranchNo>
+    <TaxPayerName><![CDATA[${header.companyName}]]></TaxPayerName>
+    <TaxPayerAddress><![CDATA[${header.address}]]></TaxPayerAddress>
+    <TaxMonth>${header.taxMonth}</TaxMonth>
+    <TaxYear>${header.taxYear}</TaxYear>
+    <TotalRecords>${header.totalRecords}</TotalRecords>
+    <TotalIncomeAmount>${header.totalAmount.toFixed(2)}</TotalIncomeAmount>
+    <TotalWHTAmount>${header.totalTax.toFixed(2)}</TotalWHTAmount>
+    <SubmissionDate>${formatThaiDate(new Date().toISOString())}</SubmissionDate>
+  </Header>
+  <Details>${detailsXml}
+  </Details>
+</PND54>`;
+};
+
+/**
+ * Generate the PND54 e-filing package from the period's documents
+ */
+export const generatePND54Package = (
+  header: EFilingHeader,
+  documents: DocumentRecord[]
+): EFilingResult => {
+  const items = calculatePND54Items(documentsToPND54Payments(documents));
+  const totalRecords = items.length;
+  const totalAmount = Math.round(items.reduce((sum, item) => sum + item.incomeAmount, 0) * 100) / 100;
+  const totalTax = Math.round(items.reduce((sum, item) => sum + item.whtAmount, 0) * 100) / 100;
+
+  const updatedHeader = { ...header, formType: 'PND54' as const, totalRecords, totalAmount, totalTax };
+  const validationErrors = validatePND54Data(updatedHeader, items);
+
+  return {
+    success: validationErrors.length === 0,
+    formType: 'PND54',
+    xmlContent: validationErrors.length === 0 ? generatePND54XML(updatedHeader, items) : '',
+    filename: `PND54_${header.taxYear}${header.taxMonth}_${header.taxId}.xml`,
+    validationErrors,
+    summary: { totalRecords, totalAmount, totalTax },
+  };
+};
+
+export const pnd54Service = {
+  getPND54Rate,
+  calculatePND54Withholding,
+  detectCountry,
+  detectPND54IncomeType,
+  documentsToPND54Payments,
+  calculatePND54Items,
+  validatePND54Data,
+  generatePND54XML,
+  generatePND54Package,
+  PND54_INCOME_TYPES,
+  TREATY_RATES,
+};
+
+export default pnd54Service;
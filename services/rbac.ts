@@ -187,6 +187,16 @@ export interface UserContext {
   clientId?: string; // For client users - their own client ID
 }
 
+/**
+ * Map a staff role as stored on the staff record ('Manager', 'Senior Accountant', 'admin')
+ * to an RBAC role; unknown roles get the least privileged staff role
+ */
+export const toUserRole = (role: string | undefined): UserRole => {
+  const normalized = (role || '').trim().toUpperCase().replace(/\s+/g, '_');
+  if (normalized === 'ACCOUNTANT') return 'JUNIOR_ACCOUNTANT';
+  return normalized in ROLE_HIERARCHY ? normalized as UserRole : 'INTERN';
+};
+
 /**
  * Check if user has specific permission
  */
@@ -380,6 +390,7 @@ export const createPermissionChecker = (user: UserContext) => {
 };
 
 export default {
+  toUserRole,
   hasPermission,
   hasAnyPermission,
   hasAllPermissions,
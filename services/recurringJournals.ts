@@ -0,0 +1,377 @@
+/**
+ * recurringJournals.ts
+ *
+ * Recurring Journal Templates
+ * รายการบันทึกบัญชีประจำ (ค่าเช่า ดอกเบี้ยเงินกู้ ค่าบริหารจัดการ)
+ *
+ * Each template produces one voucher per occurrence from its start month.
+ * Occurrences not yet posted or skipped become drafts for every open period
+ * up to the run period; each draft is checked with validateGLPosting so the
+ * reviewer sees problems before posting. Templates marked autoPost have
+ * their valid drafts posted by the scheduler. Loan lines take their amount
+ * from the template's amortization table (equal installments, interest on
+ * the outstanding balance, last installment clears the balance).
+ */
+
+import {
+  PostedGLEntry,
+  RecurringAmountFormula,
+  RecurringJournalFrequency,
+  RecurringJournalLine,
+  RecurringJournalTemplate,
+  RecurringLoanTerms,
+} from '../types';
+import { validateGLPosting, ValidationResult } from './accountingValidation';
+import { databaseService } from './database';
+import { isPeriodLocked } from './periodLock';
+import { postDraftVouchers } from './voucherNumbering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TemplateInput = Pick<
+  RecurringJournalTemplate,
+  'name' | 'description' | 'lines' | 'frequency' | 'postingDay' | 'startDate' | 'endDate' | 'loan' | 'autoPost'
+>;
+
+export interface LoanScheduleRow {
+  installment: number; // 1-based
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number; // Outstanding after the installment
+}
+
+export interface RecurringJournalDraft {
+  template: RecurringJournalTemplate;
+  period: string; // YYYY-MM
+  entries: PostedGLEntry[]; // Draft doc_no JV-REC-{period}-{templateId}
+  validation: ValidationResult;
+}
+
+export interface RecurringRunResult {
+  posted: PostedGLEntry[];
+  pending: RecurringJournalDraft[]; // Awaiting review or failing validation
+  errors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FREQUENCY_MONTHS: Record<RecurringJournalFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export const FREQUENCY_NAMES: Record<RecurringJournalFrequency, string> = {
+  monthly: 'รายเดือน',
+  quarterly: 'รายไตรมาส',
+  yearly: 'รายปี',
+};
+
+export const FORMULA_NAMES: Record<RecurringAmountFormula, string> = {
+  loan_interest: 'ดอกเบี้ยตามตารางผ่อน',
+  loan_principal: 'เงินต้นตามตารางผ่อน',
+  loan_installment: 'ค่างวดตามตารางผ่อน',
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const d = new Date(year, month - 1 + months, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Occurrence periods (YYYY-MM) from the template start through throughPeriod
+ */
+export const getOccurrencePeriods = (
+  template: Pick<RecurringJournalTemplate, 'frequency' | 'startDate' | 'endDate'>,
+  throughPeriod: string
+): string[] => {
+  const last = template.endDate && template.endDate.slice(0, 7) < throughPeriod ? template.endDate.slice(0, 7) : throughPeriod;
+  const periods: string[] = [];
+  for (let p = template.startDate.slice(0, 7); p <= last; p = addMonths(p, FREQUENCY_MONTHS[template.frequency])) {
+    periods.push(p);
+  }
+  return periods;
+};
+
+/**
+ * Posting date in a period; days past the month's end fall on its last day
+ */
+export const getPostingDate = (period: string, postingDay: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const lastDay = new Date(year, month, 0).getDate();
+  const day = postingDay > 0 ? Math.min(postingDay, lastDay) : lastDay;
+  return `${period}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Equal-installment loan table, one row per occurrence
+ */
+export const buildLoanSchedule = (loan: RecurringLoanTerms, frequency: RecurringJournalFrequency): LoanScheduleRow[] => {
+  const rate = loan.annualRate / 100 * FREQUENCY_MONTHS[frequency] / 12;
+  const payment = rate === 0
+    ? round2(loan.principal / loan.termPeriods)
+    : round2(loan.principal * rate / (1 - Math.pow(1 + rate, -loan.termPeriods)));
+
+  const rows: LoanScheduleRow[] = [];
+  let balance = loan.principal;
+  for (let i = 1; i <= loan.termPeriods; i++) {
+    const interest = round2(balance * rate);
+    const principal = i === loan.termPeriods ? round2(balance) : round2(payment - interest);
+    balance = round2(balance - principal);
+    rows.push({ installment: i, payment: round2(principal + interest), interest, principal, balance });
+  }
+  return rows;
+};
+
+const lineAmount = (line: RecurringJournalLine, row?: LoanScheduleRow): number => {
+  switch (line.formula) {
+    case 'loan_interest': return row?.interest || 0;
+    case 'loan_principal': return row?.principal || 0;
+    case 'loan_installment': return row?.payment || 0;
+    default: return round2(line.amount);
+  }
+};
+
+/**
+ * Voucher lines for one occurrence; lines with no amount (loan repaid) are left out
+ */
+export const buildOccurrenceEntries = (template: RecurringJournalTemplate, period: string): PostedGLEntry[] => {
+  const index = getOccurrencePeriods(template, period).indexOf(period);
+  if (index < 0) return [];
+
+  const row = template.loan ? buildLoanSchedule(template.loan, template.frequency)[index] : undefined;
+  const date = getPostingDate(period, template.postingDay);
+
+  return template.lines.flatMap((line, i) => {
+    const amount = lineAmount(line, row);
+    if (!(amount > 0)) return [];
+    return [{
+      id: `REC-${template.id}-${period}-${i}`,
+      clientId: template.clientId,
+      date,
+      doc_no: `JV-REC-${period}-${template.id}`,
+      description: template.description || template.name,
+      account_code: line.account_code,
+      account_name: line.account_name,
+      debit: line.side === 'DEBIT' ? amount : 0,
+      credit: line.side === 'CREDIT' ? amount : 0,
+      ...(line.department_code ? { department_code: line.department_code } : {}),
+      system_generated: true,
+    }];
+  });
+};
+
+/**
+ * Drafts for every open period not yet posted or skipped, validated for review
+ */
+export const getDueDrafts = async (
+  templates: RecurringJournalTemplate[],
+  throughPeriod: string,
+  userId: string
+): Promise<RecurringJournalDraft[]> => {
+  const drafts: RecurringJournalDraft[] = [];
+  for (const template of templates.filter(t => t.isActive)) {
+    const done = new Set([...template.postedPeriods, ...template.skippedPeriods]);
+    for (const period of getOccurrencePeriods(template, throughPeriod)) {
+      if (done.has(period) || await isPeriodLocked(template.clientId, period)) continue;
+
+      const entries = buildOccurrenceEntries(template, period);
+      if (entries.length === 0) continue;
+      const validation = await validateGLPosting({ entries, clientId: template.clientId, periodMonth: period, userId });
+      drafts.push({ template, period, entries, validation });
+    }
+  }
+  return drafts.sort((a, b) => a.period.localeCompare(b.period) || a.template.name.localeCompare(b.template.name));
+};
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+// Re-read so drafts of the same template posted one after another keep each other's periods
+const currentTemplate = async (template: RecurringJournalTemplate): Promise<RecurringJournalTemplate> =>
+  (await databaseService.getRecurringJournalTemplates(template.clientId)).find(t => t.id === template.id) || template;
+
+/**
+ * Post a reviewed draft and mark its period done
+ */
+export const postRecurringDraft = async (
+  draft: RecurringJournalDraft,
+  userId: string
+): Promise<{ success: boolean; entries: PostedGLEntry[]; errors: string[] }> => {
+  const { template, period } = draft;
+  const [result] = await postDraftVouchers(template.clientId, 'JV', draft.entries, userId);
+  if (!result.success || !result.docNo) {
+    return { success: false, entries: [], errors: result.validation.errors.map(e => `${template.name} ${period}: ${e.messageTh}`) };
+  }
+
+  const current = await currentTemplate(template);
+  await databaseService.saveRecurringJournalTemplate({
+    ...current,
+    postedPeriods: Array.from(new Set([...current.postedPeriods, period])).sort(),
+    updatedAt: new Date().toISOString(),
+  });
+
+  return {
+    success: true,
+    entries: draft.entries.map(({ doc_no, ...e }, i) => ({
+      ...e,
+      id: result.ids[i],
+      doc_no: result.docNo!,
+      reference_no: doc_no,
+      journal_type: 'JV',
+    })),
+    errors: [],
+  };
+};
+
+/**
+ * Dismiss an occurrence, e.g. rent waived for the month
+ */
+export const skipRecurringDraft = async (draft: RecurringJournalDraft): Promise<RecurringJournalTemplate> => {
+  const current = await currentTemplate(draft.template);
+  const updated: RecurringJournalTemplate = {
+    ...current,
+    skippedPeriods: Array.from(new Set([...current.skippedPeriods, draft.period])).sort(),
+    updatedAt: new Date().toISOString(),
+  };
+  await databaseService.saveRecurringJournalTemplate(updated);
+  return updated;
+};
+
+/**
+ * Scheduler: post valid drafts of autoPost templates, leave the rest for review
+ */
+export const runRecurringJournals = async (
+  clientId: string,
+  throughPeriod: string,
+  userId: string
+): Promise<RecurringRunResult> => {
+  const drafts = await getDueDrafts(await databaseService.getRecurringJournalTemplates(clientId), throughPeriod, userId);
+  const result: RecurringRunResult = { posted: [], pending: [], errors: [] };
+
+  for (const draft of drafts) {
+    if (!draft.template.autoPost || !draft.validation.isValid) {
+      result.pending.push(draft);
+      continue;
+    }
+    const posted = await postRecurringDraft(draft, userId);
+    result.posted.push(...posted.entries);
+    result.errors.push(...posted.errors);
+    if (!posted.success) result.pending.push(draft);
+  }
+  return result;
+};
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+const validateTemplate = (input: TemplateInput): string | null => {
+  if (!input.name.trim()) return 'กรุณาระบุชื่อรายการ';
+  if (input.lines.length < 2) return 'ต้องมีอย่างน้อย 2 บรรทัด';
+  if (input.lines.some(l => !l.account_code)) return 'กรุณาระบุรหัสบัญชีทุกบรรทัด';
+  if (input.lines.some(l => !l.formula && !(l.amount > 0))) return 'จำนวนเงินต้องมากกว่า 0';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) return 'วันที่เริ่มต้นไม่ถูกต้อง';
+  if (input.endDate && input.endDate < input.startDate) return 'วันที่สิ้นสุดต้องไม่ก่อนวันที่เริ่มต้น';
+  if (!Number.isInteger(input.postingDay) || input.postingDay < 0 || input.postingDay > 31) return 'วันที่บันทึกต้องอยู่ระหว่าง 0-31 (0 = สิ้นเดือน)';
+
+  if (input.lines.some(l => l.formula)) {
+    const loan = input.loan;
+    if (!loan) return 'บรรทัดที่ใช้สูตรต้องระบุเงื่อนไขเงินกู้';
+    if (!(loan.principal > 0)) return 'เงินต้นต้องมากกว่า 0';
+    if (!(loan.annualRate >= 0)) return 'อัตราดอกเบี้ยต้องไม่ติดลบ';
+    if (!Number.isInteger(loan.termPeriods) || loan.termPeriods < 1) return 'จำนวนงวดต้องเป็นจำนวนเต็มตั้งแต่ 1 ขึ้นไป';
+  }
+
+  // Check the balance on the first occurrence, formulas included
+  const row = input.loan ? buildLoanSchedule(input.loan, input.frequency)[0] : undefined;
+  const total = (side: RecurringJournalLine['side']) =>
+    round2(input.lines.filter(l => l.side === side).reduce((sum, l) => sum + lineAmount(l, row), 0));
+  if (total('DEBIT') !== total('CREDIT')) {
+    return `ยอดเดบิต ${total('DEBIT').toFixed(2)} ไม่เท่ากับเครดิต ${total('CREDIT').toFixed(2)}`;
+  }
+  return null;
+};
+
+/**
+ * Register a new template
+ */
+export const createTemplate = async (
+  clientId: string,
+  input: TemplateInput,
+  userId: string
+): Promise<RecurringJournalTemplate> => {
+  const error = validateTemplate(input);
+  if (error) throw new Error(error);
+
+  const template: RecurringJournalTemplate = {
+    ...input,
+    id: `REC-${clientId}-${Date.now()}`,
+    clientId,
+    name: input.name.trim(),
+    isActive: true,
+    postedPeriods: [],
+    skippedPeriods: [],
+    createdAt: new Date().toISOString(),
+    createdBy: userId,
+  };
+  await databaseService.saveRecurringJournalTemplate(template);
+  return template;
+};
+
+/**
+ * Edit a template; posted occurrences are not restated
+ */
+export const updateTemplate = async (
+  template: RecurringJournalTemplate,
+  changes: Partial<TemplateInput>
+): Promise<RecurringJournalTemplate> => {
+  const input = { ...template, ...changes };
+  const error = validateTemplate(input);
+  if (error) throw new Error(error);
+
+  const updated: RecurringJournalTemplate = { ...input, name: input.name.trim(), updatedAt: new Date().toISOString() };
+  await databaseService.saveRecurringJournalTemplate(updated);
+  return updated;
+};
+
+/**
+ * Pause or resume a template
+ */
+export const setTemplateActive = async (
+  template: RecurringJournalTemplate,
+  isActive: boolean
+): Promise<RecurringJournalTemplate> => {
+  const updated: RecurringJournalTemplate = { ...template, isActive, updatedAt: new Date().toISOString() };
+  await databaseService.saveRecurringJournalTemplate(updated);
+  return updated;
+};
+
+export const recurringJournalService = {
+  getOccurrencePeriods,
+  getPostingDate,
+  buildLoanSchedule,
+  buildOccurrenceEntries,
+  getDueDrafts,
+  postRecurringDraft,
+  skipRecurringDraft,
+  runRecurringJournals,
+  createTemplate,
+  updateTemplate,
+  setTemplateActive,
+};
+
+export default recurringJournalService;
@@ -4,6 +4,7 @@
  */
 
 import { DocumentRecord, Client, Staff, PostedGLEntry } from '../types';
+import { BudgetVsActualReport } from './budget';
 
 // ============================================================================
 // TYPES
@@ -253,9 +254,10 @@ export const calculateKPIs = (
 export const generateAlerts = (
   documents: DocumentRecord[],
   clients: Client[],
-  staff: Staff[]
+  staff: Staff[],
+  budgetReports: BudgetVsActualReport[] = []
 ): Alert[] => {
-  const alerts: Alert[] = [];
+  const alerts: Alert[] = [...generateBudgetAlerts(budgetReports)];
   const now = new Date();
   const today = now.toISOString().split('T')[0];
 
@@ -364,6 +366,38 @@ export const generateAlerts = (
   });
 };
 
+/**
+ * Alerts for budget lines whose unfavorable variance crosses the report's threshold
+ * Critical when net profit misses budget by more than twice the threshold
+ */
+export const generateBudgetAlerts = (reports: BudgetVsActualReport[]): Alert[] => {
+  const now = new Date();
+  const format = (amount: number) => new Intl.NumberFormat('th-TH').format(Math.abs(amount));
+
+  return reports
+    .filter(r => r.flagged.length > 0)
+    .map(report => {
+      const { netProfit } = report.totals;
+      const profitShortfall = netProfit.variance < 0 && netProfit.variancePercent !== null &&
+        Math.abs(netProfit.variancePercent) >= report.threshold.percentage * 2;
+      const worst = [...report.flagged].sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance))[0];
+
+      return {
+        id: `budget-variance-${report.clientId}-${report.fiscalYear}-${report.toMonth}`,
+        type: profitShortfall ? 'critical' : 'warning',
+        category: 'financial',
+        title: `${report.clientName}: ${report.flagged.length} Accounts Over Budget`,
+        titleTh: `${report.clientName}: ${report.flagged.length} บัญชีเกินงบประมาณ`,
+        message: `Largest variance ${worst.accountCode} ${worst.accountName}: ${format(worst.variance)} THB (${worst.variancePercent ?? '-'}%)`,
+        messageTh: `ผลต่างสูงสุด ${worst.accountCode} ${worst.accountName}: ${format(worst.variance)} บาท (${worst.variancePercent ?? '-'}%)` +
+          (netProfit.variance < 0 ? ` · กำไรสุทธิต่ำกว่างบ ${format(netProfit.variance)} บาท` : ''),
+        timestamp: now.toISOString(),
+        clientId: report.clientId,
+        isDismissed: false,
+      } as Alert;
+    });
+};
+
 // ============================================================================
 // ACTION ITEMS
 // ============================================================================
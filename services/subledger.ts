@@ -0,0 +1,318 @@
+/**
+ * subledger.ts
+ *
+ * Accounts receivable / payable subledgers
+ * ทะเบียนลูกหนี้และเจ้าหนี้รายตัว พร้อมรายงานอายุหนี้
+ *
+ * Open items are derived from approved documents: sales invoices feed AR,
+ * purchase invoices feed AP, credit notes reduce the counterparty balance.
+ * Bank transactions matched to an invoice (matched_doc_id) are applied as
+ * payments, so several matches against one invoice are partial payments.
+ * Everything is keyed by counterparty tax ID.
+ */
+
+import { BankTransaction, DocumentRecord, PostedGLEntry } from '../types';
+import { ProvisionItem, CLOSING_ACCOUNTS, isOpeningEntry } from './periodClosing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SubledgerType = 'AR' | 'AP';
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface SubledgerPayment {
+  bankTxnId: string;
+  date: string;
+  amount: number; // THB applied to the item
+}
+
+export interface OpenItem {
+  docId: string;
+  docNo: string;
+  ledger: SubledgerType;
+  kind: 'invoice' | 'credit_note';
+  counterpartyTaxId: string;
+  counterpartyName: string;
+  issueDate: string;
+  dueDate: string;
+  originalAmount: number; // THB incl. VAT
+  paidAmount: number;
+  creditedAmount: number; // Credit notes allocated to this invoice
+  outstanding: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  payments: SubledgerPayment[];
+}
+
+export interface CounterpartyLedger {
+  taxId: string;
+  name: string;
+  items: OpenItem[]; // Invoices with an outstanding balance
+  unappliedCredits: number; // Credit notes / overpayments not yet allocated
+  buckets: Record<AgingBucket, number>;
+  balance: number; // Outstanding less unapplied credits
+}
+
+export interface AgingReport {
+  clientId: string;
+  ledger: SubledgerType;
+  asOfDate: string;
+  counterparties: CounterpartyLedger[];
+  totals: Record<AgingBucket, number> & { unappliedCredits: number; balance: number };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AGING_BUCKETS: { bucket: AgingBucket; label: string; maxDays: number }[] = [
+  { bucket: '0-30', label: '0-30 วัน', maxDays: 30 },
+  { bucket: '31-60', label: '31-60 วัน', maxDays: 60 },
+  { bucket: '61-90', label: '61-90 วัน', maxDays: 90 },
+  { bucket: '90+', label: 'เกิน 90 วัน', maxDays: Infinity },
+];
+
+// Share of each bucket expected to be uncollectible (%)
+export const DEFAULT_BAD_DEBT_RATES: Record<AgingBucket, number> = {
+  '0-30': 1,
+  '31-60': 5,
+  '61-90': 20,
+  '90+': 50,
+};
+
+export const BAD_DEBT_EXPENSE_ACCOUNT = '53500';
+
+// Trade receivable / payable control accounts and sub-accounts
+const AR_CONTROL_PREFIX = '113';
+const AP_CONTROL_PREFIX = '212';
+
+const POSTED_STATUSES: DocumentRecord['status'][] = ['approved', 'reconciled'];
+
+const CREDIT_NOTE_PATTERN = /credit\s*note|ใบลดหนี้/i;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+export const normalizeTaxId = (taxId?: string): string => (taxId || '').replace(/\D/g, '');
+
+/**
+ * Which subledger a document belongs to
+ * Only documents booked to a trade receivable (113xx) or payable (212xx) control
+ * account open an item; cash sales and purchases never reach a subledger
+ */
+export const getSubledgerType = (doc: DocumentRecord): SubledgerType | null => {
+  const lines = doc.ai_data?.accounting_entry?.journal_lines || [];
+  if (lines.some(l => l.account_code.startsWith(AR_CONTROL_PREFIX) && l.account_code !== CLOSING_ACCOUNTS.BAD_DEBT_PROVISION)) return 'AR';
+  if (lines.some(l => l.account_code.startsWith(AP_CONTROL_PREFIX))) return 'AP';
+  return null;
+};
+
+export const isCreditNote = (doc: DocumentRecord): boolean =>
+  CREDIT_NOTE_PATTERN.test(doc.ai_data?.header_data?.doc_type || '');
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket =>
+  AGING_BUCKETS.find(b => daysOverdue <= b.maxDays)!.bucket;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+// ============================================================================
+// SUBLEDGER
+// ============================================================================
+
+/**
+ * Build a client's AR or AP subledger as of a date
+ */
+export const buildSubledger = (
+  clientId: string,
+  ledger: SubledgerType,
+  documents: DocumentRecord[],
+  bankTransactions: BankTransaction[],
+  asOfDate: string
+): CounterpartyLedger[] => {
+  const docs = documents.filter(d =>
+    (!d.clientId || d.clientId === clientId) &&
+    POSTED_STATUSES.includes(d.status) &&
+    d.ai_data?.header_data?.issue_date &&
+    d.ai_data.header_data.issue_date <= asOfDate &&
+    getSubledgerType(d) === ledger
+  );
+
+  // AR is collected through deposits, AP is paid through withdrawals
+  const paymentsByDoc = new Map<string, BankTransaction[]>();
+  bankTransactions
+    .filter(t =>
+      t.clientId === clientId &&
+      t.matched_doc_id &&
+      t.date <= asOfDate &&
+      (ledger === 'AR' ? t.amount > 0 : t.amount < 0)
+    )
+    .forEach(t => paymentsByDoc.set(t.matched_doc_id!, [...(paymentsByDoc.get(t.matched_doc_id!) || []), t]));
+
+  const ledgers = new Map<string, { name: string; invoices: OpenItem[]; credits: number }>();
+
+  docs
+    .sort((a, b) => a.ai_data!.header_data.issue_date.localeCompare(b.ai_data!.header_data.issue_date))
+    .forEach(doc => {
+      const { header_data, parties } = doc.ai_data!;
+      const counterparty = parties?.counterparty;
+      const taxId = normalizeTaxId(counterparty?.tax_id) || `NO-TAX-ID:${counterparty?.name || doc.client_name}`;
+      if (!ledgers.has(taxId)) {
+        ledgers.set(taxId, { name: counterparty?.name || doc.client_name, invoices: [], credits: 0 });
+      }
+      const account = ledgers.get(taxId)!;
+
+      const payments = (paymentsByDoc.get(doc.id) || []).map(t => ({
+        bankTxnId: t.id,
+        date: t.date,
+        amount: round2(Math.abs(t.amount)),
+      }));
+      const paidAmount = round2(payments.reduce((sum, p) => sum + p.amount, 0));
+
+      if (isCreditNote(doc)) {
+        // A refund matched to the credit note uses it up
+        account.credits = round2(account.credits + Math.max(0, Math.abs(doc.amount) - paidAmount));
+        return;
+      }
+
+      const dueDate = header_data.due_date || header_data.issue_date;
+      const daysOverdue = Math.max(0, daysBetween(dueDate, asOfDate));
+      const overpaid = round2(paidAmount - doc.amount);
+      if (overpaid > 0) account.credits = round2(account.credits + overpaid);
+
+      account.invoices.push({
+        docId: doc.id,
+        docNo: header_data.inv_number || doc.filename,
+        ledger,
+        kind: 'invoice',
+        counterpartyTaxId: taxId,
+        counterpartyName: account.name,
+        issueDate: header_data.issue_date,
+        dueDate,
+        originalAmount: doc.amount,
+        paidAmount,
+        creditedAmount: 0,
+        outstanding: round2(Math.max(0, doc.amount - paidAmount)),
+        daysOverdue,
+        bucket: getAgingBucket(daysOverdue),
+        payments,
+      });
+    });
+
+  return Array.from(ledgers.entries()).map(([taxId, account]) => {
+    // Credit notes are allocated to the oldest open invoices first
+    let credits = account.credits;
+    account.invoices.forEach(item => {
+      if (credits <= 0 || item.outstanding <= 0) return;
+      const applied = Math.min(credits, item.outstanding);
+      item.creditedAmount = round2(applied);
+      item.outstanding = round2(item.outstanding - applied);
+      credits = round2(credits - applied);
+    });
+
+    const items = account.invoices.filter(i => i.outstanding > 0);
+    const buckets = emptyBuckets();
+    items.forEach(i => { buckets[i.bucket] = round2(buckets[i.bucket] + i.outstanding); });
+    const outstanding = items.reduce((sum, i) => sum + i.outstanding, 0);
+
+    return {
+      taxId,
+      name: account.name,
+      items,
+      unappliedCredits: credits,
+      buckets,
+      balance: round2(outstanding - credits),
+    };
+  }).filter(c => c.items.length > 0 || c.unappliedCredits > 0);
+};
+
+/**
+ * Aging report per client and counterparty
+ */
+export const generateAgingReport = (
+  clientId: string,
+  ledger: SubledgerType,
+  documents: DocumentRecord[],
+  bankTransactions: BankTransaction[],
+  asOfDate: string
+): AgingReport => {
+  const counterparties = buildSubledger(clientId, ledger, documents, bankTransactions, asOfDate)
+    .sort((a, b) => b.balance - a.balance);
+
+  const totals = { ...emptyBuckets(), unappliedCredits: 0, balance: 0 };
+  counterparties.forEach(c => {
+    AGING_BUCKETS.forEach(({ bucket }) => { totals[bucket] = round2(totals[bucket] + c.buckets[bucket]); });
+    totals.unappliedCredits = round2(totals.unappliedCredits + c.unappliedCredits);
+    totals.balance = round2(totals.balance + c.balance);
+  });
+
+  return { clientId, ledger, asOfDate, counterparties, totals };
+};
+
+// ============================================================================
+// BAD DEBT PROVISION
+// ============================================================================
+
+/**
+ * Estimate the allowance for doubtful accounts from AR aging
+ * Returns a ProvisionItem for calculateProvisions topping the allowance
+ * (11301) up from its current GL balance to the required amount
+ */
+export const estimateBadDebtProvision = (
+  report: AgingReport,
+  glEntries: PostedGLEntry[],
+  rates: Record<AgingBucket, number> = DEFAULT_BAD_DEBT_RATES
+): { requiredAllowance: number; existingAllowance: number; byBucket: Record<AgingBucket, number>; items: ProvisionItem[] } => {
+  const byBucket = emptyBuckets();
+  AGING_BUCKETS.forEach(({ bucket }) => {
+    byBucket[bucket] = round2(report.totals[bucket] * (rates[bucket] / 100));
+  });
+  const requiredAllowance = round2(Object.values(byBucket).reduce((sum, v) => sum + v, 0));
+
+  // Opening vouchers restate balances already in the history; count them once
+  const existingAllowance = round2(
+    glEntries
+      .filter(e =>
+        e.clientId === report.clientId &&
+        e.account_code === CLOSING_ACCOUNTS.BAD_DEBT_PROVISION &&
+        e.date <= report.asOfDate &&
+        !isOpeningEntry(e)
+      )
+      .reduce((sum, e) => sum + e.credit - e.debit, 0)
+  );
+
+  const topUp = round2(requiredAllowance - existingAllowance);
+  const items: ProvisionItem[] = topUp > 0 ? [{
+    id: `BAD-DEBT-${report.asOfDate}`,
+    type: 'bad_debt',
+    description: `ตามอายุลูกหนี้ ณ ${report.asOfDate}`,
+    estimatedAmount: topUp,
+    probability: 100,
+    provisionAmount: topUp,
+    accountCode: CLOSING_ACCOUNTS.BAD_DEBT_PROVISION,
+    expenseAccountCode: BAD_DEBT_EXPENSE_ACCOUNT,
+  }] : [];
+
+  return { requiredAllowance, existingAllowance, byBucket, items };
+};
+
+export const subledgerService = {
+  AGING_BUCKETS,
+  DEFAULT_BAD_DEBT_RATES,
+  normalizeTaxId,
+  getSubledgerType,
+  isCreditNote,
+  getAgingBucket,
+  buildSubledger,
+  generateAgingReport,
+  estimateBadDebtProvision,
+};
+
+export default subledgerService;
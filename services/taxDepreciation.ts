@@ -0,0 +1,218 @@
+/**
+ * taxDepreciation.ts
+ *
+ * Tax-Basis Depreciation & Book-Tax Differences
+ * ค่าเสื่อมราคาทางภาษีและผลต่างระหว่างบัญชีกับภาษี (พระราชกฤษฎีกาฉบับที่ 145)
+ *
+ * The tax book runs beside the book schedule from buildDepreciationSchedule:
+ * straight-line at the Revenue Department maximum rate for the asset class,
+ * on a cost capped at 1,000,000 THB for passenger cars. A deduction is only
+ * allowed for depreciation actually booked, so the deductible amount to date
+ * is the lower of book charges and the tax allowance to date. Whatever was
+ * booked beyond that is added back to taxable profit; impairment losses are
+ * not deductible until the tax allowance catches up with them.
+ */
+
+import { FixedAsset } from '../types';
+import { buildDepreciationSchedule } from './periodClosing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaxDepreciationRow {
+  period: string; // YYYY-MM
+  bookDepreciation: number;
+  bookImpairment: number;
+  taxAllowance: number; // Maximum the Revenue Code allows for the month
+  deductible: number; // Claimed for tax
+  addBack: number; // Book charges not deductible this month
+  disposalAdjustment: number; // Book NBV less tax NBV in the disposal month (positive = add back)
+  taxNetBookValue: number;
+}
+
+export interface BookTaxDifferenceLine {
+  assetId: string;
+  assetCode: string;
+  assetName: string;
+  taxBasis: number;
+  taxRate: number; // Annual %
+  bookDepreciation: number;
+  bookImpairment: number;
+  taxDeductible: number;
+  disposalAdjustment: number;
+  addBack: number; // Net amount added to (negative: deducted from) taxable profit
+}
+
+export interface BookTaxDifferenceReport {
+  range: { start: string; end: string };
+  lines: BookTaxDifferenceLine[];
+  totalBookDepreciation: number;
+  totalTaxDeductible: number;
+  totalAddBack: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Maximum annual rates (% of cost) under Royal Decree No. 145
+export const RD_MAX_DEPRECIATION_RATES: Record<FixedAsset['category'], number> = {
+  Land: 0,
+  Building: 5,
+  Vehicle: 20,
+  Equipment: 20,
+  Software: 100 / 3, // Computer hardware and software: 3 accounting periods
+};
+
+export const PASSENGER_CAR_COST_CAP = 1000000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ============================================================================
+// TAX BOOK
+// ============================================================================
+
+/**
+ * Cost the tax allowance is calculated on
+ */
+export const getTaxBasis = (asset: FixedAsset): number =>
+  asset.category === 'Vehicle' && asset.is_passenger_car ? Math.min(asset.cost, PASSENGER_CAR_COST_CAP) : asset.cost;
+
+/**
+ * Annual tax rate (%): the asset's own rate, never above the Revenue Department maximum
+ */
+export const getTaxDepreciationRate = (asset: FixedAsset): number => {
+  const max = RD_MAX_DEPRECIATION_RATES[asset.category] || 0;
+  return asset.tax_depreciation_rate && asset.tax_depreciation_rate > 0 ? Math.min(asset.tax_depreciation_rate, max) : max;
+};
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Month-by-month tax book alongside the book schedule
+ * When the book life is shorter than the tax life the tax book runs on after
+ * the last book charge, deducting what was added back until the allowance
+ * reaches the basis (or the asset is disposed of).
+ */
+export const buildTaxDepreciationSchedule = (asset: FixedAsset, throughPeriod?: string): TaxDepreciationRow[] => {
+  const basis = getTaxBasis(asset);
+  const monthlyAllowance = basis * getTaxDepreciationRate(asset) / 100 / 12;
+  const disposalPeriod = asset.disposal_date?.slice(0, 7);
+
+  const bookRows = buildDepreciationSchedule(asset, throughPeriod);
+  const rows: TaxDepreciationRow[] = [];
+  let bookToDate = 0;
+  let allowanceToDate = 0;
+  let deductibleToDate = 0;
+  let monthsInService = 0;
+
+  const addRow = (period: string, inService: boolean) => {
+    const book = bookRows.find(r => r.period === period);
+    const bookDepreciation = book?.depreciation || 0;
+    const bookImpairment = book?.impairment || 0;
+
+    // Rounded on the cumulative amount so a full year totals exactly rate x basis
+    if (inService) monthsInService++;
+    const taxAllowance = round2(Math.min(round2(monthlyAllowance * monthsInService), basis) - allowanceToDate);
+    allowanceToDate = round2(allowanceToDate + taxAllowance);
+    bookToDate = round2(bookToDate + bookDepreciation + bookImpairment);
+
+    const deductible = round2(Math.min(bookToDate, allowanceToDate) - deductibleToDate);
+    deductibleToDate = round2(deductibleToDate + deductible);
+
+    // On disposal the book gain/loss is replaced by the tax gain/loss
+    const disposalAdjustment = period === disposalPeriod
+      ? round2((asset.cost - bookToDate) - (basis - deductibleToDate))
+      : 0;
+
+    rows.push({
+      period,
+      bookDepreciation,
+      bookImpairment,
+      taxAllowance,
+      deductible,
+      addBack: round2(bookDepreciation + bookImpairment - deductible),
+      disposalAdjustment,
+      taxNetBookValue: round2(basis - deductibleToDate),
+    });
+  };
+
+  bookRows.forEach(r => addRow(r.period, true));
+
+  // Deduct the remaining add-back once book depreciation has stopped
+  const lastBookPeriod = bookRows[bookRows.length - 1]?.period;
+  if (lastBookPeriod && monthlyAllowance > 0) {
+    for (
+      let period = addMonths(lastBookPeriod, 1);
+      deductibleToDate < Math.min(bookToDate, basis) &&
+        (!throughPeriod || period <= throughPeriod) &&
+        (!disposalPeriod || period < disposalPeriod);
+      period = addMonths(period, 1)
+    ) {
+      addRow(period, true);
+    }
+  }
+
+  if (disposalPeriod && !rows.some(r => r.period === disposalPeriod) && (!throughPeriod || disposalPeriod <= throughPeriod)) {
+    addRow(disposalPeriod, false);
+  }
+
+  return rows;
+};
+
+// ============================================================================
+// BOOK-TAX DIFFERENCES
+// ============================================================================
+
+/**
+ * Book-vs-tax difference schedule for a date range (usually a fiscal year)
+ * totalAddBack is what the corporate income tax computation adds to profit.
+ */
+export const calculateBookTaxDifferences = (
+  assets: FixedAsset[],
+  range: { start: string; end: string }
+): BookTaxDifferenceReport => {
+  const from = range.start.slice(0, 7);
+  const to = range.end.slice(0, 7);
+
+  const lines = assets
+    .map((asset): BookTaxDifferenceLine => {
+      const rows = buildTaxDepreciationSchedule(asset, to).filter(r => r.period >= from);
+      const total = (field: keyof Omit<TaxDepreciationRow, 'period'>) => round2(rows.reduce((sum, r) => sum + r[field], 0));
+      return {
+        assetId: asset.id,
+        assetCode: asset.asset_code,
+        assetName: asset.name,
+        taxBasis: getTaxBasis(asset),
+        taxRate: round2(getTaxDepreciationRate(asset)),
+        bookDepreciation: total('bookDepreciation'),
+        bookImpairment: total('bookImpairment'),
+        taxDeductible: total('deductible'),
+        disposalAdjustment: total('disposalAdjustment'),
+        addBack: round2(total('addBack') + total('disposalAdjustment')),
+      };
+    })
+    .filter(l => l.bookDepreciation || l.bookImpairment || l.taxDeductible || l.disposalAdjustment);
+
+  return {
+    range,
+    lines,
+    totalBookDepreciation: round2(lines.reduce((sum, l) => sum + l.bookDepreciation, 0)),
+    totalTaxDeductible: round2(lines.reduce((sum, l) => sum + l.taxDeductible, 0)),
+    totalAddBack: round2(lines.reduce((sum, l) => sum + l.addBack, 0)),
+  };
+};
+
+export const taxDepreciationService = {
+  getTaxBasis,
+  getTaxDepreciationRate,
+  buildTaxDepreciationSchedule,
+  calculateBookTaxDifferences,
+};
+
+export default taxDepreciationService;
@@ -1,13 +1,14 @@
 /**
  * Thai Tax e-Filing Service
  * Generate XML files for Revenue Department submission
- * Supports PND3, PND53, PP30 (VAT) formats
+ * Supports PND1 (payroll), PND3, PND53, PP30 (VAT), PP36 (reverse-charge VAT) formats
  */
 
 import { DocumentRecord, TaxCompliance, Parties } from '../types';
+import { Employee, PaySlip } from './payroll';
 
 // Tax Form Types
-export type TaxFormType = 'PND1' | 'PND3' | 'PND53' | 'PP30' | 'PP36';
+export type TaxFormType = 'PND1' | 'PND3' | 'PND53' | 'PND54' | 'PP30' | 'PP36';
 
 // e-Filing XML Schema structures based on Revenue Department specifications
 export interface EFilingHeader {
@@ -42,6 +43,14 @@ export interface WHTDetail {
   condition: '1' | '2' | '3'; // 1=หัก ณ ที่จ่าย, 2=ออกให้ตลอดไป, 3=ออกให้ครั้งเดียว
 }
 
+// PND1 employee row: salary under section 40(1), name split as the form requires
+export interface PND1Detail extends WHTDetail {
+  employeeCode: string;
+  payeeTitle: string;
+  payeeFirstName: string;
+  payeeLastName: string;
+}
+
 export interface VATDetail {
   sequence: number;
   taxInvoiceNo: string;
@@ -68,6 +77,26 @@ export interface EFilingResult {
   };
 }
 
+// PP36 row: service bought from a foreign supplier, VAT self-assessed by the buyer
+export interface PP36Detail {
+  sequence: number;
+  documentId: string;
+  invoiceNo: string;
+  paymentDate: string;
+  supplierName: string;
+  currency: string;
+  foreignAmount: number;
+  exchangeRate: number | null; // null until a rate is known for a foreign-currency bill
+  baseAmount: number; // THB
+  vatAmount: number;
+}
+
+export const PP36_VAT_RATE = 7;
+
+// Platforms that bill Thai clients from abroad without a Thai VAT invoice
+const FOREIGN_SERVICE_VENDORS = /facebook|meta platforms|google|amazon web services|\baws\b|microsoft|apple|zoom|adobe|linkedin|tiktok|canva|openai|dropbox|atlassian/i;
+const THAI_ADDRESS = /[\u0E00-\u0E7F]|thailand/i;
+
 // Thai Income Types for WHT
 export const INCOME_TYPES = {
   '40(1)': 'เงินเดือน ค่าจ้าง',
@@ -121,6 +150,98 @@ export const validateTaxId = (taxId: string): boolean => {
   return cleaned.length === 13 || cleaned.length === 10;
 };
 
+/**
+ * Validate a Thai national ID (13 digits with check digit)
+ */
+export const isValidNationalId = (id: string): boolean => {
+  const cleaned = id.replace(/[^0-9]/g, '');
+  if (cleaned.length !== 13) return false;
+  const sum = cleaned.slice(0, 12).split('').reduce((total, digit, i) => total + Number(digit) * (13 - i), 0);
+  return (11 - (sum % 11)) % 10 === Number(cleaned[12]);
+};
+
+/**
+ * Generate XML for PND1 (WHT on salaries)
+ */
+export const generatePND1XML = (
+  header: EFilingHeader,
+  details: PND1Detail[]
+): string => {
+  const detailsXml = details.map(d => `
+    <WHTDetail>
+      <Sequence>${d.sequence}</Sequence>
+      <PayeeTaxID>${d.payeeTaxId.replace(/[^0-9]/g, '')}</PayeeTaxID>
+      <PayeeTitle><![CDATA[${d.payeeTitle}]]></PayeeTitle>
+      <PayeeFirstName><![CDATA[${d.payeeFirstName}]]></PayeeFirstName>
+      <PayeeLastName><![CDATA[${d.payeeLastName}]]></PayeeLastName>
+      <IncomeType>${d.incomeType}</IncomeType>
+      <PaymentDate>${formatThaiDate(d.paymentDate)}</PaymentDate>
+      <IncomeAmount>${d.incomeAmount.toFixed(2)}</IncomeAmount>
+      <WHTAmount>${d.whtAmount.toFixed(2)}</WHTAmount>
+      <Condition>${d.condition}</Condition>
+    </WHTDetail>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<PND1 xmlns="http://www.rd.go.th/efiling">
+  <Header>
+    <FormType>ภ.ง.ด.1</FormType>
+    <TaxPayerTaxID>${header.taxId.replace(/[^0-9]/g, '')}</TaxPayerTaxID>
+    <TaxPayerBranchNo>${header.branchNo || '00000'}</TaxPayerBranchNo>
+    <TaxPayerName><![CDATA[${header.companyName}]]></TaxPayerName>
+    <TaxPayerAddress><![CDATA[${header.address}]]></TaxPayerAddress>
+    <TaxMonth>${header.taxMonth}</TaxMonth>
+    <TaxYear>${header.taxYear}</TaxYear>
+    <TotalRecords>${header.totalRecords}</TotalRecords>
+    <TotalIncomeAmount>${header.totalAmount.toFixed(2)}</TotalIncomeAmount>
+    <TotalWHTAmount>${header.totalTax.toFixed(2)}</TotalWHTAmount>
+    <SubmissionDate>${formatThaiDate(new Date().toISOString())}</SubmissionDate>
+  </Header>
+  <Details>${detailsXml}
+  </Details>
+</PND1>`;
+};
+
+/**
+ * Generate XML for PP36 (reverse-charge VAT on foreign services)
+ */
+export const generatePP36XML = (
+  header: EFilingHeader,
+  details: PP36Detail[]
+): string => {
+  const detailsXml = details.map(d => `
+    <ServiceDetail>
+      <Sequence>${d.sequence}</Sequence>
+      <SupplierName><![CDATA[${d.supplierName}]]></SupplierName>
+      <InvoiceNo>${d.invoiceNo}</InvoiceNo>
+      <PaymentDate>${formatThaiDate(d.paymentDate)}</PaymentDate>
+      <Currency>${d.currency}</Currency>
+      <ForeignAmount>${d.foreignAmount.toFixed(2)}</ForeignAmount>
+      <ExchangeRate>${(d.exchangeRate || 0).toFixed(4)}</ExchangeRate>
+      <BaseAmount>${d.baseAmount.toFixed(2)}</BaseAmount>
+      <VATAmount>${d.vatAmount.toFixed(2)}</VATAmount>
+    </ServiceDetail>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<PP36 xmlns="http://www.rd.go.th/efiling">
+  <Header>
+    <FormType>ภ.พ.36</FormType>
+    <TaxPayerTaxID>${header.taxId.replace(/[^0-9]/g, '')}</TaxPayerTaxID>
+    <TaxPayerBranchNo>${header.branchNo || '00000'}</TaxPayerBranchNo>
+    <TaxPayerName><![CDATA[${header.companyName}]]></TaxPayerName>
+    <TaxPayerAddress><![CDATA[${header.address}]]></TaxPayerAddress>
+    <TaxMonth>${header.taxMonth}</TaxMonth>
+    <TaxYear>${header.taxYear}</TaxYear>
+    <TotalRecords>${header.totalRecords}</TotalRecords>
+    <TotalBaseAmount>${header.totalAmount.toFixed(2)}</TotalBaseAmount>
+    <VATRate>${PP36_VAT_RATE}</VATRate>
+    <TotalVATAmount>${header.totalTax.toFixed(2)}</TotalVATAmount>
+    <SubmissionDate>${formatThaiDate(new Date().toISOString())}</SubmissionDate>
+  </Header>
+  <Details>${detailsXml}
+  </Details>
+</PP36>`;
+};
+
 /**
  * Generate XML for PND3 (WHT for individuals)
  */
@@ -320,6 +441,45 @@ export const documentsToWHTDetails = (
     });
 };
 
+/**
+ * Convert a month's approved payslips to PND1 rows, one per employee
+ */
+export const payslipsToPND1Details = (
+  payslips: PaySlip[],
+  employees: Employee[],
+  period: string // YYYY-MM
+): PND1Detail[] => {
+  const byEmployee = new Map<string, PaySlip[]>();
+  payslips
+    .filter(ps => ps.period === period && ps.status !== 'draft')
+    .forEach(ps => byEmployee.set(ps.employeeId, [...(byEmployee.get(ps.employeeId) || []), ps]));
+
+  return Array.from(byEmployee.entries()).map(([employeeId, slips], index) => {
+    const employee = employees.find(e => e.id === employeeId);
+    const incomeAmount = Math.round(slips.reduce((sum, ps) => sum + ps.totalEarnings, 0) * 100) / 100;
+    const whtAmount = Math.round(slips.reduce((sum, ps) => sum + ps.wht, 0) * 100) / 100;
+
+    return {
+      sequence: index + 1,
+      payeeType: '1',
+      payeeTaxId: (employee?.nationalId || '').replace(/[^0-9]/g, ''),
+      payeeBranchNo: '00000',
+      payeeName: employee ? `${employee.titleTh}${employee.firstNameTh} ${employee.lastNameTh}` : '',
+      employeeCode: employee?.employeeCode || employeeId,
+      payeeTitle: employee?.titleTh || '',
+      payeeFirstName: employee?.firstNameTh || '',
+      payeeLastName: employee?.lastNameTh || '',
+      incomeType: '40(1)',
+      incomeDescription: INCOME_TYPES['40(1)'],
+      paymentDate: slips.reduce((latest, ps) => (ps.periodEnd > latest ? ps.periodEnd : latest), ''),
+      incomeAmount,
+      whtRate: incomeAmount > 0 ? Math.round(whtAmount / incomeAmount * 10000) / 100 : 0,
+      whtAmount,
+      condition: '1', // หัก ณ ที่จ่าย
+    };
+  });
+};
+
 /**
  * Convert documents to VAT details for e-filing
  */
@@ -367,15 +527,63 @@ export const documentsToVATDetails = (
 };
 
 /**
- * Validate e-filing data before submission
+ * A foreign service purchase: the supplier has no Thai tax ID, charged no Thai VAT,
+ * and is a known foreign platform, bills in foreign currency or has a foreign address
  */
-export const validateEFilingData = (
-  header: EFilingHeader,
-  details: WHTDetail[] | VATDetail[]
-): string[] => {
+export const isForeignServiceDocument = (doc: DocumentRecord): boolean => {
+  if (!doc.ai_data) return false;
+
+  const { header_data, parties, financials } = doc.ai_data;
+  const docType = header_data.doc_type.toLowerCase();
+  if (docType.includes('ขาย') || docType.includes('sales')) return false;
+
+  const supplier = parties.counterparty;
+  if ((supplier.tax_id || '').replace(/[^0-9]/g, '').length === 13) return false;
+  if ((financials.vat_amount || 0) > 0) return false;
+
+  const currency = (header_data.currency || 'THB').toUpperCase();
+  return FOREIGN_SERVICE_VENDORS.test(supplier.name || '') ||
+         currency !== 'THB' ||
+         (!!supplier.address && !THAI_ADDRESS.test(supplier.address));
+};
+
+/**
+ * Convert foreign service documents to PP36 rows
+ * Bills in foreign currency use the rate stated on the document, if any
+ */
+export const documentsToPP36Details = (
+  documents: DocumentRecord[]
+): PP36Detail[] => {
+  return documents
+    .filter(isForeignServiceDocument)
+    .map((doc, index) => {
+      const { header_data, parties, financials, tax_compliance } = doc.ai_data!;
+      const currency = (header_data.currency || 'THB').toUpperCase();
+      const exchangeRate = currency === 'THB' ? 1 : header_data.exchange_rate ?? null;
+      const foreignAmount = financials.subtotal || financials.grand_total;
+      const baseAmount = exchangeRate ? Math.round(foreignAmount * exchangeRate * 100) / 100 : 0;
+
+      return {
+        sequence: index + 1,
+        documentId: doc.id,
+        invoiceNo: header_data.inv_number,
+        paymentDate: tax_compliance.wht_details?.payment_date || header_data.issue_date,
+        supplierName: parties.counterparty.name,
+        currency,
+        foreignAmount,
+        exchangeRate,
+        baseAmount,
+        vatAmount: Math.round(baseAmount * PP36_VAT_RATE) / 100,
+      };
+    });
+};
+
+/**
+ * Validate the filer's header
+ */
+export const validateEFilingHeader = (header: EFilingHeader): string[] => {
   const errors: string[] = [];
 
-  // Validate header
   if (!validateTaxId(header.taxId)) {
     errors.push('เลขประจำตัวผู้เสียภาษีไม่ถูกต้อง');
   }
@@ -388,6 +596,18 @@ export const validateEFilingData = (
     errors.push('กรุณาระบุเดือน/ปีภาษี');
   }
 
+  return errors;
+};
+
+/**
+ * Validate e-filing data before submission
+ */
+export const validateEFilingData = (
+  header: EFilingHeader,
+  details: WHTDetail[] | VATDetail[]
+): string[] => {
+  const errors = validateEFilingHeader(header);
+
   // Validate details
   if (details.length === 0) {
     errors.push('ไม่มีรายการสำหรับยื่นแบบ');
@@ -415,13 +635,76 @@ export const validateEFilingData = (
   return errors;
 };
 
+/**
+ * Validate PND1 rows: employees need a valid national ID, and tax cannot exceed income
+ */
+export const validatePND1Data = (
+  header: EFilingHeader,
+  details: PND1Detail[]
+): string[] => {
+  const errors = validateEFilingHeader(header);
+
+  if (details.length === 0) {
+    errors.push('ไม่มีสลิปเงินเดือนที่อนุมัติแล้วในงวดนี้');
+  }
+
+  const seen = new Map<string, number>();
+  details.forEach(detail => {
+    const label = `รายการที่ ${detail.sequence} (${detail.employeeCode})`;
+    if (!detail.payeeFirstName) {
+      errors.push(`${label}: ไม่พบข้อมูลพนักงาน`);
+    }
+    if (!isValidNationalId(detail.payeeTaxId)) {
+      errors.push(`${label}: เลขประจำตัวประชาชนไม่ถูกต้อง`);
+    } else if (seen.has(detail.payeeTaxId)) {
+      errors.push(`${label}: เลขประจำตัวประชาชนซ้ำกับรายการที่ ${seen.get(detail.payeeTaxId)}`);
+    }
+    seen.set(detail.payeeTaxId, detail.sequence);
+    if (detail.incomeAmount <= 0) {
+      errors.push(`${label}: จำนวนเงินต้องมากกว่า 0`);
+    }
+    if (detail.whtAmount < 0 || detail.whtAmount > detail.incomeAmount) {
+      errors.push(`${label}: ภาษีหัก ณ ที่จ่ายไม่ถูกต้อง`);
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Validate PP36 rows: every foreign-currency bill needs an exchange rate
+ */
+export const validatePP36Data = (
+  header: EFilingHeader,
+  details: PP36Detail[]
+): string[] => {
+  const errors = validateEFilingHeader(header);
+
+  if (details.length === 0) {
+    errors.push('ไม่มีรายการบริการจากต่างประเทศในงวดนี้');
+  }
+
+  details.forEach(detail => {
+    const label = `รายการที่ ${detail.sequence} (${detail.invoiceNo})`;
+    if (detail.exchangeRate === null) {
+      errors.push(`${label}: ไม่พบอัตราแลกเปลี่ยน ${detail.currency}`);
+    } else if (detail.baseAmount <= 0) {
+      errors.push(`${label}: จำนวนเงินต้องมากกว่า 0`);
+    }
+  });
+
+  return errors;
+};
+
 /**
  * Generate e-filing package (main function)
+ * PND1 is built from payslips rather than documents
  */
 export const generateEFilingPackage = (
   formType: TaxFormType,
   header: EFilingHeader,
-  documents: DocumentRecord[]
+  documents: DocumentRecord[],
+  payroll?: { payslips: PaySlip[]; employees: Employee[] }
 ): EFilingResult => {
   let xmlContent = '';
   let validationErrors: string[] = [];
@@ -430,7 +713,21 @@ export const generateEFilingPackage = (
   let totalTax = 0;
 
   try {
-    if (formType === 'PND3' || formType === 'PND53') {
+    if (formType === 'PND1') {
+      const period = `${Number(header.taxYear) - 543}-${header.taxMonth}`;
+      const details = payslipsToPND1Details(payroll?.payslips || [], payroll?.employees || [], period);
+
+      totalRecords = details.length;
+      totalAmount = Math.round(details.reduce((sum, d) => sum + d.incomeAmount, 0) * 100) / 100;
+      totalTax = Math.round(details.reduce((sum, d) => sum + d.whtAmount, 0) * 100) / 100;
+
+      const updatedHeader = { ...header, totalRecords, totalAmount, totalTax };
+      validationErrors = validatePND1Data(updatedHeader, details);
+
+      if (validationErrors.length === 0) {
+        xmlContent = generatePND1XML(updatedHeader, details);
+      }
+    } else if (formType === 'PND3' || formType === 'PND53') {
       const details = documentsToWHTDetails(documents, formType);
       validationErrors = validateEFilingData(header, details);
 
@@ -461,6 +758,19 @@ export const generateEFilingPackage = (
       if (validationErrors.length === 0) {
         xmlContent = generatePP30XML(updatedHeader, inputVat, outputVat);
       }
+    } else if (formType === 'PP36') {
+      const details = documentsToPP36Details(documents);
+
+      totalRecords = details.length;
+      totalAmount = Math.round(details.reduce((sum, d) => sum + d.baseAmount, 0) * 100) / 100;
+      totalTax = Math.round(details.reduce((sum, d) => sum + d.vatAmount, 0) * 100) / 100;
+
+      const updatedHeader = { ...header, totalRecords, totalAmount, totalTax };
+      validationErrors = validatePP36Data(updatedHeader, details);
+
+      if (validationErrors.length === 0) {
+        xmlContent = generatePP36XML(updatedHeader, details);
+      }
     }
 
     const filename = `${formType}_${header.taxYear}${header.taxMonth}_${header.taxId}.xml`;
@@ -490,13 +800,22 @@ export const generateEFilingPackage = (
 };
 
 export default {
+  generatePND1XML,
   generatePND3XML,
   generatePND53XML,
   generatePP30XML,
+  generatePP36XML,
   generateEFilingPackage,
   documentsToWHTDetails,
   documentsToVATDetails,
+  payslipsToPND1Details,
+  documentsToPP36Details,
+  isForeignServiceDocument,
+  validateEFilingHeader,
   validateEFilingData,
+  validatePND1Data,
+  validatePP36Data,
+  isValidNationalId,
   validateTaxId,
   formatThaiDate,
   getBuddhistYear,
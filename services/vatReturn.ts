@@ -1,10 +1,14 @@
 /**
- * VAT Return Service (แบบ ภ.พ.30)
- * Generates PP30 VAT return forms for Thai VAT compliance
+ * VAT Return Service (แบบ ภ.พ.30, ภ.พ.36)
+ * Generates PP30 VAT return forms for Thai VAT compliance, and PP36
+ * reverse-charge VAT on services bought from foreign suppliers
  */
 
 import { DocumentRecord, Client, PostedGLEntry } from '../types';
 import { databaseService } from './database';
+import { HEAD_OFFICE_BRANCH, getDocumentBranchCode, normalizeBranchCode } from './branches';
+import { getTransactionRate } from './foreignExchange';
+import { EFilingHeader, PP36Detail, PP36_VAT_RATE, documentsToPP36Details, validatePP36Data } from './taxEfiling';
 
 // ============================================================================
 // TYPES
@@ -41,6 +45,7 @@ export interface PP30Data {
     adjustmentAdd: number;      // ปรับปรุงเพิ่ม
     adjustmentDeduct: number;   // ปรับปรุงลด
     nonDeductibleVAT: number;   // ภาษีซื้อที่ไม่สามารถขอคืนได้
+    reverseChargeVAT: number;   // ภาษีที่ชำระตาม ภ.พ.36 (รวมอยู่ในภาษีซื้อที่ขอคืนได้)
     totalClaimableVAT: number;  // รวมภาษีซื้อที่ขอคืนได้
     invoiceCount: number;       // จำนวนใบกำกับ
   };
@@ -65,6 +70,12 @@ export interface PP30Data {
     purchaseInvoices: VATInvoiceSummary[];
   };
 
+  // GL balances minus the documents above (late claims and unposted or JV-only VAT show here)
+  glDifference: {
+    outputVAT: number;
+    inputVAT: number;           // excluding PP36, which has no document
+  };
+
   // Meta
   preparedBy?: string;
   preparedDate: string;
@@ -76,6 +87,9 @@ export interface VATInvoiceSummary {
   invoiceNo: string;
   counterpartyName: string;
   counterpartyTaxId: string;
+  counterpartyBranch: string; // RD branch number, "00000" = head office
+  taxPeriod: string; // YYYY-MM the invoice is reported in
+  isLateClaim: boolean; // Input VAT claimed after the month the invoice was issued
   baseAmount: number;
   vatAmount: number;
   totalAmount: number;
@@ -83,6 +97,34 @@ export interface VATInvoiceSummary {
   documentId?: string;
 }
 
+export interface PP36Data {
+  formNo: string; // "ภ.พ.36"
+  taxPeriod: {
+    month: string;
+    year: string; // Buddhist Era
+  };
+
+  taxpayerName: string;
+  taxpayerTaxId: string;
+  taxpayerBranch: string;
+  taxpayerAddress: string;
+
+  items: PP36Detail[];
+  totalBaseAmount: number;
+  totalVAT: number;
+  dueDate: string;            // 7th of the following month
+  errors: string[];
+
+  // Set once the payment voucher is posted; the VAT becomes input VAT in that month's PP30
+  payment?: {
+    docNo: string;
+    date: string;
+  };
+
+  preparedDate: string;
+  status: 'draft' | 'paid';
+}
+
 export interface VATReportSummary {
   period: string;
   totalSales: number;
@@ -94,10 +136,75 @@ export interface VATReportSummary {
   status: 'payable' | 'refundable' | 'zero';
 }
 
+export interface VATTaxReportTotals {
+  baseAmount: number;
+  vatAmount: number;
+}
+
+export interface VATTaxReportRow extends VATInvoiceSummary {
+  sequence: number;
+}
+
+export interface VATTaxReportPage {
+  pageNo: number;
+  rows: VATTaxReportRow[];
+  broughtForward: VATTaxReportTotals; // Running total from earlier pages
+  pageTotal: VATTaxReportTotals;
+  carriedForward: VATTaxReportTotals; // Running total including this page
+}
+
+// รายงานภาษีซื้อ / รายงานภาษีขาย in the Revenue Department column layout
+export interface VATTaxReport {
+  type: 'purchase' | 'sales';
+  title: string;
+  taxPeriod: {
+    month: string;
+    year: string; // Buddhist Era
+  };
+  taxpayerName: string;
+  taxpayerTaxId: string;
+  taxpayerBranch: string;
+  pages: VATTaxReportPage[];
+  totals: VATTaxReportTotals;
+  invoiceCount: number;
+  lateClaimCount: number;
+}
+
+// PP36 payment vouchers are numbered by the service month: PP36-2024-03
+export const PP36_DOC_PREFIX = 'PP36-';
+
+// Input VAT may be claimed up to six months after the invoice month
+export const VAT_LATE_CLAIM_MONTHS = 6;
+
+export const VAT_REPORT_ROWS_PER_PAGE = 20;
+
+const addMonths = (periodMonth: string, months: number): string => {
+  const [year, month] = periodMonth.split('-').map(Number);
+  const d = new Date(Date.UTC(year, month - 1 + months, 1));
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
 // ============================================================================
 // VAT CALCULATION FUNCTIONS
 // ============================================================================
 
+/**
+ * Month (YYYY-MM) a VAT invoice is reported in
+ * Sales are reported in the month of issue. A purchase goes in the VAT period
+ * chosen on the document when that is within six months of issue, so late
+ * claims land in the month they are claimed.
+ */
+export const getVATReportingPeriod = (doc: DocumentRecord, type: 'sales' | 'purchase'): string => {
+  const issuePeriod = doc.ai_data!.header_data.issue_date.slice(0, 7);
+  const vatPeriod = doc.ai_data!.header_data.vat_period;
+  if (type === 'sales' || !vatPeriod?.month || !vatPeriod.year) return issuePeriod;
+
+  const claimPeriod = `${vatPeriod.year}-${vatPeriod.month.padStart(2, '0')}`;
+  return claimPeriod >= issuePeriod && claimPeriod <= addMonths(issuePeriod, VAT_LATE_CLAIM_MONTHS)
+    ? claimPeriod
+    : issuePeriod;
+};
+
 /**
  * Extract VAT invoices from documents
  */
@@ -112,10 +219,6 @@ export const extractVATInvoices = (
     if (!doc.ai_data) return;
 
     const docDate = doc.ai_data.header_data.issue_date;
-    const docPeriod = docDate.slice(0, 7); // "YYYY-MM"
-
-    // Check if document is in the period
-    if (docPeriod !== periodMonth) return;
 
     const docType = doc.ai_data.header_data.doc_type.toLowerCase();
     const isSalesDoc = docType.includes('ขาย') ||
@@ -131,18 +234,22 @@ export const extractVATInvoices = (
     if (type === 'sales' && !isSalesDoc) return;
     if (type === 'purchase' && !isPurchaseDoc) return;
 
+    // Check if document is reported in the period
+    const taxPeriod = getVATReportingPeriod(doc, type);
+    if (taxPeriod !== periodMonth) return;
+
     const vatAmount = doc.ai_data.financials.vat_amount || 0;
     if (vatAmount === 0) return; // Skip non-VAT documents
 
+    // client_company is always our client; the buyer or seller is the counterparty
     invoices.push({
       date: docDate,
       invoiceNo: doc.ai_data.header_data.inv_number,
-      counterpartyName: type === 'sales'
-        ? doc.ai_data.parties.client_company.name
-        : doc.ai_data.parties.counterparty.name,
-      counterpartyTaxId: type === 'sales'
-        ? doc.ai_data.parties.client_company.tax_id
-        : doc.ai_data.parties.counterparty.tax_id,
+      counterpartyName: doc.ai_data.parties.counterparty.name,
+      counterpartyTaxId: doc.ai_data.parties.counterparty.tax_id,
+      counterpartyBranch: normalizeBranchCode(doc.ai_data.parties.counterparty.branch) || HEAD_OFFICE_BRANCH,
+      taxPeriod,
+      isLateClaim: taxPeriod !== docDate.slice(0, 7),
       baseAmount: doc.ai_data.financials.subtotal,
       vatAmount: vatAmount,
       totalAmount: doc.ai_data.financials.grand_total,
@@ -165,6 +272,7 @@ export const calculateVATFromGL = async (
   outputVAT: number;
   inputVAT: number;
   nonDeductibleVAT: number;
+  reverseChargeVAT: number;
 }> => {
   const glEntries = await databaseService.getGLEntriesByClient(clientId);
 
@@ -186,7 +294,12 @@ export const calculateVATFromGL = async (
     .filter(gl => gl.account_code === '53000')
     .reduce((sum, gl) => sum + gl.debit, 0);
 
-  return { outputVAT, inputVAT, nonDeductibleVAT };
+  // PP36 paid this month, already part of input VAT above
+  const reverseChargeVAT = periodEntries
+    .filter(gl => gl.account_code === '11540' && (gl.reference_no || gl.doc_no).startsWith(PP36_DOC_PREFIX))
+    .reduce((sum, gl) => sum + gl.debit, 0);
+
+  return { outputVAT, inputVAT, nonDeductibleVAT, reverseChargeVAT };
 };
 
 /**
@@ -206,10 +319,10 @@ export const generatePP30 = async (
   const salesInvoices = extractVATInvoices(documents, periodMonth, 'sales');
   const purchaseInvoices = extractVATInvoices(documents, periodMonth, 'purchase');
 
-  // Calculate from GL for accuracy
+  // GL totals, for PP36 and the reconciliation against the invoices
   const glVAT = await calculateVATFromGL(client.id, periodMonth);
 
-  // Or calculate from invoices
+  // Calculate from invoices
   const salesAmount = salesInvoices.reduce((sum, inv) => sum + inv.baseAmount, 0);
   const outputVATAmount = salesInvoices.reduce((sum, inv) => sum + inv.vatAmount, 0);
 
@@ -221,10 +334,16 @@ export const generatePP30 = async (
     .filter(inv => !inv.isDeductible)
     .reduce((sum, inv) => sum + inv.vatAmount, 0);
 
-  // Use GL values if available, otherwise use invoice calculations
-  const finalOutputVAT = glVAT.outputVAT || outputVATAmount;
-  const finalInputVAT = glVAT.inputVAT || inputVATDeductible;
-  const finalNonDeductibleVAT = glVAT.nonDeductibleVAT || inputVATNonDeductible;
+  // Both sides follow the tax reports, so late claims land in the claim month
+  // rather than the month they were booked; PP36 paid for last month's foreign
+  // services is claimed on top. Whatever the GL holds beyond that is reported, not filed.
+  const finalOutputVAT = outputVATAmount;
+  const finalInputVAT = inputVATDeductible + glVAT.reverseChargeVAT;
+  const finalNonDeductibleVAT = inputVATNonDeductible;
+  const glDifference = {
+    outputVAT: Math.round((glVAT.outputVAT - outputVATAmount) * 100) / 100,
+    inputVAT: Math.round((glVAT.inputVAT - glVAT.reverseChargeVAT - inputVATDeductible) * 100) / 100,
+  };
 
   // Calculate net VAT
   const netVAT = finalOutputVAT - finalInputVAT;
@@ -257,6 +376,7 @@ export const generatePP30 = async (
       adjustmentAdd: 0,
       adjustmentDeduct: 0,
       nonDeductibleVAT: finalNonDeductibleVAT,
+      reverseChargeVAT: glVAT.reverseChargeVAT,
       totalClaimableVAT: finalInputVAT,
       invoiceCount: purchaseInvoices.length,
     },
@@ -275,6 +395,8 @@ export const generatePP30 = async (
       purchaseInvoices,
     },
 
+    glDifference,
+
     preparedDate: now.toISOString().split('T')[0],
     status: 'draft',
   };
@@ -434,6 +556,12 @@ export const generatePP30HTML = (pp30: PP30Data): string => {
             <td>ภาษีซื้อที่ไม่สามารถขอคืนได้</td>
             <td class="amount" style="color: #900;">(${formatCurrency(pp30.inputVAT.nonDeductibleVAT)})</td>
           </tr>
+          ${pp30.inputVAT.reverseChargeVAT > 0 ? `
+          <tr>
+            <td>ภาษีที่ชำระตาม ภ.พ.36</td>
+            <td class="amount">${formatCurrency(pp30.inputVAT.reverseChargeVAT)}</td>
+          </tr>
+          ` : ''}
           <tr style="background: #f5f5f5; font-weight: bold;">
             <td>รวมภาษีซื้อที่ขอคืนได้</td>
             <td class="amount">${formatCurrency(pp30.inputVAT.totalClaimableVAT)}</td>
@@ -625,6 +753,7 @@ export const generatePP30XML = (pp30: PP30Data): string => {
     <PurchaseAmount>${pp30.inputVAT.purchaseAmount.toFixed(2)}</PurchaseAmount>
     <VATAmount>${pp30.inputVAT.vatAmount.toFixed(2)}</VATAmount>
     <NonDeductible>${pp30.inputVAT.nonDeductibleVAT.toFixed(2)}</NonDeductible>
+    <ReverseChargeVAT>${pp30.inputVAT.reverseChargeVAT.toFixed(2)}</ReverseChargeVAT>
     <TotalClaimable>${pp30.inputVAT.totalClaimableVAT.toFixed(2)}</TotalClaimable>
   </InputVAT>
   <Calculation>
@@ -636,13 +765,424 @@ export const generatePP30XML = (pp30: PP30Data): string => {
 </PP30>`;
 };
 
+// ============================================================================
+// PP36 REVERSE-CHARGE VAT
+// ============================================================================
+
+/**
+ * Generate PP36 for foreign services paid in the month
+ * VAT is due when the service is paid for: a bill matched to a bank payment uses
+ * the bank date, otherwise the stated payment date, otherwise the issue date.
+ * Bills without a stated rate are converted at the BOT selling rate of the payment date
+ */
+export const generatePP36 = async (
+  client: Client,
+  documents: DocumentRecord[],
+  periodMonth: string // "2024-03"
+): Promise<PP36Data> => {
+  const [year, month] = periodMonth.split('-');
+  const bankTransactions = await databaseService.getBankTransactionsByClient(client.id);
+  const paidOn = new Map(
+    bankTransactions
+      .filter(txn => txn.status === 'matched' && txn.matched_doc_id)
+      .map(txn => [txn.matched_doc_id!, txn.date])
+  );
+
+  const periodItems = documentsToPP36Details(documents)
+    .map(item => ({ ...item, paymentDate: paidOn.get(item.documentId) || item.paymentDate }))
+    .filter(item => item.paymentDate.startsWith(periodMonth))
+    .map((item, index) => ({ ...item, sequence: index + 1 }));
+
+  const items = await Promise.all(periodItems.map(async item => {
+    if (item.exchangeRate !== null) return item;
+    const exchangeRate = await getTransactionRate(item.currency, item.paymentDate, 'selling');
+    if (exchangeRate === null) return item;
+    const baseAmount = Math.round(item.foreignAmount * exchangeRate * 100) / 100;
+    return { ...item, exchangeRate, baseAmount, vatAmount: Math.round(baseAmount * PP36_VAT_RATE) / 100 };
+  }));
+
+  const totalBaseAmount = Math.round(items.reduce((sum, item) => sum + item.baseAmount, 0) * 100) / 100;
+  const totalVAT = Math.round(items.reduce((sum, item) => sum + item.vatAmount, 0) * 100) / 100;
+
+  const header: EFilingHeader = {
+    taxId: client.tax_id,
+    branchNo: '00000',
+    companyName: client.name,
+    address: client.address || '',
+    taxMonth: month,
+    taxYear: String(parseInt(year) + 543),
+    formType: 'PP36',
+    totalRecords: items.length,
+    totalAmount: totalBaseAmount,
+    totalTax: totalVAT,
+  };
+
+  const docNo = `${PP36_DOC_PREFIX}${periodMonth}`;
+  const glEntries = await databaseService.getGLEntriesByClient(client.id);
+  // Posted vouchers keep the PP36 key as reference_no
+  const paymentEntry = glEntries.find(gl => (gl.reference_no || gl.doc_no) === docNo);
+
+  const nextMonth = new Date(parseInt(year), parseInt(month), 7);
+
+  return {
+    formNo: 'ภ.พ.36',
+    taxPeriod: { month, year: header.taxYear },
+    taxpayerName: client.name,
+    taxpayerTaxId: client.tax_id,
+    taxpayerBranch: '00000',
+    taxpayerAddress: client.address || '',
+    items,
+    totalBaseAmount,
+    totalVAT,
+    dueDate: `${nextMonth.getFullYear()}-${String(nextMonth.getMonth() + 1).padStart(2, '0')}-07`,
+    errors: validatePP36Data(header, items),
+    ...(paymentEntry ? { payment: { docNo: paymentEntry.doc_no, date: paymentEntry.date } } : {}),
+    preparedDate: new Date().toISOString().split('T')[0],
+    status: paymentEntry ? 'paid' : 'draft',
+  };
+};
+
+/**
+ * Build the PP36 payment voucher: the VAT paid becomes input VAT of the payment month
+ */
+export const buildPP36PaymentEntries = (
+  pp36: PP36Data,
+  clientId: string,
+  paymentDate: string,
+  bankAccountCode: string = '11200'
+): PostedGLEntry[] => {
+  if (pp36.errors.length > 0) {
+    throw new Error(`ไม่สามารถบันทึกการชำระ ภ.พ.36 ได้: ${pp36.errors.join(', ')}`);
+  }
+  if (pp36.payment) {
+    throw new Error(`บันทึกการชำระ ภ.พ.36 แล้ว (${pp36.payment.docNo})`);
+  }
+
+  const period = `${parseInt(pp36.taxPeriod.year) - 543}-${pp36.taxPeriod.month}`;
+  if (paymentDate.slice(0, 7) <= period) {
+    throw new Error('วันที่ชำระ ภ.พ.36 ต้องอยู่หลังเดือนภาษี');
+  }
+
+  const docNo = `${PP36_DOC_PREFIX}${period}`;
+  const description = `ภ.พ.36 ภาษีมูลค่าเพิ่มบริการจากต่างประเทศ ${period}`;
+
+  return [
+    {
+      id: `GL-${docNo}-1`,
+      clientId,
+      date: paymentDate,
+      doc_no: docNo,
+      description,
+      account_code: '11540',
+      account_name: 'ภาษีซื้อ',
+      debit: pp36.totalVAT,
+      credit: 0,
+      system_generated: true,
+    },
+    {
+      id: `GL-${docNo}-2`,
+      clientId,
+      date: paymentDate,
+      doc_no: docNo,
+      description,
+      account_code: bankAccountCode,
+      account_name: 'เงินฝากธนาคาร',
+      debit: 0,
+      credit: pp36.totalVAT,
+      system_generated: true,
+    },
+  ];
+};
+
+/**
+ * Generate PP36 HTML for printing
+ */
+export const generatePP36HTML = (pp36: PP36Data): string => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('th-TH', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+
+  return `
+<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <title>แบบ ภ.พ.36 - ${pp36.taxPeriod.month}/${pp36.taxPeriod.year}</title>
+  <style>
+    @page { size: A4; margin: 10mm; }
+    body { font-family: 'Sarabun', 'TH SarabunPSK', sans-serif; font-size: 13px; padding: 15px; }
+    .form { max-width: 800px; margin: 0 auto; }
+    .header { text-align: center; margin-bottom: 20px; }
+    .title { font-size: 20px; font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { border: 1px solid #999; padding: 4px 6px; }
+    th { background: #f0f0f0; }
+    .amount { text-align: right; font-family: monospace; }
+    .total { font-weight: bold; background: #f5f5f5; }
+  </style>
+</head>
+<body>
+  <div class="form">
+    <div class="header">
+      <div class="title">แบบนำส่งภาษีมูลค่าเพิ่ม (ภ.พ.36)</div>
+      <div>สำหรับเดือนภาษี ${pp36.taxPeriod.month}/${pp36.taxPeriod.year} กำหนดชำระ ${pp36.dueDate}</div>
+    </div>
+
+    <p><strong>ผู้นำส่ง:</strong> ${pp36.taxpayerName} เลขประจำตัวผู้เสียภาษี ${pp36.taxpayerTaxId}</p>
+    <p><strong>ที่อยู่:</strong> ${pp36.taxpayerAddress || '-'}</p>
+
+    <table>
+      <thead>
+        <tr>
+          <th>ลำดับ</th>
+          <th>วันที่ชำระ</th>
+          <th>ผู้ให้บริการต่างประเทศ</th>
+          <th>เลขที่เอกสาร</th>
+          <th>จำนวนเงิน (สกุลเดิม)</th>
+          <th>อัตราแลกเปลี่ยน</th>
+          <th>มูลค่า (บาท)</th>
+          <th>ภาษี ${PP36_VAT_RATE}%</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${pp36.items.map(item => `
+          <tr>
+            <td>${item.sequence}</td>
+            <td>${item.paymentDate}</td>
+            <td>${item.supplierName}</td>
+            <td>${item.invoiceNo}</td>
+            <td class="amount">${item.currency} ${formatCurrency(item.foreignAmount)}</td>
+            <td class="amount">${item.exchangeRate ?? '-'}</td>
+            <td class="amount">${formatCurrency(item.baseAmount)}</td>
+            <td class="amount">${formatCurrency(item.vatAmount)}</td>
+          </tr>
+        `).join('')}
+        <tr class="total">
+          <td colspan="6">รวม (${pp36.items.length} รายการ)</td>
+          <td class="amount">${formatCurrency(pp36.totalBaseAmount)}</td>
+          <td class="amount">${formatCurrency(pp36.totalVAT)}</td>
+        </tr>
+      </tbody>
+    </table>
+
+    <div style="margin-top: 20px; font-size: 11px; text-align: center; color: #666;">
+      เอกสารนี้ออกโดยระบบ WE Accounting AI - ${new Date().toISOString()}
+    </div>
+  </div>
+</body>
+</html>
+  `.trim();
+};
+
+// ============================================================================
+// INPUT / OUTPUT TAX REPORTS (รายงานภาษีซื้อ / รายงานภาษีขาย)
+// ============================================================================
+
+const sumTotals = (rows: VATInvoiceSummary[], start: VATTaxReportTotals = { baseAmount: 0, vatAmount: 0 }): VATTaxReportTotals => ({
+  baseAmount: Math.round(rows.reduce((sum, r) => sum + r.baseAmount, start.baseAmount) * 100) / 100,
+  vatAmount: Math.round(rows.reduce((sum, r) => sum + r.vatAmount, start.vatAmount) * 100) / 100,
+});
+
+/**
+ * "00000" -> สำนักงานใหญ่, "00002" -> สาขาที่ 00002
+ */
+export const formatVATBranch = (branch: string): string =>
+  branch === HEAD_OFFICE_BRANCH ? 'สำนักงานใหญ่' : /^\d{5}$/.test(branch) ? `สาขาที่ ${branch}` : branch;
+
+/**
+ * Statutory input or output tax report for a month, split into printed pages
+ * The input tax report lists only claimable invoices, including late claims
+ * from earlier months; each page carries the running total forward.
+ * Reports are kept per branch: documents without a client-side branch belong
+ * to the head office.
+ */
+export const generateVATTaxReport = (
+  client: Client,
+  documents: DocumentRecord[],
+  periodMonth: string, // "2024-02"
+  type: 'sales' | 'purchase',
+  branch: string, // RD branch number, "00000" for the head office
+  rowsPerPage: number = VAT_REPORT_ROWS_PER_PAGE
+): VATTaxReport => {
+  const [year, month] = periodMonth.split('-');
+  const branchDocuments = documents.filter(doc =>
+    doc.ai_data && (getDocumentBranchCode(doc.ai_data) || HEAD_OFFICE_BRANCH) === branch
+  );
+  const invoices = extractVATInvoices(branchDocuments, periodMonth, type)
+    .filter(inv => type === 'sales' || inv.isDeductible);
+  const rows = invoices.map((inv, index) => ({ ...inv, sequence: index + 1 }));
+
+  const pages: VATTaxReportPage[] = [];
+  let runningTotal: VATTaxReportTotals = { baseAmount: 0, vatAmount: 0 };
+  for (let i = 0; i === 0 || i < rows.length; i += rowsPerPage) {
+    const pageRows = rows.slice(i, i + rowsPerPage);
+    const carriedForward = sumTotals(pageRows, runningTotal);
+    pages.push({
+      pageNo: pages.length + 1,
+      rows: pageRows,
+      broughtForward: runningTotal,
+      pageTotal: sumTotals(pageRows),
+      carriedForward,
+    });
+    runningTotal = carriedForward;
+  }
+
+  return {
+    type,
+    title: type === 'purchase' ? 'รายงานภาษีซื้อ' : 'รายงานภาษีขาย',
+    taxPeriod: { month, year: String(parseInt(year) + 543) },
+    taxpayerName: client.name,
+    taxpayerTaxId: client.tax_id,
+    taxpayerBranch: branch,
+    pages,
+    totals: runningTotal,
+    invoiceCount: rows.length,
+    lateClaimCount: rows.filter(r => r.isLateClaim).length,
+  };
+};
+
+/**
+ * Column headings of the statutory layout
+ */
+export const getVATTaxReportHeaders = (type: 'sales' | 'purchase'): string[] => [
+  'ลำดับที่',
+  'วัน เดือน ปี',
+  'เลขที่ใบกำกับภาษี',
+  type === 'purchase' ? 'ชื่อผู้ขายสินค้า/ผู้ให้บริการ' : 'ชื่อผู้ซื้อสินค้า/ผู้รับบริการ',
+  'เลขประจำตัวผู้เสียภาษีอากร',
+  'สถานประกอบการ',
+  'มูลค่าสินค้าหรือบริการ',
+  'จำนวนเงินภาษีมูลค่าเพิ่ม',
+];
+
+/**
+ * Rows for the Excel export: invoices page by page with the page and running totals
+ */
+export const vatTaxReportToRows = (report: VATTaxReport): (string | number)[][] => {
+  const rows: (string | number)[][] = [];
+  report.pages.forEach((page, index) => {
+    if (index > 0) {
+      rows.push(['', '', '', 'ยอดยกมา', '', '', page.broughtForward.baseAmount, page.broughtForward.vatAmount]);
+    }
+    page.rows.forEach(r => rows.push([
+      r.sequence,
+      r.date,
+      r.invoiceNo,
+      r.counterpartyName,
+      r.counterpartyTaxId,
+      formatVATBranch(r.counterpartyBranch),
+      r.baseAmount,
+      r.vatAmount,
+    ]));
+    rows.push(['', '', '', `รวมหน้า ${page.pageNo}`, '', '', page.pageTotal.baseAmount, page.pageTotal.vatAmount]);
+    rows.push([
+      '', '', '', index === report.pages.length - 1 ? 'รวมทั้งสิ้น' : 'ยอดยกไป', '', '',
+      page.carriedForward.baseAmount, page.carriedForward.vatAmount,
+    ]);
+  });
+  return rows;
+};
+
+/**
+ * Printable report, one sheet per page with brought and carried forward totals
+ */
+export const generateVATTaxReportHTML = (report: VATTaxReport): string => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('th-TH', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  };
+  const headers = getVATTaxReportHeaders(report.type);
+  const totalRow = (label: string, totals: VATTaxReportTotals) => `
+          <tr class="total">
+            <td colspan="6">${label}</td>
+            <td class="amount">${formatCurrency(totals.baseAmount)}</td>
+            <td class="amount">${formatCurrency(totals.vatAmount)}</td>
+          </tr>`;
+
+  return `
+<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <title>${report.title} - ${report.taxPeriod.month}/${report.taxPeriod.year}</title>
+  <style>
+    @page { size: A4 landscape; margin: 10mm; }
+    body { font-family: 'Sarabun', 'TH SarabunPSK', sans-serif; font-size: 13px; padding: 15px; }
+    .page { page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    .header { text-align: center; margin-bottom: 10px; }
+    .title { font-size: 18px; font-weight: bold; }
+    .info { display: flex; justify-content: space-between; margin-bottom: 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th, td { border: 1px solid #999; padding: 4px 6px; }
+    th { background: #f0f0f0; }
+    .amount { text-align: right; font-family: monospace; }
+    .total { font-weight: bold; background: #f5f5f5; }
+    .note { color: #b45309; font-size: 10px; }
+  </style>
+</head>
+<body>
+  ${report.pages.map(page => `
+  <div class="page">
+    <div class="header">
+      <div class="title">${report.title}</div>
+      <div>เดือนภาษี ${report.taxPeriod.month} ปี ${report.taxPeriod.year}</div>
+    </div>
+    <div class="info">
+      <div>ชื่อผู้ประกอบการ: ${report.taxpayerName}</div>
+      <div>เลขประจำตัวผู้เสียภาษีอากร: ${report.taxpayerTaxId}</div>
+    </div>
+    <div class="info">
+      <div>ชื่อสถานประกอบการ: ${report.taxpayerName} (${formatVATBranch(report.taxpayerBranch)})</div>
+      <div>หน้าที่ ${page.pageNo}/${report.pages.length}</div>
+    </div>
+    <table>
+      <thead>
+        <tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>
+      </thead>
+      <tbody>
+        ${page.pageNo > 1 ? totalRow('ยอดยกมา', page.broughtForward) : ''}
+        ${page.rows.map(r => `
+          <tr>
+            <td>${r.sequence}</td>
+            <td>${r.date}</td>
+            <td>${r.invoiceNo}${r.isLateClaim ? '<div class="note">ใบกำกับภาษีเดือนก่อน</div>' : ''}</td>
+            <td>${r.counterpartyName}</td>
+            <td>${r.counterpartyTaxId || '-'}</td>
+            <td>${formatVATBranch(r.counterpartyBranch)}</td>
+            <td class="amount">${formatCurrency(r.baseAmount)}</td>
+            <td class="amount">${formatCurrency(r.vatAmount)}</td>
+          </tr>
+        `).join('')}
+        ${totalRow(`รวมหน้า ${page.pageNo}`, page.pageTotal)}
+        ${totalRow(page.pageNo === report.pages.length ? 'รวมทั้งสิ้น' : 'ยอดยกไป', page.carriedForward)}
+      </tbody>
+    </table>
+  </div>`).join('')}
+</body>
+</html>
+  `.trim();
+};
+
 export const vatReturnService = {
+  getVATReportingPeriod,
   extractVATInvoices,
   calculateVATFromGL,
   generatePP30,
   generatePP30HTML,
   generateVATSummary,
   generatePP30XML,
+  generatePP36,
+  generatePP36HTML,
+  buildPP36PaymentEntries,
+  generateVATTaxReport,
+  generateVATTaxReportHTML,
+  vatTaxReportToRows,
 };
 
 export default vatReturnService;
@@ -0,0 +1,265 @@
+/**
+ * voucherNumbering.ts
+ *
+ * Gap-free voucher numbering
+ * เลขที่เอกสารต่อเนื่องแยกตามลูกค้า ประเภทสมุดรายวัน และงวด
+ *
+ * Every posted voucher draws its doc_no from a sequence keyed by client,
+ * journal type (JV/PV/RV/SV/PJ) and period (year or month, per config).
+ * Numbers are issued in the same transaction that writes the GL entries.
+ */
+
+import {
+  ClientVoucherConfig,
+  JournalType,
+  PostedGLEntry,
+  VoucherResetPolicy,
+  VoucherSequenceConfig,
+} from '../types';
+import { databaseService } from './database';
+import { validateGLPosting, ValidationResult } from './accountingValidation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VoucherPostingRequest {
+  clientId: string;
+  journalType: JournalType;
+  date: string; // YYYY-MM-DD, decides the sequence period
+  entries: Omit<PostedGLEntry, 'id' | 'doc_no'>[];
+  userId: string;
+  sourceDocId?: string;
+  reverses?: string[]; // ids of posted entries this voucher reverses; linked in the same transaction
+}
+
+export interface VoucherPostingResult {
+  success: boolean;
+  docNo?: string;
+  ids: string[];
+  validation: ValidationResult;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const JOURNAL_TYPE_NAMES: Record<JournalType, { name: string; nameTh: string }> = {
+  JV: { name: 'General Journal', nameTh: 'สมุดรายวันทั่วไป' },
+  PV: { name: 'Payment Voucher', nameTh: 'สมุดรายวันจ่าย' },
+  RV: { name: 'Receipt Voucher', nameTh: 'สมุดรายวันรับ' },
+  SV: { name: 'Sales Journal', nameTh: 'สมุดรายวันขาย' },
+  PJ: { name: 'Purchase Journal', nameTh: 'สมุดรายวันซื้อ' },
+};
+
+const JOURNAL_TYPES = Object.keys(JOURNAL_TYPE_NAMES) as JournalType[];
+
+export const DEFAULT_SEQUENCE_CONFIG: Record<JournalType, VoucherSequenceConfig> = JOURNAL_TYPES.reduce(
+  (acc, journalType) => ({
+    ...acc,
+    [journalType]: { journalType, prefix: journalType, reset: 'monthly', padding: 4 },
+  }),
+  {} as Record<JournalType, VoucherSequenceConfig>
+);
+
+/**
+ * Load a client's sequence settings, filling any missing journal type with defaults
+ */
+export const loadVoucherConfig = async (clientId: string): Promise<ClientVoucherConfig> => {
+  const stored = await databaseService.getVoucherConfig(clientId);
+  return {
+    id: clientId,
+    clientId,
+    updatedAt: stored?.updatedAt || '',
+    updatedBy: stored?.updatedBy || 'system',
+    sequences: { ...DEFAULT_SEQUENCE_CONFIG, ...(stored?.sequences || {}) },
+  };
+};
+
+/**
+ * Change the prefix, reset policy or padding of one sequence
+ * Running numbers are tracked per period key, so a change never re-issues a number
+ */
+export const updateSequenceConfig = async (
+  clientId: string,
+  journalType: JournalType,
+  changes: Partial<Pick<VoucherSequenceConfig, 'prefix' | 'reset' | 'padding'>>,
+  userId: string
+): Promise<ClientVoucherConfig> => {
+  if (changes.prefix !== undefined && !/^[A-Z0-9]{1,8}$/.test(changes.prefix)) {
+    throw new Error(`Invalid voucher prefix: ${changes.prefix}`);
+  }
+  if (changes.padding !== undefined && (changes.padding < 3 || changes.padding > 8)) {
+    throw new Error(`Voucher padding must be between 3 and 8 digits`);
+  }
+
+  const config = await loadVoucherConfig(clientId);
+  const updated: ClientVoucherConfig = {
+    ...config,
+    sequences: {
+      ...config.sequences,
+      [journalType]: { ...config.sequences[journalType], ...changes },
+    },
+    updatedAt: new Date().toISOString(),
+    updatedBy: userId,
+  };
+  await databaseService.saveVoucherConfig(updated);
+  return updated;
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export const getPeriodKey = (date: string, reset: VoucherResetPolicy): string =>
+  reset === 'yearly' ? date.slice(0, 4) : date.slice(0, 7);
+
+export const getSequenceId = (clientId: string, journalType: JournalType, periodKey: string): string =>
+  `${clientId}_${journalType}_${periodKey}`;
+
+/**
+ * JV-202403-0001 (monthly) or JV-2024-0001 (yearly)
+ */
+export const formatVoucherNo = (
+  config: VoucherSequenceConfig,
+  periodKey: string,
+  runningNumber: number
+): string => `${config.prefix}-${periodKey.replace('-', '')}-${String(runningNumber).padStart(config.padding, '0')}`;
+
+/**
+ * Preview the number the next posting would receive (not reserved)
+ */
+export const previewNextVoucherNo = async (
+  clientId: string,
+  journalType: JournalType,
+  date: string
+): Promise<string> => {
+  const config = (await loadVoucherConfig(clientId)).sequences[journalType];
+  const periodKey = getPeriodKey(date, config.reset);
+  const sequences = await databaseService.getVoucherSequencesByClient(clientId);
+  const current = sequences.find(s => s.id === getSequenceId(clientId, journalType, periodKey));
+  return formatVoucherNo(config, periodKey, (current?.lastNumber || 0) + 1);
+};
+
+/**
+ * Pick the voucher sequence for a document-driven posting
+ * Revenue credits are sales; everything else from a document is a purchase
+ */
+export const inferDocumentJournalType = (entries: Pick<PostedGLEntry, 'account_code' | 'credit'>[]): JournalType =>
+  entries.some(e => e.account_code.startsWith('4') && e.credit > 0) ? 'SV' : 'PJ';
+
+// ============================================================================
+// POSTING
+// ============================================================================
+
+/**
+ * Validate a voucher and post it under the next number of its sequence
+ */
+export const postVoucher = async (request: VoucherPostingRequest): Promise<VoucherPostingResult> => {
+  const { clientId, journalType, date, userId, sourceDocId, reverses } = request;
+  const entries = request.entries.map(e => ({ ...e, clientId, journal_type: journalType }));
+
+  const validation = await validateGLPosting({
+    // doc_no is assigned inside the posting transaction
+    entries: entries.map(e => ({ ...e, doc_no: '' })),
+    clientId,
+    periodMonth: date.slice(0, 7),
+    sourceDocId,
+    userId,
+  });
+
+  if (!validation.isValid) {
+    return { success: false, ids: [], validation };
+  }
+
+  const config = (await loadVoucherConfig(clientId)).sequences[journalType];
+  const periodKey = getPeriodKey(date, config.reset);
+
+  try {
+    const { docNo, ids, alreadyReversedBy } = await databaseService.postGLEntriesWithVoucherNo(
+      { id: getSequenceId(clientId, journalType, periodKey), clientId, journalType, periodKey },
+      n => formatVoucherNo(config, periodKey, n),
+      entries,
+      reverses
+    );
+    if (alreadyReversedBy) {
+      return {
+        success: false,
+        ids: [],
+        validation: {
+          isValid: false,
+          errors: [{
+            code: 'GL_ALREADY_REVERSED',
+            message: `Voucher was already reversed by ${alreadyReversedBy}`,
+            messageTh: `เอกสารถูกกลับรายการแล้วโดย ${alreadyReversedBy}`,
+            severity: 'error',
+          }],
+          warnings: validation.warnings,
+        },
+      };
+    }
+    return { success: true, docNo, ids, validation };
+  } catch (error) {
+    console.error('Voucher posting failed after validation:', error);
+    return {
+      success: false,
+      ids: [],
+      validation: {
+        isValid: false,
+        errors: [{
+          code: 'GL_POST_FAILED',
+          message: 'Failed to post GL entries',
+          messageTh: 'ไม่สามารถบันทึกรายการบัญชีได้',
+          severity: 'critical',
+        }],
+        warnings: validation.warnings,
+      },
+    };
+  }
+};
+
+/**
+ * Post generator output (closing, depreciation, accruals) as numbered vouchers
+ * Entries are grouped by their draft doc_no (e.g. JV-DEPRE-2024-03), each group
+ * gets the next number and keeps the draft key as reference_no; a draft key that
+ * was posted before is flagged as a possible duplicate
+ */
+export const postDraftVouchers = async (
+  clientId: string,
+  journalType: JournalType,
+  entries: Omit<PostedGLEntry, 'id'>[],
+  userId: string
+): Promise<(VoucherPostingResult & { draftNo: string })[]> => {
+  const groups = new Map<string, Omit<PostedGLEntry, 'id'>[]>();
+  entries.forEach(e => groups.set(e.doc_no, [...(groups.get(e.doc_no) || []), e]));
+
+  const results: (VoucherPostingResult & { draftNo: string })[] = [];
+  for (const [draftNo, group] of groups) {
+    const result = await postVoucher({
+      clientId,
+      journalType,
+      date: group[0].date,
+      entries: group.map(({ doc_no, ...e }) => ({ ...e, reference_no: draftNo })),
+      userId,
+      sourceDocId: draftNo,
+    });
+    results.push({ ...result, draftNo });
+  }
+  return results;
+};
+
+export const voucherNumberingService = {
+  JOURNAL_TYPE_NAMES,
+  DEFAULT_SEQUENCE_CONFIG,
+  loadVoucherConfig,
+  updateSequenceConfig,
+  getPeriodKey,
+  getSequenceId,
+  formatVoucherNo,
+  previewNextVoucherNo,
+  inferDocumentJournalType,
+  postVoucher,
+  postDraftVouchers,
+};
+
+export default voucherNumberingService;
@@ -115,6 +115,11 @@ export const createWHTCertificate = (
     return null;
   }
 
+  // Payments abroad are filed on PND54 (see pnd54.ts); the RD receipt replaces the 50 Tawi
+  if (document.ai_data.tax_compliance.wht_code === 'PND54') {
+    return null;
+  }
+
   const aiData = document.ai_data;
   const now = new Date();
   const thaiYear = now.getFullYear() + 543;
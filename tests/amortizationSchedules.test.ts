@@ -0,0 +1,182 @@
+/**
+ * Prepaid / Deferred Income / Accrual Schedules - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountingResponse, AmortizationSchedule, DocumentRecord } from '../types';
+import {
+    createSchedule,
+    createScheduleFromSuggestion,
+    getDueRecognitions,
+    recognizeSchedules,
+    suggestScheduleFromDocument,
+    terminateSchedule,
+} from '../services/amortizationSchedules';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-SCH-TEST';
+
+const schedule = (overrides: Partial<AmortizationSchedule> = {}): AmortizationSchedule => ({
+    id: 'SCH-1',
+    clientId: CLIENT_ID,
+    type: 'prepaid',
+    description: 'Insurance',
+    vendorOrCustomer: 'Insurer',
+    originalAmount: 1000,
+    periodMonths: 3,
+    startDate: '2024-01-01',
+    monthlyAmount: 333.33,
+    recognizedToDate: 0,
+    remainingAmount: 1000,
+    accountCode: '11800',
+    expenseAccountCode: '52200',
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    createdBy: 'u1',
+    ...overrides,
+});
+
+const makeDoc = (id: string, description: string, lines: { code: string; side: 'DEBIT' | 'CREDIT'; amount: number }[]): DocumentRecord => ({
+    id,
+    uploaded_at: '2024-03-15',
+    filename: `${id}.pdf`,
+    status: 'approved',
+    assigned_to: null,
+    client_name: 'Schedule Co',
+    clientId: CLIENT_ID,
+    amount: 12000,
+    ai_data: {
+        header_data: { doc_type: 'ใบกำกับภาษี', issue_date: '2024-03-15', inv_number: id, currency: 'THB' },
+        parties: {
+            client_company: { name: 'Schedule Co', tax_id: '0105500000001' },
+            counterparty: { name: 'Cloud Vendor', tax_id: '0105500000002' },
+        },
+        accounting_entry: {
+            transaction_description: description,
+            account_class: '',
+            journal_lines: lines.map(l => ({ account_code: l.code, account_side: l.side, account_name_th: '', amount: l.amount })),
+        },
+    } as unknown as AccountingResponse,
+});
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+describe('getDueRecognitions', () => {
+    it('should catch up skipped months and give the last month the rounding difference', () => {
+        const [catchUp] = getDueRecognitions([schedule()], '2024-02');
+        expect(catchUp.amount).toBe(666.67);
+
+        const [last] = getDueRecognitions([schedule({ recognizedToDate: 666.67, remainingAmount: 333.33, lastRecognizedPeriod: '2024-02' })], '2024-06');
+        expect(last.amount).toBe(333.33);
+    });
+
+    it('should skip schedules not yet started, already recognized or no longer active', () => {
+        expect(getDueRecognitions([schedule({ startDate: '2024-05-01' })], '2024-04')).toEqual([]);
+        expect(getDueRecognitions([schedule({ lastRecognizedPeriod: '2024-01' })], '2024-01')).toEqual([]);
+        expect(getDueRecognitions([schedule({ status: 'terminated' })], '2024-02')).toEqual([]);
+    });
+});
+
+describe('suggestScheduleFromDocument', () => {
+    it('should suggest a prepaid schedule for a multi-month service purchase', () => {
+        const doc = makeDoc('INV-SW', 'ค่าบริการซอฟต์แวร์ 12 เดือน', [
+            { code: '52200', side: 'DEBIT', amount: 12000 },
+            { code: '21200', side: 'CREDIT', amount: 12000 },
+        ]);
+
+        expect(suggestScheduleFromDocument(doc)).toMatchObject({
+            type: 'prepaid',
+            originalAmount: 12000,
+            periodMonths: 12,
+            startDate: '2024-03-01',
+            accountCode: '11800',
+            expenseAccountCode: '52200',
+            sourceDocId: 'INV-SW',
+        });
+    });
+
+    it('should suggest deferred income for annual sales and nothing without a service term', () => {
+        const annual = makeDoc('INV-SUB', 'Annual maintenance contract', [
+            { code: '11700', side: 'DEBIT', amount: 24000 },
+            { code: '41100', side: 'CREDIT', amount: 24000 },
+        ]);
+        expect(suggestScheduleFromDocument(annual)).toMatchObject({ type: 'deferred', periodMonths: 12, accountCode: '21700' });
+
+        const oneOff = makeDoc('INV-ONE', 'ค่าซ่อมแอร์', [{ code: '52200', side: 'DEBIT', amount: 3000 }]);
+        expect(suggestScheduleFromDocument(oneOff)).toBeNull();
+    });
+});
+
+// ============================================================================
+// Register & month-end (demo mode / localStorage)
+// ============================================================================
+
+describe('schedule register', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [{ id: CLIENT_ID, name: 'Schedule Co', current_workflow: { month: '2024-03', is_locked: false } }],
+                documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    const input = {
+        type: 'prepaid' as const,
+        description: 'Fire insurance',
+        vendorOrCustomer: 'Insurer',
+        originalAmount: 1200,
+        periodMonths: 12,
+        startDate: '2024-01-01',
+        accountCode: '11800',
+        expenseAccountCode: '52200',
+    };
+
+    it('should post month-end recognition and complete the schedule', async () => {
+        await createSchedule(CLIENT_ID, input, 'u1');
+
+        const march = await recognizeSchedules(CLIENT_ID, '2024-03', 'u1');
+        expect(march.success).toBe(true);
+        expect(march.entries.find(e => e.account_code === '52200')!.debit).toBe(300);
+        expect(march.entries.every(e => e.reference_no === 'JV-ACCR-2024-03' && e.date === '2024-03-31')).toBe(true);
+        expect(march.schedules[0]).toMatchObject({ recognizedToDate: 300, remainingAmount: 900, lastRecognizedPeriod: '2024-03' });
+
+        expect((await recognizeSchedules(CLIENT_ID, '2024-03', 'u1')).entries).toEqual([]);
+
+        const december = await recognizeSchedules(CLIENT_ID, '2024-12', 'u1');
+        expect(december.schedules[0]).toMatchObject({ recognizedToDate: 1200, remainingAmount: 0, status: 'completed' });
+
+        const gl = await databaseService.getGLEntriesByClient(CLIENT_ID);
+        expect(gl.filter(e => e.account_code === '11800').reduce((s, e) => s + e.credit, 0)).toBe(1200);
+    });
+
+    it('should stop recognizing a terminated schedule and require a reason', async () => {
+        const created = await createSchedule(CLIENT_ID, input, 'u1');
+
+        await expect(terminateSchedule(created, ' ', 'u1')).rejects.toThrow();
+        const terminated = await terminateSchedule(created, 'ยกเลิกกรมธรรม์', 'u1');
+        expect(terminated).toMatchObject({ status: 'terminated', terminatedBy: 'u1', terminationReason: 'ยกเลิกกรมธรรม์' });
+
+        expect((await recognizeSchedules(CLIENT_ID, '2024-03', 'u1')).entries).toEqual([]);
+    });
+
+    it('should reclassify the invoice when a suggestion is accepted', async () => {
+        const doc = makeDoc('INV-SW', 'ค่าบริการซอฟต์แวร์ 12 เดือน', [{ code: '52200', side: 'DEBIT', amount: 12000 }]);
+        const result = await createScheduleFromSuggestion(CLIENT_ID, suggestScheduleFromDocument(doc)!, 'u1');
+
+        expect(result.schedule).toMatchObject({ sourceDocId: 'INV-SW', monthlyAmount: 1000, status: 'active' });
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['11800', 12000, 0],
+            ['52200', 0, 12000],
+        ]);
+        expect(result.entries[0].reference_no).toBe('JV-RECLASS-INV-SW');
+    });
+});
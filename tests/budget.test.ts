@@ -0,0 +1,190 @@
+/**
+ * Budget & Budget vs Actual - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Budget, Client, PostedGLEntry } from '../types';
+import {
+    generateBudgetVsActual,
+    generateYearToDateReports,
+    getBudget,
+    importBudget,
+    parseBudgetRows,
+} from '../services/budget';
+import { generateBudgetAlerts } from '../services/smartDashboard';
+
+const CLIENT_ID = 'C-BUDGET-TEST';
+const client = { id: CLIENT_ID, name: 'Cafe Amazon Branch Co' } as Client;
+
+const months = (amount: number) => new Array(12).fill(amount);
+
+const budget: Budget = {
+    id: `${CLIENT_ID}_2024_v1`,
+    clientId: CLIENT_ID,
+    fiscalYear: 2024,
+    version: 1,
+    versionType: 'original',
+    lines: [
+        { accountCode: '41100', monthly: months(100000) },
+        { accountCode: '51100', monthly: months(40000) },
+        { accountCode: '52200', monthly: months(20000) },
+    ],
+    importedAt: '2024-01-05T00:00:00.000Z',
+    importedBy: 'u1',
+};
+
+const line = (id: string, date: string, account_code: string, debit: number, credit: number, doc_no = 'JV-1'): PostedGLEntry => ({
+    id, clientId: CLIENT_ID, date, doc_no, description: id, account_code, account_name: account_code, debit, credit,
+});
+
+const glEntries: PostedGLEntry[] = [
+    line('S1', '2024-01-20', '41100', 0, 80000),
+    line('S2', '2024-02-20', '41100', 0, 95000),
+    line('C1', '2024-01-20', '51100', 30000, 0),
+    line('C2', '2024-02-20', '51100', 42000, 0),
+    line('R1', '2024-01-31', '52200', 35000, 0),
+    line('R2', '2024-02-29', '52200', 20000, 0),
+    // Closing voucher zeroes revenue into retained earnings; must not count as actual
+    line('X1', '2024-01-31', '41100', 80000, 0, 'JV-CLOSE-2024-01'),
+    line('M1', '2024-03-20', '41100', 0, 999999), // Outside the range
+];
+
+// ============================================================================
+// Import
+// ============================================================================
+
+describe('parseBudgetRows', () => {
+    it('should read Thai month headers and merge duplicate accounts', () => {
+        const rows: unknown[][] = [
+            ['งบประมาณปี 2567'],
+            ['รหัสบัญชี', 'ชื่อบัญชี', 'ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.'],
+            ['41100', 'รายได้จากการขาย', ...months(100000)],
+            ['41100', '', ...months('1,000.50')],
+            [null, 'รวม', ...months(101000.5)],
+        ];
+        const result = parseBudgetRows(rows);
+
+        expect(result.errors).toEqual([]);
+        expect(result.lines).toHaveLength(1);
+        expect(result.lines[0].accountName).toBe('รายได้จากการขาย');
+        expect(result.lines[0].monthly[11]).toBe(101000.5);
+    });
+
+    it('should accept English headers and report balance sheet accounts', () => {
+        const rows: unknown[][] = [
+            ['Account Code', 'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+            ['52200', ...months(20000)],
+            ['11100', ...months(5)],
+        ];
+        const result = parseBudgetRows(rows);
+
+        expect(result.lines.map(l => l.accountCode)).toEqual(['52200']);
+        expect(result.errors).toHaveLength(1);
+    });
+
+    it('should reject a sheet without twelve month columns', () => {
+        const result = parseBudgetRows([['Account Code', 'Jan', 'Feb']]);
+        expect(result.lines).toHaveLength(0);
+        expect(result.errors).toHaveLength(1);
+    });
+});
+
+// ============================================================================
+// Budget vs actual
+// ============================================================================
+
+describe('generateBudgetVsActual', () => {
+    it('should compare a month range and exclude closing vouchers', () => {
+        const report = generateBudgetVsActual(glEntries, client, budget, 1, 2);
+        const revenue = report.lines.find(l => l.accountCode === '41100')!;
+
+        expect(revenue.budget).toBe(200000);
+        expect(revenue.actual).toBe(175000);
+        expect(revenue.variance).toBe(-25000);
+        expect(revenue.variancePercent).toBe(-12.5);
+        expect(revenue.favorable).toBe(false);
+        expect(report.totals.grossProfit.actual).toBe(103000);
+        expect(report.totals.netProfit.budget).toBe(80000);
+        expect(report.totals.netProfit.actual).toBe(48000);
+    });
+
+    it('should flag only unfavorable variances over both thresholds', () => {
+        const report = generateBudgetVsActual(glEntries, client, budget, 1, 2);
+
+        // Revenue -12.5% / 25,000 and rent +37.5% / 15,000 are flagged;
+        // cost of sales is under budget (favorable)
+        expect(report.flagged.map(l => l.accountCode)).toEqual(['41100', '52200']);
+        expect(report.lines.find(l => l.accountCode === '51100')!.favorable).toBe(true);
+
+        const lenient = generateBudgetVsActual(glEntries, client, budget, 1, 2, { percentage: 20, minAmount: 20000 });
+        expect(lenient.flagged).toHaveLength(0);
+    });
+});
+
+describe('generateBudgetAlerts', () => {
+    it('should raise a critical alert when net profit misses budget by twice the threshold', () => {
+        const report = generateBudgetVsActual(glEntries, client, budget, 1, 2);
+        const alerts = generateBudgetAlerts([report]);
+
+        expect(alerts).toHaveLength(1);
+        expect(alerts[0].type).toBe('critical'); // Net profit -40%
+        expect(generateBudgetAlerts([{ ...report, flagged: [] }])).toHaveLength(0);
+    });
+});
+
+// ============================================================================
+// Versions (demo mode / localStorage)
+// ============================================================================
+
+describe('importBudget', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should keep the original and store re-imports as revised versions', async () => {
+        const v1 = await importBudget(CLIENT_ID, 2024, budget.lines, 'u1', { sourceFile: 'budget.xlsx' });
+        const v2 = await importBudget(CLIENT_ID, 2024, budget.lines.slice(0, 1), 'u1', { note: 'ปรับลดเป้าหมาย' });
+        const other = await importBudget(CLIENT_ID, 2025, budget.lines, 'u1');
+
+        expect([v1.version, v1.versionType]).toEqual([1, 'original']);
+        expect([v2.version, v2.versionType, v2.id]).toEqual([2, 'revised', `${CLIENT_ID}_2024_v2`]);
+        expect(other.version).toBe(1);
+
+        expect((await getBudget(CLIENT_ID, 2024))!.version).toBe(2);
+        expect((await getBudget(CLIENT_ID, 2024, 1))!.lines).toHaveLength(3);
+    });
+});
+
+describe('generateYearToDateReports', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should count year to date from the fiscal-year start', async () => {
+        // March year end: FY2024 runs April 2023 to March 2024
+        const marchClient = { ...client, fiscal_year_end_month: 3 } as Client;
+        await importBudget(CLIENT_ID, 2024, budget.lines, 'u1');
+        const entries = [
+            line('A1', '2023-03-31', '41100', 0, 50000), // FY2023
+            line('A2', '2023-04-15', '41100', 0, 120000),
+            line('A3', '2023-12-20', '41100', 0, 90000),
+            line('A4', '2024-01-10', '41100', 0, 100000),
+        ];
+
+        const [report] = await generateYearToDateReports([marchClient], entries, new Date(2024, 0, 31));
+
+        expect([report.fiscalYear, report.fromMonth, report.toMonth]).toEqual([2024, 4, 1]);
+        const revenue = report.lines.find(l => l.accountCode === '41100')!;
+        expect(revenue.budget).toBe(1000000); // April to January: 10 months
+        expect(revenue.actual).toBe(310000);
+    });
+});
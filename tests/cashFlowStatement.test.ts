@@ -0,0 +1,106 @@
+/**
+ * Cash Flow Statement - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Client, PostedGLEntry } from '../types';
+import { generateCashFlowStatement, generateCashFlowStatementHTML } from '../services/financialStatements';
+import { generateCashFlowContent } from '../utils/pdfExport';
+
+const CLIENT_ID = 'C-CF-TEST';
+const client = { id: CLIENT_ID, name: 'Chiang Mai Supply Co' } as Client;
+
+let seq = 0;
+const voucher = (doc_no: string, date: string, lines: [string, number, number][]): PostedGLEntry[] =>
+    lines.map(([account_code, debit, credit]) => ({
+        id: `GL-${++seq}`, clientId: CLIENT_ID, date, doc_no, description: doc_no, account_code, account_name: account_code, debit, credit,
+    }));
+
+const glEntries: PostedGLEntry[] = [
+    // Prior year: capital paid in, equipment bought
+    ...voucher('JV-001', '2023-01-01', [['11200', 500000, 0], ['31000', 0, 500000]]),
+    ...voucher('PV-001', '2023-06-01', [['12400', 100000, 0], ['11200', 0, 100000]]),
+    // Current year
+    ...voucher('SV-001', '2024-02-10', [['11300', 80000, 0], ['41100', 0, 80000]]),
+    ...voucher('RV-001', '2024-03-10', [['11200', 50000, 0], ['11300', 0, 50000]]),
+    ...voucher('RV-002', '2024-03-15', [['11100', 20000, 0], ['41100', 0, 20000]]),
+    ...voucher('JV-002', '2024-04-30', [['52400', 10000, 0], ['21300', 0, 10000]]),
+    ...voucher('PV-002', '2024-04-30', [['52100', 15000, 0], ['11200', 0, 15000]]),
+    ...voucher('JV-003', '2024-06-30', [['53400', 20000, 0], ['12401', 0, 20000]]),
+    // Equipment (cost 100,000, depreciated 20,000) sold for 90,000
+    ...voucher('RV-003', '2024-07-01', [['11200', 90000, 0], ['12401', 20000, 0], ['12400', 0, 100000], ['42300', 0, 10000]]),
+    ...voucher('PV-003', '2024-07-15', [['12500', 60000, 0], ['11200', 0, 60000]]),
+    ...voucher('RV-004', '2024-08-01', [['11200', 100000, 0], ['23100', 0, 100000]]),
+    ...voucher('PV-004', '2024-09-01', [['23100', 10000, 0], ['54200', 1000, 0], ['11200', 0, 11000]]),
+    // Year-end closing is not a cash flow
+    ...voucher('JV-CLOSE-2024-12', '2024-12-31', [['41100', 100000, 0], ['32000', 0, 100000]]),
+];
+
+const amounts = (items: { code: string; amount: number }[]) => Object.fromEntries(items.map(i => [i.code, i.amount]));
+
+describe('generateCashFlowStatement - indirect method', () => {
+    const statement = generateCashFlowStatement(glEntries, client, '2024-01-01', '2024-12-31', 'indirect');
+
+    it('should start from net profit before closing entries', () => {
+        expect(statement.netProfit).toBe(64000);
+        expect(statement.operating.items[0]).toMatchObject({ code: 'NET_PROFIT', amount: 64000 });
+    });
+
+    it('should add back depreciation and move the disposal gain to investing', () => {
+        expect(amounts(statement.operating.items)).toEqual({
+            NET_PROFIT: 64000,
+            DEPRECIATION: 20000,
+            DISPOSAL: -10000,
+            '11300': -30000,
+            '21300': 10000,
+        });
+        expect(statement.operating.total).toBe(54000);
+        expect(amounts(statement.investing.items)).toEqual({ PURCHASE: -60000, DISPOSAL: 90000 });
+        expect(amounts(statement.financing.items)).toEqual({ '23100': 90000 });
+    });
+
+    it('should reconcile to the movement in cash accounts', () => {
+        expect(statement).toMatchObject({ beginningCash: 400000, endingCash: 574000, netChange: 174000, difference: 0, isReconciled: true });
+    });
+});
+
+describe('generateCashFlowStatement - direct method', () => {
+    const statement = generateCashFlowStatement(glEntries, client, '2024-01-01', '2024-12-31', 'direct');
+
+    it('should classify cash vouchers by their other side', () => {
+        expect(amounts(statement.operating.items)).toEqual({ CUSTOMERS: 70000, EMPLOYEES: -15000, INTEREST_PAID: -1000 });
+        expect(amounts(statement.investing.items)).toEqual({ PURCHASE: -60000, DISPOSAL: 90000 });
+        expect(amounts(statement.financing.items)).toEqual({ '23100': 90000 });
+    });
+
+    it('should agree with the indirect method', () => {
+        const indirect = generateCashFlowStatement(glEntries, client, '2024-01-01', '2024-12-31', 'indirect');
+        expect(statement.operating.total).toBe(indirect.operating.total);
+        expect(statement.netChange).toBe(indirect.netChange);
+        expect(statement.isReconciled).toBe(true);
+    });
+});
+
+describe('cash flow renderers', () => {
+    const statement = generateCashFlowStatement(glEntries, client, '2024-07-01', '2024-09-30', 'indirect');
+
+    it('should reconcile a part-year period against the opening cash', () => {
+        expect(statement).toMatchObject({ beginningCash: 455000, endingCash: 574000, isReconciled: true });
+    });
+
+    it('should print outflows in brackets', () => {
+        const html = generateCashFlowStatementHTML(statement);
+        expect(html).toContain('งบกระแสเงินสด');
+        expect(html).toContain('วิธีทางอ้อม');
+        expect(html).toContain('(60,000.00)');
+
+        const content = generateCashFlowContent({
+            sections: [{ title: 'ลงทุน', totalLabel: 'รวม', items: [{ name: 'ซื้อ', amount: -60000 }], total: -60000 }],
+            netChange: -60000,
+            beginningCash: 100000,
+            endingCash: 40000,
+        });
+        expect(content).toContain('(60,000.00)');
+        expect(content).toContain('40,000.00');
+    });
+});
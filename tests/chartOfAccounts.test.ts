@@ -0,0 +1,111 @@
+/**
+ * Chart of Accounts Service - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    CHART_TEMPLATES,
+    THAI_CHART_OF_ACCOUNTS,
+    getTemplateIdForIndustry,
+    loadClientChart,
+    addAccount,
+    mergeAccounts,
+    resolveAccountCode,
+    seedClientChart,
+} from '../services/chartOfAccounts';
+import { PLATFORM_GL_MAPPING } from '../services/ecommercePlatforms';
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+describe('CHART_TEMPLATES', () => {
+    it('should extend the standard chart in every industry template', () => {
+        for (const template of Object.values(CHART_TEMPLATES)) {
+            for (const base of THAI_CHART_OF_ACCOUNTS) {
+                expect(template.accounts.some(a => a.code === base.code)).toBe(true);
+            }
+        }
+    });
+
+    it('should carry the platform shipping and discount accounts in the standard chart', () => {
+        for (const code of [PLATFORM_GL_MAPPING.shippingIncome, PLATFORM_GL_MAPPING.shippingExpense, PLATFORM_GL_MAPPING.discount]) {
+            expect(THAI_CHART_OF_ACCOUNTS.some(a => a.code === code)).toBe(true);
+        }
+    });
+
+    it('should not contain duplicate account codes', () => {
+        for (const template of Object.values(CHART_TEMPLATES)) {
+            const codes = template.accounts.map(a => a.code);
+            expect(new Set(codes).size).toBe(codes.length);
+        }
+    });
+});
+
+describe('getTemplateIdForIndustry', () => {
+    it('should map industries to templates', () => {
+        expect(getTemplateIdForIndustry('Restaurant')).toBe('restaurant');
+        expect(getTemplateIdForIndustry('ร้านอาหาร')).toBe('restaurant');
+        expect(getTemplateIdForIndustry('E-Commerce')).toBe('ecommerce');
+        expect(getTemplateIdForIndustry('Construction')).toBe('construction');
+    });
+
+    it('should fall back to the standard template', () => {
+        expect(getTemplateIdForIndustry(undefined)).toBe('standard');
+        expect(getTemplateIdForIndustry('Unknown')).toBe('standard');
+    });
+});
+
+// ============================================================================
+// Account maintenance (demo mode / localStorage)
+// ============================================================================
+
+describe('client chart maintenance', () => {
+    const clientId = 'C-COA-TEST';
+    let store: Record<string, string>;
+
+    beforeEach(async () => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+        await seedClientChart(clientId, 'standard', 'tester');
+    });
+
+    it('should seed a versioned chart for a client', async () => {
+        const chart = await loadClientChart(clientId);
+        expect(chart.templateId).toBe('standard');
+        expect(chart.history[0].action).toBe('seed');
+    });
+
+    it('should reject invalid and duplicate codes', async () => {
+        expect((await addAccount(clientId, { code: '123', name: 'X', nameTh: 'X', type: 'expense', normalBalance: 'debit' }, 'tester')).success).toBe(false);
+        expect((await addAccount(clientId, { code: '11100', name: 'X', nameTh: 'X', type: 'asset', normalBalance: 'debit' }, 'tester')).success).toBe(false);
+    });
+
+    it('should add an account and bump the chart version', async () => {
+        const before = await loadClientChart(clientId);
+        const result = await addAccount(clientId, { code: '52990', name: 'Misc', nameTh: 'เบ็ดเตล็ด', type: 'expense', normalBalance: 'debit' }, 'tester');
+        expect(result.success).toBe(true);
+        expect(result.chart.version).toBe(before.version + 1);
+        expect(result.chart.history.at(-1)?.action).toBe('add');
+    });
+
+    it('should resolve merged accounts to their target', async () => {
+        await addAccount(clientId, { code: '52990', name: 'Misc', nameTh: 'เบ็ดเตล็ด', type: 'expense', normalBalance: 'debit' }, 'tester');
+        const result = await mergeAccounts(clientId, '52990', '52100', 'tester');
+        expect(result.success).toBe(true);
+        expect(resolveAccountCode('52990', clientId)).toBe('52100');
+    });
+
+    it('should refuse to merge accounts of different types', async () => {
+        const result = await mergeAccounts(clientId, '11100', '52100', 'tester');
+        expect(result.success).toBe(false);
+    });
+
+    it('should refuse to reseed a customised chart', async () => {
+        await addAccount(clientId, { code: '52990', name: 'Misc', nameTh: 'เบ็ดเตล็ด', type: 'expense', normalBalance: 'debit' }, 'tester');
+        const result = await seedClientChart(clientId, 'services', 'tester');
+        expect(result.success).toBe(false);
+    });
+});
@@ -0,0 +1,138 @@
+/**
+ * Comparative Financial Statements - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Client, PostedGLEntry } from '../types';
+import {
+    generateBalanceSheetHTML,
+    generateComparativeBalanceSheet,
+    generateComparativeIncomeStatement,
+    generateIncomeStatementHTML,
+    generateIncomeTrend,
+    getComparativeBalanceDate,
+    getComparativePeriod,
+} from '../services/financialStatements';
+import { generatePnLContent } from '../utils/pdfExport';
+
+const CLIENT_ID = 'C-COMP-TEST';
+const client = { id: CLIENT_ID, name: 'Siam Trading Co' } as Client;
+
+const line = (id: string, date: string, account_code: string, debit: number, credit: number, doc_no = 'JV-1'): PostedGLEntry => ({
+    id, clientId: CLIENT_ID, date, doc_no, description: id, account_code, account_name: account_code, debit, credit,
+});
+
+const glEntries: PostedGLEntry[] = [
+    // Prior year
+    line('A1', '2023-01-01', '11100', 100000, 0),
+    line('A2', '2023-01-01', '31000', 0, 100000),
+    line('B1', '2023-03-10', '11100', 30000, 0),
+    line('B2', '2023-03-10', '41100', 0, 30000),
+    line('B3', '2023-03-20', '52100', 5000, 0),
+    line('B4', '2023-03-20', '11100', 0, 5000),
+    // Current year
+    line('C1', '2024-02-15', '11100', 40000, 0),
+    line('C2', '2024-02-15', '41100', 0, 40000),
+    line('D1', '2024-03-10', '11100', 50000, 0),
+    line('D2', '2024-03-10', '41100', 0, 50000),
+    line('D3', '2024-03-25', '52400', 8000, 0),
+    line('D4', '2024-03-25', '11100', 0, 8000),
+    // February closed to retained earnings
+    line('X1', '2024-02-29', '41100', 40000, 0, 'JV-CLOSE-2024-02'),
+    line('X2', '2024-02-29', '32000', 0, 40000, 'JV-CLOSE-2024-02'),
+];
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+describe('getComparativePeriod', () => {
+    it('should compare a month with the previous month across the year boundary', () => {
+        expect(getComparativePeriod('prior_month', '2024-01-31')).toEqual({
+            periodStart: '2024-01-01', periodEnd: '2024-01-31', priorStart: '2023-12-01', priorEnd: '2023-12-31',
+        });
+    });
+
+    it('should compare year-to-date with the same range of the prior year', () => {
+        expect(getComparativePeriod('prior_ytd', '2024-02-29')).toEqual({
+            periodStart: '2024-01-01', periodEnd: '2024-02-29', priorStart: '2023-01-01', priorEnd: '2023-02-28',
+        });
+    });
+
+    it('should use the prior month end or prior year end for the balance sheet', () => {
+        expect(getComparativeBalanceDate('prior_month', '2024-03-31')).toBe('2024-02-29');
+        expect(getComparativeBalanceDate('prior_ytd', '2024-03-31')).toBe('2023-12-31');
+    });
+
+    it('should start year-to-date at the fiscal-year start for a March year end', () => {
+        expect(getComparativePeriod('prior_ytd', '2024-02-29', 3)).toEqual({
+            periodStart: '2023-04-01', periodEnd: '2024-02-29', priorStart: '2022-04-01', priorEnd: '2023-02-28',
+        });
+        expect(getComparativeBalanceDate('prior_ytd', '2024-02-29', 3)).toBe('2023-03-31');
+        expect(getComparativeBalanceDate('prior_ytd', '2024-04-30', 3)).toBe('2024-03-31');
+    });
+});
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+describe('generateComparativeIncomeStatement', () => {
+    it('should populate previousAmount and keep prior-only accounts', () => {
+        const statement = generateComparativeIncomeStatement(glEntries, client, getComparativePeriod('prior_ytd', '2024-03-31'));
+
+        expect(statement.revenue.totalRevenue).toBe(90000); // Closing voucher excluded
+        expect(statement.comparative!.revenue.totalRevenue).toBe(30000);
+        expect(statement.revenue.items[0].previousAmount).toBe(30000);
+
+        const rent = statement.operatingExpenses.items.find(i => i.code === '52100')!;
+        expect([rent.amount, rent.previousAmount]).toEqual([0, 5000]);
+        expect(statement.operatingExpenses.totalOperatingExpenses).toBe(8000);
+    });
+
+    it('should render a prior column in the printable statement', () => {
+        const statement = generateComparativeIncomeStatement(glEntries, client, getComparativePeriod('prior_month', '2024-03-31'));
+        const html = generateIncomeStatementHTML(statement);
+
+        expect(html).toContain('2024-02-01 ถึง 2024-02-29');
+        expect(html).toContain('40,000.00'); // Prior month revenue
+    });
+});
+
+describe('generateComparativeBalanceSheet', () => {
+    it('should compare with the prior year end and stay balanced', () => {
+        const sheet = generateComparativeBalanceSheet(glEntries, client, '2024-03-31', '2023-12-31');
+
+        expect(sheet.assets.totalAssets).toBe(207000);
+        expect(sheet.comparative!.assets.totalAssets).toBe(125000);
+        expect(sheet.assets.currentAssets.items[0].previousAmount).toBe(125000);
+        expect(sheet.isBalanced && sheet.comparative!.isBalanced).toBe(true);
+        expect(generateBalanceSheetHTML(sheet)).toContain('2023-12-31');
+    });
+});
+
+describe('generateIncomeTrend', () => {
+    it('should return twelve months ending with the period, oldest first', () => {
+        const trend = generateIncomeTrend(glEntries, client, '2024-03-31');
+
+        expect(trend).toHaveLength(12);
+        expect(trend[0].period).toBe('2023-04');
+        expect(trend[10]).toMatchObject({ period: '2024-02', revenue: 40000 });
+        expect(trend[11].profitBeforeTax).toBe(42000);
+    });
+});
+
+describe('generatePnLContent', () => {
+    it('should add a prior column only when previous figures are given', () => {
+        const data = { revenue: 100, costOfSales: 40, grossProfit: 60, expenses: [{ name: 'ค่าเช่า', amount: 10, previousAmount: 7 }], netProfit: 50 };
+
+        expect(generatePnLContent(data)).not.toContain('<thead>');
+        const html = generatePnLContent({
+            ...data,
+            columns: ['2567', '2566'],
+            previous: { revenue: 80, costOfSales: 30, grossProfit: 50, netProfit: 43 },
+        });
+        expect(html).toContain('<th class="text-right">2566</th>');
+        expect(html).toContain('(7.00)');
+    });
+});
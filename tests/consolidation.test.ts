@@ -0,0 +1,130 @@
+/**
+ * Branches & Group Consolidation - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Client, ConsolidationGroup, PostedGLEntry } from '../types';
+import { getBranchCodes, normalizeBranchCode } from '../services/branches';
+import { calculateEliminations, generateConsolidatedBalanceSheet, generateConsolidatedIncomeStatement, saveGroup } from '../services/consolidation';
+import { generateBranchIncomeStatement, generateTrialBalance } from '../services/financialStatements';
+
+const parent = { id: 'C-HOLD', name: 'Holding Co', branches: ['สำนักงานใหญ่'] } as Client;
+const sub = { id: 'C-SUB', name: 'Subsidiary Co' } as Client;
+
+const line = (clientId: string, id: string, account_code: string, debit: number, credit: number, branch_code?: string): PostedGLEntry => ({
+    id, clientId, date: '2024-03-15', doc_no: `JV-${id}`, description: id,
+    account_code, account_name: account_code, debit, credit, ...(branch_code ? { branch_code } : {}),
+});
+
+const glEntries: PostedGLEntry[] = [
+    // Holding: capital, a loan to the subsidiary, management fee billed
+    line(parent.id, 'P1', '11200', 100000, 0, '00000'),
+    line(parent.id, 'P2', '31100', 0, 100000, '00000'),
+    line(parent.id, 'P3', '11500', 30000, 0, '00000'),
+    line(parent.id, 'P4', '11200', 0, 30000, '00000'),
+    line(parent.id, 'P5', '11200', 5000, 0, '00001'),
+    line(parent.id, 'P6', '41200', 0, 5000, '00001'),
+    // Subsidiary: capital, loan recorded short by 2,000, management fee
+    line(sub.id, 'S1', '11200', 50000, 0),
+    line(sub.id, 'S2', '31100', 0, 50000),
+    line(sub.id, 'S3', '11200', 28000, 0),
+    line(sub.id, 'S4', '21100', 0, 28000),
+    line(sub.id, 'S5', '52100', 5000, 0),
+    line(sub.id, 'S6', '11200', 0, 5000),
+];
+
+const group: ConsolidationGroup = {
+    id: 'GRP-TEST', name: 'Holding Group', parentClientId: parent.id, memberClientIds: [parent.id, sub.id],
+    eliminationRules: [
+        { id: 'LOAN', description: 'เงินให้กู้ยืมบริษัทย่อย', fromClientId: parent.id, fromAccountCode: '11500', toClientId: sub.id, toAccountCode: '21100' },
+        { id: 'FEE', description: 'ค่าบริหารจัดการ', fromClientId: parent.id, fromAccountCode: '41200', toClientId: sub.id, toAccountCode: '52100' },
+    ],
+    createdAt: '2024-01-01T00:00:00.000Z', createdBy: 'u1',
+};
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+describe('normalizeBranchCode', () => {
+    it('should map head office wording and branch numbers to RD branch codes', () => {
+        expect(normalizeBranchCode('สำนักงานใหญ่')).toBe('00000');
+        expect(normalizeBranchCode('Head Office')).toBe('00000');
+        expect(normalizeBranchCode('สาขาที่ 2')).toBe('00002');
+        expect(normalizeBranchCode('  ')).toBeUndefined();
+    });
+
+    it('should list registered branches before codes only found in the GL', () => {
+        expect(getBranchCodes(parent, glEntries)).toEqual(['00000', '00001']);
+    });
+});
+
+describe('branch reports', () => {
+    it('should restrict the trial balance to one branch', () => {
+        const report = generateTrialBalance(glEntries, parent, '2024-03-31', '2024-03-01', undefined, '00001');
+        expect(report.entries.map(e => e.accountCode)).toEqual(['11200', '41200']);
+        expect(report.totalDebit).toBe(5000);
+    });
+
+    it('should produce one income statement column per branch', () => {
+        const report = generateBranchIncomeStatement(glEntries, parent, '2024-03-01', '2024-03-31');
+        expect(report.segments.map(s => s.code)).toContain('00001');
+        expect(report.statements['00001'].revenue.totalRevenue).toBe(5000);
+        expect(report.total.revenue.totalRevenue).toBe(5000);
+    });
+});
+
+// ============================================================================
+// Consolidation
+// ============================================================================
+
+describe('calculateEliminations', () => {
+    it('should eliminate the smaller reciprocal balance and report the difference', () => {
+        const { results, entries } = calculateEliminations(group, glEntries, '2024-03-31');
+
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ fromBalance: 30000, toBalance: -28000, eliminated: 28000, unmatched: 2000 });
+        expect(entries.reduce((s, e) => s + e.debit - e.credit, 0)).toBe(0);
+    });
+});
+
+describe('generateConsolidatedBalanceSheet', () => {
+    it('should combine members, remove intercompany balances and stay balanced', () => {
+        const result = generateConsolidatedBalanceSheet(group, [parent, sub], glEntries, '2024-03-31');
+        const items = result.consolidated.assets.currentAssets.items;
+
+        expect(result.members.map(m => m.clientId)).toEqual([parent.id, sub.id]);
+        expect(items.find(i => i.code === '11500')?.amount).toBe(2000);
+        expect(result.consolidated.liabilities.currentLiabilities.items.find(i => i.code === '21100')).toBeUndefined();
+        expect(result.consolidated.isBalanced).toBe(true);
+    });
+});
+
+describe('generateConsolidatedIncomeStatement', () => {
+    it('should eliminate intercompany revenue against the matching expense', () => {
+        const result = generateConsolidatedIncomeStatement(group, [parent, sub], glEntries, '2024-03-01', '2024-03-31');
+
+        expect(result.eliminations.map(e => e.rule.id)).toEqual(['FEE']);
+        expect(result.consolidated.revenue.totalRevenue).toBe(0);
+        expect(result.consolidated.netProfit).toBe(0);
+    });
+});
+
+describe('saveGroup', () => {
+    beforeEach(() => {
+        const store: Record<string, string> = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should reject rules that point outside the group', async () => {
+        const input = {
+            name: 'Holding Group', parentClientId: parent.id, memberClientIds: [parent.id, sub.id],
+            eliminationRules: [{ ...group.eliminationRules[0], toClientId: 'C-OTHER' }],
+        };
+        await expect(saveGroup(input, 'u1')).rejects.toThrow('เงินให้กู้ยืมบริษัทย่อย');
+
+        const saved = await saveGroup({ ...input, eliminationRules: group.eliminationRules }, 'u1');
+        expect(saved.id).toMatch(/^GRP-C-HOLD-/);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Corporate Income Tax (PND50 / PND51) - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Client, PostedGLEntry } from '../types';
+import {
+    buildPND51PaymentEntries,
+    calculateCITAccrual,
+    calculateTieredCIT,
+    computeCorporateIncomeTax,
+    estimatePND51,
+    generatePND50HTML,
+    SME_CIT_BRACKETS,
+} from '../services/corporateIncomeTax';
+import { generateClosingEntries } from '../services/periodClosing';
+
+const CLIENT_ID = 'C-CIT-TEST';
+const client = { id: CLIENT_ID, name: 'บริษัท ทดสอบ จำกัด', tax_id: '0105560000018' } as Client;
+
+let seq = 0;
+const voucher = (doc_no: string, date: string, lines: [string, number, number][]): PostedGLEntry[] =>
+    lines.map(([account_code, debit, credit]) => ({
+        id: `GL-${++seq}`, clientId: CLIENT_ID, date, doc_no, description: doc_no, account_code, account_name: account_code, debit, credit,
+    }));
+
+const glEntries: PostedGLEntry[] = [
+    ...voucher('JV-001', '2022-01-01', [['11200', 1000000, 0], ['31200', 0, 1000000]]),
+    // FY2022 loss of 100,000, of which FY2023 uses 40,000
+    ...voucher('PV-001', '2022-06-30', [['52100', 100000, 0], ['11200', 0, 100000]]),
+    ...voucher('SV-001', '2023-06-30', [['11200', 40000, 0], ['41100', 0, 40000]]),
+    // FY2024: 3,000 withheld by the customer
+    ...voucher('SV-002', '2024-03-15', [['11300', 997000, 0], ['11900', 3000, 0], ['41100', 0, 1000000]]),
+    ...voucher('PV-002', '2024-04-30', [['52100', 500000, 0], ['11200', 0, 500000]]),
+    ...voucher('PV-003', '2024-05-10', [['52700', 10000, 0], ['11200', 0, 10000]]),
+    ...voucher('JV-CIT-2024-06', '2024-06-30', [['58000', 50000, 0], ['21600', 0, 50000]]),
+    // Monthly closing moves the P&L out; the tax computation must still see it
+    ...voucher('JV-CLOSE-2024-06', '2024-06-30', [['41100', 1000000, 0], ['52100', 0, 500000], ['52700', 0, 10000], ['58000', 0, 50000], ['32000', 0, 440000]]),
+    ...voucher('PND51-2024', '2024-08-20', [['21600', 5000, 0], ['11200', 0, 5000]]),
+    ...voucher('JV-PROV-2024-09', '2024-09-30', [['52900', 5000, 0], ['22100', 0, 5000]]),
+    ...voucher('PV-004', '2024-10-31', [['54500', 2000, 0], ['11200', 0, 2000]]),
+];
+
+describe('calculateTieredCIT', () => {
+    it('should tax SME profit band by band', () => {
+        expect(calculateTieredCIT(1000000, SME_CIT_BRACKETS).citAmount).toBe(105000);
+        expect(calculateTieredCIT(5000000, SME_CIT_BRACKETS).brackets.map(b => [b.base, b.tax])).toEqual([
+            [300000, 0],
+            [2700000, 405000],
+            [2000000, 400000],
+        ]);
+        expect(calculateTieredCIT(-10000, SME_CIT_BRACKETS).citAmount).toBe(0);
+    });
+});
+
+describe('computeCorporateIncomeTax', () => {
+    it('should reconcile accounting profit to taxable profit and credit WHT and PND51', () => {
+        const cit = computeCorporateIncomeTax(glEntries, client, 2024, { nonDeductibleAccounts: ['54500'] });
+
+        expect(cit.profitBeforeTax).toBe(483000);
+        // Entertainment cap: 0.3% x 1,000,000 = 3,000
+        expect(cit.adjustments.map(a => [a.type, a.amount])).toEqual([
+            ['entertainment', 7000],
+            ['provision', 5000],
+            ['non_deductible', 2000],
+        ]);
+        expect(cit.losses).toEqual([{ fiscalYear: 2022, amount: 60000, used: 60000, remaining: 0, lastYear: 2027 }]);
+        expect(cit.taxableProfit).toBe(437000);
+        expect(cit.sme.isSME).toBe(true);
+        expect(cit.citAmount).toBe(20550);
+        expect(cit.whtCredits).toBe(3000);
+        expect(cit.pnd51Paid).toBe(5000);
+        expect(cit.taxPayable).toBe(12550);
+        expect(cit.dueDate).toBe('2025-05-30');
+    });
+
+    it('should charge a flat 20% above 5M paid-up capital', () => {
+        const cit = computeCorporateIncomeTax(glEntries, client, 2024, { paidUpCapital: 6000000 });
+
+        // Entertainment cap: 0.3% x 6,000,000 = 18,000 covers the 10,000 spent
+        expect(cit.totalAddBack).toBe(5000);
+        expect(cit.sme).toMatchObject({ isSME: false, reasons: ['ทุนชำระแล้วเกิน 5 ล้านบาท'] });
+        expect(cit.citAmount).toBe(85600);
+    });
+
+    it('should drop losses older than five years', () => {
+        const cit = computeCorporateIncomeTax(glEntries, client, 2024, {
+            lossesBroughtForward: [{ fiscalYear: 2018, amount: 50000 }, { fiscalYear: 2020, amount: 10000 }],
+        });
+
+        expect(cit.losses.map(l => [l.fiscalYear, l.used])).toEqual([[2020, 10000]]);
+        expect(generatePND50HTML(cit)).toContain('หัก ผลขาดทุนสุทธิยกมาจากปีบัญชี 2020');
+    });
+});
+
+describe('estimatePND51', () => {
+    it('should tax half of the annualised first-half profit', () => {
+        const pnd51 = estimatePND51(glEntries, client, 2024);
+
+        expect(pnd51.halfYear).toEqual({ start: '2024-01-01', end: '2024-06-30' });
+        expect(pnd51.actualHalfYearProfit).toBe(497000);
+        expect(pnd51.taxBase).toBe(467000);
+        expect(pnd51.citAmount).toBe(25050);
+        expect(pnd51.taxPayable).toBe(22050);
+        expect(pnd51.dueDate).toBe('2024-08-31');
+
+        expect(estimatePND51(glEntries, client, 2024, { estimatedAnnualProfit: 500000 }).taxPayable).toBe(0);
+    });
+
+    it('should post the payment against the CIT payable after the half year', () => {
+        const pnd51 = estimatePND51(glEntries, client, 2024);
+
+        expect(() => buildPND51PaymentEntries(pnd51, '2024-06-30')).toThrow('หลังรอบครึ่งปีบัญชี');
+        expect(buildPND51PaymentEntries(pnd51, '2024-08-25').map(e => [e.doc_no, e.account_code, e.debit, e.credit])).toEqual([
+            ['PND51-2024', '21600', 22050, 0],
+            ['PND51-2024', '11200', 0, 22050],
+        ]);
+    });
+});
+
+describe('calculateCITAccrual', () => {
+    it('should reverse CIT over-accrued in earlier months', () => {
+        const december = glEntries.filter(e => e.date.startsWith('2024-12'));
+        const { accrued, accrual } = calculateCITAccrual(glEntries, client, 2024, '2024-12', { nonDeductibleAccounts: ['54500'] });
+
+        expect(accrued).toBe(50000);
+        expect(accrual).toBe(-29450);
+
+        const closing = generateClosingEntries(december, CLIENT_ID, '2024-12', 0.20, 0, accrual);
+        expect(closing.closingEntries.filter(e => e.doc_no === 'JV-CIT-2024-12').map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['58000', 0, 29450],
+            ['21600', 29450, 0],
+        ]);
+        expect(closing.netProfit).toBe(29450);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Cost Centers & Segmented P&L - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AllocationRule, Client, CostCenter, PostedGLEntry } from '../types';
+import {
+    calculateAllocations,
+    saveAllocationRule,
+    saveCostCenter,
+    setCostCenterActive,
+    validateAllocationRule,
+} from '../services/costCenters';
+import { generateSegmentedIncomeStatement } from '../services/financialStatements';
+
+const CLIENT_ID = 'C-CC-TEST';
+const client = { id: CLIENT_ID, name: 'Noodle House Co' } as Client;
+
+const costCenters: CostCenter[] = [
+    { code: 'BR01', name: 'สาขาสยาม', type: 'branch', isActive: true },
+    { code: 'BR02', name: 'สาขาอารีย์', type: 'branch', isActive: true },
+    { code: 'BR03', name: 'สาขาปิด', type: 'branch', isActive: false },
+];
+
+const line = (id: string, account_code: string, debit: number, credit: number, department_code?: string): PostedGLEntry => ({
+    id, clientId: CLIENT_ID, date: '2024-03-15', doc_no: 'JV-1', description: id,
+    account_code, account_name: account_code, debit, credit, ...(department_code ? { department_code } : {}),
+});
+
+const glEntries: PostedGLEntry[] = [
+    line('S1', '41100', 0, 60000, 'BR01'),
+    line('S2', '41100', 0, 40000, 'BR02'),
+    line('B1', '11200', 100000, 0),
+    line('C1', '51100', 20000, 0, 'BR01'),
+    line('C2', '51100', 15000, 0, 'BR02'),
+    line('R1', '52200', 10000, 0), // Shared rent, no department
+    line('U1', '52400', 3000, 0), // Shared utilities
+    line('P1', '11200', 0, 48000),
+];
+
+const rentRule: AllocationRule = {
+    id: 'R-RENT', name: 'ค่าเช่า', accountCodes: ['52200'], method: 'fixed', isActive: true,
+    targets: [{ costCenter: 'BR01', percentage: 70 }, { costCenter: 'BR02', percentage: 30 }],
+};
+
+const sumBy = (entries: PostedGLEntry[], dept: string | undefined, side: 'debit' | 'credit') =>
+    entries.filter(e => e.department_code === dept).reduce((s, e) => s + e[side], 0);
+
+// ============================================================================
+// Segmented P&L
+// ============================================================================
+
+describe('generateSegmentedIncomeStatement', () => {
+    it('should produce one column per cost center plus unassigned and total', () => {
+        const report = generateSegmentedIncomeStatement(glEntries, client, '2024-03-01', '2024-03-31', costCenters);
+
+        expect(report.segments.map(s => s.code)).toEqual(['BR01', 'BR02', '']);
+        expect(report.statements.BR01.grossProfit).toBe(40000);
+        expect(report.statements.BR02.grossProfit).toBe(25000);
+        expect(report.statements[''].operatingExpenses.totalOperatingExpenses).toBe(13000);
+        expect(report.total.profitBeforeTax).toBe(52000);
+    });
+});
+
+// ============================================================================
+// Allocation
+// ============================================================================
+
+describe('calculateAllocations', () => {
+    it('should split a shared expense by fixed percentages and net the pool to zero', () => {
+        const { entries, lines } = calculateAllocations(glEntries, [rentRule], CLIENT_ID, '2024-03');
+
+        expect(lines.map(l => [l.costCenter, l.amount])).toEqual([['BR01', 7000], ['BR02', 3000]]);
+        expect(sumBy(entries, undefined, 'credit')).toBe(10000);
+        expect(entries.every(e => e.doc_no === 'JV-ALLOC-2024-03' && e.date === '2024-03-31')).toBe(true);
+
+        const report = generateSegmentedIncomeStatement([...glEntries, ...entries], client, '2024-03-01', '2024-03-31', costCenters);
+        expect(report.statements.BR01.operatingProfit).toBe(33000);
+        expect(report.statements[''].operatingExpenses.totalOperatingExpenses).toBe(3000);
+    });
+
+    it('should split by revenue share and absorb rounding on the last target', () => {
+        const rule: AllocationRule = {
+            ...rentRule, id: 'R-UTIL', accountCodes: ['524'], method: 'revenue_share',
+            targets: [{ costCenter: 'BR01' }, { costCenter: 'BR02' }],
+        };
+        const entries = [...glEntries, line('U2', '52400', 0.01, 0)];
+        const { lines } = calculateAllocations(entries, [rule], CLIENT_ID, '2024-03');
+
+        expect(lines[0].share).toBe(60);
+        expect(lines.reduce((s, l) => s + l.amount, 0)).toBeCloseTo(3000.01, 2);
+    });
+
+    it('should report a revenue-share rule with no target revenue instead of guessing', () => {
+        const rule: AllocationRule = { ...rentRule, method: 'revenue_share', targets: [{ costCenter: 'BR03' }] };
+        const { entries, errors } = calculateAllocations(glEntries, [rule], CLIENT_ID, '2024-03');
+        expect(entries).toHaveLength(0);
+        expect(errors).toHaveLength(1);
+    });
+});
+
+describe('validateAllocationRule', () => {
+    it('should require fixed percentages to total 100 and active targets', () => {
+        expect(validateAllocationRule(rentRule, costCenters)).toEqual([]);
+        expect(validateAllocationRule({ ...rentRule, targets: [{ costCenter: 'BR01', percentage: 50 }] }, costCenters)).toHaveLength(1);
+        expect(validateAllocationRule({ ...rentRule, targets: [{ costCenter: 'BR03', percentage: 100 }] }, costCenters)).toHaveLength(1);
+    });
+});
+
+// ============================================================================
+// Master data (demo mode / localStorage)
+// ============================================================================
+
+describe('cost center master', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should not deactivate a cost center used as an allocation target', async () => {
+        await saveCostCenter(CLIENT_ID, { code: 'br01', name: 'สาขาสยาม', type: 'branch', isActive: true }, 'u1');
+        await saveCostCenter(CLIENT_ID, { code: 'BR02', name: 'สาขาอารีย์', type: 'branch', isActive: true }, 'u1');
+        const saved = await saveAllocationRule(CLIENT_ID, rentRule, 'u1');
+        expect(saved.success).toBe(true);
+        expect(saved.setup.costCenters[0].code).toBe('BR01');
+
+        const result = await setCostCenterActive(CLIENT_ID, 'BR01', false, 'u1');
+        expect(result.success).toBe(false);
+    });
+});
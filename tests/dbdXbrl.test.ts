@@ -0,0 +1,157 @@
+/**
+ * DBD e-Filing Export - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Client, ClientDBDMapping, PostedGLEntry } from '../types';
+import { buildDBDExport, generateDBDXBRL, resolveDBDElement, saveDBDMapping } from '../services/dbdXbrl';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-DBD-TEST';
+const client = { id: CLIENT_ID, name: 'Siam Trading & Co', tax_id: '0105560000011' } as Client;
+
+let seq = 0;
+const voucher = (doc_no: string, date: string, lines: [string, number, number][]): PostedGLEntry[] =>
+    lines.map(([account_code, debit, credit]) => ({
+        id: `GL-${++seq}`, clientId: CLIENT_ID, date, doc_no, description: doc_no, account_code, account_name: account_code, debit, credit,
+    }));
+
+const glEntries: PostedGLEntry[] = [
+    ...voucher('JV-001', '2023-01-05', [['11200', 1000000, 0], ['31200', 0, 1000000]]),
+    ...voucher('SV-001', '2023-06-01', [['11300', 200000, 0], ['41100', 0, 200000]]),
+    ...voucher('PV-001', '2023-06-10', [['51100', 120000, 0], ['21200', 0, 120000]]),
+    ...voucher('JV-CLOSE-2023-12', '2023-12-31', [['41100', 200000, 0], ['51100', 0, 120000], ['32000', 0, 80000]]),
+    ...voucher('SV-002', '2024-03-01', [['11300', 300000, 0], ['41200', 0, 300000]]),
+    ...voucher('PV-002', '2024-03-15', [['53300', 40000, 0], ['11200', 0, 40000]]),
+    ...voucher('PV-003', '2024-04-15', [['54200', 10000, 0], ['11200', 0, 10000]]),
+    ...voucher('JV-002', '2024-12-31', [['58000', 50000, 0], ['21600', 0, 50000]]),
+];
+
+const FY2024 = ['2024-01-01', '2024-12-31'] as const;
+const fact = (facts: { element: string; amount: number; priorAmount: number }[], element: string) =>
+    facts.find(f => f.element === element);
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+describe('resolveDBDElement', () => {
+    it('should use the longest matching prefix, client rules first', () => {
+        expect(resolveDBDElement('53300')).toBe('SellingExpenses');
+        expect(resolveDBDElement('53400')).toBe('AdministrativeExpenses');
+        expect(resolveDBDElement('54200')).toBe('FinanceCosts');
+        expect(resolveDBDElement('53400', [{ prefix: '534', element: 'CostOfSalesAndServices' }])).toBe('CostOfSalesAndServices');
+        expect(resolveDBDElement('99999')).toBeUndefined();
+    });
+});
+
+// ============================================================================
+// Statements
+// ============================================================================
+
+describe('buildDBDExport', () => {
+    it('should report balances with the prior year and roll unclosed profit into retained earnings', () => {
+        const data = buildDBDExport(glEntries, client, ...FY2024);
+
+        expect(data.errors).toEqual([]);
+        expect(data.priorEnd).toBe('2023-12-31');
+        expect(fact(data.balanceSheet, 'CashAndCashEquivalents')).toMatchObject({ amount: 950000, priorAmount: 1000000 });
+        expect(fact(data.balanceSheet, 'TradeAndOtherReceivables')).toMatchObject({ amount: 500000, priorAmount: 200000 });
+        expect(fact(data.balanceSheet, 'IncomeTaxPayable')).toMatchObject({ amount: 50000, priorAmount: 0 });
+        // 80,000 closed last year plus 200,000 not yet closed
+        expect(fact(data.balanceSheet, 'RetainedEarnings')).toMatchObject({ amount: 280000, priorAmount: 80000 });
+        expect(fact(data.balanceSheet, 'TotalAssets')).toMatchObject({ amount: 1450000, priorAmount: 1200000 });
+        expect(fact(data.balanceSheet, 'TotalLiabilitiesAndShareholdersEquity')).toMatchObject({ amount: 1450000, priorAmount: 1200000 });
+    });
+
+    it('should report the income statement before closing entries', () => {
+        const { incomeStatement } = buildDBDExport(glEntries, client, ...FY2024);
+
+        expect(incomeStatement.map(f => [f.element, f.amount, f.priorAmount])).toEqual([
+            ['RevenueFromSales', 0, 200000],
+            ['RevenueFromServices', 300000, 0],
+            ['TotalRevenues', 300000, 200000],
+            ['CostOfSalesAndServices', 0, 120000],
+            ['SellingExpenses', 40000, 0],
+            ['FinanceCosts', 10000, 0],
+            ['TotalExpenses', 50000, 120000],
+            ['ProfitLossBeforeIncomeTax', 250000, 80000],
+            ['IncomeTaxExpense', 50000, 0],
+            ['ProfitLoss', 200000, 80000],
+        ]);
+    });
+
+    it('should block export while accounts are unmapped or mapped to the wrong statement', () => {
+        const entries = [...glEntries, ...voucher('JV-003', '2024-06-30', [['19100', 5000, 0], ['11200', 0, 5000]])];
+        const mapping: ClientDBDMapping = {
+            clientId: CLIENT_ID, rules: [{ prefix: '542', element: 'LongTermBorrowings' }], updatedAt: '', updatedBy: 'u1',
+        };
+        const data = buildDBDExport(entries, client, ...FY2024, mapping);
+
+        expect(data.isValid).toBe(false);
+        expect(data.unmappedAccounts).toEqual([{ code: '19100', name: '19100', amount: 5000 }]);
+        expect(data.errors.some(e => e.includes('54200 → LongTermBorrowings'))).toBe(true);
+        expect(data.errors.some(e => e.includes('ไม่สมดุล'))).toBe(true);
+        expect(() => generateDBDXBRL(data)).toThrow('ไม่สามารถส่งออกงบการเงินได้');
+    });
+
+    it('should require a 13-digit registration number', () => {
+        const data = buildDBDExport(glEntries, { ...client, tax_id: '12345' }, ...FY2024);
+
+        expect(data.errors).toEqual(['เลขทะเบียนนิติบุคคลต้องมี 13 หลัก']);
+    });
+});
+
+// ============================================================================
+// XBRL
+// ============================================================================
+
+describe('generateDBDXBRL', () => {
+    it('should write instant and duration facts for both years', () => {
+        const xml = generateDBDXBRL(buildDBDExport(glEntries, client, ...FY2024));
+
+        expect(xml).toContain('<xbrli:identifier scheme="http://www.dbd.go.th">0105560000011</xbrli:identifier>');
+        expect(xml).toContain('<xbrli:instant>2023-12-31</xbrli:instant>');
+        expect(xml).toContain('<xbrli:startDate>2024-01-01</xbrli:startDate><xbrli:endDate>2024-12-31</xbrli:endDate>');
+        expect(xml).toContain('<dbd:CashAndCashEquivalents contextRef="CurrentInstant" unitRef="THB" decimals="2">950000.00</dbd:CashAndCashEquivalents>');
+        expect(xml).toContain('<dbd:ProfitLoss contextRef="PriorDuration" unitRef="THB" decimals="2">80000.00</dbd:ProfitLoss>');
+        expect(xml).toContain('Siam Trading &amp; Co');
+    });
+});
+
+// ============================================================================
+// Saving (demo mode / localStorage)
+// ============================================================================
+
+describe('saveDBDMapping', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [client], documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should keep the last rule for a prefix', async () => {
+        await saveDBDMapping(CLIENT_ID, [
+            { prefix: '534', element: 'SellingExpenses' },
+            { prefix: ' 119 ', element: 'TradeAndOtherReceivables' },
+            { prefix: '534', element: 'AdministrativeExpenses' },
+        ], 'u1');
+
+        expect((await databaseService.getDBDMapping(CLIENT_ID))!.rules).toEqual([
+            { prefix: '119', element: 'TradeAndOtherReceivables' },
+            { prefix: '534', element: 'AdministrativeExpenses' },
+        ]);
+    });
+
+    it('should reject unknown elements', async () => {
+        await expect(saveDBDMapping(CLIENT_ID, [{ prefix: '534', element: 'Goodwill' }], 'u1')).rejects.toThrow('Goodwill');
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Notes to the Financial Statements - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Client, ConsolidationGroup, FixedAsset, PostedGLEntry } from '../types';
+import {
+    fillTemplate,
+    generateFinancialNotes,
+    generateFinancialNotesHTML,
+    NOTE_DEFINITIONS,
+    saveNoteTemplates,
+} from '../services/financialNotes';
+import { calculateBookTaxDifferences } from '../services/taxDepreciation';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-NOTES-TEST';
+const PARENT_ID = 'C-NOTES-PARENT';
+const client = {
+    id: CLIENT_ID, name: 'Lanna Craft Co', tax_id: '0505560000011', industry: 'ผลิตเครื่องเรือน', address: 'เชียงใหม่',
+} as Client;
+
+let seq = 0;
+const voucher = (doc_no: string, date: string, lines: [string, number, number][]): PostedGLEntry[] =>
+    lines.map(([account_code, debit, credit]) => ({
+        id: `GL-${++seq}`, clientId: CLIENT_ID, date, doc_no, description: doc_no, account_code, account_name: account_code, debit, credit,
+    }));
+
+const glEntries: PostedGLEntry[] = [
+    ...voucher('JV-001', '2023-01-01', [['11200', 500000, 0], ['31000', 0, 500000]]),
+    ...voucher('PV-001', '2023-06-01', [['12400', 100000, 0], ['11200', 0, 100000]]),
+    ...voucher('JV-002', '2024-03-01', [['12300', 800000, 0], ['23100', 0, 800000]]),
+    ...voucher('SV-001', '2024-04-01', [['11300', 50000, 0], ['41100', 0, 50000]]),
+    ...voucher('RV-001', '2024-04-20', [['11900', 1500, 0], ['11300', 0, 1500]]),
+    ...voucher('PV-002', '2024-05-01', [['11500', 30000, 0], ['11200', 0, 30000]]),
+    ...voucher('JV-003', '2024-12-31', [['53400', 20000, 0], ['12401', 0, 20000]]),
+    ...voucher('JV-004', '2024-12-31', [['58000', 5000, 0], ['21600', 0, 5000]]),
+    ...voucher('JV-CLOSE-2024-12', '2024-12-31', [['41100', 50000, 0], ['58000', 0, 5000], ['53400', 0, 20000], ['32000', 0, 25000]]),
+];
+
+const assets: FixedAsset[] = [{
+    id: 'FA-1', clientId: CLIENT_ID, asset_code: '12400-001', name: 'เครื่องไสไม้', category: 'Equipment',
+    acquisition_date: '2023-06-01', cost: 100000, residual_value: 0, useful_life_years: 2,
+    accumulated_depreciation_bf: 0, current_month_depreciation: 0,
+}];
+
+const groups: ConsolidationGroup[] = [{
+    id: 'GRP-1', name: 'Lanna Group', parentClientId: PARENT_ID, memberClientIds: [PARENT_ID, CLIENT_ID],
+    eliminationRules: [{ id: 'R1', description: 'เงินให้กู้ยืมแก่บริษัทแม่', fromClientId: CLIENT_ID, fromAccountCode: '11500', toClientId: PARENT_ID, toAccountCode: '21500' }],
+    createdAt: '2024-01-01T00:00:00.000Z', createdBy: 'u1',
+}];
+const clients = [client, { id: PARENT_ID, name: 'Lanna Holding' } as Client];
+
+const FY2024 = { periodStart: '2024-01-01', periodEnd: '2024-12-31' };
+const generate = () => generateFinancialNotes({ client, glEntries, assets, ...FY2024, groups, clients });
+const note = (key: string) => generate().notes.find(n => n.key === key)!;
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+describe('fillTemplate', () => {
+    it('should fill known placeholders and leave unknown ones visible', () => {
+        expect(fillTemplate('{{company}} ณ {{period_end}} {{unknown}}', { company: 'ABC', period_end: '2024-12-31' }))
+            .toBe('ABC ณ 2024-12-31 {{unknown}}');
+    });
+});
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+describe('generateFinancialNotes', () => {
+    it('should number the notes in the standard order and fill client master data', () => {
+        const report = generate();
+
+        expect(report.notes.map(n => n.number)).toEqual(NOTE_DEFINITIONS.map((_, i) => i + 1));
+        expect(report.notes[0].narrative).toContain('Lanna Craft Co');
+        expect(report.notes[0].narrative).toContain('0505560000011');
+        expect(note('policies').narrative).toContain('วิธีเส้นตรง ตามอายุการใช้งานโดยประมาณ (อุปกรณ์สำนักงาน 2 ปี)');
+    });
+
+    it('should compare cash and receivables with the day before the period', () => {
+        expect(note('cash').tables[0]).toMatchObject({
+            columns: ['2024-12-31', '2023-12-31'],
+            rows: [{ label: 'เงินฝากธนาคาร', values: [370000, 400000] }, { values: [370000, 400000], isTotal: true }],
+        });
+        expect(note('receivables').narrative).toContain('48,500.00');
+        expect(note('receivables').narrative).toContain('จึงไม่ได้ตั้งค่าเผื่อหนี้สงสัยจะสูญ');
+    });
+
+    it('should disclose the doubtful-accounts allowance when one is booked', () => {
+        const withAllowance = [...glEntries, ...voucher('JV-005', '2024-12-31', [['52900', 2500, 0], ['11301', 0, 2500]])];
+        const receivables = generateFinancialNotes({ client, glEntries: withAllowance, assets, ...FY2024, groups, clients })
+            .notes.find(n => n.key === 'receivables')!;
+
+        expect(receivables.narrative).toContain('46,000.00');
+        expect(receivables.narrative).toContain('แสดงสุทธิจากค่าเผื่อหนี้สงสัยจะสูญจำนวน 2,500.00 บาท');
+        expect(receivables.narrative).not.toContain('ไม่ได้ตั้งค่าเผื่อ');
+    });
+
+    it('should show the PP&E movement from the ledger', () => {
+        const [cost, accumulated] = note('ppe').tables;
+
+        expect(cost.rows.map(r => [r.label, r.values])).toEqual([
+            ['ยานพาหนะ', [0, 800000, 0, 800000]],
+            ['อุปกรณ์สำนักงาน', [100000, 0, 0, 100000]],
+            ['รวมราคาทุน', [100000, 800000, 0, 900000]],
+        ]);
+        expect(accumulated.rows[accumulated.rows.length - 1]).toMatchObject({ label: 'มูลค่าสุทธิตามบัญชี', values: [100000, null, null, 880000] });
+        expect(note('ppe').narrative).toContain('880,000.00');
+    });
+
+    it('should list related-party balances from the intercompany rules', () => {
+        const related = note('related_parties');
+
+        expect(related.narrative).toContain('Lanna Holding');
+        expect(related.tables[0].rows).toEqual([{ label: 'Lanna Holding - ลูกหนี้อื่น', values: [30000] }]);
+    });
+
+    it('should report tax before closing entries with the depreciation add-back', () => {
+        const addBack = calculateBookTaxDifferences(assets, { start: '2024-01-01', end: '2024-12-31' }).totalAddBack;
+        expect(addBack).toBeGreaterThan(0);
+
+        expect(note('tax').tables[0].rows.map(r => r.values[0])).toEqual([5000, addBack, 1500, 5000]);
+    });
+
+    it('should use the client wording and export with the statements', () => {
+        const report = generateFinancialNotes({
+            client, glEntries, assets, ...FY2024,
+            templates: { clientId: CLIENT_ID, narratives: { cash: 'เงินสดรวม {{cash_total}} บาท' }, updatedAt: '', updatedBy: 'u1' },
+        });
+        expect(report.notes.find(n => n.key === 'cash')!.narrative).toBe('เงินสดรวม 370,000.00 บาท');
+        expect(report.notes.find(n => n.key === 'related_parties')!.tables).toEqual([]);
+
+        const html = generateFinancialNotesHTML(report, '<h2>งบแสดงฐานะการเงิน</h2>');
+        expect(html).toContain('urn:schemas-microsoft-com:office:word');
+        expect(html.indexOf('งบแสดงฐานะการเงิน')).toBeLessThan(html.indexOf('4. เงินสดและรายการเทียบเท่าเงินสด'));
+    });
+});
+
+// ============================================================================
+// Saving (demo mode / localStorage)
+// ============================================================================
+
+describe('saveNoteTemplates', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [client], documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should store only wording that differs from the standard text', async () => {
+        const standard = NOTE_DEFINITIONS.find(d => d.key === 'general')!.template;
+        await saveNoteTemplates(CLIENT_ID, { general: standard, tax: ' ภาษีตามแบบ ภ.ง.ด.50 ' }, 'u1');
+
+        expect((await databaseService.getFinancialNoteTemplates(CLIENT_ID))!.narratives).toEqual({ tax: 'ภาษีตามแบบ ภ.ง.ด.50' });
+    });
+
+    it('should reject an empty note', async () => {
+        await expect(saveNoteTemplates(CLIENT_ID, { cash: '  ' }, 'u1')).rejects.toThrow('เงินสด');
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Fiscal Year-End Close - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PostedGLEntry } from '../types';
+import {
+    closeFiscalYear,
+    getFiscalYearOf,
+    getFiscalYearRange,
+    reopenFiscalYear,
+} from '../services/fiscalYear';
+import {
+    calculateBroughtForwardBalances,
+    generateOpeningBalanceEntries,
+    generateYearEndClosingEntries,
+} from '../services/periodClosing';
+import { getTrialBalanceByPeriod } from '../services/periodQueryService';
+
+const CLIENT_ID = 'C-FY-TEST';
+
+const line = (id: string, date: string, account_code: string, debit: number, credit: number, doc_no = 'JV-1'): PostedGLEntry => ({
+    id, clientId: CLIENT_ID, date, doc_no, description: id, account_code, account_name: account_code, debit, credit,
+});
+
+// Fiscal year ending March: FY2024 = 2023-04-01 .. 2024-03-31
+const range = getFiscalYearRange(2024, 3);
+
+const glEntries: PostedGLEntry[] = [
+    line('A1', '2023-04-01', '11100', 100000, 0),
+    line('A2', '2023-04-01', '31200', 0, 100000),
+    line('S1', '2023-06-15', '11100', 60000, 0),
+    line('S2', '2023-06-15', '41100', 0, 60000),
+    line('E1', '2024-02-10', '52100', 15000, 0),
+    line('E2', '2024-02-10', '11100', 0, 15000),
+    // June closed monthly straight to retained earnings
+    line('X1', '2023-06-30', '41100', 20000, 0, 'JV-CLOSE-2023-06'),
+    line('X2', '2023-06-30', '32000', 0, 20000, 'JV-CLOSE-2023-06'),
+    // Next fiscal year
+    line('N1', '2024-04-10', '11100', 5000, 0),
+    line('N2', '2024-04-10', '41100', 0, 5000),
+];
+
+const sum = (entries: PostedGLEntry[], field: 'debit' | 'credit') => entries.reduce((s, e) => s + e[field], 0);
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+describe('getFiscalYearRange', () => {
+    it('should label a non-December fiscal year by the year it ends in', () => {
+        expect(range).toEqual({ start: '2023-04-01', end: '2024-03-31' });
+        expect(getFiscalYearRange(2024)).toEqual({ start: '2024-01-01', end: '2024-12-31' });
+        expect(getFiscalYearRange(2024, 2).end).toBe('2024-02-29');
+    });
+
+    it('should map dates after the year-end month to the next fiscal year', () => {
+        expect(getFiscalYearOf('2024-03-31', 3)).toBe(2024);
+        expect(getFiscalYearOf('2024-04-01', 3)).toBe(2025);
+        expect(getFiscalYearOf('2024-12-31')).toBe(2024);
+    });
+});
+
+// ============================================================================
+// Generators
+// ============================================================================
+
+describe('generateYearEndClosingEntries', () => {
+    it('should close what monthly closings left through the income summary', () => {
+        const { entries, netProfit } = generateYearEndClosingEntries(glEntries, CLIENT_ID, 2024, range);
+
+        expect(netProfit).toBe(45000);
+        expect(sum(entries, 'debit')).toBe(sum(entries, 'credit'));
+        expect(entries.every(e => e.doc_no === 'JV-CLOSE-FY2024' && e.date === '2024-03-31')).toBe(true);
+        expect(entries.find(e => e.account_code === '41100')!.debit).toBe(40000);
+        expect(entries.find(e => e.account_code === '32000')!.credit).toBe(25000);
+    });
+});
+
+describe('generateOpeningBalanceEntries', () => {
+    it('should carry balance sheet accounts into the next year and fold P&L into retained earnings', () => {
+        const closing = generateYearEndClosingEntries(glEntries, CLIENT_ID, 2024, range).entries;
+        const opening = generateOpeningBalanceEntries([...glEntries, ...closing], CLIENT_ID, 2024, range);
+
+        expect(opening.every(e => e.date === '2024-04-01' && e.doc_no === 'JV-OPEN-FY2025')).toBe(true);
+        expect(opening.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['11100', 145000, 0],
+            ['31200', 0, 100000],
+            ['32000', 0, 45000],
+        ]);
+        // Same result before the closing voucher is posted
+        expect(generateOpeningBalanceEntries(glEntries, CLIENT_ID, 2024, range).map(e => e.credit))
+            .toEqual(opening.map(e => e.credit));
+    });
+
+    it('should start from the latest live opening voucher instead of all history', () => {
+        const withOpening = [
+            ...glEntries,
+            line('O1', '2024-04-01', '11100', 145000, 0, 'JV-OPEN-FY2025'),
+            line('O2', '2024-04-01', '31200', 0, 145000, 'JV-OPEN-FY2025'),
+        ];
+        const balances = calculateBroughtForwardBalances(withOpening, '2025-04-01');
+
+        expect(balances.map(b => [b.accountCode, b.balance])).toEqual([
+            ['11100', 150000],
+            ['31200', -145000],
+            ['32000', -5000],
+        ]);
+    });
+});
+
+// ============================================================================
+// Close / reopen (demo mode / localStorage)
+// ============================================================================
+
+describe('closeFiscalYear', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [{ id: CLIENT_ID, name: 'Fiscal Co', fiscal_year_end_month: 3, current_workflow: { month: '2024-04', is_locked: false } }],
+                documents: [], staff: [], glEntries, assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should post closing and opening vouchers and start the trial balance from them', async () => {
+        const result = await closeFiscalYear({ clientId: CLIENT_ID, fiscalYear: 2024, userId: 'u1' });
+
+        expect(result.success).toBe(true);
+        expect(result.record).toMatchObject({ status: 'closed', netProfit: 45000, periodEnd: '2024-03-31' });
+        expect((await closeFiscalYear({ clientId: CLIENT_ID, fiscalYear: 2024, userId: 'u1' })).success).toBe(false);
+
+        const tb = await getTrialBalanceByPeriod(CLIENT_ID, 2024, '04', 3);
+        const cash = tb.find(r => r.account_code === '11100')!;
+        expect(cash.debit - cash.credit).toBe(150000);
+        expect(tb.find(r => r.account_code === '32000')!.credit).toBe(45000);
+    });
+
+    it('should require a reason and reverse both vouchers on reopen', async () => {
+        await closeFiscalYear({ clientId: CLIENT_ID, fiscalYear: 2024, userId: 'u1' });
+
+        expect((await reopenFiscalYear({ clientId: CLIENT_ID, fiscalYear: 2024, userId: 'u2', reason: ' ' })).success).toBe(false);
+        const result = await reopenFiscalYear({ clientId: CLIENT_ID, fiscalYear: 2024, userId: 'u2', reason: 'ปรับปรุงสินค้าคงเหลือ' });
+
+        expect(result.success).toBe(true);
+        expect(result.record).toMatchObject({ status: 'reopened', reopenedBy: 'u2', reopenReason: 'ปรับปรุงสินค้าคงเหลือ' });
+        expect(result.entries.every(e => e.reversal_of)).toBe(true);
+
+        // Without a live opening voucher the balance is brought forward from history
+        const tb = await getTrialBalanceByPeriod(CLIENT_ID, 2024, '04', 3);
+        const cash = tb.find(r => r.account_code === '11100')!;
+        expect(cash.debit - cash.credit).toBe(150000);
+    });
+});
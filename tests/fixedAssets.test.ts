@@ -0,0 +1,178 @@
+/**
+ * Fixed Asset Lifecycle - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FixedAsset } from '../types';
+import { buildDepreciationSchedule, calculateDepreciation, getDepreciationForPeriod } from '../services/periodClosing';
+import { disposeAsset, getNetBookValue, impairAsset, postDepreciation, transferAsset } from '../services/fixedAssets';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-FA-TEST';
+
+const asset = (overrides: Partial<FixedAsset> = {}): FixedAsset => ({
+    id: 'FA-1',
+    clientId: CLIENT_ID,
+    asset_code: '12400-001',
+    name: 'Laptop',
+    category: 'Equipment',
+    acquisition_date: '2024-01-15',
+    cost: 12000,
+    residual_value: 0,
+    useful_life_years: 1,
+    accumulated_depreciation_bf: 0,
+    current_month_depreciation: 0,
+    ...overrides,
+});
+
+const sum = (values: number[]) => Math.round(values.reduce((s, v) => s + v, 0) * 100) / 100;
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+describe('buildDepreciationSchedule', () => {
+    it('should depreciate straight-line from the acquisition month to the residual value', () => {
+        const rows = buildDepreciationSchedule(asset());
+
+        expect(rows).toHaveLength(12);
+        expect(rows[0]).toMatchObject({ period: '2024-01', depreciation: 1000 });
+        expect(rows[11]).toMatchObject({ period: '2024-12', closingValue: 0, accumulatedDepreciation: 12000 });
+        expect(buildDepreciationSchedule(asset({ category: 'Land' }))).toEqual([]);
+    });
+
+    it('should run declining-balance down to the residual value over the useful life', () => {
+        const rows = buildDepreciationSchedule(asset({ cost: 10000, residual_value: 1, useful_life_years: 5, depreciation_method: 'declining_balance' }));
+
+        expect(rows).toHaveLength(60);
+        expect(rows[0].depreciation).toBe(333.33);
+        expect(rows[1].depreciation).toBeLessThan(rows[0].depreciation);
+        expect(rows[59].closingValue).toBe(1);
+    });
+
+    it('should follow recorded output for units of production', () => {
+        const rows = buildDepreciationSchedule(asset({
+            cost: 10000,
+            residual_value: 1000,
+            depreciation_method: 'units_of_production',
+            total_units: 900,
+            units_by_period: { '2024-01': 300, '2024-03': 600 },
+        }));
+
+        expect(rows.map(r => r.depreciation)).toEqual([3000, 0, 6000]);
+        expect(rows[2].closingValue).toBe(1000);
+    });
+
+    it('should re-spread the remaining charge after an impairment', () => {
+        const rows = buildDepreciationSchedule(asset({
+            history: [{ type: 'impairment', date: '2024-06-15', amount: 1000, by: 'u1', at: '' }],
+        }));
+
+        expect(rows[5]).toMatchObject({ period: '2024-06', depreciation: 1000, impairment: 1000, closingValue: 5000 });
+        expect(rows[6].depreciation).toBe(833.33);
+        expect(rows[11].closingValue).toBe(0);
+    });
+});
+
+describe('getDepreciationForPeriod', () => {
+    it('should catch up from depreciated_through and stop at the booked residual', () => {
+        expect(getDepreciationForPeriod(asset({ depreciated_through: '2024-02', accumulated_depreciation_bf: 2000 }), '2024-04')).toBe(2000);
+        expect(getDepreciationForPeriod(asset({ depreciated_through: '2024-04', accumulated_depreciation_bf: 4000 }), '2024-04')).toBe(0);
+        // Legacy assets without depreciated_through only book the month, capped at what is left
+        expect(getDepreciationForPeriod(asset({ accumulated_depreciation_bf: 11500 }), '2024-06')).toBe(500);
+        expect(getDepreciationForPeriod(asset({ accumulated_depreciation_bf: 12000 }), '2024-06')).toBe(0);
+    });
+
+    it('should post to the category accounts and carry the cost center', () => {
+        const { entries } = calculateDepreciation([asset({ category: 'Vehicle', department_code: 'BR01' })], CLIENT_ID, '2024-03');
+
+        expect(entries.map(e => [e.account_code, e.debit, e.credit, e.department_code])).toEqual([
+            ['53400', 1000, 0, 'BR01'],
+            ['12301', 0, 1000, 'BR01'],
+        ]);
+    });
+});
+
+// ============================================================================
+// Lifecycle (demo mode / localStorage)
+// ============================================================================
+
+describe('asset lifecycle', () => {
+    let store: Record<string, string>;
+    const booked = asset({ accumulated_depreciation_bf: 3000, depreciated_through: '2024-03', department_code: 'BR01' });
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [{ id: CLIENT_ID, name: 'Asset Co', current_workflow: { month: '2024-05', is_locked: false } }],
+                documents: [], staff: [], glEntries: [], assets: [booked],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should post depreciation once per period and advance the booked balance', async () => {
+        const result = await postDepreciation(CLIENT_ID, '2024-04', 'u1');
+
+        expect(result.totalDepreciation).toBe(1000);
+        expect(result.assets[0]).toMatchObject({ accumulated_depreciation_bf: 4000, depreciated_through: '2024-04' });
+        expect((await postDepreciation(CLIENT_ID, '2024-04', 'u1')).entries).toEqual([]);
+    });
+
+    it('should catch up depreciation and book the gain on disposal', async () => {
+        const result = await disposeAsset({ asset: booked, date: '2024-05-20', proceeds: 9000, userId: 'u1' });
+
+        expect(result.success).toBe(true);
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['53400', 2000, 0],
+            ['12401', 0, 2000],
+            ['12401', 5000, 0],
+            ['11200', 9000, 0],
+            ['12400', 0, 12000],
+            ['42300', 0, 2000],
+        ]);
+        expect(result.asset).toMatchObject({ status: 'disposed', disposal_gain_loss: 2000, accumulated_depreciation_bf: 5000 });
+        expect(getDepreciationForPeriod(result.asset!, '2024-06')).toBe(0);
+        expect((await disposeAsset({ asset: result.asset!, date: '2024-06-01', proceeds: 0, userId: 'u1' })).success).toBe(false);
+    });
+
+    it('should book a loss when an asset is written off', async () => {
+        const result = await disposeAsset({ asset: booked, date: '2024-03-31', proceeds: 0, userId: 'u1' });
+
+        expect(result.entries.find(e => e.account_code === '54400')!.debit).toBe(9000);
+        expect(result.asset!.disposal_gain_loss).toBe(-9000);
+    });
+
+    it('should cap impairment at the carrying amount and reduce it', async () => {
+        expect((await impairAsset({ asset: booked, date: '2024-03-31', amount: 9500, userId: 'u1' })).success).toBe(false);
+
+        const result = await impairAsset({ asset: booked, date: '2024-03-31', amount: 1800, userId: 'u1' });
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['54500', 1800, 0],
+            ['12401', 0, 1800],
+        ]);
+        expect(getNetBookValue(result.asset!)).toBe(7200);
+        expect(getDepreciationForPeriod(result.asset!, '2024-04')).toBe(800);
+    });
+
+    it('should move cost and accumulated depreciation to the new cost center', async () => {
+        expect((await transferAsset({ asset: booked, date: '2024-04-01', toDepartment: 'BR01', userId: 'u1' })).success).toBe(false);
+
+        const result = await transferAsset({ asset: booked, date: '2024-04-01', toDepartment: 'BR02', userId: 'u1' });
+        expect(result.entries.map(e => [e.account_code, e.department_code, e.debit, e.credit])).toEqual([
+            ['12400', 'BR02', 12000, 0],
+            ['12400', 'BR01', 0, 12000],
+            ['12401', 'BR01', 3000, 0],
+            ['12401', 'BR02', 0, 3000],
+        ]);
+        expect(result.asset).toMatchObject({ department_code: 'BR02' });
+        expect(result.asset!.history![0]).toMatchObject({ type: 'transfer', from: 'BR01', to: 'BR02' });
+
+        const stored = await databaseService.getAssetsByClient(CLIENT_ID);
+        expect(stored[0].department_code).toBe('BR02');
+        expect(sum(result.entries.map(e => e.debit))).toBe(sum(result.entries.map(e => e.credit)));
+    });
+});
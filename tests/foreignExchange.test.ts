@@ -0,0 +1,190 @@
+/**
+ * Foreign Exchange - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BankTransaction, DocumentRecord, PostedGLEntry } from '../types';
+import {
+    applyExchangeRate,
+    buildBankMatchSettlement,
+    buildSettlementEntries,
+    calculateRealizedFX,
+    getOutstandingForeignAmount,
+    getRateForDate,
+    importExchangeRates,
+    parseExchangeRateCSV,
+} from '../services/foreignExchange';
+import { calculateFXRevaluation } from '../services/periodClosing';
+
+const CLIENT_ID = 'C-FX-TEST';
+
+const sum = (entries: { debit: number; credit: number }[], side: 'debit' | 'credit') =>
+    Math.round(entries.reduce((s, e) => s + e[side], 0) * 100) / 100;
+
+const RATE_CSV = [
+    'Date,Currency,Buying Transfer,Selling,Mid Rate',
+    '2024-03-28,USD,35.9000,36.4000,36.1500',
+    '2024-03-29,USD,36.2000,36.6000,36.4000',
+    '29/03/2567,EUR,39.1000,39.9000,39.5000',
+    ',USD,1,1,1',
+].join('\n');
+
+// ============================================================================
+// Rate table
+// ============================================================================
+
+describe('parseExchangeRateCSV', () => {
+    it('should read ISO and Thai Buddhist-era dates and report bad rows', () => {
+        const { rates, errors } = parseExchangeRateCSV(RATE_CSV);
+        expect(rates).toHaveLength(3);
+        expect(rates[0]).toMatchObject({ id: 'USD_2024-03-28', buying: 35.9, selling: 36.4, mid: 36.15 });
+        expect(rates[2].date).toBe('2024-03-29');
+        expect(rates[2].currency).toBe('EUR');
+        expect(errors).toHaveLength(1);
+    });
+});
+
+describe('getRateForDate', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should fall back to the last published rate before a holiday', async () => {
+        await importExchangeRates(RATE_CSV);
+        expect((await getRateForDate('USD', '2024-03-31'))?.date).toBe('2024-03-29');
+        expect((await getRateForDate('usd', '2024-03-28'))?.buying).toBe(35.9);
+        expect(await getRateForDate('USD', '2024-03-01')).toBeNull();
+    });
+});
+
+// ============================================================================
+// Conversion & settlement
+// ============================================================================
+
+describe('applyExchangeRate', () => {
+    it('should convert to THB, keep foreign amounts and stay balanced after rounding', () => {
+        const lines = [
+            { debit: 33.33, credit: 0 },
+            { debit: 33.33, credit: 0 },
+            { debit: 33.34, credit: 0 },
+            { debit: 0, credit: 100 },
+        ];
+        const converted = applyExchangeRate(lines, 'usd', 36.123);
+        expect(sum(converted, 'debit')).toBe(sum(converted, 'credit'));
+        expect(converted[3].credit).toBe(3612.3);
+        expect(converted[0]).toMatchObject({ currency: 'USD', exchange_rate: 36.123, foreign_debit: 33.33 });
+    });
+});
+
+describe('buildSettlementEntries', () => {
+    it('should book a realized gain on a receivable collected at a higher rate', () => {
+        expect(calculateRealizedFX(1000, 35, 36, 'receivable')).toBe(1000);
+        expect(calculateRealizedFX(1000, 35, 36, 'payable')).toBe(-1000);
+
+        const entries = buildSettlementEntries({
+            clientId: CLIENT_ID, date: '2024-04-10', currency: 'USD', foreignAmount: 1000,
+            bookedRate: 35, settlementRate: 36, side: 'receivable',
+            controlAccount: '11300', bankAccount: '11200', description: 'Receipt INV-001',
+        });
+        expect(sum(entries, 'debit')).toBe(sum(entries, 'credit'));
+        expect(entries.find(e => e.account_code === '42400')?.credit).toBe(1000);
+        expect(entries.find(e => e.account_code === '11300')?.foreign_credit).toBe(1000);
+    });
+
+    it('should book a realized loss on a payable paid at a higher rate', () => {
+        const entries = buildSettlementEntries({
+            clientId: CLIENT_ID, date: '2024-04-10', currency: 'USD', foreignAmount: 500,
+            bookedRate: 35, settlementRate: 36, side: 'payable',
+            controlAccount: '21200', bankAccount: '11200', description: 'Payment PO-001',
+        });
+        expect(sum(entries, 'debit')).toBe(sum(entries, 'credit'));
+        expect(entries.find(e => e.account_code === '54300')?.debit).toBe(500);
+    });
+});
+
+describe('buildBankMatchSettlement', () => {
+    const invoice = {
+        id: 'D1', filename: 'inv.pdf', status: 'approved', assigned_to: null, client_name: 'FX Co', uploaded_at: '2024-03-01',
+        amount: 35000, currency: 'USD', exchange_rate: 35, foreign_amount: 1000,
+        ai_data: { header_data: { inv_number: 'INV-001' } },
+    } as unknown as DocumentRecord;
+    const receipt: BankTransaction = { id: 'T1', clientId: CLIENT_ID, date: '2024-04-10', description: 'TT IN', amount: 36000, status: 'unmatched' };
+
+    it('should settle the outstanding balance at the rate implied by the THB bank amount', () => {
+        const request = buildBankMatchSettlement(receipt, invoice, 35.9);
+        expect(request).toMatchObject({ side: 'receivable', controlAccount: '11300', foreignAmount: 1000, bookedRate: 35, settlementRate: 36 });
+
+        const entries = buildSettlementEntries(request!);
+        expect(entries.find(e => e.account_code === '11200')?.debit).toBe(36000);
+        expect(entries.find(e => e.account_code === '42400')?.credit).toBe(1000);
+        expect(entries.every(e => e.source_doc_id === 'D1')).toBe(true);
+    });
+
+    it('should settle only part of the invoice on a partial receipt', () => {
+        const first = buildBankMatchSettlement({ ...receipt, amount: 14400 }, invoice, 36)!;
+        expect(first).toMatchObject({ foreignAmount: 400, settlementRate: 36 });
+
+        const firstEntries = buildSettlementEntries(first);
+        expect(firstEntries.find(e => e.account_code === '11300')).toMatchObject({ credit: 14000, foreign_credit: 400 });
+        expect(firstEntries.find(e => e.account_code === '42400')?.credit).toBe(400);
+
+        // The second receipt clears the remaining 600 USD
+        const posted = firstEntries.map((e, i) => ({ ...e, id: `P${i}`, doc_no: 'RV-202404-0001' }));
+        expect(getOutstandingForeignAmount(invoice, 'receivable', posted)).toBe(600);
+        const second = buildBankMatchSettlement({ ...receipt, id: 'T2', amount: 21300 }, invoice, 35.4, posted)!;
+        expect(second).toMatchObject({ foreignAmount: 600, settlementRate: 35.5 });
+        expect(buildSettlementEntries(second).find(e => e.account_code === '42400')?.credit).toBe(300);
+
+        const settledInFull = [...posted, ...buildSettlementEntries(second).map((e, i) => ({ ...e, id: `Q${i}`, doc_no: 'RV-202404-0002' }))];
+        expect(buildBankMatchSettlement({ ...receipt, id: 'T3' }, invoice, 36, settledInFull)).toBeNull();
+    });
+
+    it('should leave THB documents to the normal match', () => {
+        expect(buildBankMatchSettlement(receipt, { ...invoice, currency: 'THB' }, 36)).toBeNull();
+    });
+});
+
+// ============================================================================
+// Month-end revaluation
+// ============================================================================
+
+describe('calculateFXRevaluation', () => {
+    const entry = (overrides: Partial<PostedGLEntry>): PostedGLEntry => ({
+        id: 'X', clientId: CLIENT_ID, date: '2024-03-15', doc_no: 'SV-202403-0001', description: 'Export',
+        account_code: '11300', account_name: 'AR', debit: 0, credit: 0, ...overrides,
+    });
+
+    const glEntries: PostedGLEntry[] = [
+        entry({ id: 'AR', debit: 35000, currency: 'USD', exchange_rate: 35, foreign_debit: 1000, foreign_credit: 0 }),
+        entry({ id: 'REV', account_code: '41100', account_name: 'Sales', credit: 35000, currency: 'USD', exchange_rate: 35, foreign_debit: 0, foreign_credit: 1000 }),
+        entry({ id: 'AP', doc_no: 'PJ-202403-0001', account_code: '21200', account_name: 'AP', credit: 17500, currency: 'USD', exchange_rate: 35, foreign_debit: 0, foreign_credit: 500 }),
+        entry({ id: 'EXP', doc_no: 'PJ-202403-0001', account_code: '51100', account_name: 'Purchases', debit: 17500, currency: 'USD', exchange_rate: 35, foreign_debit: 500, foreign_credit: 0 }),
+        entry({ id: 'LATER', date: '2024-04-02', debit: 36000, currency: 'USD', exchange_rate: 36, foreign_debit: 1000, foreign_credit: 0 }),
+    ];
+
+    it('should revalue monetary balances only, at buying for assets and selling for liabilities', () => {
+        const result = calculateFXRevaluation(glEntries, { USD: { buying: 36, selling: 36.5 } }, CLIENT_ID, '2024-03');
+
+        expect(result.lines.map(l => l.accountCode).sort()).toEqual(['11300', '21200']);
+        expect(result.totalGain).toBe(1000); // AR 1,000 USD × (36 - 35)
+        expect(result.totalLoss).toBe(750); // AP 500 USD × (36.5 - 35)
+        expect(sum(result.entries, 'debit')).toBe(sum(result.entries, 'credit'));
+        expect(result.entries.every(e => e.date === '2024-03-31' && e.doc_no === 'JV-FX-2024-03')).toBe(true);
+    });
+
+    it('should adjust only the movement since the last revaluation', () => {
+        const first = calculateFXRevaluation(glEntries, { USD: { buying: 36, selling: 36.5 } }, CLIENT_ID, '2024-03');
+        const second = calculateFXRevaluation(
+            [...glEntries.filter(e => e.id !== 'LATER'), ...first.entries],
+            { USD: { buying: 36, selling: 36.5 } },
+            CLIENT_ID,
+            '2024-04'
+        );
+        expect(second.entries).toHaveLength(0);
+    });
+});
@@ -0,0 +1,87 @@
+/**
+ * General Ledger - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PostedGLEntry } from '../types';
+import { generateGeneralLedger, isInAccountRange } from '../services/financialStatements';
+import { generateGeneralLedgerContent } from '../utils/pdfExport';
+
+const CLIENT_ID = 'C-GL-TEST';
+
+let seq = 0;
+const voucher = (doc_no: string, date: string, lines: [string, number, number][], source_doc_id?: string): PostedGLEntry[] =>
+    lines.map(([account_code, debit, credit]) => ({
+        id: `GL-${++seq}`, clientId: CLIENT_ID, date, doc_no, description: doc_no, account_code, account_name: account_code, debit, credit,
+        ...(source_doc_id ? { source_doc_id } : {}),
+    }));
+
+const glEntries: PostedGLEntry[] = [
+    ...voucher('JV-001', '2023-01-01', [['11200', 500000, 0], ['31200', 0, 500000]]),
+    ...voucher('SV-001', '2023-11-10', [['11300', 40000, 0], ['41100', 0, 40000]]),
+    // Opening voucher restates the 2023 balances
+    ...voucher('JV-OPEN-2024', '2024-01-01', [['11200', 500000, 0], ['11300', 40000, 0], ['31200', 0, 500000], ['32000', 0, 40000]]),
+    ...voucher('RV-001', '2024-02-15', [['11200', 40000, 0], ['11300', 0, 40000]], 'DOC-RV-001'),
+    ...voucher('SV-002', '2024-01-20', [['11300', 25000, 0], ['41100', 0, 25000]]),
+    ...voucher('PV-001', '2024-03-01', [['52100', 12000, 0], ['11200', 0, 12000]]),
+    ...voucher('SV-003', '2025-01-05', [['11300', 9999, 0], ['41100', 0, 9999]]),
+    { ...voucher('SV-X', '2024-01-20', [['11300', 1, 0]])[0], clientId: 'OTHER' },
+];
+
+const FY2024 = { start: '2024-01-01', end: '2024-12-31' };
+
+describe('isInAccountRange', () => {
+    it('should compare each end of the range at its own length', () => {
+        expect(isInAccountRange('11300', { from: '113', to: '113' })).toBe(true);
+        expect(isInAccountRange('11200', { from: '11000', to: '11299' })).toBe(true);
+        expect(isInAccountRange('11300', { from: '11000', to: '11299' })).toBe(false);
+        expect(isInAccountRange('21500', { from: '214', to: '215' })).toBe(true);
+    });
+});
+
+describe('generateGeneralLedger', () => {
+    it('should carry the opening balance into a running balance and close it', () => {
+        const [receivables] = generateGeneralLedger(glEntries, CLIENT_ID, { from: '11300', to: '11300' }, FY2024).accounts;
+
+        expect(receivables).toMatchObject({
+            accountCode: '11300',
+            accountNameTh: 'ลูกหนี้การค้า',
+            openingBalance: 40000,
+            totalDebit: 25000,
+            totalCredit: 40000,
+            closingBalance: 25000,
+        });
+        // Postings in date order, skipping the opening voucher and the next year
+        expect(receivables.lines.map(l => [l.date, l.docNo, l.balance])).toEqual([
+            ['2024-01-20', 'SV-002', 65000],
+            ['2024-02-15', 'RV-001', 25000],
+        ]);
+        expect(receivables.lines[1].sourceDocId).toBe('DOC-RV-001');
+    });
+
+    it('should keep balances in the normal direction of each account in the range', () => {
+        const report = generateGeneralLedger(glEntries, CLIENT_ID, { from: '3', to: '4' }, FY2024);
+
+        expect(report.accounts.map(a => [a.accountCode, a.openingBalance, a.closingBalance])).toEqual([
+            ['31200', 500000, 500000],
+            ['41100', 40000, 65000],
+        ]);
+    });
+
+    it('should list accounts with a balance but no postings in the period', () => {
+        const [capital] = generateGeneralLedger(glEntries, CLIENT_ID, { from: '31200', to: '31200' }, FY2024).accounts;
+
+        expect(capital.lines).toEqual([]);
+        expect(capital.closingBalance).toBe(500000);
+        expect(generateGeneralLedger(glEntries, CLIENT_ID, { from: '54', to: '54' }, FY2024).accounts).toEqual([]);
+    });
+
+    it('should print the brought and carried forward balances', () => {
+        const { accounts } = generateGeneralLedger(glEntries, CLIENT_ID, { from: '112', to: '112' }, FY2024);
+        const html = generateGeneralLedgerContent(accounts.map(a => ({ ...a, code: a.accountCode, name: a.accountNameTh })));
+
+        expect(html).toContain('11200 เงินฝากธนาคาร');
+        expect(html).toContain('ยอดยกมา');
+        expect(html).toContain('528,000.00');
+    });
+});
@@ -0,0 +1,124 @@
+/**
+ * GL Reversal Service - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Client, PostedGLEntry } from '../types';
+import {
+    buildReversalEntries,
+    getReversalDate,
+    reverseGLEntries,
+} from '../services/glReversal';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-REV-TEST';
+
+const makeClient = (month: string, isLocked = false): Client => ({
+    id: CLIENT_ID,
+    name: 'Reversal Test Co',
+    current_workflow: { month, is_locked: isLocked },
+} as unknown as Client);
+
+const posted: PostedGLEntry[] = [
+    { id: 'GL1', clientId: CLIENT_ID, date: '2024-03-10', doc_no: 'JV-001', description: 'Rent', account_code: '52200', account_name: 'Rent', debit: 5000, credit: 0 },
+    { id: 'GL2', clientId: CLIENT_ID, date: '2024-03-10', doc_no: 'JV-001', description: 'Rent', account_code: '11200', account_name: 'Bank', debit: 0, credit: 5000 },
+];
+
+// ============================================================================
+// Pure helpers
+// ============================================================================
+
+describe('buildReversalEntries', () => {
+    it('should swap debits and credits and link to the original', () => {
+        const entries = buildReversalEntries(posted, '2024-04-02', 'wrong account');
+        expect(entries).toHaveLength(2);
+        expect(entries[0].debit).toBe(0);
+        expect(entries[0].credit).toBe(5000);
+        expect(entries[1].debit).toBe(5000);
+        expect(entries.every(e => e.reversal_of === 'JV-001')).toBe(true);
+        expect(entries[0].period).toBe('2024-04');
+    });
+});
+
+describe('getReversalDate', () => {
+    it('should reject dates outside the open period', async () => {
+        expect(await getReversalDate(CLIENT_ID, makeClient('2024-04'), '2024-03-31')).toBeNull();
+        expect(await getReversalDate(CLIENT_ID, makeClient('2024-04'), '2024-04-15')).toBe('2024-04-15');
+    });
+
+    it('should reject any date when the period is locked', async () => {
+        expect(await getReversalDate(CLIENT_ID, makeClient('2024-04', true), '2024-04-15')).toBeNull();
+    });
+});
+
+// ============================================================================
+// reverseGLEntries (demo mode / localStorage)
+// ============================================================================
+
+describe('reverseGLEntries', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [makeClient('2024-04')],
+                documents: [], staff: [], glEntries: posted, assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should post a mirrored voucher and link both ways', async () => {
+        const result = await reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'wrong account', userId: 'u1', date: '2024-04-05' });
+        expect(result.success).toBe(true);
+        expect(result.reversalDocNo).toBe('JV-202404-0001');
+
+        const original = await databaseService.getGLEntriesByDocNo(CLIENT_ID, 'JV-001');
+        expect(original.every(e => e.reversed_by === 'JV-202404-0001')).toBe(true);
+
+        const reversal = await databaseService.getGLEntriesByDocNo(CLIENT_ID, 'JV-202404-0001');
+        expect(reversal).toHaveLength(2);
+        expect(reversal.every(e => e.reversal_of === 'JV-001')).toBe(true);
+    });
+
+    it('should refuse to reverse the same voucher twice', async () => {
+        await reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'wrong account', userId: 'u1', date: '2024-04-05' });
+        const again = await reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'again', userId: 'u1', date: '2024-04-05' });
+        expect(again.success).toBe(false);
+        expect(again.validation.errors[0].code).toBe('GL_ALREADY_REVERSED');
+    });
+
+    it('should let only one of two concurrent reversals post', async () => {
+        const results = await Promise.all([
+            reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'first', userId: 'u1', date: '2024-04-05' }),
+            reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'second', userId: 'u2', date: '2024-04-05' }),
+        ]);
+        expect(results.filter(r => r.success)).toHaveLength(1);
+        expect(results.find(r => !r.success)?.validation.errors[0].code).toBe('GL_ALREADY_REVERSED');
+
+        // The losing reversal consumed no voucher number and posted nothing
+        expect(await databaseService.getGLEntriesByDocNo(CLIENT_ID, 'JV-202404-0002')).toEqual([]);
+    });
+
+    it('should roll a reversal past periods locked in period_locks', async () => {
+        const lock = (period: string) => databaseService.savePeriodLock({
+            id: `${CLIENT_ID}_${period}`, clientId: CLIENT_ID, period, is_locked: true, locked_at: '', locked_by: 'u1',
+        });
+        await lock('2024-03');
+        await lock('2024-04');
+
+        expect(await getReversalDate(CLIENT_ID, null, '2024-03-31')).toBe('2024-05-01');
+        expect(await getReversalDate(CLIENT_ID, null, '2024-05-20')).toBe('2024-05-20');
+        // With a workflow month, a locked open period leaves nowhere to post
+        expect(await getReversalDate(CLIENT_ID, makeClient('2024-04'), '2024-04-15')).toBeNull();
+    });
+
+    it('should refuse a reversal dated in a closed period', async () => {
+        const result = await reverseGLEntries({ clientId: CLIENT_ID, docNo: 'JV-001', reason: 'late', userId: 'u1', date: '2024-03-31' });
+        expect(result.success).toBe(false);
+        expect(result.validation.errors[0].code).toBe('PERIOD_LOCKED');
+    });
+});
@@ -0,0 +1,167 @@
+/**
+ * Inventory Subledger - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { InventoryItem, StockMovement } from '../types';
+import { PlatformOrder } from '../services/ecommercePlatforms';
+import {
+    buildStockCount,
+    costIssue,
+    getStockBalance,
+    postStockCount,
+    recordSales,
+    salesFromPlatformOrders,
+} from '../services/inventory';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-INV-TEST';
+
+const item = (overrides: Partial<InventoryItem> = {}): InventoryItem => ({
+    id: 'ITEM-1',
+    clientId: CLIENT_ID,
+    sku: 'TSHIRT-M',
+    name: 'T-Shirt M',
+    unit: 'ตัว',
+    costingMethod: 'fifo',
+    inventoryAccountCode: '11400',
+    cogsAccountCode: '51100',
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    createdBy: 'u1',
+    ...overrides,
+});
+
+const receipt = (date: string, quantity: number, unitCost: number, itemId = 'ITEM-1'): StockMovement => ({
+    id: `R-${itemId}-${date}`,
+    clientId: CLIENT_ID,
+    itemId,
+    date,
+    type: 'purchase',
+    quantity,
+    unitCost,
+    totalCost: quantity * unitCost,
+    source: 'document',
+    createdAt: `${date}T00:00:00.000Z`,
+    createdBy: 'u1',
+});
+
+// 10 @ 100 then 10 @ 130
+const RECEIPTS = [receipt('2024-03-01', 10, 100), receipt('2024-03-10', 10, 130)];
+
+// ============================================================================
+// Costing
+// ============================================================================
+
+describe('costing', () => {
+    it('should issue the oldest layers first under FIFO', () => {
+        expect(costIssue(item(), RECEIPTS, 15, '2024-03-31')).toMatchObject({ totalCost: 1650, unitCost: 110, available: 20 });
+        expect(getStockBalance(item(), [...RECEIPTS, { ...receipt('2024-03-20', -15, 110), type: 'sale' }])).toMatchObject({ quantity: 5, value: 650 });
+    });
+
+    it('should issue at the moving average under weighted average', () => {
+        const wa = item({ costingMethod: 'weighted_average' });
+
+        expect(costIssue(wa, RECEIPTS, 15, '2024-03-31')).toMatchObject({ totalCost: 1725, unitCost: 115 });
+        // Only receipts up to the issue date count
+        expect(costIssue(wa, RECEIPTS, 5, '2024-03-05')).toMatchObject({ totalCost: 500, available: 10 });
+    });
+});
+
+describe('salesFromPlatformOrders', () => {
+    const order = (status: PlatformOrder['status'], sku: string): PlatformOrder => ({
+        id: `O-${status}`, platform: 'shopee', platformOrderId: 'P1', orderNumber: `ORD-${status}`, status,
+        customerName: 'A', items: [{ id: 'L1', sku, name: sku, quantity: 2, unitPrice: 300, discount: 0, total: 600 }],
+        subtotal: 600, shippingFee: 0, discount: 0, platformFee: 0, paymentFee: 0, grandTotal: 600, sellerReceives: 600,
+        paymentMethod: 'card', paymentStatus: 'paid', orderDate: '2024-03-15T10:00:00.000Z', isReconciled: false,
+    });
+
+    it('should match shipped orders by SKU and report unknown SKUs', () => {
+        const { sales, unmatchedSkus } = salesFromPlatformOrders(
+            [order('completed', 'tshirt-m'), order('cancelled', 'TSHIRT-M'), order('paid', 'MUG-01')],
+            [item()]
+        );
+
+        expect(sales).toEqual([{ itemId: 'ITEM-1', date: '2024-03-15', quantity: 2, source: 'platform_order', sourceRef: 'shopee:ORD-completed' }]);
+        expect(unmatchedSkus).toEqual(['MUG-01']);
+    });
+});
+
+// ============================================================================
+// Posting (demo mode / localStorage)
+// ============================================================================
+
+describe('sales and stock count posting', () => {
+    let store: Record<string, string>;
+
+    const seed = (movements: StockMovement[]) => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [{ id: CLIENT_ID, name: 'Shop Co', current_workflow: { month: '2024-03', is_locked: false } }],
+                documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+                inventoryItems: [item()], stockMovements: movements,
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    };
+
+    beforeEach(() => seed(RECEIPTS));
+
+    it('should post COGS for perpetual sales and skip re-imported orders', async () => {
+        const sale = { itemId: 'ITEM-1', date: '2024-03-20', quantity: 15, source: 'platform_order' as const, sourceRef: 'shopee:ORD-1' };
+        const result = await recordSales(CLIENT_ID, [sale], 'u1');
+
+        expect(result.success).toBe(true);
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['51100', 1650, 0],
+            ['11400', 0, 1650],
+        ]);
+        expect(result.movements[0]).toMatchObject({ quantity: -15, totalCost: -1650, doc_no: result.entries[0].doc_no });
+
+        expect((await recordSales(CLIENT_ID, [sale], 'u1')).movements).toEqual([]);
+    });
+
+    it('should refuse sales beyond the stock on hand', async () => {
+        const result = await recordSales(CLIENT_ID, [{ itemId: 'ITEM-1', date: '2024-03-05', quantity: 12, source: 'pos' }], 'u1');
+
+        expect(result.success).toBe(false);
+        expect(result.errors[0]).toContain('คงเหลือไม่พอ');
+        expect(await databaseService.getStockMovements(CLIENT_ID)).toHaveLength(2);
+    });
+
+    it('should record periodic sales without posting', async () => {
+        const result = await recordSales(CLIENT_ID, [{ itemId: 'ITEM-1', date: '2024-03-20', quantity: 5, source: 'pos' }], 'u1', 'periodic');
+
+        expect(result.entries).toEqual([]);
+        expect(result.movements).toHaveLength(1);
+    });
+
+    it('should book perpetual count shortages to COGS once per period', async () => {
+        const lines = buildStockCount([item()], RECEIPTS, '2024-03', { 'ITEM-1': 18 });
+        expect(lines[0]).toMatchObject({ bookQuantity: 20, varianceQuantity: -2, bookValue: 2300, countedValue: 2100 });
+
+        const result = await postStockCount(CLIENT_ID, '2024-03', { 'ITEM-1': 18 }, 'u1');
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit, e.date])).toEqual([
+            ['51100', 200, 0, '2024-03-31'],
+            ['11400', 0, 200, '2024-03-31'],
+        ]);
+        expect(result.movements[0]).toMatchObject({ type: 'count_adjustment', quantity: -2, totalCost: -200 });
+
+        expect((await postStockCount(CLIENT_ID, '2024-03', { 'ITEM-1': 18 }, 'u1')).success).toBe(false);
+    });
+
+    it('should move the periodic inventory account to the counted value', async () => {
+        // Purchases were expensed; the GL carries no inventory yet
+        const result = await postStockCount(CLIENT_ID, '2024-03', { 'ITEM-1': 5 }, 'u1', 'periodic');
+
+        // FIFO leaves the latest 5 @ 130 on hand
+        expect(result.lines[0].countedValue).toBe(650);
+        expect(result.entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['11400', 650, 0],
+            ['51100', 0, 650],
+        ]);
+    });
+});
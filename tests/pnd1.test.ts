@@ -0,0 +1,112 @@
+/**
+ * PND1 Payroll e-Filing - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Employee, PaySlip } from '../services/payroll';
+import {
+    EFilingHeader,
+    generateEFilingPackage,
+    isValidNationalId,
+    payslipsToPND1Details,
+    validatePND1Data,
+} from '../services/taxEfiling';
+
+const CLIENT_ID = 'C-PND1-TEST';
+
+const employee = (id: string, nationalId: string, firstNameTh: string): Employee => ({
+    id, clientId: CLIENT_ID, employeeCode: id, titleTh: 'นาย', firstNameTh, lastNameTh: 'ใจดี',
+    nationalId, dateOfBirth: '1990-01-01', startDate: '2020-01-01', position: 'พนักงาน', status: 'active',
+});
+
+const payslip = (id: string, employeeId: string, period: string, totalEarnings: number, wht: number, status: PaySlip['status'] = 'approved'): PaySlip => ({
+    id, employeeId, clientId: CLIENT_ID, period, periodStart: `${period}-01`, periodEnd: `${period}-31`,
+    earnings: { baseSalary: totalEarnings }, totalEarnings,
+    deductions: { sso: 750 }, wht, totalDeductions: 750 + wht, netPay: totalEarnings - 750 - wht,
+    ytdEarnings: totalEarnings, ytdWht: wht, ytdSso: 750,
+    status, createdAt: '2024-01-31T00:00:00.000Z',
+});
+
+const employees = [
+    employee('EMP-001', '1-1017-00203-45-0', 'สมชาย'),
+    employee('EMP-002', '3100600123450', 'สมหญิง'),
+];
+
+const header: EFilingHeader = {
+    taxId: '0105560000018', branchNo: '00000', companyName: 'บริษัท ทดสอบ จำกัด', address: 'กรุงเทพฯ',
+    taxMonth: '01', taxYear: '2567', formType: 'PND1', totalRecords: 0, totalAmount: 0, totalTax: 0,
+};
+
+describe('isValidNationalId', () => {
+    it('should check the 13th digit', () => {
+        expect(isValidNationalId('1-1017-00203-45-0')).toBe(true);
+        expect(isValidNationalId('1101700203451')).toBe(false);
+        expect(isValidNationalId('110170020345')).toBe(false);
+    });
+});
+
+describe('payslipsToPND1Details', () => {
+    it('should total approved payslips per employee for the month', () => {
+        const details = payslipsToPND1Details([
+            payslip('PS-1', 'EMP-001', '2024-01', 50000, 2500),
+            payslip('PS-2', 'EMP-001', '2024-01', 10000, 1000, 'paid'),
+            payslip('PS-3', 'EMP-002', '2024-01', 30000, 0, 'draft'),
+            payslip('PS-4', 'EMP-002', '2024-02', 30000, 300),
+        ], employees, '2024-01');
+
+        expect(details).toHaveLength(1);
+        expect(details[0]).toMatchObject({
+            sequence: 1,
+            payeeTaxId: '1101700203450',
+            payeeTitle: 'นาย',
+            payeeFirstName: 'สมชาย',
+            payeeLastName: 'ใจดี',
+            incomeType: '40(1)',
+            incomeAmount: 60000,
+            whtAmount: 3500,
+            whtRate: 5.83,
+            paymentDate: '2024-01-31',
+        });
+    });
+});
+
+describe('validatePND1Data', () => {
+    it('should flag bad national IDs, unknown employees and tax above income', () => {
+        const details = payslipsToPND1Details([
+            payslip('PS-1', 'EMP-001', '2024-01', 50000, 60000),
+            payslip('PS-2', 'EMP-009', '2024-01', 20000, 0),
+        ], [{ ...employees[0], nationalId: '1101700203451' }], '2024-01');
+
+        expect(validatePND1Data(header, details)).toEqual([
+            'รายการที่ 1 (EMP-001): เลขประจำตัวประชาชนไม่ถูกต้อง',
+            'รายการที่ 1 (EMP-001): ภาษีหัก ณ ที่จ่ายไม่ถูกต้อง',
+            'รายการที่ 2 (EMP-009): ไม่พบข้อมูลพนักงาน',
+            'รายการที่ 2 (EMP-009): เลขประจำตัวประชาชนไม่ถูกต้อง',
+        ]);
+    });
+
+    it('should require at least one approved payslip', () => {
+        expect(validatePND1Data(header, [])).toEqual(['ไม่มีสลิปเงินเดือนที่อนุมัติแล้วในงวดนี้']);
+    });
+});
+
+describe('generateEFilingPackage (PND1)', () => {
+    it('should build the upload file from the filing month in Buddhist years', () => {
+        const result = generateEFilingPackage('PND1', header, [], {
+            payslips: [
+                payslip('PS-1', 'EMP-001', '2024-01', 50000, 2500),
+                payslip('PS-2', 'EMP-002', '2024-01', 30000, 150),
+            ],
+            employees,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.summary).toEqual({ totalRecords: 2, totalAmount: 80000, totalTax: 2650 });
+        expect(result.filename).toBe('PND1_256701_0105560000018.xml');
+        expect(result.xmlContent).toContain('<FormType>ภ.ง.ด.1</FormType>');
+        expect(result.xmlContent).toContain('<PayeeTaxID>3100600123450</PayeeTaxID>');
+        expect(result.xmlContent).toContain('<PayeeFirstName><![CDATA[สมหญิง]]></PayeeFirstName>');
+        expect(result.xmlContent).toContain('<IncomeType>40(1)</IncomeType>');
+        expect(result.xmlContent).toContain('<TotalWHTAmount>2650.00</TotalWHTAmount>');
+    });
+});
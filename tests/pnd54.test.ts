@@ -0,0 +1,118 @@
+/**
+ * PND54 Foreign Withholding - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AccountingResponse, Client, DocumentRecord } from '../types';
+import {
+    calculatePND54Withholding,
+    detectCountry,
+    documentsToPND54Payments,
+    generatePND54Package,
+    getPND54Rate,
+} from '../services/pnd54';
+import { EFilingHeader } from '../services/taxEfiling';
+import { createWHTCertificate } from '../services/whtCertificate';
+
+const CLIENT_ID = 'C-PND54-TEST';
+const client = { id: CLIENT_ID, name: 'บริษัท ทดสอบ จำกัด', tax_id: '0105560000018' } as Client;
+
+const makeDoc = (
+    id: string,
+    options: { date: string; subtotal: number; name: string; address: string; description: string; currency?: string; rate?: number; condition?: number }
+): DocumentRecord => ({
+    id,
+    uploaded_at: options.date,
+    filename: `${id}.pdf`,
+    status: 'approved',
+    assigned_to: null,
+    client_name: client.name,
+    clientId: CLIENT_ID,
+    amount: options.subtotal,
+    ai_data: {
+        header_data: { doc_type: 'Invoice', issue_date: options.date, inv_number: id, currency: options.currency || 'THB', exchange_rate: options.rate },
+        parties: {
+            client_company: { name: client.name, tax_id: client.tax_id },
+            counterparty: { name: options.name, tax_id: '', address: options.address },
+        },
+        financials: { subtotal: options.subtotal, discount: 0, vat_rate: 0, vat_amount: 0, grand_total: options.subtotal, wht_amount: 1 },
+        accounting_entry: { transaction_description: options.description, account_class: '', journal_lines: [] },
+        tax_compliance: {
+            is_full_tax_invoice: false, vat_claimable: false, wht_flag: true, wht_code: 'PND54',
+            ...(options.condition ? { wht_details: { book_number: '', doc_number: '', payment_date: options.date, condition: options.condition } } : {}),
+        },
+    } as unknown as AccountingResponse,
+});
+
+const documents = [
+    makeDoc('ROY-001', {
+        date: '2024-05-10', subtotal: 1000, name: 'Software Licensing Pte Ltd', address: '1 Raffles Place, Singapore',
+        description: 'Software license royalty', currency: 'USD', rate: 35, condition: 2,
+    }),
+    makeDoc('SVC-001', { date: '2024-05-20', subtotal: 50000, name: 'Advisory Ltd', address: '10 Fleet Street, London', description: 'Consulting fee' }),
+    makeDoc('INT-001', { date: '2024-05-25', subtotal: 20000, name: 'Lender SA', address: 'Panama City, Panama', description: 'Loan interest' }),
+];
+
+const header: EFilingHeader = {
+    taxId: client.tax_id, branchNo: '00000', companyName: client.name, address: 'กรุงเทพฯ',
+    taxMonth: '05', taxYear: '2567', formType: 'PND54', totalRecords: 0, totalAmount: 0, totalTax: 0,
+};
+
+describe('getPND54Rate', () => {
+    it('should apply the lower of the domestic and treaty rate unless overridden', () => {
+        expect(getPND54Rate('royalty', 'SG')).toEqual({ domesticRate: 15, treatyRate: 8, whtRate: 8 });
+        expect(getPND54Rate('dividend', 'US')).toEqual({ domesticRate: 10, treatyRate: 10, whtRate: 10 });
+        expect(getPND54Rate('service')).toEqual({ domesticRate: 15, treatyRate: null, whtRate: 15 });
+        expect(getPND54Rate('interest', 'JP', 5).whtRate).toBe(5);
+    });
+});
+
+describe('calculatePND54Withholding', () => {
+    it('should withhold from the gross under condition 1', () => {
+        expect(calculatePND54Withholding(100000, 15, 1)).toEqual({ incomeAmount: 100000, whtAmount: 15000, netPayment: 85000 });
+    });
+
+    it('should gross up the tax on tax under condition 2 and once under condition 3', () => {
+        expect(calculatePND54Withholding(85000, 15, 2)).toEqual({ incomeAmount: 100000, whtAmount: 15000, netPayment: 85000 });
+        expect(calculatePND54Withholding(85000, 15, 3)).toEqual({ incomeAmount: 97750, whtAmount: 12750, netPayment: 85000 });
+    });
+});
+
+describe('documentsToPND54Payments', () => {
+    it('should read the country, income type and condition from the document', () => {
+        expect(documentsToPND54Payments(documents).map(p => [p.country, p.incomeType, p.condition, p.exchangeRate])).toEqual([
+            ['SG', 'royalty', 2, 35],
+            ['GB', 'service', 1, 1],
+            [undefined, 'interest', 1, 1],
+        ]);
+        expect(detectCountry('Central, Hong Kong, China')).toBe('HK');
+    });
+});
+
+describe('generatePND54Package', () => {
+    it('should require the payee country', () => {
+        const result = generatePND54Package(header, documents);
+
+        expect(result.success).toBe(false);
+        expect(result.validationErrors).toEqual(['รายการที่ 3 (Lender SA): กรุณาระบุประเทศของผู้รับเงิน']);
+    });
+
+    it('should gross up tax borne by the payer and apply treaty rates', () => {
+        const result = generatePND54Package(header, documents.slice(0, 2));
+
+        // 35,000 THB net royalty at 8% borne by the payer: 35,000 x 8 / 92
+        expect(result.summary).toEqual({ totalRecords: 2, totalAmount: 88043.48, totalTax: 3043.48 });
+        expect(result.filename).toBe('PND54_256705_0105560000018.xml');
+        expect(result.xmlContent).toContain('<FormType>ภ.ง.ด.54</FormType>');
+        expect(result.xmlContent).toContain('<Country>SG</Country>');
+        expect(result.xmlContent).toContain('<IncomeType>40(3)</IncomeType>');
+        expect(result.xmlContent).toContain('<WHTRate>8.00</WHTRate>');
+        expect(result.xmlContent).toContain('<Condition>2</Condition>');
+    });
+});
+
+describe('createWHTCertificate', () => {
+    it('should not issue a 50 Tawi for PND54 payments', () => {
+        expect(createWHTCertificate(documents[0], client, '001', 1)).toBeNull();
+    });
+});
@@ -0,0 +1,188 @@
+/**
+ * PP36 Reverse-Charge VAT - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountingResponse, Client, DocumentRecord, ExchangeRate } from '../types';
+import { EFilingHeader, documentsToPP36Details, generateEFilingPackage, isForeignServiceDocument } from '../services/taxEfiling';
+import { buildPP36PaymentEntries, generatePP30, generatePP36 } from '../services/vatReturn';
+import { databaseService } from '../services/database';
+import { postDraftVouchers } from '../services/voucherNumbering';
+
+const CLIENT_ID = 'C-PP36-TEST';
+const client = { id: CLIENT_ID, name: 'บริษัท ทดสอบ จำกัด', tax_id: '0105560000018', address: 'กรุงเทพฯ' } as Client;
+
+const makeDoc = (
+    id: string,
+    options: {
+        date: string; subtotal: number; vat?: number; name: string; taxId?: string; address?: string;
+        currency?: string; rate?: number; docType?: string;
+    }
+): DocumentRecord => ({
+    id,
+    uploaded_at: options.date,
+    filename: `${id}.pdf`,
+    status: 'approved',
+    assigned_to: null,
+    client_name: client.name,
+    clientId: CLIENT_ID,
+    amount: options.subtotal + (options.vat || 0),
+    ai_data: {
+        header_data: {
+            doc_type: options.docType || 'Receipt', issue_date: options.date, inv_number: id,
+            currency: options.currency || 'THB', exchange_rate: options.rate,
+        },
+        parties: {
+            client_company: { name: client.name, tax_id: client.tax_id },
+            counterparty: { name: options.name, tax_id: options.taxId || '', address: options.address },
+        },
+        financials: {
+            subtotal: options.subtotal, discount: 0, vat_rate: options.vat ? 7 : 0, vat_amount: options.vat || 0,
+            grand_total: options.subtotal + (options.vat || 0), wht_amount: null,
+        },
+        tax_compliance: { is_full_tax_invoice: !!options.vat, vat_claimable: !!options.vat, wht_flag: false },
+    } as unknown as AccountingResponse,
+});
+
+const documents = [
+    makeDoc('FB-001', { date: '2024-03-05', subtotal: 10000, name: 'Meta Platforms Ireland Ltd' }),
+    makeDoc('AWS-001', { date: '2024-03-10', subtotal: 200, name: 'Cloud Vendor Inc.', currency: 'USD', rate: 36 }),
+    makeDoc('SG-001', { date: '2024-03-12', subtotal: 500, name: 'Design Studio Pte Ltd', currency: 'SGD', address: '1 Raffles Place, Singapore' }),
+    // Thai supplier with a VAT invoice
+    makeDoc('TH-001', { date: '2024-03-15', subtotal: 1000, vat: 70, name: 'Google (Thailand) Co., Ltd.', taxId: '0105547000001' }),
+    // Local supplier without a tax ID but with a Thai address
+    makeDoc('TH-002', { date: '2024-03-16', subtotal: 300, name: 'ร้านค้า', address: 'เชียงใหม่' }),
+];
+
+const header: EFilingHeader = {
+    taxId: client.tax_id, branchNo: '00000', companyName: client.name, address: 'กรุงเทพฯ',
+    taxMonth: '03', taxYear: '2567', formType: 'PP36', totalRecords: 0, totalAmount: 0, totalTax: 0,
+};
+
+describe('isForeignServiceDocument', () => {
+    it('should pick foreign suppliers without a Thai tax ID or Thai VAT', () => {
+        expect(documents.filter(isForeignServiceDocument).map(d => d.id)).toEqual(['FB-001', 'AWS-001', 'SG-001']);
+    });
+});
+
+describe('documentsToPP36Details', () => {
+    it('should self-assess 7% on the THB value', () => {
+        const details = documentsToPP36Details(documents);
+
+        expect(details.map(d => [d.invoiceNo, d.currency, d.exchangeRate, d.baseAmount, d.vatAmount])).toEqual([
+            ['FB-001', 'THB', 1, 10000, 700],
+            ['AWS-001', 'USD', 36, 7200, 504],
+            ['SG-001', 'SGD', null, 0, 0],
+        ]);
+    });
+});
+
+describe('generateEFilingPackage (PP36)', () => {
+    it('should block the upload while a foreign bill has no exchange rate', () => {
+        const result = generateEFilingPackage('PP36', header, documents);
+
+        expect(result.success).toBe(false);
+        expect(result.validationErrors).toEqual(['รายการที่ 3 (SG-001): ไม่พบอัตราแลกเปลี่ยน SGD']);
+    });
+
+    it('should total the base and VAT', () => {
+        const result = generateEFilingPackage('PP36', header, documents.slice(0, 2));
+
+        expect(result.success).toBe(true);
+        expect(result.summary).toEqual({ totalRecords: 2, totalAmount: 17200, totalTax: 1204 });
+        expect(result.xmlContent).toContain('<FormType>ภ.พ.36</FormType>');
+        expect(result.xmlContent).toContain('<ExchangeRate>36.0000</ExchangeRate>');
+        expect(result.xmlContent).toContain('<TotalVATAmount>1204.00</TotalVATAmount>');
+    });
+});
+
+// ============================================================================
+// PP36 → PP30 (demo mode / localStorage)
+// ============================================================================
+
+describe('generatePP36', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        const sgdRate: ExchangeRate = {
+            id: 'SGD_2024-03-11', currency: 'SGD', date: '2024-03-11', buying: 26.5, selling: 27, mid: 26.75,
+            source: 'BOT', importedAt: '2024-03-11T00:00:00.000Z',
+        };
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [client], documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [], exchangeRates: [sgdRate],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should convert missing rates at the BOT selling rate and set the due date', async () => {
+        const pp36 = await generatePP36(client, documents, '2024-03');
+
+        expect(pp36.errors).toEqual([]);
+        expect(pp36.items[2]).toMatchObject({ exchangeRate: 27, baseAmount: 13500, vatAmount: 945 });
+        expect(pp36.totalVAT).toBe(2149);
+        expect(pp36.dueDate).toBe('2024-04-07');
+        expect(pp36.status).toBe('draft');
+    });
+
+    it('should claim the paid PP36 as input VAT in the following PP30', async () => {
+        const pp36 = await generatePP36(client, documents, '2024-03');
+
+        expect(() => buildPP36PaymentEntries(pp36, CLIENT_ID, '2024-03-31')).toThrow('หลังเดือนภาษี');
+        await databaseService.addGLEntries(buildPP36PaymentEntries(pp36, CLIENT_ID, '2024-04-05'));
+
+        expect((await generatePP36(client, documents, '2024-03')).payment).toEqual({ docNo: 'PP36-2024-03', date: '2024-04-05' });
+
+        const april = await generatePP30(client, [], '2024-04');
+        expect(april.inputVAT.reverseChargeVAT).toBe(2149);
+        expect(april.inputVAT.totalClaimableVAT).toBe(2149);
+        expect(april.calculation.vatToRefund).toBe(2149);
+
+        const march = await generatePP30(client, [], '2024-03');
+        expect(march.inputVAT.reverseChargeVAT).toBe(0);
+    });
+
+    it('should find a payment posted as a numbered voucher by its PP36 reference', async () => {
+        const pp36 = await generatePP36(client, documents, '2024-03');
+        const [result] = await postDraftVouchers(CLIENT_ID, 'PV', buildPP36PaymentEntries(pp36, CLIENT_ID, '2024-04-05'), 'u1');
+
+        expect(result.success).toBe(true);
+        expect(result.docNo).toBe('PV-202404-0001');
+        expect((await generatePP36(client, documents, '2024-03')).payment).toEqual({ docNo: 'PV-202404-0001', date: '2024-04-05' });
+        expect((await generatePP30(client, [], '2024-04')).inputVAT.reverseChargeVAT).toBe(2149);
+    });
+
+    it('should report a foreign bill in the month it was paid', async () => {
+        const paidLater = makeDoc('FB-002', { date: '2024-02-25', subtotal: 5000, name: 'Meta Platforms Ireland Ltd' });
+        const matchedLater = makeDoc('FB-003', { date: '2024-02-26', subtotal: 2000, name: 'Meta Platforms Ireland Ltd' });
+        paidLater.ai_data!.tax_compliance.wht_details = { book_number: '', doc_number: '', payment_date: '2024-03-02', condition: 1 };
+        await databaseService.addBankTransactions([
+            { clientId: CLIENT_ID, date: '2024-03-04', description: 'META ADS', amount: -2000, matched_doc_id: 'FB-003', status: 'matched' },
+        ]);
+
+        const february = await generatePP36(client, [paidLater, matchedLater], '2024-02');
+        const march = await generatePP36(client, [paidLater, matchedLater], '2024-03');
+
+        expect(february.items).toEqual([]);
+        expect(march.items.map(i => [i.sequence, i.invoiceNo, i.paymentDate])).toEqual([
+            [1, 'FB-002', '2024-03-02'],
+            [2, 'FB-003', '2024-03-04'],
+        ]);
+    });
+
+    it('should report a bill paid more than six months after issue', async () => {
+        const overdue = makeDoc('FB-004', { date: '2023-08-10', subtotal: 3000, name: 'Meta Platforms Ireland Ltd' });
+        await databaseService.addBankTransactions([
+            { clientId: CLIENT_ID, date: '2024-03-15', description: 'META ADS', amount: -3000, matched_doc_id: 'FB-004', status: 'matched' },
+        ]);
+
+        expect((await generatePP36(client, [overdue], '2023-08')).items).toEqual([]);
+        expect((await generatePP36(client, [overdue], '2024-03')).items.map(i => [i.invoiceNo, i.paymentDate, i.vatAmount])).toEqual([
+            ['FB-004', '2024-03-15', 210],
+        ]);
+    });
+});
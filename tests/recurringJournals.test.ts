@@ -0,0 +1,164 @@
+/**
+ * Recurring Journal Templates - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RecurringJournalTemplate } from '../types';
+import {
+    buildLoanSchedule,
+    buildOccurrenceEntries,
+    createTemplate,
+    getDueDrafts,
+    getOccurrencePeriods,
+    postRecurringDraft,
+    runRecurringJournals,
+    skipRecurringDraft,
+    TemplateInput,
+} from '../services/recurringJournals';
+import { lockPeriod } from '../services/periodLock';
+import { databaseService } from '../services/database';
+
+const CLIENT_ID = 'C-REC-TEST';
+
+const rent: TemplateInput = {
+    name: 'ค่าเช่าสำนักงาน',
+    description: 'ค่าเช่าสำนักงานประจำเดือน',
+    lines: [
+        { account_code: '52300', account_name: 'ค่าเช่า', side: 'DEBIT', amount: 20000 },
+        { account_code: '11200', account_name: 'เงินฝากธนาคาร', side: 'CREDIT', amount: 20000 },
+    ],
+    frequency: 'monthly',
+    postingDay: 0,
+    startDate: '2024-01-01',
+    autoPost: false,
+};
+
+const loan: TemplateInput = {
+    name: 'ผ่อนเงินกู้',
+    description: 'ชำระค่างวดเงินกู้',
+    lines: [
+        { account_code: '21100', account_name: 'เงินกู้ยืมระยะสั้น', side: 'DEBIT', amount: 0, formula: 'loan_principal' },
+        { account_code: '54200', account_name: 'ดอกเบี้ยจ่าย', side: 'DEBIT', amount: 0, formula: 'loan_interest' },
+        { account_code: '11200', account_name: 'เงินฝากธนาคาร', side: 'CREDIT', amount: 0, formula: 'loan_installment' },
+    ],
+    frequency: 'monthly',
+    postingDay: 25,
+    startDate: '2024-01-01',
+    loan: { principal: 12000, annualRate: 12, termPeriods: 12 },
+    autoPost: true,
+};
+
+const template = (input: TemplateInput, overrides: Partial<RecurringJournalTemplate> = {}): RecurringJournalTemplate => ({
+    ...input,
+    id: 'REC-1',
+    clientId: CLIENT_ID,
+    isActive: true,
+    postedPeriods: [],
+    skippedPeriods: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    createdBy: 'u1',
+    ...overrides,
+});
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+describe('getOccurrencePeriods', () => {
+    it('should step by the frequency and stop at the end date', () => {
+        expect(getOccurrencePeriods({ frequency: 'quarterly', startDate: '2024-01-15' }, '2024-08')).toEqual(['2024-01', '2024-04', '2024-07']);
+        expect(getOccurrencePeriods({ frequency: 'monthly', startDate: '2024-01-01', endDate: '2024-02-29' }, '2024-06')).toEqual(['2024-01', '2024-02']);
+    });
+});
+
+describe('buildLoanSchedule', () => {
+    it('should repay the principal exactly with equal installments', () => {
+        const rows = buildLoanSchedule(loan.loan!, 'monthly');
+
+        expect(rows[0]).toMatchObject({ payment: 1066.19, interest: 120, principal: 946.19 });
+        expect(rows[11].balance).toBe(0);
+        expect(rows.reduce((s, r) => s + r.principal, 0)).toBeCloseTo(12000, 2);
+    });
+});
+
+describe('buildOccurrenceEntries', () => {
+    it('should take loan lines from the amortization table and stay balanced', () => {
+        const entries = buildOccurrenceEntries(template(loan), '2024-02');
+
+        expect(entries.map(e => [e.account_code, e.debit, e.credit])).toEqual([
+            ['21100', 955.65, 0],
+            ['54200', 110.54, 0],
+            ['11200', 0, 1066.19],
+        ]);
+        expect(entries.every(e => e.date === '2024-02-25' && e.doc_no === 'JV-REC-2024-02-REC-1')).toBe(true);
+    });
+
+    it('should post on the last day when the posting day is month-end', () => {
+        expect(buildOccurrenceEntries(template(rent), '2024-02')[0].date).toBe('2024-02-29');
+        expect(buildOccurrenceEntries(template(loan), '2025-01')).toEqual([]);
+    });
+});
+
+// ============================================================================
+// Drafts & posting (demo mode / localStorage)
+// ============================================================================
+
+describe('recurring journal scheduler', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {
+            WE_ACCOUNTING_DB_V1: JSON.stringify({
+                clients: [{ id: CLIENT_ID, name: 'Recurring Co', current_workflow: { month: '2024-03', is_locked: false } }],
+                documents: [], staff: [], glEntries: [], assets: [],
+                vendorRules: [], bankTransactions: [], activityLogs: [],
+            }),
+        };
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should reject an unbalanced template', async () => {
+        const lines = [rent.lines[0], { ...rent.lines[1], amount: 19000 }];
+        await expect(createTemplate(CLIENT_ID, { ...rent, lines }, 'u1')).rejects.toThrow('ไม่เท่ากับเครดิต');
+    });
+
+    it('should draft every open period and skip locked ones', async () => {
+        await createTemplate(CLIENT_ID, rent, 'u1');
+        await lockPeriod({ clientId: CLIENT_ID, period: '2024-01', userId: 'u1', userRole: 'Manager' });
+
+        const drafts = await getDueDrafts(await databaseService.getRecurringJournalTemplates(CLIENT_ID), '2024-03', 'u1');
+        expect(drafts.map(d => d.period)).toEqual(['2024-02', '2024-03']);
+        expect(drafts.every(d => d.validation.isValid)).toBe(true);
+    });
+
+    it('should mark posted and skipped periods done', async () => {
+        await createTemplate(CLIENT_ID, rent, 'u1');
+        const [, feb, mar] = await getDueDrafts(await databaseService.getRecurringJournalTemplates(CLIENT_ID), '2024-03', 'u1');
+
+        await skipRecurringDraft(feb);
+        const posted = await postRecurringDraft(mar, 'u1');
+        expect(posted.success).toBe(true);
+        expect(posted.entries[0].reference_no).toBe(mar.entries[0].doc_no);
+
+        const [saved] = await databaseService.getRecurringJournalTemplates(CLIENT_ID);
+        expect(saved).toMatchObject({ postedPeriods: ['2024-03'], skippedPeriods: ['2024-02'] });
+        expect((await getDueDrafts([saved], '2024-03', 'u1')).map(d => d.period)).toEqual(['2024-01']);
+    });
+
+    it('should auto-post only templates set to auto-post', async () => {
+        // Template ids are time-based
+        vi.spyOn(Date, 'now').mockReturnValueOnce(1).mockReturnValueOnce(2);
+        await createTemplate(CLIENT_ID, rent, 'u1');
+        await createTemplate(CLIENT_ID, loan, 'u1');
+
+        const result = await runRecurringJournals(CLIENT_ID, '2024-02', 'u1');
+        expect(result.errors).toEqual([]);
+        expect(new Set(result.posted.map(e => e.reference_no)).size).toBe(2);
+        expect(result.pending.map(d => d.template.name)).toEqual([rent.name, rent.name]);
+
+        const gl = await databaseService.getGLEntriesByClient(CLIENT_ID);
+        expect(gl.filter(e => e.account_code === '54200').reduce((s, e) => s + e.debit, 0)).toBeCloseTo(230.54, 2);
+    });
+});
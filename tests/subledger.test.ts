@@ -0,0 +1,161 @@
+/**
+ * AR/AP Subledger - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AccountingResponse, BankTransaction, DocumentRecord, PostedGLEntry } from '../types';
+import {
+    buildSubledger,
+    estimateBadDebtProvision,
+    generateAgingReport,
+    getAgingBucket,
+    getSubledgerType,
+} from '../services/subledger';
+import { generateOpeningBalanceEntries } from '../services/periodClosing';
+
+const CLIENT_ID = 'C-SUB-TEST';
+const AS_OF = '2024-06-30';
+
+const makeDoc = (
+    id: string,
+    options: { date: string; amount: number; taxId: string; name?: string; sales?: boolean; cash?: boolean; docType?: string; dueDate?: string }
+): DocumentRecord => ({
+    id,
+    uploaded_at: options.date,
+    filename: `${id}.pdf`,
+    status: 'approved',
+    assigned_to: null,
+    client_name: 'Subledger Test Co',
+    clientId: CLIENT_ID,
+    amount: options.amount,
+    ai_data: {
+        header_data: { doc_type: options.docType || 'ใบกำกับภาษี', issue_date: options.date, inv_number: id, currency: 'THB', due_date: options.dueDate },
+        parties: {
+            client_company: { name: 'Subledger Test Co', tax_id: '0105500000001' },
+            counterparty: { name: options.name || options.taxId, tax_id: options.taxId },
+        },
+        accounting_entry: {
+            transaction_description: id,
+            account_class: '',
+            journal_lines: [
+                { account_code: options.sales ? '41100' : '51100', account_side: options.sales ? 'CREDIT' : 'DEBIT', account_name_th: '', amount: options.amount },
+                { account_code: options.cash ? '11100' : options.sales ? '11300' : '21200', account_side: options.sales ? 'DEBIT' : 'CREDIT', account_name_th: '', amount: options.amount },
+            ],
+        },
+    } as unknown as AccountingResponse,
+});
+
+const payment = (id: string, docId: string, date: string, amount: number): BankTransaction => ({
+    id, clientId: CLIENT_ID, date, description: `Payment ${docId}`, amount, matched_doc_id: docId, status: 'matched',
+});
+
+const documents = [
+    makeDoc('INV-001', { date: '2024-06-20', amount: 10000, taxId: '0-1055-00000-12-3', name: 'Alpha', sales: true }),
+    makeDoc('INV-002', { date: '2024-04-15', amount: 5000, taxId: '0105500000123', name: 'Alpha', sales: true }),
+    makeDoc('INV-003', { date: '2024-01-10', amount: 8000, taxId: '0105500000999', name: 'Beta', sales: true }),
+    makeDoc('CN-001', { date: '2024-06-25', amount: 1000, taxId: '0105500000123', sales: true, docType: 'ใบลดหนี้' }),
+    makeDoc('BILL-001', { date: '2024-05-01', amount: 3000, taxId: '0105500000555', name: 'Vendor' }),
+];
+
+const bankTransactions = [
+    payment('TXN-1', 'INV-002', '2024-05-10', 2000),
+    payment('TXN-2', 'INV-002', '2024-06-10', 1000),
+    payment('TXN-3', 'BILL-001', '2024-05-20', -3000),
+    payment('TXN-4', 'INV-003', '2024-07-05', 8000), // After the report date
+];
+
+// ============================================================================
+// Subledger
+// ============================================================================
+
+describe('getAgingBucket', () => {
+    it('should place days overdue in the right bucket', () => {
+        expect(getAgingBucket(0)).toBe('0-30');
+        expect(getAgingBucket(31)).toBe('31-60');
+        expect(getAgingBucket(90)).toBe('61-90');
+        expect(getAgingBucket(91)).toBe('90+');
+    });
+});
+
+describe('getSubledgerType', () => {
+    it('should classify by the AR/AP control account and skip cash documents', () => {
+        expect(getSubledgerType(documents[0])).toBe('AR');
+        expect(getSubledgerType(documents[4])).toBe('AP');
+        expect(getSubledgerType(makeDoc('CASH-001', { date: '2024-06-01', amount: 500, taxId: '0105500000777', sales: true, cash: true }))).toBeNull();
+        expect(getSubledgerType(makeDoc('CASH-002', { date: '2024-06-01', amount: 500, taxId: '0105500000777', cash: true }))).toBeNull();
+    });
+});
+
+describe('buildSubledger', () => {
+    it('should key counterparties by normalized tax ID and apply partial payments', () => {
+        const ar = buildSubledger(CLIENT_ID, 'AR', documents, bankTransactions, AS_OF);
+        const alpha = ar.find(c => c.taxId === '0105500000123')!;
+
+        const inv2 = alpha.items.find(i => i.docId === 'INV-002')!;
+        expect(inv2.paidAmount).toBe(3000);
+        expect(inv2.payments).toHaveLength(2);
+        // Credit note 1,000 is allocated to the oldest open invoice
+        expect(inv2.creditedAmount).toBe(1000);
+        expect(inv2.outstanding).toBe(1000);
+        expect(alpha.balance).toBe(11000);
+    });
+
+    it('should ignore payments after the report date and keep AP separate', () => {
+        const ar = buildSubledger(CLIENT_ID, 'AR', documents, bankTransactions, AS_OF);
+        expect(ar.find(c => c.taxId === '0105500000999')?.items[0].outstanding).toBe(8000);
+
+        const ap = buildSubledger(CLIENT_ID, 'AP', documents, bankTransactions, AS_OF);
+        expect(ap).toHaveLength(0); // BILL-001 fully paid
+    });
+
+    it('should age from the due date when the document states one', () => {
+        const docs = [makeDoc('INV-DUE', { date: '2024-03-01', dueDate: '2024-06-15', amount: 100, taxId: '0105500000777', sales: true })];
+        const [counterparty] = buildSubledger(CLIENT_ID, 'AR', docs, [], AS_OF);
+        expect(counterparty.items[0].daysOverdue).toBe(15);
+        expect(counterparty.items[0].bucket).toBe('0-30');
+    });
+});
+
+// ============================================================================
+// Aging report & bad debt provision
+// ============================================================================
+
+describe('generateAgingReport', () => {
+    it('should total buckets across counterparties', () => {
+        const report = generateAgingReport(CLIENT_ID, 'AR', documents, bankTransactions, AS_OF);
+        expect(report.totals['0-30']).toBe(10000);
+        expect(report.totals['61-90']).toBe(1000);
+        expect(report.totals['90+']).toBe(8000);
+        expect(report.totals.balance).toBe(19000);
+        expect(report.counterparties[0].taxId).toBe('0105500000123');
+    });
+});
+
+describe('estimateBadDebtProvision', () => {
+    it('should top the allowance up from its GL balance', () => {
+        const report = generateAgingReport(CLIENT_ID, 'AR', documents, bankTransactions, AS_OF);
+        const existing: PostedGLEntry[] = [
+            { id: 'A1', clientId: CLIENT_ID, date: '2024-03-31', doc_no: 'JV-1', description: '', account_code: '11301', account_name: '', debit: 0, credit: 1000 },
+        ];
+
+        const result = estimateBadDebtProvision(report, existing);
+        // 10,000 × 1% + 1,000 × 20% + 8,000 × 50%
+        expect(result.requiredAllowance).toBe(4300);
+        expect(result.existingAllowance).toBe(1000);
+        expect(result.items[0]).toMatchObject({ type: 'bad_debt', estimatedAmount: 3300, probability: 100, accountCode: '11301' });
+    });
+
+    it('should not count the allowance brought forward by a closed year twice', () => {
+        const report = generateAgingReport(CLIENT_ID, 'AR', documents, bankTransactions, AS_OF);
+        const fy2023: PostedGLEntry[] = [
+            { id: 'A1', clientId: CLIENT_ID, date: '2023-12-31', doc_no: 'JV-1', description: '', account_code: '11301', account_name: '', debit: 0, credit: 1000 },
+            { id: 'A2', clientId: CLIENT_ID, date: '2023-12-31', doc_no: 'JV-1', description: '', account_code: '53800', account_name: '', debit: 1000, credit: 0 },
+        ];
+        const opening = generateOpeningBalanceEntries(fy2023, CLIENT_ID, 2023, { start: '2023-01-01', end: '2023-12-31' });
+        expect(opening.some(e => e.account_code === '11301' && e.credit === 1000)).toBe(true);
+
+        const result = estimateBadDebtProvision(report, [...fy2023, ...opening]);
+        expect(result.existingAllowance).toBe(1000);
+        expect(result.items[0].estimatedAmount).toBe(3300);
+    });
+});
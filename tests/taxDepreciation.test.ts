@@ -0,0 +1,160 @@
+/**
+ * Tax-Basis Depreciation & Book-Tax Differences - Unit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FixedAsset, PostedGLEntry } from '../types';
+import { generateClosingEntries } from '../services/periodClosing';
+import {
+    buildTaxDepreciationSchedule,
+    calculateBookTaxDifferences,
+    getTaxBasis,
+    getTaxDepreciationRate,
+} from '../services/taxDepreciation';
+
+const asset = (overrides: Partial<FixedAsset> = {}): FixedAsset => ({
+    id: 'FA-1',
+    clientId: 'C-TAX-TEST',
+    asset_code: '12400-001',
+    name: 'Machine',
+    category: 'Equipment',
+    acquisition_date: '2024-01-01',
+    cost: 120000,
+    residual_value: 0,
+    useful_life_years: 2,
+    accumulated_depreciation_bf: 0,
+    current_month_depreciation: 0,
+    ...overrides,
+});
+
+const FY2024 = { start: '2024-01-01', end: '2024-12-31' };
+
+// ============================================================================
+// Tax basis and rates
+// ============================================================================
+
+describe('tax basis and rates', () => {
+    it('should cap passenger car cost at 1,000,000 THB', () => {
+        const car = asset({ category: 'Vehicle', cost: 1500000, useful_life_years: 5, is_passenger_car: true });
+
+        expect(getTaxBasis(car)).toBe(1000000);
+        expect(getTaxBasis({ ...car, is_passenger_car: false })).toBe(1500000);
+
+        // Book 300,000 a year; tax 20% of the capped 1,000,000
+        const report = calculateBookTaxDifferences([car], FY2024);
+        expect(report.totalBookDepreciation).toBe(300000);
+        expect(report.totalTaxDeductible).toBe(200000);
+        expect(report.totalAddBack).toBe(100000);
+    });
+
+    it('should never exceed the Revenue Department maximum rate', () => {
+        expect(getTaxDepreciationRate(asset())).toBe(20);
+        expect(getTaxDepreciationRate(asset({ tax_depreciation_rate: 50 }))).toBe(20);
+        expect(getTaxDepreciationRate(asset({ tax_depreciation_rate: 10 }))).toBe(10);
+        expect(getTaxDepreciationRate(asset({ category: 'Building' }))).toBe(5);
+        expect(getTaxDepreciationRate(asset({ category: 'Land' }))).toBe(0);
+    });
+});
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+describe('buildTaxDepreciationSchedule', () => {
+    it('should add back book depreciation above the tax allowance', () => {
+        const rows = buildTaxDepreciationSchedule(asset());
+
+        // Book 5,000 a month over 2 years; tax 2,000 a month at 20%
+        expect(rows[0]).toMatchObject({ period: '2024-01', bookDepreciation: 5000, taxAllowance: 2000, deductible: 2000, addBack: 3000 });
+        expect(rows[23].taxNetBookValue).toBe(72000);
+        // The tax book runs on for the rest of the five-year tax life
+        expect(rows).toHaveLength(60);
+        expect(rows[59].taxNetBookValue).toBe(0);
+    });
+
+    it('should deduct the add-back after a shorter book life ends', () => {
+        const laptop = asset({ cost: 36000, useful_life_years: 3 });
+        const rows = buildTaxDepreciationSchedule(laptop);
+
+        // Book 1,000 a month for 3 years; tax 600 a month for 5 years
+        expect(rows).toHaveLength(60);
+        expect(rows[35]).toMatchObject({ period: '2026-12', bookDepreciation: 1000, deductible: 600, taxNetBookValue: 14400 });
+        expect(rows[36]).toMatchObject({ period: '2027-01', bookDepreciation: 0, taxAllowance: 600, deductible: 600, addBack: -600 });
+        expect(rows[59]).toMatchObject({ period: '2028-12', taxNetBookValue: 0 });
+
+        const addBacks = [2024, 2025, 2026, 2027, 2028].map(year =>
+            calculateBookTaxDifferences([laptop], { start: `${year}-01-01`, end: `${year}-12-31` }).totalAddBack
+        );
+        expect(addBacks).toEqual([4800, 4800, 4800, -7200, -7200]);
+    });
+
+    it('should deduct a slower book charge in full', () => {
+        const building = asset({ category: 'Building', cost: 2400000, useful_life_years: 40 });
+        const report = calculateBookTaxDifferences([building], FY2024);
+
+        // Book 2.5% a year is below the 5% maximum
+        expect(report.totalBookDepreciation).toBe(60000);
+        expect(report.totalTaxDeductible).toBe(60000);
+        expect(report.totalAddBack).toBe(0);
+    });
+
+    it('should hold impairment back until the tax allowance catches up', () => {
+        const impaired = asset({
+            useful_life_years: 10,
+            history: [{ type: 'impairment', date: '2024-06-30', amount: 10000, by: 'u1', at: '' }],
+        });
+        const row = buildTaxDepreciationSchedule(impaired).find(r => r.period === '2024-06')!;
+
+        // Book 6,000 + 10,000 to date against a 12,000 allowance; 5,000 already deducted
+        expect(row.bookImpairment).toBe(10000);
+        expect(row.deductible).toBe(7000);
+        expect(row.addBack).toBe(4000);
+    });
+});
+
+// ============================================================================
+// Disposal
+// ============================================================================
+
+describe('book-tax differences on disposal', () => {
+    it('should reverse the accumulated add-back in the disposal year', () => {
+        const disposed = asset({ status: 'disposed', disposal_date: '2025-06-30', depreciated_through: '2025-06' });
+
+        const fy2024 = calculateBookTaxDifferences([disposed], FY2024);
+        const fy2025 = calculateBookTaxDifferences([disposed], { start: '2025-01-01', end: '2025-12-31' });
+
+        expect(fy2024.totalAddBack).toBe(36000);
+        expect(fy2025.lines[0].disposalAdjustment).toBe(-54000);
+        // Over the life of the asset book and tax charges agree
+        expect(fy2024.totalAddBack + fy2025.totalAddBack).toBe(0);
+    });
+});
+
+// ============================================================================
+// CIT add-back
+// ============================================================================
+
+describe('generateClosingEntries', () => {
+    const gl = (account_code: string, debit: number, credit: number): PostedGLEntry => ({
+        id: `GL-${account_code}`,
+        clientId: 'C-TAX-TEST',
+        date: '2024-12-31',
+        doc_no: 'JV-1',
+        description: 'Test',
+        account_code,
+        account_name: account_code,
+        debit,
+        credit,
+    });
+
+    it('should compute CIT on profit plus the depreciation add-back', () => {
+        const entries = [gl('41100', 0, 200000), gl('53400', 60000, 0)];
+
+        const result = generateClosingEntries(entries, 'C-TAX-TEST', '2024-12', 0.20, 36000);
+
+        expect(result.profitBeforeTax).toBe(140000);
+        expect(result.taxableProfit).toBe(176000);
+        expect(result.citAmount).toBe(35200);
+        expect(result.netProfit).toBe(104800);
+    });
+});
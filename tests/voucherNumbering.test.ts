@@ -0,0 +1,85 @@
+/**
+ * Voucher Numbering Service - Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PostedGLEntry } from '../types';
+import {
+    DEFAULT_SEQUENCE_CONFIG,
+    formatVoucherNo,
+    getPeriodKey,
+    postVoucher,
+    postDraftVouchers,
+    updateSequenceConfig,
+} from '../services/voucherNumbering';
+
+const CLIENT_ID = 'C-VOUCHER-TEST';
+
+const lines = (date: string, amount = 1000): Omit<PostedGLEntry, 'id' | 'doc_no'>[] => [
+    { clientId: CLIENT_ID, date, description: 'Test', account_code: '52200', account_name: 'Rent', debit: amount, credit: 0 },
+    { clientId: CLIENT_ID, date, description: 'Test', account_code: '11200', account_name: 'Bank', debit: 0, credit: amount },
+];
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+describe('formatVoucherNo', () => {
+    it('should format monthly and yearly sequences', () => {
+        expect(formatVoucherNo(DEFAULT_SEQUENCE_CONFIG.JV, getPeriodKey('2024-03-15', 'monthly'), 7)).toBe('JV-202403-0007');
+        expect(formatVoucherNo({ ...DEFAULT_SEQUENCE_CONFIG.PV, reset: 'yearly', padding: 5 }, getPeriodKey('2024-03-15', 'yearly'), 12)).toBe('PV-2024-00012');
+    });
+});
+
+// ============================================================================
+// Posting (demo mode / localStorage)
+// ============================================================================
+
+describe('postVoucher', () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+        // tests/setup.ts mocks localStorage as a no-op; back it with a map here
+        store = {};
+        vi.mocked(localStorage.getItem).mockImplementation(key => store[key] ?? null);
+        vi.mocked(localStorage.setItem).mockImplementation((key, value) => { store[key] = value; });
+    });
+
+    it('should issue consecutive numbers per journal type and period', async () => {
+        const first = await postVoucher({ clientId: CLIENT_ID, journalType: 'JV', date: '2024-03-01', entries: lines('2024-03-01'), userId: 'u1' });
+        const second = await postVoucher({ clientId: CLIENT_ID, journalType: 'JV', date: '2024-03-20', entries: lines('2024-03-20'), userId: 'u1' });
+        const payment = await postVoucher({ clientId: CLIENT_ID, journalType: 'PV', date: '2024-03-20', entries: lines('2024-03-20'), userId: 'u1' });
+        const nextMonth = await postVoucher({ clientId: CLIENT_ID, journalType: 'JV', date: '2024-04-02', entries: lines('2024-04-02'), userId: 'u1' });
+
+        expect(first.docNo).toBe('JV-202403-0001');
+        expect(second.docNo).toBe('JV-202403-0002');
+        expect(payment.docNo).toBe('PV-202403-0001');
+        expect(nextMonth.docNo).toBe('JV-202404-0001');
+    });
+
+    it('should not consume a number when validation fails', async () => {
+        const unbalanced = lines('2024-03-01');
+        unbalanced[1] = { ...unbalanced[1], credit: 10 };
+
+        const rejected = await postVoucher({ clientId: CLIENT_ID, journalType: 'JV', date: '2024-03-01', entries: unbalanced, userId: 'u1' });
+        const posted = await postVoucher({ clientId: CLIENT_ID, journalType: 'JV', date: '2024-03-01', entries: lines('2024-03-01'), userId: 'u1' });
+
+        expect(rejected.success).toBe(false);
+        expect(posted.docNo).toBe('JV-202403-0001');
+    });
+
+    it('should apply a configured prefix and yearly reset', async () => {
+        await updateSequenceConfig(CLIENT_ID, 'SV', { prefix: 'INV', reset: 'yearly' }, 'u1');
+        const result = await postVoucher({ clientId: CLIENT_ID, journalType: 'SV', date: '2024-03-01', entries: lines('2024-03-01'), userId: 'u1' });
+        expect(result.docNo).toBe('INV-2024-0001');
+    });
+
+    it('should number draft vouchers from generators and keep the draft key', async () => {
+        const drafts = [
+            ...lines('2024-03-31').map(e => ({ ...e, doc_no: 'JV-DEPRE-2024-03' })),
+            ...lines('2024-03-31', 500).map(e => ({ ...e, doc_no: 'JV-CLOSE-2024-03' })),
+        ];
+        const results = await postDraftVouchers(CLIENT_ID, 'JV', drafts, 'system');
+        expect(results.map(r => r.docNo)).toEqual(['JV-202403-0001', 'JV-202403-0002']);
+    });
+});
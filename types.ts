@@ -5,6 +5,7 @@ export interface JournalLine {
   account_side: 'DEBIT' | 'CREDIT';
   account_name_th: string;
   department_code?: string; // NEW: Cost Center / Project
+  branch_code?: string; // Overrides the document's branch for this line
   amount: number;
   auto_mapped?: boolean; // NEW: Flag for Rule-based automation
 }
@@ -46,6 +47,8 @@ export interface HeaderData {
   issue_date: string;
   inv_number: string;
   currency: string;
+  exchange_rate?: number; // THB per 1 unit of currency, when stated on the document
+  due_date?: string; // Payment due date, when stated on the document (AR/AP aging)
   vat_period?: TaxPeriod; // NEW: For VAT reporting period
 }
 
@@ -65,7 +68,7 @@ export interface TaxCompliance {
   is_full_tax_invoice: boolean;
   vat_claimable: boolean;
   wht_flag: boolean;
-  wht_code?: 'PND3' | 'PND53'; // Added tax form type
+  wht_code?: 'PND3' | 'PND53' | 'PND54'; // PND54 = payments to foreign entities
   wht_rate?: number;
   wht_details?: WHTDetails; // NEW: For 50 Tawi specific fields
 }
@@ -130,9 +133,14 @@ export interface DocumentRecord {
   assigned_to: string | null; // Staff ID
   client_name: string;
   clientId?: string; // Client ID reference for multi-tenancy
-  amount: number;
+  amount: number; // THB
   selected?: boolean; // For Batch Operations
 
+  // Foreign-currency documents (amount above is the THB equivalent)
+  currency?: string; // ISO 4217, e.g. "USD"
+  exchange_rate?: number; // THB per 1 unit of currency
+  foreign_amount?: number;
+
   // File Storage References
   file_url?: string; // Firebase Storage download URL
   storage_path?: string; // Firebase Storage path for deletion/management
@@ -213,6 +221,8 @@ export interface Client {
   status: 'Active' | 'Suspended';
   assigned_staff_id: string;
   last_closing_date: string;
+  fiscal_year_end_month?: number; // 1-12, defaults to 12 (December)
+  inventory_system?: InventorySystem; // Defaults to perpetual
   current_workflow?: MonthlyWorkflow; // Made optional to prevent errors
   client_requests?: ClientRequest[];
   published_reports?: PublishedReport[];
@@ -234,6 +244,47 @@ export interface GLAccount {
   name: string;
 }
 
+// NEW: Per-client Chart of Accounts (seeded from industry templates, versioned)
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface ChartOfAccount {
+  code: string;
+  name: string;
+  nameTh: string;
+  type: AccountType;
+  subType?: string;
+  isActive: boolean;
+  normalBalance: 'debit' | 'credit';
+  parentCode?: string;
+  mergedInto?: string; // Set when the account was merged into another code
+}
+
+export type ChartTemplateId = 'standard' | 'restaurant' | 'ecommerce' | 'services' | 'construction';
+
+export type ChartChangeAction = 'seed' | 'add' | 'update' | 'deactivate' | 'reactivate' | 'merge' | 'template_sync';
+
+export interface ChartChangeRecord {
+  version: number; // Chart version produced by this change
+  action: ChartChangeAction;
+  accountCode?: string;
+  targetCode?: string; // Merge target
+  detail: string;
+  changedAt: string; // ISO Date
+  changedBy: string; // Staff ID
+}
+
+export interface ClientChartOfAccounts {
+  id: string; // Same as clientId (one chart per client)
+  clientId: string;
+  templateId: ChartTemplateId;
+  templateVersion: number;
+  version: number; // Incremented on every change
+  accounts: ChartOfAccount[];
+  history: ChartChangeRecord[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
 // NEW: Posted GL Entry for History
 export interface PostedGLEntry {
   id: string;
@@ -244,6 +295,7 @@ export interface PostedGLEntry {
   account_code: string;
   account_name: string;
   department_code?: string; // Cost Center / Project Support
+  branch_code?: string; // RD branch number, "00000" = head office
   debit: number;
   credit: number;
   system_generated?: boolean; // To identify auto-closing entries
@@ -253,6 +305,297 @@ export interface PostedGLEntry {
   month?: string; // "01"-"12"
   period?: string; // "2024-01" format for filtering
   source_doc_id?: string; // Link to original document
+  journal_type?: JournalType; // Voucher sequence the doc_no was drawn from
+  reference_no?: string; // External reference (invoice no. etc.) when doc_no is a voucher number
+
+  // Foreign currency (debit/credit above are always THB)
+  currency?: string; // ISO 4217, e.g. "USD"; absent means THB
+  exchange_rate?: number; // THB per 1 unit of currency used for this line
+  foreign_debit?: number;
+  foreign_credit?: number;
+
+  // Reversal links (posted entries are never edited or deleted)
+  reversal_of?: string; // doc_no of the voucher this entry reverses
+  reversed_by?: string; // doc_no of the voucher that reversed this entry
+  reversed_at?: string; // ISO timestamp the reversal was posted
+}
+
+// Daily exchange rates (Bank of Thailand style: THB per 1 unit of currency)
+export interface ExchangeRate {
+  id: string; // `${currency}_${date}`
+  currency: string;
+  date: string; // YYYY-MM-DD
+  buying: number; // Buying transfer rate - used for assets / receivables
+  selling: number; // Selling rate - used for liabilities / payables
+  mid: number;
+  source: 'BOT' | 'manual';
+  importedAt: string;
+}
+
+// Voucher numbering: one gap-free sequence per client, journal type and period
+export type JournalType = 'JV' | 'PV' | 'RV' | 'SV' | 'PJ';
+export type VoucherResetPolicy = 'yearly' | 'monthly';
+
+export interface VoucherSequenceConfig {
+  journalType: JournalType;
+  prefix: string; // "JV" -> JV-202403-0001
+  reset: VoucherResetPolicy;
+  padding: number; // Digits in the running number
+}
+
+export interface ClientVoucherConfig {
+  id: string; // = clientId
+  clientId: string;
+  sequences: Record<JournalType, VoucherSequenceConfig>;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface VoucherSequence {
+  id: string; // `${clientId}_${journalType}_${periodKey}`
+  clientId: string;
+  journalType: JournalType;
+  periodKey: string; // "2024" (yearly) or "2024-03" (monthly)
+  lastNumber: number;
+  updatedAt: string;
+}
+
+// Cost centers / projects (segment reporting on department_code)
+export interface CostCenter {
+  code: string; // Matches department_code on journal lines, e.g. "BR01"
+  name: string;
+  type: 'department' | 'project' | 'branch';
+  isActive: boolean;
+}
+
+export type AllocationMethod = 'fixed' | 'revenue_share';
+
+// Splits a shared expense pool across cost centers at period end
+export interface AllocationRule {
+  id: string;
+  name: string; // e.g. "ค่าเช่าสำนักงานใหญ่"
+  accountCodes: string[]; // Expense accounts (or prefixes) to allocate, e.g. ["52200", "524"]
+  sourceCostCenter?: string; // Pool to allocate from; empty = lines without department_code
+  method: AllocationMethod;
+  targets: { costCenter: string; percentage?: number }[]; // percentage required for 'fixed', summing to 100
+  isActive: boolean;
+}
+
+export interface ClientCostCenterSetup {
+  id: string; // = clientId
+  clientId: string;
+  costCenters: CostCenter[];
+  allocationRules: AllocationRule[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Budgets (budget vs actual)
+export type BudgetVersionType = 'original' | 'revised';
+
+export interface BudgetLine {
+  accountCode: string;
+  accountName?: string;
+  monthly: number[]; // 12 amounts, January-December, in the account's normal balance
+}
+
+export interface Budget {
+  id: string; // `${clientId}_${fiscalYear}_v${version}`
+  clientId: string;
+  fiscalYear: number;
+  version: number; // 1 = original, 2+ = revisions
+  versionType: BudgetVersionType;
+  lines: BudgetLine[];
+  note?: string;
+  sourceFile?: string;
+  importedAt: string;
+  importedBy: string;
+}
+
+// Fiscal year-end close (ปิดบัญชีสิ้นปี); reopening keeps the record with status 'reopened'
+export interface FiscalYearClose {
+  id: string; // `${clientId}_FY${fiscalYear}`
+  clientId: string;
+  fiscalYear: number; // Calendar year in which the fiscal year ends
+  periodStart: string;
+  periodEnd: string;
+  status: 'closed' | 'reopened';
+  closingDocNo?: string; // Year-end closing voucher (none when P&L was already zero)
+  openingDocNo?: string; // Opening balance voucher of the next fiscal year
+  netProfit: number;
+  closedAt: string;
+  closedBy: string;
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+// Prepaid expense / deferred income / accrual schedule (ตารางตัดจ่ายและรับรู้รายได้)
+// accountCode is the balance sheet side, expenseAccountCode the P&L side (revenue for income types)
+export type AmortizationScheduleType = 'prepaid' | 'accrued_expense' | 'accrued_income' | 'deferred';
+
+export interface AmortizationSchedule {
+  id: string;
+  clientId: string;
+  type: AmortizationScheduleType;
+  description: string;
+  vendorOrCustomer: string;
+  originalAmount: number;
+  periodMonths: number;
+  startDate: string; // YYYY-MM-DD, first month recognized
+  monthlyAmount: number;
+  recognizedToDate: number;
+  remainingAmount: number;
+  accountCode: string;
+  expenseAccountCode: string;
+  status: 'active' | 'completed' | 'terminated';
+  lastRecognizedPeriod?: string; // YYYY-MM
+  sourceDocId?: string; // Document the schedule was suggested from
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+  terminatedAt?: string;
+  terminatedBy?: string;
+  terminationReason?: string;
+}
+
+// Group consolidation (งบการเงินรวม) across related clients
+// An elimination rule pairs reciprocal accounts, e.g. parent's intercompany
+// receivable with the subsidiary's payable, or investment with share capital
+export interface IntercompanyEliminationRule {
+  id: string;
+  description: string;
+  fromClientId: string;
+  fromAccountCode: string;
+  toClientId: string;
+  toAccountCode: string;
+}
+
+export interface ConsolidationGroup {
+  id: string;
+  name: string;
+  parentClientId: string; // Holding company
+  memberClientIds: string[]; // Includes the parent
+  eliminationRules: IntercompanyEliminationRule[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+// Recurring journal template (รายการบันทึกบัญชีประจำ), e.g. rent, loan interest, management fee
+// A line's amount is fixed unless it takes a formula from the template's loan table
+export type RecurringJournalFrequency = 'monthly' | 'quarterly' | 'yearly';
+export type RecurringAmountFormula = 'loan_interest' | 'loan_principal' | 'loan_installment';
+
+export interface RecurringJournalLine {
+  account_code: string;
+  account_name: string;
+  side: 'DEBIT' | 'CREDIT';
+  amount: number; // Ignored when formula is set
+  formula?: RecurringAmountFormula;
+  department_code?: string;
+}
+
+export interface RecurringLoanTerms {
+  principal: number;
+  annualRate: number; // Percent, e.g. 6.5
+  termPeriods: number; // Installments, one per occurrence
+}
+
+export interface RecurringJournalTemplate {
+  id: string;
+  clientId: string;
+  name: string;
+  description: string; // GL line description
+  lines: RecurringJournalLine[];
+  frequency: RecurringJournalFrequency;
+  postingDay: number; // Day of month, 0 = month-end
+  startDate: string; // YYYY-MM-DD, first occurrence in this month
+  endDate?: string; // YYYY-MM-DD, last month included
+  loan?: RecurringLoanTerms;
+  autoPost: boolean; // Post valid drafts without review
+  isActive: boolean;
+  postedPeriods: string[]; // YYYY-MM occurrences already posted
+  skippedPeriods: string[]; // YYYY-MM occurrences the reviewer dismissed
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+// Notes to the financial statements (หมายเหตุประกอบงบการเงิน)
+// Narratives are templates with {{placeholders}} filled from the ledger and client master
+export type FinancialNoteKey = 'general' | 'basis' | 'policies' | 'cash' | 'receivables' | 'ppe' | 'related_parties' | 'tax';
+
+export interface FinancialNoteTemplates {
+  clientId: string;
+  narratives: Partial<Record<FinancialNoteKey, string>>; // Overrides of the standard wording
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// DBD e-Filing: accounts mapped to elements of the DBD XBRL taxonomy
+export interface DBDMappingRule {
+  prefix: string; // Account code or its leading digits; the longest matching prefix wins
+  element: string; // Taxonomy element id, e.g. CashAndCashEquivalents
+}
+
+export interface ClientDBDMapping {
+  clientId: string;
+  rules: DBDMappingRule[]; // Take precedence over the standard mapping
+  updatedAt: string;
+  updatedBy: string;
+}
+
+// Inventory subledger (สินค้าคงเหลือ)
+// Perpetual posts COGS as sales are recorded; periodic derives it from the month-end count
+export type InventorySystem = 'perpetual' | 'periodic';
+export type InventoryCostingMethod = 'fifo' | 'weighted_average';
+
+export interface InventoryItem {
+  id: string;
+  clientId: string;
+  sku: string;
+  name: string;
+  unit: string;
+  costingMethod: InventoryCostingMethod;
+  inventoryAccountCode: string; // 11400 or a sub-account
+  cogsAccountCode: string; // 51100 or a sub-account
+  isActive: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+export type StockMovementType = 'opening' | 'purchase' | 'sale' | 'count_adjustment';
+export type StockMovementSource = 'manual' | 'document' | 'platform_order' | 'pos' | 'stock_count';
+
+export interface StockMovement {
+  id: string;
+  clientId: string;
+  itemId: string;
+  date: string; // YYYY-MM-DD
+  type: StockMovementType;
+  quantity: number; // Positive in, negative out
+  unitCost: number; // Purchase cost for receipts, FIFO/average cost for issues
+  totalCost: number; // Signed like quantity
+  source: StockMovementSource;
+  sourceRef?: string; // Document id, platform order number or POS reference
+  doc_no?: string; // Voucher that posted the movement's cost
+  createdAt: string;
+  createdBy: string;
+}
+
+// Period lock per client and month, enforced by Firestore rules and the posting API
+export interface PeriodLock {
+  id: string; // `${clientId}_${period}`
+  clientId: string;
+  period: string; // "2024-02"
+  is_locked: boolean;
+  locked_at?: string;
+  locked_by?: string;
+  unlocked_at?: string;
+  unlocked_by?: string;
+  unlock_reason?: string;
 }
 
 // NEW: Fixed Asset for Register
@@ -266,8 +609,45 @@ export interface FixedAsset {
   cost: number;
   residual_value: number;
   useful_life_years: number;
-  accumulated_depreciation_bf: number; // Brought forward
+  accumulated_depreciation_bf: number; // Booked to date (through depreciated_through when set)
   current_month_depreciation: number;
+
+  // Depreciation method (straight-line when absent)
+  depreciation_method?: DepreciationMethod;
+  declining_balance_rate?: number; // Multiple of the straight-line rate, e.g. 2 = double-declining
+  total_units?: number; // Units of production: expected lifetime output
+  units_by_period?: Record<string, number>; // Units of production: output per YYYY-MM
+  depreciated_through?: string; // YYYY-MM; last month included in accumulated_depreciation_bf
+
+  department_code?: string; // Branch / cost center the asset belongs to
+  accumulated_impairment?: number;
+
+  // Tax-basis depreciation (Revenue Code)
+  is_passenger_car?: boolean; // Passenger cars up to 10 seats: depreciable tax cost capped at 1,000,000 THB
+  tax_depreciation_rate?: number; // Annual % claimed for tax; capped at the Revenue Department maximum
+
+  // Disposal
+  status?: 'active' | 'disposed';
+  disposal_date?: string;
+  disposal_proceeds?: number;
+  disposal_gain_loss?: number; // Positive = gain
+
+  history?: FixedAssetEvent[];
+}
+
+export type DepreciationMethod = 'straight_line' | 'declining_balance' | 'units_of_production';
+
+// Lifecycle events recorded against an asset
+export interface FixedAssetEvent {
+  type: 'impairment' | 'transfer' | 'disposal';
+  date: string; // YYYY-MM-DD
+  amount?: number; // Impairment loss or disposal proceeds
+  from?: string; // department_code before a transfer
+  to?: string; // department_code after a transfer
+  doc_no?: string; // Voucher posted for the event
+  note?: string;
+  by: string;
+  at: string; // ISO timestamp
 }
 
 // NEW: Automation Rules
@@ -5,6 +5,7 @@
 
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { VATTaxReport, formatVATBranch, getVATTaxReportHeaders } from '../services/vatReturn';
 
 // Extend jsPDF type for autoTable
 declare module 'jspdf' {
@@ -147,6 +148,69 @@ export const generateVATReportPDF = (
   doc.save(filename);
 };
 
+/**
+ * Statutory input/output tax report PDF, one printed page per report page
+ * Each page shows the amount brought forward, the page total and the amount carried forward.
+ */
+export const generateVATTaxReportPDF = (report: VATTaxReport): void => {
+  const doc = new jsPDF('l', 'mm', 'a4');
+
+  report.pages.forEach((page, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.setFontSize(14);
+    doc.text(report.title, 148.5, 14, { align: 'center' });
+    doc.setFontSize(9);
+    doc.text(`เดือนภาษี ${report.taxPeriod.month} ปี ${report.taxPeriod.year}`, 148.5, 20, { align: 'center' });
+    doc.text(`ชื่อผู้ประกอบการ: ${report.taxpayerName}`, 14, 28);
+    doc.text(`เลขประจำตัวผู้เสียภาษีอากร: ${report.taxpayerTaxId}`, 283, 28, { align: 'right' });
+    doc.text(`สถานประกอบการ: ${formatVATBranch(report.taxpayerBranch)}`, 14, 34);
+    doc.text(`หน้าที่ ${page.pageNo}/${report.pages.length}`, 283, 34, { align: 'right' });
+
+    const totalRow = (label: string, totals: { baseAmount: number; vatAmount: number }) =>
+      ['', '', '', label, '', '', formatCurrency(totals.baseAmount), formatCurrency(totals.vatAmount)];
+    const isLast = index === report.pages.length - 1;
+
+    autoTable(doc, {
+      startY: 38,
+      head: [getVATTaxReportHeaders(report.type)],
+      body: [
+        ...(index > 0 ? [totalRow('ยอดยกมา', page.broughtForward)] : []),
+        ...page.rows.map(r => [
+          r.sequence.toString(),
+          r.date,
+          r.invoiceNo,
+          r.counterpartyName,
+          r.counterpartyTaxId || '-',
+          formatVATBranch(r.counterpartyBranch),
+          formatCurrency(r.baseAmount),
+          formatCurrency(r.vatAmount),
+        ]),
+      ],
+      foot: [
+        totalRow(`รวมหน้า ${page.pageNo}`, page.pageTotal),
+        totalRow(isLast ? 'รวมทั้งสิ้น' : 'ยอดยกไป', page.carriedForward),
+      ],
+      showFoot: 'lastPage',
+      styles: { font: 'helvetica', fontSize: 8 },
+      headStyles: { fillColor: [59, 130, 246] },
+      footStyles: { fillColor: [241, 245, 249], textColor: [0, 0, 0], fontStyle: 'bold' },
+      columnStyles: {
+        0: { cellWidth: 14 },
+        1: { cellWidth: 24 },
+        2: { cellWidth: 32 },
+        3: { cellWidth: 70 },
+        4: { cellWidth: 34 },
+        5: { cellWidth: 30 },
+        6: { cellWidth: 32, halign: 'right' },
+        7: { cellWidth: 32, halign: 'right' }
+      }
+    });
+  });
+
+  doc.save(`${report.type === 'purchase' ? 'VAT_Input' : 'VAT_Output'}_${report.taxpayerTaxId}_${report.taxPeriod.year}${report.taxPeriod.month}.pdf`);
+};
+
 /**
  * Generate WHT Certificate PDF (หนังสือรับรองการหักภาษี ณ ที่จ่าย)
  */
@@ -523,6 +587,10 @@ const generatePrintableHTML = (data: ReportData): string => {
           background-color: #f9f9f9;
         }
 
+        .page-break {
+          page-break-before: always;
+        }
+
         .footer {
           margin-top: 30px;
           padding-top: 20px;
@@ -661,51 +729,136 @@ export const generateTrialBalanceContent = (
   `;
 };
 
+/**
+ * Generate General Ledger HTML content, one table per account
+ */
+export const generateGeneralLedgerContent = (
+  accounts: {
+    code: string;
+    name: string;
+    openingBalance: number;
+    lines: { date: string; docNo: string; description: string; debit: number; credit: number; balance: number }[];
+    totalDebit: number;
+    totalCredit: number;
+    closingBalance: number;
+  }[]
+): string => {
+  const money = (amount: number) => amount.toLocaleString('th-TH', { minimumFractionDigits: 2 });
+
+  return accounts.map(account => `
+    <h3>${account.code} ${account.name}</h3>
+    <table>
+      <thead>
+        <tr>
+          <th style="width: 12%">วันที่</th>
+          <th style="width: 14%">เลขที่เอกสาร</th>
+          <th style="width: 32%">คำอธิบาย</th>
+          <th style="width: 14%" class="text-right">เดบิต</th>
+          <th style="width: 14%" class="text-right">เครดิต</th>
+          <th style="width: 14%" class="text-right">คงเหลือ</th>
+        </tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td colspan="5">ยอดยกมา</td>
+          <td class="text-right">${money(account.openingBalance)}</td>
+        </tr>
+        ${account.lines.map(line => `
+        <tr>
+          <td>${line.date}</td>
+          <td>${line.docNo}</td>
+          <td>${line.description}</td>
+          <td class="text-right">${line.debit > 0 ? money(line.debit) : '-'}</td>
+          <td class="text-right">${line.credit > 0 ? money(line.credit) : '-'}</td>
+          <td class="text-right">${money(line.balance)}</td>
+        </tr>
+        `).join('')}
+        <tr class="total-row">
+          <td colspan="3" class="text-right">รวม / ยอดยกไป</td>
+          <td class="text-right">${money(account.totalDebit)}</td>
+          <td class="text-right">${money(account.totalCredit)}</td>
+          <td class="text-right">${money(account.closingBalance)}</td>
+        </tr>
+      </tbody>
+    </table>
+  `).join('');
+};
+
+/**
+ * Column headers and amount cells for comparative statements
+ */
+const comparativeHeader = (columns?: [string, string]): string => columns ? `
+  <thead>
+    <tr>
+      <th></th>
+      <th class="text-right">${columns[0]}</th>
+      <th class="text-right">${columns[1]}</th>
+    </tr>
+  </thead>
+` : '';
+
+const amountCells = (amount: number, previous: number | undefined, negative = false, bold = false): string => {
+  const cell = (value: number) => {
+    const text = value.toLocaleString('th-TH', { minimumFractionDigits: 2 });
+    const formatted = negative ? `(${text})` : text;
+    return `<td class="text-right">${bold ? `<strong>${formatted}</strong>` : formatted}</td>`;
+  };
+  return cell(amount) + (previous !== undefined ? cell(previous) : '');
+};
+
 /**
  * Generate Profit & Loss HTML content
+ * Pass `columns` and `previous` (and previousAmount on expenses) for a comparative statement
  */
 export const generatePnLContent = (data: {
   revenue: number;
   costOfSales: number;
   grossProfit: number;
-  expenses: { name: string; amount: number }[];
+  expenses: { name: string; amount: number; previousAmount?: number }[];
   netProfit: number;
+  columns?: [string, string];
+  previous?: { revenue: number; costOfSales: number; grossProfit: number; netProfit: number };
 }): string => {
+  const prior = data.previous;
+  const colspan = prior ? 3 : 2;
+
   const expenseRows = data.expenses.map(exp => `
     <tr>
       <td style="padding-left: 20px">${exp.name}</td>
-      <td class="text-right">${exp.amount.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</td>
+      ${amountCells(exp.amount, prior ? exp.previousAmount || 0 : undefined)}
     </tr>
   `).join('');
 
   const totalExpenses = data.expenses.reduce((sum, exp) => sum + exp.amount, 0);
+  const previousExpenses = prior ? data.expenses.reduce((sum, exp) => sum + (exp.previousAmount || 0), 0) : undefined;
 
   return `
     <table>
+      ${prior ? comparativeHeader(data.columns) : ''}
       <tbody>
         <tr>
           <td><strong>รายได้</strong></td>
-          <td class="text-right"><strong>${data.revenue.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.revenue, prior?.revenue, false, true)}
         </tr>
         <tr>
           <td>ต้นทุนขาย</td>
-          <td class="text-right">(${data.costOfSales.toLocaleString('th-TH', { minimumFractionDigits: 2 })})</td>
+          ${amountCells(data.costOfSales, prior?.costOfSales, true)}
         </tr>
         <tr class="total-row">
           <td><strong>กำไรขั้นต้น</strong></td>
-          <td class="text-right"><strong>${data.grossProfit.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.grossProfit, prior?.grossProfit, false, true)}
         </tr>
         <tr>
-          <td colspan="2"><strong>ค่าใช้จ่ายดำเนินงาน</strong></td>
+          <td colspan="${colspan}"><strong>ค่าใช้จ่ายดำเนินงาน</strong></td>
         </tr>
         ${expenseRows}
         <tr>
           <td style="padding-left: 20px"><strong>รวมค่าใช้จ่าย</strong></td>
-          <td class="text-right"><strong>(${totalExpenses.toLocaleString('th-TH', { minimumFractionDigits: 2 })})</strong></td>
+          ${amountCells(totalExpenses, previousExpenses, true, true)}
         </tr>
         <tr class="total-row">
           <td><strong>กำไร (ขาดทุน) สุทธิ</strong></td>
-          <td class="text-right"><strong>${data.netProfit.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.netProfit, prior?.netProfit, false, true)}
         </tr>
       </tbody>
     </table>
@@ -714,68 +867,114 @@ export const generatePnLContent = (data: {
 
 /**
  * Generate Balance Sheet HTML content
+ * Pass `columns` and `previous` (and previousAmount on items) for a comparative statement
  */
 export const generateBalanceSheetContent = (data: {
-  assets: { name: string; amount: number }[];
-  liabilities: { name: string; amount: number }[];
-  equity: { name: string; amount: number }[];
+  assets: { name: string; amount: number; previousAmount?: number }[];
+  liabilities: { name: string; amount: number; previousAmount?: number }[];
+  equity: { name: string; amount: number; previousAmount?: number }[];
   totalAssets: number;
   totalLiabilities: number;
   totalEquity: number;
+  columns?: [string, string];
+  previous?: { totalAssets: number; totalLiabilities: number; totalEquity: number };
 }): string => {
-  const assetRows = data.assets.map(a => `
-    <tr>
-      <td>${a.name}</td>
-      <td class="text-right">${a.amount.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</td>
-    </tr>
-  `).join('');
-
-  const liabilityRows = data.liabilities.map(l => `
-    <tr>
-      <td>${l.name}</td>
-      <td class="text-right">${l.amount.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</td>
-    </tr>
-  `).join('');
+  const prior = data.previous;
+  const colspan = prior ? 3 : 2;
 
-  const equityRows = data.equity.map(e => `
+  const rows = (items: { name: string; amount: number; previousAmount?: number }[]) => items.map(item => `
     <tr>
-      <td>${e.name}</td>
-      <td class="text-right">${e.amount.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</td>
+      <td>${item.name}</td>
+      ${amountCells(item.amount, prior ? item.previousAmount || 0 : undefined)}
     </tr>
   `).join('');
 
   return `
     <table>
+      ${prior ? comparativeHeader(data.columns) : ''}
       <tbody>
         <tr>
-          <td colspan="2"><strong>สินทรัพย์</strong></td>
+          <td colspan="${colspan}"><strong>สินทรัพย์</strong></td>
         </tr>
-        ${assetRows}
+        ${rows(data.assets)}
         <tr class="total-row">
           <td><strong>รวมสินทรัพย์</strong></td>
-          <td class="text-right"><strong>${data.totalAssets.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.totalAssets, prior?.totalAssets, false, true)}
         </tr>
-        <tr><td colspan="2">&nbsp;</td></tr>
+        <tr><td colspan="${colspan}">&nbsp;</td></tr>
         <tr>
-          <td colspan="2"><strong>หนี้สิน</strong></td>
+          <td colspan="${colspan}"><strong>หนี้สิน</strong></td>
         </tr>
-        ${liabilityRows}
+        ${rows(data.liabilities)}
         <tr class="total-row">
           <td><strong>รวมหนี้สิน</strong></td>
-          <td class="text-right"><strong>${data.totalLiabilities.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.totalLiabilities, prior?.totalLiabilities, false, true)}
         </tr>
-        <tr><td colspan="2">&nbsp;</td></tr>
+        <tr><td colspan="${colspan}">&nbsp;</td></tr>
         <tr>
-          <td colspan="2"><strong>ส่วนของผู้ถือหุ้น</strong></td>
+          <td colspan="${colspan}"><strong>ส่วนของผู้ถือหุ้น</strong></td>
         </tr>
-        ${equityRows}
+        ${rows(data.equity)}
         <tr class="total-row">
           <td><strong>รวมส่วนของผู้ถือหุ้น</strong></td>
-          <td class="text-right"><strong>${data.totalEquity.toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(data.totalEquity, prior?.totalEquity, false, true)}
         </tr>
         <tr class="total-row">
           <td><strong>รวมหนี้สินและส่วนของผู้ถือหุ้น</strong></td>
-          <td class="text-right"><strong>${(data.totalLiabilities + data.totalEquity).toLocaleString('th-TH', { minimumFractionDigits: 2 })}</strong></td>
+          ${amountCells(
+            data.totalLiabilities + data.totalEquity,
+            prior ? prior.totalLiabilities + prior.totalEquity : undefined,
+            false,
+            true
+          )}
+        </tr>
+      </tbody>
+    </table>
+  `;
+};
+
+/**
+ * Generate Cash Flow Statement HTML content
+ * Amounts are signed (inflow positive); outflows print in brackets
+ */
+export const generateCashFlowContent = (data: {
+  sections: { title: string; totalLabel: string; items: { name: string; amount: number }[]; total: number }[];
+  netChange: number;
+  beginningCash: number;
+  endingCash: number;
+}): string => {
+  const cashCells = (amount: number, bold = false) => amountCells(Math.abs(amount), undefined, amount < 0, bold);
+
+  return `
+    <table>
+      <tbody>
+        ${data.sections.map(section => `
+        <tr>
+          <td colspan="2"><strong>${section.title}</strong></td>
+        </tr>
+        ${section.items.map(item => `
+        <tr>
+          <td>${item.name}</td>
+          ${cashCells(item.amount)}
+        </tr>
+        `).join('')}
+        <tr class="total-row">
+          <td><strong>${section.totalLabel}</strong></td>
+          ${cashCells(section.total, true)}
+        </tr>
+        <tr><td colspan="2">&nbsp;</td></tr>
+        `).join('')}
+        <tr class="total-row">
+          <td><strong>เงินสดเพิ่มขึ้น (ลดลง) สุทธิ</strong></td>
+          ${cashCells(data.netChange, true)}
+        </tr>
+        <tr>
+          <td>เงินสด ณ วันต้นงวด</td>
+          ${cashCells(data.beginningCash)}
+        </tr>
+        <tr class="total-row">
+          <td><strong>เงินสด ณ วันสิ้นงวด</strong></td>
+          ${cashCells(data.endingCash, true)}
         </tr>
       </tbody>
     </table>
@@ -821,3 +1020,22 @@ export const exportToExcel = (
 
   URL.revokeObjectURL(url);
 };
+
+/**
+ * Export a Word-compatible HTML document (opens in Word as .doc)
+ */
+export const exportToWord = (html: string, filename: string): void => {
+  const blob = new Blob(['\uFEFF', html], { type: 'application/msword' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${filename}.doc`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};